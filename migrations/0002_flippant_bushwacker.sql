@@ -0,0 +1,28 @@
+CREATE TYPE "public"."event_exception_type" AS ENUM('skipped', 'rescheduled', 'modified');--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "event_exceptions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"event_id" integer NOT NULL,
+	"occurrence_date" varchar(10) NOT NULL,
+	"exception_type" "event_exception_type" NOT NULL,
+	"event_date" timestamp,
+	"title" varchar(255),
+	"duration" integer,
+	"created_by" text NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "churches" ADD COLUMN "contact_email" varchar(255);--> statement-breakpoint
+ALTER TABLE "churches" ADD COLUMN "contact_phone" varchar(50);--> statement-breakpoint
+ALTER TABLE "churches" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "worship_programs" ADD COLUMN "occurrence_date" varchar(10);--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "event_exceptions" ADD CONSTRAINT "event_exceptions_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "event_exceptions_event_idx" ON "event_exceptions" USING btree ("event_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "event_exceptions_event_date_idx" ON "event_exceptions" USING btree ("event_date");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_event_occurrence" ON "event_exceptions" USING btree ("event_id","occurrence_date");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "programs_event_occurrence_idx" ON "worship_programs" USING btree ("event_id","occurrence_date");
\ No newline at end of file
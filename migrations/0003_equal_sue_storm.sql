@@ -0,0 +1,36 @@
+CREATE TYPE "public"."calendar_feed_scope" AS ENUM('church', 'ministry', 'assignments');--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "calendar_feed_tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"token_hash" varchar(64) NOT NULL,
+	"token_prefix" varchar(8) NOT NULL,
+	"scope" "calendar_feed_scope" NOT NULL,
+	"church_id" integer,
+	"ministry_id" integer,
+	"name" varchar(255),
+	"last_accessed_at" timestamp,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "calendar_feed_tokens" ADD CONSTRAINT "calendar_feed_tokens_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "calendar_feed_tokens" ADD CONSTRAINT "calendar_feed_tokens_church_id_churches_id_fk" FOREIGN KEY ("church_id") REFERENCES "public"."churches"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "calendar_feed_tokens" ADD CONSTRAINT "calendar_feed_tokens_ministry_id_ministries_id_fk" FOREIGN KEY ("ministry_id") REFERENCES "public"."ministries"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "calendar_feeds_user_org_idx" ON "calendar_feed_tokens" USING btree ("user_id","organization_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_calendar_feed_token" ON "calendar_feed_tokens" USING btree ("token_hash");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS "job_runs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"job_name" varchar(100) NOT NULL,
+	"triggered_by" text NOT NULL,
+	"changes" json,
+	"error" text,
+	"started_at" timestamp NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "job_runs_job_started_idx" ON "job_runs" USING btree ("job_name","started_at");
\ No newline at end of file
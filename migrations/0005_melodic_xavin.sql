@@ -0,0 +1,20 @@
+ALTER TYPE "public"."program_status" ADD VALUE 'submitted' BEFORE 'published';--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "program_status_transitions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"program_id" integer NOT NULL,
+	"action" varchar(50) NOT NULL,
+	"from_status" "program_status" NOT NULL,
+	"to_status" "program_status" NOT NULL,
+	"comment" text,
+	"performed_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "program_status_transitions" ADD CONSTRAINT "program_status_transitions_program_id_worship_programs_id_fk" FOREIGN KEY ("program_id") REFERENCES "public"."worship_programs"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "status_transitions_program_created_idx" ON "program_status_transitions" USING btree ("program_id","created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "status_transitions_performed_by_idx" ON "program_status_transitions" USING btree ("performed_by");
\ No newline at end of file
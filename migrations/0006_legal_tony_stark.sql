@@ -0,0 +1,26 @@
+CREATE TABLE IF NOT EXISTS "program_templates" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" text NOT NULL,
+	"ministry_id" integer,
+	"name" varchar(255) NOT NULL,
+	"description" text,
+	"sections" json NOT NULL,
+	"created_by" text NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "program_templates" ADD CONSTRAINT "program_templates_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "program_templates" ADD CONSTRAINT "program_templates_ministry_id_ministries_id_fk" FOREIGN KEY ("ministry_id") REFERENCES "public"."ministries"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "program_templates_organization_idx" ON "program_templates" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "program_templates_ministry_idx" ON "program_templates" USING btree ("ministry_id");
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE IF NOT EXISTS "program_comments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"program_id" integer NOT NULL,
+	"parent_id" integer,
+	"section_id" varchar(100),
+	"hymn_id" integer,
+	"body" text NOT NULL,
+	"mentions" json NOT NULL,
+	"visibility" varchar(50) DEFAULT 'member' NOT NULL,
+	"is_resolved" boolean DEFAULT false NOT NULL,
+	"resolved_by" text,
+	"resolved_at" timestamp,
+	"created_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "program_comments" ADD CONSTRAINT "program_comments_program_id_worship_programs_id_fk" FOREIGN KEY ("program_id") REFERENCES "public"."worship_programs"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "program_comments" ADD CONSTRAINT "program_comments_hymn_id_hymns_id_fk" FOREIGN KEY ("hymn_id") REFERENCES "public"."hymns"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "program_comments_program_created_idx" ON "program_comments" USING btree ("program_id","created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "program_comments_parent_idx" ON "program_comments" USING btree ("parent_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "program_comments_created_by_idx" ON "program_comments" USING btree ("created_by");
\ No newline at end of file
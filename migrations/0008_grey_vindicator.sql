@@ -0,0 +1,2 @@
+ALTER TABLE "program_assignments" ADD COLUMN "declined_at" timestamp;--> statement-breakpoint
+ALTER TABLE "program_assignments" ADD COLUMN "decline_reason" text;
\ No newline at end of file
@@ -0,0 +1,36 @@
+CREATE TABLE IF NOT EXISTS "availability_blackouts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"start_date" varchar(10) NOT NULL,
+	"end_date" varchar(10) NOT NULL,
+	"reason" varchar(255),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "volunteer_availability" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"unavailable_days" json,
+	"max_assignments_per_month" integer,
+	"notes" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "availability_blackouts" ADD CONSTRAINT "availability_blackouts_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "volunteer_availability" ADD CONSTRAINT "volunteer_availability_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "availability_blackouts_user_org_idx" ON "availability_blackouts" USING btree ("user_id","organization_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "availability_blackouts_end_date_idx" ON "availability_blackouts" USING btree ("end_date");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_volunteer_availability" ON "volunteer_availability" USING btree ("organization_id","user_id");
\ No newline at end of file
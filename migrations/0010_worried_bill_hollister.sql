@@ -0,0 +1,49 @@
+CREATE TYPE "public"."skill_category" AS ENUM('instrument', 'vocal', 'tech');--> statement-breakpoint
+CREATE TYPE "public"."skill_proficiency" AS ENUM('beginner', 'intermediate', 'advanced');--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "member_skills" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"skill_id" integer NOT NULL,
+	"proficiency" "skill_proficiency" NOT NULL,
+	"church_id" integer,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "skills" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" text NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"category" "skill_category" NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "member_skills" ADD CONSTRAINT "member_skills_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "member_skills" ADD CONSTRAINT "member_skills_skill_id_skills_id_fk" FOREIGN KEY ("skill_id") REFERENCES "public"."skills"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "member_skills" ADD CONSTRAINT "member_skills_church_id_churches_id_fk" FOREIGN KEY ("church_id") REFERENCES "public"."churches"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "skills" ADD CONSTRAINT "skills_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_member_skill" ON "member_skills" USING btree ("organization_id","user_id","skill_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "member_skills_skill_idx" ON "member_skills" USING btree ("skill_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_skill_name" ON "skills" USING btree ("organization_id","name");
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { useTranslations } from 'next-intl';
+
+import { TitleBar } from '@/features/dashboard/TitleBar';
+import { MyAssignments } from '@/features/worship/components/MyAssignments';
+import { MyAvailability } from '@/features/worship/components/MyAvailability';
+
+const AssignmentsPage = () => {
+  const t = useTranslations('Assignments');
+
+  return (
+    <>
+      <TitleBar
+        title={t('title_bar')}
+        description={t('title_bar_description')}
+      />
+
+      <div className="space-y-6">
+        <MyAssignments />
+        <MyAvailability />
+      </div>
+    </>
+  );
+};
+
+export default AssignmentsPage;
@@ -0,0 +1,65 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { GET, POST } from './route';
+
+const mockEnv = vi.hoisted(() => ({
+  CRON_SECRET: 'cron-secret' as string | undefined,
+}));
+
+vi.mock('@/libs/Env', () => ({
+  Env: mockEnv,
+}));
+
+vi.mock('@/libs/worship/EventLifecycle', () => ({
+  runEventLifecycle: vi.fn(),
+}));
+
+const jobRequest = (method: string, authorization?: string) =>
+  new NextRequest('http://localhost:3000/api/jobs/event-lifecycle', {
+    method,
+    headers: authorization ? { authorization } : {},
+  });
+
+describe('/api/jobs/event-lifecycle', () => {
+  let lifecycle: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockEnv.CRON_SECRET = 'cron-secret';
+    lifecycle = await import('@/libs/worship/EventLifecycle');
+    lifecycle.runEventLifecycle.mockResolvedValue({ id: 1, changes: { completedEventIds: [3] } });
+  });
+
+  it('runs the job for the scheduler and by hand', async () => {
+    const response = await GET(jobRequest('GET', 'Bearer cron-secret'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.changes).toEqual({ completedEventIds: [3] });
+    expect(lifecycle.runEventLifecycle).toHaveBeenCalledWith({ triggeredBy: 'schedule' });
+
+    await POST(jobRequest('POST', 'Bearer cron-secret'));
+
+    expect(lifecycle.runEventLifecycle).toHaveBeenLastCalledWith({ triggeredBy: 'manual' });
+  });
+
+  it('rejects requests without the secret', async () => {
+    expect((await GET(jobRequest('GET'))).status).toBe(401);
+    expect((await GET(jobRequest('GET', 'Bearer wrong'))).status).toBe(401);
+
+    mockEnv.CRON_SECRET = undefined;
+
+    expect((await POST(jobRequest('POST', 'Bearer '))).status).toBe(401);
+    expect(lifecycle.runEventLifecycle).not.toHaveBeenCalled();
+  });
+
+  it('reports failed runs', async () => {
+    lifecycle.runEventLifecycle.mockRejectedValue(new Error('Database error'));
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect((await GET(jobRequest('GET', 'Bearer cron-secret'))).status).toBe(500);
+
+    consoleSpy.mockRestore();
+  });
+});
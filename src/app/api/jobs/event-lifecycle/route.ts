@@ -0,0 +1,67 @@
+import { Buffer } from 'node:buffer';
+import { timingSafeEqual } from 'node:crypto';
+
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { Env } from '@/libs/Env';
+import { runEventLifecycle } from '@/libs/worship/EventLifecycle';
+
+/**
+ * Scheduled jobs have no user session: the scheduler (or a developer running the job by hand)
+ * sends `Authorization: Bearer <CRON_SECRET>`. Without CRON_SECRET the jobs cannot be triggered.
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const secret = Env.CRON_SECRET;
+  const header = request.headers.get('authorization');
+
+  if (!secret || !header) {
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(header);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+async function handleRun(request: NextRequest, triggeredBy: string) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 },
+    );
+  }
+
+  try {
+    const run = await runEventLifecycle({ triggeredBy });
+
+    return NextResponse.json({
+      success: true,
+      data: run,
+    });
+  } catch (error) {
+    console.error('Failed to run event lifecycle job:', error);
+    return NextResponse.json(
+      { error: 'Failed to run event lifecycle job' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * GET /api/jobs/event-lifecycle
+ * Scheduled run: complete past events and their published programs, and count hymn usage
+ */
+export async function GET(request: NextRequest) {
+  return handleRun(request, 'schedule');
+}
+
+/**
+ * POST /api/jobs/event-lifecycle
+ * Manual run of the same job, e.g.
+ * `curl -X POST -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/jobs/event-lifecycle`
+ */
+export async function POST(request: NextRequest) {
+  return handleRun(request, 'manual');
+}
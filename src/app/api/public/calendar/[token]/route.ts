@@ -0,0 +1,45 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { findCalendarFeedByToken, loadFeedCalendar } from '@/libs/worship/CalendarFeeds';
+import { serializeCalendar } from '@/libs/worship/ICalendar';
+
+type RouteParams = {
+  params: {
+    token: string;
+  };
+};
+
+/**
+ * GET /api/public/calendar/[token].ics
+ * iCalendar feed of a church, a ministry or a user's assignments. Calendar apps cannot sign in,
+ * so the feed token in the URL is the only credential.
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const token = params.token.replace(/\.ics$/, '');
+    const feed = token ? await findCalendarFeedByToken(token) : null;
+    const calendar = feed ? await loadFeedCalendar(feed) : null;
+
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'Calendar feed not found' },
+        { status: 404 },
+      );
+    }
+
+    return new NextResponse(serializeCalendar(calendar), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="calendar.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Failed to get calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve calendar feed' },
+      { status: 500 },
+    );
+  }
+}
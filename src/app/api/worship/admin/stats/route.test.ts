@@ -58,6 +58,15 @@ vi.mock('@/middleware/worship-auth', () => ({
   }),
 }));
 
+// Mock the event queries used for this week's and upcoming services
+vi.mock('@/libs/worship/EventQueries', () => ({
+  listEventsInWindow: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock('@/libs/worship/EventSeries', () => ({
+  listExceptionsForEvents: vi.fn().mockResolvedValue([]),
+}));
+
 // Mock Drizzle ORM functions
 vi.mock('drizzle-orm', () => ({
   eq: vi.fn(),
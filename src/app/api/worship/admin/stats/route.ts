@@ -1,17 +1,29 @@
+import { and, count, desc, eq, isNull } from 'drizzle-orm';
 import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
+
 import { db } from '@/libs/DB';
-import { 
+import { buildCalendarEvents } from '@/libs/worship/EventCalendar';
+import { listEventsInWindow } from '@/libs/worship/EventQueries';
+import { listExceptionsForEvents } from '@/libs/worship/EventSeries';
+import { countOccurrencesInRanges } from '@/libs/worship/EventUsage';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+import {
   churchesSchema as churchTable,
-  ministriesSchema as ministryTable, 
+  ministriesSchema as ministryTable,
   servicesSchema as serviceTable,
-  eventsSchema as eventTable,
-  usersSchema as userTable
 } from '@/models/WorshipSchema';
-import { withWorshipAuth } from '@/middleware/worship-auth';
-import { eq, and, count, gte, lte, isNull, desc } from 'drizzle-orm';
+import {
+  addZonedDays,
+  getZonedParts,
+  getZonedWeekRange,
+  isValidTimeZone,
+  normalizeTimeZone,
+  startOfZonedDay,
+  zonedTimeToUtc,
+} from '@/utils/TimeZone';
 
-interface OrganizationalStats {
+type OrganizationalStats = {
   churches: {
     total: number;
     active: number;
@@ -33,33 +45,68 @@ interface OrganizationalStats {
     byRole: { role: string; count: number }[];
     recentActivity: { userId: string; userName: string; action: string; timestamp: string }[];
   };
-}
+};
+
+// Days ahead counted as upcoming services
+const UPCOMING_DAYS = 30;
 
 /**
- * Calculate date ranges based on the selected period
+ * Calculate date ranges based on the selected period. Ranges start at midnight in the given
+ * time zone, so "7d" covers the last seven calendar days of the church.
  */
-function getDateRange(period: string): { startDate: Date; endDate: Date } {
-  const endDate = new Date();
-  const startDate = new Date();
+function getDateRange(period: string, timeZone: string, now = new Date()): { startDate: Date; endDate: Date } {
+  const today = startOfZonedDay(now, timeZone);
+  let startDate: Date;
 
   switch (period) {
     case '7d':
-      startDate.setDate(endDate.getDate() - 7);
-      break;
-    case '30d':
-      startDate.setDate(endDate.getDate() - 30);
+      startDate = addZonedDays(today, -7, timeZone);
       break;
     case '90d':
-      startDate.setDate(endDate.getDate() - 90);
+      startDate = addZonedDays(today, -90, timeZone);
       break;
-    case '1y':
-      startDate.setFullYear(endDate.getFullYear() - 1);
+    case '1y': {
+      const { year, month, day } = getZonedParts(today, timeZone);
+      startDate = zonedTimeToUtc({ year: year - 1, month, day }, timeZone);
       break;
+    }
+    case '30d':
     default:
-      startDate.setDate(endDate.getDate() - 30);
+      startDate = addZonedDays(today, -30, timeZone);
   }
 
-  return { startDate, endDate };
+  return { startDate, endDate: now };
+}
+
+/**
+ * Count service occurrences of the current week, with week boundaries computed in each church's
+ * time zone, and of the coming days
+ */
+async function countServiceOccurrences(
+  organizationId: string,
+  churches: { id: number; timezone: string | null }[],
+  now: Date,
+): Promise<{ thisWeek: number; upcoming: number }> {
+  const weeks = new Map(churches.map(church => [
+    church.id,
+    getZonedWeekRange(now, normalizeTimeZone(church.timezone)),
+  ]));
+  const upcomingEnd = new Date(now.getTime() + UPCOMING_DAYS * 86_400_000);
+  const window = {
+    start: new Date(Math.min(now.getTime(), ...[...weeks.values()].map(week => week.start.getTime()))),
+    end: new Date(Math.max(upcomingEnd.getTime(), ...[...weeks.values()].map(week => week.end.getTime()))),
+  };
+
+  const events = await listEventsInWindow(organizationId, window);
+  const exceptions = await listExceptionsForEvents(events
+    .filter(event => event.eventType === 'recurring')
+    .map(event => event.id));
+  const occurrences = buildCalendarEvents(events, exceptions, window);
+
+  return {
+    thisWeek: countOccurrencesInRanges(occurrences, weeks),
+    upcoming: occurrences.filter(occurrence => occurrence.start >= now && occurrence.start < upcomingEnd).length,
+  };
 }
 
 /**
@@ -71,15 +118,34 @@ async function handleGetOrganizationalStats(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const organizationId = searchParams.get('organizationId');
     const period = searchParams.get('period') || '30d';
+    const requestedTimeZone = searchParams.get('timeZone');
 
     if (!organizationId) {
       return NextResponse.json(
         { error: 'Organization ID is required' },
-        { status: 400 }
+        { status: 400 },
       );
     }
 
-    const { startDate, endDate } = getDateRange(period);
+    const now = new Date();
+    const churchTimeZones = await db
+      .select({
+        id: churchTable.id,
+        timezone: churchTable.timezone,
+      })
+      .from(churchTable)
+      .where(and(
+        eq(churchTable.organizationId, organizationId),
+        isNull(churchTable.deletedAt),
+      ));
+
+    // Use the requested zone, or the zone shared by every church of the organization
+    const sharedTimeZones = new Set(churchTimeZones.map(church => normalizeTimeZone(church.timezone)));
+    const timeZone = isValidTimeZone(requestedTimeZone)
+      ? requestedTimeZone
+      : sharedTimeZones.size === 1 ? [...sharedTimeZones][0]! : normalizeTimeZone(null);
+
+    const { startDate, endDate } = getDateRange(period, timeZone, now);
 
     // Get church statistics
     const [churchStats] = await db
@@ -89,7 +155,7 @@ async function handleGetOrganizationalStats(request: NextRequest) {
       .from(churchTable)
       .where(and(
         eq(churchTable.organizationId, organizationId),
-        isNull(churchTable.deletedAt)
+        isNull(churchTable.deletedAt),
       ));
 
     const [activeChurches] = await db
@@ -100,7 +166,7 @@ async function handleGetOrganizationalStats(request: NextRequest) {
       .where(and(
         eq(churchTable.organizationId, organizationId),
         eq(churchTable.isActive, true),
-        isNull(churchTable.deletedAt)
+        isNull(churchTable.deletedAt),
       ));
 
     const churches = {
@@ -119,7 +185,7 @@ async function handleGetOrganizationalStats(request: NextRequest) {
       .where(and(
         eq(churchTable.organizationId, organizationId),
         eq(churchTable.isActive, true),
-        isNull(churchTable.deletedAt)
+        isNull(churchTable.deletedAt),
       ));
 
     const [activeMinistries] = await db
@@ -132,7 +198,7 @@ async function handleGetOrganizationalStats(request: NextRequest) {
         eq(churchTable.organizationId, organizationId),
         eq(ministryTable.isActive, true),
         eq(churchTable.isActive, true),
-        isNull(churchTable.deletedAt)
+        isNull(churchTable.deletedAt),
       ));
 
     // Get ministry distribution by church
@@ -144,12 +210,12 @@ async function handleGetOrganizationalStats(request: NextRequest) {
       .from(churchTable)
       .leftJoin(ministryTable, and(
         eq(ministryTable.churchId, churchTable.id),
-        eq(ministryTable.isActive, true)
+        eq(ministryTable.isActive, true),
       ))
       .where(and(
         eq(churchTable.organizationId, organizationId),
         eq(churchTable.isActive, true),
-        isNull(churchTable.deletedAt)
+        isNull(churchTable.deletedAt),
       ))
       .groupBy(churchTable.id, churchTable.name)
       .orderBy(churchTable.name);
@@ -160,7 +226,7 @@ async function handleGetOrganizationalStats(request: NextRequest) {
       byChurch: ministriesByChurch,
     };
 
-    // Get service statistics (mock data since we don't have events table yet)
+    // Get service statistics
     const [serviceStats] = await db
       .select({
         total: count(),
@@ -173,7 +239,7 @@ async function handleGetOrganizationalStats(request: NextRequest) {
         eq(serviceTable.isActive, true),
         eq(ministryTable.isActive, true),
         eq(churchTable.isActive, true),
-        isNull(churchTable.deletedAt)
+        isNull(churchTable.deletedAt),
       ));
 
     // Get service types distribution
@@ -190,16 +256,18 @@ async function handleGetOrganizationalStats(request: NextRequest) {
         eq(serviceTable.isActive, true),
         eq(ministryTable.isActive, true),
         eq(churchTable.isActive, true),
-        isNull(churchTable.deletedAt)
+        isNull(churchTable.deletedAt),
       ))
       .groupBy(serviceTable.name)
       .orderBy(desc(count()))
       .limit(5);
 
+    const occurrenceCounts = await countServiceOccurrences(organizationId, churchTimeZones, now);
+
     const services = {
       total: serviceStats.total,
-      upcoming: Math.floor(serviceStats.total * 0.3), // Mock: 30% are upcoming
-      thisWeek: Math.floor(serviceStats.total * 0.15), // Mock: 15% are this week
+      upcoming: occurrenceCounts.upcoming,
+      thisWeek: occurrenceCounts.thisWeek,
       byType: servicesByType,
     };
 
@@ -230,13 +298,14 @@ async function handleGetOrganizationalStats(request: NextRequest) {
       dateRange: {
         start: startDate.toISOString(),
         end: endDate.toISOString(),
+        timeZone,
       },
     });
   } catch (error) {
     console.error('Failed to get organizational stats:', error);
     return NextResponse.json(
       { error: 'Failed to retrieve organizational statistics' },
-      { status: 500 }
+      { status: 500 },
     );
   }
 }
@@ -244,4 +313,4 @@ async function handleGetOrganizationalStats(request: NextRequest) {
 // Apply worship auth middleware - only admins should access this
 export const GET = withWorshipAuth(handleGetOrganizationalStats, {
   minimumRole: 'admin',
-});
\ No newline at end of file
+});
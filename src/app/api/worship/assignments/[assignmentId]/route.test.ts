@@ -0,0 +1,91 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { PATCH } from './route';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/worship-user-management', () => ({
+  getOrganizationMembers: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramAssignments', async importOriginal => ({
+  ...await importOriginal<typeof import('@/libs/worship/ProgramAssignments')>(),
+  findUserAssignment: vi.fn(),
+  respondToAssignment: vi.fn(),
+}));
+
+// Mock middleware by replacing it with a simple pass-through
+vi.mock('@/middleware/worship-auth', () => ({
+  withWorshipAuth: (handler: any) => handler,
+}));
+
+const item = {
+  assignment: { id: 3, userId: 'user-123', role: 'sound', isConfirmed: false, declinedAt: null, assignedBy: 'user-456' },
+  program: { id: 7, title: 'Easter Sunday', status: 'published', occurrenceDate: '2025-04-20' },
+  event: { id: 12, title: 'Sunday Worship' },
+  church: { id: 1, timezone: 'America/Toronto' },
+};
+
+const params = { params: { assignmentId: '3' } };
+
+function answerRequest(body: object) {
+  return new NextRequest('http://localhost:3000/api/worship/assignments/3', {
+    method: 'PATCH',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('/api/worship/assignments/[assignmentId]', () => {
+  let auth: any;
+  let userManagement: any;
+  let programAssignments: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    auth = (await import('@clerk/nextjs/server')).auth;
+    userManagement = await import('@/lib/worship-user-management');
+    programAssignments = await import('@/libs/worship/ProgramAssignments');
+    auth.mockResolvedValue({ userId: 'user-123', orgId: 'org-123' });
+    userManagement.getOrganizationMembers.mockResolvedValue([]);
+    programAssignments.findUserAssignment.mockResolvedValue(item);
+    programAssignments.respondToAssignment.mockResolvedValue({
+      ...item.assignment,
+      declinedAt: new Date('2025-04-01T12:00:00.000Z'),
+      declineReason: 'Away',
+    });
+  });
+
+  it('declines an assignment with a reason', async () => {
+    const response = await PATCH(answerRequest({ accept: false, reason: 'Away' }), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.status).toBe('declined');
+    expect(programAssignments.findUserAssignment).toHaveBeenCalledWith(3, 'user-123', 'org-123');
+    expect(programAssignments.respondToAssignment).toHaveBeenCalledWith(item, 'org-123', { accept: false, reason: 'Away' }, []);
+  });
+
+  it('rejects declines without a reason and assignments of others', async () => {
+    expect((await PATCH(answerRequest({ accept: false }), params)).status).toBe(400);
+
+    programAssignments.findUserAssignment.mockResolvedValue(null);
+
+    expect((await PATCH(answerRequest({ accept: true }), params)).status).toBe(404);
+    expect(programAssignments.respondToAssignment).not.toHaveBeenCalled();
+  });
+
+  it('does not answer assignments of completed programs', async () => {
+    programAssignments.findUserAssignment.mockResolvedValue({ ...item, program: { ...item.program, status: 'completed' } });
+
+    expect((await PATCH(answerRequest({ accept: true }), params)).status).toBe(409);
+  });
+});
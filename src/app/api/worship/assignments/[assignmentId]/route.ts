@@ -0,0 +1,91 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { getOrganizationMembers } from '@/lib/worship-user-management';
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import {
+  findUserAssignment,
+  getAssignmentStatus,
+  respondToAssignment,
+  validateAssignmentResponse,
+} from '@/libs/worship/ProgramAssignments';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+type RouteParams = {
+  params: {
+    assignmentId: string;
+  };
+};
+
+/**
+ * PATCH /api/worship/assignments/[assignmentId]
+ * Accept one of your assignments (`accept: true`) or decline it with a `reason`. The member who
+ * made the assignment is notified.
+ */
+async function handleRespond(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId, orgId } = await auth();
+    const assignmentId = parsePositiveInteger(params.assignmentId);
+
+    if (!userId || !orgId) {
+      return NextResponse.json(
+        { error: 'Organization membership required' },
+        { status: 403 },
+      );
+    }
+
+    if (!assignmentId) {
+      return NextResponse.json(
+        { error: 'Valid assignmentId is required' },
+        { status: 400 },
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateAssignmentResponse(body);
+
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 },
+      );
+    }
+
+    const item = await findUserAssignment(assignmentId, userId, orgId);
+
+    if (!item) {
+      return NextResponse.json(
+        { error: 'Assignment not found' },
+        { status: 404 },
+      );
+    }
+
+    if (item.program.status === 'completed') {
+      return NextResponse.json(
+        { error: 'Cannot answer an assignment of a completed program' },
+        { status: 409 },
+      );
+    }
+
+    const members = await getOrganizationMembers(orgId);
+    const updated = await respondToAssignment(item, orgId, validation.data, members);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...updated, status: getAssignmentStatus(updated) },
+      message: validation.data.accept ? 'Assignment accepted' : 'Assignment declined',
+    });
+  } catch (error) {
+    console.error('Failed to answer assignment:', error);
+    return NextResponse.json(
+      { error: 'Failed to answer assignment' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const PATCH = withWorshipAuth(handleRespond, {
+  minimumRole: 'member',
+});
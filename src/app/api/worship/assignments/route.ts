@@ -0,0 +1,45 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { getAssignmentStatus, listUserAssignments } from '@/libs/worship/ProgramAssignments';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+/**
+ * GET /api/worship/assignments
+ * List the assignments of the current member in programs that are not completed yet, soonest
+ * first, with their program, event and church
+ */
+async function handleListMyAssignments(_request: NextRequest) {
+  try {
+    const { userId, orgId } = await auth();
+
+    if (!userId || !orgId) {
+      return NextResponse.json(
+        { error: 'Organization membership required' },
+        { status: 403 },
+      );
+    }
+
+    const assignments = await listUserAssignments(userId, orgId);
+
+    return NextResponse.json({
+      success: true,
+      data: assignments.map(item => ({
+        ...item,
+        assignment: { ...item.assignment, status: getAssignmentStatus(item.assignment) },
+      })),
+    });
+  } catch (error) {
+    console.error('Failed to list assignments:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve assignments' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const GET = withWorshipAuth(handleListMyAssignments, {
+  minimumRole: 'member',
+});
@@ -0,0 +1,63 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import { deleteBlackout } from '@/libs/worship/VolunteerAvailability';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+type RouteParams = {
+  params: {
+    blackoutId: string;
+  };
+};
+
+/**
+ * DELETE /api/worship/availability/blackouts/[blackoutId]
+ * Remove one of the current member's blackouts
+ */
+async function handleDeleteBlackout(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId, orgId } = await auth();
+    const blackoutId = parsePositiveInteger(params.blackoutId);
+
+    if (!userId || !orgId) {
+      return NextResponse.json(
+        { error: 'Organization membership required' },
+        { status: 403 },
+      );
+    }
+
+    if (!blackoutId) {
+      return NextResponse.json(
+        { error: 'Valid blackoutId is required' },
+        { status: 400 },
+      );
+    }
+
+    const blackout = await deleteBlackout(orgId, userId, blackoutId);
+
+    if (!blackout) {
+      return NextResponse.json(
+        { error: 'Blackout not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Blackout removed successfully',
+    });
+  } catch (error) {
+    console.error('Failed to delete blackout:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove blackout' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const DELETE = withWorshipAuth(handleDeleteBlackout, {
+  minimumRole: 'member',
+});
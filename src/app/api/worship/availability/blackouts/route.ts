@@ -0,0 +1,53 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { addBlackout, validateBlackoutInput } from '@/libs/worship/VolunteerAvailability';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+/**
+ * POST /api/worship/availability/blackouts
+ * Add a date range the current member cannot serve (`startDate`, `endDate`, both included, and
+ * an optional `reason`)
+ */
+async function handleAddBlackout(request: NextRequest) {
+  try {
+    const { userId, orgId } = await auth();
+
+    if (!userId || !orgId) {
+      return NextResponse.json(
+        { error: 'Organization membership required' },
+        { status: 403 },
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateBlackoutInput(body);
+
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 },
+      );
+    }
+
+    const blackout = await addBlackout(orgId, userId, validation.data);
+
+    return NextResponse.json({
+      success: true,
+      data: blackout,
+      message: 'Blackout added successfully',
+    });
+  } catch (error) {
+    console.error('Failed to add blackout:', error);
+    return NextResponse.json(
+      { error: 'Failed to add blackout' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const POST = withWorshipAuth(handleAddBlackout, {
+  minimumRole: 'member',
+});
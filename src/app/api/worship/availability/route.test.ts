@@ -0,0 +1,79 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { GET, PUT } from './route';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/VolunteerAvailability', async importOriginal => ({
+  ...await importOriginal<typeof import('@/libs/worship/VolunteerAvailability')>(),
+  findAvailability: vi.fn(),
+  listBlackouts: vi.fn(),
+  saveAvailability: vi.fn(),
+}));
+
+// Mock middleware by replacing it with a simple pass-through
+vi.mock('@/middleware/worship-auth', () => ({
+  withWorshipAuth: (handler: any) => handler,
+}));
+
+const blackout = { id: 4, organizationId: 'org-123', userId: 'user-123', startDate: '2025-04-14', endDate: '2025-04-27', reason: 'Vacation' };
+
+function saveRequest(body: object) {
+  return new NextRequest('http://localhost:3000/api/worship/availability', {
+    method: 'PUT',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('/api/worship/availability', () => {
+  let auth: any;
+  let volunteerAvailability: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    auth = (await import('@clerk/nextjs/server')).auth;
+    volunteerAvailability = await import('@/libs/worship/VolunteerAvailability');
+    auth.mockResolvedValue({ userId: 'user-123', orgId: 'org-123' });
+    volunteerAvailability.findAvailability.mockResolvedValue(null);
+    volunteerAvailability.listBlackouts.mockResolvedValue([blackout]);
+    volunteerAvailability.saveAvailability.mockImplementation(async (_orgId: string, _userId: string, input: object) =>
+      ({ id: 1, ...input }));
+  });
+
+  it('returns the availability of the current member, with defaults until they set it', async () => {
+    const response = await GET(new NextRequest('http://localhost:3000/api/worship/availability'));
+    const data = await response.json();
+
+    expect(data.data).toEqual({ unavailableDays: [], maxAssignmentsPerMonth: null, notes: null, blackouts: [blackout] });
+    expect(volunteerAvailability.findAvailability).toHaveBeenCalledWith('org-123', 'user-123');
+  });
+
+  it('saves the availability of the current member', async () => {
+    const response = await PUT(saveRequest({ unavailableDays: [{ dayOfWeek: 0, weekOfMonth: 2 }], maxAssignmentsPerMonth: 2 }));
+
+    expect(response.status).toBe(200);
+    expect(volunteerAvailability.saveAvailability).toHaveBeenCalledWith('org-123', 'user-123', {
+      unavailableDays: [{ dayOfWeek: 0, weekOfMonth: 2 }],
+      maxAssignmentsPerMonth: 2,
+      notes: null,
+    });
+  });
+
+  it('rejects invalid settings and users outside an organization', async () => {
+    expect((await PUT(saveRequest({ maxAssignmentsPerMonth: 'twice' }))).status).toBe(400);
+
+    auth.mockResolvedValue({ userId: 'user-123', orgId: null });
+
+    expect((await PUT(saveRequest({}))).status).toBe(403);
+    expect(volunteerAvailability.saveAvailability).not.toHaveBeenCalled();
+  });
+});
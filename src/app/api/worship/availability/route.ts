@@ -0,0 +1,100 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import {
+  findAvailability,
+  listBlackouts,
+  saveAvailability,
+  validateAvailabilityInput,
+} from '@/libs/worship/VolunteerAvailability';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+/**
+ * GET /api/worship/availability
+ * The current member's availability: the days they never serve, how often they serve at most,
+ * and their blackouts that are not over yet
+ */
+async function handleGetAvailability(_request: NextRequest) {
+  try {
+    const { userId, orgId } = await auth();
+
+    if (!userId || !orgId) {
+      return NextResponse.json(
+        { error: 'Organization membership required' },
+        { status: 403 },
+      );
+    }
+
+    const [availability, blackouts] = await Promise.all([
+      findAvailability(orgId, userId),
+      listBlackouts(orgId, userId, new Date().toISOString().slice(0, 10)),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        unavailableDays: availability?.unavailableDays ?? [],
+        maxAssignmentsPerMonth: availability?.maxAssignmentsPerMonth ?? null,
+        notes: availability?.notes ?? null,
+        blackouts,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to get availability:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve availability' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT /api/worship/availability
+ * Replace the current member's `unavailableDays`, `maxAssignmentsPerMonth` and `notes`
+ */
+async function handleSaveAvailability(request: NextRequest) {
+  try {
+    const { userId, orgId } = await auth();
+
+    if (!userId || !orgId) {
+      return NextResponse.json(
+        { error: 'Organization membership required' },
+        { status: 403 },
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateAvailabilityInput(body);
+
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 },
+      );
+    }
+
+    const availability = await saveAvailability(orgId, userId, validation.data);
+
+    return NextResponse.json({
+      success: true,
+      data: availability,
+      message: 'Availability saved successfully',
+    });
+  } catch (error) {
+    console.error('Failed to save availability:', error);
+    return NextResponse.json(
+      { error: 'Failed to save availability' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const GET = withWorshipAuth(handleGetAvailability, {
+  minimumRole: 'member',
+});
+
+export const PUT = withWorshipAuth(handleSaveAvailability, {
+  minimumRole: 'member',
+});
@@ -0,0 +1,56 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { revokeCalendarFeed } from '@/libs/worship/CalendarFeeds';
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+type RouteParams = {
+  params: {
+    feedId: string;
+  };
+};
+
+/**
+ * DELETE /api/worship/calendar-feeds/[feedId]
+ * Revoke one of the current user's calendar feeds; its URL stops working immediately
+ */
+async function handleRevokeFeed(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId, orgId } = await auth();
+    const feedId = parsePositiveInteger(params.feedId);
+
+    if (!feedId) {
+      return NextResponse.json(
+        { error: 'Valid feedId is required' },
+        { status: 400 },
+      );
+    }
+
+    const feed = userId && orgId ? await revokeCalendarFeed(feedId, orgId, userId) : null;
+
+    if (!feed) {
+      return NextResponse.json(
+        { error: 'Calendar feed not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Calendar feed revoked successfully',
+    });
+  } catch (error) {
+    console.error('Failed to revoke calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke calendar feed' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const DELETE = withWorshipAuth(handleRevokeFeed, {
+  minimumRole: 'member',
+});
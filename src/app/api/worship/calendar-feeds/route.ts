@@ -0,0 +1,144 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import type { CalendarFeedScope } from '@/features/worship/types';
+import {
+  createCalendarFeed,
+  findFeedChurch,
+  findFeedMinistry,
+  getFeedUrl,
+  listCalendarFeeds,
+  toFeedResponse,
+} from '@/libs/worship/CalendarFeeds';
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+const FEED_SCOPES: CalendarFeedScope[] = ['church', 'ministry', 'assignments'];
+
+/**
+ * GET /api/worship/calendar-feeds
+ * List the current user's active calendar feeds
+ */
+async function handleGetFeeds(_request: NextRequest) {
+  try {
+    const { userId, orgId } = await auth();
+
+    if (!userId || !orgId) {
+      return NextResponse.json(
+        { error: 'Organization membership required' },
+        { status: 403 },
+      );
+    }
+
+    const feeds = await listCalendarFeeds(orgId, userId);
+
+    return NextResponse.json({
+      success: true,
+      data: feeds.map(toFeedResponse),
+    });
+  } catch (error) {
+    console.error('Failed to get calendar feeds:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve calendar feeds' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/worship/calendar-feeds
+ * Create an .ics feed of a church, a ministry or the user's assignments.
+ * The response holds the subscription URL, which cannot be retrieved again.
+ */
+async function handleCreateFeed(request: NextRequest) {
+  try {
+    const { userId, orgId } = await auth();
+
+    if (!userId || !orgId) {
+      return NextResponse.json(
+        { error: 'Organization membership required' },
+        { status: 403 },
+      );
+    }
+
+    const body = await request.json();
+    const scope = body.scope as CalendarFeedScope;
+
+    if (!FEED_SCOPES.includes(scope)) {
+      return NextResponse.json(
+        { error: `scope must be one of: ${FEED_SCOPES.join(', ')}` },
+        { status: 400 },
+      );
+    }
+
+    if (body.name !== undefined && (typeof body.name !== 'string' || body.name.length > 255)) {
+      return NextResponse.json(
+        { error: 'name must be a string of at most 255 characters' },
+        { status: 400 },
+      );
+    }
+
+    let churchId: number | undefined;
+    let ministryId: number | undefined;
+
+    if (scope === 'church') {
+      const id = parsePositiveInteger(body.churchId);
+      const church = id ? await findFeedChurch(id, orgId) : null;
+
+      if (!church) {
+        return NextResponse.json(
+          { error: 'Church not found' },
+          { status: 404 },
+        );
+      }
+      churchId = church.id;
+    }
+
+    if (scope === 'ministry') {
+      const id = parsePositiveInteger(body.ministryId);
+      const ministry = id ? await findFeedMinistry(id, orgId) : null;
+
+      if (!ministry) {
+        return NextResponse.json(
+          { error: 'Ministry not found' },
+          { status: 404 },
+        );
+      }
+      ministryId = ministry.id;
+    }
+
+    const { feed, token } = await createCalendarFeed({
+      organizationId: orgId,
+      userId,
+      scope,
+      churchId,
+      ministryId,
+      name: body.name?.trim() || undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...toFeedResponse(feed),
+        url: getFeedUrl(token),
+      },
+      message: 'Calendar feed created successfully',
+    });
+  } catch (error) {
+    console.error('Failed to create calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to create calendar feed' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const GET = withWorshipAuth(handleGetFeeds, {
+  minimumRole: 'member',
+});
+
+export const POST = withWorshipAuth(handleCreateFeed, {
+  minimumRole: 'member',
+});
@@ -37,7 +37,8 @@ async function checkChurchCreationLimit(organizationId: string): Promise<{ allow
       churches: churchCount.count, 
       ministries: 0, 
       collaborators: 0, 
-      services: 0 
+      services: 0,
+      eventsPerWeek: 0 
     }, 'churches');
 
     return {
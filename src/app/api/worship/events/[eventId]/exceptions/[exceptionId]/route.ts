@@ -0,0 +1,69 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { findEventInOrganization } from '@/libs/worship/EventQueries';
+import { deleteEventException } from '@/libs/worship/EventSeries';
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+type RouteParams = {
+  params: {
+    eventId: string;
+    exceptionId: string;
+  };
+};
+
+/**
+ * DELETE /api/worship/events/[eventId]/exceptions/[exceptionId]
+ * Remove a skip or override, restoring the occurrence as the series defines it
+ */
+async function handleDeleteException(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { orgId } = await auth();
+    const eventId = parsePositiveInteger(params.eventId);
+    const exceptionId = parsePositiveInteger(params.exceptionId);
+
+    if (!eventId || !exceptionId) {
+      return NextResponse.json(
+        { error: 'Valid eventId and exceptionId are required' },
+        { status: 400 },
+      );
+    }
+
+    const existing = orgId ? await findEventInOrganization(eventId, orgId) : null;
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 },
+      );
+    }
+
+    const exception = await deleteEventException(eventId, exceptionId);
+
+    if (!exception) {
+      return NextResponse.json(
+        { error: 'Exception not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: exception,
+      message: 'Occurrence restored successfully',
+    });
+  } catch (error) {
+    console.error('Failed to delete event exception:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore occurrence' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const DELETE = withWorshipAuth(handleDeleteException, {
+  permission: 'canEditEvent',
+});
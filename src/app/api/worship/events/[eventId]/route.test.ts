@@ -0,0 +1,353 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { DELETE, PATCH } from './route';
+
+const mockDb = vi.hoisted(() => ({
+  update: vi.fn().mockReturnThis(),
+  set: vi.fn().mockReturnThis(),
+  delete: vi.fn().mockReturnThis(),
+  where: vi.fn().mockReturnThis(),
+  returning: vi.fn(),
+}));
+
+vi.mock('@/libs/DB', () => ({
+  db: mockDb,
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/EventQueries', () => ({
+  findEventInOrganization: vi.fn(),
+  findServiceInOrganization: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/EventSeries', () => ({
+  listEventExceptions: vi.fn(),
+  saveOccurrenceException: vi.fn(),
+  skipOccurrence: vi.fn(),
+  splitSeries: vi.fn(),
+  truncateSeries: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/EventUsage', () => ({
+  checkEventCreationLimit: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/EventConflicts', async importOriginal => ({
+  ...await importOriginal<typeof import('@/libs/worship/EventConflicts')>(),
+  detectEventConflicts: vi.fn(),
+}));
+
+// Mock middleware by replacing it with a simple pass-through
+vi.mock('@/middleware/worship-auth', () => ({
+  withWorshipAuth: (handler: any) => handler,
+}));
+
+// Sunday 10:00 service in Toronto, starting 2025-03-02
+const sundayService = {
+  id: 12,
+  serviceId: 3,
+  title: 'Sunday Worship',
+  eventDate: new Date('2025-03-02T15:00:00.000Z'),
+  duration: 90,
+  eventType: 'recurring',
+  recurringPattern: 'weekly',
+  recurringConfig: { frequency: 1 },
+  seriesId: null,
+};
+
+const hierarchy = {
+  event: sundayService,
+  service: { id: 3 },
+  ministry: { id: 2 },
+  church: { id: 1, timezone: 'America/Toronto' },
+};
+
+const params = { params: { eventId: '12' } };
+
+function patchRequest(query: string, body: object) {
+  return new NextRequest(`http://localhost:3000/api/worship/events/12${query}`, {
+    method: 'PATCH',
+    body: JSON.stringify(body),
+  });
+}
+
+function deleteRequest(query: string) {
+  return new NextRequest(`http://localhost:3000/api/worship/events/12${query}`, {
+    method: 'DELETE',
+  });
+}
+
+describe('/api/worship/events/[eventId]', () => {
+  let eventQueries: any;
+  let eventSeries: any;
+  let eventConflicts: any;
+  let eventUsage: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockDb.update.mockReturnThis();
+    mockDb.set.mockReturnThis();
+    mockDb.delete.mockReturnThis();
+    mockDb.where.mockReturnThis();
+
+    const { auth } = await import('@clerk/nextjs/server') as any;
+    eventQueries = await import('@/libs/worship/EventQueries');
+    eventSeries = await import('@/libs/worship/EventSeries');
+    eventConflicts = await import('@/libs/worship/EventConflicts');
+    eventUsage = await import('@/libs/worship/EventUsage');
+    auth.mockResolvedValue({ userId: 'user-123', orgId: 'org-123' });
+    eventQueries.findEventInOrganization.mockResolvedValue(hierarchy);
+    eventSeries.listEventExceptions.mockResolvedValue([]);
+    eventConflicts.detectEventConflicts.mockResolvedValue([]);
+    eventUsage.checkEventCreationLimit.mockResolvedValue({ allowed: true, current: 0, limit: 10, tier: 'free' });
+  });
+
+  describe('PATCH with an occurrence scope', () => {
+    it('stores a single-occurrence change as an exception', async () => {
+      eventSeries.saveOccurrenceException.mockResolvedValue({ id: 5, exceptionType: 'rescheduled' });
+
+      const response = await PATCH(
+        patchRequest('?scope=this&occurrenceDate=2025-04-20', { eventDate: '2025-04-20T15:00:00.000Z' }),
+        params,
+      );
+
+      expect(response.status).toBe(200);
+      expect(eventSeries.saveOccurrenceException).toHaveBeenCalledWith(
+        sundayService,
+        expect.objectContaining({ date: '2025-04-20', index: 7 }),
+        { eventDate: new Date('2025-04-20T15:00:00.000Z') },
+        'user-123',
+      );
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects series-level fields on a single occurrence', async () => {
+      const response = await PATCH(
+        patchRequest('?scope=this&occurrenceDate=2025-04-20', { recurringPattern: 'monthly' }),
+        params,
+      );
+
+      expect(response.status).toBe(400);
+      expect(eventSeries.saveOccurrenceException).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 when the series has no occurrence on that date', async () => {
+      const response = await PATCH(
+        patchRequest('?scope=this&occurrenceDate=2025-04-21', { title: 'Easter Monday' }),
+        params,
+      );
+
+      expect(response.status).toBe(404);
+    });
+
+    it('rejects occurrence scopes on non-recurring events', async () => {
+      eventQueries.findEventInOrganization.mockResolvedValue({
+        ...hierarchy,
+        event: { ...sundayService, eventType: 'one_time', recurringPattern: null, recurringConfig: null },
+      });
+
+      const response = await PATCH(
+        patchRequest('?scope=this&occurrenceDate=2025-03-02', { title: 'Renamed' }),
+        params,
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it('splits the series when editing this and following occurrences', async () => {
+      eventSeries.splitSeries.mockResolvedValue({ previous: sundayService, following: { id: 13 } });
+
+      const response = await PATCH(
+        patchRequest('?scope=following&occurrenceDate=2025-06-01', { eventDate: '2025-06-01T15:00:00.000Z' }),
+        params,
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toEqual({ id: 13 });
+      expect(eventSeries.splitSeries).toHaveBeenCalledWith(
+        sundayService,
+        expect.objectContaining({ date: '2025-06-01' }),
+        { eventDate: new Date('2025-06-01T15:00:00.000Z') },
+        'user-123',
+      );
+    });
+
+    it('updates the whole event when editing from the first occurrence', async () => {
+      mockDb.returning.mockResolvedValue([{ ...sundayService, title: 'Morning Worship' }]);
+
+      const response = await PATCH(
+        patchRequest('?scope=following&occurrenceDate=2025-03-02', { title: 'Morning Worship' }),
+        params,
+      );
+
+      expect(response.status).toBe(200);
+      expect(eventSeries.splitSeries).not.toHaveBeenCalled();
+      expect(mockDb.set).toHaveBeenCalledWith({ title: 'Morning Worship' });
+    });
+  });
+
+  describe('PATCH scheduling conflicts', () => {
+    const warning = { severity: 'warning', eventId: 7, title: 'Youth Night', count: 1 };
+
+    it('checks a moved occurrence without the occurrence it replaces', async () => {
+      eventConflicts.detectEventConflicts.mockResolvedValue([warning]);
+
+      const response = await PATCH(
+        patchRequest('?scope=this&occurrenceDate=2025-04-20', { eventDate: '2025-04-20T18:00:00.000Z' }),
+        params,
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(data.requiresConfirmation).toBe(true);
+      expect(eventConflicts.detectEventConflicts).toHaveBeenCalledWith(
+        'org-123',
+        1,
+        { serviceId: 3, eventDate: new Date('2025-04-20T18:00:00.000Z'), duration: 90, eventType: 'one_time' },
+        { timeZone: 'America/Toronto', excludeEventId: 12, excludeOccurrenceDate: '2025-04-20' },
+      );
+      expect(eventSeries.saveOccurrenceException).not.toHaveBeenCalled();
+    });
+
+    it('checks the following occurrences from the edited one', async () => {
+      eventSeries.splitSeries.mockResolvedValue({ previous: sundayService, following: { id: 13 } });
+      eventConflicts.detectEventConflicts.mockResolvedValue([warning]);
+
+      const response = await PATCH(
+        patchRequest('?scope=following&occurrenceDate=2025-06-01', { duration: 120, allowConflicts: true }),
+        params,
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.warnings).toEqual([warning]);
+      expect(eventConflicts.detectEventConflicts).toHaveBeenCalledWith(
+        'org-123',
+        1,
+        expect.objectContaining({ eventDate: new Date('2025-06-01T14:00:00.000Z'), duration: 120 }),
+        expect.objectContaining({ excludeEventId: 12, exceptions: [] }),
+      );
+    });
+
+    it('skips the check when the schedule does not change', async () => {
+      mockDb.returning.mockResolvedValue([{ ...sundayService, title: 'Morning Worship' }]);
+
+      await PATCH(patchRequest('', { title: 'Morning Worship' }), params);
+
+      expect(eventConflicts.detectEventConflicts).not.toHaveBeenCalled();
+      expect(eventUsage.checkEventCreationLimit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH weekly events limit', () => {
+    it('refuses schedule changes adding more occurrences than the plan allows', async () => {
+      eventUsage.checkEventCreationLimit.mockResolvedValue({
+        allowed: false,
+        current: 9,
+        limit: 10,
+        tier: 'free',
+        message: 'You\'ve reached the weekly events limit for your free plan (9/10)',
+      });
+
+      const response = await PATCH(patchRequest('', { recurringPattern: 'daily' }), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(402);
+      expect(data).toMatchObject({ code: 'LIMIT_EXCEEDED', resource: 'eventsPerWeek' });
+      expect(eventUsage.checkEventCreationLimit).toHaveBeenCalledWith('org-123', 'free', [{
+        event: expect.objectContaining({ eventDate: sundayService.eventDate, recurringPattern: 'daily' }),
+        timeZone: 'America/Toronto',
+        exceptions: [],
+      }], { excludeEventId: 12 });
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses moving a single occurrence into a full week', async () => {
+      const skipped = { occurrenceDate: '2025-04-13', exceptionType: 'skipped' };
+      eventSeries.listEventExceptions.mockResolvedValue([skipped]);
+      eventUsage.checkEventCreationLimit.mockResolvedValue({
+        allowed: false,
+        current: 10,
+        limit: 10,
+        tier: 'free',
+        message: 'You\'ve reached the weekly events limit for your free plan (10/10)',
+      });
+
+      const response = await PATCH(patchRequest('?scope=this&occurrenceDate=2025-04-20', { eventDate: '2025-04-24T23:00:00.000Z' }), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(402);
+      expect(data).toMatchObject({ code: 'LIMIT_EXCEEDED', resource: 'eventsPerWeek' });
+      expect(eventUsage.checkEventCreationLimit).toHaveBeenCalledWith('org-123', 'free', [{
+        event: sundayService,
+        timeZone: 'America/Toronto',
+        exceptions: [skipped, {
+          occurrenceDate: '2025-04-20',
+          exceptionType: 'rescheduled',
+          eventDate: new Date('2025-04-24T23:00:00.000Z'),
+          duration: undefined,
+        }],
+      }], { excludeEventId: 12 });
+      expect(eventSeries.saveOccurrenceException).not.toHaveBeenCalled();
+    });
+
+    it('lets single occurrences move within the limit', async () => {
+      eventSeries.saveOccurrenceException.mockResolvedValue({ id: 5 });
+
+      const response = await PATCH(patchRequest('?scope=this&occurrenceDate=2025-04-20', { eventDate: '2025-04-20T18:00:00.000Z' }), params);
+
+      expect(response.status).toBe(200);
+      expect(eventUsage.checkEventCreationLimit).toHaveBeenCalledTimes(1);
+      expect(eventSeries.saveOccurrenceException).toHaveBeenCalled();
+    });
+
+    it('does not check retitled occurrences', async () => {
+      eventSeries.saveOccurrenceException.mockResolvedValue({ id: 5 });
+
+      await PATCH(patchRequest('?scope=this&occurrenceDate=2025-04-20', { title: 'Easter Sunday' }), params);
+
+      expect(eventUsage.checkEventCreationLimit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE with an occurrence scope', () => {
+    it('skips a single occurrence', async () => {
+      eventSeries.skipOccurrence.mockResolvedValue({ id: 6, exceptionType: 'skipped' });
+
+      const response = await DELETE(deleteRequest('?scope=this&occurrenceDate=2025-04-20'), params);
+
+      expect(response.status).toBe(200);
+      expect(eventSeries.skipOccurrence).toHaveBeenCalledWith(
+        sundayService,
+        expect.objectContaining({ date: '2025-04-20' }),
+        'user-123',
+      );
+      expect(mockDb.delete).not.toHaveBeenCalled();
+    });
+
+    it('ends the series before the occurrence when deleting following occurrences', async () => {
+      eventSeries.truncateSeries.mockResolvedValue(sundayService);
+
+      const response = await DELETE(deleteRequest('?scope=following&occurrenceDate=2025-06-01'), params);
+
+      expect(response.status).toBe(200);
+      expect(eventSeries.truncateSeries).toHaveBeenCalledWith(
+        sundayService,
+        expect.objectContaining({ date: '2025-06-01' }),
+      );
+      expect(mockDb.delete).not.toHaveBeenCalled();
+    });
+
+    it('rejects an unknown scope', async () => {
+      const response = await DELETE(deleteRequest('?scope=future'), params);
+
+      expect(response.status).toBe(400);
+      expect(eventQueries.findEventInOrganization).not.toHaveBeenCalled();
+    });
+  });
+});
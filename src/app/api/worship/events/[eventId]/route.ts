@@ -0,0 +1,545 @@
+import { auth } from '@clerk/nextjs/server';
+import { eq } from 'drizzle-orm';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import type { EventConflict, RecurringConfig } from '@/features/worship/types';
+import { db } from '@/libs/DB';
+import { detectEventConflicts, getConflictError } from '@/libs/worship/EventConflicts';
+import type { EventHierarchy, ServiceHierarchy } from '@/libs/worship/EventQueries';
+import {
+  findEventInOrganization,
+  findServiceInOrganization,
+} from '@/libs/worship/EventQueries';
+import {
+  listEventExceptions,
+  saveOccurrenceException,
+  skipOccurrence,
+  splitSeries,
+  truncateSeries,
+} from '@/libs/worship/EventSeries';
+import type { EventLimitCandidate } from '@/libs/worship/EventUsage';
+import { checkEventCreationLimit } from '@/libs/worship/EventUsage';
+import type { EventInput, OccurrenceScope } from '@/libs/worship/EventValidation';
+import {
+  OCCURRENCE_FIELDS,
+  parseChurchDateTime,
+  parseOccurrenceScope,
+  parsePositiveInteger,
+  validateEventInput,
+  validateRecurrenceSettings,
+} from '@/libs/worship/EventValidation';
+import type { Occurrence, OccurrenceException } from '@/libs/worship/RecurrenceEngine';
+import { findOccurrence, normalizeRecurringConfig } from '@/libs/worship/RecurrenceEngine';
+import type { SubscriptionTier } from '@/libs/worship/SubscriptionLimits';
+import { getUpgradeInfo } from '@/libs/worship/SubscriptionLimits';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+import { eventsSchema as eventTable } from '@/models/WorshipSchema';
+
+type RouteParams = {
+  params: {
+    eventId: string;
+  };
+};
+
+// Fields that move an event in time or to another service
+const SCHEDULE_FIELDS = ['serviceId', 'eventDate', 'duration', 'eventType', 'recurringPattern', 'recurringConfig'];
+
+// Mock function to get subscription tier
+function getOrganizationTier(_organizationId: string): SubscriptionTier {
+  return 'free';
+}
+
+/**
+ * Refuse schedule changes taking the organization past its weekly events limit, counting the
+ * event as it will be instead of as it is
+ */
+async function checkWeeklyLimit(
+  organizationId: string,
+  eventId: number,
+  candidate: EventLimitCandidate,
+): Promise<NextResponse | null> {
+  const tier = getOrganizationTier(organizationId);
+  const limitCheck = await checkEventCreationLimit(organizationId, tier, [candidate], { excludeEventId: eventId });
+
+  if (limitCheck.allowed) {
+    return null;
+  }
+
+  return NextResponse.json(
+    {
+      error: 'Subscription limit reached',
+      message: limitCheck.message,
+      code: 'LIMIT_EXCEEDED',
+      resource: 'eventsPerWeek',
+      limit: limitCheck,
+      upgrade: getUpgradeInfo(tier, 'eventsPerWeek'),
+    },
+    { status: 402 }, // Payment Required
+  );
+}
+
+/**
+ * Resolve the occurrence targeted by a "this" or "following" scope, or an error response
+ */
+function resolveScopedOccurrence(
+  existing: EventHierarchy,
+  scope: OccurrenceScope,
+): { occurrence: Occurrence | null; response?: undefined } | { occurrence?: undefined; response: NextResponse } {
+  if (scope.scope === 'all') {
+    return { occurrence: null };
+  }
+
+  if (existing.event.eventType !== 'recurring') {
+    return {
+      response: NextResponse.json(
+        { error: 'Only recurring events can be edited by occurrence' },
+        { status: 400 },
+      ),
+    };
+  }
+
+  const occurrence = findOccurrence(existing.event, scope.occurrenceDate, {
+    timeZone: existing.church.timezone,
+  });
+
+  if (!occurrence) {
+    return {
+      response: NextResponse.json(
+        { error: 'Occurrence not found' },
+        { status: 404 },
+      ),
+    };
+  }
+
+  return { occurrence };
+}
+
+/**
+ * What the following occurrences, or the whole series, will look like after the update
+ */
+function getUpdatedSchedule(
+  existing: EventHierarchy,
+  target: ServiceHierarchy,
+  occurrence: Occurrence | null,
+  changes: EventInput,
+) {
+  const { event } = existing;
+  const following = occurrence && occurrence.index > 0 ? occurrence : null;
+  const config = normalizeRecurringConfig(event.recurringConfig);
+
+  return {
+    serviceId: target.service.id,
+    eventDate: changes.eventDate ?? (following ? following.start : event.eventDate),
+    duration: changes.duration ?? event.duration,
+    eventType: changes.eventType ?? event.eventType,
+    recurringPattern: changes.recurringPattern !== undefined ? changes.recurringPattern : event.recurringPattern,
+    recurringConfig: changes.recurringConfig !== undefined
+      ? changes.recurringConfig
+      : {
+          ...config,
+          ...(following && config.occurrences !== undefined && { occurrences: config.occurrences - following.index }),
+        },
+  };
+}
+
+/**
+ * Check what the event will look like after the update against the other events of its church.
+ * A single occurrence is only compared with the rest of the calendar, while the following
+ * occurrences and whole series are expanded with their `exceptions`.
+ */
+async function findUpdateConflicts(
+  organizationId: string,
+  existing: EventHierarchy,
+  target: ServiceHierarchy,
+  occurrence: Occurrence | null,
+  scope: OccurrenceScope['scope'],
+  changes: EventInput,
+  exceptions: OccurrenceException[] = [],
+): Promise<EventConflict[]> {
+  const { event } = existing;
+  const options = { timeZone: target.church.timezone, excludeEventId: event.id };
+
+  if (occurrence && scope === 'this') {
+    return detectEventConflicts(organizationId, target.church.id, {
+      serviceId: event.serviceId,
+      eventDate: changes.eventDate ?? occurrence.start,
+      duration: changes.duration ?? event.duration,
+      eventType: 'one_time',
+    }, { ...options, excludeOccurrenceDate: occurrence.date });
+  }
+
+  return detectEventConflicts(
+    organizationId,
+    target.church.id,
+    getUpdatedSchedule(existing, target, occurrence, changes),
+    { ...options, exceptions },
+  );
+}
+
+/**
+ * GET /api/worship/events/[eventId]
+ * Get a specific event with its service, ministry, church and occurrence exceptions
+ */
+async function handleGetEvent(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { orgId } = await auth();
+    const eventId = parsePositiveInteger(params.eventId);
+
+    if (!eventId) {
+      return NextResponse.json(
+        { error: 'Valid eventId is required' },
+        { status: 400 },
+      );
+    }
+
+    const hierarchy = orgId ? await findEventInOrganization(eventId, orgId) : null;
+
+    if (!hierarchy) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 },
+      );
+    }
+
+    const exceptions = hierarchy.event.eventType === 'recurring'
+      ? await listEventExceptions(eventId)
+      : [];
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...hierarchy.event,
+        service: hierarchy.service,
+        ministry: hierarchy.ministry,
+        church: hierarchy.church,
+        exceptions,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to get event:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve event' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PATCH /api/worship/events/[eventId]?scope=this|following|all&occurrenceDate=YYYY-MM-DD
+ * Update an event; moving it to another service is only allowed within the organization.
+ * For recurring events the scope selects one occurrence, an occurrence and the following ones,
+ * or the whole series (default). Schedule changes are checked for conflicts like new events, and
+ * against the weekly events limit too; an eventDate without UTC offset is read in the church's
+ * time zone.
+ */
+async function handleUpdateEvent(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId, orgId } = await auth();
+    const eventId = parsePositiveInteger(params.eventId);
+
+    if (!eventId) {
+      return NextResponse.json(
+        { error: 'Valid eventId is required' },
+        { status: 400 },
+      );
+    }
+
+    const scopeResult = parseOccurrenceScope(request.nextUrl.searchParams);
+
+    if (scopeResult.error !== undefined) {
+      return NextResponse.json(
+        { error: scopeResult.error },
+        { status: 400 },
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateEventInput(body, { partial: true });
+
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 },
+      );
+    }
+
+    const updateData = validation.data;
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json(
+        { error: 'No fields to update' },
+        { status: 400 },
+      );
+    }
+
+    const existing = orgId ? await findEventInOrganization(eventId, orgId) : null;
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 },
+      );
+    }
+
+    const { occurrence, response } = resolveScopedOccurrence(existing, scopeResult.data);
+
+    if (response) {
+      return response;
+    }
+
+    const allowConflicts = body.allowConflicts === true;
+    const reschedules = Object.keys(updateData).some(field => SCHEDULE_FIELDS.includes(field));
+
+    if (occurrence && scopeResult.data.scope === 'this') {
+      const unsupportedFields = Object.keys(updateData)
+        .filter(field => !(OCCURRENCE_FIELDS as readonly string[]).includes(field));
+
+      if (unsupportedFields.length > 0) {
+        return NextResponse.json(
+          { error: `Only ${OCCURRENCE_FIELDS.join(', ')} can be changed on a single occurrence` },
+          { status: 400 },
+        );
+      }
+
+      const occurrenceStart = parseChurchDateTime(body.eventDate, existing.church.timezone);
+
+      if (occurrenceStart) {
+        updateData.eventDate = occurrenceStart;
+      }
+
+      if (reschedules) {
+        // The series keeps its other exceptions; this occurrence moves as it will be saved
+        const exceptions = await listEventExceptions(eventId);
+        const current = exceptions.find(other =>
+          other.occurrenceDate === occurrence.date && other.exceptionType !== 'skipped');
+        const limitResponse = await checkWeeklyLimit(orgId!, eventId, {
+          event: existing.event,
+          timeZone: existing.church.timezone,
+          exceptions: [
+            ...exceptions.filter(other => other.occurrenceDate !== occurrence.date),
+            {
+              occurrenceDate: occurrence.date,
+              exceptionType: 'rescheduled',
+              eventDate: updateData.eventDate ?? current?.eventDate ?? occurrence.start,
+              duration: updateData.duration ?? current?.duration,
+            },
+          ],
+        });
+
+        if (limitResponse) {
+          return limitResponse;
+        }
+      }
+
+      const conflicts = reschedules
+        ? await findUpdateConflicts(orgId!, existing, existing, occurrence, 'this', updateData)
+        : [];
+      const conflictError = getConflictError(conflicts, allowConflicts);
+
+      if (conflictError) {
+        return NextResponse.json(conflictError, { status: 409 });
+      }
+
+      const exception = await saveOccurrenceException(existing.event, occurrence, updateData, userId!);
+
+      return NextResponse.json({
+        success: true,
+        data: exception,
+        ...(conflicts.length > 0 && { warnings: conflicts }),
+        message: 'Occurrence updated successfully',
+      });
+    }
+
+    let target: ServiceHierarchy = existing;
+
+    if (updateData.serviceId !== undefined && updateData.serviceId !== existing.service.id) {
+      const targetService = await findServiceInOrganization(updateData.serviceId, orgId!);
+
+      if (!targetService) {
+        return NextResponse.json(
+          { error: 'Service not found' },
+          { status: 404 },
+        );
+      }
+
+      target = targetService;
+    }
+
+    const churchDate = parseChurchDateTime(body.eventDate, target.church.timezone);
+
+    if (churchDate) {
+      updateData.eventDate = churchDate;
+    }
+
+    // Switching an event away from recurring clears its recurrence settings
+    if (updateData.eventType && updateData.eventType !== 'recurring') {
+      updateData.recurringPattern ??= null;
+      updateData.recurringConfig ??= null;
+    }
+
+    // Validate the recurrence settings the event will end up with
+    const recurrenceError = validateRecurrenceSettings(
+      updateData.eventType ?? existing.event.eventType,
+      updateData.recurringPattern !== undefined ? updateData.recurringPattern : existing.event.recurringPattern,
+      updateData.recurringConfig !== undefined
+        ? updateData.recurringConfig
+        : existing.event.recurringConfig as RecurringConfig | null,
+    );
+
+    if (recurrenceError) {
+      return NextResponse.json(
+        { error: recurrenceError },
+        { status: 400 },
+      );
+    }
+
+    const exceptions = reschedules && existing.event.eventType === 'recurring'
+      ? await listEventExceptions(eventId)
+      : [];
+
+    const limitResponse = reschedules
+      ? await checkWeeklyLimit(orgId!, eventId, {
+        event: getUpdatedSchedule(existing, target, occurrence, updateData),
+        timeZone: target.church.timezone,
+        exceptions,
+      })
+      : null;
+
+    if (limitResponse) {
+      return limitResponse;
+    }
+
+    const conflicts = reschedules
+      ? await findUpdateConflicts(orgId!, existing, target, occurrence, scopeResult.data.scope, updateData, exceptions)
+      : [];
+    const conflictError = getConflictError(conflicts, allowConflicts);
+
+    if (conflictError) {
+      return NextResponse.json(conflictError, { status: 409 });
+    }
+
+    // Editing from the first occurrence onwards is the same as editing the whole series
+    if (occurrence && occurrence.index > 0) {
+      const { following } = await splitSeries(existing.event, occurrence, updateData, userId!);
+
+      return NextResponse.json({
+        success: true,
+        data: following,
+        ...(conflicts.length > 0 && { warnings: conflicts }),
+        message: 'Following occurrences updated successfully',
+      });
+    }
+
+    const [updatedEvent] = await db
+      .update(eventTable)
+      .set(updateData)
+      .where(eq(eventTable.id, eventId))
+      .returning();
+
+    return NextResponse.json({
+      success: true,
+      data: updatedEvent,
+      ...(conflicts.length > 0 && { warnings: conflicts }),
+      message: 'Event updated successfully',
+    });
+  } catch (error) {
+    console.error('Failed to update event:', error);
+    return NextResponse.json(
+      { error: 'Failed to update event' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/worship/events/[eventId]?scope=this|following|all&occurrenceDate=YYYY-MM-DD
+ * Delete an event together with its programs and feedback. For recurring events the scope
+ * skips one occurrence, ends the series before an occurrence, or deletes the whole series (default).
+ */
+async function handleDeleteEvent(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId, orgId } = await auth();
+    const eventId = parsePositiveInteger(params.eventId);
+
+    if (!eventId) {
+      return NextResponse.json(
+        { error: 'Valid eventId is required' },
+        { status: 400 },
+      );
+    }
+
+    const scopeResult = parseOccurrenceScope(request.nextUrl.searchParams);
+
+    if (scopeResult.error !== undefined) {
+      return NextResponse.json(
+        { error: scopeResult.error },
+        { status: 400 },
+      );
+    }
+
+    const existing = orgId ? await findEventInOrganization(eventId, orgId) : null;
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 },
+      );
+    }
+
+    const { occurrence, response } = resolveScopedOccurrence(existing, scopeResult.data);
+
+    if (response) {
+      return response;
+    }
+
+    if (occurrence && scopeResult.data.scope === 'this') {
+      const exception = await skipOccurrence(existing.event, occurrence, userId!);
+
+      return NextResponse.json({
+        success: true,
+        data: exception,
+        message: 'Occurrence skipped successfully',
+      });
+    }
+
+    // Deleting from the first occurrence onwards deletes the whole series
+    if (occurrence && occurrence.index > 0) {
+      const updatedEvent = await truncateSeries(existing.event, occurrence);
+
+      return NextResponse.json({
+        success: true,
+        data: updatedEvent,
+        message: 'Following occurrences deleted successfully',
+      });
+    }
+
+    await db
+      .delete(eventTable)
+      .where(eq(eventTable.id, eventId));
+
+    return NextResponse.json({
+      success: true,
+      message: 'Event deleted successfully',
+    });
+  } catch (error) {
+    console.error('Failed to delete event:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete event' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const GET = withWorshipAuth(handleGetEvent, {
+  minimumRole: 'member',
+});
+
+export const PATCH = withWorshipAuth(handleUpdateEvent, {
+  permission: 'canEditEvent',
+});
+
+export const DELETE = withWorshipAuth(handleDeleteEvent, {
+  permission: 'canDeleteEvent',
+});
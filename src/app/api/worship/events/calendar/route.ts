@@ -0,0 +1,78 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { buildCalendarEvents } from '@/libs/worship/EventCalendar';
+import { listEventsInWindow } from '@/libs/worship/EventQueries';
+import { listExceptionsForEvents } from '@/libs/worship/EventSeries';
+import { parseEventFilters } from '@/libs/worship/EventValidation';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+// Widest range a single calendar request may cover (a year plus the surrounding weeks)
+const MAX_CALENDAR_RANGE_DAYS = 400;
+
+/**
+ * GET /api/worship/events/calendar
+ * List the occurrences of the organization's events between startDate and endDate,
+ * with recurring events expanded in their church time zone and exceptions applied
+ */
+async function handleGetCalendar(request: NextRequest) {
+  try {
+    const { orgId } = await auth();
+
+    if (!orgId) {
+      return NextResponse.json(
+        { error: 'Organization membership required' },
+        { status: 403 },
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const filters = parseEventFilters(searchParams);
+
+    if (filters.error !== undefined) {
+      return NextResponse.json(
+        { error: filters.error },
+        { status: 400 },
+      );
+    }
+
+    const { dateRange, ...eventFilters } = filters.data;
+
+    if (!dateRange) {
+      return NextResponse.json(
+        { error: 'startDate and endDate are required' },
+        { status: 400 },
+      );
+    }
+
+    if (dateRange.end.getTime() - dateRange.start.getTime() > MAX_CALENDAR_RANGE_DAYS * 86_400_000) {
+      return NextResponse.json(
+        { error: `Date range cannot exceed ${MAX_CALENDAR_RANGE_DAYS} days` },
+        { status: 400 },
+      );
+    }
+
+    const events = await listEventsInWindow(orgId, dateRange, eventFilters);
+    const recurringEventIds = events
+      .filter(event => event.eventType === 'recurring')
+      .map(event => event.id);
+    const exceptions = await listExceptionsForEvents(recurringEventIds);
+
+    return NextResponse.json({
+      success: true,
+      data: buildCalendarEvents(events, exceptions, dateRange),
+    });
+  } catch (error) {
+    console.error('Failed to get calendar events:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve calendar events' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const GET = withWorshipAuth(handleGetCalendar, {
+  minimumRole: 'member',
+});
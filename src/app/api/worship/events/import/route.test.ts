@@ -0,0 +1,181 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { POST } from './route';
+
+const mockTx = vi.hoisted(() => ({
+  insert: vi.fn().mockReturnThis(),
+  values: vi.fn().mockReturnThis(),
+  returning: vi.fn(),
+}));
+
+const mockDb = vi.hoisted(() => ({
+  transaction: vi.fn(),
+}));
+
+vi.mock('@/libs/DB', () => ({
+  db: mockDb,
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/EventQueries', () => ({
+  findServiceInOrganization: vi.fn(),
+  listEventsInWindow: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/EventSeries', () => ({
+  listExceptionsForEvents: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/EventUsage', () => ({
+  checkEventCreationLimit: vi.fn(),
+}));
+
+// Mock middleware by replacing it with a simple pass-through
+vi.mock('@/middleware/worship-auth', () => ({
+  withWorshipAuth: (handler: any) => handler,
+}));
+
+const hierarchy = {
+  service: { id: 3, name: 'Sunday Service', defaultDuration: 90 },
+  ministry: { id: 2, name: 'Worship' },
+  church: { id: 1, name: 'Grace Church', timezone: 'America/Toronto' },
+};
+
+const content = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'UID:series@other',
+  'SUMMARY:Sunday Worship',
+  'DTSTART;TZID=America/Toronto:20250302T100000',
+  'RRULE:FREQ=WEEKLY',
+  'EXDATE;TZID=America/Toronto:20250309T100000',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'SUMMARY:Youth Night',
+  'DTSTART:20250314T230000Z',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+const existingYouthNight = {
+  id: 42,
+  title: 'Youth Night',
+  eventDate: new Date('2025-03-14T23:00:00Z'),
+  duration: 120,
+  eventType: 'one_time',
+  seriesId: null,
+  isCompleted: false,
+  service: { id: 4, name: 'Youth Service' },
+  ministry: { id: 5, name: 'Youth', color: null, icon: null },
+  church: { id: 1, name: 'Grace Church', timezone: 'America/Toronto' },
+};
+
+const importRequest = (body: Record<string, unknown>) => new NextRequest('http://localhost:3000/api/worship/events/import', {
+  method: 'POST',
+  body: JSON.stringify(body),
+});
+
+describe('/api/worship/events/import', () => {
+  let auth: any;
+  let eventQueries: any;
+  let eventSeries: any;
+  let eventUsage: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockTx.insert.mockReturnThis();
+    mockTx.values.mockReturnThis();
+    mockDb.transaction.mockImplementation(async (callback: any) => callback(mockTx));
+
+    auth = (await import('@clerk/nextjs/server')).auth;
+    eventQueries = await import('@/libs/worship/EventQueries');
+    eventSeries = await import('@/libs/worship/EventSeries');
+    eventUsage = await import('@/libs/worship/EventUsage');
+
+    auth.mockResolvedValue({ userId: 'user-123', orgId: 'org-123' });
+    eventQueries.findServiceInOrganization.mockResolvedValue(hierarchy);
+    eventQueries.listEventsInWindow.mockResolvedValue([existingYouthNight]);
+    eventSeries.listExceptionsForEvents.mockResolvedValue([]);
+    eventUsage.checkEventCreationLimit.mockResolvedValue({ allowed: true, current: 0, limit: 10, tier: 'free' });
+  });
+
+  it('previews the import without writing anything', async () => {
+    const response = await POST(importRequest({ serviceId: 3, content, preview: true }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.timeZone).toBe('America/Toronto');
+    expect(data.data.summary).toEqual({ total: 2, new: 1, duplicate: 1, unsupported: 0 });
+    expect(data.data.events[1]).toMatchObject({ title: 'Youth Night', status: 'duplicate', duplicateOfEventId: 42 });
+    expect(eventQueries.listEventsInWindow).toHaveBeenCalledWith('org-123', expect.any(Object), { churchIds: [1] });
+    expect(mockDb.transaction).not.toHaveBeenCalled();
+  });
+
+  it('creates new events and their exceptions in one transaction', async () => {
+    mockTx.returning.mockResolvedValueOnce([{ id: 10, title: 'Sunday Worship' }]);
+
+    const response = await POST(importRequest({ serviceId: 3, content }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+    expect(mockTx.values).toHaveBeenCalledWith(expect.objectContaining({
+      serviceId: 3,
+      title: 'Sunday Worship',
+      eventType: 'recurring',
+      recurringPattern: 'weekly',
+      createdBy: 'user-123',
+    }));
+    expect(mockTx.values).toHaveBeenCalledWith([
+      { occurrenceDate: '2025-03-09', exceptionType: 'skipped', eventId: 10, createdBy: 'user-123' },
+    ]);
+    expect(data.data.imported).toEqual([{ id: 10, title: 'Sunday Worship' }]);
+    expect(data.data.skipped).toEqual([expect.objectContaining({ title: 'Youth Night' })]);
+  });
+
+  it('refuses imports beyond the weekly events limit', async () => {
+    eventUsage.checkEventCreationLimit.mockResolvedValue({
+      allowed: false,
+      current: 9,
+      limit: 10,
+      tier: 'free',
+      message: 'You\'ve reached the weekly events limit for your free plan (9/10)',
+    });
+
+    const response = await POST(importRequest({ serviceId: 3, content }));
+    const data = await response.json();
+
+    expect(response.status).toBe(402);
+    expect(data).toMatchObject({ code: 'LIMIT_EXCEEDED', resource: 'eventsPerWeek' });
+    expect(data.upgrade.suggestedTier).toBe('team');
+    expect(eventUsage.checkEventCreationLimit).toHaveBeenCalledWith('org-123', 'free', [{
+      event: expect.objectContaining({ title: 'Sunday Worship', eventType: 'recurring' }),
+      timeZone: 'America/Toronto',
+      exceptions: [{ occurrenceDate: '2025-03-09', exceptionType: 'skipped' }],
+    }]);
+    expect(mockDb.transaction).not.toHaveBeenCalled();
+  });
+
+  it('leaves out excluded events', async () => {
+    const response = await POST(importRequest({ serviceId: 3, content, excludeIds: [0] }));
+    const data = await response.json();
+
+    expect(mockTx.insert).not.toHaveBeenCalled();
+    expect(data.data.skipped[0]).toMatchObject({ importId: 0, reason: 'Excluded from the import' });
+  });
+
+  it('validates the service and the file', async () => {
+    expect((await POST(importRequest({ content }))).status).toBe(400);
+    expect((await POST(importRequest({ serviceId: 3, content: 'not a calendar' }))).status).toBe(400);
+    expect((await POST(importRequest({ serviceId: 3, content: 'BEGIN:VCALENDAR\r\nEND:VCALENDAR' }))).status).toBe(400);
+
+    eventQueries.findServiceInOrganization.mockResolvedValue(null);
+
+    expect((await POST(importRequest({ serviceId: 3, content }))).status).toBe(404);
+  });
+});
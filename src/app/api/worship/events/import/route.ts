@@ -0,0 +1,231 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { db } from '@/libs/DB';
+import { buildCalendarEvents } from '@/libs/worship/EventCalendar';
+import { findServiceInOrganization, listEventsInWindow } from '@/libs/worship/EventQueries';
+import { listExceptionsForEvents } from '@/libs/worship/EventSeries';
+import { checkEventCreationLimit } from '@/libs/worship/EventUsage';
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import type { ImportCandidate } from '@/libs/worship/ICalendarImport';
+import { buildImportPlan, parseICalendar } from '@/libs/worship/ICalendarImport';
+import { DEFAULT_EVENT_DURATION } from '@/libs/worship/RecurrenceEngine';
+import type { SubscriptionTier } from '@/libs/worship/SubscriptionLimits';
+import { getUpgradeInfo } from '@/libs/worship/SubscriptionLimits';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+import {
+  eventExceptionsSchema as eventExceptionTable,
+  eventsSchema as eventTable,
+} from '@/models/WorshipSchema';
+import { normalizeTimeZone } from '@/utils/TimeZone';
+
+// Largest calendar file accepted (characters) and most events it may contain
+const MAX_IMPORT_SIZE = 2_000_000;
+const MAX_IMPORTED_EVENTS = 1000;
+
+// Mock function to get subscription tier
+function getOrganizationTier(_organizationId: string): SubscriptionTier {
+  return 'free';
+}
+
+function summarize(candidates: ImportCandidate[]) {
+  return {
+    total: candidates.length,
+    new: candidates.filter(candidate => candidate.status === 'new').length,
+    duplicate: candidates.filter(candidate => candidate.status === 'duplicate').length,
+    unsupported: candidates.filter(candidate => candidate.status === 'unsupported').length,
+  };
+}
+
+/**
+ * POST /api/worship/events/import
+ * Import the events of an .ics file into a service. With `preview: true` nothing is written and
+ * the planned events are returned; otherwise every new event not listed in `excludeIds` is created
+ * in one transaction, skipping duplicates of existing events and rules that cannot be expressed.
+ * Imports adding more occurrences than the plan's weekly events limit allows are refused.
+ */
+async function handleImportEvents(request: NextRequest) {
+  try {
+    const { userId, orgId } = await auth();
+
+    if (!userId || !orgId) {
+      return NextResponse.json(
+        { error: 'Organization membership required' },
+        { status: 403 },
+      );
+    }
+
+    const body = await request.json();
+    const serviceId = parsePositiveInteger(body.serviceId);
+
+    if (!serviceId) {
+      return NextResponse.json(
+        { error: 'Valid serviceId is required' },
+        { status: 400 },
+      );
+    }
+
+    if (typeof body.content !== 'string' || !body.content.includes('BEGIN:VCALENDAR')) {
+      return NextResponse.json(
+        { error: 'content must be the text of an .ics file' },
+        { status: 400 },
+      );
+    }
+
+    if (body.content.length > MAX_IMPORT_SIZE) {
+      return NextResponse.json(
+        { error: `Calendar file cannot exceed ${MAX_IMPORT_SIZE / 1_000_000} MB` },
+        { status: 400 },
+      );
+    }
+
+    const excludeIds = new Set<number>(Array.isArray(body.excludeIds) ? body.excludeIds.map(Number) : []);
+
+    const hierarchy = await findServiceInOrganization(serviceId, orgId);
+
+    if (!hierarchy) {
+      return NextResponse.json(
+        { error: 'Service not found' },
+        { status: 404 },
+      );
+    }
+
+    const timeZone = normalizeTimeZone(hierarchy.church.timezone);
+    const parsedEvents = parseICalendar(body.content, timeZone);
+
+    if (parsedEvents.length === 0) {
+      return NextResponse.json(
+        { error: 'No events found in the calendar file' },
+        { status: 400 },
+      );
+    }
+
+    if (parsedEvents.length > MAX_IMPORTED_EVENTS) {
+      return NextResponse.json(
+        { error: `A calendar file can contain at most ${MAX_IMPORTED_EVENTS} events` },
+        { status: 400 },
+      );
+    }
+
+    // Existing occurrences of the church around the imported dates, to detect duplicates
+    const starts = parsedEvents.map(event => event.start.getTime());
+    const window = {
+      start: new Date(Math.min(...starts) - 86_400_000),
+      end: new Date(Math.max(...starts) + 86_400_000),
+    };
+    const existingEvents = await listEventsInWindow(orgId, window, { churchIds: [hierarchy.church.id] });
+    const existingExceptions = await listExceptionsForEvents(existingEvents
+      .filter(event => event.eventType === 'recurring')
+      .map(event => event.id));
+
+    const candidates = buildImportPlan(
+      parsedEvents,
+      buildCalendarEvents(existingEvents, existingExceptions, window),
+      {
+        timeZone,
+        defaultTitle: hierarchy.service.name,
+        defaultDuration: hierarchy.service.defaultDuration ?? DEFAULT_EVENT_DURATION,
+      },
+    );
+
+    if (body.preview === true) {
+      return NextResponse.json({
+        success: true,
+        data: {
+          timeZone,
+          events: candidates,
+          summary: summarize(candidates),
+        },
+      });
+    }
+
+    const toImport = candidates.filter(candidate =>
+      candidate.status === 'new' && !excludeIds.has(candidate.importId));
+
+    const tier = getOrganizationTier(orgId);
+    const limitCheck = await checkEventCreationLimit(orgId, tier, toImport.map(candidate => ({
+      event: candidate,
+      timeZone,
+      exceptions: candidate.exceptions,
+    })));
+
+    if (!limitCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Subscription limit reached',
+          message: limitCheck.message,
+          code: 'LIMIT_EXCEEDED',
+          resource: 'eventsPerWeek',
+          limit: limitCheck,
+          upgrade: getUpgradeInfo(tier, 'eventsPerWeek'),
+        },
+        { status: 402 }, // Payment Required
+      );
+    }
+
+    const imported = await db.transaction(async (tx) => {
+      const created = [];
+
+      for (const candidate of toImport) {
+        const [event] = await tx
+          .insert(eventTable)
+          .values({
+            serviceId: hierarchy.service.id,
+            title: candidate.title,
+            description: candidate.description,
+            eventDate: candidate.eventDate,
+            duration: candidate.duration,
+            eventType: candidate.eventType,
+            recurringPattern: candidate.recurringPattern,
+            recurringConfig: candidate.recurringConfig,
+            createdBy: userId,
+          })
+          .returning();
+
+        if (candidate.exceptions.length > 0) {
+          await tx
+            .insert(eventExceptionTable)
+            .values(candidate.exceptions.map(exception => ({
+              ...exception,
+              eventId: event!.id,
+              createdBy: userId,
+            })));
+        }
+
+        created.push(event!);
+      }
+
+      return created;
+    });
+
+    const skipped = candidates
+      .filter(candidate => !toImport.includes(candidate))
+      .map(candidate => ({
+        importId: candidate.importId,
+        title: candidate.title,
+        eventDate: candidate.eventDate,
+        reason: candidate.status === 'new' ? 'Excluded from the import' : candidate.reason,
+      }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        imported,
+        skipped,
+      },
+      message: `Imported ${imported.length} of ${candidates.length} events`,
+    });
+  } catch (error) {
+    console.error('Failed to import events:', error);
+    return NextResponse.json(
+      { error: 'Failed to import events' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const POST = withWorshipAuth(handleImportEvents, {
+  permission: 'canCreateEvent',
+});
@@ -0,0 +1,268 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { GET, POST } from './route';
+
+const mockDb = vi.hoisted(() => ({
+  insert: vi.fn().mockReturnThis(),
+  values: vi.fn().mockReturnThis(),
+  returning: vi.fn(),
+}));
+
+vi.mock('@/libs/DB', () => ({
+  db: mockDb,
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/EventQueries', () => ({
+  findServiceInOrganization: vi.fn(),
+  listEventsForOrganization: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/EventConflicts', async importOriginal => ({
+  ...await importOriginal<typeof import('@/libs/worship/EventConflicts')>(),
+  detectEventConflicts: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/EventUsage', () => ({
+  checkEventCreationLimit: vi.fn(),
+}));
+
+// Mock middleware by replacing it with a simple pass-through
+vi.mock('@/middleware/worship-auth', () => ({
+  withWorshipAuth: (handler: any) => handler,
+}));
+
+describe('/api/worship/events', () => {
+  let auth: any;
+  let eventQueries: any;
+  let eventConflicts: any;
+  let eventUsage: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockDb.insert.mockReturnThis();
+    mockDb.values.mockReturnThis();
+
+    auth = (await import('@clerk/nextjs/server')).auth;
+    eventQueries = await import('@/libs/worship/EventQueries');
+    eventConflicts = await import('@/libs/worship/EventConflicts');
+    eventUsage = await import('@/libs/worship/EventUsage');
+    auth.mockResolvedValue({ userId: 'user-123', orgId: 'org-123' });
+    eventConflicts.detectEventConflicts.mockResolvedValue([]);
+    eventUsage.checkEventCreationLimit.mockResolvedValue({ allowed: true, current: 0, limit: 10, tier: 'free' });
+  });
+
+  describe('GET /api/worship/events', () => {
+    it('lists events of the current organization with parsed filters', async () => {
+      const events = [{ id: 1, title: 'Sunday Service' }];
+      eventQueries.listEventsForOrganization.mockResolvedValue(events);
+
+      const request = new NextRequest('http://localhost:3000/api/worship/events?churchIds=1,2&isCompleted=false');
+      const response = await GET(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toEqual(events);
+      expect(eventQueries.listEventsForOrganization).toHaveBeenCalledWith('org-123', {
+        churchIds: [1, 2],
+        isCompleted: false,
+      });
+    });
+
+    it('returns 400 for invalid filters', async () => {
+      const request = new NextRequest('http://localhost:3000/api/worship/events?eventType=weekly');
+      const response = await GET(request);
+
+      expect(response.status).toBe(400);
+      expect(eventQueries.listEventsForOrganization).not.toHaveBeenCalled();
+    });
+
+    it('handles database errors gracefully', async () => {
+      eventQueries.listEventsForOrganization.mockRejectedValue(new Error('Database error'));
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const request = new NextRequest('http://localhost:3000/api/worship/events');
+      const response = await GET(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(500);
+      expect(data.error).toBe('Failed to retrieve events');
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('POST /api/worship/events', () => {
+    const createRequest = (body: object) => new NextRequest('http://localhost:3000/api/worship/events', {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    it('creates an event using the service default duration', async () => {
+      eventQueries.findServiceInOrganization.mockResolvedValue({
+        service: { id: 3, defaultDuration: 75 },
+        ministry: { id: 2 },
+        church: { id: 1 },
+      });
+      mockDb.returning.mockResolvedValue([{ id: 10, title: 'Sunday Service' }]);
+
+      const response = await POST(createRequest({
+        serviceId: 3,
+        title: 'Sunday Service',
+        eventDate: '2025-03-02T15:00:00.000Z',
+      }));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.success).toBe(true);
+      expect(eventQueries.findServiceInOrganization).toHaveBeenCalledWith(3, 'org-123');
+      expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({
+        serviceId: 3,
+        title: 'Sunday Service',
+        duration: 75,
+        eventType: 'one_time',
+        createdBy: 'user-123',
+      }));
+    });
+
+    describe('scheduling conflicts', () => {
+      const warning = { severity: 'warning', eventId: 7, title: 'Youth Night', count: 1 };
+      const body = {
+        serviceId: 3,
+        title: 'Prayer Night',
+        eventDate: '2025-03-14T23:00:00.000Z',
+      };
+
+      beforeEach(() => {
+        eventQueries.findServiceInOrganization.mockResolvedValue({
+          service: { id: 3, defaultDuration: 90 },
+          ministry: { id: 2 },
+          church: { id: 1, timezone: 'America/Toronto' },
+        });
+        mockDb.returning.mockResolvedValue([{ id: 10, title: 'Prayer Night' }]);
+      });
+
+      it('checks the new event against the other events of the church', async () => {
+        await POST(createRequest(body));
+
+        expect(eventConflicts.detectEventConflicts).toHaveBeenCalledWith(
+          'org-123',
+          1,
+          expect.objectContaining({ serviceId: 3, duration: 90, eventType: 'one_time' }),
+          { timeZone: 'America/Toronto' },
+        );
+      });
+
+      it('refuses to double-book the same service', async () => {
+        eventConflicts.detectEventConflicts.mockResolvedValue([{ ...warning, severity: 'error' }]);
+
+        const response = await POST(createRequest({ ...body, allowConflicts: true }));
+        const data = await response.json();
+
+        expect(response.status).toBe(409);
+        expect(data.conflicts).toHaveLength(1);
+        expect(data.requiresConfirmation).toBeUndefined();
+        expect(mockDb.insert).not.toHaveBeenCalled();
+      });
+
+      it('asks for confirmation before overlapping other events', async () => {
+        eventConflicts.detectEventConflicts.mockResolvedValue([warning]);
+
+        const response = await POST(createRequest(body));
+        const data = await response.json();
+
+        expect(response.status).toBe(409);
+        expect(data.requiresConfirmation).toBe(true);
+        expect(mockDb.insert).not.toHaveBeenCalled();
+      });
+
+      it('creates the event with warnings once the overlap is confirmed', async () => {
+        eventConflicts.detectEventConflicts.mockResolvedValue([warning]);
+
+        const response = await POST(createRequest({ ...body, allowConflicts: true }));
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.warnings).toEqual([warning]);
+        expect(mockDb.insert).toHaveBeenCalled();
+      });
+    });
+
+    it('refuses events beyond the weekly events limit', async () => {
+      eventQueries.findServiceInOrganization.mockResolvedValue({
+        service: { id: 3, defaultDuration: 90 },
+        ministry: { id: 2 },
+        church: { id: 1, timezone: 'America/Toronto' },
+      });
+      eventUsage.checkEventCreationLimit.mockResolvedValue({
+        allowed: false,
+        current: 10,
+        limit: 10,
+        tier: 'free',
+        message: 'You\'ve reached the weekly events limit for your free plan (10/10)',
+      });
+
+      const response = await POST(createRequest({
+        serviceId: 3,
+        title: 'Sunday Service',
+        eventDate: '2025-03-02T15:00:00.000Z',
+      }));
+      const data = await response.json();
+
+      expect(response.status).toBe(402);
+      expect(data).toMatchObject({ code: 'LIMIT_EXCEEDED', resource: 'eventsPerWeek' });
+      expect(data.upgrade.suggestedTier).toBe('team');
+      expect(eventUsage.checkEventCreationLimit).toHaveBeenCalledWith(
+        'org-123',
+        'free',
+        [{ event: expect.objectContaining({ serviceId: 3, eventType: 'one_time' }), timeZone: 'America/Toronto' }],
+      );
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('reads an eventDate without offset in the church time zone', async () => {
+      eventQueries.findServiceInOrganization.mockResolvedValue({
+        service: { id: 3, defaultDuration: 90 },
+        ministry: { id: 2 },
+        church: { id: 1, timezone: 'America/Montreal' },
+      });
+      mockDb.returning.mockResolvedValue([{ id: 10, title: 'Sunday Service' }]);
+
+      await POST(createRequest({
+        serviceId: 3,
+        title: 'Sunday Service',
+        eventDate: '2025-07-06T10:00',
+      }));
+
+      expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({
+        eventDate: new Date('2025-07-06T14:00:00.000Z'),
+      }));
+    });
+
+    it('returns 404 when the service is outside the organization', async () => {
+      eventQueries.findServiceInOrganization.mockResolvedValue(null);
+
+      const response = await POST(createRequest({
+        serviceId: 99,
+        title: 'Sunday Service',
+        eventDate: '2025-03-02T15:00:00.000Z',
+      }));
+
+      expect(response.status).toBe(404);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('returns 400 for invalid input', async () => {
+      const response = await POST(createRequest({ title: 'No date' }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('serviceId, title and eventDate are required');
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { db } from '@/libs/DB';
+import { detectEventConflicts, getConflictError } from '@/libs/worship/EventConflicts';
+import {
+  findServiceInOrganization,
+  listEventsForOrganization,
+} from '@/libs/worship/EventQueries';
+import { checkEventCreationLimit } from '@/libs/worship/EventUsage';
+import { parseChurchDateTime, parseEventFilters, validateEventInput } from '@/libs/worship/EventValidation';
+import type { SubscriptionTier } from '@/libs/worship/SubscriptionLimits';
+import { getUpgradeInfo } from '@/libs/worship/SubscriptionLimits';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+import { eventsSchema as eventTable } from '@/models/WorshipSchema';
+
+// Mock function to get subscription tier
+function getOrganizationTier(_organizationId: string): SubscriptionTier {
+  return 'free';
+}
+
+/**
+ * GET /api/worship/events
+ * List events of the current organization, filtered by service, ministry, church,
+ * event type, completion and date range
+ */
+async function handleGetEvents(request: NextRequest) {
+  try {
+    const { orgId } = await auth();
+
+    if (!orgId) {
+      return NextResponse.json(
+        { error: 'Organization membership required' },
+        { status: 403 },
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const filters = parseEventFilters(searchParams);
+
+    if (filters.error !== undefined) {
+      return NextResponse.json(
+        { error: filters.error },
+        { status: 400 },
+      );
+    }
+
+    const events = await listEventsForOrganization(orgId, filters.data);
+
+    return NextResponse.json({
+      success: true,
+      data: events,
+    });
+  } catch (error) {
+    console.error('Failed to get events:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve events' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/worship/events
+ * Schedule a new event for a service of the current organization; an eventDate without UTC
+ * offset is read in the church's time zone. Events beyond the plan's weekly events limit are
+ * refused; overlaps with the same service are refused; overlaps with other events of the
+ * church need `allowConflicts: true`.
+ */
+async function handleCreateEvent(request: NextRequest) {
+  try {
+    const { userId, orgId } = await auth();
+
+    if (!userId || !orgId) {
+      return NextResponse.json(
+        { error: 'Organization membership required' },
+        { status: 403 },
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateEventInput(body);
+
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 },
+      );
+    }
+
+    const input = validation.data;
+    const hierarchy = await findServiceInOrganization(input.serviceId!, orgId);
+
+    if (!hierarchy) {
+      return NextResponse.json(
+        { error: 'Service not found' },
+        { status: 404 },
+      );
+    }
+
+    const values = {
+      serviceId: hierarchy.service.id,
+      title: input.title!,
+      description: input.description ?? null,
+      eventDate: parseChurchDateTime(body.eventDate, hierarchy.church.timezone) ?? input.eventDate!,
+      duration: input.duration ?? hierarchy.service.defaultDuration ?? 90,
+      eventType: input.eventType ?? 'one_time',
+      recurringPattern: input.recurringPattern ?? null,
+      recurringConfig: input.recurringConfig ?? null,
+      createdBy: userId,
+    };
+
+    const tier = getOrganizationTier(orgId);
+    const limitCheck = await checkEventCreationLimit(orgId, tier, [{ event: values, timeZone: hierarchy.church.timezone }]);
+
+    if (!limitCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Subscription limit reached',
+          message: limitCheck.message,
+          code: 'LIMIT_EXCEEDED',
+          resource: 'eventsPerWeek',
+          limit: limitCheck,
+          upgrade: getUpgradeInfo(tier, 'eventsPerWeek'),
+        },
+        { status: 402 }, // Payment Required
+      );
+    }
+
+    const conflicts = await detectEventConflicts(orgId, hierarchy.church.id, values, {
+      timeZone: hierarchy.church.timezone,
+    });
+    const conflictError = getConflictError(conflicts, body.allowConflicts === true);
+
+    if (conflictError) {
+      return NextResponse.json(conflictError, { status: 409 });
+    }
+
+    const [newEvent] = await db
+      .insert(eventTable)
+      .values(values)
+      .returning();
+
+    return NextResponse.json({
+      success: true,
+      data: newEvent,
+      ...(conflicts.length > 0 && { warnings: conflicts }),
+      message: 'Event created successfully',
+    });
+  } catch (error) {
+    console.error('Failed to create event:', error);
+    return NextResponse.json(
+      { error: 'Failed to create event' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware - any member can view the calendar
+export const GET = withWorshipAuth(handleGetEvents, {
+  minimumRole: 'member',
+});
+
+export const POST = withWorshipAuth(handleCreateEvent, {
+  permission: 'canCreateEvent',
+});
@@ -0,0 +1,56 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import { deleteMemberSkill } from '@/libs/worship/MemberSkills';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+type RouteParams = {
+  params: {
+    memberSkillId: string;
+  };
+};
+
+/**
+ * DELETE /api/worship/member-skills/[memberSkillId]
+ * Remove a skill from a member
+ */
+async function handleDeleteMemberSkill(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { orgId } = await auth();
+    const memberSkillId = parsePositiveInteger(params.memberSkillId);
+
+    if (!memberSkillId) {
+      return NextResponse.json(
+        { error: 'Valid memberSkillId is required' },
+        { status: 400 },
+      );
+    }
+
+    const memberSkill = orgId ? await deleteMemberSkill(orgId, memberSkillId) : null;
+
+    if (!memberSkill) {
+      return NextResponse.json(
+        { error: 'Member skill not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Member skill removed successfully',
+    });
+  } catch (error) {
+    console.error('Failed to delete member skill:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove member skill' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const DELETE = withWorshipAuth(handleDeleteMemberSkill, {
+  permission: 'canAssignRoles',
+});
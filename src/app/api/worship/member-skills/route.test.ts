@@ -0,0 +1,102 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { GET, POST } from './route';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/worship-user-management', () => ({
+  getOrganizationMembers: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/MemberSkills', async importOriginal => ({
+  ...await importOriginal<typeof import('@/libs/worship/MemberSkills')>(),
+  findSkill: vi.fn(),
+  isChurchInOrganization: vi.fn(),
+  listMemberSkills: vi.fn(),
+  saveMemberSkill: vi.fn(),
+}));
+
+// Mock middleware by replacing it with a simple pass-through
+vi.mock('@/middleware/worship-auth', () => ({
+  withWorshipAuth: (handler: any) => handler,
+}));
+
+const skill = { id: 5, organizationId: 'org-123', name: 'Bass', category: 'instrument' };
+
+function saveRequest(body: object) {
+  return new NextRequest('http://localhost:3000/api/worship/member-skills', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('/api/worship/member-skills', () => {
+  let auth: any;
+  let userManagement: any;
+  let memberSkills: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    auth = (await import('@clerk/nextjs/server')).auth;
+    userManagement = await import('@/lib/worship-user-management');
+    memberSkills = await import('@/libs/worship/MemberSkills');
+    auth.mockResolvedValue({ userId: 'user-123', orgId: 'org-123' });
+    userManagement.getOrganizationMembers.mockResolvedValue([{ userId: 'user-456' }]);
+    memberSkills.findSkill.mockResolvedValue(skill);
+    memberSkills.isChurchInOrganization.mockResolvedValue(true);
+    memberSkills.listMemberSkills.mockResolvedValue([]);
+    memberSkills.saveMemberSkill.mockImplementation(async (_orgId: string, input: object) => ({ id: 1, ...input }));
+  });
+
+  describe('GET', () => {
+    it('finds the members with a skill at a church', async () => {
+      const response = await GET(new NextRequest('http://localhost:3000/api/worship/member-skills?skillId=5&churchId=2'));
+
+      expect(response.status).toBe(200);
+      expect(memberSkills.listMemberSkills).toHaveBeenCalledWith('org-123', { skillId: 5, churchId: 2 });
+    });
+
+    it('rejects invalid filters', async () => {
+      const response = await GET(new NextRequest('http://localhost:3000/api/worship/member-skills?skillId=bass'));
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST', () => {
+    it('gives a member a skill at a church', async () => {
+      const response = await POST(saveRequest({ userId: 'user-456', skillId: 5, proficiency: 'advanced', churchId: 2 }));
+
+      expect(response.status).toBe(200);
+      expect(memberSkills.isChurchInOrganization).toHaveBeenCalledWith(2, 'org-123');
+      expect(memberSkills.saveMemberSkill).toHaveBeenCalledWith('org-123', {
+        userId: 'user-456',
+        skillId: 5,
+        proficiency: 'advanced',
+        churchId: 2,
+      });
+    });
+
+    it('rejects skills, churches and members outside the organization', async () => {
+      expect((await POST(saveRequest({ userId: 'user-789', skillId: 5, proficiency: 'advanced' }))).status).toBe(400);
+
+      memberSkills.isChurchInOrganization.mockResolvedValue(false);
+
+      expect((await POST(saveRequest({ userId: 'user-456', skillId: 5, proficiency: 'advanced', churchId: 9 }))).status).toBe(404);
+
+      memberSkills.findSkill.mockResolvedValue(null);
+
+      expect((await POST(saveRequest({ userId: 'user-456', skillId: 6, proficiency: 'advanced' }))).status).toBe(404);
+      expect(memberSkills.saveMemberSkill).not.toHaveBeenCalled();
+    });
+  });
+});
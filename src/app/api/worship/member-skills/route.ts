@@ -0,0 +1,131 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { getOrganizationMembers } from '@/lib/worship-user-management';
+import {
+  findSkill,
+  isChurchInOrganization,
+  listMemberSkills,
+  parseMemberSkillFilters,
+  saveMemberSkill,
+  validateMemberSkillInput,
+} from '@/libs/worship/MemberSkills';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+/**
+ * GET /api/worship/member-skills
+ * List the skills of the organization's members, the most proficient first. Filter by `userId`,
+ * `skillId` and `churchId` (members serving at that church or at any church) to find who can
+ * fill a slot.
+ */
+async function handleListMemberSkills(request: NextRequest) {
+  try {
+    const { orgId } = await auth();
+
+    if (!orgId) {
+      return NextResponse.json(
+        { error: 'Organization membership required' },
+        { status: 403 },
+      );
+    }
+
+    const filterResult = parseMemberSkillFilters(request.nextUrl.searchParams);
+
+    if (filterResult.error !== undefined) {
+      return NextResponse.json(
+        { error: filterResult.error },
+        { status: 400 },
+      );
+    }
+
+    const memberSkills = await listMemberSkills(orgId, filterResult.data);
+
+    return NextResponse.json({
+      success: true,
+      data: memberSkills,
+    });
+  } catch (error) {
+    console.error('Failed to list member skills:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve member skills' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/worship/member-skills
+ * Give a member a skill of the catalog (`userId`, `skillId`, `proficiency`, and the `churchId`
+ * they serve at with it, or null for any church). Giving it again updates it.
+ */
+async function handleSaveMemberSkill(request: NextRequest) {
+  try {
+    const { orgId } = await auth();
+
+    if (!orgId) {
+      return NextResponse.json(
+        { error: 'Organization membership required' },
+        { status: 403 },
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateMemberSkillInput(body);
+
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 },
+      );
+    }
+
+    const input = validation.data;
+
+    if (!await findSkill(orgId, input.skillId)) {
+      return NextResponse.json(
+        { error: 'Skill not found' },
+        { status: 404 },
+      );
+    }
+
+    if (input.churchId && !await isChurchInOrganization(input.churchId, orgId)) {
+      return NextResponse.json(
+        { error: 'Church not found' },
+        { status: 404 },
+      );
+    }
+
+    const members = await getOrganizationMembers(orgId);
+
+    if (!members.some(member => member.userId === input.userId)) {
+      return NextResponse.json(
+        { error: 'userId must be a member of the organization' },
+        { status: 400 },
+      );
+    }
+
+    const memberSkill = await saveMemberSkill(orgId, input);
+
+    return NextResponse.json({
+      success: true,
+      data: memberSkill,
+      message: 'Member skill saved successfully',
+    });
+  } catch (error) {
+    console.error('Failed to save member skill:', error);
+    return NextResponse.json(
+      { error: 'Failed to save member skill' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const GET = withWorshipAuth(handleListMemberSkills, {
+  minimumRole: 'member',
+});
+
+export const POST = withWorshipAuth(handleSaveMemberSkill, {
+  permission: 'canAssignRoles',
+});
@@ -34,7 +34,8 @@ async function checkMinistryCreationLimit(organizationId: string): Promise<{ all
       churches: 0, 
       ministries: ministryCount.count, 
       collaborators: 0, 
-      services: 0 
+      services: 0,
+      eventsPerWeek: 0 
     }, 'ministries');
 
     return {
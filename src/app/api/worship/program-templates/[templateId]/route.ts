@@ -0,0 +1,189 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { findMinistryInOrganization } from '@/libs/worship/EventQueries';
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import { findUnavailableHymnIds } from '@/libs/worship/ProgramQueries';
+import {
+  deleteProgramTemplate,
+  findProgramTemplate,
+  getTemplateHymnIds,
+  updateProgramTemplate,
+  validateTemplateInput,
+} from '@/libs/worship/ProgramTemplates';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+type RouteParams = {
+  params: {
+    templateId: string;
+  };
+};
+
+/**
+ * GET /api/worship/program-templates/[templateId]
+ * Get a program template with its sections
+ */
+async function handleGetTemplate(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { orgId } = await auth();
+    const templateId = parsePositiveInteger(params.templateId);
+
+    if (!templateId) {
+      return NextResponse.json(
+        { error: 'Valid templateId is required' },
+        { status: 400 },
+      );
+    }
+
+    const template = orgId ? await findProgramTemplate(templateId, orgId) : null;
+
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: template,
+    });
+  } catch (error) {
+    console.error('Failed to get program template:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve program template' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PATCH /api/worship/program-templates/[templateId]
+ * Update a template; `sections`, when given, replaces all of its sections. Programs already
+ * created from the template keep their own copy.
+ */
+async function handleUpdateTemplate(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { orgId } = await auth();
+    const templateId = parsePositiveInteger(params.templateId);
+
+    if (!templateId) {
+      return NextResponse.json(
+        { error: 'Valid templateId is required' },
+        { status: 400 },
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateTemplateInput(body, { partial: true });
+
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 },
+      );
+    }
+
+    const changes = validation.data;
+
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json(
+        { error: 'No fields to update' },
+        { status: 400 },
+      );
+    }
+
+    const existing = orgId ? await findProgramTemplate(templateId, orgId) : null;
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 },
+      );
+    }
+
+    if (changes.ministryId && !await findMinistryInOrganization(changes.ministryId, orgId!)) {
+      return NextResponse.json(
+        { error: 'Ministry not found' },
+        { status: 404 },
+      );
+    }
+
+    const unavailableHymnIds = changes.sections
+      ? await findUnavailableHymnIds(getTemplateHymnIds(changes.sections), orgId!)
+      : [];
+
+    if (unavailableHymnIds.length > 0) {
+      return NextResponse.json(
+        { error: `Hymns not found: ${unavailableHymnIds.join(', ')}` },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await updateProgramTemplate(templateId, changes),
+      message: 'Template updated successfully',
+    });
+  } catch (error) {
+    console.error('Failed to update program template:', error);
+    return NextResponse.json(
+      { error: 'Failed to update program template' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/worship/program-templates/[templateId]
+ * Delete a template; programs created from it are kept
+ */
+async function handleDeleteTemplate(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { orgId } = await auth();
+    const templateId = parsePositiveInteger(params.templateId);
+
+    if (!templateId) {
+      return NextResponse.json(
+        { error: 'Valid templateId is required' },
+        { status: 400 },
+      );
+    }
+
+    const existing = orgId ? await findProgramTemplate(templateId, orgId) : null;
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 },
+      );
+    }
+
+    await deleteProgramTemplate(templateId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Template deleted successfully',
+    });
+  } catch (error) {
+    console.error('Failed to delete program template:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete program template' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const GET = withWorshipAuth(handleGetTemplate, {
+  minimumRole: 'member',
+});
+
+export const PATCH = withWorshipAuth(handleUpdateTemplate, {
+  permission: 'canCreateProgram',
+});
+
+export const DELETE = withWorshipAuth(handleDeleteTemplate, {
+  permission: 'canDeleteProgram',
+});
@@ -0,0 +1,122 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { GET, POST } from './route';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/EventQueries', () => ({
+  findMinistryInOrganization: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramQueries', () => ({
+  findUnavailableHymnIds: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramTemplates', async importOriginal => ({
+  ...await importOriginal<typeof import('@/libs/worship/ProgramTemplates')>(),
+  createProgramTemplate: vi.fn(),
+  listProgramTemplates: vi.fn(),
+}));
+
+// Mock middleware by replacing it with a simple pass-through
+vi.mock('@/middleware/worship-auth', () => ({
+  withWorshipAuth: (handler: any) => handler,
+}));
+
+const createRequest = (body: object) => new NextRequest('http://localhost:3000/api/worship/program-templates', {
+  method: 'POST',
+  body: JSON.stringify(body),
+  headers: { 'Content-Type': 'application/json' },
+});
+
+describe('/api/worship/program-templates', () => {
+  let auth: any;
+  let eventQueries: any;
+  let programQueries: any;
+  let programTemplates: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    auth = (await import('@clerk/nextjs/server')).auth;
+    eventQueries = await import('@/libs/worship/EventQueries');
+    programQueries = await import('@/libs/worship/ProgramQueries');
+    programTemplates = await import('@/libs/worship/ProgramTemplates');
+    auth.mockResolvedValue({ userId: 'user-123', orgId: 'org-123' });
+    eventQueries.findMinistryInOrganization.mockResolvedValue({ id: 2 });
+    programQueries.findUnavailableHymnIds.mockResolvedValue([]);
+    programTemplates.createProgramTemplate.mockImplementation(async (values: object) => ({ id: 5, ...values }));
+  });
+
+  describe('GET', () => {
+    it('lists the templates available to a ministry', async () => {
+      programTemplates.listProgramTemplates.mockResolvedValue([{ id: 5, name: 'Sunday Morning' }]);
+
+      const response = await GET(new NextRequest('http://localhost:3000/api/worship/program-templates?ministryId=2'));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toEqual([{ id: 5, name: 'Sunday Morning' }]);
+      expect(programTemplates.listProgramTemplates).toHaveBeenCalledWith('org-123', 2);
+    });
+
+    it('returns 400 for invalid ministries', async () => {
+      const response = await GET(new NextRequest('http://localhost:3000/api/worship/program-templates?ministryId=youth'));
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST', () => {
+    it('creates a ministry template', async () => {
+      const response = await POST(createRequest({
+        name: 'Sunday Morning',
+        ministryId: 2,
+        sections: [{ type: 'hymn', title: 'Doxology', hymnId: 8 }],
+      }));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.id).toBe(5);
+      expect(eventQueries.findMinistryInOrganization).toHaveBeenCalledWith(2, 'org-123');
+      expect(programQueries.findUnavailableHymnIds).toHaveBeenCalledWith([8], 'org-123');
+      expect(programTemplates.createProgramTemplate).toHaveBeenCalledWith({
+        organizationId: 'org-123',
+        ministryId: 2,
+        name: 'Sunday Morning',
+        description: null,
+        sections: [{ type: 'hymn', title: 'Doxology', hymnId: 8 }],
+        createdBy: 'user-123',
+      });
+    });
+
+    it('returns 404 for ministries of other organizations', async () => {
+      eventQueries.findMinistryInOrganization.mockResolvedValue(null);
+
+      const response = await POST(createRequest({ name: 'Sunday Morning', ministryId: 9, sections: [] }));
+
+      expect(response.status).toBe(404);
+      expect(programTemplates.createProgramTemplate).not.toHaveBeenCalled();
+    });
+
+    it('refuses hymns the organization cannot use', async () => {
+      programQueries.findUnavailableHymnIds.mockResolvedValue([8]);
+
+      const response = await POST(createRequest({
+        name: 'Sunday Morning',
+        sections: [{ type: 'hymn', title: 'Doxology', hymnId: 8 }],
+      }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Hymns not found: 8');
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { findMinistryInOrganization } from '@/libs/worship/EventQueries';
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import { findUnavailableHymnIds } from '@/libs/worship/ProgramQueries';
+import {
+  createProgramTemplate,
+  getTemplateHymnIds,
+  listProgramTemplates,
+  validateTemplateInput,
+} from '@/libs/worship/ProgramTemplates';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+/**
+ * GET /api/worship/program-templates?ministryId=
+ * List the program templates of the current organization; with a ministry, only the
+ * organization-wide templates and the ministry's own
+ */
+async function handleGetTemplates(request: NextRequest) {
+  try {
+    const { orgId } = await auth();
+
+    if (!orgId) {
+      return NextResponse.json(
+        { error: 'Organization membership required' },
+        { status: 403 },
+      );
+    }
+
+    const ministryParam = request.nextUrl.searchParams.get('ministryId');
+    const ministryId = ministryParam ? parsePositiveInteger(ministryParam) : undefined;
+
+    if (ministryId === null) {
+      return NextResponse.json(
+        { error: 'ministryId must be a positive integer' },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await listProgramTemplates(orgId, ministryId),
+    });
+  } catch (error) {
+    console.error('Failed to get program templates:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve program templates' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/worship/program-templates
+ * Create a template for the whole organization, or for one ministry with `ministryId`
+ */
+async function handleCreateTemplate(request: NextRequest) {
+  try {
+    const { userId, orgId } = await auth();
+
+    if (!userId || !orgId) {
+      return NextResponse.json(
+        { error: 'Organization membership required' },
+        { status: 403 },
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateTemplateInput(body);
+
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 },
+      );
+    }
+
+    const input = validation.data;
+
+    if (input.ministryId && !await findMinistryInOrganization(input.ministryId, orgId)) {
+      return NextResponse.json(
+        { error: 'Ministry not found' },
+        { status: 404 },
+      );
+    }
+
+    const unavailableHymnIds = await findUnavailableHymnIds(getTemplateHymnIds(input.sections!), orgId);
+
+    if (unavailableHymnIds.length > 0) {
+      return NextResponse.json(
+        { error: `Hymns not found: ${unavailableHymnIds.join(', ')}` },
+        { status: 400 },
+      );
+    }
+
+    const template = await createProgramTemplate({
+      organizationId: orgId,
+      ministryId: input.ministryId ?? null,
+      name: input.name!,
+      description: input.description ?? null,
+      sections: input.sections!,
+      createdBy: userId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: template,
+      message: 'Template created successfully',
+    });
+  } catch (error) {
+    console.error('Failed to create program template:', error);
+    return NextResponse.json(
+      { error: 'Failed to create program template' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const GET = withWorshipAuth(handleGetTemplates, {
+  minimumRole: 'member',
+});
+
+export const POST = withWorshipAuth(handleCreateTemplate, {
+  permission: 'canCreateProgram',
+});
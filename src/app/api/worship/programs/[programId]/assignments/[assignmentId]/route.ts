@@ -0,0 +1,62 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import { deleteProgramAssignment, findProgramAssignment } from '@/libs/worship/ProgramAssignments';
+import { findProgramInOrganization } from '@/libs/worship/ProgramQueries';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+type RouteParams = {
+  params: {
+    programId: string;
+    assignmentId: string;
+  };
+};
+
+/**
+ * DELETE /api/worship/programs/[programId]/assignments/[assignmentId]
+ * Remove a member from the team of a program
+ */
+async function handleDeleteAssignment(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+    const assignmentId = parsePositiveInteger(params.assignmentId);
+
+    if (!programId || !assignmentId) {
+      return NextResponse.json(
+        { error: 'Valid programId and assignmentId are required' },
+        { status: 400 },
+      );
+    }
+
+    const hierarchy = orgId ? await findProgramInOrganization(programId, orgId) : null;
+    const assignment = hierarchy ? await findProgramAssignment(programId, assignmentId) : null;
+
+    if (!assignment) {
+      return NextResponse.json(
+        { error: 'Assignment not found' },
+        { status: 404 },
+      );
+    }
+
+    await deleteProgramAssignment(assignmentId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Assignment removed successfully',
+    });
+  } catch (error) {
+    console.error('Failed to delete program assignment:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete program assignment' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const DELETE = withWorshipAuth(handleDeleteAssignment, {
+  permission: 'canEditProgram',
+});
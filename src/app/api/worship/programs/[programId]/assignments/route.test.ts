@@ -0,0 +1,163 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { GET, POST } from './route';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/worship-user-management', () => ({
+  getOrganizationMembers: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramQueries', () => ({
+  findProgramInOrganization: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramAssignments', async importOriginal => ({
+  ...await importOriginal<typeof import('@/libs/worship/ProgramAssignments')>(),
+  addProgramAssignment: vi.fn(),
+  listAssignmentsForProgram: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/VolunteerAvailability', () => ({
+  checkProgramAvailability: vi.fn(),
+}));
+
+// Mock middleware by replacing it with a simple pass-through
+vi.mock('@/middleware/worship-auth', () => ({
+  withWorshipAuth: (handler: any) => handler,
+}));
+
+const hierarchy = {
+  program: { id: 7, title: 'Easter Sunday', status: 'draft' },
+  event: { id: 12 },
+  service: { id: 3 },
+  ministry: { id: 2 },
+  church: { id: 1 },
+};
+
+const members = [
+  { userId: 'user-123', firstName: 'Ana', lastName: null, worshipRole: 'worship_leader' },
+  { userId: 'user-456', firstName: 'Ben', lastName: null, worshipRole: 'member' },
+];
+
+const assignment = {
+  id: 3,
+  programId: 7,
+  userId: 'user-456',
+  role: 'Sound',
+  notes: null,
+  isConfirmed: false,
+  confirmedAt: null,
+  declinedAt: null,
+  declineReason: null,
+  assignedBy: 'user-123',
+};
+
+const params = { params: { programId: '7' } };
+
+function assignRequest(body: object) {
+  return new NextRequest('http://localhost:3000/api/worship/programs/7/assignments', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('/api/worship/programs/[programId]/assignments', () => {
+  let auth: any;
+  let userManagement: any;
+  let programQueries: any;
+  let programAssignments: any;
+  let volunteerAvailability: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    auth = (await import('@clerk/nextjs/server')).auth;
+    userManagement = await import('@/lib/worship-user-management');
+    programQueries = await import('@/libs/worship/ProgramQueries');
+    programAssignments = await import('@/libs/worship/ProgramAssignments');
+    volunteerAvailability = await import('@/libs/worship/VolunteerAvailability');
+    auth.mockResolvedValue({ userId: 'user-123', orgId: 'org-123' });
+    userManagement.getOrganizationMembers.mockResolvedValue(members);
+    programQueries.findProgramInOrganization.mockResolvedValue(hierarchy);
+    programAssignments.listAssignmentsForProgram.mockResolvedValue([assignment]);
+    programAssignments.addProgramAssignment.mockImplementation(async (_program: object, _orgId: string, input: object) =>
+      ({ ...assignment, id: 9, ...input }));
+    volunteerAvailability.checkProgramAvailability.mockResolvedValue([]);
+  });
+
+  describe('GET', () => {
+    it('lists the team with the status of each assignment', async () => {
+      programAssignments.listAssignmentsForProgram.mockResolvedValue([
+        assignment,
+        { ...assignment, id: 4, role: 'Vocalist', declinedAt: '2025-04-01T12:00:00.000Z', declineReason: 'Away' },
+      ]);
+
+      const response = await GET(new NextRequest('http://localhost:3000/api/worship/programs/7/assignments'), params);
+      const data = await response.json();
+
+      expect(data.data.map((item: any) => [item.id, item.status])).toEqual([[3, 'pending'], [4, 'declined']]);
+    });
+  });
+
+  describe('POST', () => {
+    it('assigns a member a role', async () => {
+      const response = await POST(assignRequest({ userId: 'user-456', role: 'pianist' }), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toMatchObject({ id: 9, role: 'pianist', status: 'pending' });
+      expect(programAssignments.addProgramAssignment).toHaveBeenCalledWith(
+        hierarchy.program,
+        'org-123',
+        { userId: 'user-456', role: 'pianist', notes: null },
+        'user-123',
+        members,
+      );
+    });
+
+    it('rejects assignees outside the organization and repeated roles', async () => {
+      expect((await POST(assignRequest({ userId: 'user-789', role: 'pianist' }), params)).status).toBe(400);
+
+      const response = await POST(assignRequest({ userId: 'user-456', role: 'sound' }), params);
+
+      expect(response.status).toBe(409);
+      expect((await response.json()).error).toBe('This member is already assigned as sound');
+      expect(programAssignments.addProgramAssignment).not.toHaveBeenCalled();
+    });
+
+    it('warns when the assignee may be unavailable unless told to ignore it', async () => {
+      const conflicts = [{ type: 'blackout', message: 'Unavailable from 2025-04-14 to 2025-04-27 (Vacation)' }];
+
+      volunteerAvailability.checkProgramAvailability.mockResolvedValue(conflicts);
+
+      const response = await POST(assignRequest({ userId: 'user-456', role: 'pianist' }), params);
+
+      expect(response.status).toBe(409);
+      expect((await response.json()).conflicts).toEqual(conflicts);
+      expect(volunteerAvailability.checkProgramAvailability).toHaveBeenCalledWith('org-123', 'user-456', hierarchy);
+      expect(programAssignments.addProgramAssignment).not.toHaveBeenCalled();
+
+      const forced = await POST(assignRequest({ userId: 'user-456', role: 'pianist', ignoreAvailability: true }), params);
+
+      expect(forced.status).toBe(200);
+      expect(programAssignments.addProgramAssignment).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not assign members to completed programs', async () => {
+      programQueries.findProgramInOrganization.mockResolvedValue({ ...hierarchy, program: { ...hierarchy.program, status: 'completed' } });
+
+      const response = await POST(assignRequest({ userId: 'user-456', role: 'pianist' }), params);
+
+      expect(response.status).toBe(409);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { getOrganizationMembers } from '@/lib/worship-user-management';
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import {
+  addProgramAssignment,
+  getAssignmentStatus,
+  isAlreadyAssigned,
+  listAssignmentsForProgram,
+  validateAssignmentInput,
+} from '@/libs/worship/ProgramAssignments';
+import { findProgramInOrganization } from '@/libs/worship/ProgramQueries';
+import { checkProgramAvailability } from '@/libs/worship/VolunteerAvailability';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+type RouteParams = {
+  params: {
+    programId: string;
+  };
+};
+
+/**
+ * GET /api/worship/programs/[programId]/assignments
+ * List the team of a program, each assignment with whether it was accepted, declined or is
+ * still pending
+ */
+async function handleListAssignments(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+
+    if (!programId) {
+      return NextResponse.json(
+        { error: 'Valid programId is required' },
+        { status: 400 },
+      );
+    }
+
+    const hierarchy = orgId ? await findProgramInOrganization(programId, orgId) : null;
+
+    if (!hierarchy) {
+      return NextResponse.json(
+        { error: 'Program not found' },
+        { status: 404 },
+      );
+    }
+
+    const assignments = await listAssignmentsForProgram(programId);
+
+    return NextResponse.json({
+      success: true,
+      data: assignments.map(assignment => ({ ...assignment, status: getAssignmentStatus(assignment) })),
+    });
+  } catch (error) {
+    console.error('Failed to list program assignments:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve program assignments' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/worship/programs/[programId]/assignments
+ * Assign a member of the organization a role in the program (`userId`, `role`, `notes`). The
+ * assignee is notified and has to accept or decline.
+ *
+ * When the assignee may be unavailable on the program's date (a blackout, a day they never serve,
+ * or already serving as often as they want that month), nothing is assigned and the response is a
+ * 409 with the `conflicts`; send `ignoreAvailability: true` to assign them anyway.
+ */
+async function handleAddAssignment(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId, orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+
+    if (!programId) {
+      return NextResponse.json(
+        { error: 'Valid programId is required' },
+        { status: 400 },
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateAssignmentInput(body);
+
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 },
+      );
+    }
+
+    const input = validation.data;
+    const hierarchy = orgId ? await findProgramInOrganization(programId, orgId) : null;
+
+    if (!hierarchy) {
+      return NextResponse.json(
+        { error: 'Program not found' },
+        { status: 404 },
+      );
+    }
+
+    if (hierarchy.program.status === 'completed') {
+      return NextResponse.json(
+        { error: 'Cannot assign members to a completed program' },
+        { status: 409 },
+      );
+    }
+
+    const members = await getOrganizationMembers(orgId!);
+
+    if (!members.some(member => member.userId === input.userId)) {
+      return NextResponse.json(
+        { error: 'userId must be a member of the organization' },
+        { status: 400 },
+      );
+    }
+
+    if (isAlreadyAssigned(await listAssignmentsForProgram(programId), input)) {
+      return NextResponse.json(
+        { error: `This member is already assigned as ${input.role}` },
+        { status: 409 },
+      );
+    }
+
+    if (body.ignoreAvailability !== true) {
+      const conflicts = await checkProgramAvailability(orgId!, input.userId, hierarchy);
+
+      if (conflicts.length > 0) {
+        return NextResponse.json(
+          { error: 'This member may be unavailable for this program', conflicts },
+          { status: 409 },
+        );
+      }
+    }
+
+    const assignment = await addProgramAssignment(hierarchy.program, orgId!, input, userId!, members);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...assignment, status: getAssignmentStatus(assignment) },
+      message: 'Member assigned successfully',
+    });
+  } catch (error) {
+    console.error('Failed to add program assignment:', error);
+    return NextResponse.json(
+      { error: 'Failed to add program assignment' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const GET = withWorshipAuth(handleListAssignments, {
+  minimumRole: 'member',
+});
+
+export const POST = withWorshipAuth(handleAddAssignment, {
+  permission: 'canEditProgram',
+});
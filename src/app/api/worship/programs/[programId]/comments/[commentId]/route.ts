@@ -0,0 +1,90 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { getUserWorshipRole } from '@/lib/worship-role-management';
+import { WorshipRolePermissions } from '@/lib/worship-role-utils';
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import { canSeeComment, findProgramComment, setCommentThreadResolved } from '@/libs/worship/ProgramComments';
+import { findProgramInOrganization } from '@/libs/worship/ProgramQueries';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+type RouteParams = {
+  params: {
+    programId: string;
+    commentId: string;
+  };
+};
+
+/**
+ * PATCH /api/worship/programs/[programId]/comments/[commentId]
+ * Resolve a thread (`isResolved: true`) or open it again. Program editors and the member who
+ * started the thread can.
+ */
+async function handleResolveThread(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId, orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+    const commentId = parsePositiveInteger(params.commentId);
+
+    if (!programId || !commentId) {
+      return NextResponse.json(
+        { error: 'Valid programId and commentId are required' },
+        { status: 400 },
+      );
+    }
+
+    const body = await request.json();
+
+    if (typeof body.isResolved !== 'boolean') {
+      return NextResponse.json(
+        { error: 'isResolved must be true or false' },
+        { status: 400 },
+      );
+    }
+
+    const hierarchy = orgId ? await findProgramInOrganization(programId, orgId) : null;
+    const comment = hierarchy ? await findProgramComment(programId, commentId) : null;
+    const role = comment ? await getUserWorshipRole(userId!, orgId!) : null;
+
+    if (!comment || !role || !canSeeComment(role, comment.visibility)) {
+      return NextResponse.json(
+        { error: 'Comment not found' },
+        { status: 404 },
+      );
+    }
+
+    if (comment.parentId !== null) {
+      return NextResponse.json(
+        { error: 'Only threads can be resolved, not their replies' },
+        { status: 400 },
+      );
+    }
+
+    if (comment.createdBy !== userId && !WorshipRolePermissions.canEditProgram(role)) {
+      return NextResponse.json(
+        { error: 'Only program editors and the author can resolve this thread' },
+        { status: 403 },
+      );
+    }
+
+    const updated = await setCommentThreadResolved(commentId, body.isResolved, userId!);
+
+    return NextResponse.json({
+      success: true,
+      data: updated,
+      message: body.isResolved ? 'Thread resolved' : 'Thread reopened',
+    });
+  } catch (error) {
+    console.error('Failed to update program comment:', error);
+    return NextResponse.json(
+      { error: 'Failed to update program comment' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const PATCH = withWorshipAuth(handleResolveThread, {
+  minimumRole: 'member',
+});
@@ -0,0 +1,172 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { GET, POST } from './route';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/worship-role-management', () => ({
+  getUserWorshipRole: vi.fn(),
+}));
+
+vi.mock('@/lib/worship-user-management', () => ({
+  getOrganizationMembers: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramQueries', () => ({
+  findProgramInOrganization: vi.fn(),
+  listProgramHymns: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramComments', async importOriginal => ({
+  ...await importOriginal<typeof import('@/libs/worship/ProgramComments')>(),
+  addProgramComment: vi.fn(),
+  findProgramComment: vi.fn(),
+  listProgramComments: vi.fn(),
+}));
+
+// Mock middleware by replacing it with a simple pass-through
+vi.mock('@/middleware/worship-auth', () => ({
+  withWorshipAuth: (handler: any) => handler,
+}));
+
+const hierarchy = {
+  program: {
+    id: 7,
+    title: 'Easter Sunday',
+    programData: { sections: [{ id: 'sermon', type: 'sermon', title: 'He Is Risen', orderIndex: 0 }] },
+  },
+  event: { id: 12 },
+  service: { id: 3 },
+  ministry: { id: 2 },
+  church: { id: 1 },
+};
+
+const thread = {
+  id: 3,
+  programId: 7,
+  parentId: null,
+  sectionId: 'sermon',
+  hymnId: null,
+  body: 'Keep it short',
+  mentions: [],
+  visibility: 'collaborator',
+  isResolved: false,
+  createdBy: 'user-456',
+};
+
+const members = [
+  { userId: 'user-123', firstName: 'Ana', lastName: null, worshipRole: 'collaborator' },
+  { userId: 'user-456', firstName: 'Ben', lastName: null, worshipRole: 'pastor' },
+  { userId: 'user-789', firstName: 'Cleo', lastName: null, worshipRole: 'member' },
+];
+
+const params = { params: { programId: '7' } };
+
+function commentRequest(body: object) {
+  return new NextRequest('http://localhost:3000/api/worship/programs/7/comments', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('/api/worship/programs/[programId]/comments', () => {
+  let auth: any;
+  let roleManagement: any;
+  let userManagement: any;
+  let programQueries: any;
+  let programComments: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    auth = (await import('@clerk/nextjs/server')).auth;
+    roleManagement = await import('@/lib/worship-role-management');
+    userManagement = await import('@/lib/worship-user-management');
+    programQueries = await import('@/libs/worship/ProgramQueries');
+    programComments = await import('@/libs/worship/ProgramComments');
+    auth.mockResolvedValue({ userId: 'user-123', orgId: 'org-123' });
+    roleManagement.getUserWorshipRole.mockResolvedValue('collaborator');
+    userManagement.getOrganizationMembers.mockResolvedValue(members);
+    programQueries.findProgramInOrganization.mockResolvedValue(hierarchy);
+    programQueries.listProgramHymns.mockResolvedValue([{ hymnId: 4 }]);
+    programComments.addProgramComment.mockImplementation(async (_program: object, _orgId: string, input: object) => ({ id: 9, ...input }));
+  });
+
+  describe('GET', () => {
+    it('lists the threads the role can see', async () => {
+      programComments.listProgramComments.mockResolvedValue([
+        thread,
+        { ...thread, id: 4, parentId: 3, body: 'Agreed' },
+        { ...thread, id: 5, visibility: 'pastor' },
+      ]);
+
+      const response = await GET(new NextRequest('http://localhost:3000/api/worship/programs/7/comments'), params);
+      const data = await response.json();
+
+      expect(data.data).toEqual([expect.objectContaining({ id: 3, replies: [expect.objectContaining({ id: 4 })] })]);
+    });
+  });
+
+  describe('POST', () => {
+    it('starts a thread on a hymn with mentions', async () => {
+      const response = await POST(commentRequest({ body: 'Lower key?', hymnId: 4, mentions: ['user-456'] }), params);
+
+      expect(response.status).toBe(200);
+      expect(programComments.addProgramComment).toHaveBeenCalledWith(
+        hierarchy.program,
+        'org-123',
+        { body: 'Lower key?', parentId: null, sectionId: null, hymnId: 4, mentions: ['user-456'], visibility: 'member' },
+        'user-123',
+        null,
+        members,
+      );
+    });
+
+    it('replies within the thread of the comment answered', async () => {
+      programComments.findProgramComment.mockImplementation(async (_programId: number, commentId: number) =>
+        commentId === 4 ? { ...thread, id: 4, parentId: 3 } : thread);
+
+      const response = await POST(commentRequest({ body: 'Agreed', parentId: 4 }), params);
+
+      expect(response.status).toBe(200);
+      expect(programComments.addProgramComment).toHaveBeenCalledWith(
+        hierarchy.program,
+        'org-123',
+        expect.objectContaining({ parentId: 4 }),
+        'user-123',
+        thread,
+        members,
+      );
+    });
+
+    it('rejects anchors outside the program and visibility above the author', async () => {
+      expect((await POST(commentRequest({ body: 'Hi', sectionId: 'offering' }), params)).status).toBe(400);
+      expect((await POST(commentRequest({ body: 'Hi', hymnId: 5 }), params)).status).toBe(400);
+      expect((await POST(commentRequest({ body: 'Hi', visibility: 'pastor' }), params)).status).toBe(400);
+      expect(programComments.addProgramComment).not.toHaveBeenCalled();
+    });
+
+    it('rejects mentions of members who cannot see the thread', async () => {
+      const response = await POST(commentRequest({ body: 'Hi', visibility: 'collaborator', mentions: ['user-789'] }), params);
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('Mentioned users cannot see this comment: user-789');
+    });
+
+    it('hides threads above the role', async () => {
+      programComments.findProgramComment.mockResolvedValue({ ...thread, visibility: 'pastor' });
+
+      const response = await POST(commentRequest({ body: 'Agreed', parentId: 3 }), params);
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
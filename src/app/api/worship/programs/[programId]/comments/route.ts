@@ -0,0 +1,175 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { getUserWorshipRole } from '@/lib/worship-role-management';
+import { WorshipRoleHierarchy } from '@/lib/worship-role-utils';
+import { getOrganizationMembers } from '@/lib/worship-user-management';
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import {
+  addProgramComment,
+  buildCommentThreads,
+  canSeeComment,
+  checkCommentAnchor,
+  findProgramComment,
+  findUnmentionableUsers,
+  listProgramComments,
+  validateCommentInput,
+} from '@/libs/worship/ProgramComments';
+import { findProgramInOrganization, listProgramHymns } from '@/libs/worship/ProgramQueries';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+type RouteParams = {
+  params: {
+    programId: string;
+  };
+};
+
+/**
+ * GET /api/worship/programs/[programId]/comments
+ * List the comment threads of a program the user's worship role can see, oldest first, each
+ * with its replies
+ */
+async function handleListComments(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId, orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+
+    if (!programId) {
+      return NextResponse.json(
+        { error: 'Valid programId is required' },
+        { status: 400 },
+      );
+    }
+
+    const hierarchy = orgId ? await findProgramInOrganization(programId, orgId) : null;
+
+    if (!hierarchy) {
+      return NextResponse.json(
+        { error: 'Program not found' },
+        { status: 404 },
+      );
+    }
+
+    const [comments, role] = await Promise.all([
+      listProgramComments(programId),
+      getUserWorshipRole(userId!, orgId!),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: buildCommentThreads(comments, role),
+    });
+  } catch (error) {
+    console.error('Failed to list program comments:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve program comments' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/worship/programs/[programId]/comments
+ * Start a thread on the program, or on one of its sections (`sectionId`) or hymns (`hymnId`),
+ * seen by `visibility` and above; or reply to a thread with `parentId`. `mentions` are the
+ * user IDs of members to notify, who must be able to see the thread.
+ */
+async function handleAddComment(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId, orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+
+    if (!programId) {
+      return NextResponse.json(
+        { error: 'Valid programId is required' },
+        { status: 400 },
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateCommentInput(body);
+
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 },
+      );
+    }
+
+    const input = validation.data;
+    const hierarchy = orgId ? await findProgramInOrganization(programId, orgId) : null;
+
+    if (!hierarchy) {
+      return NextResponse.json(
+        { error: 'Program not found' },
+        { status: 404 },
+      );
+    }
+
+    const role = await getUserWorshipRole(userId!, orgId!);
+    const parent = input.parentId ? await findProgramComment(programId, input.parentId) : null;
+    // Replies to replies join the thread of the comment they answer
+    const thread = parent?.parentId ? await findProgramComment(programId, parent.parentId) : parent;
+
+    if (input.parentId && (!thread || !canSeeComment(role, thread.visibility))) {
+      return NextResponse.json(
+        { error: 'Comment not found' },
+        { status: 404 },
+      );
+    }
+
+    if (!thread) {
+      const hymns = input.hymnId !== null ? await listProgramHymns(programId) : [];
+      const anchorError = checkCommentAnchor(hierarchy.program, hymns.map(hymn => hymn.hymnId), input);
+
+      if (anchorError) {
+        return NextResponse.json(
+          { error: anchorError },
+          { status: 400 },
+        );
+      }
+
+      if (WorshipRoleHierarchy[input.visibility] > WorshipRoleHierarchy[role]) {
+        return NextResponse.json(
+          { error: 'visibility cannot be above your own worship role' },
+          { status: 400 },
+        );
+      }
+    }
+
+    const visibility = thread?.visibility ?? input.visibility;
+    const members = input.mentions.length > 0 || thread ? await getOrganizationMembers(orgId!) : [];
+    const unmentionable = findUnmentionableUsers(input.mentions, members, visibility);
+
+    if (unmentionable.length > 0) {
+      return NextResponse.json(
+        { error: `Mentioned users cannot see this comment: ${unmentionable.join(', ')}` },
+        { status: 400 },
+      );
+    }
+
+    const comment = await addProgramComment(hierarchy.program, orgId!, input, userId!, thread, members);
+
+    return NextResponse.json({
+      success: true,
+      data: comment,
+      message: 'Comment added successfully',
+    });
+  } catch (error) {
+    console.error('Failed to add program comment:', error);
+    return NextResponse.json(
+      { error: 'Failed to add program comment' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const GET = withWorshipAuth(handleListComments, {
+  minimumRole: 'member',
+});
+
+export const POST = withWorshipAuth(handleAddComment, {
+  minimumRole: 'member',
+});
@@ -0,0 +1,219 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { POST } from './route';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/worship-user-management', () => ({
+  getOrganizationMembers: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/EventQueries', () => ({
+  findEventInOrganization: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramQueries', () => ({
+  createProgram: vi.fn(),
+  findProgramInOrganization: vi.fn(),
+  listHymnUses: vi.fn(),
+  listProgramAssignments: vi.fn(),
+  listProgramHymns: vi.fn(),
+}));
+
+// Mock middleware by replacing it with a simple pass-through
+vi.mock('@/middleware/worship-auth', () => ({
+  withWorshipAuth: (handler: any) => handler,
+}));
+
+const source = {
+  program: {
+    id: 7,
+    title: 'Sunday Morning',
+    description: 'Second Sunday of Lent',
+    status: 'published',
+    programData: {
+      sections: [{
+        id: 'a',
+        type: 'other',
+        title: 'Scripture Reading',
+        orderIndex: 0,
+        assignments: [{ userId: 'user-456', role: 'Reader' }],
+      }],
+      metadata: { totalEstimatedDuration: 0, hymnCount: 0, assignmentCount: 1, lastModified: '2025-03-01T00:00:00.000Z' },
+    },
+  },
+  event: { id: 11 },
+};
+
+const target = {
+  event: {
+    id: 12,
+    eventDate: new Date('2025-03-09T15:00:00.000Z'),
+    eventType: 'single',
+  },
+  church: { id: 1, timezone: 'America/Toronto' },
+};
+
+const sourceHymns = [
+  { id: 1, hymnId: 8, title: 'Doxology', orderIndex: 0, key: 'G', tempo: 92, notes: null, estimatedDuration: 3 },
+  { id: 2, hymnId: 9, title: 'Amazing Grace', orderIndex: 1, key: 'Eb', tempo: 76, notes: 'Two verses', estimatedDuration: 4 },
+];
+
+const params = { params: { programId: '7' } };
+
+function duplicateRequest(body: object) {
+  return new NextRequest('http://localhost:3000/api/worship/programs/7/duplicate', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('/api/worship/programs/[programId]/duplicate', () => {
+  let auth: any;
+  let userManagement: any;
+  let eventQueries: any;
+  let programQueries: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    auth = (await import('@clerk/nextjs/server')).auth;
+    userManagement = await import('@/lib/worship-user-management');
+    eventQueries = await import('@/libs/worship/EventQueries');
+    programQueries = await import('@/libs/worship/ProgramQueries');
+    auth.mockResolvedValue({ userId: 'user-123', orgId: 'org-123' });
+    userManagement.getOrganizationMembers.mockResolvedValue([
+      { userId: 'user-123', firstName: 'Ana', lastName: 'Lopez', emailAddress: 'ana@example.com' },
+    ]);
+    eventQueries.findEventInOrganization.mockResolvedValue(target);
+    programQueries.findProgramInOrganization.mockResolvedValue(source);
+    programQueries.listProgramHymns.mockImplementation(async (programId: number) =>
+      programId === 7 ? sourceHymns : sourceHymns.map(hymn => ({ ...hymn, id: hymn.id + 10, programId })));
+    programQueries.listProgramAssignments.mockResolvedValue([
+      { id: 3, userId: 'user-789', role: 'Worship Leader', notes: 'Opens the service', isConfirmed: true, declinedAt: null, assignedBy: 'user-456' },
+      { id: 4, userId: 'user-456', role: 'Pianist', notes: null, isConfirmed: false, declinedAt: new Date('2025-03-01T00:00:00.000Z'), assignedBy: 'user-456' },
+    ]);
+    programQueries.createProgram.mockImplementation(async (values: object) => ({ id: 20, status: 'draft', ...values }));
+    programQueries.listHymnUses.mockResolvedValue([]);
+  });
+
+  it('copies the sections and hymn entries onto the event', async () => {
+    const response = await POST(duplicateRequest({ eventId: 12 }), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.message).toBe('Program duplicated successfully');
+    expect(data.data).toMatchObject({ id: 20, eventId: 12, title: 'Sunday Morning', status: 'draft', recentHymns: [] });
+    expect(data.data.hymns).toHaveLength(2);
+
+    const [values, hymns, version, assignments, notifications] = programQueries.createProgram.mock.calls[0];
+
+    expect(values).toMatchObject({
+      eventId: 12,
+      occurrenceDate: null,
+      description: 'Second Sunday of Lent',
+      createdBy: 'user-123',
+    });
+    expect(values.programData.sections[0].assignments).toEqual([{ userId: '', role: 'Reader' }]);
+    expect(hymns).toEqual([
+      { hymnId: 8, key: 'G', tempo: 92, notes: null, estimatedDuration: 3 },
+      { hymnId: 9, key: 'Eb', tempo: 76, notes: 'Two verses', estimatedDuration: 4 },
+    ]);
+    expect(version).toBeUndefined();
+    expect(assignments).toEqual([]);
+    expect(notifications).toEqual([]);
+    expect(programQueries.listProgramAssignments).not.toHaveBeenCalled();
+    expect(userManagement.getOrganizationMembers).not.toHaveBeenCalled();
+  });
+
+  it('copies the assignments not declined as unconfirmed on request and notifies their assignees', async () => {
+    const response = await POST(duplicateRequest({ eventId: 12, includeAssignments: true, title: 'Third Sunday' }), params);
+
+    expect(response.status).toBe(200);
+
+    const [values, , , assignments, notifications] = programQueries.createProgram.mock.calls[0];
+
+    expect(values.title).toBe('Third Sunday');
+    expect(values.programData.sections[0].assignments).toEqual([{ userId: 'user-456', role: 'Reader' }]);
+    expect(assignments).toEqual([{
+      userId: 'user-789',
+      role: 'Worship Leader',
+      notes: 'Opens the service',
+      isConfirmed: false,
+      assignedBy: 'user-123',
+    }]);
+    expect(notifications).toEqual([{
+      userId: 'user-789',
+      type: 'assignment',
+      title: 'New assignment',
+      message: 'Ana Lopez assigned you as Worship Leader for Third Sunday',
+      organizationId: 'org-123',
+      actionUrl: '/dashboard/assignments',
+    }]);
+  });
+
+  it('flags the hymns sung in the recent weeks', async () => {
+    programQueries.listHymnUses.mockResolvedValue([
+      {
+        hymnId: 9,
+        hymnTitle: 'Amazing Grace',
+        programId: 7,
+        programTitle: 'Sunday Morning',
+        occurrenceDate: null,
+        eventDate: new Date('2025-03-02T15:00:00.000Z'),
+        timezone: 'America/Toronto',
+      },
+      {
+        hymnId: 8,
+        hymnTitle: 'Doxology',
+        programId: 4,
+        programTitle: 'Advent Sunday',
+        occurrenceDate: null,
+        eventDate: new Date('2024-12-01T15:00:00.000Z'),
+        timezone: 'America/Toronto',
+      },
+    ]);
+
+    const response = await POST(duplicateRequest({ eventId: 12, recentWeeks: 2 }), params);
+    const data = await response.json();
+
+    expect(data.data.recentHymns).toEqual([
+      { hymnId: 9, title: 'Amazing Grace', lastUsedOn: '2025-03-02', programId: 7, programTitle: 'Sunday Morning' },
+    ]);
+    expect(programQueries.listHymnUses).toHaveBeenCalledWith([8, 9], 'org-123', {
+      excludeProgramId: 20,
+      until: new Date('2025-03-11T00:00:00.000Z'),
+    });
+  });
+
+  it('rejects occurrence dates on single events', async () => {
+    const response = await POST(duplicateRequest({ eventId: 12, occurrenceDate: '2025-03-09' }), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('occurrenceDate is only allowed for programs of recurring events');
+    expect(programQueries.createProgram).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for programs or events of other organizations', async () => {
+    programQueries.findProgramInOrganization.mockResolvedValueOnce(null);
+
+    expect((await POST(duplicateRequest({ eventId: 12 }), params)).status).toBe(404);
+
+    eventQueries.findEventInOrganization.mockResolvedValueOnce(null);
+    const response = await POST(duplicateRequest({ eventId: 12 }), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe('Event not found');
+    expect(programQueries.createProgram).not.toHaveBeenCalled();
+  });
+});
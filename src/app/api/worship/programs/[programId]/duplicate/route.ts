@@ -0,0 +1,149 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import type { ProgramData } from '@/features/worship/types';
+import { getOrganizationMembers } from '@/lib/worship-user-management';
+import { findEventInOrganization } from '@/libs/worship/EventQueries';
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import { getAssignedNotification } from '@/libs/worship/ProgramAssignments';
+import {
+  duplicateProgramData,
+  duplicateProgramHymns,
+  findRecentHymns,
+  getProgramDateKey,
+  validateDuplicateInput,
+} from '@/libs/worship/ProgramDuplication';
+import {
+  createProgram,
+  findProgramInOrganization,
+  listHymnUses,
+  listProgramAssignments,
+  listProgramHymns,
+} from '@/libs/worship/ProgramQueries';
+import { validateProgramOccurrence } from '@/libs/worship/ProgramValidation';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+type RouteParams = {
+  params: {
+    programId: string;
+  };
+};
+
+/**
+ * POST /api/worship/programs/[programId]/duplicate
+ * Copy a program's sections and hymn entries into a new draft for another event (or one
+ * occurrence of a recurring event). With `includeAssignments` its program-wide assignments that
+ * were not declined are copied too, unconfirmed, and their assignees notified. The response flags the copied hymns sung within the `recentWeeks`
+ * weeks up to the new program's date.
+ */
+async function handleDuplicateProgram(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId, orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+
+    if (!programId) {
+      return NextResponse.json(
+        { error: 'Valid programId is required' },
+        { status: 400 },
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateDuplicateInput(body);
+
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 },
+      );
+    }
+
+    const input = validation.data;
+    const source = orgId ? await findProgramInOrganization(programId, orgId) : null;
+
+    if (!source) {
+      return NextResponse.json(
+        { error: 'Program not found' },
+        { status: 404 },
+      );
+    }
+
+    const target = await findEventInOrganization(input.eventId, orgId!);
+
+    if (!target) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 },
+      );
+    }
+
+    const occurrenceError = validateProgramOccurrence(target.event, input.occurrenceDate, target.church.timezone);
+
+    if (occurrenceError) {
+      return NextResponse.json(
+        { error: occurrenceError },
+        { status: 400 },
+      );
+    }
+
+    const [sourceHymns, sourceAssignments] = await Promise.all([
+      listProgramHymns(programId),
+      input.includeAssignments ? listProgramAssignments(programId) : [],
+    ]);
+
+    const title = input.title ?? source.program.title;
+    const assignments = sourceAssignments
+      .filter(assignment => !assignment.declinedAt)
+      .map(assignment => ({ userId: assignment.userId, role: assignment.role, notes: assignment.notes }));
+    const members = assignments.length > 0 ? await getOrganizationMembers(orgId!) : [];
+    const notifications = assignments.flatMap((assignment) => {
+      const notification = getAssignedNotification({ title }, assignment, userId!, members);
+
+      return notification ? [{ ...notification, organizationId: orgId!, actionUrl: '/dashboard/assignments' }] : [];
+    });
+
+    const program = await createProgram({
+      eventId: target.event.id,
+      occurrenceDate: input.occurrenceDate,
+      title,
+      description: source.program.description,
+      programData: duplicateProgramData(source.program.programData as ProgramData | null, input.includeAssignments),
+      createdBy: userId!,
+      lastEditedBy: userId!,
+      lastEditedAt: new Date(),
+    }, duplicateProgramHymns(sourceHymns), undefined, assignments.map(assignment => ({
+      ...assignment,
+      isConfirmed: false,
+      assignedBy: userId!,
+    })), notifications);
+
+    const dateKey = getProgramDateKey({ occurrenceDate: input.occurrenceDate, eventDate: target.event.eventDate }, target.church.timezone);
+    const uses = await listHymnUses(sourceHymns.map(hymn => hymn.hymnId), orgId!, {
+      excludeProgramId: program.id,
+      // A day past the program's date covers churches in every time zone
+      until: new Date(Date.parse(`${dateKey}T00:00:00Z`) + 2 * 24 * 60 * 60_000),
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...program,
+        hymns: await listProgramHymns(program.id),
+        recentHymns: findRecentHymns(uses, dateKey, input.recentWeeks),
+      },
+      message: 'Program duplicated successfully',
+    });
+  } catch (error) {
+    console.error('Failed to duplicate program:', error);
+    return NextResponse.json(
+      { error: 'Failed to duplicate program' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const POST = withWorshipAuth(handleDuplicateProgram, {
+  permission: 'canCreateProgram',
+});
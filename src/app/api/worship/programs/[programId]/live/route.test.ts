@@ -0,0 +1,170 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { LiveEvent } from '@/libs/worship/ProgramRealtime';
+import { getSessionMarkdown, joinProgramChannel } from '@/libs/worship/ProgramRealtime';
+
+import { GET, POST } from './route';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramQueries', () => ({
+  findProgramInOrganization: vi.fn(),
+  updateProgramAtVersion: vi.fn(),
+}));
+
+// Mock middleware by replacing it with a simple pass-through
+vi.mock('@/middleware/worship-auth', () => ({
+  withWorshipAuth: (handler: any) => handler,
+}));
+
+const markdown = '# Easter Sunday\n';
+
+const hierarchy = {
+  program: { id: 7, title: 'Easter Sunday', status: 'draft', markdownContent: markdown, versionNumber: 3 },
+};
+
+const params = { params: { programId: '7' } };
+
+function liveRequest(body: object) {
+  return new NextRequest('http://localhost:3000/api/worship/programs/7/live', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('/api/worship/programs/[programId]/live', () => {
+  let auth: any;
+  let programQueries: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    auth = (await import('@clerk/nextjs/server')).auth;
+    programQueries = await import('@/libs/worship/ProgramQueries');
+    auth.mockResolvedValue({ userId: 'user-123', orgId: 'org-123' });
+    programQueries.findProgramInOrganization.mockResolvedValue(hierarchy);
+    programQueries.updateProgramAtVersion.mockImplementation(async (_id: number, version: number, changes: object) => ({
+      ...hierarchy.program,
+      ...changes,
+      versionNumber: version + 1,
+    }));
+  });
+
+  describe('GET', () => {
+    it('streams the channel, starting with a snapshot', async () => {
+      const controller = new AbortController();
+      const response = await GET(new NextRequest('http://localhost:3000/api/worship/programs/7/live', {
+        signal: controller.signal,
+      }), params);
+
+      expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+      const reader = response.body!.getReader();
+      const { value } = await reader.read();
+      const event = JSON.parse(new TextDecoder().decode(value).replace(/^data: /, ''));
+
+      expect(event).toMatchObject({ type: 'snapshot', revision: 0, markdown, presence: [{ userId: 'user-123' }] });
+
+      controller.abort();
+      await reader.cancel();
+    });
+
+    it('returns 404 for programs of other organizations', async () => {
+      programQueries.findProgramInOrganization.mockResolvedValue(null);
+
+      const response = await GET(new NextRequest('http://localhost:3000/api/worship/programs/7/live'), params);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST', () => {
+    it('applies markdown operations and saves the shared markdown', async () => {
+      const events: LiveEvent[] = [];
+      const leave = joinProgramChannel(7, 'connection-1', 'user-123', markdown, event => events.push(event));
+
+      const edited = await POST(liveRequest({
+        type: 'markdown',
+        connectionId: 'connection-1',
+        revision: 0,
+        operation: [markdown.length, 'Bring palms\n'],
+      }), params);
+
+      expect(await edited.json()).toEqual({ success: true, data: { revision: 1 } });
+      expect(getSessionMarkdown(7)).toBe('# Easter Sunday\nBring palms\n');
+
+      const saved = await POST(liveRequest({ type: 'save', connectionId: 'connection-1' }), params);
+      const data = await saved.json();
+
+      expect(saved.status).toBe(200);
+      expect(data.data).toMatchObject({ markdownContent: '# Easter Sunday\nBring palms\n', versionNumber: 4 });
+      expect(programQueries.updateProgramAtVersion).toHaveBeenCalledWith(
+        7,
+        3,
+        expect.objectContaining({ markdownContent: '# Easter Sunday\nBring palms\n', lastEditedBy: 'user-123' }),
+        undefined,
+        { changeType: 'manual_edit', changeDescription: 'Edited together', changedBy: 'user-123' },
+      );
+      expect(events.at(-1)).toMatchObject({ type: 'program_updated', updatedBy: 'user-123' });
+
+      leave();
+    });
+
+    it('updates presence', async () => {
+      const events: LiveEvent[] = [];
+      const leave = joinProgramChannel(7, 'connection-2', 'user-123', markdown, event => events.push(event));
+
+      const response = await POST(liveRequest({ type: 'presence', connectionId: 'connection-2', sectionId: 'offering' }), params);
+
+      expect(response.status).toBe(200);
+      expect(events.at(-1)).toMatchObject({ type: 'presence', presence: [{ connectionId: 'connection-2', sectionId: 'offering' }] });
+
+      leave();
+    });
+
+    it('only edits drafts together', async () => {
+      programQueries.findProgramInOrganization.mockResolvedValue({
+        program: { ...hierarchy.program, status: 'published' },
+      });
+      const leave = joinProgramChannel(7, 'connection-4', 'user-123', markdown, () => {});
+
+      const edited = await POST(liveRequest({
+        type: 'markdown',
+        connectionId: 'connection-4',
+        revision: 0,
+        operation: [markdown.length, 'Bring palms\n'],
+      }), params);
+
+      expect(edited.status).toBe(409);
+      expect((await POST(liveRequest({ type: 'save', connectionId: 'connection-4' }), params)).status).toBe(409);
+      expect((await POST(liveRequest({ type: 'presence', connectionId: 'connection-4', sectionId: null }), params)).status)
+        .toBe(200);
+      expect(programQueries.updateProgramAtVersion).not.toHaveBeenCalled();
+
+      leave();
+    });
+
+    it('rejects connections of other users and invalid operations', async () => {
+      const leave = joinProgramChannel(7, 'connection-3', 'user-456', markdown, () => {});
+
+      expect((await POST(liveRequest({ type: 'presence', connectionId: 'connection-3', sectionId: null }), params)).status)
+        .toBe(409);
+
+      auth.mockResolvedValue({ userId: 'user-456', orgId: 'org-123' });
+      const response = await POST(liveRequest({ type: 'markdown', connectionId: 'connection-3', revision: 0, operation: [0] }), params);
+
+      expect(response.status).toBe(400);
+      expect(programQueries.updateProgramAtVersion).not.toHaveBeenCalled();
+
+      leave();
+    });
+  });
+});
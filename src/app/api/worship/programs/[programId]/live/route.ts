@@ -0,0 +1,261 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import { findProgramInOrganization, updateProgramAtVersion } from '@/libs/worship/ProgramQueries';
+import type { LiveEvent } from '@/libs/worship/ProgramRealtime';
+import {
+  getSessionMarkdown,
+  isConnected,
+  joinProgramChannel,
+  markSessionSaved,
+  publishProgramUpdate,
+  submitMarkdownOperation,
+  touchPresence,
+  updatePresence,
+} from '@/libs/worship/ProgramRealtime';
+import { checkProgramEditable } from '@/libs/worship/ProgramWorkflow';
+import { isTextOperation } from '@/libs/worship/TextOperation';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+// Streams stay open for as long as the editor does
+export const dynamic = 'force-dynamic';
+
+type RouteParams = {
+  params: {
+    programId: string;
+  };
+};
+
+// Comment lines sent while the channel is idle, so proxies keep the stream open
+const KEEP_ALIVE_MS = 25_000;
+
+/**
+ * GET /api/worship/programs/[programId]/live
+ * Server-sent events of the program's live channel. The first event is a `snapshot` with the
+ * connection's ID, the shared markdown and its revision, and who is editing.
+ */
+async function handleSubscribe(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId, orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+
+    if (!programId) {
+      return NextResponse.json(
+        { error: 'Valid programId is required' },
+        { status: 400 },
+      );
+    }
+
+    const hierarchy = orgId ? await findProgramInOrganization(programId, orgId) : null;
+
+    if (!hierarchy) {
+      return NextResponse.json(
+        { error: 'Program not found' },
+        { status: 404 },
+      );
+    }
+
+    const encoder = new TextEncoder();
+    let close = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const write = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            close();
+          }
+        };
+        const connectionId = crypto.randomUUID();
+        const leave = joinProgramChannel(
+          programId,
+          connectionId,
+          userId!,
+          hierarchy.program.markdownContent,
+          (event: LiveEvent) => write(`data: ${JSON.stringify(event)}\n\n`),
+        );
+        const keepAlive = setInterval(() => {
+          touchPresence(programId, connectionId);
+          write(': keep-alive\n\n');
+        }, KEEP_ALIVE_MS);
+
+        close = () => {
+          clearInterval(keepAlive);
+          leave();
+          close = () => {};
+        };
+        request.signal.addEventListener('abort', () => {
+          close();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        });
+      },
+      cancel() {
+        close();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Failed to open program channel:', error);
+    return NextResponse.json(
+      { error: 'Failed to open program channel' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/worship/programs/[programId]/live
+ * Act on the live channel through an open connection (`connectionId`):
+ * - `presence`: `sectionId` is the section being edited, or null
+ * - `markdown`: apply `operation`, made at `revision`, to the shared markdown
+ * - `save`: save the shared markdown as the program's next version
+ * Markdown operations and saves are only accepted on drafts.
+ */
+async function handleLiveAction(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId, orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+
+    if (!programId) {
+      return NextResponse.json(
+        { error: 'Valid programId is required' },
+        { status: 400 },
+      );
+    }
+
+    const body = await request.json();
+    const connectionId = typeof body.connectionId === 'string' ? body.connectionId : '';
+    const hierarchy = orgId ? await findProgramInOrganization(programId, orgId) : null;
+
+    if (!hierarchy) {
+      return NextResponse.json(
+        { error: 'Program not found' },
+        { status: 404 },
+      );
+    }
+
+    if (!isConnected(programId, connectionId, userId!)) {
+      return NextResponse.json(
+        { error: 'Not connected to the program' },
+        { status: 409 },
+      );
+    }
+
+    if (body.type === 'presence') {
+      if (body.sectionId !== null && typeof body.sectionId !== 'string') {
+        return NextResponse.json(
+          { error: 'sectionId must be a section ID or null' },
+          { status: 400 },
+        );
+      }
+
+      updatePresence(programId, connectionId, body.sectionId);
+
+      return NextResponse.json({ success: true });
+    }
+
+    const editError = body.type === 'markdown' || body.type === 'save'
+      ? checkProgramEditable(hierarchy.program.status)
+      : null;
+
+    if (editError) {
+      return NextResponse.json(
+        { error: editError },
+        { status: 409 },
+      );
+    }
+
+    if (body.type === 'markdown') {
+      const revision = Number.isInteger(body.revision) && body.revision >= 0 ? body.revision as number : null;
+
+      if (revision === null || !isTextOperation(body.operation)) {
+        return NextResponse.json(
+          { error: 'revision and a valid operation are required' },
+          { status: 400 },
+        );
+      }
+
+      const result = submitMarkdownOperation(programId, connectionId, revision, body.operation);
+
+      if ('error' in result) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.status },
+        );
+      }
+
+      return NextResponse.json({ success: true, data: result });
+    }
+
+    if (body.type === 'save') {
+      const markdown = getSessionMarkdown(programId);
+
+      if (markdown === null || markdown === hierarchy.program.markdownContent) {
+        return NextResponse.json(
+          { error: 'No markdown changes to save' },
+          { status: 400 },
+        );
+      }
+
+      const program = await updateProgramAtVersion(programId, hierarchy.program.versionNumber, {
+        markdownContent: markdown,
+        lastEditedBy: userId!,
+        lastEditedAt: new Date(),
+      }, undefined, {
+        changeType: 'manual_edit',
+        changeDescription: 'Edited together',
+        changedBy: userId!,
+      });
+
+      if (!program) {
+        return NextResponse.json(
+          { error: 'The program was updated by someone else, reload it and try again' },
+          { status: 409 },
+        );
+      }
+
+      markSessionSaved(programId, markdown);
+      publishProgramUpdate(program, userId!);
+
+      return NextResponse.json({
+        success: true,
+        data: program,
+        message: 'Program markdown saved successfully',
+      });
+    }
+
+    return NextResponse.json(
+      { error: 'type must be one of: presence, markdown, save' },
+      { status: 400 },
+    );
+  } catch (error) {
+    console.error('Failed to update program channel:', error);
+    return NextResponse.json(
+      { error: 'Failed to update program channel' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const GET = withWorshipAuth(handleSubscribe, {
+  minimumRole: 'member',
+});
+
+export const POST = withWorshipAuth(handleLiveAction, {
+  permission: 'canEditProgram',
+});
@@ -0,0 +1,152 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { GET, POST } from './route';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramQueries', () => ({
+  findProgramInOrganization: vi.fn(),
+  updateProgramAtVersion: vi.fn(),
+}));
+
+vi.mock('@/lib/worship-user-management', () => ({
+  getOrganizationMembers: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramMarkdown', async importOriginal => ({
+  ...await importOriginal<typeof import('@/libs/worship/ProgramMarkdown')>(),
+  renderProgramMarkdown: vi.fn(),
+}));
+
+// Mock middleware by replacing it with a simple pass-through
+vi.mock('@/middleware/worship-auth', () => ({
+  withWorshipAuth: (handler: any) => handler,
+}));
+
+const hierarchy = {
+  program: {
+    id: 7,
+    title: 'Easter Sunday',
+    status: 'draft',
+    versionNumber: 3,
+    markdownContent: '# Easter Sunday\nBring palms\n',
+    originalMarkdown: '# Easter Sunday\n',
+  },
+  event: { id: 12 },
+  service: { id: 3 },
+  ministry: { id: 2 },
+  church: { id: 1, timezone: 'America/Toronto' },
+};
+
+const params = { params: { programId: '7' } };
+
+describe('/api/worship/programs/[programId]/markdown', () => {
+  let auth: any;
+  let programQueries: any;
+  let programMarkdown: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    auth = (await import('@clerk/nextjs/server')).auth;
+    programQueries = await import('@/libs/worship/ProgramQueries');
+    programMarkdown = await import('@/libs/worship/ProgramMarkdown');
+    auth.mockResolvedValue({ userId: 'user-123', orgId: 'org-123' });
+    programQueries.findProgramInOrganization.mockResolvedValue(hierarchy);
+    programQueries.updateProgramAtVersion.mockImplementation(async (_id: number, version: number, changes: object) => ({
+      ...hierarchy.program,
+      ...changes,
+      versionNumber: version + 1,
+    }));
+    programMarkdown.renderProgramMarkdown.mockResolvedValue('# Easter Sunday\nHe is risen\n');
+  });
+
+  describe('GET', () => {
+    it('previews the changes to hand-edited markdown', async () => {
+      const response = await GET(new NextRequest('http://localhost:3000/api/worship/programs/7/markdown?language=fr'), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toEqual({
+        markdown: '# Easter Sunday\nHe is risen\n',
+        changes: [
+          { type: 'removed', line: 2, text: 'Bring palms' },
+          { type: 'added', line: 2, text: 'He is risen' },
+        ],
+        hasManualEdits: true,
+      });
+      expect(programMarkdown.renderProgramMarkdown).toHaveBeenCalledWith(hierarchy, 'org-123', 'fr');
+      expect(programQueries.updateProgramAtVersion).not.toHaveBeenCalled();
+    });
+
+    it('returns 400 for invalid languages', async () => {
+      const response = await GET(new NextRequest('http://localhost:3000/api/worship/programs/7/markdown?language=%3Cscript%3E'), params);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('returns 404 for programs of other organizations', async () => {
+      programQueries.findProgramInOrganization.mockResolvedValue(null);
+
+      const response = await GET(new NextRequest('http://localhost:3000/api/worship/programs/7/markdown'), params);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST', () => {
+    it('replaces the current and original markdown', async () => {
+      const response = await POST(new NextRequest('http://localhost:3000/api/worship/programs/7/markdown', {
+        method: 'POST',
+        body: JSON.stringify({}),
+        headers: { 'Content-Type': 'application/json' },
+      }), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.markdownContent).toBe('# Easter Sunday\nHe is risen\n');
+      expect(programMarkdown.renderProgramMarkdown).toHaveBeenCalledWith(hierarchy, 'org-123', 'en');
+      expect(data.data.versionNumber).toBe(4);
+      expect(programQueries.updateProgramAtVersion).toHaveBeenCalledWith(7, 3, expect.objectContaining({
+        markdownContent: '# Easter Sunday\nHe is risen\n',
+        originalMarkdown: '# Easter Sunday\nHe is risen\n',
+        lastEditedBy: 'user-123',
+      }), undefined, expect.objectContaining({ changeType: 'auto_generated', changedBy: 'user-123' }));
+    });
+
+    it('only regenerates the markdown of drafts', async () => {
+      programQueries.findProgramInOrganization.mockResolvedValue({
+        ...hierarchy,
+        program: { ...hierarchy.program, status: 'submitted' },
+      });
+
+      const response = await POST(new NextRequest('http://localhost:3000/api/worship/programs/7/markdown', {
+        method: 'POST',
+        body: JSON.stringify({}),
+        headers: { 'Content-Type': 'application/json' },
+      }), params);
+
+      expect(response.status).toBe(409);
+      expect(programQueries.updateProgramAtVersion).not.toHaveBeenCalled();
+    });
+
+    it('returns 409 when the program was updated meanwhile', async () => {
+      programQueries.updateProgramAtVersion.mockResolvedValue(null);
+
+      const response = await POST(new NextRequest('http://localhost:3000/api/worship/programs/7/markdown', {
+        method: 'POST',
+        body: JSON.stringify({}),
+        headers: { 'Content-Type': 'application/json' },
+      }), params);
+
+      expect(response.status).toBe(409);
+    });
+  });
+});
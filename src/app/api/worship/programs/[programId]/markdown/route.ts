@@ -0,0 +1,157 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import {
+  DEFAULT_LYRICS_LANGUAGE,
+  isLanguageCode,
+  previewMarkdownRegeneration,
+  renderProgramMarkdown,
+} from '@/libs/worship/ProgramMarkdown';
+import { findProgramInOrganization, updateProgramAtVersion } from '@/libs/worship/ProgramQueries';
+import { publishProgramUpdate } from '@/libs/worship/ProgramRealtime';
+import { checkProgramEditable } from '@/libs/worship/ProgramWorkflow';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+type RouteParams = {
+  params: {
+    programId: string;
+  };
+};
+
+/**
+ * GET /api/worship/programs/[programId]/markdown?language=
+ * Preview the regenerated run sheet and the lines it would change in the current markdown
+ */
+async function handlePreviewMarkdown(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+    const language = request.nextUrl.searchParams.get('language') ?? DEFAULT_LYRICS_LANGUAGE;
+
+    if (!programId) {
+      return NextResponse.json(
+        { error: 'Valid programId is required' },
+        { status: 400 },
+      );
+    }
+
+    if (!isLanguageCode(language)) {
+      return NextResponse.json(
+        { error: 'language must be a language code' },
+        { status: 400 },
+      );
+    }
+
+    const hierarchy = orgId ? await findProgramInOrganization(programId, orgId) : null;
+
+    if (!hierarchy) {
+      return NextResponse.json(
+        { error: 'Program not found' },
+        { status: 404 },
+      );
+    }
+
+    const markdown = await renderProgramMarkdown(hierarchy, orgId!, language);
+
+    return NextResponse.json({
+      success: true,
+      data: previewMarkdownRegeneration(hierarchy.program, markdown),
+    });
+  } catch (error) {
+    console.error('Failed to preview program markdown:', error);
+    return NextResponse.json(
+      { error: 'Failed to preview program markdown' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/worship/programs/[programId]/markdown
+ * Regenerate the run sheet, replacing both the current and the original markdown as a new version
+ */
+async function handleRegenerateMarkdown(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId, orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+
+    if (!programId) {
+      return NextResponse.json(
+        { error: 'Valid programId is required' },
+        { status: 400 },
+      );
+    }
+
+    const body = await request.json();
+    const language = body.language ?? DEFAULT_LYRICS_LANGUAGE;
+
+    if (!isLanguageCode(language)) {
+      return NextResponse.json(
+        { error: 'language must be a language code' },
+        { status: 400 },
+      );
+    }
+
+    const existing = orgId ? await findProgramInOrganization(programId, orgId) : null;
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Program not found' },
+        { status: 404 },
+      );
+    }
+
+    const editError = checkProgramEditable(existing.program.status);
+
+    if (editError) {
+      return NextResponse.json(
+        { error: editError },
+        { status: 409 },
+      );
+    }
+
+    const markdown = await renderProgramMarkdown(existing, orgId!, language);
+    const program = await updateProgramAtVersion(programId, existing.program.versionNumber, {
+      markdownContent: markdown,
+      originalMarkdown: markdown,
+      lastEditedBy: userId!,
+      lastEditedAt: new Date(),
+    }, undefined, {
+      changeType: 'auto_generated',
+      changeDescription: 'Run sheet regenerated',
+      changedBy: userId!,
+    });
+
+    if (!program) {
+      return NextResponse.json(
+        { error: 'The program was updated by someone else, reload it and try again' },
+        { status: 409 },
+      );
+    }
+
+    publishProgramUpdate(program, userId!);
+
+    return NextResponse.json({
+      success: true,
+      data: program,
+      message: 'Program markdown regenerated successfully',
+    });
+  } catch (error) {
+    console.error('Failed to regenerate program markdown:', error);
+    return NextResponse.json(
+      { error: 'Failed to regenerate program markdown' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const GET = withWorshipAuth(handlePreviewMarkdown, {
+  minimumRole: 'member',
+});
+
+export const POST = withWorshipAuth(handleRegenerateMarkdown, {
+  permission: 'canEditProgram',
+});
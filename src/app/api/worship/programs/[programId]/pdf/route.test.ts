@@ -0,0 +1,87 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { GET } from './route';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramQueries', () => ({
+  findProgramInOrganization: vi.fn(),
+}));
+
+vi.mock('@/lib/worship-user-management', () => ({
+  getOrganizationMembers: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramPdf', () => ({
+  renderProgramPdf: vi.fn(),
+}));
+
+// Mock middleware by replacing it with a simple pass-through
+vi.mock('@/middleware/worship-auth', () => ({
+  withWorshipAuth: (handler: any) => handler,
+}));
+
+const hierarchy = {
+  program: { id: 7, title: 'Easter Sunday: 10 AM', status: 'published' },
+  event: { id: 12 },
+  service: { id: 3 },
+  ministry: { id: 2 },
+  church: { id: 1, timezone: 'America/Toronto' },
+};
+
+const params = { params: { programId: '7' } };
+
+describe('/api/worship/programs/[programId]/pdf', () => {
+  let auth: any;
+  let programQueries: any;
+  let programPdf: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    auth = (await import('@clerk/nextjs/server')).auth;
+    programQueries = await import('@/libs/worship/ProgramQueries');
+    programPdf = await import('@/libs/worship/ProgramPdf');
+    auth.mockResolvedValue({ userId: 'user-123', orgId: 'org-123' });
+    programQueries.findProgramInOrganization.mockResolvedValue(hierarchy);
+    programPdf.renderProgramPdf.mockResolvedValue(new TextEncoder().encode('%PDF-1.7'));
+  });
+
+  it('downloads the PDF of a published program', async () => {
+    const response = await GET(new NextRequest('http://localhost:3000/api/worship/programs/7/pdf?language=fr'), params);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/pdf');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="Easter-Sunday-10-AM.pdf"');
+    expect(await response.text()).toBe('%PDF-1.7');
+    expect(programPdf.renderProgramPdf).toHaveBeenCalledWith(hierarchy, 'org-123', 'fr');
+  });
+
+  it('only prints published programs', async () => {
+    programQueries.findProgramInOrganization.mockResolvedValue({
+      ...hierarchy,
+      program: { ...hierarchy.program, status: 'draft' },
+    });
+
+    const response = await GET(new NextRequest('http://localhost:3000/api/worship/programs/7/pdf'), params);
+
+    expect(response.status).toBe(409);
+    expect(programPdf.renderProgramPdf).not.toHaveBeenCalled();
+  });
+
+  it('validates the language and the program', async () => {
+    expect((await GET(new NextRequest('http://localhost:3000/api/worship/programs/7/pdf?language=!'), params)).status)
+      .toBe(400);
+
+    programQueries.findProgramInOrganization.mockResolvedValue(null);
+
+    expect((await GET(new NextRequest('http://localhost:3000/api/worship/programs/7/pdf'), params)).status).toBe(404);
+  });
+});
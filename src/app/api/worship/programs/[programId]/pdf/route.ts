@@ -0,0 +1,83 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import { DEFAULT_LYRICS_LANGUAGE, isLanguageCode } from '@/libs/worship/ProgramMarkdown';
+import { renderProgramPdf } from '@/libs/worship/ProgramPdf';
+import { findProgramInOrganization } from '@/libs/worship/ProgramQueries';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+type RouteParams = {
+  params: {
+    programId: string;
+  };
+};
+
+// Only programs that went through approval are printed for the team
+const PRINTABLE_STATUSES = ['published', 'completed'];
+
+/**
+ * GET /api/worship/programs/[programId]/pdf?language=
+ * Download a published program as a PDF: the run sheet, then the lyrics of each hymn in
+ * `language` and in the key the program sings it in
+ */
+async function handleDownloadPdf(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+    const language = request.nextUrl.searchParams.get('language') ?? DEFAULT_LYRICS_LANGUAGE;
+
+    if (!programId) {
+      return NextResponse.json(
+        { error: 'Valid programId is required' },
+        { status: 400 },
+      );
+    }
+
+    if (!isLanguageCode(language)) {
+      return NextResponse.json(
+        { error: 'language must be a language code' },
+        { status: 400 },
+      );
+    }
+
+    const hierarchy = orgId ? await findProgramInOrganization(programId, orgId) : null;
+
+    if (!hierarchy) {
+      return NextResponse.json(
+        { error: 'Program not found' },
+        { status: 404 },
+      );
+    }
+
+    if (!PRINTABLE_STATUSES.includes(hierarchy.program.status)) {
+      return NextResponse.json(
+        { error: `Cannot print a ${hierarchy.program.status} program, publish it first` },
+        { status: 409 },
+      );
+    }
+
+    const pdf = await renderProgramPdf(hierarchy, orgId!, language);
+    const filename = `${hierarchy.program.title.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'program'}.pdf`;
+
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'private, no-cache',
+      },
+    });
+  } catch (error) {
+    console.error('Failed to export program PDF:', error);
+    return NextResponse.json(
+      { error: 'Failed to export program PDF' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const GET = withWorshipAuth(handleDownloadPdf, {
+  minimumRole: 'member',
+});
@@ -0,0 +1,251 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { DELETE, GET, PATCH } from './route';
+
+const mockDb = vi.hoisted(() => ({
+  delete: vi.fn().mockReturnThis(),
+  where: vi.fn(),
+}));
+
+vi.mock('@/libs/DB', () => ({
+  db: mockDb,
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramQueries', () => ({
+  findProgramInOrganization: vi.fn(),
+  findUnavailableHymnIds: vi.fn(),
+  listProgramHymns: vi.fn(),
+  updateProgramAtVersion: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramVersions', async importOriginal => ({
+  ...await importOriginal<typeof import('@/libs/worship/ProgramVersions')>(),
+  findProgramVersionAt: vi.fn(),
+}));
+
+// Mock middleware by replacing it with a simple pass-through
+vi.mock('@/middleware/worship-auth', () => ({
+  withWorshipAuth: (handler: any) => handler,
+}));
+
+const hierarchy = {
+  program: { id: 7, eventId: 12, title: 'Easter Sunday', status: 'draft', versionNumber: 3 },
+  event: {
+    id: 12,
+    eventDate: new Date('2025-03-02T15:00:00.000Z'),
+    eventType: 'one_time',
+  },
+  service: { id: 3 },
+  ministry: { id: 2 },
+  church: { id: 1, timezone: 'America/Toronto' },
+};
+
+const params = { params: { programId: '7' } };
+
+// Edits made from the program's current version unless the body says otherwise
+function patchRequest(body: object) {
+  return new NextRequest('http://localhost:3000/api/worship/programs/7', {
+    method: 'PATCH',
+    body: JSON.stringify({ versionNumber: 3, ...body }),
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('/api/worship/programs/[programId]', () => {
+  let auth: any;
+  let programQueries: any;
+  let programVersions: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockDb.delete.mockReturnThis();
+
+    auth = (await import('@clerk/nextjs/server')).auth;
+    programQueries = await import('@/libs/worship/ProgramQueries');
+    programVersions = await import('@/libs/worship/ProgramVersions');
+    auth.mockResolvedValue({ userId: 'user-123', orgId: 'org-123' });
+    programQueries.findProgramInOrganization.mockResolvedValue(hierarchy);
+    programQueries.findUnavailableHymnIds.mockResolvedValue([]);
+    programQueries.listProgramHymns.mockResolvedValue([{ id: 1, hymnId: 4, orderIndex: 0 }]);
+    programQueries.updateProgramAtVersion.mockResolvedValue({ ...hierarchy.program, versionNumber: 4 });
+  });
+
+  describe('GET', () => {
+    it('returns the program with its event and hymns', async () => {
+      const response = await GET(new NextRequest('http://localhost:3000/api/worship/programs/7'), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toMatchObject({
+        id: 7,
+        event: { id: 12 },
+        church: { id: 1 },
+        hymns: [{ hymnId: 4, orderIndex: 0 }],
+      });
+      expect(programQueries.findProgramInOrganization).toHaveBeenCalledWith(7, 'org-123');
+    });
+
+    it('returns 404 for programs of other organizations', async () => {
+      programQueries.findProgramInOrganization.mockResolvedValue(null);
+
+      const response = await GET(new NextRequest('http://localhost:3000/api/worship/programs/7'), params);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('PATCH', () => {
+    it('updates the program, replaces its hymns and bumps the version', async () => {
+      const response = await PATCH(patchRequest({
+        title: 'Easter Sunday Celebration',
+        hymns: [{ hymnId: 4, tempo: 'Allegro' }],
+      }), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.hymns).toHaveLength(1);
+      expect(data.data.versionNumber).toBe(4);
+      expect(programQueries.updateProgramAtVersion).toHaveBeenCalledWith(
+        7,
+        3,
+        expect.objectContaining({
+          title: 'Easter Sunday Celebration',
+          lastEditedBy: 'user-123',
+        }),
+        [{ hymnId: 4, key: null, tempo: 'Allegro', notes: null, estimatedDuration: null }],
+        undefined,
+      );
+    });
+
+    it('keeps the hymns when none are given', async () => {
+      await PATCH(patchRequest({ description: 'Sunrise service' }), params);
+
+      expect(programQueries.updateProgramAtVersion).toHaveBeenCalledWith(7, 3, expect.anything(), undefined, undefined);
+      expect(programQueries.findUnavailableHymnIds).not.toHaveBeenCalled();
+    });
+
+    it('records markdown edits in the version history', async () => {
+      await PATCH(patchRequest({ markdownContent: '# Easter Sunday\nBring palms\n', changeDescription: 'Palm reminder' }), params);
+
+      expect(programQueries.updateProgramAtVersion).toHaveBeenCalledWith(
+        7,
+        3,
+        expect.objectContaining({ markdownContent: '# Easter Sunday\nBring palms\n' }),
+        undefined,
+        { changeType: 'manual_edit', changeDescription: 'Palm reminder', changedBy: 'user-123' },
+      );
+    });
+
+    it('leaves status changes to the approval workflow', async () => {
+      const response = await PATCH(patchRequest({ status: 'published' }), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Program status changes through the approval workflow');
+      expect(programQueries.updateProgramAtVersion).not.toHaveBeenCalled();
+    });
+
+    it('returns 400 when nothing changes', async () => {
+      const response = await PATCH(patchRequest({}), params);
+
+      expect(response.status).toBe(400);
+      expect(programQueries.updateProgramAtVersion).not.toHaveBeenCalled();
+    });
+
+    it('requires the version the edit was made from', async () => {
+      const response = await PATCH(patchRequest({ title: 'Easter Sunday Celebration', versionNumber: undefined }), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('versionNumber of the edited program is required');
+    });
+
+    it('returns the current program for edits of an outdated version', async () => {
+      const response = await PATCH(patchRequest({ title: 'Easter Sunday Celebration', versionNumber: 2 }), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(data.error).toBe('The program was updated by someone else since version 2');
+      expect(data.current).toMatchObject({ id: 7, versionNumber: 3, hymns: [{ hymnId: 4, orderIndex: 0 }] });
+      expect(data.merge).toBeNull();
+      expect(programQueries.updateProgramAtVersion).not.toHaveBeenCalled();
+    });
+
+    it('suggests a merge of markdown edits with the current markdown', async () => {
+      programQueries.findProgramInOrganization.mockResolvedValue({
+        ...hierarchy,
+        program: { ...hierarchy.program, markdownContent: '# Easter Sunday\nSunrise at 6\nBring palms\n' },
+      });
+      programVersions.findProgramVersionAt.mockResolvedValue({
+        versionNumber: 2,
+        markdownContent: '# Easter Sunday\nSunrise at 6\n',
+      });
+
+      const response = await PATCH(patchRequest({
+        markdownContent: '# Easter Sunday Celebration\nSunrise at 6\n',
+        versionNumber: 2,
+      }), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(programVersions.findProgramVersionAt).toHaveBeenCalledWith(7, 2);
+      expect(data.merge).toEqual({
+        text: '# Easter Sunday Celebration\nSunrise at 6\nBring palms\n',
+        conflicts: 0,
+      });
+    });
+
+    it('only edits drafts', async () => {
+      programQueries.findProgramInOrganization.mockResolvedValue({
+        ...hierarchy,
+        program: { ...hierarchy.program, status: 'published' },
+      });
+
+      const response = await PATCH(patchRequest({ title: 'Easter Sunday Celebration' }), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(data.error).toBe('Cannot edit a published program, only drafts can be edited');
+      expect(programQueries.updateProgramAtVersion).not.toHaveBeenCalled();
+    });
+
+    it('returns 409 when the program is updated during the edit', async () => {
+      programQueries.updateProgramAtVersion.mockResolvedValue(null);
+
+      const response = await PATCH(patchRequest({ title: 'Easter Sunday Celebration' }), params);
+
+      expect(response.status).toBe(409);
+      expect(programQueries.findProgramInOrganization).toHaveBeenCalledTimes(2);
+    });
+
+    it('refuses occurrence dates on one-time events', async () => {
+      const response = await PATCH(patchRequest({ occurrenceDate: '2025-03-02' }), params);
+
+      expect(response.status).toBe(400);
+      expect(programQueries.updateProgramAtVersion).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE', () => {
+    it('deletes the program', async () => {
+      const response = await DELETE(new NextRequest('http://localhost:3000/api/worship/programs/7', { method: 'DELETE' }), params);
+
+      expect(response.status).toBe(200);
+      expect(mockDb.delete).toHaveBeenCalled();
+    });
+
+    it('returns 404 for programs of other organizations', async () => {
+      programQueries.findProgramInOrganization.mockResolvedValue(null);
+
+      const response = await DELETE(new NextRequest('http://localhost:3000/api/worship/programs/7', { method: 'DELETE' }), params);
+
+      expect(response.status).toBe(404);
+      expect(mockDb.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { auth } from '@clerk/nextjs/server';
+import { eq } from 'drizzle-orm';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { db } from '@/libs/DB';
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import type { ProgramRecord } from '@/libs/worship/ProgramQueries';
+import {
+  findProgramInOrganization,
+  findUnavailableHymnIds,
+  listProgramHymns,
+  updateProgramAtVersion,
+} from '@/libs/worship/ProgramQueries';
+import { publishProgramUpdate } from '@/libs/worship/ProgramRealtime';
+import { validateProgramInput, validateProgramOccurrence } from '@/libs/worship/ProgramValidation';
+import { findProgramVersionAt, mergeProgramMarkdown } from '@/libs/worship/ProgramVersions';
+import { checkProgramEditable } from '@/libs/worship/ProgramWorkflow';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+import { worshipProgramsSchema as programTable } from '@/models/WorshipSchema';
+
+type RouteParams = {
+  params: {
+    programId: string;
+  };
+};
+
+/**
+ * GET /api/worship/programs/[programId]
+ * Get a program with its event, service, ministry, church and ordered hymn entries
+ */
+async function handleGetProgram(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+
+    if (!programId) {
+      return NextResponse.json(
+        { error: 'Valid programId is required' },
+        { status: 400 },
+      );
+    }
+
+    const hierarchy = orgId ? await findProgramInOrganization(programId, orgId) : null;
+
+    if (!hierarchy) {
+      return NextResponse.json(
+        { error: 'Program not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...hierarchy.program,
+        event: hierarchy.event,
+        service: hierarchy.service,
+        ministry: hierarchy.ministry,
+        church: hierarchy.church,
+        hymns: await listProgramHymns(programId),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to get program:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve program' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * The 409 response to an update made from an outdated version: the program as it is now and,
+ * for markdown edits, a three-way merge of the edit with the current markdown
+ */
+async function versionConflict(current: ProgramRecord, editedVersion: number, markdownContent?: string | null) {
+  const base = typeof markdownContent === 'string'
+    ? await findProgramVersionAt(current.id, editedVersion)
+    : null;
+
+  return NextResponse.json(
+    {
+      error: `The program was updated by someone else since version ${editedVersion}`,
+      current: {
+        ...current,
+        hymns: await listProgramHymns(current.id),
+      },
+      merge: typeof markdownContent === 'string'
+        ? mergeProgramMarkdown(base?.markdownContent ?? null, markdownContent, current.markdownContent)
+        : null,
+    },
+    { status: 409 },
+  );
+}
+
+/**
+ * PATCH /api/worship/programs/[programId]
+ * Update a program; `hymns`, when given, replaces the whole ordered list of hymn entries.
+ * `versionNumber` is the version the edit was made from: every update moves the program to
+ * the next version, and edits of an outdated version get a 409 with the current program
+ * instead of overwriting it. Markdown edits are recorded in the version history with
+ * `changeDescription`. Only drafts can be edited (409 otherwise), and the status only changes
+ * through the workflow actions of /transitions.
+ */
+async function handleUpdateProgram(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId, orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+
+    if (!programId) {
+      return NextResponse.json(
+        { error: 'Valid programId is required' },
+        { status: 400 },
+      );
+    }
+
+    const body = await request.json();
+    const editedVersion = parsePositiveInteger(body.versionNumber);
+
+    if (!editedVersion) {
+      return NextResponse.json(
+        { error: 'versionNumber of the edited program is required' },
+        { status: 400 },
+      );
+    }
+
+    const validation = validateProgramInput(body, { partial: true });
+
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 },
+      );
+    }
+
+    const { hymns, changeDescription, ...changes } = validation.data;
+
+    if (Object.keys(changes).length === 0 && !hymns) {
+      return NextResponse.json(
+        { error: 'No fields to update' },
+        { status: 400 },
+      );
+    }
+
+    const existing = orgId ? await findProgramInOrganization(programId, orgId) : null;
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Program not found' },
+        { status: 404 },
+      );
+    }
+
+    const editError = checkProgramEditable(existing.program.status);
+
+    if (editError) {
+      return NextResponse.json(
+        { error: editError },
+        { status: 409 },
+      );
+    }
+
+    if (existing.program.versionNumber !== editedVersion) {
+      return versionConflict(existing.program, editedVersion, changes.markdownContent);
+    }
+
+    const occurrenceError = validateProgramOccurrence(existing.event, changes.occurrenceDate, existing.church.timezone);
+
+    if (occurrenceError) {
+      return NextResponse.json(
+        { error: occurrenceError },
+        { status: 400 },
+      );
+    }
+
+    const unavailableHymnIds = hymns
+      ? await findUnavailableHymnIds(hymns.map(hymn => hymn.hymnId), orgId!)
+      : [];
+
+    if (unavailableHymnIds.length > 0) {
+      return NextResponse.json(
+        { error: `Hymns not found: ${unavailableHymnIds.join(', ')}` },
+        { status: 400 },
+      );
+    }
+
+    const markdownEdited = changes.markdownContent !== undefined
+      && changes.markdownContent !== existing.program.markdownContent;
+
+    const program = await updateProgramAtVersion(programId, editedVersion, {
+      ...changes,
+      lastEditedBy: userId!,
+      lastEditedAt: new Date(),
+    }, hymns, markdownEdited
+      ? { changeType: 'manual_edit', changeDescription, changedBy: userId! }
+      : undefined);
+
+    // Someone else saved between the version check and the update
+    if (!program) {
+      const current = await findProgramInOrganization(programId, orgId!);
+
+      return current
+        ? versionConflict(current.program, editedVersion, changes.markdownContent)
+        : NextResponse.json(
+            { error: 'Program not found' },
+            { status: 404 },
+          );
+    }
+
+    publishProgramUpdate(program, userId!);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...program,
+        hymns: await listProgramHymns(programId),
+      },
+      message: 'Program updated successfully',
+    });
+  } catch (error) {
+    console.error('Failed to update program:', error);
+    return NextResponse.json(
+      { error: 'Failed to update program' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/worship/programs/[programId]
+ * Delete a program together with its hymn entries and assignments
+ */
+async function handleDeleteProgram(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+
+    if (!programId) {
+      return NextResponse.json(
+        { error: 'Valid programId is required' },
+        { status: 400 },
+      );
+    }
+
+    const existing = orgId ? await findProgramInOrganization(programId, orgId) : null;
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Program not found' },
+        { status: 404 },
+      );
+    }
+
+    await db
+      .delete(programTable)
+      .where(eq(programTable.id, programId));
+
+    return NextResponse.json({
+      success: true,
+      message: 'Program deleted successfully',
+    });
+  } catch (error) {
+    console.error('Failed to delete program:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete program' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const GET = withWorshipAuth(handleGetProgram, {
+  minimumRole: 'member',
+});
+
+export const PATCH = withWorshipAuth(handleUpdateProgram, {
+  permission: 'canEditProgram',
+});
+
+export const DELETE = withWorshipAuth(handleDeleteProgram, {
+  permission: 'canDeleteProgram',
+});
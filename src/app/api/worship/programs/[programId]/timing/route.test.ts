@@ -0,0 +1,70 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { GET } from './route';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramQueries', () => ({
+  findProgramInOrganization: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramTiming', () => ({
+  loadProgramTiming: vi.fn(),
+}));
+
+// Mock middleware by replacing it with a simple pass-through
+vi.mock('@/middleware/worship-auth', () => ({
+  withWorshipAuth: (handler: any) => handler,
+}));
+
+const hierarchy = {
+  program: { id: 7, title: 'Easter Sunday', occurrenceDate: '2025-04-20' },
+  event: { id: 12, duration: 60 },
+  service: { id: 3, defaultDuration: 90 },
+  ministry: { id: 2 },
+  church: { id: 1, timezone: 'America/Toronto' },
+};
+
+const params = { params: { programId: '7' } };
+
+describe('/api/worship/programs/[programId]/timing', () => {
+  let auth: any;
+  let programQueries: any;
+  let programTiming: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    auth = (await import('@clerk/nextjs/server')).auth;
+    programQueries = await import('@/libs/worship/ProgramQueries');
+    programTiming = await import('@/libs/worship/ProgramTiming');
+    auth.mockResolvedValue({ userId: 'user-123', orgId: 'org-123' });
+    programQueries.findProgramInOrganization.mockResolvedValue(hierarchy);
+    programTiming.loadProgramTiming.mockResolvedValue({ totalDuration: 3900, sections: [], warnings: [{ type: 'event_overrun' }] });
+  });
+
+  it('returns the timing of the program', async () => {
+    const response = await GET(new NextRequest('http://localhost:3000/api/worship/programs/7/timing'), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data).toEqual({ totalDuration: 3900, sections: [], warnings: [{ type: 'event_overrun' }] });
+    expect(programTiming.loadProgramTiming).toHaveBeenCalledWith(hierarchy);
+  });
+
+  it('returns 404 for programs outside the organization', async () => {
+    programQueries.findProgramInOrganization.mockResolvedValue(null);
+
+    const response = await GET(new NextRequest('http://localhost:3000/api/worship/programs/7/timing'), params);
+
+    expect(response.status).toBe(404);
+    expect(programTiming.loadProgramTiming).not.toHaveBeenCalled();
+  });
+});
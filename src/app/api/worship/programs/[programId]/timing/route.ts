@@ -0,0 +1,58 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import { findProgramInOrganization } from '@/libs/worship/ProgramQueries';
+import { loadProgramTiming } from '@/libs/worship/ProgramTiming';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+type RouteParams = {
+  params: {
+    programId: string;
+  };
+};
+
+/**
+ * GET /api/worship/programs/[programId]/timing
+ * Get the running clock of a program: when each section starts and ends, where its duration
+ * comes from, and warnings when the program runs past its event or service
+ */
+async function handleGetTiming(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+
+    if (!programId) {
+      return NextResponse.json(
+        { error: 'Valid programId is required' },
+        { status: 400 },
+      );
+    }
+
+    const hierarchy = orgId ? await findProgramInOrganization(programId, orgId) : null;
+
+    if (!hierarchy) {
+      return NextResponse.json(
+        { error: 'Program not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await loadProgramTiming(hierarchy),
+    });
+  } catch (error) {
+    console.error('Failed to time program:', error);
+    return NextResponse.json(
+      { error: 'Failed to time program' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const GET = withWorshipAuth(handleGetTiming, {
+  minimumRole: 'member',
+});
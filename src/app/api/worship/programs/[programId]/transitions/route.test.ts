@@ -0,0 +1,175 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { GET, POST } from './route';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/lib/worship-role-management', () => ({
+  getUserWorshipRole: vi.fn(),
+}));
+
+vi.mock('@/lib/worship-user-management', () => ({
+  getOrganizationMembers: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramQueries', () => ({
+  findProgramInOrganization: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramTransitions', () => ({
+  listProgramTransitions: vi.fn(),
+  transitionProgram: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramMarkdown', async importOriginal => ({
+  ...await importOriginal<typeof import('@/libs/worship/ProgramMarkdown')>(),
+  preparePublishedMarkdown: vi.fn(),
+}));
+
+// Mock middleware by replacing it with a simple pass-through
+vi.mock('@/middleware/worship-auth', () => ({
+  withWorshipAuth: (handler: any) => handler,
+}));
+
+const hierarchy = {
+  program: { id: 7, title: 'Easter Sunday', status: 'submitted', versionNumber: 3 },
+  event: { id: 12 },
+};
+
+const published = { changes: { originalMarkdown: '# Easter Sunday\n' } };
+
+const params = { params: { programId: '7' } };
+
+function transitionRequest(body: object) {
+  return new NextRequest('http://localhost:3000/api/worship/programs/7/transitions', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('/api/worship/programs/[programId]/transitions', () => {
+  let auth: any;
+  let roleManagement: any;
+  let programQueries: any;
+  let programTransitions: any;
+  let programMarkdown: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    auth = (await import('@clerk/nextjs/server')).auth;
+    roleManagement = await import('@/lib/worship-role-management');
+    programQueries = await import('@/libs/worship/ProgramQueries');
+    programTransitions = await import('@/libs/worship/ProgramTransitions');
+    programMarkdown = await import('@/libs/worship/ProgramMarkdown');
+    auth.mockResolvedValue({ userId: 'user-123', orgId: 'org-123' });
+    roleManagement.getUserWorshipRole.mockResolvedValue('pastor');
+    programQueries.findProgramInOrganization.mockResolvedValue(hierarchy);
+    programTransitions.transitionProgram.mockImplementation(
+      async (_hierarchy: object, _orgId: string, input: any, _userId: string, published?: any) => ({
+        ...hierarchy.program,
+        ...published?.changes,
+        status: input.action === 'approve' ? 'published' : 'draft',
+      }),
+    );
+    programMarkdown.preparePublishedMarkdown.mockResolvedValue(published);
+  });
+
+  describe('GET', () => {
+    it('lists the audit trail', async () => {
+      programTransitions.listProgramTransitions.mockResolvedValue([{ id: 1, action: 'submit', performedBy: 'user-456' }]);
+
+      const response = await GET(new NextRequest('http://localhost:3000/api/worship/programs/7/transitions'), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toEqual([{ id: 1, action: 'submit', performedBy: 'user-456' }]);
+      expect(programTransitions.listProgramTransitions).toHaveBeenCalledWith(7);
+    });
+
+    it('returns 404 for programs of other organizations', async () => {
+      programQueries.findProgramInOrganization.mockResolvedValue(null);
+
+      const response = await GET(new NextRequest('http://localhost:3000/api/worship/programs/7/transitions'), params);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST', () => {
+    it('approves and publishes the program with its run sheet', async () => {
+      const response = await POST(transitionRequest({ action: 'approve', language: 'fr' }), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toMatchObject({ status: 'published', originalMarkdown: '# Easter Sunday\n' });
+      expect(data.message).toBe('Program approved and published');
+      expect(programTransitions.transitionProgram).toHaveBeenCalledWith(
+        hierarchy,
+        'org-123',
+        { action: 'approve', comment: null },
+        'user-123',
+        published,
+      );
+      expect(programMarkdown.preparePublishedMarkdown).toHaveBeenCalledWith(hierarchy, 'org-123', 'user-123', 'fr');
+    });
+
+    it('requires a comment to request changes', async () => {
+      const response = await POST(transitionRequest({ action: 'request_changes', comment: '  ' }), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('A comment is required to request changes');
+      expect(programTransitions.transitionProgram).not.toHaveBeenCalled();
+    });
+
+    it('sends the program back to draft with the comment', async () => {
+      const response = await POST(transitionRequest({ action: 'request_changes', comment: 'Swap the closing hymn' }), params);
+
+      expect(response.status).toBe(200);
+      expect(programTransitions.transitionProgram).toHaveBeenCalledWith(
+        hierarchy,
+        'org-123',
+        { action: 'request_changes', comment: 'Swap the closing hymn' },
+        'user-123',
+        undefined,
+      );
+      expect(programMarkdown.preparePublishedMarkdown).not.toHaveBeenCalled();
+    });
+
+    it('returns 403 when the role cannot take the action', async () => {
+      roleManagement.getUserWorshipRole.mockResolvedValue('collaborator');
+
+      const response = await POST(transitionRequest({ action: 'approve' }), params);
+
+      expect(response.status).toBe(403);
+      expect(programTransitions.transitionProgram).not.toHaveBeenCalled();
+    });
+
+    it('returns 409 for actions the status does not allow', async () => {
+      const response = await POST(transitionRequest({ action: 'complete' }), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(data.error).toBe('Cannot complete a submitted program');
+    });
+
+    it('returns 409 when the program changed in the meantime', async () => {
+      programTransitions.transitionProgram.mockResolvedValue(null);
+
+      const response = await POST(transitionRequest({ action: 'approve' }), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(data.error).toBe('The program was updated by someone else, reload it and try again');
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { getUserWorshipRole } from '@/lib/worship-role-management';
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import { DEFAULT_LYRICS_LANGUAGE, isLanguageCode, preparePublishedMarkdown } from '@/libs/worship/ProgramMarkdown';
+import { findProgramInOrganization } from '@/libs/worship/ProgramQueries';
+import { publishProgramUpdate } from '@/libs/worship/ProgramRealtime';
+import { listProgramTransitions, transitionProgram } from '@/libs/worship/ProgramTransitions';
+import type { ProgramAction } from '@/libs/worship/ProgramWorkflow';
+import { checkTransition, validateTransitionInput } from '@/libs/worship/ProgramWorkflow';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+type RouteParams = {
+  params: {
+    programId: string;
+  };
+};
+
+const ACTION_MESSAGES: Record<ProgramAction, string> = {
+  submit: 'Program submitted for review',
+  approve: 'Program approved and published',
+  request_changes: 'Changes requested on program',
+  complete: 'Program marked completed',
+};
+
+/**
+ * GET /api/worship/programs/[programId]/transitions
+ * List the audit trail of a program's status transitions, oldest first
+ */
+async function handleListTransitions(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+
+    if (!programId) {
+      return NextResponse.json(
+        { error: 'Valid programId is required' },
+        { status: 400 },
+      );
+    }
+
+    const hierarchy = orgId ? await findProgramInOrganization(programId, orgId) : null;
+
+    if (!hierarchy) {
+      return NextResponse.json(
+        { error: 'Program not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await listProgramTransitions(programId),
+    });
+  } catch (error) {
+    console.error('Failed to list program transitions:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve program transitions' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/worship/programs/[programId]/transitions
+ * Take a workflow action (`submit`, `approve`, `request_changes` or `complete`) on a program.
+ * Requesting changes needs a `comment`; approving publishes the program and stores its run
+ * sheet, with lyrics in `language`, as the original markdown in the same transaction.
+ */
+async function handleTransitionProgram(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId, orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+
+    if (!programId) {
+      return NextResponse.json(
+        { error: 'Valid programId is required' },
+        { status: 400 },
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateTransitionInput(body);
+
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 },
+      );
+    }
+
+    const language = body.language ?? DEFAULT_LYRICS_LANGUAGE;
+
+    if (!isLanguageCode(language)) {
+      return NextResponse.json(
+        { error: 'language must be a language code' },
+        { status: 400 },
+      );
+    }
+
+    const hierarchy = orgId ? await findProgramInOrganization(programId, orgId) : null;
+
+    if (!hierarchy) {
+      return NextResponse.json(
+        { error: 'Program not found' },
+        { status: 404 },
+      );
+    }
+
+    const role = await getUserWorshipRole(userId!, orgId!);
+    const transitionError = checkTransition(hierarchy.program.status, role, validation.data.action);
+
+    if (transitionError) {
+      return NextResponse.json(
+        { error: transitionError.error },
+        { status: transitionError.status },
+      );
+    }
+
+    const published = validation.data.action === 'approve'
+      ? await preparePublishedMarkdown(hierarchy, orgId!, userId!, language)
+      : undefined;
+    const program = await transitionProgram(hierarchy, orgId!, validation.data, userId!, published);
+
+    if (!program) {
+      return NextResponse.json(
+        { error: 'The program was updated by someone else, reload it and try again' },
+        { status: 409 },
+      );
+    }
+
+    publishProgramUpdate(program, userId!);
+
+    return NextResponse.json({
+      success: true,
+      data: program,
+      message: ACTION_MESSAGES[validation.data.action],
+    });
+  } catch (error) {
+    console.error('Failed to transition program:', error);
+    return NextResponse.json(
+      { error: 'Failed to update program status' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const GET = withWorshipAuth(handleListTransitions, {
+  minimumRole: 'member',
+});
+
+// Each action checks its own permission; all of them need at least edit rights
+export const POST = withWorshipAuth(handleTransitionProgram, {
+  permission: 'canEditProgram',
+});
@@ -0,0 +1,92 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import { findProgramInOrganization, updateProgramAtVersion } from '@/libs/worship/ProgramQueries';
+import { publishProgramUpdate } from '@/libs/worship/ProgramRealtime';
+import { findProgramVersion } from '@/libs/worship/ProgramVersions';
+import { checkProgramEditable } from '@/libs/worship/ProgramWorkflow';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+type RouteParams = {
+  params: {
+    programId: string;
+    versionNumber: string;
+  };
+};
+
+/**
+ * POST /api/worship/programs/[programId]/versions/[versionNumber]/rollback
+ * Restore the markdown of a past version. The restored markdown becomes a new version, so the
+ * versions after the restored one stay in the history.
+ */
+async function handleRollback(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId, orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+    const versionNumber = parsePositiveInteger(params.versionNumber);
+
+    if (!programId || !versionNumber) {
+      return NextResponse.json(
+        { error: 'Valid programId and versionNumber are required' },
+        { status: 400 },
+      );
+    }
+
+    const existing = orgId ? await findProgramInOrganization(programId, orgId) : null;
+    const version = existing ? await findProgramVersion(programId, versionNumber) : null;
+
+    if (!existing || !version) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 },
+      );
+    }
+
+    const editError = checkProgramEditable(existing.program.status);
+
+    if (editError) {
+      return NextResponse.json(
+        { error: editError },
+        { status: 409 },
+      );
+    }
+
+    const program = await updateProgramAtVersion(programId, existing.program.versionNumber, {
+      markdownContent: version.markdownContent,
+      lastEditedBy: userId!,
+      lastEditedAt: new Date(),
+    }, undefined, {
+      changeType: 'rollback',
+      changeDescription: `Rolled back to version ${versionNumber}`,
+      changedBy: userId!,
+    });
+
+    if (!program) {
+      return NextResponse.json(
+        { error: 'The program was updated by someone else, reload it and try again' },
+        { status: 409 },
+      );
+    }
+
+    publishProgramUpdate(program, userId!);
+
+    return NextResponse.json({
+      success: true,
+      data: program,
+      message: `Program rolled back to version ${versionNumber}`,
+    });
+  } catch (error) {
+    console.error('Failed to roll back program:', error);
+    return NextResponse.json(
+      { error: 'Failed to roll back program' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const POST = withWorshipAuth(handleRollback, {
+  permission: 'canEditProgram',
+});
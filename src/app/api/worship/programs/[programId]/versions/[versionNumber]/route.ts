@@ -0,0 +1,60 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import { findProgramInOrganization } from '@/libs/worship/ProgramQueries';
+import { findProgramVersion } from '@/libs/worship/ProgramVersions';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+type RouteParams = {
+  params: {
+    programId: string;
+    versionNumber: string;
+  };
+};
+
+/**
+ * GET /api/worship/programs/[programId]/versions/[versionNumber]
+ * Get a version of a program with its markdown
+ */
+async function handleGetVersion(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+    const versionNumber = parsePositiveInteger(params.versionNumber);
+
+    if (!programId || !versionNumber) {
+      return NextResponse.json(
+        { error: 'Valid programId and versionNumber are required' },
+        { status: 400 },
+      );
+    }
+
+    const hierarchy = orgId ? await findProgramInOrganization(programId, orgId) : null;
+    const version = hierarchy ? await findProgramVersion(programId, versionNumber) : null;
+
+    if (!version) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: version,
+    });
+  } catch (error) {
+    console.error('Failed to get program version:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve program version' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const GET = withWorshipAuth(handleGetVersion, {
+  minimumRole: 'member',
+});
@@ -0,0 +1,96 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { GET } from './route';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramQueries', () => ({
+  findProgramInOrganization: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramVersions', async importOriginal => ({
+  ...await importOriginal<typeof import('@/libs/worship/ProgramVersions')>(),
+  findProgramVersion: vi.fn(),
+}));
+
+// Mock middleware by replacing it with a simple pass-through
+vi.mock('@/middleware/worship-auth', () => ({
+  withWorshipAuth: (handler: any) => handler,
+}));
+
+const versions: Record<number, object> = {
+  2: { versionNumber: 2, markdownContent: '# Easter Sunday\nOpening hymn in C\n' },
+  4: { versionNumber: 4, markdownContent: '# Easter Sunday\nOpening hymn in D\n' },
+};
+
+const params = { params: { programId: '7' } };
+
+const diffRequest = (query: string) =>
+  new NextRequest(`http://localhost:3000/api/worship/programs/7/versions/diff?${query}`);
+
+describe('/api/worship/programs/[programId]/versions/diff', () => {
+  let auth: any;
+  let programQueries: any;
+  let programVersions: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    auth = (await import('@clerk/nextjs/server')).auth;
+    programQueries = await import('@/libs/worship/ProgramQueries');
+    programVersions = await import('@/libs/worship/ProgramVersions');
+    auth.mockResolvedValue({ userId: 'user-123', orgId: 'org-123' });
+    programQueries.findProgramInOrganization.mockResolvedValue({ program: { id: 7 } });
+    programVersions.findProgramVersion.mockImplementation(async (_programId: number, versionNumber: number) =>
+      versions[versionNumber] ?? null);
+  });
+
+  it('diffs two versions line by line', async () => {
+    const response = await GET(diffRequest('from=2&to=4'), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data).toEqual({
+      from: 2,
+      to: 4,
+      mode: 'line',
+      changes: [
+        { type: 'removed', line: 2, text: 'Opening hymn in C' },
+        { type: 'added', line: 2, text: 'Opening hymn in D' },
+      ],
+    });
+  });
+
+  it('diffs two versions word by word', async () => {
+    const response = await GET(diffRequest('from=2&to=4&mode=word'), params);
+    const data = await response.json();
+
+    expect(data.data.segments).toEqual([
+      { type: 'equal', text: '# Easter Sunday\nOpening hymn in ' },
+      { type: 'removed', text: 'C' },
+      { type: 'added', text: 'D' },
+      { type: 'equal', text: '\n' },
+    ]);
+  });
+
+  it('returns 400 for invalid parameters', async () => {
+    const response = await GET(diffRequest('from=2&to=4&mode=char'), params);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 404 for unknown versions', async () => {
+    const response = await GET(diffRequest('from=2&to=9'), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe('Version 9 not found');
+  });
+});
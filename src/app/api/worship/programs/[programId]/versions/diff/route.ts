@@ -0,0 +1,84 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import { findProgramInOrganization } from '@/libs/worship/ProgramQueries';
+import { parseVersionDiffParams } from '@/libs/worship/ProgramValidation';
+import { diffProgramVersions, findProgramVersion } from '@/libs/worship/ProgramVersions';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+type RouteParams = {
+  params: {
+    programId: string;
+  };
+};
+
+/**
+ * GET /api/worship/programs/[programId]/versions/diff?from=&to=&mode=line|word
+ * Diff the markdown of two versions of a program
+ */
+async function handleDiffVersions(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { orgId } = await auth();
+    const programId = parsePositiveInteger(params.programId);
+
+    if (!programId) {
+      return NextResponse.json(
+        { error: 'Valid programId is required' },
+        { status: 400 },
+      );
+    }
+
+    const diffParams = parseVersionDiffParams(request.nextUrl.searchParams);
+
+    if (diffParams.error !== undefined) {
+      return NextResponse.json(
+        { error: diffParams.error },
+        { status: 400 },
+      );
+    }
+
+    const hierarchy = orgId ? await findProgramInOrganization(programId, orgId) : null;
+
+    if (!hierarchy) {
+      return NextResponse.json(
+        { error: 'Program not found' },
+        { status: 404 },
+      );
+    }
+
+    const { from, to, mode } = diffParams.data;
+    const [fromVersion, toVersion] = await Promise.all([
+      findProgramVersion(programId, from),
+      findProgramVersion(programId, to),
+    ]);
+
+    if (!fromVersion || !toVersion) {
+      return NextResponse.json(
+        { error: `Version ${fromVersion ? to : from} not found` },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        from,
+        to,
+        ...diffProgramVersions(fromVersion, toVersion, mode),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to diff program versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to diff program versions' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const GET = withWorshipAuth(handleDiffVersions, {
+  minimumRole: 'member',
+});
@@ -0,0 +1,64 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { GET } from './route';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramQueries', () => ({
+  findProgramInOrganization: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramVersions', () => ({
+  listProgramVersions: vi.fn(),
+}));
+
+// Mock middleware by replacing it with a simple pass-through
+vi.mock('@/middleware/worship-auth', () => ({
+  withWorshipAuth: (handler: any) => handler,
+}));
+
+const params = { params: { programId: '7' } };
+
+describe('/api/worship/programs/[programId]/versions', () => {
+  let auth: any;
+  let programQueries: any;
+  let programVersions: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    auth = (await import('@clerk/nextjs/server')).auth;
+    programQueries = await import('@/libs/worship/ProgramQueries');
+    programVersions = await import('@/libs/worship/ProgramVersions');
+    auth.mockResolvedValue({ userId: 'user-123', orgId: 'org-123' });
+    programQueries.findProgramInOrganization.mockResolvedValue({ program: { id: 7 } });
+  });
+
+  it('lists the versions of the program', async () => {
+    const versions = [{ versionNumber: 5, changeType: 'rollback' }, { versionNumber: 3, changeType: 'manual_edit' }];
+    programVersions.listProgramVersions.mockResolvedValue(versions);
+
+    const response = await GET(new NextRequest('http://localhost:3000/api/worship/programs/7/versions'), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data).toEqual(versions);
+    expect(programQueries.findProgramInOrganization).toHaveBeenCalledWith(7, 'org-123');
+  });
+
+  it('returns 404 for programs of other organizations', async () => {
+    programQueries.findProgramInOrganization.mockResolvedValue(null);
+
+    const response = await GET(new NextRequest('http://localhost:3000/api/worship/programs/7/versions'), params);
+
+    expect(response.status).toBe(404);
+    expect(programVersions.listProgramVersions).not.toHaveBeenCalled();
+  });
+});
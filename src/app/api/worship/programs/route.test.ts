@@ -0,0 +1,237 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { GET, POST } from './route';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/EventQueries', () => ({
+  findEventInOrganization: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramQueries', () => ({
+  createProgram: vi.fn(),
+  findUnavailableHymnIds: vi.fn(),
+  listProgramHymns: vi.fn(),
+  listProgramsForOrganization: vi.fn(),
+}));
+
+vi.mock('@/libs/worship/ProgramTemplates', async importOriginal => ({
+  ...await importOriginal<typeof import('@/libs/worship/ProgramTemplates')>(),
+  findProgramTemplate: vi.fn(),
+}));
+
+// Mock middleware by replacing it with a simple pass-through
+vi.mock('@/middleware/worship-auth', () => ({
+  withWorshipAuth: (handler: any) => handler,
+}));
+
+const hierarchy = {
+  event: {
+    id: 12,
+    eventDate: new Date('2025-03-02T15:00:00.000Z'),
+    eventType: 'recurring',
+    recurringPattern: 'weekly',
+    recurringConfig: { frequency: 1 },
+  },
+  service: { id: 3 },
+  ministry: { id: 2 },
+  church: { id: 1, timezone: 'America/Toronto' },
+};
+
+describe('/api/worship/programs', () => {
+  let auth: any;
+  let eventQueries: any;
+  let programQueries: any;
+  let programTemplates: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    auth = (await import('@clerk/nextjs/server')).auth;
+    eventQueries = await import('@/libs/worship/EventQueries');
+    programQueries = await import('@/libs/worship/ProgramQueries');
+    programTemplates = await import('@/libs/worship/ProgramTemplates');
+    auth.mockResolvedValue({ userId: 'user-123', orgId: 'org-123' });
+    eventQueries.findEventInOrganization.mockResolvedValue(hierarchy);
+    programQueries.findUnavailableHymnIds.mockResolvedValue([]);
+    programQueries.createProgram.mockResolvedValue({ id: 7, title: 'Easter Sunday' });
+    programQueries.listProgramHymns.mockResolvedValue([]);
+  });
+
+  describe('GET /api/worship/programs', () => {
+    it('lists programs of the current organization with parsed filters', async () => {
+      const programs = [{ id: 7, title: 'Easter Sunday' }];
+      programQueries.listProgramsForOrganization.mockResolvedValue(programs);
+
+      const response = await GET(new NextRequest('http://localhost:3000/api/worship/programs?status=draft&eventIds=12'));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toEqual(programs);
+      expect(programQueries.listProgramsForOrganization).toHaveBeenCalledWith('org-123', {
+        status: 'draft',
+        eventIds: [12],
+      });
+    });
+
+    it('returns 400 for invalid filters', async () => {
+      const response = await GET(new NextRequest('http://localhost:3000/api/worship/programs?status=archived'));
+
+      expect(response.status).toBe(400);
+      expect(programQueries.listProgramsForOrganization).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/worship/programs', () => {
+    const createRequest = (body: object) => new NextRequest('http://localhost:3000/api/worship/programs', {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    it('creates a draft program for an occurrence with its hymns', async () => {
+      const response = await POST(createRequest({
+        eventId: 12,
+        occurrenceDate: '2025-03-16',
+        title: 'Easter Sunday',
+        hymns: [{ hymnId: 4, key: 'G' }, { hymnId: 9 }],
+      }));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toEqual({ id: 7, title: 'Easter Sunday', hymns: [] });
+      expect(eventQueries.findEventInOrganization).toHaveBeenCalledWith(12, 'org-123');
+      expect(programQueries.findUnavailableHymnIds).toHaveBeenCalledWith([4, 9], 'org-123');
+      expect(programQueries.createProgram).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventId: 12,
+          occurrenceDate: '2025-03-16',
+          title: 'Easter Sunday',
+          createdBy: 'user-123',
+        }),
+        [
+          { hymnId: 4, key: 'G', tempo: null, notes: null, estimatedDuration: null },
+          { hymnId: 9, key: null, tempo: null, notes: null, estimatedDuration: null },
+        ],
+        { changeType: 'manual_edit', changeDescription: 'Program created', changedBy: 'user-123' },
+      );
+    });
+
+    it('starts the program from a template', async () => {
+      programTemplates.findProgramTemplate.mockResolvedValue({
+        id: 5,
+        ministryId: 2,
+        sections: [
+          { type: 'hymn', title: 'Doxology', hymnId: 8, estimatedDuration: 2 },
+          { type: 'other', title: 'Scripture Reading', roles: ['Reader'] },
+        ],
+      });
+
+      const response = await POST(createRequest({ eventId: 12, title: 'Easter Sunday', templateId: 5 }));
+
+      expect(response.status).toBe(200);
+      expect(programTemplates.findProgramTemplate).toHaveBeenCalledWith(5, 'org-123');
+      expect(programQueries.findUnavailableHymnIds).toHaveBeenCalledWith([8], 'org-123');
+
+      const [values, hymns] = programQueries.createProgram.mock.calls[0];
+
+      expect(values.programData.metadata.template).toBe('5');
+      expect(values.programData.sections).toMatchObject([
+        { type: 'hymn', title: 'Doxology', hymnId: 8, orderIndex: 0 },
+        { type: 'other', title: 'Scripture Reading', orderIndex: 1, assignments: [{ userId: '', role: 'Reader' }] },
+      ]);
+      expect(hymns).toEqual([{ hymnId: 8, key: null, tempo: null, notes: null, estimatedDuration: 120 }]);
+    });
+
+    it('refuses templates of another ministry', async () => {
+      programTemplates.findProgramTemplate.mockResolvedValue({ id: 5, ministryId: 9, sections: [] });
+
+      const response = await POST(createRequest({ eventId: 12, title: 'Easter Sunday', templateId: 5 }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Template belongs to another ministry');
+      expect(programQueries.createProgram).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for unknown templates', async () => {
+      programTemplates.findProgramTemplate.mockResolvedValue(null);
+
+      const response = await POST(createRequest({ eventId: 12, title: 'Easter Sunday', templateId: 5 }));
+
+      expect(response.status).toBe(404);
+    });
+
+    it('enforces the hymn cap', async () => {
+      const hymns = Array.from({ length: 26 }, (_, index) => ({ hymnId: index + 1 }));
+
+      const response = await POST(createRequest({ eventId: 12, title: 'Hymn Sing', hymns }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('A program can have at most 25 hymns');
+      expect(programQueries.createProgram).not.toHaveBeenCalled();
+    });
+
+    it('enforces the hymn cap on the hymns of templates', async () => {
+      programTemplates.findProgramTemplate.mockResolvedValue({
+        id: 5,
+        ministryId: 2,
+        sections: Array.from({ length: 26 }, (_, index) => ({ type: 'hymn', title: 'Hymn', hymnId: index + 1 })),
+      });
+
+      const response = await POST(createRequest({ eventId: 12, title: 'Hymn Sing', templateId: 5 }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('A program can have at most 25 hymns');
+      expect(programQueries.createProgram).not.toHaveBeenCalled();
+    });
+
+    it('refuses hymns the organization cannot use', async () => {
+      programQueries.findUnavailableHymnIds.mockResolvedValue([9]);
+
+      const response = await POST(createRequest({ eventId: 12, title: 'Easter Sunday', hymns: [{ hymnId: 9 }] }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Hymns not found: 9');
+      expect(programQueries.createProgram).not.toHaveBeenCalled();
+    });
+
+    it('refuses dates that are not an occurrence of the event', async () => {
+      const response = await POST(createRequest({ eventId: 12, occurrenceDate: '2025-03-17', title: 'Easter Sunday' }));
+
+      expect(response.status).toBe(400);
+      expect(programQueries.createProgram).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 when the event is outside the organization', async () => {
+      eventQueries.findEventInOrganization.mockResolvedValue(null);
+
+      const response = await POST(createRequest({ eventId: 99, title: 'Easter Sunday' }));
+
+      expect(response.status).toBe(404);
+      expect(programQueries.createProgram).not.toHaveBeenCalled();
+    });
+
+    it('handles database errors gracefully', async () => {
+      programQueries.createProgram.mockRejectedValue(new Error('Database error'));
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const response = await POST(createRequest({ eventId: 12, title: 'Easter Sunday' }));
+
+      expect(response.status).toBe(500);
+      expect(consoleSpy).toHaveBeenCalled();
+
+      consoleSpy.mockRestore();
+    });
+  });
+});
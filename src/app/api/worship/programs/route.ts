@@ -0,0 +1,194 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { findEventInOrganization } from '@/libs/worship/EventQueries';
+import { getProgramHymns } from '@/libs/worship/ProgramBuilder';
+import {
+  createProgram,
+  findUnavailableHymnIds,
+  listProgramHymns,
+  listProgramsForOrganization,
+} from '@/libs/worship/ProgramQueries';
+import { applyTemplate, findProgramTemplate } from '@/libs/worship/ProgramTemplates';
+import {
+  parseProgramFilters,
+  validateProgramHymns,
+  validateProgramInput,
+  validateProgramOccurrence,
+} from '@/libs/worship/ProgramValidation';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+/**
+ * GET /api/worship/programs
+ * List programs of the current organization, filtered by status, event, author, approver
+ * and date range (startDate and endDate as YYYY-MM-DD, in each program's church time zone)
+ */
+async function handleGetPrograms(request: NextRequest) {
+  try {
+    const { orgId } = await auth();
+
+    if (!orgId) {
+      return NextResponse.json(
+        { error: 'Organization membership required' },
+        { status: 403 },
+      );
+    }
+
+    const filterResult = parseProgramFilters(request.nextUrl.searchParams);
+
+    if (filterResult.error !== undefined) {
+      return NextResponse.json(
+        { error: filterResult.error },
+        { status: 400 },
+      );
+    }
+
+    const programs = await listProgramsForOrganization(orgId, filterResult.data);
+
+    return NextResponse.json({
+      success: true,
+      data: programs,
+    });
+  } catch (error) {
+    console.error('Failed to get programs:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve programs' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/worship/programs
+ * Create a draft program for an event of the current organization (or one occurrence of a
+ * recurring event) with its ordered hymn entries. With `templateId` the program starts from
+ * the template's sections and fixed hymns.
+ */
+async function handleCreateProgram(request: NextRequest) {
+  try {
+    const { userId, orgId } = await auth();
+
+    if (!userId || !orgId) {
+      return NextResponse.json(
+        { error: 'Organization membership required' },
+        { status: 403 },
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateProgramInput(body);
+
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 },
+      );
+    }
+
+    const input = validation.data;
+
+    if (input.status && input.status !== 'draft') {
+      return NextResponse.json(
+        { error: 'New programs start as drafts' },
+        { status: 400 },
+      );
+    }
+
+    const hierarchy = await findEventInOrganization(input.eventId!, orgId);
+
+    if (!hierarchy) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 },
+      );
+    }
+
+    const occurrenceError = validateProgramOccurrence(hierarchy.event, input.occurrenceDate, hierarchy.church.timezone);
+
+    if (occurrenceError) {
+      return NextResponse.json(
+        { error: occurrenceError },
+        { status: 400 },
+      );
+    }
+
+    const template = input.templateId ? await findProgramTemplate(input.templateId, orgId) : null;
+
+    if (input.templateId && !template) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 },
+      );
+    }
+
+    if (template?.ministryId && template.ministryId !== hierarchy.ministry.id) {
+      return NextResponse.json(
+        { error: 'Template belongs to another ministry' },
+        { status: 400 },
+      );
+    }
+
+    // Sections given in the request win over the template's
+    const programData = input.programData ?? (template ? applyTemplate(template) : null);
+    // Hymns derived from a template are held to the same rules as the ones in the request
+    const hymnsResult = validateProgramHymns(input.hymns ?? (template && programData ? getProgramHymns(programData.sections) : []));
+
+    if (hymnsResult.error !== undefined) {
+      return NextResponse.json(
+        { error: hymnsResult.error },
+        { status: 400 },
+      );
+    }
+
+    const hymns = hymnsResult.data;
+    const unavailableHymnIds = await findUnavailableHymnIds(hymns.map(hymn => hymn.hymnId), orgId);
+
+    if (unavailableHymnIds.length > 0) {
+      return NextResponse.json(
+        { error: `Hymns not found: ${unavailableHymnIds.join(', ')}` },
+        { status: 400 },
+      );
+    }
+
+    const program = await createProgram({
+      eventId: hierarchy.event.id,
+      occurrenceDate: input.occurrenceDate ?? null,
+      title: input.title!,
+      description: input.description ?? null,
+      programData,
+      markdownContent: input.markdownContent ?? null,
+      createdBy: userId,
+      lastEditedBy: userId,
+      lastEditedAt: new Date(),
+    }, hymns, {
+      changeType: 'manual_edit',
+      changeDescription: input.changeDescription ?? 'Program created',
+      changedBy: userId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...program,
+        hymns: await listProgramHymns(program.id),
+      },
+      message: 'Program created successfully',
+    });
+  } catch (error) {
+    console.error('Failed to create program:', error);
+    return NextResponse.json(
+      { error: 'Failed to create program' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware - any member can view programs
+export const GET = withWorshipAuth(handleGetPrograms, {
+  minimumRole: 'member',
+});
+
+export const POST = withWorshipAuth(handleCreateProgram, {
+  permission: 'canCreateProgram',
+});
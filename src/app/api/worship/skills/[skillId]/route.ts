@@ -0,0 +1,127 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { parsePositiveInteger } from '@/libs/worship/EventValidation';
+import {
+  deleteSkill,
+  findSkill,
+  hasSkillNamed,
+  listSkills,
+  updateSkill,
+  validateSkillInput,
+} from '@/libs/worship/MemberSkills';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+type RouteParams = {
+  params: {
+    skillId: string;
+  };
+};
+
+/**
+ * PATCH /api/worship/skills/[skillId]
+ * Rename or recategorize a skill of the catalog (`name`, `category`)
+ */
+async function handleUpdateSkill(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { orgId } = await auth();
+    const skillId = parsePositiveInteger(params.skillId);
+
+    if (!skillId) {
+      return NextResponse.json(
+        { error: 'Valid skillId is required' },
+        { status: 400 },
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateSkillInput(body);
+
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 },
+      );
+    }
+
+    const skill = orgId ? await findSkill(orgId, skillId) : null;
+
+    if (!skill) {
+      return NextResponse.json(
+        { error: 'Skill not found' },
+        { status: 404 },
+      );
+    }
+
+    if (hasSkillNamed(await listSkills(orgId!), validation.data.name, skillId)) {
+      return NextResponse.json(
+        { error: `The catalog already has a skill named ${validation.data.name}` },
+        { status: 409 },
+      );
+    }
+
+    const updated = await updateSkill(skillId, validation.data);
+
+    return NextResponse.json({
+      success: true,
+      data: updated,
+      message: 'Skill updated successfully',
+    });
+  } catch (error) {
+    console.error('Failed to update skill:', error);
+    return NextResponse.json(
+      { error: 'Failed to update skill' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/worship/skills/[skillId]
+ * Remove a skill from the catalog, and from the members who had it
+ */
+async function handleDeleteSkill(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { orgId } = await auth();
+    const skillId = parsePositiveInteger(params.skillId);
+
+    if (!skillId) {
+      return NextResponse.json(
+        { error: 'Valid skillId is required' },
+        { status: 400 },
+      );
+    }
+
+    const skill = orgId ? await findSkill(orgId, skillId) : null;
+
+    if (!skill) {
+      return NextResponse.json(
+        { error: 'Skill not found' },
+        { status: 404 },
+      );
+    }
+
+    await deleteSkill(skillId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Skill deleted successfully',
+    });
+  } catch (error) {
+    console.error('Failed to delete skill:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete skill' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const PATCH = withWorshipAuth(handleUpdateSkill, {
+  permission: 'canAssignRoles',
+});
+
+export const DELETE = withWorshipAuth(handleDeleteSkill, {
+  permission: 'canAssignRoles',
+});
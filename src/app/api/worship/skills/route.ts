@@ -0,0 +1,93 @@
+import { auth } from '@clerk/nextjs/server';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { createSkill, hasSkillNamed, listSkills, validateSkillInput } from '@/libs/worship/MemberSkills';
+import { withWorshipAuth } from '@/middleware/worship-auth';
+
+/**
+ * GET /api/worship/skills
+ * List the organization's skills catalog by category and name
+ */
+async function handleListSkills(_request: NextRequest) {
+  try {
+    const { orgId } = await auth();
+
+    if (!orgId) {
+      return NextResponse.json(
+        { error: 'Organization membership required' },
+        { status: 403 },
+      );
+    }
+
+    const skills = await listSkills(orgId);
+
+    return NextResponse.json({
+      success: true,
+      data: skills,
+    });
+  } catch (error) {
+    console.error('Failed to list skills:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve skills' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/worship/skills
+ * Add a skill (`name`, `category`: instrument, vocal or tech) to the organization's catalog
+ */
+async function handleCreateSkill(request: NextRequest) {
+  try {
+    const { orgId } = await auth();
+
+    if (!orgId) {
+      return NextResponse.json(
+        { error: 'Organization membership required' },
+        { status: 403 },
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateSkillInput(body);
+
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 },
+      );
+    }
+
+    if (hasSkillNamed(await listSkills(orgId), validation.data.name)) {
+      return NextResponse.json(
+        { error: `The catalog already has a skill named ${validation.data.name}` },
+        { status: 409 },
+      );
+    }
+
+    const skill = await createSkill(orgId, validation.data);
+
+    return NextResponse.json({
+      success: true,
+      data: skill,
+      message: 'Skill created successfully',
+    });
+  } catch (error) {
+    console.error('Failed to create skill:', error);
+    return NextResponse.json(
+      { error: 'Failed to create skill' },
+      { status: 500 },
+    );
+  }
+}
+
+// Apply worship auth middleware
+export const GET = withWorshipAuth(handleListSkills, {
+  minimumRole: 'member',
+});
+
+export const POST = withWorshipAuth(handleCreateSkill, {
+  permission: 'canAssignRoles',
+});
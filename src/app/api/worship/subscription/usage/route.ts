@@ -10,6 +10,7 @@ import {
 import { organizationSchema } from '@/models/Schema';
 import { and, eq, count, isNull } from 'drizzle-orm';
 import { withWorshipAuth } from '@/middleware/worship-auth';
+import { getEventUsage } from '@/libs/worship/EventUsage';
 import type { SubscriptionTier, UsageStats } from '@/libs/worship/SubscriptionLimits';
 
 // Mock function to get subscription tier - in real implementation, this would
@@ -87,11 +88,15 @@ async function handleGetUsage(
         isNull(churchTable.deletedAt)
       ));
 
+    // Count event occurrences in the current week and month of each church
+    const eventUsage = await getEventUsage(organizationId);
+
     const usage: UsageStats = {
       churches: churchCount.count,
       ministries: ministryCount.count,
       collaborators: collaboratorCount.count,
       services: serviceCount.count,
+      eventsPerWeek: eventUsage.eventsThisWeek,
     };
 
     // Update or create usage tracking record
@@ -103,8 +108,8 @@ async function handleGetUsage(
           churchCount: usage.churches,
           ministryCount: usage.ministries,
           collaboratorCount: usage.collaborators,
-          eventsThisWeek: 0, // Would be calculated from events table
-          eventsThisMonth: 0, // Would be calculated from events table
+          eventsThisWeek: eventUsage.eventsThisWeek,
+          eventsThisMonth: eventUsage.eventsThisMonth,
           storageUsedMB: 0, // Would be calculated from audio files
         })
         .onConflictDoUpdate({
@@ -113,6 +118,8 @@ async function handleGetUsage(
             churchCount: usage.churches,
             ministryCount: usage.ministries,
             collaboratorCount: usage.collaborators,
+            eventsThisWeek: eventUsage.eventsThisWeek,
+            eventsThisMonth: eventUsage.eventsThisMonth,
             lastCalculatedAt: new Date(),
             updatedAt: new Date(),
           },
@@ -127,6 +134,7 @@ async function handleGetUsage(
       data: {
         tier,
         usage,
+        eventsThisMonth: eventUsage.eventsThisMonth,
         lastUpdated: new Date().toISOString(),
       },
     });
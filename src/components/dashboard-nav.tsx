@@ -6,6 +6,7 @@ import type {
 import {
   Building2,
   CalendarDays,
+  ClipboardList,
   CreditCard,
   Home,
   Music,
@@ -78,6 +79,11 @@ export function DashboardNav(): JSX.Element {
       href: '/dashboard/programs',
       icon: CalendarDays,
     },
+    {
+      title: t('assignments'),
+      href: '/dashboard/assignments',
+      icon: ClipboardList,
+    },
     {
       title: t('hymns'),
       href: '/dashboard/hymns',
@@ -0,0 +1,129 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { OrganizationMember } from '@/lib/worship-user-management';
+
+import { SkillsCatalog } from './skills-catalog';
+
+const mockUseWorshipAuth = vi.fn();
+const mockToast = vi.hoisted(() => vi.fn());
+
+vi.mock('@/hooks/use-worship-auth', () => ({
+  useWorshipAuth: () => mockUseWorshipAuth(),
+}));
+
+vi.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({
+    toast: mockToast,
+  }),
+}));
+
+globalThis.fetch = vi.fn();
+
+const members = [
+  { userId: 'user1', firstName: 'Ana', lastName: 'Lopez', emailAddress: 'ana@example.com' },
+  { userId: 'user2', firstName: 'Ben', lastName: null, emailAddress: 'ben@example.com' },
+] as OrganizationMember[];
+
+const skills = [
+  { id: 5, name: 'Bass', category: 'instrument' },
+  { id: 6, name: 'Alto', category: 'vocal' },
+];
+
+const churches = [
+  { id: 1, name: 'North Campus', deletedAt: null },
+  { id: 2, name: 'Old Chapel', deletedAt: '2025-01-01T00:00:00.000Z' },
+];
+
+const memberSkills = [
+  { memberSkill: { id: 1, userId: 'user1', skillId: 5, proficiency: 'advanced', churchId: 1 }, skill: skills[0] },
+];
+
+const jsonResponse = (data: unknown) => Promise.resolve({ json: () => Promise.resolve({ success: true, data }) });
+
+describe('SkillsCatalog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseWorshipAuth.mockReturnValue({ organizationId: 'org_123', canAssignRoles: true });
+
+    vi.mocked(fetch).mockImplementation((input: any, init?: any) => {
+      const url = input.toString();
+      if (init?.method === 'POST' && url === '/api/worship/skills') {
+        return jsonResponse({ id: 7, ...JSON.parse(init.body) }) as any;
+      }
+      if (init?.method === 'POST') {
+        return jsonResponse({ id: 2, ...JSON.parse(init.body) }) as any;
+      }
+      if (init?.method === 'DELETE') {
+        return jsonResponse(null) as any;
+      }
+      if (url === '/api/worship/skills') {
+        return jsonResponse(skills) as any;
+      }
+      if (url === '/api/worship/member-skills') {
+        return jsonResponse(memberSkills) as any;
+      }
+      return jsonResponse(churches) as any;
+    });
+  });
+
+  it('lists the catalog by category and the skills of members', async () => {
+    render(<SkillsCatalog members={members} />);
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId('catalog-skill')).toHaveLength(2);
+    });
+
+    expect(screen.getByTestId('member-skill')).toHaveTextContent('Ana LopezBassAdvancedNorth Campus');
+    expect(screen.getByText('None yet')).toBeInTheDocument();
+    expect(fetch).toHaveBeenCalledWith('/api/worship/churches?organizationId=org_123');
+  });
+
+  it('adds a skill to the catalog and gives it to a member', async () => {
+    render(<SkillsCatalog members={members} />);
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId('catalog-skill')).toHaveLength(2);
+    });
+
+    fireEvent.change(screen.getByLabelText('Skill name'), { target: { value: 'Sound desk' } });
+    fireEvent.click(screen.getByRole('combobox', { name: 'Skill category' }));
+    fireEvent.click(screen.getByRole('option', { name: 'Tech roles' }));
+    fireEvent.click(screen.getByText('Add Skill'));
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId('catalog-skill')).toHaveLength(3);
+    });
+
+    expect(screen.queryByText('None yet')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('combobox', { name: 'Member' }));
+    fireEvent.click(screen.getByRole('option', { name: 'Ben' }));
+    fireEvent.click(screen.getByRole('combobox', { name: 'Skill' }));
+    fireEvent.click(screen.getByRole('option', { name: 'Sound desk' }));
+    fireEvent.click(screen.getByText('Save Member Skill'));
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId('member-skill')).toHaveLength(2);
+    });
+
+    expect(fetch).toHaveBeenCalledWith('/api/worship/member-skills', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ userId: 'user2', skillId: 7, proficiency: 'intermediate', churchId: null }),
+    }));
+    expect(screen.getAllByTestId('member-skill')[1]).toHaveTextContent('BenSound deskIntermediateAny church');
+  });
+
+  it('only lists skills to members who cannot assign roles', async () => {
+    mockUseWorshipAuth.mockReturnValue({ organizationId: 'org_123', canAssignRoles: false });
+
+    render(<SkillsCatalog members={members} />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('member-skill')).toBeInTheDocument();
+    });
+
+    expect(screen.queryByText('Add Skill')).not.toBeInTheDocument();
+    expect(screen.queryByLabelText('Delete Bass')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,358 @@
+'use client';
+
+import { Guitar, Plus, Trash2, X } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { SkillCategory, SkillProficiency } from '@/features/worship/types';
+import { useToast } from '@/hooks/use-toast';
+import { useWorshipAuth } from '@/hooks/use-worship-auth';
+import type { OrganizationMember } from '@/lib/worship-user-management';
+import type { MemberSkillItem, SkillRecord } from '@/libs/worship/MemberSkills';
+
+type SkillsCatalogProps = {
+  members: OrganizationMember[];
+};
+
+type Skill = Pick<SkillRecord, 'id' | 'name' | 'category'>;
+
+type Church = {
+  id: number;
+  name: string;
+  deletedAt: string | null;
+};
+
+const CATEGORY_LABELS: Record<SkillCategory, string> = {
+  instrument: 'Instruments',
+  vocal: 'Vocal parts',
+  tech: 'Tech roles',
+};
+
+const PROFICIENCY_LABELS: Record<SkillProficiency, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+};
+
+// Value of the church select for members serving at any church
+const ANY_CHURCH = 'any';
+
+export function SkillsCatalog({ members }: SkillsCatalogProps) {
+  const [skills, setSkills] = useState<Skill[]>([]);
+  const [memberSkills, setMemberSkills] = useState<MemberSkillItem[]>([]);
+  const [churches, setChurches] = useState<Church[]>([]);
+  const [skillName, setSkillName] = useState('');
+  const [skillCategory, setSkillCategory] = useState<SkillCategory>('instrument');
+  const [memberId, setMemberId] = useState('');
+  const [skillId, setSkillId] = useState('');
+  const [proficiency, setProficiency] = useState<SkillProficiency>('intermediate');
+  const [churchId, setChurchId] = useState(ANY_CHURCH);
+  const [saving, setSaving] = useState(false);
+  const { organizationId, canAssignRoles } = useWorshipAuth();
+  const { toast } = useToast();
+
+  const getName = (userId: string) => {
+    const member = members.find(other => other.userId === userId);
+
+    return member ? [member.firstName, member.lastName].filter(Boolean).join(' ') || member.emailAddress : 'Former member';
+  };
+
+  const loadCatalog = useCallback(async () => {
+    try {
+      const [skillsResult, memberSkillsResult, churchesResult] = await Promise.all([
+        fetch('/api/worship/skills').then(response => response.json()),
+        fetch('/api/worship/member-skills').then(response => response.json()),
+        fetch(`/api/worship/churches?organizationId=${organizationId}`).then(response => response.json()),
+      ]);
+
+      if (!skillsResult.success || !memberSkillsResult.success) {
+        throw new Error(skillsResult.error || memberSkillsResult.error);
+      }
+
+      setSkills(skillsResult.data);
+      setMemberSkills(memberSkillsResult.data);
+      setChurches(churchesResult.success ? churchesResult.data.filter((church: Church) => !church.deletedAt) : []);
+    } catch (error) {
+      console.error('Failed to load skills:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load the skills catalog',
+        variant: 'destructive',
+      });
+    }
+  }, [organizationId, toast]);
+
+  useEffect(() => {
+    if (organizationId) {
+      loadCatalog();
+    }
+  }, [organizationId, loadCatalog]);
+
+  const request = async (url: string, init: RequestInit, failure: string) => {
+    const response = await fetch(url, init);
+    const result = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error || failure);
+    }
+
+    return result;
+  };
+
+  const showError = (error: unknown, failure: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : failure,
+      variant: 'destructive',
+    });
+  };
+
+  const handleAddSkill = async () => {
+    setSaving(true);
+    try {
+      const result = await request('/api/worship/skills', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: skillName, category: skillCategory }),
+      }, 'Failed to create skill');
+
+      setSkills(current => [...current, result.data]);
+      setSkillName('');
+    } catch (error) {
+      console.error('Failed to create skill:', error);
+      showError(error, 'Failed to create skill');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteSkill = async (skill: Skill) => {
+    try {
+      await request(`/api/worship/skills/${skill.id}`, { method: 'DELETE' }, 'Failed to delete skill');
+
+      setSkills(current => current.filter(other => other.id !== skill.id));
+      setMemberSkills(current => current.filter(item => item.skill.id !== skill.id));
+    } catch (error) {
+      console.error('Failed to delete skill:', error);
+      showError(error, 'Failed to delete skill');
+    }
+  };
+
+  const handleSaveMemberSkill = async () => {
+    setSaving(true);
+    try {
+      const result = await request('/api/worship/member-skills', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          userId: memberId,
+          skillId: Number(skillId),
+          proficiency,
+          churchId: churchId === ANY_CHURCH ? null : Number(churchId),
+        }),
+      }, 'Failed to save member skill');
+      const skill = skills.find(other => other.id === result.data.skillId)!;
+
+      setMemberSkills(current => [
+        ...current.filter(item => item.memberSkill.id !== result.data.id),
+        { memberSkill: result.data, skill },
+      ]);
+      setSkillId('');
+    } catch (error) {
+      console.error('Failed to save member skill:', error);
+      showError(error, 'Failed to save member skill');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveMemberSkill = async (memberSkillId: number) => {
+    try {
+      await request(`/api/worship/member-skills/${memberSkillId}`, { method: 'DELETE' }, 'Failed to remove member skill');
+
+      setMemberSkills(current => current.filter(item => item.memberSkill.id !== memberSkillId));
+    } catch (error) {
+      console.error('Failed to delete member skill:', error);
+      showError(error, 'Failed to remove member skill');
+    }
+  };
+
+  const getChurchName = (id: number | null) =>
+    id === null ? 'Any church' : churches.find(church => church.id === id)?.name ?? 'Former church';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Guitar className="size-5" />
+          Skills
+        </CardTitle>
+        <CardDescription>
+          Instruments, vocal parts and tech roles of your members, used to find who can fill a slot in a program
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Catalog */}
+        <div className="space-y-3">
+          {(Object.keys(CATEGORY_LABELS) as SkillCategory[]).map(category => (
+            <div key={category} className="space-y-1">
+              <Label>{CATEGORY_LABELS[category]}</Label>
+              <div className="flex flex-wrap gap-2">
+                {skills.filter(skill => skill.category === category).map(skill => (
+                  <Badge key={skill.id} variant="secondary" className="gap-1" data-testid="catalog-skill">
+                    {skill.name}
+                    {canAssignRoles && (
+                      <button type="button" onClick={() => handleDeleteSkill(skill)} aria-label={`Delete ${skill.name}`}>
+                        <X className="size-3" />
+                      </button>
+                    )}
+                  </Badge>
+                ))}
+                {!skills.some(skill => skill.category === category) && (
+                  <span className="text-sm text-muted-foreground">None yet</span>
+                )}
+              </div>
+            </div>
+          ))}
+          {canAssignRoles && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                className="w-48"
+                value={skillName}
+                onChange={e => setSkillName(e.target.value)}
+                placeholder="Skill, e.g. bass"
+                aria-label="Skill name"
+              />
+              <Select value={skillCategory} onValueChange={value => setSkillCategory(value as SkillCategory)}>
+                <SelectTrigger className="w-40" aria-label="Skill category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CATEGORY_LABELS) as SkillCategory[]).map(category => (
+                    <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={handleAddSkill} disabled={saving || !skillName.trim()}>
+                <Plus className="mr-2 size-4" />
+                Add Skill
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Member skills */}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Member</TableHead>
+              <TableHead>Skill</TableHead>
+              <TableHead>Proficiency</TableHead>
+              <TableHead>Church</TableHead>
+              <TableHead className="w-[50px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {memberSkills.map(item => (
+              <TableRow key={item.memberSkill.id} data-testid="member-skill">
+                <TableCell className="font-medium">{getName(item.memberSkill.userId)}</TableCell>
+                <TableCell>{item.skill.name}</TableCell>
+                <TableCell>{PROFICIENCY_LABELS[item.memberSkill.proficiency]}</TableCell>
+                <TableCell>{getChurchName(item.memberSkill.churchId)}</TableCell>
+                <TableCell>
+                  {canAssignRoles && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemoveMemberSkill(item.memberSkill.id)}
+                      aria-label={`Remove ${item.skill.name} from ${getName(item.memberSkill.userId)}`}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+            {memberSkills.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="py-8 text-center text-muted-foreground">
+                  No member skills recorded
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        {canAssignRoles && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={memberId} onValueChange={setMemberId}>
+              <SelectTrigger className="w-48" aria-label="Member">
+                <SelectValue placeholder="Select a member..." />
+              </SelectTrigger>
+              <SelectContent>
+                {members.map(member => (
+                  <SelectItem key={member.userId} value={member.userId}>{getName(member.userId)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={skillId} onValueChange={setSkillId}>
+              <SelectTrigger className="w-40" aria-label="Skill">
+                <SelectValue placeholder="Select a skill..." />
+              </SelectTrigger>
+              <SelectContent>
+                {skills.map(skill => (
+                  <SelectItem key={skill.id} value={String(skill.id)}>{skill.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={proficiency} onValueChange={value => setProficiency(value as SkillProficiency)}>
+              <SelectTrigger className="w-36" aria-label="Proficiency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PROFICIENCY_LABELS) as SkillProficiency[]).map(level => (
+                  <SelectItem key={level} value={level}>{PROFICIENCY_LABELS[level]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={churchId} onValueChange={setChurchId}>
+              <SelectTrigger className="w-40" aria-label="Church">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_CHURCH}>Any church</SelectItem>
+                {churches.map(church => (
+                  <SelectItem key={church.id} value={String(church.id)}>{church.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleSaveMemberSkill} disabled={saving || !memberId || !skillId}>
+              <Plus className="mr-2 size-4" />
+              Save Member Skill
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
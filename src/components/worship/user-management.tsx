@@ -38,6 +38,7 @@ import type { ExtendedWorshipRole } from '@/lib/worship-role-utils';
 import type { OrganizationMember } from '@/lib/worship-user-management';
 
 import { InviteUserDialog } from './invite-user-dialog';
+import { SkillsCatalog } from './skills-catalog';
 import { UpdateRoleDialog } from './update-role-dialog';
 
 type UserManagementProps = {
@@ -352,6 +353,9 @@ export function UserManagement({
         </Card>
       )}
 
+      {/* Skills */}
+      <SkillsCatalog members={activeMembers} />
+
       {/* Dialogs */}
       <InviteUserDialog
         open={inviteDialogOpen}
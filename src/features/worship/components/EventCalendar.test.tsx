@@ -0,0 +1,138 @@
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { EventCalendar } from './EventCalendar';
+
+const mockAuth = vi.hoisted(() => ({
+  canCreateEvent: true,
+  organizationId: 'org_123',
+}));
+
+const mockToast = vi.hoisted(() => vi.fn());
+
+vi.mock('@/hooks/use-worship-auth', () => ({
+  useWorshipAuth: () => mockAuth,
+}));
+
+vi.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({
+    toast: mockToast,
+  }),
+}));
+
+// The form has its own dialog and selects; only check that it opens for the clicked day
+vi.mock('./EventFormDialog', () => ({
+  EventFormDialog: ({ open, date }: any) => (open ? <div data-testid="event-form">{date}</div> : null),
+}));
+
+globalThis.fetch = vi.fn();
+
+const calendarEvents = [
+  {
+    id: 1,
+    title: 'Sunday Worship',
+    start: '2025-03-09T14:00:00.000Z',
+    end: '2025-03-09T15:30:00.000Z',
+    allDay: false,
+    color: '#10B981',
+    icon: 'music',
+    eventType: 'recurring',
+    occurrenceDate: '2025-03-09',
+    ministry: { id: 2, name: 'Worship', color: '#10B981', icon: 'music' },
+    service: { id: 3, name: 'Sunday Service' },
+    church: { id: 1, name: 'Grace Church', timezone: 'America/Toronto' },
+    isCompleted: false,
+  },
+  {
+    id: 2,
+    title: 'Youth Night',
+    start: '2025-03-14T23:00:00.000Z',
+    end: '2025-03-15T01:00:00.000Z',
+    allDay: false,
+    color: '#F59E0B',
+    icon: 'gamepad-2',
+    eventType: 'one_time',
+    occurrenceDate: '2025-03-14',
+    ministry: { id: 5, name: 'Youth', color: '#F59E0B', icon: 'gamepad-2' },
+    service: { id: 4, name: 'Youth Service' },
+    church: { id: 1, name: 'Grace Church', timezone: 'America/Toronto' },
+    isCompleted: true,
+  },
+];
+
+const jsonResponse = (data: unknown) => Promise.resolve({ json: () => Promise.resolve({ success: true, data }) });
+
+describe('EventCalendar', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth.canCreateEvent = true;
+
+    vi.mocked(fetch).mockImplementation((input: any) => {
+      const url = input.toString();
+      if (url.startsWith('/api/worship/events/calendar')) {
+        return jsonResponse(calendarEvents) as any;
+      }
+      return jsonResponse([]) as any;
+    });
+  });
+
+  it('renders events on their day with ministry colors', async () => {
+    render(<EventCalendar initialDate={new Date(2025, 2, 10)} />);
+
+    const sundayCell = await screen.findByTestId('calendar-day-2025-03-09');
+    const chip = await within(sundayCell).findByText('Sunday Worship');
+
+    expect(chip.closest('button')).toHaveStyle({ borderLeftColor: '#10B981' });
+    expect(within(sundayCell).getByLabelText('Recurring event')).toBeInTheDocument();
+    expect(within(screen.getByTestId('calendar-day-2025-03-14')).getByText('Youth Night')).toBeInTheDocument();
+  });
+
+  it('requests the visible range with the selected filters', async () => {
+    render(<EventCalendar initialDate={new Date(2025, 2, 10)} />);
+
+    await waitFor(() => {
+      expect(fetch).toHaveBeenCalledWith(expect.stringContaining('/api/worship/events/calendar?startDate='));
+    });
+
+    fireEvent.click(screen.getByRole('switch'));
+
+    await waitFor(() => {
+      expect(fetch).toHaveBeenCalledWith(expect.stringContaining('isCompleted=false'));
+    });
+  });
+
+  it('filters events by type', async () => {
+    render(<EventCalendar initialDate={new Date(2025, 2, 10)} />);
+
+    await screen.findByText('Sunday Worship');
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Recurring' }));
+
+    expect(screen.queryByText('Sunday Worship')).not.toBeInTheDocument();
+    expect(screen.getByText('Youth Night')).toBeInTheDocument();
+  });
+
+  it('opens the event form when a day is clicked by someone who can create events', async () => {
+    render(<EventCalendar initialDate={new Date(2025, 2, 10)} />);
+
+    fireEvent.click(await screen.findByTestId('calendar-day-2025-03-20'));
+
+    expect(screen.getByTestId('event-form')).toHaveTextContent('2025-03-20');
+  });
+
+  it('does not open the event form without canCreateEvent', async () => {
+    mockAuth.canCreateEvent = false;
+    render(<EventCalendar initialDate={new Date(2025, 2, 10)} />);
+
+    fireEvent.click(await screen.findByTestId('calendar-day-2025-03-20'));
+
+    expect(screen.queryByTestId('event-form')).not.toBeInTheDocument();
+  });
+
+  it('lists only days with events in the agenda view', async () => {
+    render(<EventCalendar initialDate={new Date(2025, 2, 8)} initialView="agenda" />);
+
+    expect(await screen.findByText('Sunday Worship')).toBeInTheDocument();
+    expect(screen.queryByTestId('calendar-day-2025-03-10')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,485 @@
+'use client';
+
+import { ChevronLeft, ChevronRight, Church, Layers, Plus, Repeat, Upload } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import type { CalendarEvent, CalendarFilters, EventType } from '@/features/worship/types';
+import { useToast } from '@/hooks/use-toast';
+import { useWorshipAuth } from '@/hooks/use-worship-auth';
+import { MINISTRY_ICONS } from '@/lib/ministry-icons';
+import { formatInTimeZone } from '@/utils/TimeZone';
+
+import type { EventFormChurch, EventFormMinistry } from './EventFormDialog';
+import { EventFormDialog } from './EventFormDialog';
+import { EventImportDialog } from './EventImportDialog';
+
+type CalendarView = 'month' | 'week' | 'agenda';
+
+type CalendarMinistry = {
+  icon: string;
+} & EventFormMinistry;
+
+type EventCalendarProps = {
+  initialDate?: Date;
+  initialView?: CalendarView;
+  onEventClick?: (event: CalendarEvent) => void;
+};
+
+const AGENDA_DAYS = 30;
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const EVENT_TYPE_LABELS: Record<EventType, string> = {
+  one_time: 'One-time',
+  recurring: 'Recurring',
+  series: 'Series',
+};
+
+const ALL_EVENT_TYPES = Object.keys(EVENT_TYPE_LABELS) as EventType[];
+
+// Calendar days are handled as local midnights and matched to events by YYYY-MM-DD keys
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const startOfWeek = (date: Date) => addDays(date, -date.getDay());
+
+const getVisibleDays = (view: CalendarView, cursor: Date): Date[] => {
+  const first = view === 'month'
+    ? startOfWeek(new Date(cursor.getFullYear(), cursor.getMonth(), 1))
+    : view === 'week'
+      ? startOfWeek(cursor)
+      : addDays(cursor, 0);
+  const count = view === 'month' ? 42 : view === 'week' ? 7 : AGENDA_DAYS;
+
+  return Array.from({ length: count }, (_, index) => addDays(first, index));
+};
+
+const getIconComponent = (iconName: string) =>
+  MINISTRY_ICONS.find(icon => icon.value === iconName)?.icon ?? Church;
+
+// Times are shown in the church's time zone, whatever the zone of the viewer
+const formatTime = (event: CalendarEvent) =>
+  formatInTimeZone(event.start, event.church.timezone, { hour: 'numeric', minute: '2-digit' });
+
+function CalendarEventChip({ event, compact, onClick }: {
+  event: CalendarEvent;
+  compact?: boolean;
+  onClick?: (event: CalendarEvent) => void;
+}) {
+  const Icon = getIconComponent(event.icon);
+
+  return (
+    <button
+      type="button"
+      data-testid="calendar-event"
+      className={`flex w-full items-center gap-1 truncate rounded border-l-4 px-1 py-0.5 text-left text-xs ${event.isCompleted ? 'opacity-60' : ''}`}
+      style={{ borderLeftColor: event.color, backgroundColor: `${event.color}1A` }}
+      title={`${event.title} - ${event.ministry.name} (${event.church.name}), ${formatInTimeZone(event.start, event.church.timezone)}`}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick?.(event);
+      }}
+    >
+      <Icon className="size-3 shrink-0" style={{ color: event.color }} />
+      <span className="shrink-0 font-medium">{formatTime(event)}</span>
+      <span className={`truncate ${event.isCompleted ? 'line-through' : ''}`}>{event.title}</span>
+      {event.eventType === 'recurring' && (
+        <Repeat className="size-3 shrink-0 text-muted-foreground" aria-label="Recurring event" />
+      )}
+      {event.eventType === 'series' && (
+        <Layers className="size-3 shrink-0 text-muted-foreground" aria-label="Series event" />
+      )}
+      {!compact && event.exceptionType === 'rescheduled' && (
+        <Badge variant="outline" className="ml-auto text-[10px]">Moved</Badge>
+      )}
+    </button>
+  );
+}
+
+export function EventCalendar({
+  initialDate,
+  initialView = 'month',
+  onEventClick,
+}: EventCalendarProps) {
+  const [view, setView] = useState<CalendarView>(initialView);
+  const [cursor, setCursor] = useState(() => initialDate ?? new Date());
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [churches, setChurches] = useState<EventFormChurch[]>([]);
+  const [ministries, setMinistries] = useState<CalendarMinistry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [filters, setFilters] = useState<CalendarFilters>({
+    eventTypes: ALL_EVENT_TYPES,
+    showCompleted: true,
+  });
+  const [createDate, setCreateDate] = useState<string | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const { canCreateEvent, organizationId } = useWorshipAuth();
+  const { toast } = useToast();
+
+  const days = useMemo(() => getVisibleDays(view, cursor), [view, cursor]);
+
+  // Load churches and ministries for the filters and the event form
+  useEffect(() => {
+    if (!organizationId) {
+      return;
+    }
+
+    const loadOrganization = async () => {
+      try {
+        const [churchesResponse, ministriesResponse] = await Promise.all([
+          fetch(`/api/worship/churches?organizationId=${organizationId}`),
+          fetch(`/api/worship/ministries?organizationId=${organizationId}`),
+        ]);
+        const [churchesResult, ministriesResult] = await Promise.all([
+          churchesResponse.json(),
+          ministriesResponse.json(),
+        ]);
+
+        if (churchesResult.success) {
+          setChurches(churchesResult.data);
+        }
+        if (ministriesResult.success) {
+          setMinistries(ministriesResult.data);
+        }
+      } catch (error) {
+        console.error('Failed to load churches and ministries:', error);
+      }
+    };
+
+    loadOrganization();
+  }, [organizationId]);
+
+  const loadEvents = useCallback(async () => {
+    const firstDay = days[0]!;
+    const lastDay = days[days.length - 1]!;
+
+    // A day of margin on both sides covers churches in other time zones
+    const params = new URLSearchParams({
+      startDate: addDays(firstDay, -1).toISOString(),
+      endDate: addDays(lastDay, 2).toISOString(),
+    });
+    if (filters.churchIds?.length) {
+      params.set('churchIds', filters.churchIds.join(','));
+    }
+    if (filters.ministryIds?.length) {
+      params.set('ministryIds', filters.ministryIds.join(','));
+    }
+    if (!filters.showCompleted) {
+      params.set('isCompleted', 'false');
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/worship/events/calendar?${params}`);
+      const result = await response.json();
+
+      if (result.success) {
+        setEvents(result.data.map((event: CalendarEvent) => ({
+          ...event,
+          start: new Date(event.start),
+          end: new Date(event.end),
+        })));
+      } else {
+        toast({
+          title: 'Error',
+          description: result.error || 'Failed to load events',
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load events:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load events',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [days, filters.churchIds, filters.ministryIds, filters.showCompleted, toast]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const eventsByDay = useMemo(() => {
+    const grouped = new Map<string, CalendarEvent[]>();
+
+    for (const event of events) {
+      if (!filters.eventTypes?.includes(event.eventType)) {
+        continue;
+      }
+      const list = grouped.get(event.occurrenceDate) ?? [];
+      list.push(event);
+      grouped.set(event.occurrenceDate, list);
+    }
+
+    return grouped;
+  }, [events, filters.eventTypes]);
+
+  const visibleMinistries = filters.churchIds?.length
+    ? ministries.filter(ministry => filters.churchIds!.includes(ministry.church.id))
+    : ministries;
+
+  const navigate = (direction: -1 | 0 | 1) => {
+    if (direction === 0) {
+      setCursor(new Date());
+    } else if (view === 'month') {
+      setCursor(new Date(cursor.getFullYear(), cursor.getMonth() + direction, 1));
+    } else {
+      setCursor(addDays(cursor, direction * (view === 'week' ? 7 : AGENDA_DAYS)));
+    }
+  };
+
+  const getTitle = () => {
+    if (view === 'month') {
+      return cursor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+    }
+
+    const first = days[0]!.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+    const last = days[days.length - 1]!.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+    return `${first} – ${last}`;
+  };
+
+  const handleDayClick = (day: Date) => {
+    if (canCreateEvent) {
+      setCreateDate(toDateKey(day));
+    }
+  };
+
+  const toggleEventType = (eventType: EventType, checked: boolean) => {
+    setFilters(prev => ({
+      ...prev,
+      eventTypes: checked
+        ? [...(prev.eventTypes ?? []), eventType]
+        : (prev.eventTypes ?? []).filter(type => type !== eventType),
+    }));
+  };
+
+  const todayKey = toDateKey(new Date());
+
+  const renderDayCell = (day: Date, minHeight: string) => {
+    const key = toDateKey(day);
+    const dayEvents = eventsByDay.get(key) ?? [];
+    const outsideMonth = view === 'month' && day.getMonth() !== cursor.getMonth();
+
+    return (
+      <div
+        key={key}
+        data-testid={`calendar-day-${key}`}
+        className={`group border-b border-r p-1 ${minHeight} ${outsideMonth ? 'bg-muted/40 text-muted-foreground' : ''} ${canCreateEvent ? 'cursor-pointer hover:bg-muted/60' : ''}`}
+        role="button"
+        tabIndex={canCreateEvent ? 0 : -1}
+        aria-disabled={!canCreateEvent}
+        onClick={() => handleDayClick(day)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            handleDayClick(day);
+          }
+        }}
+      >
+        <div className="mb-1 flex items-center justify-between">
+          <span className={`text-xs ${key === todayKey ? 'rounded-full bg-primary px-1.5 text-primary-foreground' : ''}`}>
+            {day.getDate()}
+          </span>
+          {canCreateEvent && (
+            <Plus className="size-3 text-muted-foreground opacity-0 group-hover:opacity-100" />
+          )}
+        </div>
+        <div className="space-y-1">
+          {dayEvents.map(event => (
+            <CalendarEventChip
+              key={`${event.id}-${event.occurrenceDate}`}
+              event={event}
+              compact={view === 'month'}
+              onClick={onEventClick}
+            />
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderAgenda = () => {
+    const agendaDays = days.filter(day => eventsByDay.has(toDateKey(day)));
+
+    if (agendaDays.length === 0) {
+      return (
+        <p className="py-8 text-center text-muted-foreground">
+          No events scheduled in this period
+        </p>
+      );
+    }
+
+    return (
+      <div className="divide-y">
+        {agendaDays.map(day => (
+          <div key={toDateKey(day)} className="flex gap-4 py-3">
+            <div className="w-28 shrink-0 text-sm font-medium">
+              {day.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+            </div>
+            <div className="flex-1 space-y-1">
+              {eventsByDay.get(toDateKey(day))!.map(event => (
+                <CalendarEventChip
+                  key={`${event.id}-${event.occurrenceDate}`}
+                  event={event}
+                  onClick={onEventClick}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => navigate(-1)} aria-label="Previous">
+              <ChevronLeft className="size-4" />
+            </Button>
+            <Button variant="outline" onClick={() => navigate(0)}>
+              Today
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => navigate(1)} aria-label="Next">
+              <ChevronRight className="size-4" />
+            </Button>
+            <CardTitle className="ml-2 text-xl">{getTitle()}</CardTitle>
+          </div>
+          <div className="flex items-center gap-2">
+            {canCreateEvent && (
+              <Button variant="outline" onClick={() => setImportOpen(true)}>
+                <Upload className="mr-2 size-4" />
+                Import
+              </Button>
+            )}
+            <Tabs value={view} onValueChange={value => setView(value as CalendarView)}>
+              <TabsList>
+                <TabsTrigger value="month">Month</TabsTrigger>
+                <TabsTrigger value="week">Week</TabsTrigger>
+                <TabsTrigger value="agenda">Agenda</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-4">
+          <Select
+            value={filters.churchIds?.[0]?.toString() ?? 'all'}
+            onValueChange={value => setFilters(prev => ({
+              ...prev,
+              churchIds: value === 'all' ? undefined : [Number(value)],
+              ministryIds: undefined,
+            }))}
+          >
+            <SelectTrigger className="w-48" aria-label="Church">
+              <SelectValue placeholder="All churches" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All churches</SelectItem>
+              {churches.map(church => (
+                <SelectItem key={church.id} value={church.id.toString()}>
+                  {church.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={filters.ministryIds?.[0]?.toString() ?? 'all'}
+            onValueChange={value => setFilters(prev => ({
+              ...prev,
+              ministryIds: value === 'all' ? undefined : [Number(value)],
+            }))}
+          >
+            <SelectTrigger className="w-48" aria-label="Ministry">
+              <SelectValue placeholder="All ministries" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All ministries</SelectItem>
+              {visibleMinistries.map(ministry => (
+                <SelectItem key={ministry.id} value={ministry.id.toString()}>
+                  <div className="flex items-center gap-2">
+                    <div className="size-3 rounded-full" style={{ backgroundColor: ministry.color }} />
+                    {ministry.name}
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {ALL_EVENT_TYPES.map(eventType => (
+            <div key={eventType} className="flex items-center gap-2">
+              <Checkbox
+                id={`event-type-${eventType}`}
+                checked={filters.eventTypes?.includes(eventType)}
+                onCheckedChange={checked => toggleEventType(eventType, checked === true)}
+              />
+              <Label htmlFor={`event-type-${eventType}`}>{EVENT_TYPE_LABELS[eventType]}</Label>
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="show-completed"
+              checked={filters.showCompleted}
+              onCheckedChange={checked => setFilters(prev => ({ ...prev, showCompleted: checked }))}
+            />
+            <Label htmlFor="show-completed">Show completed</Label>
+          </div>
+
+          {loading && <span className="text-sm text-muted-foreground">Loading events...</span>}
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {view === 'agenda'
+          ? renderAgenda()
+          : (
+              <div className="border-l border-t">
+                <div className="grid grid-cols-7">
+                  {WEEKDAY_LABELS.map(label => (
+                    <div key={label} className="border-b border-r p-1 text-center text-xs font-medium text-muted-foreground">
+                      {label}
+                    </div>
+                  ))}
+                  {days.map(day => renderDayCell(day, view === 'month' ? 'min-h-24' : 'min-h-64'))}
+                </div>
+              </div>
+            )}
+      </CardContent>
+
+      <EventFormDialog
+        open={createDate !== null}
+        onOpenChange={open => !open && setCreateDate(null)}
+        date={createDate}
+        ministries={ministries}
+        churches={churches}
+        onCreated={loadEvents}
+      />
+
+      <EventImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        ministries={ministries}
+        onImported={loadEvents}
+      />
+    </Card>
+  );
+}
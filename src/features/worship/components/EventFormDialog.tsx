@@ -0,0 +1,424 @@
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import type { EventConflict, EventPattern, EventType } from '@/features/worship/types';
+import { useToast } from '@/hooks/use-toast';
+import { formatInTimeZone, zonedTimeToUtc } from '@/utils/TimeZone';
+
+export type EventFormMinistry = {
+  id: number;
+  name: string;
+  color: string;
+  church: {
+    id: number;
+    name: string;
+  };
+};
+
+export type EventFormChurch = {
+  id: number;
+  name: string;
+  timezone: string | null;
+};
+
+type Service = {
+  id: number;
+  name: string;
+  defaultDuration: number;
+};
+
+type EventFormDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  date: string | null; // Day the event is created on (YYYY-MM-DD)
+  ministries: EventFormMinistry[];
+  churches: EventFormChurch[];
+  onCreated?: () => void;
+};
+
+const EVENT_TYPE_OPTIONS: { value: EventType; label: string }[] = [
+  { value: 'one_time', label: 'One-time' },
+  { value: 'recurring', label: 'Recurring' },
+  { value: 'series', label: 'Part of a series' },
+];
+
+const PATTERN_OPTIONS: { value: EventPattern; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+const INITIAL_FORM = {
+  ministryId: '',
+  serviceId: '',
+  title: '',
+  description: '',
+  time: '10:00',
+  duration: '',
+  eventType: 'one_time' as EventType,
+  recurringPattern: 'weekly' as EventPattern,
+};
+
+export function EventFormDialog({ open, onOpenChange, date, ministries, churches, onCreated }: EventFormDialogProps) {
+  const [formData, setFormData] = useState(INITIAL_FORM);
+  const [services, setServices] = useState<Service[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [conflicts, setConflicts] = useState<EventConflict[]>([]);
+  const [canOverride, setCanOverride] = useState(false);
+  const { toast } = useToast();
+
+  // Start from a clean form every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setFormData(INITIAL_FORM);
+      setServices([]);
+      setConflicts([]);
+      setCanOverride(false);
+    }
+  }, [open]);
+
+  // Conflicts only apply to the values they were checked with
+  useEffect(() => {
+    setConflicts([]);
+    setCanOverride(false);
+  }, [formData]);
+
+  // Load the services of the selected ministry
+  useEffect(() => {
+    if (!formData.ministryId) {
+      return;
+    }
+
+    const loadServices = async () => {
+      try {
+        const response = await fetch(`/api/worship/services?ministryId=${formData.ministryId}`);
+        const result = await response.json();
+
+        if (result.success) {
+          setServices(result.data);
+        } else {
+          toast({
+            title: 'Error',
+            description: result.error || 'Failed to load services',
+            variant: 'destructive',
+          });
+        }
+      } catch (error) {
+        console.error('Failed to load services:', error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load services',
+          variant: 'destructive',
+        });
+      }
+    };
+
+    loadServices();
+  }, [formData.ministryId, toast]);
+
+  const handleServiceChange = (serviceId: string) => {
+    const service = services.find(s => s.id.toString() === serviceId);
+
+    setFormData(prev => ({
+      ...prev,
+      serviceId,
+      title: prev.title || service?.name || '',
+      duration: prev.duration || service?.defaultDuration?.toString() || '',
+    }));
+  };
+
+  const ministry = ministries.find(m => m.id.toString() === formData.ministryId);
+  const timeZone = churches.find(c => c.id === ministry?.church.id)?.timezone || 'UTC';
+
+  // Interpret the chosen day and time in the church's time zone
+  const getEventDate = (): Date | null => {
+    const [year, month, day] = (date ?? '').split('-').map(Number);
+    const [hour, minute] = formData.time.split(':').map(Number);
+
+    if (!year || !month || !day || hour === undefined || minute === undefined) {
+      return null;
+    }
+
+    return zonedTimeToUtc({ year, month, day, hour, minute }, timeZone);
+  };
+
+  const handleSubmit = async (allowConflicts = false) => {
+    const eventDate = getEventDate();
+
+    if (!formData.serviceId || !formData.title.trim() || !eventDate) {
+      toast({
+        title: 'Error',
+        description: 'Service, title and time are required',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/worship/events', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          serviceId: Number(formData.serviceId),
+          title: formData.title,
+          description: formData.description || undefined,
+          eventDate: eventDate.toISOString(),
+          duration: formData.duration ? Number(formData.duration) : undefined,
+          eventType: formData.eventType,
+          ...(formData.eventType === 'recurring' && {
+            recurringPattern: formData.recurringPattern,
+            recurringConfig: { frequency: 1 },
+          }),
+          allowConflicts,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        toast({
+          title: 'Success',
+          description: result.warnings?.length
+            ? `Event created despite ${result.warnings.length} overlapping events`
+            : 'Event created successfully',
+        });
+        onOpenChange(false);
+        onCreated?.();
+      } else if (response.status === 402 && result.code === 'LIMIT_EXCEEDED') {
+        toast({
+          title: 'Subscription Limit Reached',
+          description: result.upgrade
+            ? `${result.message} Upgrade to ${result.upgrade.suggestedTier} for ${result.upgrade.feature}.`
+            : result.message,
+          variant: 'destructive',
+        });
+      } else if (result.conflicts) {
+        // Keep the form open so the leader can adjust the time or confirm the overlap
+        setConflicts(result.conflicts);
+        setCanOverride(result.requiresConfirmation === true);
+      } else {
+        toast({
+          title: 'Error',
+          description: result.error || 'Failed to create event',
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      console.error('Failed to create event:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to create event',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Create Event</DialogTitle>
+          <DialogDescription>
+            {date ? `Schedule an event on ${date}` : 'Schedule a new event'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="event-ministry">Ministry *</Label>
+            <Select
+              value={formData.ministryId}
+              onValueChange={value => setFormData(prev => ({ ...prev, ministryId: value, serviceId: '' }))}
+            >
+              <SelectTrigger id="event-ministry">
+                <SelectValue placeholder="Select a ministry..." />
+              </SelectTrigger>
+              <SelectContent>
+                {ministries.map(ministry => (
+                  <SelectItem key={ministry.id} value={ministry.id.toString()}>
+                    <div className="flex items-center gap-2">
+                      <div className="size-3 rounded-full" style={{ backgroundColor: ministry.color }} />
+                      {ministry.name}
+                      <span className="text-muted-foreground">
+                        (
+                        {ministry.church.name}
+                        )
+                      </span>
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="event-service">Service *</Label>
+            <Select value={formData.serviceId} onValueChange={handleServiceChange} disabled={!formData.ministryId}>
+              <SelectTrigger id="event-service">
+                <SelectValue placeholder="Select a service..." />
+              </SelectTrigger>
+              <SelectContent>
+                {services.map(service => (
+                  <SelectItem key={service.id} value={service.id.toString()}>
+                    {service.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="event-title">Title *</Label>
+            <Input
+              id="event-title"
+              value={formData.title}
+              onChange={e => setFormData(prev => ({ ...prev, title: e.target.value }))}
+              placeholder="e.g., Sunday Morning Worship"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="event-time">
+                Start Time *
+                {ministry && <span className="ml-1 font-normal text-muted-foreground">{`(${timeZone})`}</span>}
+              </Label>
+              <Input
+                id="event-time"
+                type="time"
+                value={formData.time}
+                onChange={e => setFormData(prev => ({ ...prev, time: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="event-duration">Duration (minutes)</Label>
+              <Input
+                id="event-duration"
+                type="number"
+                min="5"
+                max="1440"
+                value={formData.duration}
+                onChange={e => setFormData(prev => ({ ...prev, duration: e.target.value }))}
+                placeholder="90"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="event-type">Event Type</Label>
+              <Select
+                value={formData.eventType}
+                onValueChange={value => setFormData(prev => ({ ...prev, eventType: value as EventType }))}
+              >
+                <SelectTrigger id="event-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EVENT_TYPE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {formData.eventType === 'recurring' && (
+              <div>
+                <Label htmlFor="event-pattern">Repeats</Label>
+                <Select
+                  value={formData.recurringPattern}
+                  onValueChange={value => setFormData(prev => ({ ...prev, recurringPattern: value as EventPattern }))}
+                >
+                  <SelectTrigger id="event-pattern">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PATTERN_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="event-description">Description</Label>
+            <Textarea
+              id="event-description"
+              value={formData.description}
+              onChange={e => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              placeholder="Optional description..."
+              rows={3}
+            />
+          </div>
+
+          {conflicts.length > 0 && (
+            <div
+              role="alert"
+              className={`space-y-2 rounded-md border p-3 text-sm ${canOverride ? 'border-amber-300 bg-amber-50' : 'border-destructive/50 bg-destructive/10'}`}
+            >
+              <div className="flex items-center gap-2 font-medium">
+                <AlertTriangle className="size-4" />
+                {canOverride
+                  ? 'This event overlaps other events of the church'
+                  : 'This service is already scheduled at this time'}
+              </div>
+              <ul className="space-y-1">
+                {conflicts.map(conflict => (
+                  <li key={conflict.eventId}>
+                    <span className={conflict.severity === 'error' ? 'font-medium text-destructive' : ''}>
+                      {conflict.message}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {' · '}
+                      {formatInTimeZone(conflict.occurrences[0]!.start, timeZone)}
+                      {conflict.count > 1 && ` and ${conflict.count - 1} more`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          {canOverride
+            ? (
+                <Button variant="destructive" onClick={() => handleSubmit(true)} disabled={submitting}>
+                  {submitting ? 'Creating...' : 'Create Anyway'}
+                </Button>
+              )
+            : (
+                <Button onClick={() => handleSubmit()} disabled={submitting || conflicts.length > 0}>
+                  {submitting ? 'Creating...' : 'Create Event'}
+                </Button>
+              )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
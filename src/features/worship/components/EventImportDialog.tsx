@@ -0,0 +1,317 @@
+'use client';
+
+import { Repeat } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { formatInTimeZone } from '@/utils/TimeZone';
+
+import type { EventFormMinistry } from './EventFormDialog';
+
+type Service = {
+  id: number;
+  name: string;
+};
+
+type ImportStatus = 'new' | 'duplicate' | 'unsupported';
+
+type ImportPreviewEvent = {
+  importId: number;
+  title: string;
+  eventDate: string;
+  duration: number;
+  eventType: 'one_time' | 'recurring';
+  exceptions: unknown[];
+  status: ImportStatus;
+  reason?: string;
+};
+
+type ImportPreview = {
+  timeZone: string;
+  events: ImportPreviewEvent[];
+};
+
+type EventImportDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ministries: EventFormMinistry[];
+  onImported?: () => void;
+};
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  new: 'New',
+  duplicate: 'Duplicate',
+  unsupported: 'Skipped',
+};
+
+export function EventImportDialog({ open, onOpenChange, ministries, onImported }: EventImportDialogProps) {
+  const [ministryId, setMinistryId] = useState('');
+  const [serviceId, setServiceId] = useState('');
+  const [services, setServices] = useState<Service[]>([]);
+  const [content, setContent] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [excluded, setExcluded] = useState<Set<number>>(() => new Set());
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  // Start over every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setMinistryId('');
+      setServiceId('');
+      setServices([]);
+      setContent(null);
+      setPreview(null);
+      setExcluded(new Set());
+    }
+  }, [open]);
+
+  // Load the services of the selected ministry
+  useEffect(() => {
+    if (!ministryId) {
+      return;
+    }
+
+    const loadServices = async () => {
+      try {
+        const response = await fetch(`/api/worship/services?ministryId=${ministryId}`);
+        const result = await response.json();
+
+        if (result.success) {
+          setServices(result.data);
+        }
+      } catch (error) {
+        console.error('Failed to load services:', error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load services',
+          variant: 'destructive',
+        });
+      }
+    };
+
+    loadServices();
+  }, [ministryId, toast]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    setPreview(null);
+    setContent(file ? await file.text() : null);
+  };
+
+  const postImport = async (previewOnly: boolean) => {
+    const response = await fetch('/api/worship/events/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        serviceId: Number(serviceId),
+        content,
+        preview: previewOnly,
+        excludeIds: [...excluded],
+      }),
+    });
+
+    return response.json();
+  };
+
+  const handlePreview = async () => {
+    setLoading(true);
+    try {
+      const result = await postImport(true);
+
+      if (result.success) {
+        setPreview(result.data);
+        setExcluded(new Set());
+      } else {
+        toast({
+          title: 'Error',
+          description: result.error || 'Failed to read the calendar file',
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      console.error('Failed to preview import:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to read the calendar file',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setLoading(true);
+    try {
+      const result = await postImport(false);
+
+      if (result.success) {
+        toast({
+          title: 'Import complete',
+          description: `${result.data.imported.length} events imported, ${result.data.skipped.length} skipped`,
+        });
+        onOpenChange(false);
+        onImported?.();
+      } else {
+        toast({
+          title: 'Error',
+          description: result.error || 'Failed to import events',
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      console.error('Failed to import events:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to import events',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleExcluded = (importId: number, included: boolean) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (included) {
+        next.delete(importId);
+      } else {
+        next.add(importId);
+      }
+      return next;
+    });
+  };
+
+  const formatDate = (date: string) => formatInTimeZone(date, preview?.timeZone);
+
+  const importCount = preview?.events.filter(event => event.status === 'new' && !excluded.has(event.importId)).length ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Events</DialogTitle>
+          <DialogDescription>
+            Import events from an .ics file exported by another calendar
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="import-ministry">Ministry *</Label>
+              <Select
+                value={ministryId}
+                onValueChange={(value) => {
+                  setMinistryId(value);
+                  setServiceId('');
+                  setPreview(null);
+                }}
+              >
+                <SelectTrigger id="import-ministry">
+                  <SelectValue placeholder="Select a ministry..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {ministries.map(ministry => (
+                    <SelectItem key={ministry.id} value={ministry.id.toString()}>
+                      {ministry.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="import-service">Service *</Label>
+              <Select
+                value={serviceId}
+                onValueChange={(value) => {
+                  setServiceId(value);
+                  setPreview(null);
+                }}
+                disabled={!ministryId}
+              >
+                <SelectTrigger id="import-service">
+                  <SelectValue placeholder="Select a service..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {services.map(service => (
+                    <SelectItem key={service.id} value={service.id.toString()}>
+                      {service.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="import-file">Calendar file *</Label>
+            <Input id="import-file" type="file" accept=".ics,text/calendar" onChange={handleFileChange} />
+          </div>
+
+          {preview && (
+            <div className="max-h-80 space-y-2 overflow-y-auto rounded-md border p-2">
+              {preview.events.map(event => (
+                <div key={event.importId} className="flex items-center gap-3 rounded p-2 text-sm hover:bg-muted/50">
+                  <Checkbox
+                    checked={event.status === 'new' && !excluded.has(event.importId)}
+                    disabled={event.status !== 'new'}
+                    onCheckedChange={checked => toggleExcluded(event.importId, checked === true)}
+                    aria-label={`Import ${event.title}`}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-1 font-medium">
+                      {event.eventType === 'recurring' && <Repeat className="size-3" aria-label="Recurring event" />}
+                      <span className="truncate">{event.title}</span>
+                    </div>
+                    <div className="text-muted-foreground">
+                      {formatDate(event.eventDate)}
+                      {' · '}
+                      {event.duration}
+                      {' min'}
+                      {event.reason && ` · ${event.reason}`}
+                    </div>
+                  </div>
+                  <Badge variant={event.status === 'new' ? 'default' : 'secondary'}>
+                    {STATUS_LABELS[event.status]}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          {preview
+            ? (
+                <Button onClick={handleImport} disabled={loading || importCount === 0}>
+                  {loading ? 'Importing...' : `Import ${importCount} events`}
+                </Button>
+              )
+            : (
+                <Button onClick={handlePreview} disabled={loading || !serviceId || !content}>
+                  {loading ? 'Reading...' : 'Preview'}
+                </Button>
+              )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -14,23 +14,9 @@ import {
   Edit, 
   Plus, 
   Church, 
-  Music, 
-  Users, 
-  Heart, 
-  BookOpen, 
-  Baby, 
-  Gamepad2,
-  GraduationCap,
-  Home,
-  Compass,
-  Globe,
-  Star,
-  Shield,
-  Zap,
-  Sun,
-  Moon,
-  Activity
+  Music
 } from 'lucide-react';
+import { MINISTRY_ICONS } from '@/lib/ministry-icons';
 import { useToast } from '@/hooks/use-toast';
 
 interface Church {
@@ -65,27 +51,6 @@ interface MinistryManagementProps {
   selectedChurchId?: string;
 }
 
-// Available icons for ministries
-const MINISTRY_ICONS = [
-  { value: 'church', label: 'Church', icon: Church },
-  { value: 'music', label: 'Music', icon: Music },
-  { value: 'users', label: 'People', icon: Users },
-  { value: 'heart', label: 'Heart', icon: Heart },
-  { value: 'book-open', label: 'Book', icon: BookOpen },
-  { value: 'baby', label: 'Children', icon: Baby },
-  { value: 'gamepad-2', label: 'Youth', icon: Gamepad2 },
-  { value: 'graduation-cap', label: 'Education', icon: GraduationCap },
-  { value: 'home', label: 'Home', icon: Home },
-  { value: 'compass', label: 'Missions', icon: Compass },
-  { value: 'globe', label: 'Global', icon: Globe },
-  { value: 'star', label: 'Star', icon: Star },
-  { value: 'shield', label: 'Shield', icon: Shield },
-  { value: 'zap', label: 'Power', icon: Zap },
-  { value: 'sun', label: 'Light', icon: Sun },
-  { value: 'moon', label: 'Evening', icon: Moon },
-  { value: 'activity', label: 'Activity', icon: Activity },
-];
-
 // Pre-defined color palette
 const MINISTRY_COLORS = [
   '#ef4444', // red-500
@@ -0,0 +1,68 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { MyAssignments } from './MyAssignments';
+
+const mockToast = vi.hoisted(() => vi.fn());
+
+vi.mock('@/hooks/use-worship-auth', () => ({
+  useWorshipAuth: () => ({ organizationId: 'org_123' }),
+}));
+
+vi.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({
+    toast: mockToast,
+  }),
+}));
+
+globalThis.fetch = vi.fn();
+
+const assignments = [
+  {
+    assignment: { id: 3, role: 'sound', notes: 'Arrive at 9', declineReason: null, status: 'pending' },
+    program: { id: 7, title: 'Easter Sunday', status: 'published', occurrenceDate: '2025-04-20' },
+    event: { id: 12, title: 'Sunday Worship', eventDate: '2025-03-02T15:00:00.000Z' },
+    church: { id: 1, name: 'Grace Church', timezone: 'America/Toronto' },
+  },
+];
+
+const jsonResponse = (data: unknown) => Promise.resolve({ json: () => Promise.resolve({ success: true, data, message: 'Assignment declined' }) });
+
+describe('MyAssignments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(fetch).mockImplementation((_input: any, init?: any) =>
+      jsonResponse(init?.method === 'PATCH' ? { id: 3, status: 'declined', declineReason: 'Away that weekend' } : assignments) as any);
+  });
+
+  it('lists assignments and declines one with a reason', async () => {
+    render(<MyAssignments />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Easter Sunday')).toBeInTheDocument();
+    });
+
+    expect(screen.getByTestId('my-assignment')).toHaveTextContent('Sunday Worship · Sun, Apr 20, 2025');
+    expect(screen.getByText('Awaiting answer')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Decline'));
+
+    expect(screen.getByText('Send')).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Reason for declining'), { target: { value: 'Away that weekend' } });
+    fireEvent.click(screen.getByText('Send'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Your reason: Away that weekend')).toBeInTheDocument();
+    });
+
+    expect(fetch).toHaveBeenCalledWith('/api/worship/assignments/3', expect.objectContaining({
+      method: 'PATCH',
+      body: JSON.stringify({ accept: false, reason: 'Away that weekend' }),
+    }));
+    expect(screen.getByText('Accept')).toBeInTheDocument();
+    expect(screen.queryByText('Decline')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,207 @@
+'use client';
+
+import { CalendarDays, Check, ClipboardList, X } from 'lucide-react';
+import React, { useCallback, useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useWorshipAuth } from '@/hooks/use-worship-auth';
+import type { AssignmentStatus, UserAssignmentItem } from '@/libs/worship/ProgramAssignments';
+import { formatInTimeZone } from '@/utils/TimeZone';
+
+// Assignment rows as returned by the assignments API
+type AssignmentItem = Omit<UserAssignmentItem, 'assignment' | 'event'> & {
+  assignment: Pick<UserAssignmentItem['assignment'], 'id' | 'role' | 'notes' | 'declineReason'> & {
+    status: AssignmentStatus;
+  };
+  event: Omit<UserAssignmentItem['event'], 'eventDate'> & {
+    eventDate: string;
+  };
+};
+
+const STATUS_LABELS: Record<AssignmentStatus, string> = {
+  pending: 'Awaiting answer',
+  accepted: 'Accepted',
+  declined: 'Declined',
+};
+
+const STATUS_VARIANTS: Record<AssignmentStatus, 'secondary' | 'default' | 'destructive'> = {
+  pending: 'secondary',
+  accepted: 'default',
+  declined: 'destructive',
+};
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' };
+
+const getProgramDate = ({ program, event, church }: AssignmentItem) =>
+  program.occurrenceDate
+    ? formatInTimeZone(`${program.occurrenceDate}T12:00:00Z`, 'UTC', DATE_FORMAT)
+    : formatInTimeZone(event.eventDate, church.timezone, DATE_FORMAT);
+
+export function MyAssignments() {
+  const [assignments, setAssignments] = useState<AssignmentItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [answering, setAnswering] = useState<number | null>(null);
+  const [decliningId, setDecliningId] = useState<number | null>(null);
+  const [reason, setReason] = useState('');
+  const { organizationId } = useWorshipAuth();
+  const { toast } = useToast();
+
+  const loadAssignments = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/worship/assignments');
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setAssignments(result.data);
+    } catch (error) {
+      console.error('Failed to load assignments:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load your assignments',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (organizationId) {
+      loadAssignments();
+    }
+  }, [organizationId, loadAssignments]);
+
+  const handleAnswer = async (assignmentId: number, accept: boolean) => {
+    setAnswering(assignmentId);
+    try {
+      const response = await fetch(`/api/worship/assignments/${assignmentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(accept ? { accept } : { accept, reason }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to answer assignment');
+      }
+
+      setAssignments(current => current.map(item => (item.assignment.id === assignmentId
+        ? { ...item, assignment: { ...item.assignment, status: result.data.status, declineReason: result.data.declineReason } }
+        : item)));
+      setDecliningId(null);
+      setReason('');
+      toast({
+        title: 'Success',
+        description: result.message,
+      });
+    } catch (error) {
+      console.error('Failed to answer assignment:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to answer assignment',
+        variant: 'destructive',
+      });
+    } finally {
+      setAnswering(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="size-5" />
+          My Assignments
+        </CardTitle>
+        <CardDescription>Roles you were given in upcoming programs. Let the team know whether you can serve.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading && <p className="text-sm text-muted-foreground">Loading assignments...</p>}
+        {!loading && assignments.length === 0 && (
+          <p className="py-6 text-center text-sm text-muted-foreground">You have no assignments in upcoming programs.</p>
+        )}
+
+        <ul className="space-y-3">
+          {assignments.map(item => (
+            <li key={item.assignment.id} className="space-y-3 rounded-lg border p-3" data-testid="my-assignment">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <p className="font-medium">{item.program.title}</p>
+                  <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                    <CalendarDays className="size-4" />
+                    {`${item.event.title} · ${getProgramDate(item)}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="capitalize">{item.assignment.role}</Badge>
+                  <Badge variant={STATUS_VARIANTS[item.assignment.status]}>{STATUS_LABELS[item.assignment.status]}</Badge>
+                </div>
+              </div>
+              {item.assignment.notes && <p className="text-sm">{item.assignment.notes}</p>}
+              {item.assignment.status === 'declined' && item.assignment.declineReason && (
+                <p className="text-sm text-muted-foreground">{`Your reason: ${item.assignment.declineReason}`}</p>
+              )}
+
+              {decliningId === item.assignment.id
+                ? (
+                    <div className="space-y-2">
+                      <Textarea
+                        aria-label="Reason for declining"
+                        value={reason}
+                        onChange={e => setReason(e.target.value)}
+                        placeholder="e.g. Away that weekend"
+                      />
+                      <div className="flex gap-2">
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => handleAnswer(item.assignment.id, false)}
+                          disabled={answering === item.assignment.id || !reason.trim()}
+                        >
+                          Send
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setDecliningId(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  )
+                : (
+                    <div className="flex gap-2">
+                      {item.assignment.status !== 'accepted' && (
+                        <Button size="sm" onClick={() => handleAnswer(item.assignment.id, true)} disabled={answering === item.assignment.id}>
+                          <Check className="mr-2 size-4" />
+                          Accept
+                        </Button>
+                      )}
+                      {item.assignment.status !== 'declined' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setDecliningId(item.assignment.id);
+                            setReason('');
+                          }}
+                          disabled={answering === item.assignment.id}
+                        >
+                          <X className="mr-2 size-4" />
+                          Decline
+                        </Button>
+                      )}
+                    </div>
+                  )}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
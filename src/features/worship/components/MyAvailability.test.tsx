@@ -0,0 +1,91 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { MyAvailability } from './MyAvailability';
+
+const mockToast = vi.hoisted(() => vi.fn());
+
+vi.mock('@/hooks/use-worship-auth', () => ({
+  useWorshipAuth: () => ({ organizationId: 'org_123' }),
+}));
+
+vi.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({
+    toast: mockToast,
+  }),
+}));
+
+globalThis.fetch = vi.fn();
+
+const availability = {
+  unavailableDays: [{ dayOfWeek: 0, weekOfMonth: 2 }, { dayOfWeek: 3, weekOfMonth: null }],
+  maxAssignmentsPerMonth: 2,
+  notes: null,
+  blackouts: [{ id: 4, startDate: '2025-04-14', endDate: '2025-04-27', reason: 'Vacation' }],
+};
+
+const jsonResponse = (data: unknown) => Promise.resolve({ json: () => Promise.resolve({ success: true, data, message: 'Availability saved successfully' }) });
+
+describe('MyAvailability', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(fetch).mockImplementation((_input: any, init?: any) => {
+      if (init?.method === 'POST') {
+        return jsonResponse({ id: 5, ...JSON.parse(init.body) }) as any;
+      }
+
+      return jsonResponse(init?.method ? { id: 1 } : availability) as any;
+    });
+  });
+
+  it('shows and saves the days the member never serves', async () => {
+    render(<MyAvailability />);
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId('unavailable-day')).toHaveLength(2);
+    });
+
+    expect(screen.getByText('2nd Sunday')).toBeInTheDocument();
+    expect(screen.getByLabelText('Most programs a month')).toHaveValue(2);
+
+    fireEvent.click(screen.getByLabelText('Remove Every Wednesday'));
+    fireEvent.change(screen.getByLabelText('Most programs a month'), { target: { value: '' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    await waitFor(() => {
+      expect(fetch).toHaveBeenCalledWith('/api/worship/availability', expect.objectContaining({
+        method: 'PUT',
+        body: JSON.stringify({ unavailableDays: [{ dayOfWeek: 0, weekOfMonth: 2 }], maxAssignmentsPerMonth: null, notes: '' }),
+      }));
+    });
+  });
+
+  it('adds and removes blackouts', async () => {
+    render(<MyAvailability />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('blackout')).toHaveTextContent('2025-04-14 to 2025-04-27Vacation');
+    });
+
+    fireEvent.change(screen.getByLabelText('Blackout start'), { target: { value: '2025-03-09' } });
+    fireEvent.change(screen.getByLabelText('Blackout reason'), { target: { value: 'Conference' } });
+    fireEvent.click(screen.getByText('Add blackout'));
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId('blackout')).toHaveLength(2);
+    });
+
+    // A single day, sorted before the vacation
+    expect(screen.getAllByTestId('blackout')[0]).toHaveTextContent('2025-03-09Conference');
+
+    fireEvent.click(screen.getByLabelText('Remove blackout from 2025-04-14'));
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId('blackout')).toHaveLength(1);
+    });
+
+    expect(fetch).toHaveBeenCalledWith('/api/worship/availability/blackouts/4', { method: 'DELETE' });
+  });
+});
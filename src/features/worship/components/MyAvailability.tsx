@@ -0,0 +1,323 @@
+'use client';
+
+import { CalendarOff, Plus, Save, X } from 'lucide-react';
+import React, { useCallback, useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useWorshipAuth } from '@/hooks/use-worship-auth';
+import type { BlackoutRecord, UnavailableDay } from '@/libs/worship/VolunteerAvailability';
+
+// Blackouts as returned by the availability API
+type Blackout = Pick<BlackoutRecord, 'id' | 'startDate' | 'endDate' | 'reason'>;
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Which of the weekdays of a month a rule applies to, 'every' for all of them
+const WEEKS: { value: string; label: string }[] = [
+  { value: 'every', label: 'Every' },
+  { value: '1', label: '1st' },
+  { value: '2', label: '2nd' },
+  { value: '3', label: '3rd' },
+  { value: '4', label: '4th' },
+  { value: '5', label: '5th' },
+  { value: '-1', label: 'Last' },
+];
+
+const describeDay = (day: UnavailableDay) => {
+  const week = WEEKS.find(option => option.value === String(day.weekOfMonth ?? 'every'))!;
+
+  return `${week.label} ${WEEKDAYS[day.dayOfWeek]}`;
+};
+
+export function MyAvailability() {
+  const [unavailableDays, setUnavailableDays] = useState<UnavailableDay[]>([]);
+  const [maxPerMonth, setMaxPerMonth] = useState('');
+  const [notes, setNotes] = useState('');
+  const [blackouts, setBlackouts] = useState<Blackout[]>([]);
+  const [dayOfWeek, setDayOfWeek] = useState('0');
+  const [weekOfMonth, setWeekOfMonth] = useState('every');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { organizationId } = useWorshipAuth();
+  const { toast } = useToast();
+
+  const loadAvailability = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/worship/availability');
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setUnavailableDays(result.data.unavailableDays);
+      setMaxPerMonth(result.data.maxAssignmentsPerMonth ? String(result.data.maxAssignmentsPerMonth) : '');
+      setNotes(result.data.notes ?? '');
+      setBlackouts(result.data.blackouts);
+    } catch (error) {
+      console.error('Failed to load availability:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load your availability',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (organizationId) {
+      loadAvailability();
+    }
+  }, [organizationId, loadAvailability]);
+
+  const handleAddDay = () => {
+    const day = { dayOfWeek: Number(dayOfWeek), weekOfMonth: weekOfMonth === 'every' ? null : Number(weekOfMonth) };
+
+    if (!unavailableDays.some(other => other.dayOfWeek === day.dayOfWeek && other.weekOfMonth === day.weekOfMonth)) {
+      setUnavailableDays(current => [...current, day]);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/worship/availability', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          unavailableDays,
+          maxAssignmentsPerMonth: maxPerMonth ? Number(maxPerMonth) : null,
+          notes,
+        }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to save availability');
+      }
+
+      toast({
+        title: 'Success',
+        description: result.message,
+      });
+    } catch (error) {
+      console.error('Failed to save availability:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save availability',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddBlackout = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/worship/availability/blackouts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ startDate, endDate, reason }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to add blackout');
+      }
+
+      setBlackouts(current => [...current, result.data].sort((a, b) => a.startDate.localeCompare(b.startDate)));
+      setStartDate('');
+      setEndDate('');
+      setReason('');
+    } catch (error) {
+      console.error('Failed to add blackout:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add blackout',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveBlackout = async (blackoutId: number) => {
+    try {
+      const response = await fetch(`/api/worship/availability/blackouts/${blackoutId}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to remove blackout');
+      }
+
+      setBlackouts(current => current.filter(blackout => blackout.id !== blackoutId));
+    } catch (error) {
+      console.error('Failed to delete blackout:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to remove blackout',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarOff className="size-5" />
+          My Availability
+        </CardTitle>
+        <CardDescription>Let the people making assignments know when you cannot serve.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading && <p className="text-sm text-muted-foreground">Loading availability...</p>}
+
+        <div className="space-y-2">
+          <Label>Days I never serve</Label>
+          {unavailableDays.length === 0 && (
+            <p className="text-sm text-muted-foreground">You can serve on any day.</p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {unavailableDays.map(day => (
+              <Badge key={`${day.dayOfWeek}-${day.weekOfMonth}`} variant="secondary" className="gap-1" data-testid="unavailable-day">
+                {describeDay(day)}
+                <button
+                  type="button"
+                  onClick={() => setUnavailableDays(current => current.filter(other => other !== day))}
+                  aria-label={`Remove ${describeDay(day)}`}
+                >
+                  <X className="size-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={weekOfMonth} onValueChange={setWeekOfMonth}>
+              <SelectTrigger className="w-28" aria-label="Week of the month">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEEKS.map(week => <SelectItem key={week.value} value={week.value}>{week.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={dayOfWeek} onValueChange={setDayOfWeek}>
+              <SelectTrigger className="w-36" aria-label="Day of the week">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEEKDAYS.map((weekday, index) => <SelectItem key={weekday} value={String(index)}>{weekday}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleAddDay}>
+              <Plus className="mr-2 size-4" />
+              Add day
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="max-assignments">Most programs a month</Label>
+            <Input
+              id="max-assignments"
+              type="number"
+              min={1}
+              max={31}
+              value={maxPerMonth}
+              onChange={e => setMaxPerMonth(e.target.value)}
+              placeholder="No limit"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="availability-notes">Notes</Label>
+            <Textarea
+              id="availability-notes"
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+              placeholder="e.g. Prefer mornings"
+            />
+          </div>
+        </div>
+
+        <Button onClick={handleSave} disabled={saving || loading}>
+          <Save className="mr-2 size-4" />
+          Save
+        </Button>
+
+        <div className="space-y-2 border-t pt-4">
+          <Label>Blackout dates</Label>
+          {blackouts.length === 0 && (
+            <p className="text-sm text-muted-foreground">No upcoming blackouts.</p>
+          )}
+          <ul className="space-y-2">
+            {blackouts.map(blackout => (
+              <li key={blackout.id} className="flex items-center gap-2 text-sm" data-testid="blackout">
+                <span className="font-medium">
+                  {blackout.startDate === blackout.endDate ? blackout.startDate : `${blackout.startDate} to ${blackout.endDate}`}
+                </span>
+                {blackout.reason && <span className="text-muted-foreground">{blackout.reason}</span>}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-auto"
+                  onClick={() => handleRemoveBlackout(blackout.id)}
+                  aria-label={`Remove blackout from ${blackout.startDate}`}
+                >
+                  <X className="size-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              className="w-40"
+              type="date"
+              value={startDate}
+              onChange={(e) => {
+                setStartDate(e.target.value);
+                setEndDate(current => current || e.target.value);
+              }}
+              aria-label="Blackout start"
+            />
+            <Input
+              className="w-40"
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={e => setEndDate(e.target.value)}
+              aria-label="Blackout end"
+            />
+            <Input
+              className="w-48"
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              placeholder="Reason, e.g. vacation"
+              aria-label="Blackout reason"
+            />
+            <Button variant="outline" onClick={handleAddBlackout} disabled={saving || !startDate || !endDate}>
+              <Plus className="mr-2 size-4" />
+              Add blackout
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
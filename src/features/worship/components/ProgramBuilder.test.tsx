@@ -0,0 +1,386 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ProgramBuilder } from './ProgramBuilder';
+
+const mockAuth = vi.hoisted(() => ({
+  canEditProgram: true,
+  organizationId: 'org_123',
+  worshipRole: 'collaborator',
+}));
+
+const mockToast = vi.hoisted(() => vi.fn());
+
+vi.mock('@/hooks/use-worship-auth', () => ({
+  useWorshipAuth: () => mockAuth,
+}));
+
+vi.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({
+    toast: mockToast,
+  }),
+}));
+
+// The selector has its own search and filters; only check the hymn it hands back
+vi.mock('./HymnSelector', () => ({
+  HymnSelector: ({ availableHymns, onSelectionChange }: any) => (
+    <div>
+      {availableHymns.map((hymn: any) => (
+        <button key={hymn.id} type="button" onClick={() => onSelectionChange([hymn])}>
+          {`Pick ${hymn.title}`}
+        </button>
+      ))}
+    </div>
+  ),
+}));
+
+globalThis.fetch = vi.fn();
+
+const program = {
+  id: 7,
+  title: 'Easter Sunday',
+  status: 'draft',
+  occurrenceDate: '2025-04-20',
+  versionNumber: 2,
+  programData: {
+    sections: [
+      { id: 'sermon', type: 'sermon', title: 'He Is Risen', orderIndex: 1, estimatedDuration: 30 },
+      { id: 'opening', type: 'hymn', title: 'Christ the Lord Is Risen Today', orderIndex: 0, hymnId: 4, estimatedDuration: 5 },
+    ],
+    metadata: { totalEstimatedDuration: 35, hymnCount: 1 },
+  },
+  event: { id: 12, title: 'Sunday Worship', eventDate: '2025-03-02T15:00:00.000Z' },
+  church: { id: 1, timezone: 'America/Toronto' },
+  hymns: [{ hymnId: 4, key: 'C', tempo: null, hymn: { id: 4, title: 'Christ the Lord Is Risen Today' } }],
+};
+
+const hymnRows = [
+  {
+    id: 9,
+    title: 'Crown Him with Many Crowns',
+    author: 'Matthew Bridges',
+    year: 1851,
+    hymnType: 'official',
+    isPublic: true,
+    categories: ['Praise'],
+    themes: null,
+    doctrines: null,
+    languages: ['English'],
+    createdBy: 'user_1',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  },
+];
+
+const jsonResponse = (data: unknown) => Promise.resolve({ json: () => Promise.resolve({ success: true, data }) });
+
+describe('ProgramBuilder', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth.canEditProgram = true;
+    mockAuth.worshipRole = 'collaborator';
+
+    vi.mocked(fetch).mockImplementation((input: any, init?: any) => {
+      const url = input.toString();
+      if (url === '/api/worship/programs/7') {
+        return jsonResponse(init?.method === 'PATCH' ? { ...program, versionNumber: 3 } : program) as any;
+      }
+      if (url === '/api/worship/programs/7/transitions') {
+        return jsonResponse({ ...program, status: 'submitted' }) as any;
+      }
+      if (url.startsWith('/api/worship/hymns')) {
+        return jsonResponse(hymnRows) as any;
+      }
+      return jsonResponse([]) as any;
+    });
+  });
+
+  const renderBuilder = async () => {
+    render(<ProgramBuilder programId={7} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Easter Sunday')).toBeInTheDocument();
+    });
+  };
+
+  const getSectionTitles = () =>
+    screen.getAllByLabelText('Section title').map(input => (input as HTMLInputElement).value);
+
+  it('shows the sections in program order with their totals', async () => {
+    await renderBuilder();
+
+    expect(getSectionTitles()).toEqual(['Christ the Lord Is Risen Today', 'He Is Risen']);
+    expect(screen.getByTestId('program-duration')).toHaveTextContent('35 min');
+    expect(screen.getByTestId('program-hymn-count')).toHaveTextContent('1/25 hymns');
+  });
+
+  it('reorders sections and saves them with the hymn entries', async () => {
+    await renderBuilder();
+
+    fireEvent.click(screen.getAllByLabelText('Move down')[0]!);
+
+    expect(getSectionTitles()).toEqual(['He Is Risen', 'Christ the Lord Is Risen Today']);
+
+    fireEvent.click(screen.getByText('Save Program'));
+
+    await waitFor(() => {
+      expect(mockToast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Success' }));
+    });
+
+    const [, init] = vi.mocked(fetch).mock.calls.find(([, init]) => init?.method === 'PATCH')!;
+    const body = JSON.parse(init!.body as string);
+
+    expect(body.versionNumber).toBe(2);
+    expect(body.programData.sections.map((section: any) => [section.id, section.orderIndex])).toEqual([
+      ['sermon', 0],
+      ['opening', 1],
+    ]);
+    expect(body.programData.metadata).toMatchObject({ totalEstimatedDuration: 35, hymnCount: 1 });
+    expect(body.hymns).toEqual([{ hymnId: 4, key: 'C', tempo: null, notes: null, estimatedDuration: 300 }]);
+  });
+
+  it('surfaces edits saved meanwhile instead of overwriting them', async () => {
+    const current = { ...program, versionNumber: 4, title: 'Easter Sunday Sunrise' };
+    vi.mocked(fetch).mockImplementation((input: any, init?: any) => {
+      if (input.toString() !== '/api/worship/programs/7') {
+        return jsonResponse([]) as any;
+      }
+      if (init?.method !== 'PATCH') {
+        return jsonResponse(program) as any;
+      }
+      const { versionNumber } = JSON.parse(init.body);
+      return Promise.resolve(versionNumber === 4
+        ? { status: 200, json: () => Promise.resolve({ success: true, data: { ...current, versionNumber: 5 } }) }
+        : { status: 409, json: () => Promise.resolve({ error: 'The program was updated by someone else since version 2', current }) }) as any;
+    });
+
+    await renderBuilder();
+    fireEvent.click(screen.getAllByLabelText('Move down')[0]!);
+    fireEvent.click(screen.getByText('Save Program'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Program Changed Meanwhile')).toBeInTheDocument();
+    });
+
+    expect(mockToast).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText('Keep My Changes'));
+
+    expect(getSectionTitles()).toEqual(['He Is Risen', 'Christ the Lord Is Risen Today']);
+    expect(screen.getByText('Easter Sunday Sunrise')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Save Program'));
+
+    await waitFor(() => {
+      expect(mockToast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Success' }));
+    });
+  });
+
+  it('adds a hymn section and picks its hymn', async () => {
+    await renderBuilder();
+
+    fireEvent.click(screen.getByText('Add Section'));
+    fireEvent.click(screen.getByText('Choose Hymn'));
+    fireEvent.click(await screen.findByText('Pick Crown Him with Many Crowns'));
+
+    expect(getSectionTitles()).toContain('Crown Him with Many Crowns');
+    expect(screen.getByTestId('program-duration')).toHaveTextContent('39 min');
+    expect(screen.getByTestId('program-hymn-count')).toHaveTextContent('2/25 hymns');
+  });
+
+  it('is read-only without edit permission', async () => {
+    mockAuth.canEditProgram = false;
+
+    await renderBuilder();
+
+    expect(screen.queryByText('Save Program')).not.toBeInTheDocument();
+    expect(screen.queryByText('Add Section')).not.toBeInTheDocument();
+    expect(screen.getAllByLabelText('Section title')[0]).toBeDisabled();
+  });
+
+  it('shows when each section starts and warns about overruns', async () => {
+    vi.mocked(fetch).mockImplementation((input: any) => {
+      const url = input.toString();
+      if (url === '/api/worship/programs/7/timing') {
+        return jsonResponse({
+          totalDuration: 2100,
+          sections: [
+            { sectionId: 'opening', startsAt: '2025-04-20T14:00:00.000Z', duration: 300, durationSource: 'section' },
+            { sectionId: 'sermon', startsAt: '2025-04-20T14:05:00.000Z', duration: 1800, durationSource: 'section' },
+          ],
+          warnings: [{ type: 'event_overrun', limit: 30, overrun: 5, message: 'The program runs 5 min over the event\'s 30 minutes (35 min in total)' }],
+        }) as any;
+      }
+      return jsonResponse(url === '/api/worship/programs/7' ? program : []) as any;
+    });
+
+    await renderBuilder();
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId('section-start').map(time => time.textContent)).toEqual(['10:00 AM', '10:05 AM']);
+    });
+
+    expect(screen.getByTestId('timing-warning')).toHaveTextContent('The program runs 5 min over the event\'s 30 minutes');
+
+    // Times are those of the saved program
+    fireEvent.click(screen.getAllByLabelText('Move down')[0]!);
+
+    expect(screen.queryByTestId('section-start')).not.toBeInTheDocument();
+  });
+
+  it('shows whether each team member accepted their assignment', async () => {
+    vi.mocked(fetch).mockImplementation((input: any) => {
+      const url = input.toString();
+      if (url === '/api/worship/programs/7/assignments') {
+        return jsonResponse([
+          { id: 3, userId: 'user_1', role: 'pianist', notes: null, declineReason: null, status: 'accepted' },
+          { id: 4, userId: 'user_2', role: 'sound', notes: null, declineReason: 'Away that weekend', status: 'declined' },
+        ]) as any;
+      }
+      if (url.startsWith('/api/worship/users')) {
+        return jsonResponse([
+          { userId: 'user_1', firstName: 'Ana', lastName: null, emailAddress: 'ana@example.com', worshipRole: 'collaborator' },
+          { userId: 'user_2', firstName: 'Ben', lastName: null, emailAddress: 'ben@example.com', worshipRole: 'member' },
+        ]) as any;
+      }
+      return jsonResponse(url === '/api/worship/programs/7' ? program : []) as any;
+    });
+
+    await renderBuilder();
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId('team-assignment')).toHaveLength(2);
+    });
+
+    const [pianist, sound] = screen.getAllByTestId('team-assignment');
+
+    expect(pianist).toHaveTextContent('Ana');
+    expect(pianist).toHaveTextContent('Accepted');
+    expect(sound).toHaveTextContent('Declined');
+    expect(sound).toHaveTextContent('Away that weekend');
+  });
+
+  it('offers the members with a skill and warns when they may be unavailable', async () => {
+    vi.mocked(fetch).mockImplementation((input: any, init?: any) => {
+      const url = input.toString();
+      if (url === '/api/worship/programs/7/assignments' && init?.method === 'POST') {
+        const body = JSON.parse(init.body);
+
+        return Promise.resolve({
+          json: () => Promise.resolve(body.ignoreAvailability
+            ? { success: true, data: { id: 5, userId: 'user_2', role: 'bass', notes: null, declineReason: null, status: 'pending' } }
+            : { error: 'This member may be unavailable for this program', conflicts: [{ type: 'blackout', message: 'Unavailable from 2025-04-14 to 2025-04-27 (Vacation)' }] }),
+        }) as any;
+      }
+      if (url === '/api/worship/skills') {
+        return jsonResponse([{ id: 5, name: 'Bass', category: 'instrument' }]) as any;
+      }
+      if (url.startsWith('/api/worship/member-skills')) {
+        return jsonResponse([
+          { memberSkill: { id: 1, userId: 'user_2', skillId: 5, proficiency: 'advanced', churchId: 1 }, skill: { id: 5, name: 'Bass', category: 'instrument' } },
+        ]) as any;
+      }
+      if (url.startsWith('/api/worship/users')) {
+        return jsonResponse([
+          { userId: 'user_1', firstName: 'Ana', lastName: null, emailAddress: 'ana@example.com', worshipRole: 'collaborator' },
+          { userId: 'user_2', firstName: 'Ben', lastName: null, emailAddress: 'ben@example.com', worshipRole: 'member' },
+        ]) as any;
+      }
+      return jsonResponse(url === '/api/worship/programs/7' ? program : []) as any;
+    });
+
+    await renderBuilder();
+
+    await waitFor(() => {
+      expect(screen.getByRole('combobox', { name: 'Skill' })).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByRole('combobox', { name: 'Skill' }));
+    fireEvent.click(screen.getByRole('option', { name: 'Bass' }));
+
+    await waitFor(() => {
+      expect(fetch).toHaveBeenCalledWith('/api/worship/member-skills?skillId=5&churchId=1');
+    });
+
+    expect(screen.getByLabelText('Team role')).toHaveValue('bass');
+
+    fireEvent.click(screen.getByRole('combobox', { name: 'Team member' }));
+
+    expect(screen.queryByRole('option', { name: 'Ana' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('option', { name: 'Ben (Advanced)' }));
+    fireEvent.click(screen.getByText('Assign'));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('availability-conflicts')).toHaveTextContent('Unavailable from 2025-04-14 to 2025-04-27 (Vacation)');
+    });
+
+    fireEvent.click(screen.getByText('Assign anyway'));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('team-assignment')).toHaveTextContent('Ben');
+    });
+
+    expect(screen.queryByTestId('availability-conflicts')).not.toBeInTheDocument();
+  });
+
+  it('offers the PDF of published programs', async () => {
+    vi.mocked(fetch).mockImplementation((input: any) =>
+      jsonResponse(input.toString() === '/api/worship/programs/7' ? { ...program, status: 'published' } : []) as any);
+
+    await renderBuilder();
+
+    expect(screen.getByText('Download PDF').closest('a')).toHaveAttribute('href', '/api/worship/programs/7/pdf');
+  });
+
+  it('submits the program for review', async () => {
+    await renderBuilder();
+
+    expect(screen.queryByText('Download PDF')).not.toBeInTheDocument();
+    expect(screen.queryByText('Approve & Publish')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Submit for Review'));
+
+    await waitFor(() => {
+      expect(screen.getByText('submitted')).toBeInTheDocument();
+    });
+
+    expect(fetch).toHaveBeenCalledWith('/api/worship/programs/7/transitions', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ action: 'submit' }),
+    }));
+  });
+
+  it('requests changes with a comment', async () => {
+    mockAuth.worshipRole = 'pastor';
+    vi.mocked(fetch).mockImplementation((input: any) => {
+      const url = input.toString();
+      if (url === '/api/worship/programs/7') {
+        return jsonResponse({ ...program, status: 'submitted' }) as any;
+      }
+      if (url === '/api/worship/programs/7/transitions') {
+        return jsonResponse({ ...program, status: 'draft' }) as any;
+      }
+      return jsonResponse([]) as any;
+    });
+
+    await renderBuilder();
+    fireEvent.click(screen.getByText('Request Changes'));
+
+    const send = screen.getByText('Send Back to Draft');
+
+    expect(send).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Requested changes'), { target: { value: 'Swap the closing hymn' } });
+    fireEvent.click(send);
+
+    await waitFor(() => {
+      expect(screen.getByText('draft')).toBeInTheDocument();
+    });
+
+    expect(fetch).toHaveBeenCalledWith('/api/worship/programs/7/transitions', expect.objectContaining({
+      body: JSON.stringify({ action: 'request_changes', comment: 'Swap the closing hymn' }),
+    }));
+  });
+});
@@ -0,0 +1,912 @@
+'use client';
+
+import { AlertTriangle, ArrowDown, ArrowUp, Clock, Download, FileText, GripVertical, History, ListMusic, MessageSquare, Music, Plus, Save, Send, Trash2, UserPlus, Users, X } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import type { ProgramData, ProgramSection, ProgramStatus, SectionAssignment } from '@/features/worship/types';
+import { useProgramLive } from '@/hooks/use-program-live';
+import { useToast } from '@/hooks/use-toast';
+import { useWorshipAuth } from '@/hooks/use-worship-auth';
+import type { ExtendedWorshipRole } from '@/lib/worship-role-utils';
+import type { SectionType } from '@/libs/worship/ProgramBuilder';
+import {
+  buildProgramMetadata,
+  canAddHymnSection,
+  createSection,
+  getProgramHymns,
+  moveSection,
+  SECTION_LABELS,
+  SECTION_TYPES,
+  withSections,
+} from '@/libs/worship/ProgramBuilder';
+import type { ProgramTiming, SectionTiming } from '@/libs/worship/ProgramTiming';
+import { MAX_PROGRAM_HYMNS } from '@/libs/worship/ProgramValidation';
+import type { ProgramAction } from '@/libs/worship/ProgramWorkflow';
+import { getAvailableActions, PROGRAM_ACTION_LABELS } from '@/libs/worship/ProgramWorkflow';
+import { formatInTimeZone } from '@/utils/TimeZone';
+
+import type { Hymn } from './HymnLibrary';
+import { HymnSelector } from './HymnSelector';
+import { ProgramComments } from './ProgramComments';
+import { ProgramTeam } from './ProgramTeam';
+import { ProgramVersionHistory } from './ProgramVersionHistory';
+
+export type BuilderProgram = {
+  id: number;
+  title: string;
+  status: ProgramStatus;
+  occurrenceDate: string | null;
+  programData: ProgramData | null;
+  markdownContent: string | null;
+  versionNumber: number;
+  event: {
+    id: number;
+    title: string;
+    eventDate: string;
+  };
+  church: {
+    id: number;
+    timezone: string | null;
+  };
+  hymns: {
+    hymnId: number;
+    key: string | null;
+    tempo: string | null;
+    hymn: { id: number; title: string };
+  }[];
+};
+
+// The program as another editor saved it, sent back when saving an outdated version
+type ConflictingProgram = Omit<BuilderProgram, 'event' | 'church'>;
+
+// Hymn rows as returned by the hymns API
+type HymnRow = {
+  id: number;
+  title: string;
+  author: string | null;
+  year: number | null;
+  hymnType: Hymn['type'];
+  isPublic: boolean;
+  categories: string[] | null;
+  themes: string[] | null;
+  doctrines: string[] | null;
+  languages: string[] | null;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type Member = {
+  userId?: string;
+  firstName: string | null;
+  lastName: string | null;
+  emailAddress: string;
+  worshipRole: ExtendedWorshipRole;
+};
+
+// Timing as returned by the timing API
+type TimingItem = Omit<ProgramTiming, 'startsAt' | 'endsAt' | 'sections'> & {
+  sections: (Omit<SectionTiming, 'startsAt' | 'endsAt'> & { startsAt: string; endsAt: string })[];
+};
+
+type ProgramBuilderProps = {
+  programId: number;
+  onSaved?: (program: BuilderProgram) => void;
+};
+
+// Presence of editors of the run sheet rather than of a section
+const RUN_SHEET_PRESENCE = 'run-sheet';
+
+const STATUS_VARIANTS: Record<ProgramStatus, 'secondary' | 'default' | 'outline'> = {
+  draft: 'secondary',
+  submitted: 'outline',
+  published: 'default',
+  completed: 'outline',
+};
+
+/**
+ * Adapt a hymn row to the shape the hymn selector works with
+ */
+const toSelectableHymn = (row: HymnRow): Hymn => ({
+  id: row.id.toString(),
+  title: row.title,
+  author: row.author ?? '',
+  year: row.year ?? undefined,
+  type: row.hymnType,
+  isPublic: row.isPublic,
+  categories: row.categories ?? [],
+  doctrines: row.doctrines ?? [],
+  themes: row.themes ?? [],
+  languages: row.languages ?? [],
+  verses: 0,
+  audioFiles: [],
+  lyrics: [],
+  createdBy: row.createdBy,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+  likeCount: 0,
+});
+
+const getMemberName = (member: Member) =>
+  [member.firstName, member.lastName].filter(Boolean).join(' ') || member.emailAddress;
+
+const sortSections = (programData: ProgramData | null) =>
+  [...(programData?.sections ?? [])].sort((a, b) => a.orderIndex - b.orderIndex);
+
+function SectionAssignments({ assignments, members, disabled, onChange }: {
+  assignments: SectionAssignment[];
+  members: Member[];
+  disabled: boolean;
+  onChange: (assignments: SectionAssignment[]) => void;
+}) {
+  const update = (index: number, changes: Partial<SectionAssignment>) =>
+    onChange(assignments.map((assignment, i) => (i === index ? { ...assignment, ...changes } : assignment)));
+
+  return (
+    <div className="space-y-2">
+      {assignments.map((assignment, index) => (
+        // eslint-disable-next-line react/no-array-index-key -- assignments have no ID of their own
+        <div key={index} className="flex items-center gap-2">
+          <Select
+            value={assignment.userId}
+            onValueChange={userId => update(index, { userId })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-48" aria-label="Assigned member">
+              <SelectValue placeholder="Select a member..." />
+            </SelectTrigger>
+            <SelectContent>
+              {members.map(member => (
+                <SelectItem key={member.userId} value={member.userId!}>
+                  {getMemberName(member)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={assignment.role}
+            onChange={e => update(index, { role: e.target.value })}
+            placeholder="Role, e.g. pianist"
+            aria-label="Assignment role"
+            disabled={disabled}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(assignments.filter((_, i) => i !== index))}
+            aria-label="Remove assignment"
+            disabled={disabled}
+          >
+            <X className="size-4" />
+          </Button>
+        </div>
+      ))}
+      {!disabled && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...assignments, { userId: '', role: '' }])}
+        >
+          <UserPlus className="mr-2 size-4" />
+          Add Assignment
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export function ProgramBuilder({ programId, onSaved }: ProgramBuilderProps) {
+  const [program, setProgram] = useState<BuilderProgram | null>(null);
+  const [sections, setSections] = useState<ProgramSection[]>([]);
+  const [hymns, setHymns] = useState<Hymn[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [newSectionType, setNewSectionType] = useState<SectionType>('hymn');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [pickingSectionId, setPickingSectionId] = useState<string | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [commentsOpen, setCommentsOpen] = useState(false);
+  const [requestingChanges, setRequestingChanges] = useState(false);
+  const [changesComment, setChangesComment] = useState('');
+  const [transitioning, setTransitioning] = useState(false);
+  const [conflict, setConflict] = useState<ConflictingProgram | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [savingMarkdown, setSavingMarkdown] = useState(false);
+  const [timing, setTiming] = useState<TimingItem | null>(null);
+  const dirtyRef = useRef(dirty);
+  dirtyRef.current = dirty;
+  const { canEditProgram, organizationId, userId, worshipRole } = useWorshipAuth();
+  const { toast } = useToast();
+
+  const getUserName = (memberId: string) => {
+    const member = members.find(other => other.userId === memberId);
+
+    return member ? getMemberName(member) : 'Someone';
+  };
+
+  const refreshProgram = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/worship/programs/${programId}`);
+      const result = await response.json();
+
+      if (result.success) {
+        setProgram(result.data);
+        setSections(sortSections(result.data.programData));
+        setDirty(false);
+      }
+    } catch (error) {
+      console.error('Failed to refresh program:', error);
+    }
+  }, [programId]);
+
+  // Saves of other editors show up at once, unless they would replace unsaved edits
+  const live = useProgramLive(programId, {
+    enabled: Boolean(organizationId),
+    onProgramUpdated: (updated, updatedBy) => {
+      if (updatedBy === userId) {
+        return;
+      }
+
+      if (!dirtyRef.current) {
+        refreshProgram();
+        return;
+      }
+
+      setProgram(current => current && { ...current, status: updated.status, markdownContent: updated.markdownContent });
+      toast({
+        title: 'Program updated',
+        description: `${getUserName(updatedBy)} saved changes to this program. Saving yours will show what changed.`,
+      });
+    },
+  });
+  const otherEditors = live.presence.filter(entry => entry.connectionId !== live.connectionId);
+
+  const getEditingMessage = (sectionId: string, label: string) => {
+    const names = [...new Set(otherEditors
+      .filter(entry => entry.sectionId === sectionId)
+      .map(entry => getUserName(entry.userId)))];
+
+    return names.length > 0 ? `${names.join(', ')} ${names.length > 1 ? 'are' : 'is'} editing ${label}` : null;
+  };
+
+  // The timing is that of the saved program, so it is reloaded with every new version
+  const versionNumber = program?.versionNumber;
+
+  useEffect(() => {
+    if (versionNumber === undefined) {
+      return;
+    }
+
+    const loadTiming = async () => {
+      try {
+        const response = await fetch(`/api/worship/programs/${programId}/timing`);
+        const result = await response.json();
+
+        if (result.success && result.data?.sections) {
+          setTiming(result.data);
+        }
+      } catch (error) {
+        console.error('Failed to load program timing:', error);
+      }
+    };
+
+    loadTiming();
+  }, [programId, versionNumber]);
+
+  const getSectionTiming = (sectionId: string) =>
+    dirty ? undefined : timing?.sections.find(entry => entry.sectionId === sectionId);
+
+  const readOnly = !canEditProgram;
+  const metadata = useMemo(() => buildProgramMetadata(sections), [sections]);
+  const workflowActions = program ? getAvailableActions(program.status, worshipRole) : [];
+
+  useEffect(() => {
+    if (!organizationId) {
+      return;
+    }
+
+    const loadProgram = async () => {
+      setLoading(true);
+      try {
+        const [programResponse, hymnsResponse, membersResponse] = await Promise.all([
+          fetch(`/api/worship/programs/${programId}`),
+          fetch(`/api/worship/hymns?organizationId=${organizationId}`),
+          fetch(`/api/worship/users?organizationId=${organizationId}`),
+        ]);
+        const [programResult, hymnsResult, membersResult] = await Promise.all([
+          programResponse.json(),
+          hymnsResponse.json(),
+          membersResponse.json(),
+        ]);
+
+        if (!programResult.success) {
+          throw new Error(programResult.error);
+        }
+
+        setProgram(programResult.data);
+        setSections(sortSections(programResult.data.programData));
+        setHymns((hymnsResult.data ?? []).map(toSelectableHymn));
+        setMembers((membersResult.data ?? []).filter((member: Member) => member.userId));
+        setDirty(false);
+      } catch (error) {
+        console.error('Failed to load program:', error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load program',
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadProgram();
+  }, [programId, organizationId, toast]);
+
+  const updateSections = (next: ProgramSection[]) => {
+    setSections(next);
+    setDirty(true);
+  };
+
+  const updateSection = (id: string, changes: Partial<ProgramSection>) =>
+    updateSections(sections.map(section => (section.id === id ? { ...section, ...changes } : section)));
+
+  const addSection = () => {
+    if (newSectionType === 'hymn' && !canAddHymnSection(sections)) {
+      toast({
+        title: 'Hymn limit reached',
+        description: `A program can have at most ${MAX_PROGRAM_HYMNS} hymns`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    updateSections([...sections, createSection(newSectionType, sections.length)]);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) {
+      updateSections(moveSection(sections, dragIndex, index));
+    }
+    setDragIndex(null);
+  };
+
+  const getHymnTitle = (hymnId: number) =>
+    hymns.find(hymn => hymn.id === hymnId.toString())?.title
+    ?? program?.hymns.find(entry => entry.hymnId === hymnId)?.hymn.title
+    ?? `Hymn #${hymnId}`;
+
+  const handleHymnPicked = (selected: Hymn[]) => {
+    const hymn = selected.at(-1);
+
+    if (hymn && pickingSectionId) {
+      updateSection(pickingSectionId, { hymnId: Number(hymn.id), title: hymn.title });
+    }
+    setPickingSectionId(null);
+  };
+
+  const handleSave = async () => {
+    if (!program) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/worship/programs/${program.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          versionNumber: program.versionNumber,
+          programData: withSections(program.programData, sections),
+          hymns: getProgramHymns(sections, program.hymns),
+        }),
+      });
+      const result = await response.json();
+
+      if (response.status === 409) {
+        setConflict(result.current);
+        return;
+      }
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to save program');
+      }
+
+      const saved = { ...program, ...result.data };
+      setProgram(saved);
+      setDirty(false);
+      onSaved?.(saved);
+      toast({
+        title: 'Success',
+        description: 'Program saved successfully',
+      });
+    } catch (error) {
+      console.error('Failed to save program:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save program',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveMarkdown = async () => {
+    if (!program) {
+      return;
+    }
+
+    setSavingMarkdown(true);
+    try {
+      const result = await live.saveMarkdown();
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to save run sheet');
+      }
+
+      setProgram({ ...program, markdownContent: result.data.markdownContent, versionNumber: result.data.versionNumber });
+      toast({
+        title: 'Success',
+        description: 'Run sheet saved successfully',
+      });
+    } catch (error) {
+      console.error('Failed to save run sheet:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save run sheet',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingMarkdown(false);
+    }
+  };
+
+  // Continue from the version saved meanwhile, either with its sections or keeping the edited ones
+  const resolveConflict = (keepEdits: boolean) => {
+    if (!program || !conflict) {
+      return;
+    }
+
+    setProgram({ ...program, ...conflict });
+    if (!keepEdits) {
+      setSections(sortSections(conflict.programData));
+      setDirty(false);
+    }
+    setConflict(null);
+  };
+
+  const handleTransition = async (action: ProgramAction, comment?: string) => {
+    if (!program) {
+      return;
+    }
+
+    setTransitioning(true);
+    try {
+      const response = await fetch(`/api/worship/programs/${program.id}/transitions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, comment }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update program status');
+      }
+
+      const updated = { ...program, ...result.data };
+      setProgram(updated);
+      setRequestingChanges(false);
+      setChangesComment('');
+      onSaved?.(updated);
+      toast({
+        title: 'Success',
+        description: result.message,
+      });
+    } catch (error) {
+      console.error('Failed to transition program:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update program status',
+        variant: 'destructive',
+      });
+    } finally {
+      setTransitioning(false);
+    }
+  };
+
+  if (loading || !program) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          {loading ? 'Loading program...' : 'Program not found'}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ListMusic className="size-5" />
+              {program.title}
+              <Badge variant={STATUS_VARIANTS[program.status]}>{program.status}</Badge>
+            </CardTitle>
+            <CardDescription>
+              {program.event.title}
+              {' · '}
+              {program.occurrenceDate ?? formatInTimeZone(new Date(program.event.eventDate), program.church.timezone)}
+            </CardDescription>
+            {otherEditors.length > 0 && (
+              <p className="mt-1 flex items-center gap-1 text-sm text-muted-foreground" data-testid="program-presence">
+                <Users className="size-4" />
+                {`Also here: ${[...new Set(otherEditors.map(entry => getUserName(entry.userId)))].join(', ')}`}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-4 text-sm">
+            <span className="flex items-center gap-1" data-testid="program-duration">
+              <Clock className="size-4" />
+              {metadata.totalEstimatedDuration}
+              {' min'}
+            </span>
+            <span className="flex items-center gap-1" data-testid="program-hymn-count">
+              <Music className="size-4" />
+              {metadata.hymnCount}
+              /
+              {MAX_PROGRAM_HYMNS}
+              {' hymns'}
+            </span>
+            <Button variant="outline" onClick={() => setHistoryOpen(true)}>
+              <History className="mr-2 size-4" />
+              History
+            </Button>
+            <Button variant="outline" onClick={() => setCommentsOpen(true)}>
+              <MessageSquare className="mr-2 size-4" />
+              Comments
+            </Button>
+            {(program.status === 'published' || program.status === 'completed') && (
+              <Button variant="outline" asChild>
+                <a href={`/api/worship/programs/${programId}/pdf`} download>
+                  <Download className="mr-2 size-4" />
+                  Download PDF
+                </a>
+              </Button>
+            )}
+            {!readOnly && (
+              <Button onClick={handleSave} disabled={saving || !dirty}>
+                <Save className="mr-2 size-4" />
+                {saving ? 'Saving...' : 'Save Program'}
+              </Button>
+            )}
+            {workflowActions.map(action => (
+              <Button
+                key={action}
+                variant={action === 'request_changes' ? 'outline' : 'default'}
+                onClick={() => (action === 'request_changes' ? setRequestingChanges(true) : handleTransition(action))}
+                disabled={transitioning || (action === 'submit' && dirty)}
+              >
+                <Send className="mr-2 size-4" />
+                {PROGRAM_ACTION_LABELS[action]}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {timing?.warnings.map(warning => (
+          <p
+            key={warning.type}
+            className="flex items-center gap-2 rounded-md border border-amber-300 bg-amber-50 p-2 text-sm text-amber-800"
+            data-testid="timing-warning"
+          >
+            <AlertTriangle className="size-4" />
+            {warning.message}
+          </p>
+        ))}
+
+        {sections.length === 0 && (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No sections yet. Add hymns, prayers, the sermon and other parts of the service below.
+          </p>
+        )}
+
+        <ol className="space-y-3">
+          {sections.map((section, index) => (
+            <li
+              key={section.id}
+              data-testid="program-section"
+              draggable={!readOnly}
+              onDragStart={(e) => {
+                setDragIndex(index);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragOver={e => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(index);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              onFocus={() => live.updatePresence(section.id)}
+              onBlur={() => live.updatePresence(null)}
+              className={`space-y-3 rounded-lg border p-3 ${dragIndex === index ? 'opacity-50' : ''}`}
+            >
+              {getEditingMessage(section.id, section.title) && (
+                <p className="text-xs font-medium text-amber-600">{getEditingMessage(section.id, section.title)}</p>
+              )}
+              <div className="flex flex-wrap items-center gap-2">
+                {!readOnly && <GripVertical className="size-4 cursor-grab text-muted-foreground" aria-hidden />}
+                <span className="w-6 text-sm text-muted-foreground">{index + 1}</span>
+                {getSectionTiming(section.id) && (
+                  <span className="text-sm tabular-nums text-muted-foreground" data-testid="section-start">
+                    {formatInTimeZone(getSectionTiming(section.id)!.startsAt, program.church.timezone, { hour: 'numeric', minute: '2-digit' })}
+                  </span>
+                )}
+                <Select
+                  value={section.type}
+                  onValueChange={type => updateSection(section.id, { type: type as SectionType })}
+                  disabled={readOnly}
+                >
+                  <SelectTrigger className="w-36" aria-label="Section type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SECTION_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{SECTION_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="min-w-40 flex-1"
+                  value={section.title}
+                  onChange={e => updateSection(section.id, { title: e.target.value })}
+                  aria-label="Section title"
+                  disabled={readOnly}
+                />
+                <div className="flex items-center gap-1">
+                  <Input
+                    className="w-20"
+                    type="number"
+                    min="0"
+                    value={section.estimatedDuration ?? ''}
+                    placeholder={getSectionTiming(section.id) ? String(Math.round(getSectionTiming(section.id)!.duration / 60)) : undefined}
+                    onChange={e => updateSection(section.id, {
+                      estimatedDuration: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)),
+                    })}
+                    aria-label="Duration in minutes"
+                    disabled={readOnly}
+                  />
+                  <span className="text-sm text-muted-foreground">min</span>
+                </div>
+                {!readOnly && (
+                  <div className="flex items-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateSections(moveSection(sections, index, index - 1))}
+                      disabled={index === 0}
+                      aria-label="Move up"
+                    >
+                      <ArrowUp className="size-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateSections(moveSection(sections, index, index + 1))}
+                      disabled={index === sections.length - 1}
+                      aria-label="Move down"
+                    >
+                      <ArrowDown className="size-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateSections(sections.filter(other => other.id !== section.id))}
+                      aria-label="Remove section"
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {section.type === 'hymn'
+                ? (
+                    <div className="flex items-center gap-2 text-sm">
+                      <Music className="size-4 text-muted-foreground" />
+                      <span className={section.hymnId ? 'font-medium' : 'text-muted-foreground'}>
+                        {section.hymnId ? getHymnTitle(section.hymnId) : 'No hymn chosen'}
+                      </span>
+                      {!readOnly && (
+                        <Button variant="outline" size="sm" onClick={() => setPickingSectionId(section.id)}>
+                          {section.hymnId ? 'Change Hymn' : 'Choose Hymn'}
+                        </Button>
+                      )}
+                    </div>
+                  )
+                : (
+                    <Textarea
+                      value={section.customContent ?? ''}
+                      onChange={e => updateSection(section.id, { customContent: e.target.value || undefined })}
+                      placeholder={`${SECTION_LABELS[section.type]} content...`}
+                      aria-label="Section content"
+                      rows={2}
+                      disabled={readOnly}
+                    />
+                  )}
+
+              <Input
+                value={section.notes ?? ''}
+                onChange={e => updateSection(section.id, { notes: e.target.value || undefined })}
+                placeholder="Notes for the team..."
+                aria-label="Section notes"
+                disabled={readOnly}
+              />
+
+              <SectionAssignments
+                assignments={section.assignments ?? []}
+                members={members}
+                disabled={readOnly}
+                onChange={assignments => updateSection(section.id, { assignments })}
+              />
+            </li>
+          ))}
+        </ol>
+
+        {!readOnly && (
+          <div className="flex items-center gap-2 border-t pt-4">
+            <Label htmlFor="new-section-type" className="sr-only">New section type</Label>
+            <Select value={newSectionType} onValueChange={type => setNewSectionType(type as SectionType)}>
+              <SelectTrigger id="new-section-type" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SECTION_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{SECTION_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={addSection}>
+              <Plus className="mr-2 size-4" />
+              Add Section
+            </Button>
+          </div>
+        )}
+
+        <ProgramTeam programId={programId} churchId={program.church.id} members={members} readOnly={readOnly} />
+
+        <div className="space-y-2 border-t pt-4">
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="program-run-sheet" className="flex items-center gap-2">
+              <FileText className="size-4" />
+              Run Sheet
+            </Label>
+            {!readOnly && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleSaveMarkdown}
+                disabled={!live.connected || savingMarkdown || live.markdown === (program.markdownContent ?? '')}
+              >
+                {savingMarkdown ? 'Saving...' : 'Save Run Sheet'}
+              </Button>
+            )}
+          </div>
+          {getEditingMessage(RUN_SHEET_PRESENCE, 'the run sheet') && (
+            <p className="text-xs font-medium text-amber-600">{getEditingMessage(RUN_SHEET_PRESENCE, 'the run sheet')}</p>
+          )}
+          <Textarea
+            id="program-run-sheet"
+            className="font-mono text-sm"
+            rows={12}
+            value={live.connected ? live.markdown : program.markdownContent ?? ''}
+            onChange={e => live.editMarkdown(e.target.value)}
+            onFocus={() => live.updatePresence(RUN_SHEET_PRESENCE)}
+            onBlur={() => live.updatePresence(null)}
+            placeholder="The run sheet in markdown, edited together with the other editors"
+            disabled={readOnly || !live.connected}
+          />
+        </div>
+      </CardContent>
+
+      <Dialog open={historyOpen} onOpenChange={setHistoryOpen}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Version History</DialogTitle>
+            <DialogDescription>Compare versions of the program's markdown or restore an earlier one</DialogDescription>
+          </DialogHeader>
+          <ProgramVersionHistory
+            programId={program.id}
+            onRollback={restored => setProgram({ ...program, versionNumber: restored.versionNumber })}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={commentsOpen} onOpenChange={setCommentsOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Comments</DialogTitle>
+            <DialogDescription>Discuss the program, its sections and its hymns with the team</DialogDescription>
+          </DialogHeader>
+          <ProgramComments
+            programId={program.id}
+            sections={sections}
+            hymns={program.hymns.map(entry => ({ hymnId: entry.hymnId, title: entry.hymn.title }))}
+            members={members}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={requestingChanges} onOpenChange={setRequestingChanges}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request Changes</DialogTitle>
+            <DialogDescription>The program goes back to draft and its submitter is told what to change</DialogDescription>
+          </DialogHeader>
+          <Textarea
+            aria-label="Requested changes"
+            value={changesComment}
+            onChange={event => setChangesComment(event.target.value)}
+            placeholder="What needs to change?"
+          />
+          <DialogFooter>
+            <Button
+              onClick={() => handleTransition('request_changes', changesComment)}
+              disabled={transitioning || !changesComment.trim()}
+            >
+              Send Back to Draft
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={conflict !== null} onOpenChange={open => !open && setConflict(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Program Changed Meanwhile</DialogTitle>
+            <DialogDescription>
+              {`Someone else saved version ${conflict?.versionNumber} of this program while you were editing, so your changes were not saved. `}
+              Keeping your changes replaces theirs when you save again.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => resolveConflict(false)}>
+              Load Their Version
+            </Button>
+            <Button onClick={() => resolveConflict(true)}>
+              Keep My Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={pickingSectionId !== null} onOpenChange={open => !open && setPickingSectionId(null)}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>Choose Hymn</DialogTitle>
+            <DialogDescription>Pick the hymn sung in this section</DialogDescription>
+          </DialogHeader>
+          <HymnSelector
+            availableHymns={hymns}
+            selectedHymns={[]}
+            onSelectionChange={handleHymnPicked}
+            maxSelection={1}
+            showPlaylistCreation={false}
+          />
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,141 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ProgramComments } from './ProgramComments';
+
+const mockAuth = vi.hoisted(() => ({
+  canEditProgram: false,
+  userId: 'user_1',
+  worshipRole: 'collaborator',
+}));
+
+const mockToast = vi.hoisted(() => vi.fn());
+
+vi.mock('@/hooks/use-worship-auth', () => ({
+  useWorshipAuth: () => mockAuth,
+}));
+
+vi.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({
+    toast: mockToast,
+  }),
+}));
+
+globalThis.fetch = vi.fn();
+
+const comment = {
+  programId: 7,
+  parentId: null,
+  sectionId: null,
+  hymnId: null,
+  mentions: [],
+  visibility: 'member',
+  isResolved: false,
+  resolvedBy: null,
+  resolvedAt: null,
+  createdAt: '2025-04-01T12:00:00.000Z',
+};
+
+const threads = [
+  {
+    ...comment,
+    id: 3,
+    sectionId: 'sermon',
+    body: 'Keep it under 25 minutes',
+    mentions: ['user_1'],
+    visibility: 'collaborator',
+    createdBy: 'user_2',
+    replies: [{ ...comment, id: 4, parentId: 3, sectionId: 'sermon', body: 'Will do', createdBy: 'user_1' }],
+  },
+  { ...comment, id: 5, hymnId: 4, body: 'Lower key for the choir?', createdBy: 'user_1', replies: [] },
+];
+
+const members = [
+  { userId: 'user_1', firstName: 'Ana', lastName: null, emailAddress: 'ana@example.com', worshipRole: 'collaborator' as const },
+  { userId: 'user_2', firstName: 'Ben', lastName: null, emailAddress: 'ben@example.com', worshipRole: 'pastor' as const },
+  { userId: 'user_3', firstName: 'Cleo', lastName: null, emailAddress: 'cleo@example.com', worshipRole: 'member' as const },
+];
+
+const jsonResponse = (data: unknown) => Promise.resolve({ json: () => Promise.resolve({ success: true, data }) });
+
+describe('ProgramComments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(fetch).mockImplementation((_input: any, init?: any) => {
+      if (init?.method === 'PATCH') {
+        return jsonResponse({ isResolved: true }) as any;
+      }
+      return jsonResponse(init?.method === 'POST' ? { id: 9 } : threads) as any;
+    });
+  });
+
+  const renderComments = async () => {
+    render(
+      <ProgramComments
+        programId={7}
+        sections={[{ id: 'sermon', title: 'He Is Risen' }]}
+        hymns={[{ hymnId: 4, title: 'Crown Him with Many Crowns' }]}
+        members={members}
+      />,
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Keep it under 25 minutes')).toBeInTheDocument();
+    });
+  };
+
+  it('shows threads on their anchor with replies and mentions', async () => {
+    await renderComments();
+
+    const [sermon, hymn] = screen.getAllByTestId('comment-thread');
+
+    expect(sermon).toHaveTextContent('He Is Risen');
+    expect(sermon).toHaveTextContent('Collaborator and above');
+    expect(sermon).toHaveTextContent('@Ana');
+    expect(sermon).toHaveTextContent('Will do');
+    expect(hymn).toHaveTextContent('Crown Him with Many Crowns');
+  });
+
+  it('lets authors resolve their own threads', async () => {
+    await renderComments();
+
+    expect(screen.getAllByText('Resolve')).toHaveLength(1);
+
+    fireEvent.click(screen.getByText('Resolve'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Resolved')).toBeInTheDocument();
+    });
+
+    expect(fetch).toHaveBeenCalledWith('/api/worship/programs/7/comments/5', expect.objectContaining({
+      method: 'PATCH',
+      body: JSON.stringify({ isResolved: true }),
+    }));
+  });
+
+  it('replies to a thread and starts a new one with mentions', async () => {
+    await renderComments();
+
+    fireEvent.change(screen.getByLabelText('Reply to Ben'), { target: { value: 'Done' } });
+    fireEvent.click(screen.getAllByText('Reply')[0]!);
+
+    await waitFor(() => {
+      expect(fetch).toHaveBeenCalledWith('/api/worship/programs/7/comments', expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ body: 'Done', parentId: 3 }),
+      }));
+    });
+
+    fireEvent.change(screen.getByLabelText('New comment'), { target: { value: 'Who brings the palms?' } });
+    fireEvent.click(screen.getByLabelText('@Cleo'));
+    fireEvent.click(screen.getByText('Comment'));
+
+    await waitFor(() => {
+      expect(fetch).toHaveBeenCalledWith('/api/worship/programs/7/comments', expect.objectContaining({
+        body: JSON.stringify({ body: 'Who brings the palms?', sectionId: null, hymnId: null, visibility: 'member', mentions: ['user_3'] }),
+      }));
+    });
+  });
+});
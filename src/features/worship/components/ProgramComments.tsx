@@ -0,0 +1,317 @@
+'use client';
+
+import { CheckCircle2, MessageSquare, RotateCcw } from 'lucide-react';
+import React, { useCallback, useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useWorshipAuth } from '@/hooks/use-worship-auth';
+import type { ExtendedWorshipRole } from '@/lib/worship-role-utils';
+import { WorshipRoleDisplayNames, WorshipRoleHierarchy } from '@/lib/worship-role-utils';
+import type { ProgramCommentRecord } from '@/libs/worship/ProgramComments';
+
+// Comment rows as returned by the comments API
+type CommentItem = Omit<ProgramCommentRecord, 'mentions' | 'createdAt' | 'resolvedAt'> & {
+  mentions: string[];
+  createdAt: string;
+  resolvedAt: string | null;
+};
+
+type ThreadItem = CommentItem & {
+  replies: CommentItem[];
+};
+
+type CommentMember = {
+  userId?: string;
+  firstName: string | null;
+  lastName: string | null;
+  emailAddress: string;
+  worshipRole: ExtendedWorshipRole;
+};
+
+type ProgramCommentsProps = {
+  programId: number;
+  sections: { id: string; title: string }[];
+  hymns: { hymnId: number; title: string }[];
+  members: CommentMember[];
+};
+
+// Anchors are picked as `program`, `section:<id>` or `hymn:<id>`
+const PROGRAM_ANCHOR = 'program';
+
+const VISIBILITIES: ExtendedWorshipRole[] = ['member', 'collaborator', 'worship_leader', 'pastor', 'admin'];
+
+const canSee = (role: ExtendedWorshipRole, visibility: string) =>
+  WorshipRoleHierarchy[role] >= (WorshipRoleHierarchy[visibility as ExtendedWorshipRole] ?? Infinity);
+
+export function ProgramComments({ programId, sections, hymns, members }: ProgramCommentsProps) {
+  const [threads, setThreads] = useState<ThreadItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [posting, setPosting] = useState(false);
+  const [body, setBody] = useState('');
+  const [anchor, setAnchor] = useState(PROGRAM_ANCHOR);
+  const [visibility, setVisibility] = useState<ExtendedWorshipRole>('member');
+  const [mentions, setMentions] = useState<string[]>([]);
+  const [replies, setReplies] = useState<Record<number, string>>({});
+  const { canEditProgram, userId, worshipRole } = useWorshipAuth();
+  const { toast } = useToast();
+
+  const getName = (memberId: string) => {
+    const member = members.find(other => other.userId === memberId);
+
+    return member ? [member.firstName, member.lastName].filter(Boolean).join(' ') || member.emailAddress : memberId;
+  };
+
+  const getAnchorLabel = (comment: CommentItem) => {
+    if (comment.sectionId) {
+      return sections.find(section => section.id === comment.sectionId)?.title ?? 'Removed section';
+    }
+    if (comment.hymnId) {
+      return hymns.find(hymn => hymn.hymnId === comment.hymnId)?.title ?? 'Removed hymn';
+    }
+    return 'Whole program';
+  };
+
+  const loadComments = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/worship/programs/${programId}/comments`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setThreads(result.data);
+    } catch (error) {
+      console.error('Failed to load program comments:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load comments',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [programId, toast]);
+
+  useEffect(() => {
+    loadComments();
+  }, [loadComments]);
+
+  const postComment = async (comment: Record<string, unknown>) => {
+    setPosting(true);
+    try {
+      const response = await fetch(`/api/worship/programs/${programId}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(comment),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to add comment');
+      }
+
+      await loadComments();
+      return true;
+    } catch (error) {
+      console.error('Failed to add program comment:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add comment',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleStartThread = async () => {
+    const [type, id] = anchor.split(':');
+    const posted = await postComment({
+      body,
+      sectionId: type === 'section' ? id : null,
+      hymnId: type === 'hymn' ? Number(id) : null,
+      visibility,
+      mentions,
+    });
+
+    if (posted) {
+      setBody('');
+      setMentions([]);
+    }
+  };
+
+  const handleReply = async (threadId: number) => {
+    if (await postComment({ body: replies[threadId], parentId: threadId })) {
+      setReplies(current => ({ ...current, [threadId]: '' }));
+    }
+  };
+
+  const handleResolve = async (thread: ThreadItem) => {
+    try {
+      const response = await fetch(`/api/worship/programs/${programId}/comments/${thread.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isResolved: !thread.isResolved }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update thread');
+      }
+
+      setThreads(current => current.map(other => (other.id === thread.id ? { ...other, ...result.data } : other)));
+    } catch (error) {
+      console.error('Failed to update program comment:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update thread',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Only members who can see the thread can be mentioned in it
+  const mentionable = members.filter(member => member.userId && member.userId !== userId && canSee(member.worshipRole, visibility));
+
+  const renderComment = (comment: CommentItem) => (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">{getName(comment.createdBy)}</span>
+        {` · ${new Date(comment.createdAt).toLocaleString()}`}
+      </p>
+      <p className="whitespace-pre-wrap text-sm">{comment.body}</p>
+      {comment.mentions.length > 0 && (
+        <p className="text-xs text-blue-700">{comment.mentions.map(mention => `@${getName(mention)}`).join(' ')}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {loading && <p className="text-sm text-muted-foreground">Loading comments...</p>}
+      {!loading && threads.length === 0 && (
+        <p className="text-sm text-muted-foreground">No comments yet. Start a thread on the program, a section or a hymn.</p>
+      )}
+
+      <ul className="max-h-96 space-y-3 overflow-y-auto">
+        {threads.map(thread => (
+          <li key={thread.id} className={`space-y-3 rounded-md border p-3 ${thread.isResolved ? 'opacity-70' : ''}`} data-testid="comment-thread">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline">{getAnchorLabel(thread)}</Badge>
+              {thread.visibility !== 'member' && (
+                <Badge variant="secondary">{`${WorshipRoleDisplayNames[thread.visibility as ExtendedWorshipRole]} and above`}</Badge>
+              )}
+              {thread.isResolved && <Badge>Resolved</Badge>}
+              {(canEditProgram || thread.createdBy === userId) && (
+                <Button variant="ghost" size="sm" className="ml-auto" onClick={() => handleResolve(thread)}>
+                  {thread.isResolved
+                    ? <RotateCcw className="mr-2 size-4" />
+                    : <CheckCircle2 className="mr-2 size-4" />}
+                  {thread.isResolved ? 'Reopen' : 'Resolve'}
+                </Button>
+              )}
+            </div>
+            {renderComment(thread)}
+            {thread.replies.length > 0 && (
+              <ul className="space-y-2 border-l pl-3">
+                {thread.replies.map(reply => <li key={reply.id}>{renderComment(reply)}</li>)}
+              </ul>
+            )}
+            {!thread.isResolved && (
+              <div className="flex gap-2">
+                <Textarea
+                  aria-label={`Reply to ${getName(thread.createdBy)}`}
+                  className="min-h-[40px]"
+                  value={replies[thread.id] ?? ''}
+                  onChange={event => setReplies(current => ({ ...current, [thread.id]: event.target.value }))}
+                  placeholder="Reply..."
+                />
+                <Button variant="outline" onClick={() => handleReply(thread.id)} disabled={posting || !replies[thread.id]?.trim()}>
+                  Reply
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="space-y-3 rounded-md border p-3">
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label>About</Label>
+            <Select value={anchor} onValueChange={setAnchor}>
+              <SelectTrigger aria-label="Comment on">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PROGRAM_ANCHOR}>Whole program</SelectItem>
+                {sections.map(section => (
+                  <SelectItem key={section.id} value={`section:${section.id}`}>{section.title}</SelectItem>
+                ))}
+                {hymns.map(hymn => (
+                  <SelectItem key={hymn.hymnId} value={`hymn:${hymn.hymnId}`}>{`Hymn: ${hymn.title}`}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Visible to</Label>
+            <Select
+              value={visibility}
+              onValueChange={(value) => {
+                setVisibility(value as ExtendedWorshipRole);
+                setMentions([]);
+              }}
+            >
+              <SelectTrigger aria-label="Visible to">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VISIBILITIES.filter(role => canSee(worshipRole, role)).map(role => (
+                  <SelectItem key={role} value={role}>
+                    {role === 'member' ? 'Everyone' : `${WorshipRoleDisplayNames[role]} and above`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Textarea
+          aria-label="New comment"
+          value={body}
+          onChange={event => setBody(event.target.value)}
+          placeholder="Add a comment..."
+        />
+        {mentionable.length > 0 && (
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {mentionable.map(member => (
+              <div key={member.userId} className="flex items-center gap-2">
+                <Checkbox
+                  id={`mention-${member.userId}`}
+                  checked={mentions.includes(member.userId!)}
+                  onCheckedChange={checked => setMentions(current => (checked === true
+                    ? [...current, member.userId!]
+                    : current.filter(mention => mention !== member.userId)))}
+                />
+                <Label htmlFor={`mention-${member.userId}`}>{`@${getName(member.userId!)}`}</Label>
+              </div>
+            ))}
+          </div>
+        )}
+        <Button onClick={handleStartThread} disabled={posting || !body.trim()}>
+          <MessageSquare className="mr-2 size-4" />
+          Comment
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+'use client';
+
+import { AlertTriangle, CalendarDays, Copy, ListMusic, Music, Plus } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { CalendarEvent, ProgramStatus } from '@/features/worship/types';
+import { useToast } from '@/hooks/use-toast';
+import { useWorshipAuth } from '@/hooks/use-worship-auth';
+import type { RecentHymn } from '@/libs/worship/ProgramDuplication';
+import { formatInTimeZone } from '@/utils/TimeZone';
+
+import { EventCalendar } from './EventCalendar';
+import type { BuilderProgram } from './ProgramBuilder';
+import { ProgramBuilder } from './ProgramBuilder';
+
+// Program rows as returned by the programs list API
+type PlannerProgram = {
+  id: number;
+  title: string;
+  status: ProgramStatus;
+  occurrenceDate: string | null;
+  hymnCount: number;
+  updatedAt: string;
+  event: {
+    id: number;
+    title: string;
+    eventDate: string;
+  };
+  service: {
+    name: string;
+  };
+  church: {
+    timezone: string | null;
+  };
+};
+
+type TemplateOption = {
+  id: number;
+  name: string;
+};
+
+const RECENT_PROGRAMS = 10;
+
+// Template select value for programs that start without sections
+const BLANK_PROGRAM = 'blank';
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' };
+
+const getProgramDate = (program: PlannerProgram) =>
+  program.occurrenceDate
+    ? formatInTimeZone(`${program.occurrenceDate}T12:00:00Z`, 'UTC', DATE_FORMAT)
+    : formatInTimeZone(program.event.eventDate, program.church.timezone, DATE_FORMAT);
+
+export function ProgramPlanner() {
+  const [programs, setPrograms] = useState<PlannerProgram[]>([]);
+  const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null);
+  const [selectedProgramId, setSelectedProgramId] = useState<number | null>(null);
+  const [templates, setTemplates] = useState<TemplateOption[]>([]);
+  const [templateId, setTemplateId] = useState(BLANK_PROGRAM);
+  const [creating, setCreating] = useState(false);
+  const [sourceProgramId, setSourceProgramId] = useState<string>('');
+  const [includeAssignments, setIncludeAssignments] = useState(false);
+  const [recentHymns, setRecentHymns] = useState<RecentHymn[]>([]);
+  const { canCreateProgram, organizationId } = useWorshipAuth();
+  const { toast } = useToast();
+
+  const loadPrograms = useCallback(async () => {
+    try {
+      const response = await fetch('/api/worship/programs');
+      const result = await response.json();
+
+      if (result.success) {
+        setPrograms(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load programs:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (organizationId) {
+      loadPrograms();
+    }
+  }, [organizationId, loadPrograms]);
+
+  // Templates available to the ministry of the selected event
+  useEffect(() => {
+    setTemplateId(BLANK_PROGRAM);
+
+    if (!selectedEvent) {
+      setTemplates([]);
+      return;
+    }
+
+    const loadTemplates = async () => {
+      try {
+        const response = await fetch(`/api/worship/program-templates?ministryId=${selectedEvent.ministry.id}`);
+        const result = await response.json();
+
+        setTemplates(result.data ?? []);
+      } catch (error) {
+        console.error('Failed to load program templates:', error);
+      }
+    };
+
+    loadTemplates();
+  }, [selectedEvent]);
+
+  // Programs of a recurring event belong to one occurrence, or to the whole series without a date
+  const eventPrograms = useMemo(() => selectedEvent
+    ? programs.filter(program => program.event.id === selectedEvent.id
+      && (selectedEvent.eventType !== 'recurring'
+        || !program.occurrenceDate
+        || program.occurrenceDate === selectedEvent.occurrenceDate))
+    : [], [programs, selectedEvent]);
+
+  const handleCreateProgram = async () => {
+    if (!selectedEvent) {
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const response = await fetch('/api/worship/programs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          eventId: selectedEvent.id,
+          occurrenceDate: selectedEvent.eventType === 'recurring' ? selectedEvent.occurrenceDate : undefined,
+          title: selectedEvent.title,
+          templateId: templateId === BLANK_PROGRAM ? undefined : Number(templateId),
+        }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to create program');
+      }
+
+      await loadPrograms();
+      setSelectedProgramId(result.data.id);
+      toast({
+        title: 'Success',
+        description: 'Program created successfully',
+      });
+    } catch (error) {
+      console.error('Failed to create program:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create program',
+        variant: 'destructive',
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDuplicateProgram = async () => {
+    if (!selectedEvent || !sourceProgramId) {
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const response = await fetch(`/api/worship/programs/${sourceProgramId}/duplicate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          eventId: selectedEvent.id,
+          occurrenceDate: selectedEvent.eventType === 'recurring' ? selectedEvent.occurrenceDate : undefined,
+          includeAssignments,
+        }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to duplicate program');
+      }
+
+      await loadPrograms();
+      setSelectedProgramId(result.data.id);
+      setRecentHymns(result.data.recentHymns);
+      toast({
+        title: 'Success',
+        description: result.message,
+      });
+    } catch (error) {
+      console.error('Failed to duplicate program:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to duplicate program',
+        variant: 'destructive',
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const selectProgram = (programId: number) => {
+    setSelectedProgramId(programId);
+    setRecentHymns([]);
+  };
+
+  const handleProgramSaved = (saved: BuilderProgram) =>
+    setPrograms(current => current.map(program =>
+      program.id === saved.id ? { ...program, title: saved.title, status: saved.status } : program));
+
+  const renderProgram = (program: PlannerProgram) => (
+    <li key={program.id}>
+      <button
+        type="button"
+        onClick={() => selectProgram(program.id)}
+        className={`flex w-full items-center justify-between gap-2 rounded-md border p-3 text-left hover:bg-muted ${
+          selectedProgramId === program.id ? 'border-primary' : ''
+        }`}
+      >
+        <div>
+          <div className="font-medium">{program.title}</div>
+          <div className="text-sm text-muted-foreground">
+            {program.service.name}
+            {' · '}
+            {getProgramDate(program)}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="flex items-center gap-1 text-sm text-muted-foreground">
+            <Music className="size-3" />
+            {program.hymnCount}
+          </span>
+          <Badge variant={program.status === 'published' ? 'default' : 'secondary'}>{program.status}</Badge>
+        </div>
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="space-y-6">
+      <EventCalendar onEventClick={setSelectedEvent} />
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="size-5" />
+              {selectedEvent ? selectedEvent.title : 'Service Planning'}
+            </CardTitle>
+            <CardDescription>
+              {selectedEvent
+                ? formatInTimeZone(selectedEvent.start, selectedEvent.church.timezone)
+                : 'Select an event in the calendar to plan its program'}
+            </CardDescription>
+          </CardHeader>
+          {selectedEvent && (
+            <CardContent className="space-y-3">
+              {eventPrograms.length === 0
+                ? <p className="text-sm text-muted-foreground">No program planned for this event yet.</p>
+                : <ul className="space-y-2">{eventPrograms.map(renderProgram)}</ul>}
+              {canCreateProgram && (
+                <div className="flex items-center gap-2">
+                  <Select value={templateId} onValueChange={setTemplateId}>
+                    <SelectTrigger className="w-56" aria-label="Program template">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={BLANK_PROGRAM}>Blank program</SelectItem>
+                      {templates.map(template => (
+                        <SelectItem key={template.id} value={template.id.toString()}>{template.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={handleCreateProgram} disabled={creating}>
+                    <Plus className="mr-2 size-4" />
+                    {creating ? 'Creating...' : 'Create Program'}
+                  </Button>
+                </div>
+              )}
+              {canCreateProgram && programs.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <Select value={sourceProgramId} onValueChange={setSourceProgramId}>
+                    <SelectTrigger className="w-56" aria-label="Program to copy">
+                      <SelectValue placeholder="Copy an earlier program..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {programs.slice(0, RECENT_PROGRAMS).map(program => (
+                        <SelectItem key={program.id} value={program.id.toString()}>
+                          {`${program.title} · ${getProgramDate(program)}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="copy-assignments"
+                      checked={includeAssignments}
+                      onCheckedChange={checked => setIncludeAssignments(checked === true)}
+                    />
+                    <Label htmlFor="copy-assignments">Copy assignments</Label>
+                  </div>
+                  <Button variant="outline" onClick={handleDuplicateProgram} disabled={creating || !sourceProgramId}>
+                    <Copy className="mr-2 size-4" />
+                    Duplicate
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          )}
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListMusic className="size-5" />
+              Recent Programs
+            </CardTitle>
+            <CardDescription>Latest programs edited by your team</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {programs.length === 0
+              ? <p className="text-sm text-muted-foreground">No programs yet.</p>
+              : <ul className="space-y-2">{programs.slice(0, RECENT_PROGRAMS).map(renderProgram)}</ul>}
+          </CardContent>
+        </Card>
+      </div>
+
+      {recentHymns.length > 0 && (
+        <Card className="border-amber-300 bg-amber-50" data-testid="recent-hymns">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <AlertTriangle className="size-4 text-amber-600" />
+              Recently sung hymns
+            </CardTitle>
+            <CardDescription>Consider swapping these hymns to avoid repeating recent services</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-1 text-sm">
+              {recentHymns.map(hymn => (
+                <li key={hymn.hymnId}>
+                  <span className="font-medium">{hymn.title}</span>
+                  {` · ${hymn.programTitle}, ${hymn.lastUsedOn}`}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {selectedProgramId !== null && (
+        <ProgramBuilder programId={selectedProgramId} onSaved={handleProgramSaved} />
+      )}
+    </div>
+  );
+}
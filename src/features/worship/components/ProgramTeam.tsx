@@ -0,0 +1,316 @@
+'use client';
+
+import { AlertTriangle, Trash2, UserPlus, Users } from 'lucide-react';
+import React, { useCallback, useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { SkillProficiency } from '@/features/worship/types';
+import { useToast } from '@/hooks/use-toast';
+import type { MemberSkillItem, SkillRecord } from '@/libs/worship/MemberSkills';
+import type { AssignmentStatus, ProgramAssignmentRecord } from '@/libs/worship/ProgramAssignments';
+import type { AvailabilityConflict } from '@/libs/worship/VolunteerAvailability';
+
+// Assignment rows as returned by the program assignments API
+type TeamAssignment = Pick<ProgramAssignmentRecord, 'id' | 'userId' | 'role' | 'notes' | 'declineReason'> & {
+  status: AssignmentStatus;
+};
+
+type TeamMember = {
+  userId?: string;
+  firstName: string | null;
+  lastName: string | null;
+  emailAddress: string;
+};
+
+type ProgramTeamProps = {
+  programId: number;
+  churchId?: number; // Church of the program, to prefer members serving there when filtering by skill
+  members: TeamMember[];
+  readOnly: boolean;
+};
+
+const STATUS_LABELS: Record<AssignmentStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  declined: 'Declined',
+};
+
+const STATUS_VARIANTS: Record<AssignmentStatus, 'secondary' | 'default' | 'destructive'> = {
+  pending: 'secondary',
+  accepted: 'default',
+  declined: 'destructive',
+};
+
+const PROFICIENCY_LABELS: Record<SkillProficiency, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+};
+
+// Value of the skill select when candidates are not filtered by skill
+const ANY_SKILL = 'any';
+
+// Roles offered when assigning, any other role can be typed in
+const SUGGESTED_ROLES = ['worship leader', 'pianist', 'organist', 'vocalist', 'guitarist', 'sound', 'projection'];
+
+export function ProgramTeam({ programId, churchId, members, readOnly }: ProgramTeamProps) {
+  const [assignments, setAssignments] = useState<TeamAssignment[]>([]);
+  const [skills, setSkills] = useState<Pick<SkillRecord, 'id' | 'name'>[]>([]);
+  const [skillId, setSkillId] = useState(ANY_SKILL);
+  // Members with the selected skill, the most proficient first
+  const [candidates, setCandidates] = useState<MemberSkillItem['memberSkill'][] | null>(null);
+  const [memberId, setMemberId] = useState('');
+  const [role, setRole] = useState('');
+  const [saving, setSaving] = useState(false);
+  // Why the selected member may be unavailable, once the assignment was refused for it
+  const [conflicts, setConflicts] = useState<AvailabilityConflict[]>([]);
+  const { toast } = useToast();
+
+  const getName = (userId: string) => {
+    const member = members.find(other => other.userId === userId);
+
+    return member ? [member.firstName, member.lastName].filter(Boolean).join(' ') || member.emailAddress : 'Former member';
+  };
+
+  const loadAssignments = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/worship/programs/${programId}/assignments`);
+      const result = await response.json();
+
+      if (result.success) {
+        setAssignments(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load program assignments:', error);
+    }
+  }, [programId]);
+
+  useEffect(() => {
+    loadAssignments();
+  }, [loadAssignments]);
+
+  useEffect(() => {
+    if (readOnly) {
+      return;
+    }
+
+    fetch('/api/worship/skills')
+      .then(response => response.json())
+      .then((result) => {
+        if (result.success) {
+          setSkills(result.data);
+        }
+      })
+      .catch(error => console.error('Failed to load skills:', error));
+  }, [readOnly]);
+
+  const handleSkillChange = async (value: string) => {
+    setSkillId(value);
+    setCandidates(null);
+    setMemberId('');
+    setConflicts([]);
+
+    if (value === ANY_SKILL) {
+      return;
+    }
+
+    const skill = skills.find(other => String(other.id) === value);
+
+    setRole(current => current || skill?.name.toLowerCase() || '');
+    try {
+      const query = new URLSearchParams({ skillId: value, ...(churchId ? { churchId: String(churchId) } : {}) });
+      const response = await fetch(`/api/worship/member-skills?${query}`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setCandidates(result.data.map((item: MemberSkillItem) => item.memberSkill));
+    } catch (error) {
+      console.error('Failed to load members with skill:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load the members with this skill',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Members offered for the assignment: those with the selected skill, else everyone
+  const memberOptions = candidates
+    ? candidates.flatMap((candidate) => {
+        const member = members.find(other => other.userId === candidate.userId);
+
+        return member ? [{ member, proficiency: candidate.proficiency }] : [];
+      })
+    : members.map(member => ({ member, proficiency: null }));
+
+  const handleAssign = async (ignoreAvailability = false) => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/worship/programs/${programId}/assignments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: memberId, role, ignoreAvailability }),
+      });
+      const result = await response.json();
+
+      if (Array.isArray(result.conflicts)) {
+        setConflicts(result.conflicts);
+        return;
+      }
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to assign member');
+      }
+
+      setAssignments(current => [...current, result.data]);
+      setMemberId('');
+      setRole('');
+      setConflicts([]);
+    } catch (error) {
+      console.error('Failed to add program assignment:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to assign member',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (assignmentId: number) => {
+    try {
+      const response = await fetch(`/api/worship/programs/${programId}/assignments/${assignmentId}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to remove assignment');
+      }
+
+      setAssignments(current => current.filter(assignment => assignment.id !== assignmentId));
+    } catch (error) {
+      console.error('Failed to delete program assignment:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to remove assignment',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2 border-t pt-4">
+      <Label className="flex items-center gap-2">
+        <Users className="size-4" />
+        Team
+      </Label>
+      {assignments.length === 0 && (
+        <p className="text-sm text-muted-foreground">Nobody is assigned yet.</p>
+      )}
+      <ul className="space-y-2">
+        {assignments.map(assignment => (
+          <li key={assignment.id} className="flex flex-wrap items-center gap-2 text-sm" data-testid="team-assignment">
+            <span className="font-medium">{getName(assignment.userId)}</span>
+            <Badge variant="outline" className="capitalize">{assignment.role}</Badge>
+            <Badge variant={STATUS_VARIANTS[assignment.status]}>{STATUS_LABELS[assignment.status]}</Badge>
+            {assignment.status === 'declined' && assignment.declineReason && (
+              <span className="text-muted-foreground">{assignment.declineReason}</span>
+            )}
+            {!readOnly && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-auto"
+                onClick={() => handleRemove(assignment.id)}
+                aria-label={`Remove ${getName(assignment.userId)} as ${assignment.role}`}
+              >
+                <Trash2 className="size-4" />
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {!readOnly && (
+        <div className="flex flex-wrap items-center gap-2">
+          {skills.length > 0 && (
+            <Select value={skillId} onValueChange={handleSkillChange}>
+              <SelectTrigger className="w-40" aria-label="Skill">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_SKILL}>Any skill</SelectItem>
+                {skills.map(skill => (
+                  <SelectItem key={skill.id} value={String(skill.id)}>{skill.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select
+            value={memberId}
+            onValueChange={(value) => {
+              setMemberId(value);
+              setConflicts([]);
+            }}
+          >
+            <SelectTrigger className="w-48" aria-label="Team member">
+              <SelectValue placeholder="Select a member..." />
+            </SelectTrigger>
+            <SelectContent>
+              {memberOptions.map(({ member, proficiency }) => (
+                <SelectItem key={member.userId} value={member.userId!}>
+                  {proficiency ? `${getName(member.userId!)} (${PROFICIENCY_LABELS[proficiency]})` : getName(member.userId!)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            className="w-48"
+            list="team-roles"
+            value={role}
+            onChange={e => setRole(e.target.value)}
+            placeholder="Role, e.g. sound"
+            aria-label="Team role"
+          />
+          <datalist id="team-roles">
+            {SUGGESTED_ROLES.map(suggestion => <option key={suggestion} value={suggestion} />)}
+          </datalist>
+          <Button variant="outline" onClick={() => handleAssign()} disabled={saving || !memberId || !role.trim()}>
+            <UserPlus className="mr-2 size-4" />
+            Assign
+          </Button>
+          {candidates?.length === 0 && (
+            <p className="w-full text-sm text-muted-foreground">No member has this skill yet.</p>
+          )}
+        </div>
+      )}
+      {!readOnly && conflicts.length > 0 && (
+        <div className="space-y-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800" role="alert" data-testid="availability-conflicts">
+          <p className="flex items-center gap-2 font-medium">
+            <AlertTriangle className="size-4" />
+            {`${getName(memberId)} may be unavailable`}
+          </p>
+          <ul className="list-disc pl-6">
+            {conflicts.map(conflict => <li key={conflict.message}>{conflict.message}</li>)}
+          </ul>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => handleAssign(true)} disabled={saving}>
+              Assign anyway
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setConflicts([])}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
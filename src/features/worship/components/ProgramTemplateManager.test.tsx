@@ -0,0 +1,112 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ProgramTemplateManager } from './ProgramTemplateManager';
+
+const mockAuth = vi.hoisted(() => ({
+  canCreateProgram: true,
+  canDeleteProgram: true,
+  organizationId: 'org_123',
+}));
+
+const mockToast = vi.hoisted(() => vi.fn());
+
+vi.mock('@/hooks/use-worship-auth', () => ({
+  useWorshipAuth: () => mockAuth,
+}));
+
+vi.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({
+    toast: mockToast,
+  }),
+}));
+
+globalThis.fetch = vi.fn();
+
+const templates = [
+  {
+    id: 5,
+    ministryId: null,
+    name: 'Sunday Morning',
+    description: null,
+    sections: [
+      { type: 'hymn', title: 'Doxology', hymnId: 8, estimatedDuration: 2 },
+      { type: 'sermon', title: 'Sermon' },
+    ],
+  },
+  { id: 6, ministryId: 2, name: 'Youth Night', description: null, sections: [] },
+];
+
+const jsonResponse = (data: unknown, message?: string) =>
+  Promise.resolve({ json: () => Promise.resolve({ success: true, data, message }) });
+
+describe('ProgramTemplateManager', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth.canCreateProgram = true;
+    mockAuth.canDeleteProgram = true;
+
+    vi.mocked(fetch).mockImplementation((input: any, init?: any) => {
+      const url = input.toString();
+      if (url === '/api/worship/program-templates') {
+        return jsonResponse(init?.method === 'POST' ? { id: 7 } : templates, 'Template created successfully') as any;
+      }
+      if (url.startsWith('/api/worship/ministries')) {
+        return jsonResponse([{ id: 2, name: 'Youth Ministry' }]) as any;
+      }
+      return jsonResponse([]) as any;
+    });
+  });
+
+  it('lists templates with their scope and length', async () => {
+    render(<ProgramTemplateManager />);
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId('program-template')).toHaveLength(2);
+    });
+
+    expect(screen.getByText('2 sections · 32 min')).toBeInTheDocument();
+    expect(await screen.findByText('Youth Ministry')).toBeInTheDocument();
+    expect(screen.getByText('Organization')).toBeInTheDocument();
+  });
+
+  it('creates a template with its sections', async () => {
+    render(<ProgramTemplateManager />);
+
+    fireEvent.click(await screen.findByText('New Template'));
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Evening Prayer' } });
+    fireEvent.click(screen.getByText('Add Section'));
+    fireEvent.change(screen.getByLabelText('Section title'), { target: { value: 'Scripture Reading' } });
+    fireEvent.change(screen.getByLabelText('Section roles'), { target: { value: 'Reader' } });
+    fireEvent.click(screen.getByText('Save Template'));
+
+    await waitFor(() => {
+      expect(mockToast).toHaveBeenCalledWith(expect.objectContaining({ description: 'Template created successfully' }));
+    });
+
+    expect(fetch).toHaveBeenCalledWith('/api/worship/program-templates', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({
+        name: 'Evening Prayer',
+        description: null,
+        ministryId: null,
+        sections: [{ type: 'other', title: 'Scripture Reading', estimatedDuration: 5, roles: ['Reader'] }],
+      }),
+    }));
+  });
+
+  it('hides editing without program permissions', async () => {
+    mockAuth.canCreateProgram = false;
+    mockAuth.canDeleteProgram = false;
+
+    render(<ProgramTemplateManager />);
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId('program-template')).toHaveLength(2);
+    });
+
+    expect(screen.queryByText('New Template')).not.toBeInTheDocument();
+    expect(screen.queryByLabelText('Delete Sunday Morning')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,409 @@
+'use client';
+
+import { ArrowDown, ArrowUp, FileText, Pencil, Plus, Trash2, X } from 'lucide-react';
+import React, { useCallback, useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import type { TemplateSection } from '@/features/worship/types';
+import { useToast } from '@/hooks/use-toast';
+import { useWorshipAuth } from '@/hooks/use-worship-auth';
+import type { SectionType } from '@/libs/worship/ProgramBuilder';
+import { DEFAULT_SECTION_DURATIONS, SECTION_LABELS, SECTION_TYPES } from '@/libs/worship/ProgramBuilder';
+
+// Template rows as returned by the program templates API
+type TemplateItem = {
+  id: number;
+  ministryId: number | null;
+  name: string;
+  description: string | null;
+  sections: TemplateSection[];
+};
+
+type TemplateDraft = {
+  id: number | null;
+  ministryId: number | null;
+  name: string;
+  description: string;
+  sections: TemplateSection[];
+};
+
+type NamedItem = {
+  id: number;
+  name?: string;
+  title?: string;
+};
+
+// Scope value of organization-wide templates in the ministry select
+const ORGANIZATION_SCOPE = 'organization';
+
+const emptyDraft = (): TemplateDraft => ({
+  id: null,
+  ministryId: null,
+  name: '',
+  description: '',
+  sections: [],
+});
+
+const getTotalDuration = (sections: TemplateSection[]) =>
+  sections.reduce((total, section) => total + (section.estimatedDuration ?? DEFAULT_SECTION_DURATIONS[section.type]), 0);
+
+export function ProgramTemplateManager() {
+  const [templates, setTemplates] = useState<TemplateItem[]>([]);
+  const [ministries, setMinistries] = useState<NamedItem[]>([]);
+  const [hymns, setHymns] = useState<NamedItem[]>([]);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { canCreateProgram, canDeleteProgram, organizationId } = useWorshipAuth();
+  const { toast } = useToast();
+
+  const loadTemplates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/worship/program-templates');
+      const result = await response.json();
+
+      if (result.success) {
+        setTemplates(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load program templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!organizationId) {
+      return;
+    }
+
+    const loadOptions = async () => {
+      try {
+        const [ministriesResponse, hymnsResponse] = await Promise.all([
+          fetch(`/api/worship/ministries?organizationId=${organizationId}`),
+          fetch(`/api/worship/hymns?organizationId=${organizationId}`),
+        ]);
+        const [ministriesResult, hymnsResult] = await Promise.all([
+          ministriesResponse.json(),
+          hymnsResponse.json(),
+        ]);
+
+        setMinistries(ministriesResult.data ?? []);
+        setHymns(hymnsResult.data ?? []);
+      } catch (error) {
+        console.error('Failed to load ministries and hymns:', error);
+      }
+    };
+
+    loadTemplates();
+    loadOptions();
+  }, [organizationId, loadTemplates]);
+
+  const updateSection = (index: number, changes: Partial<TemplateSection>) =>
+    setDraft(current => current && {
+      ...current,
+      sections: current.sections.map((section, i) => (i === index ? { ...section, ...changes } : section)),
+    });
+
+  const moveSection = (index: number, offset: number) =>
+    setDraft((current) => {
+      const target = index + offset;
+
+      if (!current || target < 0 || target >= current.sections.length) {
+        return current;
+      }
+
+      const sections = [...current.sections];
+      [sections[index], sections[target]] = [sections[target]!, sections[index]!];
+
+      return { ...current, sections };
+    });
+
+  const addSection = () =>
+    setDraft(current => current && {
+      ...current,
+      sections: [...current.sections, { type: 'other', title: SECTION_LABELS.other, estimatedDuration: DEFAULT_SECTION_DURATIONS.other }],
+    });
+
+  const handleSave = async () => {
+    if (!draft) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(draft.id ? `/api/worship/program-templates/${draft.id}` : '/api/worship/program-templates', {
+        method: draft.id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: draft.name,
+          description: draft.description || null,
+          ministryId: draft.ministryId,
+          sections: draft.sections,
+        }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to save template');
+      }
+
+      setDraft(null);
+      toast({
+        title: 'Success',
+        description: result.message,
+      });
+      await loadTemplates();
+    } catch (error) {
+      console.error('Failed to save program template:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save template',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: TemplateItem) => {
+    // eslint-disable-next-line no-alert
+    if (!confirm(`Delete the template "${template.name}"? Programs created from it are kept.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/worship/program-templates/${template.id}`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete template');
+      }
+
+      setTemplates(current => current.filter(item => item.id !== template.id));
+    } catch (error) {
+      console.error('Failed to delete program template:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete template',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const getScopeName = (template: TemplateItem) =>
+    template.ministryId === null
+      ? 'Organization'
+      : ministries.find(ministry => ministry.id === template.ministryId)?.name ?? 'Ministry';
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="size-5" />
+              Service Templates
+            </CardTitle>
+            <CardDescription>Reusable service structures to start programs from</CardDescription>
+          </div>
+          {canCreateProgram && (
+            <Button variant="outline" onClick={() => setDraft(emptyDraft())}>
+              <Plus className="mr-2 size-4" />
+              New Template
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading
+          ? <p className="text-sm text-muted-foreground">Loading templates...</p>
+          : templates.length === 0
+            ? <p className="text-sm text-muted-foreground">No templates yet.</p>
+            : (
+                <ul className="space-y-2">
+                  {templates.map(template => (
+                    <li key={template.id} className="flex items-center justify-between gap-2 rounded-md border p-3" data-testid="program-template">
+                      <div>
+                        <div className="flex items-center gap-2 font-medium">
+                          {template.name}
+                          <Badge variant="secondary">{getScopeName(template)}</Badge>
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {`${template.sections.length} sections · ${getTotalDuration(template.sections)} min`}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        {canCreateProgram && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            aria-label={`Edit ${template.name}`}
+                            onClick={() => setDraft({ ...template, description: template.description ?? '' })}
+                          >
+                            <Pencil className="size-4" />
+                          </Button>
+                        )}
+                        {canDeleteProgram && (
+                          <Button variant="ghost" size="sm" aria-label={`Delete ${template.name}`} onClick={() => handleDelete(template)}>
+                            <Trash2 className="size-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+      </CardContent>
+
+      <Dialog open={draft !== null} onOpenChange={open => !open && setDraft(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit Template' : 'New Template'}</DialogTitle>
+            <DialogDescription>Programs created from the template start with these sections</DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="template-name">Name</Label>
+                  <Input
+                    id="template-name"
+                    value={draft.name}
+                    onChange={e => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="Sunday Morning Worship"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Available to</Label>
+                  <Select
+                    value={draft.ministryId?.toString() ?? ORGANIZATION_SCOPE}
+                    onValueChange={value => setDraft({ ...draft, ministryId: value === ORGANIZATION_SCOPE ? null : Number(value) })}
+                  >
+                    <SelectTrigger aria-label="Template scope">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ORGANIZATION_SCOPE}>Whole organization</SelectItem>
+                      {ministries.map(ministry => (
+                        <SelectItem key={ministry.id} value={ministry.id.toString()}>{ministry.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-description">Description</Label>
+                <Textarea
+                  id="template-description"
+                  value={draft.description}
+                  onChange={e => setDraft({ ...draft, description: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Sections</Label>
+                {draft.sections.map((section, index) => (
+                  // eslint-disable-next-line react/no-array-index-key -- template sections have no ID of their own
+                  <div key={index} className="space-y-2 rounded-md border p-2" data-testid="template-section">
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={section.type}
+                        onValueChange={type => updateSection(index, {
+                          type: type as SectionType,
+                          hymnId: type === 'hymn' ? section.hymnId : undefined,
+                        })}
+                      >
+                        <SelectTrigger className="w-36" aria-label="Section type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SECTION_TYPES.map(type => (
+                            <SelectItem key={type} value={type}>{SECTION_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        value={section.title}
+                        onChange={e => updateSection(index, { title: e.target.value })}
+                        aria-label="Section title"
+                      />
+                      <Input
+                        type="number"
+                        min={1}
+                        className="w-20"
+                        value={section.estimatedDuration ?? ''}
+                        onChange={e => updateSection(index, { estimatedDuration: e.target.value ? Number(e.target.value) : undefined })}
+                        aria-label="Duration in minutes"
+                      />
+                      <Button variant="ghost" size="sm" onClick={() => moveSection(index, -1)} disabled={index === 0} aria-label="Move up">
+                        <ArrowUp className="size-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveSection(index, 1)}
+                        disabled={index === draft.sections.length - 1}
+                        aria-label="Move down"
+                      >
+                        <ArrowDown className="size-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDraft({ ...draft, sections: draft.sections.filter((_, i) => i !== index) })}
+                        aria-label="Remove section"
+                      >
+                        <X className="size-4" />
+                      </Button>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={section.roles?.join(', ') ?? ''}
+                        onChange={e => updateSection(index, { roles: e.target.value.split(',').map(role => role.trimStart()) })}
+                        placeholder="Roles, e.g. Reader, Pianist"
+                        aria-label="Section roles"
+                      />
+                      {section.type === 'hymn' && (
+                        <Select
+                          value={section.hymnId?.toString() ?? ''}
+                          onValueChange={hymnId => updateSection(index, { hymnId: Number(hymnId) })}
+                        >
+                          <SelectTrigger className="w-64" aria-label="Fixed hymn">
+                            <SelectValue placeholder="Chosen per program" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {hymns.map(hymn => (
+                              <SelectItem key={hymn.id} value={hymn.id.toString()}>{hymn.title}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" onClick={addSection}>
+                  <Plus className="mr-2 size-4" />
+                  Add Section
+                </Button>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button onClick={handleSave} disabled={saving || !draft?.name.trim()}>
+              {saving ? 'Saving...' : 'Save Template'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,103 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ProgramVersionHistory } from './ProgramVersionHistory';
+
+const mockAuth = vi.hoisted(() => ({
+  canEditProgram: true,
+  organizationId: 'org_123',
+}));
+
+const mockToast = vi.hoisted(() => vi.fn());
+
+vi.mock('@/hooks/use-worship-auth', () => ({
+  useWorshipAuth: () => mockAuth,
+}));
+
+vi.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({
+    toast: mockToast,
+  }),
+}));
+
+globalThis.fetch = vi.fn();
+
+const versions = [
+  { id: 3, versionNumber: 5, changeType: 'manual_edit', changeDescription: 'Key change', changedBy: 'user_1', createdAt: '2025-03-02T15:00:00.000Z' },
+  { id: 2, versionNumber: 3, changeType: 'auto_generated', changeDescription: 'Generated on publish', changedBy: 'user_2', createdAt: '2025-03-01T15:00:00.000Z' },
+];
+
+const jsonResponse = (data: unknown, message?: string) =>
+  Promise.resolve({ json: () => Promise.resolve({ success: true, data, message }) });
+
+describe('ProgramVersionHistory', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth.canEditProgram = true;
+
+    vi.mocked(fetch).mockImplementation((input: any) => {
+      const url = input.toString();
+      if (url === '/api/worship/programs/7/versions') {
+        return jsonResponse(versions) as any;
+      }
+      if (url.startsWith('/api/worship/programs/7/versions/diff')) {
+        return jsonResponse({
+          from: 3,
+          to: 5,
+          mode: 'line',
+          changes: [
+            { type: 'removed', line: 4, text: 'Key: C' },
+            { type: 'added', line: 4, text: 'Key: D' },
+          ],
+        }) as any;
+      }
+      if (url.endsWith('/rollback')) {
+        return jsonResponse({ versionNumber: 6, markdownContent: '# Easter\n' }, 'Program rolled back to version 3') as any;
+      }
+      if (url.startsWith('/api/worship/users')) {
+        return jsonResponse([{ userId: 'user_1', firstName: 'Jane', lastName: 'Doe', emailAddress: 'jane@example.com' }]) as any;
+      }
+      return jsonResponse([]) as any;
+    });
+  });
+
+  it('lists versions and diffs the two latest', async () => {
+    render(<ProgramVersionHistory programId={7} />);
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId('program-version')).toHaveLength(2);
+    });
+
+    expect(screen.getByText('Key change')).toBeInTheDocument();
+    expect(await screen.findByText(/Jane Doe/)).toBeInTheDocument();
+    expect(await screen.findByText('Key: D')).toBeInTheDocument();
+    expect(fetch).toHaveBeenCalledWith('/api/worship/programs/7/versions/diff?from=3&to=5&mode=line');
+  });
+
+  it('restores an earlier version', async () => {
+    const onRollback = vi.fn();
+    render(<ProgramVersionHistory programId={7} onRollback={onRollback} />);
+
+    fireEvent.click(await screen.findByText('Restore'));
+
+    await waitFor(() => {
+      expect(onRollback).toHaveBeenCalledWith({ versionNumber: 6, markdownContent: '# Easter\n' });
+    });
+
+    expect(fetch).toHaveBeenCalledWith('/api/worship/programs/7/versions/3/rollback', { method: 'POST' });
+    expect(mockToast).toHaveBeenCalledWith(expect.objectContaining({ description: 'Program rolled back to version 3' }));
+  });
+
+  it('hides restore without edit permission', async () => {
+    mockAuth.canEditProgram = false;
+
+    render(<ProgramVersionHistory programId={7} />);
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId('program-version')).toHaveLength(2);
+    });
+
+    expect(screen.queryByText('Restore')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,280 @@
+'use client';
+
+import { History, RotateCcw } from 'lucide-react';
+import React, { useCallback, useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { useWorshipAuth } from '@/hooks/use-worship-auth';
+import type { ProgramChangeType, ProgramVersionDiff } from '@/libs/worship/ProgramVersions';
+import type { DiffMode } from '@/libs/worship/TextDiff';
+
+// Version rows as returned by the versions API
+type VersionItem = {
+  id: number;
+  versionNumber: number;
+  changeType: ProgramChangeType;
+  changeDescription: string | null;
+  changedBy: string;
+  createdAt: string;
+};
+
+type Member = {
+  userId?: string;
+  firstName: string | null;
+  lastName: string | null;
+  emailAddress: string;
+};
+
+type ProgramVersionHistoryProps = {
+  programId: number;
+  onRollback?: (program: { versionNumber: number; markdownContent: string | null }) => void;
+};
+
+const CHANGE_TYPE_LABELS: Record<ProgramChangeType, string> = {
+  manual_edit: 'Edited',
+  auto_generated: 'Generated',
+  rollback: 'Rollback',
+};
+
+function DiffView({ diff }: { diff: ProgramVersionDiff }) {
+  if (diff.mode === 'word') {
+    return (
+      <pre className="whitespace-pre-wrap rounded-md border p-3 font-mono text-sm" data-testid="version-diff">
+        {diff.segments.map((segment, index) => (
+          <span
+            // eslint-disable-next-line react/no-array-index-key -- segments are positional
+            key={index}
+            className={segment.type === 'added'
+              ? 'bg-green-100 text-green-900'
+              : segment.type === 'removed'
+                ? 'bg-red-100 text-red-900 line-through'
+                : undefined}
+          >
+            {segment.text}
+          </span>
+        ))}
+      </pre>
+    );
+  }
+
+  if (diff.changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">These versions have the same markdown.</p>;
+  }
+
+  return (
+    <div className="rounded-md border font-mono text-sm" data-testid="version-diff">
+      {diff.changes.map(change => (
+        <div
+          key={`${change.type}-${change.line}`}
+          className={change.type === 'added' ? 'bg-green-50 text-green-900' : 'bg-red-50 text-red-900'}
+        >
+          <span className="inline-block w-12 select-none px-2 text-right text-muted-foreground">{change.line}</span>
+          <span className="select-none px-1">{change.type === 'added' ? '+' : '-'}</span>
+          <span className="whitespace-pre-wrap">{change.text}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function ProgramVersionHistory({ programId, onRollback }: ProgramVersionHistoryProps) {
+  const [versions, setVersions] = useState<VersionItem[]>([]);
+  const [memberNames, setMemberNames] = useState<Map<string, string>>(() => new Map());
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+  const [mode, setMode] = useState<DiffMode>('line');
+  const [diff, setDiff] = useState<ProgramVersionDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [rollingBack, setRollingBack] = useState<number | null>(null);
+  const { canEditProgram, organizationId } = useWorshipAuth();
+  const { toast } = useToast();
+
+  const loadVersions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/worship/programs/${programId}/versions`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      const items: VersionItem[] = result.data;
+      setVersions(items);
+      // Compare the two latest versions by default
+      setTo(items[0]?.versionNumber ?? null);
+      setFrom(items[1]?.versionNumber ?? null);
+    } catch (error) {
+      console.error('Failed to load program versions:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load version history',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [programId, toast]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  useEffect(() => {
+    if (!organizationId) {
+      return;
+    }
+
+    const loadMembers = async () => {
+      try {
+        const response = await fetch(`/api/worship/users?organizationId=${organizationId}`);
+        const result = await response.json();
+        const members: Member[] = result.data ?? [];
+
+        setMemberNames(new Map(members
+          .filter(member => member.userId)
+          .map(member => [
+            member.userId!,
+            [member.firstName, member.lastName].filter(Boolean).join(' ') || member.emailAddress,
+          ])));
+      } catch (error) {
+        console.error('Failed to load organization members:', error);
+      }
+    };
+
+    loadMembers();
+  }, [organizationId]);
+
+  useEffect(() => {
+    if (from === null || to === null) {
+      setDiff(null);
+      return;
+    }
+
+    const loadDiff = async () => {
+      try {
+        const response = await fetch(`/api/worship/programs/${programId}/versions/diff?from=${from}&to=${to}&mode=${mode}`);
+        const result = await response.json();
+
+        if (result.success) {
+          setDiff(result.data);
+        }
+      } catch (error) {
+        console.error('Failed to diff program versions:', error);
+      }
+    };
+
+    loadDiff();
+  }, [programId, from, to, mode]);
+
+  const handleRollback = async (versionNumber: number) => {
+    setRollingBack(versionNumber);
+    try {
+      const response = await fetch(`/api/worship/programs/${programId}/versions/${versionNumber}/rollback`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to roll back program');
+      }
+
+      onRollback?.(result.data);
+      toast({
+        title: 'Success',
+        description: result.message,
+      });
+      await loadVersions();
+    } catch (error) {
+      console.error('Failed to roll back program:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to roll back program',
+        variant: 'destructive',
+      });
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="py-6 text-center text-sm text-muted-foreground">Loading version history...</p>;
+  }
+
+  if (versions.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-muted-foreground">
+        No versions yet. Versions are recorded whenever the program's markdown changes.
+      </p>
+    );
+  }
+
+  const renderVersionSelect = (label: string, value: number | null, onChange: (value: number) => void) => (
+    <div className="flex items-center gap-2">
+      <Label>{label}</Label>
+      <Select value={value?.toString() ?? ''} onValueChange={version => onChange(Number(version))}>
+        <SelectTrigger className="w-28" aria-label={`${label} version`}>
+          <SelectValue placeholder="Version" />
+        </SelectTrigger>
+        <SelectContent>
+          {versions.map(version => (
+            <SelectItem key={version.id} value={version.versionNumber.toString()}>
+              {`v${version.versionNumber}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <ul className="max-h-64 space-y-2 overflow-y-auto">
+        {versions.map((version, index) => (
+          <li key={version.id} className="flex items-center justify-between gap-2 rounded-md border p-2" data-testid="program-version">
+            <div className="flex items-center gap-2">
+              <History className="size-4 text-muted-foreground" />
+              <span className="font-medium">{`v${version.versionNumber}`}</span>
+              <Badge variant="secondary">{CHANGE_TYPE_LABELS[version.changeType] ?? version.changeType}</Badge>
+              <span className="text-sm">{version.changeDescription}</span>
+              <span className="text-sm text-muted-foreground">
+                {memberNames.get(version.changedBy) ?? version.changedBy}
+                {' · '}
+                {new Date(version.createdAt).toLocaleString()}
+              </span>
+            </div>
+            {canEditProgram && index > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRollback(version.versionNumber)}
+                disabled={rollingBack !== null}
+              >
+                <RotateCcw className="mr-2 size-4" />
+                {rollingBack === version.versionNumber ? 'Restoring...' : 'Restore'}
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-wrap items-center gap-4">
+        {renderVersionSelect('From', from, setFrom)}
+        {renderVersionSelect('To', to, setTo)}
+        <Tabs value={mode} onValueChange={value => setMode(value as DiffMode)}>
+          <TabsList>
+            <TabsTrigger value="line">Lines</TabsTrigger>
+            <TabsTrigger value="word">Words</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {diff && <DiffView diff={diff} />}
+    </div>
+  );
+}
@@ -116,6 +116,7 @@ export function SubscriptionLimitCard({
           <ResourceUsageDisplay resource="churches" />
           <ResourceUsageDisplay resource="ministries" />
           <ResourceUsageDisplay resource="collaborators" />
+          <ResourceUsageDisplay resource="eventsPerWeek" />
         </div>
 
         {isAtAnyLimit && showUpgradeButton && (
@@ -163,10 +164,14 @@ function ResourceUsageDisplay({ resource }: ResourceUsageDisplayProps) {
       case 'ministries': return <Briefcase className="h-4 w-4" />;
       case 'collaborators': return <Users className="h-4 w-4" />;
       case 'services': return <Calendar className="h-4 w-4" />;
+      case 'eventsPerWeek': return <Calendar className="size-4" />;
     }
   };
 
   const getResourceLabel = (resource: keyof UsageStats) => {
+    if (resource === 'eventsPerWeek') {
+      return 'Events this week';
+    }
     return resource.charAt(0).toUpperCase() + resource.slice(1);
   };
 
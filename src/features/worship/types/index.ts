@@ -11,12 +11,22 @@ export type HymnType = 'official' | 'user_created' | 'public';
 
 export type HymnStatus = 'authorized' | 'not_reviewed' | 'rejected';
 
-export type ProgramStatus = 'draft' | 'published' | 'completed';
+export type ProgramStatus = 'draft' | 'submitted' | 'published' | 'completed';
 
 export type EventType = 'one_time' | 'recurring' | 'series';
 
 export type EventPattern = 'daily' | 'weekly' | 'monthly' | 'yearly' | 'custom';
 
+export type EventExceptionType = 'skipped' | 'rescheduled' | 'modified';
+
+export type EventEditScope = 'this' | 'following' | 'all';
+
+export type CalendarFeedScope = 'church' | 'ministry' | 'assignments';
+
+export type SkillCategory = 'instrument' | 'vocal' | 'tech';
+
+export type SkillProficiency = 'beginner' | 'intermediate' | 'advanced';
+
 export type FeedbackType = 'technical_issue' | 'spiritual_impact' | 'improvement_suggestion' | 'general';
 
 // ============================================================================
@@ -78,6 +88,19 @@ export type Event = {
   createdAt: Date;
 };
 
+export type EventException = {
+  id: number;
+  eventId: number;
+  occurrenceDate: string; // Local date (YYYY-MM-DD) of the original occurrence
+  exceptionType: EventExceptionType;
+  eventDate?: Date; // New start of a rescheduled occurrence
+  title?: string;
+  duration?: number;
+  createdBy: string;
+  updatedAt: Date;
+  createdAt: Date;
+};
+
 export type Hymn = {
   id: number;
   organizationId: string;
@@ -105,6 +128,7 @@ export type Hymn = {
 export type WorshipProgram = {
   id: number;
   eventId: number;
+  occurrenceDate?: string; // Occurrence of a recurring event (YYYY-MM-DD)
   title: string;
   description?: string;
   status: ProgramStatus;
@@ -141,6 +165,8 @@ export type ProgramAssignment = {
   notes?: string;
   isConfirmed: boolean;
   confirmedAt?: Date;
+  declinedAt?: Date;
+  declineReason?: string;
   assignedBy: string;
   createdAt: Date;
 };
@@ -348,6 +374,17 @@ export type ProgramSection = {
   assignments?: SectionAssignment[];
 };
 
+// A section of a program template; its roles become unfilled assignments of the program's section
+export type TemplateSection = {
+  type: ProgramSection['type'];
+  title: string;
+  estimatedDuration?: number; // Duration in minutes
+  notes?: string;
+  hymnId?: number; // Fixed hymn sung in every program, e.g. the doxology
+  customContent?: string;
+  roles?: string[]; // e.g. "Reader", "Pianist"
+};
+
 export type SectionAssignment = {
   userId: string;
   role: string;
@@ -501,6 +538,7 @@ export type HymnFilters = {
 };
 
 export type EventFilters = {
+  eventIds?: number[];
   serviceIds?: number[];
   ministryIds?: number[];
   churchIds?: number[];
@@ -518,8 +556,8 @@ export type ProgramFilters = {
   createdBy?: string;
   approvedBy?: string;
   dateRange?: {
-    start: Date;
-    end: Date;
+    start: string; // Local dates (YYYY-MM-DD) of each program's church, both included
+    end: string;
   };
 };
 
@@ -579,7 +617,7 @@ export type SubscriptionTier = keyof TierLimits;
 // ============================================================================
 
 export type CalendarEvent = {
-  id: number;
+  id: number; // Event ID, shared by every occurrence of a recurring event
   title: string;
   start: Date;
   end: Date;
@@ -587,16 +625,23 @@ export type CalendarEvent = {
   color: string; // Ministry color
   icon: string; // Ministry icon
   eventType: EventType;
+  occurrenceDate: string; // Local date (YYYY-MM-DD) of the occurrence in the church time zone
+  exceptionType?: Exclude<EventExceptionType, 'skipped'>;
+  seriesId?: number;
   ministry: {
+    id: number;
     name: string;
     color: string;
     icon: string;
   };
   service: {
+    id: number;
     name: string;
   };
   church: {
+    id: number;
     name: string;
+    timezone: string;
   };
   isCompleted: boolean;
 };
@@ -608,6 +653,43 @@ export type CalendarFilters = {
   showCompleted?: boolean;
 };
 
+export type ConflictSeverity = 'error' | 'warning';
+
+export type EventConflict = {
+  severity: ConflictSeverity; // error: the same service is double-booked, warning: another event of the church overlaps
+  eventId: number;
+  title: string;
+  service: {
+    id: number;
+    name: string;
+  };
+  ministry: {
+    id: number;
+    name: string;
+  };
+  occurrences: {
+    start: Date;
+    end: Date;
+    occurrenceDate: string;
+  }[]; // First overlapping occurrences of the other event
+  count: number; // Number of overlapping occurrences
+  message: string;
+};
+
+export type CalendarFeed = {
+  id: number;
+  organizationId: string;
+  userId: string;
+  tokenPrefix: string; // First characters of the token, the token itself is only returned on creation
+  scope: CalendarFeedScope;
+  churchId?: number; // Set for church feeds
+  ministryId?: number; // Set for ministry feeds
+  name?: string;
+  lastAccessedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+};
+
 // ============================================================================
 // AUDIO PLAYER TYPES
 // ============================================================================
@@ -0,0 +1,165 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import type { ProgramRecord } from '@/libs/worship/ProgramQueries';
+import type { LiveEvent, PresenceEntry } from '@/libs/worship/ProgramRealtime';
+import type { MarkdownSyncState, TextOperation } from '@/libs/worship/TextOperation';
+import {
+  applyOperation,
+  createOperation,
+  syncAcknowledged,
+  syncLocalEdit,
+  syncRemoteEdit,
+} from '@/libs/worship/TextOperation';
+
+/**
+ * Client-side hook for the live channel of a program: who is editing which section, saves
+ * made by other editors, and the shared markdown kept in sync with every editor's changes
+ */
+
+export type UseProgramLiveOptions = {
+  enabled: boolean;
+  onProgramUpdated?: (program: ProgramRecord, updatedBy: string) => void;
+};
+
+export type UseProgramLiveResult = {
+  connected: boolean;
+  connectionId: string | null;
+  presence: PresenceEntry[];
+  markdown: string;
+  editMarkdown: (markdown: string) => void;
+  updatePresence: (sectionId: string | null) => void;
+  saveMarkdown: () => Promise<{ success?: boolean; data?: ProgramRecord; error?: string }>;
+};
+
+const INITIAL_SYNC: MarkdownSyncState = { revision: 0, sent: null, buffer: null };
+
+export function useProgramLive(programId: number, { enabled, onProgramUpdated }: UseProgramLiveOptions): UseProgramLiveResult {
+  const [connected, setConnected] = useState(false);
+  const [presence, setPresence] = useState<PresenceEntry[]>([]);
+  const [markdown, setMarkdown] = useState('');
+  const [connection, setConnection] = useState(0); // Bumped to reconnect after losing sync
+  const connectionIdRef = useRef<string | null>(null);
+  const syncRef = useRef<MarkdownSyncState>(INITIAL_SYNC);
+  const markdownRef = useRef('');
+  const onProgramUpdatedRef = useRef(onProgramUpdated);
+  onProgramUpdatedRef.current = onProgramUpdated;
+
+  const setText = (text: string) => {
+    markdownRef.current = text;
+    setMarkdown(text);
+  };
+
+  const post = useCallback(async (body: Record<string, unknown>) => {
+    const response = await fetch(`/api/worship/programs/${programId}/live`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...body, connectionId: connectionIdRef.current }),
+    });
+
+    return response.json();
+  }, [programId]);
+
+  // Operations are acknowledged through the channel; a rejected one means the text went out of sync
+  const sendOperation = useCallback(async (revision: number, operation: TextOperation) => {
+    try {
+      const result = await post({ type: 'markdown', revision, operation });
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+    } catch (error) {
+      console.error('Failed to send markdown changes:', error);
+      setConnection(count => count + 1);
+    }
+  }, [post]);
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') {
+      return;
+    }
+
+    const source = new EventSource(`/api/worship/programs/${programId}/live`);
+
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data) as LiveEvent;
+
+      switch (event.type) {
+        case 'snapshot':
+          connectionIdRef.current = event.connectionId;
+          syncRef.current = { ...INITIAL_SYNC, revision: event.revision };
+          setText(event.markdown);
+          setPresence(event.presence);
+          setConnected(true);
+          break;
+        case 'presence':
+          setPresence(event.presence);
+          break;
+        case 'markdown_operation':
+          if (event.connectionId === connectionIdRef.current) {
+            const { state, send } = syncAcknowledged(syncRef.current);
+            syncRef.current = state;
+            if (send) {
+              sendOperation(state.revision, send);
+            }
+          } else {
+            const { state, apply } = syncRemoteEdit(syncRef.current, event.operation);
+            syncRef.current = state;
+            setText(applyOperation(markdownRef.current, apply));
+          }
+          break;
+        case 'markdown_reset':
+          syncRef.current = { ...INITIAL_SYNC, revision: event.revision };
+          setText(event.markdown);
+          break;
+        case 'program_updated':
+          onProgramUpdatedRef.current?.(event.program, event.updatedBy);
+          break;
+      }
+    };
+    // The browser reconnects by itself and the new snapshot resynchronizes the markdown
+    source.onerror = () => setConnected(false);
+
+    return () => {
+      source.close();
+      connectionIdRef.current = null;
+      setConnected(false);
+    };
+  }, [programId, enabled, connection, sendOperation]);
+
+  const editMarkdown = useCallback((next: string) => {
+    const operation = createOperation(markdownRef.current, next);
+
+    if (operation.every(component => typeof component === 'number' && component > 0)) {
+      return;
+    }
+
+    setText(next);
+    const { state, send } = syncLocalEdit(syncRef.current, operation);
+    syncRef.current = state;
+    if (send) {
+      sendOperation(state.revision, send);
+    }
+  }, [sendOperation]);
+
+  const updatePresence = useCallback((sectionId: string | null) => {
+    if (connectionIdRef.current) {
+      post({ type: 'presence', sectionId }).catch((error) => {
+        console.error('Failed to update presence:', error);
+      });
+    }
+  }, [post]);
+
+  const saveMarkdown = useCallback(() => post({ type: 'save' }), [post]);
+
+  return {
+    connected,
+    connectionId: connectionIdRef.current,
+    presence,
+    markdown,
+    editMarkdown,
+    updatePresence,
+    saveMarkdown,
+  };
+}
@@ -55,6 +55,7 @@ export function useSubscriptionLimits(): LimitCheckHookResult {
       ministries: 0,
       collaborators: 0,
       services: 0,
+      eventsPerWeek: 0,
     },
     loading: true,
     error: null,
@@ -135,7 +136,7 @@ export function useSubscriptionLimits(): LimitCheckHookResult {
 
   // Computed values for common checks
   const isAtAnyLimit = useCallback(() => {
-    const checks = checkMultipleResourceLimits(['churches', 'ministries', 'collaborators']);
+    const checks = checkMultipleResourceLimits(['churches', 'ministries', 'collaborators', 'eventsPerWeek']);
     return Object.values(checks).some(result => !result.allowed);
   }, [checkMultipleResourceLimits]);
 
@@ -0,0 +1,40 @@
+import {
+  Activity,
+  Baby,
+  BookOpen,
+  Church,
+  Compass,
+  Gamepad2,
+  Globe,
+  GraduationCap,
+  Heart,
+  Home,
+  Moon,
+  Music,
+  Shield,
+  Star,
+  Sun,
+  Users,
+  Zap,
+} from 'lucide-react';
+
+// Available icons for ministries
+export const MINISTRY_ICONS = [
+  { value: 'church', label: 'Church', icon: Church },
+  { value: 'music', label: 'Music', icon: Music },
+  { value: 'users', label: 'People', icon: Users },
+  { value: 'heart', label: 'Heart', icon: Heart },
+  { value: 'book-open', label: 'Book', icon: BookOpen },
+  { value: 'baby', label: 'Children', icon: Baby },
+  { value: 'gamepad-2', label: 'Youth', icon: Gamepad2 },
+  { value: 'graduation-cap', label: 'Education', icon: GraduationCap },
+  { value: 'home', label: 'Home', icon: Home },
+  { value: 'compass', label: 'Missions', icon: Compass },
+  { value: 'globe', label: 'Global', icon: Globe },
+  { value: 'star', label: 'Star', icon: Star },
+  { value: 'shield', label: 'Shield', icon: Shield },
+  { value: 'zap', label: 'Power', icon: Zap },
+  { value: 'sun', label: 'Light', icon: Sun },
+  { value: 'moon', label: 'Evening', icon: Moon },
+  { value: 'activity', label: 'Activity', icon: Activity },
+];
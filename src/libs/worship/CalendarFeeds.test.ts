@@ -0,0 +1,117 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { buildFeedEvents, generateFeedToken, hashFeedToken } from './CalendarFeeds';
+import type { EventListItem } from './EventQueries';
+import type { EventExceptionRecord } from './EventSeries';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+const baseEvent = {
+  description: null,
+  duration: 90,
+  recurringPattern: null,
+  recurringConfig: null,
+  seriesId: null,
+  isCompleted: false,
+  createdBy: 'user-123',
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  updatedAt: new Date('2025-01-01T00:00:00Z'),
+  service: { id: 3, name: 'Sunday Service', defaultDuration: 90 },
+  ministry: { id: 2, name: 'Worship', color: '#10B981', icon: 'music' },
+  church: { id: 1, name: 'Grace Church', timezone: 'America/Toronto' },
+};
+
+const sundayService = {
+  ...baseEvent,
+  id: 1,
+  serviceId: 3,
+  title: 'Sunday Worship',
+  eventDate: new Date('2025-03-02T15:00:00Z'),
+  eventType: 'recurring',
+  recurringPattern: 'weekly',
+  recurringConfig: { frequency: 1 },
+} as EventListItem;
+
+const youthNight = {
+  ...baseEvent,
+  id: 2,
+  serviceId: 4,
+  title: 'Youth Night',
+  eventDate: new Date('2025-03-14T23:00:00Z'),
+  eventType: 'one_time',
+} as EventListItem;
+
+const exceptions = [
+  { id: 1, eventId: 1, occurrenceDate: '2025-03-09', exceptionType: 'skipped' },
+  { id: 2, eventId: 1, occurrenceDate: '2025-03-16', exceptionType: 'modified', title: 'Communion Sunday' },
+] as EventExceptionRecord[];
+
+describe('CalendarFeeds', () => {
+  it('generates distinct tokens and stores them as SHA-256 hashes', () => {
+    const token = generateFeedToken();
+
+    expect(token).toMatch(/^[\w-]{43}$/);
+    expect(generateFeedToken()).not.toBe(token);
+    expect(hashFeedToken(token)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashFeedToken(token)).toBe(hashFeedToken(token));
+  });
+
+  it('writes recurring events as a rule with skipped and modified occurrences', () => {
+    const feedEvents = buildFeedEvents([sundayService, youthNight], exceptions, []);
+
+    expect(feedEvents).toHaveLength(3);
+    expect(feedEvents[0]).toMatchObject({
+      uid: 'event-1@localhost:3000',
+      summary: 'Sunday Worship',
+      timeZone: 'America/Toronto',
+      location: 'Grace Church',
+      categories: ['Worship'],
+      rrule: 'FREQ=WEEKLY;WKST=SU',
+      exdates: [new Date('2025-03-09T14:00:00Z')],
+    });
+    expect(feedEvents[1]).toMatchObject({
+      uid: 'event-1@localhost:3000',
+      recurrenceId: new Date('2025-03-16T14:00:00Z'),
+      start: new Date('2025-03-16T14:00:00Z'),
+      summary: 'Communion Sunday',
+    });
+    expect(feedEvents[2]).toMatchObject({
+      uid: 'event-2@localhost:3000',
+      summary: 'Youth Night',
+      start: youthNight.eventDate,
+    });
+    expect(feedEvents[2]!.rrule).toBeUndefined();
+  });
+
+  it('links events and occurrences to their programs', () => {
+    const feedEvents = buildFeedEvents([sundayService, youthNight], [], [
+      { id: 7, eventId: 1, occurrenceDate: '2025-03-23' },
+      { id: 8, eventId: 2, occurrenceDate: null },
+    ]);
+
+    expect(feedEvents[0]!.url).toBeUndefined();
+    expect(feedEvents[1]).toMatchObject({
+      recurrenceId: new Date('2025-03-23T14:00:00Z'),
+      url: 'http://localhost:3000/dashboard/programs?programId=7',
+    });
+    expect(feedEvents[2]!.url).toBe('http://localhost:3000/dashboard/programs?programId=8');
+  });
+
+  it('lists only the assigned occurrences of a recurring event in assignment feeds', () => {
+    const feedEvents = buildFeedEvents([sundayService], exceptions, [
+      { id: 7, eventId: 1, occurrenceDate: '2025-03-16', roles: ['Pianist'] },
+      { id: 9, eventId: 1, occurrenceDate: '2025-03-09', roles: ['Vocalist'] },
+    ], { assignmentsOnly: true });
+
+    expect(feedEvents).toEqual([
+      expect.objectContaining({
+        uid: 'event-1-2025-03-16@localhost:3000',
+        summary: 'Communion Sunday (Pianist)',
+        start: new Date('2025-03-16T14:00:00Z'),
+      }),
+    ]);
+    expect(feedEvents[0]!.rrule).toBeUndefined();
+  });
+});
@@ -0,0 +1,409 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+import { and, desc, eq, inArray, isNull } from 'drizzle-orm';
+
+import type { CalendarFeedScope } from '@/features/worship/types';
+import { db } from '@/libs/DB';
+import {
+  calendarFeedTokensSchema as feedTable,
+  churchesSchema as churchTable,
+  ministriesSchema as ministryTable,
+  programAssignmentsSchema as assignmentTable,
+  worshipProgramsSchema as programTable,
+} from '@/models/WorshipSchema';
+import { getBaseUrl } from '@/utils/Helpers';
+import { normalizeTimeZone } from '@/utils/TimeZone';
+
+import type { EventListItem } from './EventQueries';
+import { listEventsInWindow } from './EventQueries';
+import type { EventExceptionRecord } from './EventSeries';
+import { listExceptionsForEvents } from './EventSeries';
+import type { ICalendar, ICalendarEvent } from './ICalendar';
+import { buildRecurrenceRule } from './ICalendar';
+import { DEFAULT_EVENT_DURATION, findOccurrence } from './RecurrenceEngine';
+
+/**
+ * Calendar subscription feeds (.ics) of a church, a ministry or a user's own assignments.
+ *
+ * Calendar apps cannot sign in, so each feed is reached through a secret token in its URL.
+ * Only a SHA-256 hash of the token is stored: the token is shown once when the feed is
+ * created, and revoking the feed invalidates the URL.
+ */
+
+export type CalendarFeedRecord = typeof feedTable.$inferSelect;
+
+export type FeedProgram = {
+  id: number;
+  eventId: number;
+  occurrenceDate: string | null;
+  roles?: string[]; // Roles of the subscriber in the program, for assignment feeds
+};
+
+// Past and future span of the events a feed lists
+const FEED_HISTORY_DAYS = 180;
+const FEED_HORIZON_DAYS = 730;
+
+const TOKEN_BYTES = 32;
+const TOKEN_PREFIX_LENGTH = 8;
+
+/**
+ * Generate a new URL-safe feed token
+ */
+export function generateFeedToken(): string {
+  return randomBytes(TOKEN_BYTES).toString('base64url');
+}
+
+/**
+ * Hash a feed token the way it is stored
+ */
+export function hashFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Public subscription URL of a feed token
+ */
+export function getFeedUrl(token: string): string {
+  return `${getBaseUrl()}/api/public/calendar/${token}.ics`;
+}
+
+/**
+ * Dashboard URL of a program, linked from feed events
+ */
+export function getProgramUrl(programId: number): string {
+  return `${getBaseUrl()}/dashboard/programs?programId=${programId}`;
+}
+
+/**
+ * Strip the token hash from a feed before it is returned to clients
+ */
+export function toFeedResponse({ tokenHash: _tokenHash, ...feed }: CalendarFeedRecord) {
+  return feed;
+}
+
+/**
+ * List the active feeds of a user in an organization, newest first
+ */
+export async function listCalendarFeeds(organizationId: string, userId: string): Promise<CalendarFeedRecord[]> {
+  return db
+    .select()
+    .from(feedTable)
+    .where(and(
+      eq(feedTable.organizationId, organizationId),
+      eq(feedTable.userId, userId),
+      isNull(feedTable.revokedAt),
+    ))
+    .orderBy(desc(feedTable.createdAt));
+}
+
+/**
+ * Create a feed and return it together with its token (the only time the token is available)
+ */
+export async function createCalendarFeed(values: {
+  organizationId: string;
+  userId: string;
+  scope: CalendarFeedScope;
+  churchId?: number;
+  ministryId?: number;
+  name?: string;
+}): Promise<{ feed: CalendarFeedRecord; token: string }> {
+  const token = generateFeedToken();
+
+  const [feed] = await db
+    .insert(feedTable)
+    .values({
+      ...values,
+      tokenHash: hashFeedToken(token),
+      tokenPrefix: token.slice(0, TOKEN_PREFIX_LENGTH),
+    })
+    .returning();
+
+  return { feed: feed!, token };
+}
+
+/**
+ * Revoke a feed of the user, or return null if it does not exist or is already revoked
+ */
+export async function revokeCalendarFeed(
+  feedId: number,
+  organizationId: string,
+  userId: string,
+): Promise<CalendarFeedRecord | null> {
+  const [feed] = await db
+    .update(feedTable)
+    .set({ revokedAt: new Date() })
+    .where(and(
+      eq(feedTable.id, feedId),
+      eq(feedTable.organizationId, organizationId),
+      eq(feedTable.userId, userId),
+      isNull(feedTable.revokedAt),
+    ))
+    .returning();
+
+  return feed ?? null;
+}
+
+/**
+ * Find the active feed of a token and record the access
+ */
+export async function findCalendarFeedByToken(token: string): Promise<CalendarFeedRecord | null> {
+  const [feed] = await db
+    .update(feedTable)
+    .set({ lastAccessedAt: new Date() })
+    .where(and(
+      eq(feedTable.tokenHash, hashFeedToken(token)),
+      isNull(feedTable.revokedAt),
+    ))
+    .returning();
+
+  return feed ?? null;
+}
+
+/**
+ * Find an active church of the organization, for church feeds
+ */
+export async function findFeedChurch(churchId: number, organizationId: string) {
+  const [church] = await db
+    .select({ id: churchTable.id, name: churchTable.name })
+    .from(churchTable)
+    .where(and(
+      eq(churchTable.id, churchId),
+      eq(churchTable.organizationId, organizationId),
+      isNull(churchTable.deletedAt),
+    ))
+    .limit(1);
+
+  return church ?? null;
+}
+
+/**
+ * Find a ministry of the organization, for ministry feeds
+ */
+export async function findFeedMinistry(ministryId: number, organizationId: string) {
+  const [ministry] = await db
+    .select({ id: ministryTable.id, name: ministryTable.name, churchName: churchTable.name })
+    .from(ministryTable)
+    .innerJoin(churchTable, eq(ministryTable.churchId, churchTable.id))
+    .where(and(
+      eq(ministryTable.id, ministryId),
+      eq(churchTable.organizationId, organizationId),
+      isNull(churchTable.deletedAt),
+    ))
+    .limit(1);
+
+  return ministry ?? null;
+}
+
+async function listProgramsForEvents(eventIds: number[]): Promise<FeedProgram[]> {
+  if (eventIds.length === 0) {
+    return [];
+  }
+
+  return db
+    .select({
+      id: programTable.id,
+      eventId: programTable.eventId,
+      occurrenceDate: programTable.occurrenceDate,
+    })
+    .from(programTable)
+    .where(inArray(programTable.eventId, eventIds));
+}
+
+async function listAssignedPrograms(userId: string): Promise<FeedProgram[]> {
+  const rows = await db
+    .select({
+      id: programTable.id,
+      eventId: programTable.eventId,
+      occurrenceDate: programTable.occurrenceDate,
+      role: assignmentTable.role,
+    })
+    .from(assignmentTable)
+    .innerJoin(programTable, eq(assignmentTable.programId, programTable.id))
+    .where(and(eq(assignmentTable.userId, userId), isNull(assignmentTable.declinedAt)));
+
+  const programs = new Map<number, FeedProgram>();
+
+  for (const { role, ...program } of rows) {
+    const existing = programs.get(program.id);
+    if (existing) {
+      existing.roles!.push(role);
+    } else {
+      programs.set(program.id, { ...program, roles: [role] });
+    }
+  }
+
+  return [...programs.values()];
+}
+
+function withRoles(title: string, roles?: string[]): string {
+  return roles?.length ? `${title} (${roles.join(', ')})` : title;
+}
+
+/**
+ * Turn events into feed entries. Recurring events become one entry with their rule, plus an
+ * entry per occurrence that has an exception or its own program. With `assignmentsOnly`,
+ * recurring events only assigned for some occurrences list just those occurrences.
+ */
+export function buildFeedEvents(
+  events: EventListItem[],
+  exceptions: EventExceptionRecord[],
+  programs: FeedProgram[],
+  options: { assignmentsOnly?: boolean } = {},
+): ICalendarEvent[] {
+  const host = new URL(getBaseUrl()).host;
+  const feedEvents: ICalendarEvent[] = [];
+
+  for (const event of events) {
+    const timeZone = normalizeTimeZone(event.church.timezone);
+    const duration = event.duration ?? DEFAULT_EVENT_DURATION;
+    const uid = `event-${event.id}@${host}`;
+    const rrule = buildRecurrenceRule(event, timeZone);
+
+    const eventPrograms = programs.filter(program => program.eventId === event.id);
+    const seriesProgram = eventPrograms.find(program => !rrule || !program.occurrenceDate);
+
+    const details = {
+      timeZone,
+      description: event.description ?? undefined,
+      location: event.church.name,
+      categories: [event.ministry.name],
+      lastModified: event.updatedAt,
+    };
+
+    if (!rrule) {
+      feedEvents.push({
+        ...details,
+        uid,
+        start: event.eventDate,
+        duration,
+        summary: withRoles(event.title, seriesProgram?.roles),
+        url: seriesProgram && getProgramUrl(seriesProgram.id),
+      });
+      continue;
+    }
+
+    const eventExceptions = new Map(exceptions
+      .filter(exception => exception.eventId === event.id)
+      .map(exception => [exception.occurrenceDate, exception]));
+    const occurrencePrograms = new Map(eventPrograms
+      .filter(program => program.occurrenceDate)
+      .map(program => [program.occurrenceDate!, program]));
+
+    const includeSeries = !options.assignmentsOnly || seriesProgram !== undefined;
+    const occurrenceDates = includeSeries
+      ? new Set([...eventExceptions.keys(), ...occurrencePrograms.keys()])
+      : new Set(occurrencePrograms.keys());
+
+    const exdates: Date[] = [];
+    const occurrenceEvents: ICalendarEvent[] = [];
+
+    for (const date of [...occurrenceDates].sort()) {
+      const original = findOccurrence(event, date, { timeZone });
+      const exception = eventExceptions.get(date);
+
+      if (!original) {
+        continue;
+      }
+
+      if (exception?.exceptionType === 'skipped') {
+        exdates.push(original.start);
+        continue;
+      }
+
+      const program = occurrencePrograms.get(date) ?? seriesProgram;
+
+      occurrenceEvents.push({
+        ...details,
+        // Occurrences listed without their series need a UID of their own
+        ...(includeSeries
+          ? { uid, recurrenceId: original.start }
+          : { uid: `event-${event.id}-${date}@${host}` }),
+        start: exception?.eventDate ?? original.start,
+        duration: exception?.duration ?? duration,
+        summary: withRoles(exception?.title ?? event.title, program?.roles),
+        url: program && getProgramUrl(program.id),
+        lastModified: exception?.updatedAt ?? event.updatedAt,
+      });
+    }
+
+    if (includeSeries) {
+      feedEvents.push({
+        ...details,
+        uid,
+        start: event.eventDate,
+        duration,
+        summary: withRoles(event.title, seriesProgram?.roles),
+        url: seriesProgram && getProgramUrl(seriesProgram.id),
+        rrule,
+        exdates,
+      });
+    }
+
+    feedEvents.push(...occurrenceEvents);
+  }
+
+  return feedEvents;
+}
+
+/**
+ * Load the calendar of a feed, or null if the church or ministry it follows no longer exists
+ */
+export async function loadFeedCalendar(feed: CalendarFeedRecord, now = new Date()): Promise<ICalendar | null> {
+  const window = {
+    start: new Date(now.getTime() - FEED_HISTORY_DAYS * 86_400_000),
+    end: new Date(now.getTime() + FEED_HORIZON_DAYS * 86_400_000),
+  };
+
+  let name: string;
+  let events: EventListItem[];
+  let programs: FeedProgram[];
+
+  switch (feed.scope) {
+    case 'church': {
+      const church = feed.churchId ? await findFeedChurch(feed.churchId, feed.organizationId) : null;
+      if (!church) {
+        return null;
+      }
+
+      name = church.name;
+      events = await listEventsInWindow(feed.organizationId, window, { churchIds: [church.id] });
+      programs = await listProgramsForEvents(events.map(event => event.id));
+      break;
+    }
+
+    case 'ministry': {
+      const ministry = feed.ministryId ? await findFeedMinistry(feed.ministryId, feed.organizationId) : null;
+      if (!ministry) {
+        return null;
+      }
+
+      name = `${ministry.name} (${ministry.churchName})`;
+      events = await listEventsInWindow(feed.organizationId, window, { ministryIds: [ministry.id] });
+      programs = await listProgramsForEvents(events.map(event => event.id));
+      break;
+    }
+
+    case 'assignments': {
+      name = 'My Assignments';
+      programs = await listAssignedPrograms(feed.userId);
+
+      const eventIds = [...new Set(programs.map(program => program.eventId))];
+      // Also scopes the assignments to the feed's organization
+      events = eventIds.length > 0
+        ? await listEventsInWindow(feed.organizationId, window, { eventIds })
+        : [];
+      break;
+    }
+  }
+
+  const recurringEventIds = events
+    .filter(event => event.eventType === 'recurring')
+    .map(event => event.id);
+  const exceptions = await listExceptionsForEvents(recurringEventIds);
+
+  return {
+    name: feed.name || name,
+    events: buildFeedEvents(events, exceptions, programs, { assignmentsOnly: feed.scope === 'assignments' }),
+    generatedAt: now,
+  };
+}
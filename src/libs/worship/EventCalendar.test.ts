@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildCalendarEvents } from './EventCalendar';
+import type { EventListItem } from './EventQueries';
+import type { EventExceptionRecord } from './EventSeries';
+
+const baseEvent = {
+  description: null,
+  duration: 90,
+  recurringPattern: null,
+  recurringConfig: null,
+  seriesId: null,
+  isCompleted: false,
+  createdBy: 'user-123',
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  updatedAt: new Date('2025-01-01T00:00:00Z'),
+  service: { id: 3, name: 'Sunday Service', defaultDuration: 90 },
+  ministry: { id: 2, name: 'Worship', color: '#10B981', icon: 'music' },
+  church: { id: 1, name: 'Grace Church', timezone: 'America/Toronto' },
+};
+
+const sundayService = {
+  ...baseEvent,
+  id: 1,
+  serviceId: 3,
+  title: 'Sunday Worship',
+  eventDate: new Date('2025-03-02T15:00:00Z'),
+  eventType: 'recurring',
+  recurringPattern: 'weekly',
+  recurringConfig: { frequency: 1 },
+} as EventListItem;
+
+const youthNight = {
+  ...baseEvent,
+  id: 2,
+  serviceId: 4,
+  title: 'Youth Night',
+  eventDate: new Date('2025-03-14T23:00:00Z'),
+  eventType: 'one_time',
+  service: { id: 4, name: 'Youth Service', defaultDuration: 120 },
+  ministry: { id: 5, name: 'Youth', color: null, icon: null },
+  church: { id: 1, name: 'Grace Church', timezone: null },
+} as EventListItem;
+
+const window = {
+  start: new Date('2025-03-08T00:00:00Z'),
+  end: new Date('2025-03-17T00:00:00Z'),
+};
+
+describe('EventCalendar', () => {
+  it('expands recurring events and merges them with one-time events by start', () => {
+    const calendarEvents = buildCalendarEvents([sundayService, youthNight], [], window);
+
+    expect(calendarEvents.map(event => [event.id, event.occurrenceDate, event.start.toISOString()])).toEqual([
+      [1, '2025-03-09', '2025-03-09T14:00:00.000Z'],
+      [2, '2025-03-14', '2025-03-14T23:00:00.000Z'],
+      [1, '2025-03-16', '2025-03-16T14:00:00.000Z'],
+    ]);
+  });
+
+  it('carries ministry colors and icons, with defaults', () => {
+    const [sunday, youth] = buildCalendarEvents([sundayService, youthNight], [], window);
+
+    expect(sunday).toMatchObject({
+      color: '#10B981',
+      icon: 'music',
+      eventType: 'recurring',
+      ministry: { id: 2, name: 'Worship', color: '#10B981', icon: 'music' },
+      service: { id: 3, name: 'Sunday Service' },
+      church: { id: 1, name: 'Grace Church', timezone: 'America/Toronto' },
+    });
+    expect(youth).toMatchObject({
+      color: '#3B82F6',
+      icon: 'music',
+      church: { timezone: 'UTC' },
+    });
+  });
+
+  it('applies exceptions of recurring events', () => {
+    const exceptions = [
+      { id: 1, eventId: 1, occurrenceDate: '2025-03-09', exceptionType: 'skipped' },
+      { id: 2, eventId: 1, occurrenceDate: '2025-03-16', exceptionType: 'modified', title: 'Communion Sunday' },
+    ] as EventExceptionRecord[];
+
+    const calendarEvents = buildCalendarEvents([sundayService], exceptions, window);
+
+    expect(calendarEvents).toHaveLength(1);
+    expect(calendarEvents[0]).toMatchObject({
+      title: 'Communion Sunday',
+      occurrenceDate: '2025-03-16',
+      exceptionType: 'modified',
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import type { CalendarEvent } from '@/features/worship/types';
+import { normalizeTimeZone } from '@/utils/TimeZone';
+
+import type { EventListItem } from './EventQueries';
+import type { EventExceptionRecord } from './EventSeries';
+import type { DateWindow } from './RecurrenceEngine';
+import { expandEventOccurrences } from './RecurrenceEngine';
+
+/**
+ * Turns stored events into calendar entries: recurring events are expanded into their
+ * occurrences (with exceptions applied) and every entry carries its ministry color and icon.
+ */
+
+// Fallbacks matching the ministries table defaults
+export const DEFAULT_MINISTRY_COLOR = '#3B82F6';
+export const DEFAULT_MINISTRY_ICON = 'music';
+
+/**
+ * Build the calendar entries of the given events that overlap the window, ordered by start
+ */
+export function buildCalendarEvents(
+  events: EventListItem[],
+  exceptions: EventExceptionRecord[],
+  window: DateWindow,
+): CalendarEvent[] {
+  const exceptionsByEvent = new Map<number, EventExceptionRecord[]>();
+
+  for (const exception of exceptions) {
+    const list = exceptionsByEvent.get(exception.eventId) ?? [];
+    list.push(exception);
+    exceptionsByEvent.set(exception.eventId, list);
+  }
+
+  const calendarEvents: CalendarEvent[] = [];
+
+  for (const event of events) {
+    const timezone = normalizeTimeZone(event.church.timezone);
+    const color = event.ministry.color ?? DEFAULT_MINISTRY_COLOR;
+    const icon = event.ministry.icon ?? DEFAULT_MINISTRY_ICON;
+
+    const occurrences = expandEventOccurrences(event, window, {
+      timeZone: timezone,
+      exceptions: exceptionsByEvent.get(event.id),
+    });
+
+    for (const occurrence of occurrences) {
+      calendarEvents.push({
+        id: event.id,
+        title: occurrence.title ?? event.title,
+        start: occurrence.start,
+        end: occurrence.end,
+        allDay: false,
+        color,
+        icon,
+        eventType: event.eventType,
+        occurrenceDate: occurrence.date,
+        ...(occurrence.exceptionType && { exceptionType: occurrence.exceptionType }),
+        ...(event.seriesId && { seriesId: event.seriesId }),
+        ministry: {
+          id: event.ministry.id,
+          name: event.ministry.name,
+          color,
+          icon,
+        },
+        service: {
+          id: event.service.id,
+          name: event.service.name,
+        },
+        church: {
+          id: event.church.id,
+          name: event.church.name,
+          timezone,
+        },
+        isCompleted: event.isCompleted,
+      });
+    }
+  }
+
+  return calendarEvents.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
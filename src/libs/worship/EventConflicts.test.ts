@@ -0,0 +1,155 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { EventConflict } from '@/features/worship/types';
+
+import { buildCalendarEvents } from './EventCalendar';
+import { findEventConflicts, getConflictError } from './EventConflicts';
+import type { EventListItem } from './EventQueries';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+const TORONTO = 'America/Toronto';
+
+const baseEvent = {
+  description: null,
+  duration: 90,
+  recurringPattern: null,
+  recurringConfig: null,
+  seriesId: null,
+  isCompleted: false,
+  createdBy: 'user-123',
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  updatedAt: new Date('2025-01-01T00:00:00Z'),
+  ministry: { id: 2, name: 'Worship', color: '#10B981', icon: 'music' },
+  church: { id: 1, name: 'Grace Church', timezone: TORONTO },
+};
+
+// Sundays at 10:00 from 2025-03-02
+const sundayService = {
+  ...baseEvent,
+  id: 1,
+  serviceId: 3,
+  service: { id: 3, name: 'Sunday Service', defaultDuration: 90 },
+  title: 'Sunday Worship',
+  eventDate: new Date('2025-03-02T15:00:00Z'),
+  eventType: 'recurring',
+  recurringPattern: 'weekly',
+  recurringConfig: { frequency: 1 },
+} as EventListItem;
+
+// Friday 2025-03-14, 19:00-21:00
+const youthNight = {
+  ...baseEvent,
+  id: 2,
+  serviceId: 4,
+  service: { id: 4, name: 'Youth Service', defaultDuration: 120 },
+  ministry: { id: 5, name: 'Youth', color: null, icon: null },
+  title: 'Youth Night',
+  eventDate: new Date('2025-03-14T23:00:00Z'),
+  duration: 120,
+  eventType: 'one_time',
+} as EventListItem;
+
+const calendar = buildCalendarEvents([sundayService, youthNight], [], {
+  start: new Date('2025-01-01T00:00:00Z'),
+  end: new Date('2026-12-31T00:00:00Z'),
+});
+
+describe('EventConflicts', () => {
+  describe('findEventConflicts', () => {
+    it('reports overlaps with the same service as errors', () => {
+      const conflicts = findEventConflicts({
+        serviceId: 3,
+        eventDate: new Date('2025-03-09T15:00:00Z'),
+        duration: 60,
+        eventType: 'one_time',
+      }, calendar, { timeZone: TORONTO });
+
+      expect(conflicts).toEqual([expect.objectContaining({
+        severity: 'error',
+        eventId: 1,
+        count: 1,
+        occurrences: [{
+          start: new Date('2025-03-09T14:00:00Z'),
+          end: new Date('2025-03-09T15:30:00Z'),
+          occurrenceDate: '2025-03-09',
+        }],
+      })]);
+    });
+
+    it('reports overlaps with other services of the church as warnings', () => {
+      const conflicts = findEventConflicts({
+        serviceId: 9,
+        eventDate: new Date('2025-03-15T00:30:00Z'),
+        duration: 60,
+        eventType: 'one_time',
+      }, calendar, { timeZone: TORONTO });
+
+      expect(conflicts).toEqual([expect.objectContaining({
+        severity: 'warning',
+        eventId: 2,
+        message: 'Overlaps "Youth Night" of Youth (Youth Service)',
+      })]);
+    });
+
+    it('treats back-to-back events as free', () => {
+      expect(findEventConflicts({
+        serviceId: 3,
+        eventDate: new Date('2025-03-15T01:00:00Z'),
+        duration: 30,
+        eventType: 'one_time',
+      }, calendar, { timeZone: TORONTO })).toEqual([]);
+    });
+
+    it('expands recurring candidates and counts every overlap', () => {
+      // Sundays at 11:00, overlapping the last half hour of every service
+      const conflicts = findEventConflicts({
+        serviceId: 4,
+        eventDate: new Date('2025-03-02T16:00:00Z'),
+        duration: 60,
+        eventType: 'recurring',
+        recurringPattern: 'weekly',
+        recurringConfig: { frequency: 1, occurrences: 12 },
+      }, calendar, { timeZone: TORONTO });
+
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0]).toMatchObject({ severity: 'warning', eventId: 1, count: 12 });
+      expect(conflicts[0]!.occurrences).toHaveLength(10);
+    });
+
+    it('leaves out the event being edited', () => {
+      const candidate = {
+        serviceId: 3,
+        eventDate: new Date('2025-03-09T14:30:00Z'),
+        duration: 90,
+        eventType: 'one_time' as const,
+      };
+
+      expect(findEventConflicts(candidate, calendar, { timeZone: TORONTO, excludeEventId: 1 })).toEqual([]);
+
+      // Moving one occurrence onto the next one still conflicts with the rest of the series
+      const moved = { ...candidate, eventDate: new Date('2025-03-16T14:00:00Z') };
+
+      expect(findEventConflicts(moved, calendar, {
+        timeZone: TORONTO,
+        excludeEventId: 1,
+        excludeOccurrenceDate: '2025-03-09',
+      })).toEqual([expect.objectContaining({ eventId: 1, count: 1 })]);
+    });
+  });
+
+  describe('getConflictError', () => {
+    const warning = { severity: 'warning', eventId: 2 } as EventConflict;
+    const error = { severity: 'error', eventId: 1 } as EventConflict;
+
+    it('always blocks errors and blocks warnings until confirmed', () => {
+      expect(getConflictError([warning, error], true)).toMatchObject({ conflicts: [warning, error] });
+      expect(getConflictError([warning, error], true)!.requiresConfirmation).toBeUndefined();
+      expect(getConflictError([warning], false)).toMatchObject({ requiresConfirmation: true });
+      expect(getConflictError([warning], true)).toBeNull();
+      expect(getConflictError([], false)).toBeNull();
+    });
+  });
+});
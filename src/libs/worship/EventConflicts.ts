@@ -0,0 +1,168 @@
+import type { CalendarEvent, EventConflict } from '@/features/worship/types';
+import { normalizeTimeZone } from '@/utils/TimeZone';
+
+import { buildCalendarEvents } from './EventCalendar';
+import { listEventsInWindow } from './EventQueries';
+import { listExceptionsForEvents } from './EventSeries';
+import { MAX_EVENT_DURATION } from './EventValidation';
+import type { DateWindow, OccurrenceException, RecurrenceSource } from './RecurrenceEngine';
+import { expandEventOccurrences } from './RecurrenceEngine';
+
+/**
+ * Scheduling conflicts between the events of a church.
+ *
+ * An event being created or updated is expanded into its occurrences and compared with the
+ * occurrences of every other event of the same church. Overlapping the same service is a hard
+ * error (the service slot is double-booked); overlapping another service or ministry is only a
+ * warning that leaders may override, since rooms and teams are not modelled yet.
+ */
+
+// How far ahead the occurrences of a recurring event are checked
+export const CONFLICT_HORIZON_DAYS = 365;
+
+// Overlapping occurrences listed per conflicting event
+const MAX_LISTED_OCCURRENCES = 10;
+
+const MAX_DURATION_MS = MAX_EVENT_DURATION * 60_000;
+
+export type ConflictCandidate = RecurrenceSource & {
+  serviceId: number;
+};
+
+export type ConflictCheckOptions = {
+  timeZone?: string | null;
+  exceptions?: OccurrenceException[]; // Exceptions of the candidate itself
+  excludeEventId?: number; // The event being edited
+  excludeOccurrenceDate?: string; // Only exclude this occurrence of the edited event
+};
+
+/**
+ * The window in which the occurrences of a candidate are checked
+ */
+export function getConflictWindow(candidate: RecurrenceSource): DateWindow {
+  const start = new Date(candidate.eventDate);
+
+  return {
+    start,
+    end: new Date(start.getTime() + CONFLICT_HORIZON_DAYS * 86_400_000),
+  };
+}
+
+/**
+ * Find the calendar entries overlapping the occurrences of a candidate event, grouped by
+ * conflicting event and ordered errors first
+ */
+export function findEventConflicts(
+  candidate: ConflictCandidate,
+  calendarEvents: CalendarEvent[],
+  options: ConflictCheckOptions = {},
+): EventConflict[] {
+  const occurrences = expandEventOccurrences(candidate, getConflictWindow(candidate), {
+    timeZone: normalizeTimeZone(options.timeZone),
+    exceptions: options.exceptions,
+  }).sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const others = calendarEvents
+    .filter(other => other.id !== options.excludeEventId
+      || (options.excludeOccurrenceDate !== undefined && other.occurrenceDate !== options.excludeOccurrenceDate))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const conflicts = new Map<number, EventConflict>();
+  let first = 0;
+
+  for (const occurrence of occurrences) {
+    // Entries starting a full maximum duration earlier cannot reach this occurrence
+    while (first < others.length && others[first]!.start.getTime() + MAX_DURATION_MS <= occurrence.start.getTime()) {
+      first++;
+    }
+
+    for (let i = first; i < others.length && others[i]!.start < occurrence.end; i++) {
+      const other = others[i]!;
+
+      if (other.end <= occurrence.start) {
+        continue;
+      }
+
+      let conflict = conflicts.get(other.id);
+
+      if (!conflict) {
+        const severity = other.service.id === candidate.serviceId ? 'error' : 'warning';
+        conflict = {
+          severity,
+          eventId: other.id,
+          title: other.title,
+          service: other.service,
+          ministry: { id: other.ministry.id, name: other.ministry.name },
+          occurrences: [],
+          count: 0,
+          message: severity === 'error'
+            ? `Overlaps "${other.title}" of the same service`
+            : `Overlaps "${other.title}" of ${other.ministry.name} (${other.service.name})`,
+        };
+        conflicts.set(other.id, conflict);
+      }
+
+      conflict.count++;
+
+      if (conflict.occurrences.length < MAX_LISTED_OCCURRENCES) {
+        conflict.occurrences.push({
+          start: other.start,
+          end: other.end,
+          occurrenceDate: other.occurrenceDate,
+        });
+      }
+    }
+  }
+
+  return [...conflicts.values()].sort((a, b) =>
+    Number(a.severity === 'warning') - Number(b.severity === 'warning'));
+}
+
+/**
+ * Compare a candidate event with the other events of its church
+ */
+export async function detectEventConflicts(
+  organizationId: string,
+  churchId: number,
+  candidate: ConflictCandidate,
+  options: ConflictCheckOptions = {},
+): Promise<EventConflict[]> {
+  const window = getConflictWindow(candidate);
+
+  if (Number.isNaN(window.start.getTime())) {
+    return [];
+  }
+
+  const events = await listEventsInWindow(organizationId, window, { churchIds: [churchId] });
+  const exceptions = await listExceptionsForEvents(events
+    .filter(event => event.eventType === 'recurring')
+    .map(event => event.id));
+
+  return findEventConflicts(candidate, buildCalendarEvents(events, exceptions, window), options);
+}
+
+/**
+ * The response to refuse a change with, or null when it may go ahead: conflicts on the same
+ * service always block it, other overlaps only until the leader confirms with `allowConflicts`
+ */
+export function getConflictError(
+  conflicts: EventConflict[],
+  allowConflicts: boolean,
+): { error: string; conflicts: EventConflict[]; requiresConfirmation?: true } | null {
+  if (conflicts.some(conflict => conflict.severity === 'error')) {
+    return {
+      error: 'The service is already scheduled at this time',
+      conflicts,
+    };
+  }
+
+  if (conflicts.length > 0 && !allowConflicts) {
+    return {
+      error: 'The event overlaps other events of the church',
+      conflicts,
+      requiresConfirmation: true,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { countHymnUsage, isEventFinished, isProgramFinished } from './EventLifecycle';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+// Sundays at 10:00 in Toronto from 2025-03-02, 90 minutes
+const sundayService = {
+  eventDate: new Date('2025-03-02T15:00:00Z'),
+  duration: 90,
+  eventType: 'recurring' as const,
+  recurringPattern: 'weekly' as const,
+  recurringConfig: { frequency: 1 },
+  timezone: 'America/Toronto',
+};
+
+describe('EventLifecycle', () => {
+  describe('isEventFinished', () => {
+    it('finishes one-time events when they end', () => {
+      const event = { ...sundayService, eventType: 'one_time' as const, recurringPattern: null };
+
+      expect(isEventFinished(event, new Date('2025-03-02T16:29:00Z'))).toBe(false);
+      expect(isEventFinished(event, new Date('2025-03-02T16:30:00Z'))).toBe(true);
+    });
+
+    it('never finishes open-ended series', () => {
+      expect(isEventFinished(sundayService, new Date('2030-01-01T00:00:00Z'))).toBe(false);
+    });
+
+    it('finishes series after their last occurrence', () => {
+      const counted = { ...sundayService, recurringConfig: { frequency: 1, occurrences: 3 } };
+
+      // Third occurrence on 2025-03-16 at 10:00 EDT
+      expect(isEventFinished(counted, new Date('2025-03-16T15:00:00Z'))).toBe(false);
+      expect(isEventFinished(counted, new Date('2025-03-16T15:30:00Z'))).toBe(true);
+
+      const ending = { ...sundayService, recurringConfig: { frequency: 1, endDate: '2025-03-20T00:00:00Z' } };
+
+      expect(isEventFinished(ending, new Date('2025-03-19T00:00:00Z'))).toBe(false);
+      expect(isEventFinished(ending, new Date('2025-03-21T00:00:00Z'))).toBe(true);
+    });
+  });
+
+  describe('isProgramFinished', () => {
+    it('finishes programs with their occurrence', () => {
+      const program = { occurrenceDate: '2025-03-09' };
+
+      expect(isProgramFinished(program, sundayService, [], new Date('2025-03-09T15:00:00Z'))).toBe(false);
+      expect(isProgramFinished(program, sundayService, [], new Date('2025-03-09T15:30:00Z'))).toBe(true);
+    });
+
+    it('follows rescheduled and skipped occurrences', () => {
+      const program = { occurrenceDate: '2025-03-09' };
+      const rescheduled = [{
+        occurrenceDate: '2025-03-09',
+        exceptionType: 'rescheduled' as const,
+        eventDate: new Date('2025-03-10T23:00:00Z'),
+      }];
+
+      expect(isProgramFinished(program, sundayService, rescheduled, new Date('2025-03-10T00:00:00Z'))).toBe(false);
+      expect(isProgramFinished(program, sundayService, rescheduled, new Date('2025-03-11T01:00:00Z'))).toBe(true);
+
+      const skipped = [{ occurrenceDate: '2025-03-09', exceptionType: 'skipped' as const }];
+
+      expect(isProgramFinished(program, sundayService, skipped, new Date('2025-03-10T03:00:00Z'))).toBe(false);
+      expect(isProgramFinished(program, sundayService, skipped, new Date('2025-03-10T05:00:00Z'))).toBe(true);
+    });
+
+    it('ties programs without an occurrence date to the whole event', () => {
+      expect(isProgramFinished({ occurrenceDate: null }, sundayService, [], new Date('2030-01-01T00:00:00Z')))
+        .toBe(false);
+    });
+  });
+
+  it('counts every use of a hymn', () => {
+    expect(countHymnUsage([4, 7, 4])).toEqual([{ hymnId: 4, count: 2 }, { hymnId: 7, count: 1 }]);
+  });
+});
@@ -0,0 +1,276 @@
+import { and, eq, inArray, isNull, lte, sql } from 'drizzle-orm';
+
+import { db } from '@/libs/DB';
+import {
+  churchesSchema as churchTable,
+  eventsSchema as eventTable,
+  hymnsSchema as hymnTable,
+  jobRunsSchema as jobRunTable,
+  ministriesSchema as ministryTable,
+  programHymnsSchema as programHymnTable,
+  programStatusTransitionsSchema as transitionTable,
+  servicesSchema as serviceTable,
+  worshipProgramsSchema as programTable,
+} from '@/models/WorshipSchema';
+import { normalizeTimeZone, toLocalDateKey } from '@/utils/TimeZone';
+
+import type { EventExceptionRecord } from './EventSeries';
+import { listExceptionsForEvents } from './EventSeries';
+import type { OccurrenceException, RecurrenceSource } from './RecurrenceEngine';
+import { DEFAULT_EVENT_DURATION, expandEventOccurrences, normalizeRecurringConfig } from './RecurrenceEngine';
+
+/**
+ * Lifecycle transitions run on a schedule once events are over.
+ *
+ * - Events are marked completed after their last occurrence ends. Recurring events without an
+ *   end date or occurrence count never complete; their occurrences are handled through programs.
+ * - Published programs move to `completed` once the occurrence they belong to ends, and every
+ *   hymn of a completed program counts towards the hymn's `usageCount`.
+ *
+ * Transitions are guarded by the current state, so running the job twice changes nothing more.
+ * Each run is recorded in `job_runs` with the ids it changed.
+ */
+
+export const EVENT_LIFECYCLE_JOB = 'event_lifecycle';
+
+export type JobRunRecord = typeof jobRunTable.$inferSelect;
+
+export type EventLifecycleChanges = {
+  completedEventIds: number[];
+  completedProgramIds: number[];
+  hymnUsage: { hymnId: number; count: number }[];
+};
+
+type LifecycleEvent = RecurrenceSource & {
+  timezone: string | null;
+};
+
+function getEnd(start: Date | string, duration: number | null | undefined): number {
+  return new Date(start).getTime() + (duration ?? DEFAULT_EVENT_DURATION) * 60_000;
+}
+
+/**
+ * Whether every occurrence of an event has ended
+ */
+export function isEventFinished(event: LifecycleEvent, now: Date): boolean {
+  if (event.eventType !== 'recurring' || !event.recurringPattern) {
+    return getEnd(event.eventDate, event.duration) <= now.getTime();
+  }
+
+  const config = normalizeRecurringConfig(event.recurringConfig);
+
+  if (config.endDate && getEnd(config.endDate, event.duration) <= now.getTime()) {
+    return true;
+  }
+
+  if (config.occurrences === undefined) {
+    return false;
+  }
+
+  // Skipped occurrences still count towards `occurrences`, so expand without exceptions
+  const occurrences = expandEventOccurrences(event, { start: new Date(event.eventDate), end: now }, {
+    timeZone: event.timezone,
+    maxOccurrences: config.occurrences,
+  });
+  const last = occurrences.at(-1);
+
+  return occurrences.length >= config.occurrences && last !== undefined && last.end <= now;
+}
+
+/**
+ * Whether the occurrence a program belongs to has ended. Programs of recurring events without
+ * an occurrence date belong to the whole series; skipped occurrences end with their local day.
+ */
+export function isProgramFinished(
+  program: { occurrenceDate: string | null },
+  event: LifecycleEvent,
+  exceptions: OccurrenceException[],
+  now: Date,
+): boolean {
+  if (event.eventType !== 'recurring' || !program.occurrenceDate) {
+    return isEventFinished(event, now);
+  }
+
+  const timeZone = normalizeTimeZone(event.timezone);
+  const day = Date.parse(`${program.occurrenceDate}T00:00:00Z`);
+
+  if (Number.isNaN(day)) {
+    return false;
+  }
+
+  // A day either side covers every UTC offset, a week after covers rescheduled occurrences
+  const occurrence = expandEventOccurrences(
+    event,
+    { start: new Date(day - 86_400_000), end: new Date(day + 8 * 86_400_000) },
+    { timeZone, exceptions },
+  ).find(candidate => candidate.date === program.occurrenceDate);
+
+  return occurrence
+    ? occurrence.end <= now
+    : program.occurrenceDate < toLocalDateKey(now, timeZone);
+}
+
+/**
+ * Count how many times each hymn appears in the given program hymn rows
+ */
+export function countHymnUsage(hymnIds: number[]): EventLifecycleChanges['hymnUsage'] {
+  const counts = new Map<number, number>();
+
+  for (const hymnId of hymnIds) {
+    counts.set(hymnId, (counts.get(hymnId) ?? 0) + 1);
+  }
+
+  return [...counts].map(([hymnId, count]) => ({ hymnId, count }));
+}
+
+// Columns needed to tell whether an event is over
+const lifecycleEventColumns = {
+  eventDate: eventTable.eventDate,
+  duration: eventTable.duration,
+  eventType: eventTable.eventType,
+  recurringPattern: eventTable.recurringPattern,
+  recurringConfig: eventTable.recurringConfig,
+  timezone: churchTable.timezone,
+};
+
+/**
+ * Find the events and published programs of every organization that are over
+ */
+async function findFinished(now: Date) {
+  const events = await db
+    .select({ id: eventTable.id, ...lifecycleEventColumns })
+    .from(eventTable)
+    .innerJoin(serviceTable, eq(eventTable.serviceId, serviceTable.id))
+    .innerJoin(ministryTable, eq(serviceTable.ministryId, ministryTable.id))
+    .innerJoin(churchTable, eq(ministryTable.churchId, churchTable.id))
+    .where(and(
+      eq(eventTable.isCompleted, false),
+      lte(eventTable.eventDate, now),
+      isNull(churchTable.deletedAt),
+    ));
+
+  const programs = await db
+    .select({
+      id: programTable.id,
+      eventId: programTable.eventId,
+      occurrenceDate: programTable.occurrenceDate,
+      ...lifecycleEventColumns,
+    })
+    .from(programTable)
+    .innerJoin(eventTable, eq(programTable.eventId, eventTable.id))
+    .innerJoin(serviceTable, eq(eventTable.serviceId, serviceTable.id))
+    .innerJoin(ministryTable, eq(serviceTable.ministryId, ministryTable.id))
+    .innerJoin(churchTable, eq(ministryTable.churchId, churchTable.id))
+    .where(and(
+      eq(programTable.status, 'published'),
+      lte(eventTable.eventDate, now),
+      isNull(churchTable.deletedAt),
+    ));
+
+  const exceptions = await listExceptionsForEvents([...new Set(programs
+    .filter(program => program.eventType === 'recurring' && program.occurrenceDate)
+    .map(program => program.eventId))]);
+  const exceptionsByEvent = new Map<number, EventExceptionRecord[]>();
+
+  for (const exception of exceptions) {
+    exceptionsByEvent.set(exception.eventId, [...(exceptionsByEvent.get(exception.eventId) ?? []), exception]);
+  }
+
+  return {
+    eventIds: events.filter(event => isEventFinished(event, now)).map(event => event.id),
+    programIds: programs
+      .filter(program => isProgramFinished(program, program, exceptionsByEvent.get(program.eventId) ?? [], now))
+      .map(program => program.id),
+  };
+}
+
+/**
+ * Complete the events and programs that are over, count the hymns they used and record the run.
+ * A failed run is recorded with its error before the error is rethrown.
+ */
+export async function runEventLifecycle(options: { triggeredBy: string; now?: Date }): Promise<JobRunRecord> {
+  const startedAt = new Date();
+  const now = options.now ?? startedAt;
+
+  try {
+    const finished = await findFinished(now);
+
+    return await db.transaction(async (tx) => {
+      const completedEvents = finished.eventIds.length > 0
+        ? await tx
+          .update(eventTable)
+          .set({ isCompleted: true })
+          .where(and(inArray(eventTable.id, finished.eventIds), eq(eventTable.isCompleted, false)))
+          .returning()
+        : [];
+
+      const completedPrograms = finished.programIds.length > 0
+        ? await tx
+          .update(programTable)
+          .set({ status: 'completed' })
+          .where(and(inArray(programTable.id, finished.programIds), eq(programTable.status, 'published')))
+          .returning()
+        : [];
+
+      if (completedPrograms.length > 0) {
+        await tx
+          .insert(transitionTable)
+          .values(completedPrograms.map(program => ({
+            programId: program.id,
+            action: 'complete',
+            fromStatus: 'published' as const,
+            toStatus: 'completed' as const,
+            comment: 'Completed after the service',
+            performedBy: options.triggeredBy,
+          })));
+      }
+
+      // Only programs completed by this run count, so usage is never counted twice
+      const programHymns = completedPrograms.length > 0
+        ? await tx
+          .select({ hymnId: programHymnTable.hymnId })
+          .from(programHymnTable)
+          .where(inArray(programHymnTable.programId, completedPrograms.map(program => program.id)))
+        : [];
+      const hymnUsage = countHymnUsage(programHymns.map(programHymn => programHymn.hymnId));
+
+      for (const { hymnId, count } of hymnUsage) {
+        await tx
+          .update(hymnTable)
+          .set({ usageCount: sql`${hymnTable.usageCount} + ${count}` })
+          .where(eq(hymnTable.id, hymnId));
+      }
+
+      const changes: EventLifecycleChanges = {
+        completedEventIds: completedEvents.map(event => event.id),
+        completedProgramIds: completedPrograms.map(program => program.id),
+        hymnUsage,
+      };
+
+      const [run] = await tx
+        .insert(jobRunTable)
+        .values({
+          jobName: EVENT_LIFECYCLE_JOB,
+          triggeredBy: options.triggeredBy,
+          changes,
+          startedAt,
+          finishedAt: new Date(),
+        })
+        .returning();
+
+      return run!;
+    });
+  } catch (error) {
+    await db
+      .insert(jobRunTable)
+      .values({
+        jobName: EVENT_LIFECYCLE_JOB,
+        triggeredBy: options.triggeredBy,
+        error: error instanceof Error ? error.message : String(error),
+        startedAt,
+        finishedAt: new Date(),
+      });
+
+    throw error;
+  }
+}
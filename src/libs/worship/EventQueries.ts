@@ -0,0 +1,208 @@
+import type { SQL } from 'drizzle-orm';
+import { and, asc, eq, getTableColumns, gte, inArray, isNull, lte, or } from 'drizzle-orm';
+
+import type { EventFilters } from '@/features/worship/types';
+import { db } from '@/libs/DB';
+import type { DateWindow } from '@/libs/worship/RecurrenceEngine';
+import {
+  churchesSchema as churchTable,
+  eventsSchema as eventTable,
+  ministriesSchema as ministryTable,
+  servicesSchema as serviceTable,
+} from '@/models/WorshipSchema';
+
+/**
+ * Organization-scoped lookups for events. Events do not carry an organization ID
+ * themselves, so every access check walks the service → ministry → church chain.
+ */
+
+export type EventRecord = typeof eventTable.$inferSelect;
+export type ServiceRecord = typeof serviceTable.$inferSelect;
+export type MinistryRecord = typeof ministryTable.$inferSelect;
+export type ChurchRecord = typeof churchTable.$inferSelect;
+
+export type ServiceHierarchy = {
+  service: ServiceRecord;
+  ministry: MinistryRecord;
+  church: ChurchRecord;
+};
+
+export type EventHierarchy = {
+  event: EventRecord;
+} & ServiceHierarchy;
+
+// Columns returned for every event in list responses
+const eventListColumns = {
+  ...getTableColumns(eventTable),
+  service: {
+    id: serviceTable.id,
+    name: serviceTable.name,
+    defaultDuration: serviceTable.defaultDuration,
+  },
+  ministry: {
+    id: ministryTable.id,
+    name: ministryTable.name,
+    color: ministryTable.color,
+    icon: ministryTable.icon,
+  },
+  church: {
+    id: churchTable.id,
+    name: churchTable.name,
+    timezone: churchTable.timezone,
+  },
+};
+
+// Longest an event can last, so one starting before a window can still overlap it
+const MAX_EVENT_DURATION_MS = 24 * 60 * 60_000;
+
+function organizationScope(organizationId: string): SQL[] {
+  return [
+    eq(churchTable.organizationId, organizationId),
+    isNull(churchTable.deletedAt),
+  ];
+}
+
+/**
+ * Find an active service that belongs to the given organization
+ */
+export async function findServiceInOrganization(
+  serviceId: number,
+  organizationId: string,
+): Promise<ServiceHierarchy | null> {
+  const [row] = await db
+    .select({
+      service: serviceTable,
+      ministry: ministryTable,
+      church: churchTable,
+    })
+    .from(serviceTable)
+    .innerJoin(ministryTable, eq(serviceTable.ministryId, ministryTable.id))
+    .innerJoin(churchTable, eq(ministryTable.churchId, churchTable.id))
+    .where(and(
+      eq(serviceTable.id, serviceId),
+      eq(serviceTable.isActive, true),
+      ...organizationScope(organizationId),
+    ))
+    .limit(1);
+
+  return row ?? null;
+}
+
+/**
+ * Find a ministry that belongs to the given organization
+ */
+export async function findMinistryInOrganization(
+  ministryId: number,
+  organizationId: string,
+): Promise<MinistryRecord | null> {
+  const [row] = await db
+    .select({ ministry: ministryTable })
+    .from(ministryTable)
+    .innerJoin(churchTable, eq(ministryTable.churchId, churchTable.id))
+    .where(and(
+      eq(ministryTable.id, ministryId),
+      ...organizationScope(organizationId),
+    ))
+    .limit(1);
+
+  return row?.ministry ?? null;
+}
+
+/**
+ * Find an event together with its service, ministry and church, if it belongs to the organization
+ */
+export async function findEventInOrganization(
+  eventId: number,
+  organizationId: string,
+): Promise<EventHierarchy | null> {
+  const [row] = await db
+    .select({
+      event: eventTable,
+      service: serviceTable,
+      ministry: ministryTable,
+      church: churchTable,
+    })
+    .from(eventTable)
+    .innerJoin(serviceTable, eq(eventTable.serviceId, serviceTable.id))
+    .innerJoin(ministryTable, eq(serviceTable.ministryId, ministryTable.id))
+    .innerJoin(churchTable, eq(ministryTable.churchId, churchTable.id))
+    .where(and(
+      eq(eventTable.id, eventId),
+      ...organizationScope(organizationId),
+    ))
+    .limit(1);
+
+  return row ?? null;
+}
+
+function eventFilterConditions(organizationId: string, filters: EventFilters): SQL[] {
+  const conditions = organizationScope(organizationId);
+
+  if (filters.eventIds) {
+    conditions.push(inArray(eventTable.id, filters.eventIds));
+  }
+  if (filters.serviceIds?.length) {
+    conditions.push(inArray(eventTable.serviceId, filters.serviceIds));
+  }
+  if (filters.ministryIds?.length) {
+    conditions.push(inArray(ministryTable.id, filters.ministryIds));
+  }
+  if (filters.churchIds?.length) {
+    conditions.push(inArray(churchTable.id, filters.churchIds));
+  }
+  if (filters.eventType) {
+    conditions.push(eq(eventTable.eventType, filters.eventType));
+  }
+  if (filters.isCompleted !== undefined) {
+    conditions.push(eq(eventTable.isCompleted, filters.isCompleted));
+  }
+  if (filters.dateRange) {
+    conditions.push(gte(eventTable.eventDate, filters.dateRange.start));
+    conditions.push(lte(eventTable.eventDate, filters.dateRange.end));
+  }
+
+  return conditions;
+}
+
+function selectEventList(conditions: SQL[]) {
+  return db
+    .select(eventListColumns)
+    .from(eventTable)
+    .innerJoin(serviceTable, eq(eventTable.serviceId, serviceTable.id))
+    .innerJoin(ministryTable, eq(serviceTable.ministryId, ministryTable.id))
+    .innerJoin(churchTable, eq(ministryTable.churchId, churchTable.id))
+    .where(and(...conditions))
+    .orderBy(asc(eventTable.eventDate));
+}
+
+/**
+ * List events of an organization matching the given filters, ordered by date
+ */
+export async function listEventsForOrganization(
+  organizationId: string,
+  filters: EventFilters = {},
+) {
+  return selectEventList(eventFilterConditions(organizationId, filters));
+}
+
+export type EventListItem = Awaited<ReturnType<typeof listEventsForOrganization>>[number];
+
+/**
+ * List events that may have occurrences in a window: events starting in or shortly before it,
+ * and recurring events that started before its end (expand them to get the actual occurrences)
+ */
+export async function listEventsInWindow(
+  organizationId: string,
+  window: DateWindow,
+  filters: Omit<EventFilters, 'dateRange'> = {},
+): Promise<EventListItem[]> {
+  const conditions = eventFilterConditions(organizationId, filters);
+
+  conditions.push(lte(eventTable.eventDate, window.end));
+  conditions.push(or(
+    gte(eventTable.eventDate, new Date(window.start.getTime() - MAX_EVENT_DURATION_MS)),
+    eq(eventTable.eventType, 'recurring'),
+  )!);
+
+  return selectEventList(conditions);
+}
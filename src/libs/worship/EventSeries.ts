@@ -0,0 +1,248 @@
+import { and, asc, eq, gte, inArray } from 'drizzle-orm';
+
+import type { RecurringConfig } from '@/features/worship/types';
+import { db } from '@/libs/DB';
+import {
+  eventExceptionsSchema as eventExceptionTable,
+  eventsSchema as eventTable,
+  worshipProgramsSchema as programTable,
+} from '@/models/WorshipSchema';
+
+import type { EventRecord } from './EventQueries';
+import type { EventInput } from './EventValidation';
+import type { Occurrence } from './RecurrenceEngine';
+import { normalizeRecurringConfig } from './RecurrenceEngine';
+
+/**
+ * Edits of recurring events that only affect part of the series.
+ *
+ * - "this occurrence" is stored as an exception row keyed by the occurrence's local date
+ * - "this and following" ends the series before the occurrence and starts a new event
+ *   (linked through `seriesId`) that takes over the exceptions and programs of the
+ *   following occurrences, so nothing attached to them is lost
+ */
+
+export type EventExceptionRecord = typeof eventExceptionTable.$inferSelect;
+
+export type OccurrenceChanges = Pick<EventInput, 'eventDate' | 'title' | 'duration'>;
+
+/**
+ * List the exceptions of a recurring event, ordered by occurrence date
+ */
+export async function listEventExceptions(eventId: number): Promise<EventExceptionRecord[]> {
+  return db
+    .select()
+    .from(eventExceptionTable)
+    .where(eq(eventExceptionTable.eventId, eventId))
+    .orderBy(asc(eventExceptionTable.occurrenceDate));
+}
+
+/**
+ * List the exceptions of several events at once (e.g. every recurring event shown in a calendar)
+ */
+export async function listExceptionsForEvents(eventIds: number[]): Promise<EventExceptionRecord[]> {
+  if (eventIds.length === 0) {
+    return [];
+  }
+
+  return db
+    .select()
+    .from(eventExceptionTable)
+    .where(inArray(eventExceptionTable.eventId, eventIds));
+}
+
+async function findEventException(eventId: number, occurrenceDate: string): Promise<EventExceptionRecord | null> {
+  const [exception] = await db
+    .select()
+    .from(eventExceptionTable)
+    .where(and(
+      eq(eventExceptionTable.eventId, eventId),
+      eq(eventExceptionTable.occurrenceDate, occurrenceDate),
+    ))
+    .limit(1);
+
+  return exception ?? null;
+}
+
+type ExceptionValues = Omit<typeof eventExceptionTable.$inferInsert, 'id' | 'eventId' | 'occurrenceDate'>;
+
+async function upsertEventException(
+  eventId: number,
+  occurrenceDate: string,
+  changes: ExceptionValues,
+): Promise<EventExceptionRecord> {
+  const [exception] = await db
+    .insert(eventExceptionTable)
+    .values({ eventId, occurrenceDate, ...changes })
+    .onConflictDoUpdate({
+      target: [eventExceptionTable.eventId, eventExceptionTable.occurrenceDate],
+      set: { ...changes, updatedAt: new Date() },
+    })
+    .returning();
+
+  return exception!;
+}
+
+/**
+ * Reschedule or override the title/duration of a single occurrence.
+ * Changes are merged with an existing exception; values equal to the series are dropped.
+ */
+export async function saveOccurrenceException(
+  event: EventRecord,
+  occurrence: Occurrence,
+  changes: OccurrenceChanges,
+  userId: string,
+): Promise<EventExceptionRecord> {
+  const existing = await findEventException(event.id, occurrence.date);
+  const current = existing?.exceptionType === 'skipped' ? null : existing;
+
+  const eventDate = changes.eventDate !== undefined ? changes.eventDate : current?.eventDate;
+  const title = changes.title !== undefined ? changes.title : current?.title;
+  const duration = changes.duration !== undefined ? changes.duration : current?.duration;
+
+  const rescheduled = eventDate && eventDate.getTime() !== occurrence.start.getTime() ? eventDate : null;
+
+  return upsertEventException(event.id, occurrence.date, {
+    exceptionType: rescheduled ? 'rescheduled' : 'modified',
+    eventDate: rescheduled,
+    title: title && title !== event.title ? title : null,
+    duration: duration && duration !== event.duration ? duration : null,
+    createdBy: userId,
+  });
+}
+
+/**
+ * Cancel a single occurrence of a recurring event
+ */
+export async function skipOccurrence(
+  event: EventRecord,
+  occurrence: Occurrence,
+  userId: string,
+): Promise<EventExceptionRecord> {
+  return upsertEventException(event.id, occurrence.date, {
+    exceptionType: 'skipped',
+    eventDate: null,
+    title: null,
+    duration: null,
+    createdBy: userId,
+  });
+}
+
+/**
+ * Remove an exception, restoring the occurrence as the series defines it
+ */
+export async function deleteEventException(eventId: number, exceptionId: number): Promise<EventExceptionRecord | null> {
+  const [exception] = await db
+    .delete(eventExceptionTable)
+    .where(and(
+      eq(eventExceptionTable.id, exceptionId),
+      eq(eventExceptionTable.eventId, eventId),
+    ))
+    .returning();
+
+  return exception ?? null;
+}
+
+// Recurring config of the part of a series that ends right before the given occurrence
+function endConfigBefore(config: RecurringConfig, occurrence: Occurrence): RecurringConfig {
+  return {
+    ...config,
+    endDate: new Date(occurrence.start.getTime() - 1),
+    ...(config.occurrences !== undefined && { occurrences: occurrence.index }),
+  };
+}
+
+/**
+ * Apply changes to an occurrence and every following one by splitting the series in two.
+ * Expects a non-first occurrence computed without exceptions; returns both parts of the series.
+ */
+export async function splitSeries(
+  event: EventRecord,
+  occurrence: Occurrence,
+  changes: EventInput,
+  userId: string,
+): Promise<{ previous: EventRecord; following: EventRecord }> {
+  const config = normalizeRecurringConfig(event.recurringConfig);
+  const followingConfig = changes.recurringConfig !== undefined
+    ? changes.recurringConfig
+    : {
+        ...config,
+        ...(config.occurrences !== undefined && { occurrences: config.occurrences - occurrence.index }),
+      };
+
+  return db.transaction(async (tx) => {
+    const [previous] = await tx
+      .update(eventTable)
+      .set({ recurringConfig: endConfigBefore(config, occurrence) })
+      .where(eq(eventTable.id, event.id))
+      .returning();
+
+    const [following] = await tx
+      .insert(eventTable)
+      .values({
+        serviceId: changes.serviceId ?? event.serviceId,
+        title: changes.title ?? event.title,
+        description: changes.description !== undefined ? changes.description : event.description,
+        eventDate: changes.eventDate ?? occurrence.start,
+        duration: changes.duration ?? event.duration,
+        eventType: changes.eventType ?? event.eventType,
+        recurringPattern: changes.recurringPattern !== undefined ? changes.recurringPattern : event.recurringPattern,
+        recurringConfig: followingConfig,
+        seriesId: event.seriesId ?? event.id,
+        isCompleted: changes.isCompleted ?? false,
+        createdBy: userId,
+      })
+      .returning();
+
+    // Exceptions and programs of the following occurrences move to the new event
+    await tx
+      .update(eventExceptionTable)
+      .set({ eventId: following!.id })
+      .where(and(
+        eq(eventExceptionTable.eventId, event.id),
+        gte(eventExceptionTable.occurrenceDate, occurrence.date),
+      ));
+
+    await tx
+      .update(programTable)
+      .set({ eventId: following!.id })
+      .where(and(
+        eq(programTable.eventId, event.id),
+        gte(programTable.occurrenceDate, occurrence.date),
+      ));
+
+    return { previous: previous!, following: following! };
+  });
+}
+
+/**
+ * Delete an occurrence and every following one by ending the series before it.
+ * Exceptions and programs of the removed occurrences are deleted with them.
+ */
+export async function truncateSeries(event: EventRecord, occurrence: Occurrence): Promise<EventRecord> {
+  const config = normalizeRecurringConfig(event.recurringConfig);
+
+  return db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(eventTable)
+      .set({ recurringConfig: endConfigBefore(config, occurrence) })
+      .where(eq(eventTable.id, event.id))
+      .returning();
+
+    await tx
+      .delete(eventExceptionTable)
+      .where(and(
+        eq(eventExceptionTable.eventId, event.id),
+        gte(eventExceptionTable.occurrenceDate, occurrence.date),
+      ));
+
+    await tx
+      .delete(programTable)
+      .where(and(
+        eq(programTable.eventId, event.id),
+        gte(programTable.occurrenceDate, occurrence.date),
+      ));
+
+    return updated!;
+  });
+}
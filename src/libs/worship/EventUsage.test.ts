@@ -0,0 +1,163 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { EventListItem } from './EventQueries';
+import { listEventsInWindow } from './EventQueries';
+import { checkEventCreationLimit, countOccurrencesInRanges } from './EventUsage';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+vi.mock('./EventQueries', () => ({
+  listEventsInWindow: vi.fn(),
+}));
+
+vi.mock('./EventSeries', () => ({
+  listExceptionsForEvents: vi.fn().mockResolvedValue([]),
+}));
+
+const TORONTO = 'America/Toronto';
+
+// Daily at 07:00 from Sunday 2025-06-01
+const morningPrayer = {
+  id: 1,
+  serviceId: 3,
+  title: 'Morning Prayer',
+  description: null,
+  eventDate: new Date('2025-06-01T11:00:00Z'),
+  duration: 30,
+  eventType: 'recurring',
+  recurringPattern: 'daily',
+  recurringConfig: { frequency: 1 },
+  seriesId: null,
+  isCompleted: false,
+  createdBy: 'user-123',
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  updatedAt: new Date('2025-01-01T00:00:00Z'),
+  service: { id: 3, name: 'Prayer', defaultDuration: 30 },
+  ministry: { id: 2, name: 'Worship', color: null, icon: null },
+  church: { id: 1, name: 'Grace Church', timezone: TORONTO },
+} as EventListItem;
+
+// Wednesday 2025-06-11, 10:00 in Toronto
+const now = new Date('2025-06-11T14:00:00Z');
+
+describe('EventUsage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(listEventsInWindow).mockResolvedValue([morningPrayer]);
+  });
+
+  describe('countOccurrencesInRanges', () => {
+    it('counts occurrences starting in the range of their church', () => {
+      const occurrences = [
+        { church: { id: 1 }, start: new Date('2025-06-08T04:00:00Z') },
+        { church: { id: 1 }, start: new Date('2025-06-08T03:59:00Z') },
+        { church: { id: 2 }, start: new Date('2025-06-09T12:00:00Z') },
+      ] as Parameters<typeof countOccurrencesInRanges>[0];
+      const ranges = new Map([[1, {
+        start: new Date('2025-06-08T04:00:00Z'),
+        end: new Date('2025-06-15T04:00:00Z'),
+      }]]);
+
+      expect(countOccurrencesInRanges(occurrences, ranges)).toBe(1);
+    });
+  });
+
+  describe('checkEventCreationLimit', () => {
+    it('counts the occurrences of the current church week', async () => {
+      const result = await checkEventCreationLimit('org-123', 'free', [{
+        event: { eventDate: new Date('2025-06-12T23:00:00Z'), duration: 60, eventType: 'one_time' },
+        timeZone: TORONTO,
+      }], { now });
+
+      expect(result).toMatchObject({ allowed: true, current: 7, limit: 10 });
+    });
+
+    it('refuses events adding more occurrences than the week allows', async () => {
+      const result = await checkEventCreationLimit('org-123', 'free', [{
+        event: {
+          eventDate: new Date('2025-06-09T23:00:00Z'),
+          duration: 60,
+          eventType: 'recurring',
+          recurringPattern: 'daily',
+          recurringConfig: { frequency: 1 },
+        },
+        timeZone: TORONTO,
+      }], { now });
+
+      expect(result.allowed).toBe(false);
+      expect(result.message).toContain('weekly events limit');
+    });
+
+    it('checks every week a recurring event adds occurrences to', async () => {
+      // Twice a day from Sunday 2025-06-22, two weeks after the current one
+      vi.mocked(listEventsInWindow).mockResolvedValue([
+        { ...morningPrayer, eventDate: new Date('2025-06-22T11:00:00Z') },
+        { ...morningPrayer, id: 2, eventDate: new Date('2025-06-22T22:00:00Z') },
+      ]);
+
+      const result = await checkEventCreationLimit('org-123', 'free', [{
+        event: {
+          eventDate: new Date('2025-06-12T23:00:00Z'),
+          duration: 60,
+          eventType: 'recurring',
+          recurringPattern: 'weekly',
+          recurringConfig: { frequency: 1 },
+        },
+        timeZone: TORONTO,
+      }], { now });
+
+      expect(result).toMatchObject({ allowed: false, current: 14 });
+      expect(listEventsInWindow).toHaveBeenCalledWith('org-123', {
+        start: new Date('2025-06-08T04:00:00Z'),
+        end: new Date('2025-08-31T04:00:00Z'),
+      });
+    });
+
+    it('counts a batch of events together and leaves out the rescheduled event', async () => {
+      const event = { eventDate: new Date('2025-06-12T23:00:00Z'), duration: 60, eventType: 'one_time' as const };
+
+      const batch = await checkEventCreationLimit('org-123', 'free', [
+        { event, timeZone: TORONTO },
+        { event, timeZone: TORONTO },
+        { event, timeZone: TORONTO },
+        { event, timeZone: TORONTO },
+      ], { now });
+
+      expect(batch).toMatchObject({ allowed: false, current: 7 });
+
+      const rescheduled = await checkEventCreationLimit('org-123', 'free', [{
+        event: { ...event, eventType: 'recurring', recurringPattern: 'daily', recurringConfig: { frequency: 1 } },
+        timeZone: TORONTO,
+      }], { excludeEventId: 1, now });
+
+      expect(rescheduled).toMatchObject({ allowed: true, current: 0 });
+    });
+
+    it('checks the week of future events', async () => {
+      vi.mocked(listEventsInWindow).mockResolvedValue([]);
+
+      const result = await checkEventCreationLimit('org-123', 'free', [{
+        event: { eventDate: new Date('2025-07-01T14:00:00Z'), duration: 60, eventType: 'one_time' },
+        timeZone: TORONTO,
+      }], { now });
+
+      expect(result).toMatchObject({ allowed: true, current: 0 });
+      expect(listEventsInWindow).toHaveBeenCalledWith('org-123', {
+        start: new Date('2025-06-29T04:00:00Z'),
+        end: new Date('2025-07-06T04:00:00Z'),
+      });
+    });
+
+    it('skips counting for unlimited plans', async () => {
+      const result = await checkEventCreationLimit('org-123', 'pro', [{
+        event: { eventDate: now, eventType: 'one_time' },
+        timeZone: TORONTO,
+      }], { now });
+
+      expect(result).toMatchObject({ allowed: true, limit: -1 });
+      expect(listEventsInWindow).not.toHaveBeenCalled();
+    });
+  });
+});
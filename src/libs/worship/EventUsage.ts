@@ -0,0 +1,176 @@
+import { and, eq, isNull } from 'drizzle-orm';
+
+import type { CalendarEvent } from '@/features/worship/types';
+import { db } from '@/libs/DB';
+import { churchesSchema as churchTable } from '@/models/WorshipSchema';
+import { addZonedDays, getZonedMonthRange, getZonedWeekRange, normalizeTimeZone } from '@/utils/TimeZone';
+
+import { buildCalendarEvents } from './EventCalendar';
+import { listEventsInWindow } from './EventQueries';
+import { listExceptionsForEvents } from './EventSeries';
+import type { DateWindow, OccurrenceException, RecurrenceSource } from './RecurrenceEngine';
+import { expandEventOccurrences } from './RecurrenceEngine';
+import type { LimitCheckResult, SubscriptionTier } from './SubscriptionLimits';
+import { checkLimit, SUBSCRIPTION_LIMITS } from './SubscriptionLimits';
+
+/**
+ * Event usage of an organization for subscription limits.
+ *
+ * Usage counts occurrences, not stored events: a weekly recurring event counts once per week.
+ * Weeks start on Sunday and months on the 1st, both in the time zone of each event's church.
+ */
+
+// Weeks checked against the weekly limit from the first week an event adds occurrences to
+export const EVENT_LIMIT_HORIZON_WEEKS = 12;
+
+export type EventUsage = {
+  eventsThisWeek: number;
+  eventsThisMonth: number;
+};
+
+export type EventLimitCandidate = {
+  event: RecurrenceSource;
+  timeZone: string | null | undefined; // Time zone of the event's church
+  exceptions?: OccurrenceException[];
+};
+
+export type EventLimitOptions = {
+  excludeEventId?: number; // Event being rescheduled, whose current occurrences are replaced
+  now?: Date;
+};
+
+type WeekLoad = {
+  range: DateWindow;
+  added: number;
+};
+
+/**
+ * Count the calendar entries starting within the range of their own church
+ */
+export function countOccurrencesInRanges(
+  occurrences: CalendarEvent[],
+  ranges: Map<number, DateWindow>,
+): number {
+  return occurrences.filter((occurrence) => {
+    const range = ranges.get(occurrence.church.id);
+    return range !== undefined && occurrence.start >= range.start && occurrence.start < range.end;
+  }).length;
+}
+
+/**
+ * The smallest window covering every range
+ */
+function coverRanges(ranges: DateWindow[]): DateWindow {
+  return {
+    start: new Date(Math.min(...ranges.map(range => range.start.getTime()))),
+    end: new Date(Math.max(...ranges.map(range => range.end.getTime()))),
+  };
+}
+
+/**
+ * Expand the events of an organization into their occurrences overlapping the window
+ */
+async function listOccurrences(organizationId: string, window: DateWindow): Promise<CalendarEvent[]> {
+  const events = await listEventsInWindow(organizationId, window);
+  const exceptions = await listExceptionsForEvents(events
+    .filter(event => event.eventType === 'recurring')
+    .map(event => event.id));
+
+  return buildCalendarEvents(events, exceptions, window);
+}
+
+/**
+ * Count the event occurrences of an organization in the current week and month
+ */
+export async function getEventUsage(organizationId: string, now = new Date()): Promise<EventUsage> {
+  const churches = await db
+    .select({ id: churchTable.id, timezone: churchTable.timezone })
+    .from(churchTable)
+    .where(and(
+      eq(churchTable.organizationId, organizationId),
+      isNull(churchTable.deletedAt),
+    ));
+
+  if (churches.length === 0) {
+    return { eventsThisWeek: 0, eventsThisMonth: 0 };
+  }
+
+  const weeks = new Map(churches.map(church => [
+    church.id,
+    getZonedWeekRange(now, normalizeTimeZone(church.timezone)),
+  ]));
+  const months = new Map(churches.map(church => [
+    church.id,
+    getZonedMonthRange(now, normalizeTimeZone(church.timezone)),
+  ]));
+
+  const occurrences = await listOccurrences(
+    organizationId,
+    coverRanges([...weeks.values(), ...months.values()]),
+  );
+
+  return {
+    eventsThisWeek: countOccurrencesInRanges(occurrences, weeks),
+    eventsThisMonth: countOccurrencesInRanges(occurrences, months),
+  };
+}
+
+// Count `added` occurrences in a week, keeping weeks of different time zones apart
+function addToWeek(weeks: Map<string, WeekLoad>, range: DateWindow, added: number) {
+  const key = `${range.start.toISOString()}/${range.end.toISOString()}`;
+  const week = weeks.get(key) ?? { range, added: 0 };
+
+  week.added += added;
+  weeks.set(key, week);
+}
+
+/**
+ * Check whether new or rescheduled events fit in the weekly events limit. Each event is checked
+ * from the week of its start in its church's time zone, or the current week for events starting
+ * earlier, over EVENT_LIMIT_HORIZON_WEEKS weeks: every week it adds occurrences to must stay
+ * within the limit, and the busiest of them is reported.
+ */
+export async function checkEventCreationLimit(
+  organizationId: string,
+  tier: SubscriptionTier,
+  candidates: EventLimitCandidate[],
+  options: EventLimitOptions = {},
+): Promise<LimitCheckResult> {
+  const usage = { churches: 0, ministries: 0, collaborators: 0, services: 0, eventsPerWeek: 0 };
+
+  if (SUBSCRIPTION_LIMITS[tier].eventsPerWeek === -1 || candidates.length === 0) {
+    return checkLimit(tier, usage, 'eventsPerWeek', 0);
+  }
+
+  const now = options.now ?? new Date();
+  const weeks = new Map<string, WeekLoad>();
+
+  for (const { event, timeZone, exceptions } of candidates) {
+    const zone = normalizeTimeZone(timeZone);
+    const start = new Date(event.eventDate);
+    const first = getZonedWeekRange(start > now ? start : now, zone);
+    const horizon = { start: first.start, end: addZonedDays(first.start, EVENT_LIMIT_HORIZON_WEEKS * 7, zone) };
+
+    addToWeek(weeks, first, 0);
+
+    for (const occurrence of expandEventOccurrences(event, horizon, { timeZone: zone, exceptions })) {
+      if (occurrence.start >= horizon.start && occurrence.start < horizon.end) {
+        addToWeek(weeks, getZonedWeekRange(occurrence.start, zone), 1);
+      }
+    }
+  }
+
+  const loads = [...weeks.values()];
+  const occurrences = (await listOccurrences(organizationId, coverRanges(loads.map(load => load.range))))
+    .filter(occurrence => occurrence.id !== options.excludeEventId);
+  const busiest = loads
+    .map(({ range, added }) => ({
+      current: occurrences.filter(occurrence => occurrence.start >= range.start && occurrence.start < range.end).length,
+      added,
+    }))
+    .reduce((busiest, week) => (week.current + week.added > busiest.current + busiest.added ? week : busiest));
+
+  usage.eventsPerWeek = busiest.current;
+
+  return checkLimit(tier, usage, 'eventsPerWeek', busiest.added);
+}
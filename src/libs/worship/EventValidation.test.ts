@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  isDateKey,
+  parseChurchDateTime,
+  parseEventFilters,
+  parseOccurrenceScope,
+  validateEventInput,
+  validateRecurrenceSettings,
+  validateRecurringConfig,
+} from './EventValidation';
+
+describe('EventValidation', () => {
+  describe('validateEventInput', () => {
+    const validBody = {
+      serviceId: 3,
+      title: '  Sunday Morning Worship  ',
+      eventDate: '2025-03-02T15:00:00.000Z',
+    };
+
+    it('accepts a minimal one-time event and applies defaults', () => {
+      const result = validateEventInput(validBody);
+
+      expect(result.error).toBeUndefined();
+      expect(result.data).toEqual({
+        serviceId: 3,
+        title: 'Sunday Morning Worship',
+        eventDate: new Date('2025-03-02T15:00:00.000Z'),
+        eventType: 'one_time',
+      });
+    });
+
+    it('requires serviceId, title and eventDate on create', () => {
+      const result = validateEventInput({ title: 'Missing service' });
+
+      expect(result.error).toBe('serviceId, title and eventDate are required');
+    });
+
+    it('rejects invalid dates and durations', () => {
+      expect(validateEventInput({ ...validBody, eventDate: 'not-a-date' }).error)
+        .toBe('eventDate must be a valid date');
+      expect(validateEventInput({ ...validBody, duration: -5 }).error)
+        .toContain('duration must be a positive number of minutes');
+      expect(validateEventInput({ ...validBody, duration: 5000 }).error)
+        .toContain('duration must be a positive number of minutes');
+    });
+
+    it('requires a pattern for recurring events', () => {
+      const result = validateEventInput({ ...validBody, eventType: 'recurring' });
+
+      expect(result.error).toBe('recurringPattern is required for recurring events');
+    });
+
+    it('rejects recurrence settings on one-time events', () => {
+      const result = validateEventInput({ ...validBody, recurringPattern: 'weekly' });
+
+      expect(result.error).toBe('recurringPattern and recurringConfig are only allowed on recurring events');
+    });
+
+    it('accepts a recurring event with a config', () => {
+      const result = validateEventInput({
+        ...validBody,
+        eventType: 'recurring',
+        recurringPattern: 'weekly',
+        recurringConfig: { frequency: 2, daysOfWeek: [0, 3, 0] },
+      });
+
+      expect(result.data?.recurringConfig).toEqual({ frequency: 2, daysOfWeek: [0, 3] });
+    });
+
+    it('only validates provided fields for partial updates', () => {
+      const result = validateEventInput({ eventType: 'recurring' }, { partial: true });
+
+      expect(result.error).toBeUndefined();
+      expect(result.data).toEqual({ eventType: 'recurring' });
+    });
+  });
+
+  describe('validateRecurringConfig', () => {
+    it('defaults frequency to 1', () => {
+      expect(validateRecurringConfig({}).data).toEqual({ frequency: 1 });
+    });
+
+    it('validates each field range', () => {
+      expect(validateRecurringConfig({ daysOfWeek: [7] }).error).toContain('daysOfWeek');
+      expect(validateRecurringConfig({ weekOfMonth: 5 }).error).toContain('weekOfMonth');
+      expect(validateRecurringConfig({ monthsOfYear: [0] }).error).toContain('monthsOfYear');
+      expect(validateRecurringConfig({ dayOfMonth: 32 }).error).toContain('dayOfMonth');
+      expect(validateRecurringConfig({ occurrences: 0 }).error).toContain('occurrences');
+      expect(validateRecurringConfig({ endDate: 'soon' }).error).toContain('endDate');
+    });
+
+    it('accepts the last week of the month', () => {
+      expect(validateRecurringConfig({ weekOfMonth: -1 }).data?.weekOfMonth).toBe(-1);
+    });
+  });
+
+  describe('validateRecurrenceSettings', () => {
+    it('allows series events without recurrence settings', () => {
+      expect(validateRecurrenceSettings('series', null, null)).toBeNull();
+    });
+  });
+
+  describe('parseChurchDateTime', () => {
+    it('reads date-times without offset in the church time zone', () => {
+      expect(parseChurchDateTime('2025-03-02T10:00', 'America/Toronto')).toEqual(new Date('2025-03-02T15:00:00Z'));
+      expect(parseChurchDateTime('2025-07-06T10:00:00', 'America/Toronto')).toEqual(new Date('2025-07-06T14:00:00Z'));
+      expect(parseChurchDateTime('2025-03-02T10:00', null)).toEqual(new Date('2025-03-02T10:00:00Z'));
+    });
+
+    it('leaves absolute dates to validateEventInput', () => {
+      expect(parseChurchDateTime('2025-03-02T15:00:00.000Z', 'America/Toronto')).toBeNull();
+      expect(parseChurchDateTime(1740927600000, 'America/Toronto')).toBeNull();
+    });
+  });
+
+  describe('parseEventFilters', () => {
+    it('parses every supported filter', () => {
+      const params = new URLSearchParams({
+        serviceIds: '1,2',
+        ministryIds: '4',
+        churchIds: '7',
+        eventType: 'recurring',
+        isCompleted: 'false',
+        startDate: '2025-01-01T00:00:00.000Z',
+        endDate: '2025-01-31T23:59:59.000Z',
+      });
+
+      expect(parseEventFilters(params).data).toEqual({
+        serviceIds: [1, 2],
+        ministryIds: [4],
+        churchIds: [7],
+        eventType: 'recurring',
+        isCompleted: false,
+        dateRange: {
+          start: new Date('2025-01-01T00:00:00.000Z'),
+          end: new Date('2025-01-31T23:59:59.000Z'),
+        },
+      });
+    });
+
+    it('returns empty filters when nothing is provided', () => {
+      expect(parseEventFilters(new URLSearchParams()).data).toEqual({});
+    });
+
+    it('rejects malformed filters', () => {
+      expect(parseEventFilters(new URLSearchParams({ churchIds: '1,abc' })).error)
+        .toBe('churchIds must be a comma-separated list of IDs');
+      expect(parseEventFilters(new URLSearchParams({ isCompleted: 'yes' })).error)
+        .toBe('isCompleted must be true or false');
+      expect(parseEventFilters(new URLSearchParams({ startDate: '2025-01-01' })).error)
+        .toBe('startDate and endDate must be provided together');
+      expect(parseEventFilters(new URLSearchParams({ startDate: '2025-02-01', endDate: '2025-01-01' })).error)
+        .toBe('startDate must be before endDate');
+    });
+  });
+
+  describe('parseOccurrenceScope', () => {
+    it('defaults to the whole series', () => {
+      expect(parseOccurrenceScope(new URLSearchParams()).data).toEqual({ scope: 'all' });
+    });
+
+    it('requires an occurrence date for single and following occurrences', () => {
+      expect(parseOccurrenceScope(new URLSearchParams({ scope: 'this', occurrenceDate: '2025-04-20' })).data)
+        .toEqual({ scope: 'this', occurrenceDate: '2025-04-20' });
+      expect(parseOccurrenceScope(new URLSearchParams({ scope: 'following' })).error)
+        .toBe('occurrenceDate (YYYY-MM-DD) is required when editing this or following occurrences');
+    });
+
+    it('rejects unknown scopes', () => {
+      expect(parseOccurrenceScope(new URLSearchParams({ scope: 'future' })).error)
+        .toBe('scope must be one of: this, following, all');
+    });
+  });
+
+  describe('isDateKey', () => {
+    it('only accepts real calendar dates', () => {
+      expect(isDateKey('2024-02-29')).toBe(true);
+      expect(isDateKey('2025-02-29')).toBe(false);
+      expect(isDateKey('2025-4-20')).toBe(false);
+      expect(isDateKey(null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,390 @@
+import type {
+  EventEditScope,
+  EventFilters,
+  EventPattern,
+  EventType,
+  RecurringConfig,
+} from '@/features/worship/types';
+import { normalizeTimeZone, parseLocalDateTime, zonedTimeToUtc } from '@/utils/TimeZone';
+
+export const EVENT_TYPES: EventType[] = ['one_time', 'recurring', 'series'];
+
+export const EVENT_PATTERNS: EventPattern[] = ['daily', 'weekly', 'monthly', 'yearly', 'custom'];
+
+export const EVENT_EDIT_SCOPES: EventEditScope[] = ['this', 'following', 'all'];
+
+// Fields that can be overridden on a single occurrence of a recurring event
+export const OCCURRENCE_FIELDS = ['eventDate', 'title', 'duration'] as const;
+
+// Longest event we accept (in minutes) - a full day retreat
+export const MAX_EVENT_DURATION = 24 * 60;
+
+export type EventInput = {
+  serviceId?: number;
+  title?: string;
+  description?: string | null;
+  eventDate?: Date;
+  duration?: number;
+  eventType?: EventType;
+  recurringPattern?: EventPattern | null;
+  recurringConfig?: RecurringConfig | null;
+  isCompleted?: boolean;
+};
+
+export type OccurrenceScope =
+  | { scope: 'all'; occurrenceDate?: undefined }
+  | { scope: 'this' | 'following'; occurrenceDate: string };
+
+export type ValidationResult<T> =
+  | { data: T; error?: undefined }
+  | { data?: undefined; error: string };
+
+/**
+ * Parse a positive integer from a number or numeric string
+ */
+export function parsePositiveInteger(value: unknown): number | null {
+  const parsed = typeof value === 'string' && value.trim() !== ''
+    ? Number(value)
+    : value;
+
+  if (typeof parsed !== 'number' || !Number.isInteger(parsed) || parsed <= 0) {
+    return null;
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse a date from an ISO string, timestamp or Date instance
+ */
+export function parseDate(value: unknown): Date | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value;
+  }
+
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Read a date-time given without UTC offset (e.g. from a datetime-local input) as the wall-clock
+ * time of the church. Values with an offset are absolute already, and give null.
+ */
+export function parseChurchDateTime(value: unknown, timeZone: string | null | undefined): Date | null {
+  const local = typeof value === 'string' ? parseLocalDateTime(value) : null;
+  return local ? zonedTimeToUtc(local, normalizeTimeZone(timeZone)) : null;
+}
+
+function parseIntegerList(value: unknown, min: number, max: number): number[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const numbers = value.map(item => (typeof item === 'string' ? Number(item) : item));
+  if (numbers.some(item => typeof item !== 'number' || !Number.isInteger(item) || item < min || item > max)) {
+    return null;
+  }
+
+  return [...new Set(numbers as number[])].sort((a, b) => a - b);
+}
+
+/**
+ * Validate a free-form recurring configuration coming from a request body
+ */
+export function validateRecurringConfig(value: unknown): ValidationResult<RecurringConfig> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'recurringConfig must be an object' };
+  }
+
+  const raw = value as Record<string, unknown>;
+  const config: RecurringConfig = { frequency: 1 };
+
+  if (raw.frequency !== undefined) {
+    const frequency = parsePositiveInteger(raw.frequency);
+    if (!frequency) {
+      return { error: 'recurringConfig.frequency must be a positive integer' };
+    }
+    config.frequency = frequency;
+  }
+
+  if (raw.daysOfWeek !== undefined) {
+    const daysOfWeek = parseIntegerList(raw.daysOfWeek, 0, 6);
+    if (!daysOfWeek) {
+      return { error: 'recurringConfig.daysOfWeek must contain days between 0 (Sunday) and 6 (Saturday)' };
+    }
+    config.daysOfWeek = daysOfWeek;
+  }
+
+  if (raw.dayOfMonth !== undefined) {
+    const dayOfMonth = parsePositiveInteger(raw.dayOfMonth);
+    if (!dayOfMonth || dayOfMonth > 31) {
+      return { error: 'recurringConfig.dayOfMonth must be between 1 and 31' };
+    }
+    config.dayOfMonth = dayOfMonth;
+  }
+
+  if (raw.weekOfMonth !== undefined) {
+    const weekOfMonth = Number(raw.weekOfMonth);
+    if (![-1, 1, 2, 3, 4].includes(weekOfMonth)) {
+      return { error: 'recurringConfig.weekOfMonth must be 1-4, or -1 for the last week' };
+    }
+    config.weekOfMonth = weekOfMonth;
+  }
+
+  if (raw.monthsOfYear !== undefined) {
+    const monthsOfYear = parseIntegerList(raw.monthsOfYear, 1, 12);
+    if (!monthsOfYear) {
+      return { error: 'recurringConfig.monthsOfYear must contain months between 1 and 12' };
+    }
+    config.monthsOfYear = monthsOfYear;
+  }
+
+  if (raw.endDate !== undefined && raw.endDate !== null) {
+    const endDate = parseDate(raw.endDate);
+    if (!endDate) {
+      return { error: 'recurringConfig.endDate must be a valid date' };
+    }
+    config.endDate = endDate;
+  }
+
+  if (raw.occurrences !== undefined && raw.occurrences !== null) {
+    const occurrences = parsePositiveInteger(raw.occurrences);
+    if (!occurrences) {
+      return { error: 'recurringConfig.occurrences must be a positive integer' };
+    }
+    config.occurrences = occurrences;
+  }
+
+  if (typeof raw.interval === 'string') {
+    config.interval = raw.interval;
+  }
+
+  return { data: config };
+}
+
+/**
+ * Check that the event type, recurring pattern and recurring config agree with each other
+ */
+export function validateRecurrenceSettings(
+  eventType: EventType,
+  recurringPattern: EventPattern | null | undefined,
+  recurringConfig: RecurringConfig | null | undefined,
+): string | null {
+  if (eventType === 'recurring' && !recurringPattern) {
+    return 'recurringPattern is required for recurring events';
+  }
+
+  if (eventType !== 'recurring' && (recurringPattern || recurringConfig)) {
+    return 'recurringPattern and recurringConfig are only allowed on recurring events';
+  }
+
+  return null;
+}
+
+/**
+ * Validate the body of an event create (or partial update) request
+ */
+export function validateEventInput(
+  body: Record<string, unknown>,
+  options: { partial?: boolean } = {},
+): ValidationResult<EventInput> {
+  const { partial = false } = options;
+  const data: EventInput = {};
+
+  if (!partial && (body.serviceId === undefined || !body.title || body.eventDate === undefined)) {
+    return { error: 'serviceId, title and eventDate are required' };
+  }
+
+  if (body.serviceId !== undefined) {
+    const serviceId = parsePositiveInteger(body.serviceId);
+    if (!serviceId) {
+      return { error: 'serviceId must be a positive integer' };
+    }
+    data.serviceId = serviceId;
+  }
+
+  if (body.title !== undefined) {
+    const title = typeof body.title === 'string' ? body.title.trim() : '';
+    if (title.length < 1 || title.length > 255) {
+      return { error: 'Event title must be between 1 and 255 characters' };
+    }
+    data.title = title;
+  }
+
+  if (body.description !== undefined) {
+    if (body.description !== null && typeof body.description !== 'string') {
+      return { error: 'description must be a string' };
+    }
+    data.description = typeof body.description === 'string' && body.description.trim()
+      ? body.description.trim()
+      : null;
+  }
+
+  if (body.eventDate !== undefined) {
+    const eventDate = parseDate(body.eventDate);
+    if (!eventDate) {
+      return { error: 'eventDate must be a valid date' };
+    }
+    data.eventDate = eventDate;
+  }
+
+  if (body.duration !== undefined && body.duration !== null) {
+    const duration = parsePositiveInteger(body.duration);
+    if (!duration || duration > MAX_EVENT_DURATION) {
+      return { error: `duration must be a positive number of minutes (max ${MAX_EVENT_DURATION})` };
+    }
+    data.duration = duration;
+  }
+
+  if (body.eventType !== undefined) {
+    if (!EVENT_TYPES.includes(body.eventType as EventType)) {
+      return { error: `eventType must be one of: ${EVENT_TYPES.join(', ')}` };
+    }
+    data.eventType = body.eventType as EventType;
+  } else if (!partial) {
+    data.eventType = 'one_time';
+  }
+
+  if (body.recurringPattern !== undefined) {
+    if (body.recurringPattern !== null && !EVENT_PATTERNS.includes(body.recurringPattern as EventPattern)) {
+      return { error: `recurringPattern must be one of: ${EVENT_PATTERNS.join(', ')}` };
+    }
+    data.recurringPattern = body.recurringPattern as EventPattern | null;
+  }
+
+  if (body.recurringConfig !== undefined && body.recurringConfig !== null) {
+    const configResult = validateRecurringConfig(body.recurringConfig);
+    if (configResult.error !== undefined) {
+      return { error: configResult.error };
+    }
+    data.recurringConfig = configResult.data;
+  } else if (body.recurringConfig === null) {
+    data.recurringConfig = null;
+  }
+
+  if (body.isCompleted !== undefined) {
+    if (typeof body.isCompleted !== 'boolean') {
+      return { error: 'isCompleted must be a boolean' };
+    }
+    data.isCompleted = body.isCompleted;
+  }
+
+  // Partial updates are checked against the stored event by the caller
+  if (!partial && data.eventType) {
+    const recurrenceError = validateRecurrenceSettings(
+      data.eventType,
+      data.recurringPattern,
+      data.recurringConfig,
+    );
+    if (recurrenceError) {
+      return { error: recurrenceError };
+    }
+  }
+
+  return { data };
+}
+
+function parseIdList(value: string | null): number[] | null | undefined {
+  if (value === null || value.trim() === '') {
+    return undefined;
+  }
+
+  const ids = value.split(',').map(id => parsePositiveInteger(id.trim()));
+  if (ids.includes(null)) {
+    return null;
+  }
+
+  return ids as number[];
+}
+
+/**
+ * Build EventFilters from the query string of an events list request
+ */
+export function parseEventFilters(searchParams: URLSearchParams): ValidationResult<EventFilters> {
+  const filters: EventFilters = {};
+
+  for (const key of ['serviceIds', 'ministryIds', 'churchIds'] as const) {
+    const ids = parseIdList(searchParams.get(key));
+    if (ids === null) {
+      return { error: `${key} must be a comma-separated list of IDs` };
+    }
+    if (ids) {
+      filters[key] = ids;
+    }
+  }
+
+  const eventType = searchParams.get('eventType');
+  if (eventType) {
+    if (!EVENT_TYPES.includes(eventType as EventType)) {
+      return { error: `eventType must be one of: ${EVENT_TYPES.join(', ')}` };
+    }
+    filters.eventType = eventType as EventType;
+  }
+
+  const isCompleted = searchParams.get('isCompleted');
+  if (isCompleted !== null) {
+    if (isCompleted !== 'true' && isCompleted !== 'false') {
+      return { error: 'isCompleted must be true or false' };
+    }
+    filters.isCompleted = isCompleted === 'true';
+  }
+
+  const startDate = searchParams.get('startDate');
+  const endDate = searchParams.get('endDate');
+  if (startDate || endDate) {
+    if (!startDate || !endDate) {
+      return { error: 'startDate and endDate must be provided together' };
+    }
+
+    const start = parseDate(startDate);
+    const end = parseDate(endDate);
+    if (!start || !end) {
+      return { error: 'startDate and endDate must be valid dates' };
+    }
+    if (start > end) {
+      return { error: 'startDate must be before endDate' };
+    }
+    filters.dateRange = { start, end };
+  }
+
+  return { data: filters };
+}
+
+/**
+ * Check that a value is a calendar date in YYYY-MM-DD form
+ */
+export function isDateKey(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Read the edit scope of a recurring event update or delete from the query string.
+ * Without a scope the whole event is affected, as for non-recurring events.
+ */
+export function parseOccurrenceScope(searchParams: URLSearchParams): ValidationResult<OccurrenceScope> {
+  const scope = searchParams.get('scope') ?? 'all';
+
+  if (!EVENT_EDIT_SCOPES.includes(scope as EventEditScope)) {
+    return { error: `scope must be one of: ${EVENT_EDIT_SCOPES.join(', ')}` };
+  }
+
+  if (scope === 'all') {
+    return { data: { scope } };
+  }
+
+  const occurrenceDate = searchParams.get('occurrenceDate');
+  if (!isDateKey(occurrenceDate)) {
+    return { error: 'occurrenceDate (YYYY-MM-DD) is required when editing this or following occurrences' };
+  }
+
+  return { data: { scope: scope as 'this' | 'following', occurrenceDate } };
+}
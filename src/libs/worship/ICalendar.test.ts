@@ -0,0 +1,223 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildRecurrenceRule,
+  buildTimeZoneComponent,
+  escapeText,
+  findOffsetTransitions,
+  foldLine,
+  serializeCalendar,
+} from './ICalendar';
+
+const TORONTO = 'America/Toronto';
+
+// Sunday 2 March 2025, 10:00 in Toronto
+const sundayService = {
+  eventDate: new Date('2025-03-02T15:00:00Z'),
+  eventType: 'recurring' as const,
+  recurringPattern: 'weekly' as const,
+  recurringConfig: { frequency: 1 },
+};
+
+describe('ICalendar', () => {
+  describe('escapeText', () => {
+    it('escapes backslashes, separators and line breaks', () => {
+      expect(escapeText('Praise, prayer; C:\\songs\nCommunion')).toBe(
+        'Praise\\, prayer\\; C:\\\\songs\\nCommunion',
+      );
+    });
+  });
+
+  describe('foldLine', () => {
+    it('leaves short lines untouched', () => {
+      expect(foldLine('SUMMARY:Sunday Worship')).toBe('SUMMARY:Sunday Worship');
+    });
+
+    it('folds long lines at 75 octets', () => {
+      const folded = foldLine(`DESCRIPTION:${'a'.repeat(100)}`);
+      const [first, second] = folded.split('\r\n');
+
+      expect(first).toHaveLength(75);
+      expect(second).toBe(` ${'a'.repeat(37)}`);
+    });
+
+    it('never splits multi-byte characters', () => {
+      const folded = foldLine('é'.repeat(50));
+      const [first] = folded.split('\r\n ');
+
+      expect(first).toBe('é'.repeat(37));
+      expect(folded.replace(/\r\n /g, '')).toBe('é'.repeat(50));
+    });
+  });
+
+  describe('buildRecurrenceRule', () => {
+    it('returns null for events that do not recur', () => {
+      expect(buildRecurrenceRule({ ...sundayService, eventType: 'one_time' }, TORONTO)).toBeNull();
+    });
+
+    it('builds weekly rules with Sunday as the first day of the week', () => {
+      expect(buildRecurrenceRule(sundayService, TORONTO)).toBe('FREQ=WEEKLY;WKST=SU');
+      expect(buildRecurrenceRule({
+        ...sundayService,
+        recurringConfig: { frequency: 2, daysOfWeek: [0, 3] },
+      }, TORONTO)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,WE;WKST=SU');
+    });
+
+    it('builds monthly rules on the nth or last weekday', () => {
+      expect(buildRecurrenceRule({
+        ...sundayService,
+        recurringPattern: 'monthly',
+        recurringConfig: { frequency: 1, weekOfMonth: 1 },
+      }, TORONTO)).toBe('FREQ=MONTHLY;BYDAY=1SU');
+
+      expect(buildRecurrenceRule({
+        ...sundayService,
+        recurringPattern: 'monthly',
+        recurringConfig: { frequency: 1, weekOfMonth: -1, daysOfWeek: [3] },
+      }, TORONTO)).toBe('FREQ=MONTHLY;BYDAY=-1WE');
+    });
+
+    it('builds yearly rules in the month of the first occurrence', () => {
+      expect(buildRecurrenceRule({
+        ...sundayService,
+        eventDate: new Date('2024-12-25T15:00:00Z'),
+        recurringPattern: 'yearly',
+        recurringConfig: { frequency: 1, dayOfMonth: 25 },
+      }, TORONTO)).toBe('FREQ=YEARLY;BYMONTH=12;BYMONTHDAY=25');
+    });
+
+    it('resolves custom patterns like the recurrence engine', () => {
+      expect(buildRecurrenceRule({
+        ...sundayService,
+        recurringPattern: 'custom',
+        recurringConfig: { frequency: 1, daysOfWeek: [5] },
+      }, TORONTO)).toBe('FREQ=WEEKLY;BYDAY=FR;WKST=SU');
+    });
+
+    it('ends the series with UNTIL or COUNT, whichever comes first', () => {
+      expect(buildRecurrenceRule({
+        ...sundayService,
+        recurringConfig: { frequency: 1, endDate: '2025-06-30T00:00:00Z' },
+      }, TORONTO)).toBe('FREQ=WEEKLY;WKST=SU;UNTIL=20250630T000000Z');
+
+      expect(buildRecurrenceRule({
+        ...sundayService,
+        recurringConfig: { frequency: 1, occurrences: 4, endDate: '2025-06-30T00:00:00Z' },
+      }, TORONTO)).toBe('FREQ=WEEKLY;WKST=SU;COUNT=4');
+
+      expect(buildRecurrenceRule({
+        ...sundayService,
+        recurringConfig: { frequency: 1, occurrences: 40, endDate: '2025-03-20T00:00:00Z' },
+      }, TORONTO)).toBe('FREQ=WEEKLY;WKST=SU;UNTIL=20250320T000000Z');
+    });
+  });
+
+  describe('time zones', () => {
+    it('finds daylight saving transitions to the minute', () => {
+      const transitions = findOffsetTransitions(
+        TORONTO,
+        new Date('2025-01-01T00:00:00Z'),
+        new Date('2025-12-31T00:00:00Z'),
+      );
+
+      expect(transitions).toEqual([
+        { at: new Date('2025-03-09T07:00:00Z'), offsetFrom: -300, offsetTo: -240 },
+        { at: new Date('2025-11-02T06:00:00Z'), offsetFrom: -240, offsetTo: -300 },
+      ]);
+    });
+
+    it('builds VTIMEZONE observances with local onsets', () => {
+      const lines = buildTimeZoneComponent(
+        TORONTO,
+        new Date('2025-01-01T00:00:00Z'),
+        new Date('2025-12-31T00:00:00Z'),
+      );
+
+      expect(lines.join('\n')).toContain([
+        'BEGIN:DAYLIGHT',
+        'DTSTART:20250309T020000',
+        'TZOFFSETFROM:-0500',
+        'TZOFFSETTO:-0400',
+        'END:DAYLIGHT',
+        'BEGIN:STANDARD',
+        'DTSTART:20251102T020000',
+        'TZOFFSETFROM:-0400',
+        'TZOFFSETTO:-0500',
+        'END:STANDARD',
+      ].join('\n'));
+    });
+
+    it('describes zones without daylight saving with a single observance', () => {
+      const lines = buildTimeZoneComponent(
+        'Asia/Tokyo',
+        new Date('2025-01-01T00:00:00Z'),
+        new Date('2025-12-31T00:00:00Z'),
+      );
+
+      expect(lines.filter(line => line.startsWith('BEGIN:'))).toEqual(['BEGIN:VTIMEZONE', 'BEGIN:STANDARD']);
+      expect(lines).toContain('TZOFFSETTO:+0900');
+    });
+  });
+
+  describe('serializeCalendar', () => {
+    const generatedAt = new Date('2025-03-01T12:00:00Z');
+
+    it('writes recurring events with their rule, exceptions and overrides', () => {
+      const ics = serializeCalendar({
+        name: 'Grace Church',
+        generatedAt,
+        events: [
+          {
+            uid: 'event-1@example.com',
+            start: sundayService.eventDate,
+            duration: 90,
+            timeZone: TORONTO,
+            summary: 'Sunday Worship',
+            rrule: 'FREQ=WEEKLY;WKST=SU',
+            exdates: [new Date('2025-03-09T14:00:00Z')],
+            url: 'https://example.com/dashboard/programs?programId=4',
+          },
+          {
+            uid: 'event-1@example.com',
+            recurrenceId: new Date('2025-03-16T14:00:00Z'),
+            start: new Date('2025-03-16T15:00:00Z'),
+            duration: 120,
+            timeZone: TORONTO,
+            summary: 'Communion Sunday',
+          },
+        ],
+      });
+      const lines = ics.split('\r\n');
+
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(lines).toContain('X-WR-CALNAME:Grace Church');
+      expect(lines).toContain('TZID:America/Toronto');
+      expect(lines).toContain('DTSTAMP:20250301T120000Z');
+      expect(lines).toContain('DTSTART;TZID=America/Toronto:20250302T100000');
+      expect(lines).toContain('DURATION:PT1H30M');
+      expect(lines).toContain('RRULE:FREQ=WEEKLY;WKST=SU');
+      expect(lines).toContain('EXDATE;TZID=America/Toronto:20250309T100000');
+      expect(lines).toContain('URL:https://example.com/dashboard/programs?programId=4');
+      expect(lines).toContain('RECURRENCE-ID;TZID=America/Toronto:20250316T100000');
+      expect(lines).toContain('DTSTART;TZID=America/Toronto:20250316T110000');
+      expect(lines).toContain('DURATION:PT2H');
+    });
+
+    it('writes UTC events without a VTIMEZONE', () => {
+      const ics = serializeCalendar({
+        name: 'Youth',
+        generatedAt,
+        events: [{
+          uid: 'event-2@example.com',
+          start: new Date('2025-03-14T23:00:00Z'),
+          duration: 45,
+          timeZone: 'UTC',
+          summary: 'Youth Night',
+        }],
+      });
+
+      expect(ics).not.toContain('BEGIN:VTIMEZONE');
+      expect(ics).toContain('DTSTART:20250314T230000Z\r\nDURATION:PT45M');
+    });
+  });
+});
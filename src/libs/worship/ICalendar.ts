@@ -0,0 +1,358 @@
+import { DEFAULT_TIME_ZONE, getTimeZoneOffset, getZonedParts } from '@/utils/TimeZone';
+
+import type { RecurrenceSource } from './RecurrenceEngine';
+import {
+  expandEventOccurrences,
+  normalizeRecurringConfig,
+  resolveRecurrenceRule,
+} from './RecurrenceEngine';
+
+/**
+ * iCalendar (RFC 5545) serialization for calendar subscription feeds.
+ *
+ * Events are written in their church time zone (`DTSTART;TZID=...`) with a matching
+ * `VTIMEZONE`, so subscribing clients keep a 10:00 service at 10:00 across DST changes.
+ * Recurring events become a single `VEVENT` with an `RRULE`; skipped occurrences are listed
+ * in `EXDATE` and changed ones are written as extra `VEVENT`s with a `RECURRENCE-ID`.
+ */
+
+export const ICALENDAR_PRODUCT_ID = '-//Worship Planner//Calendar Feeds//EN';
+
+// Content lines longer than this many octets must be folded
+const MAX_LINE_OCTETS = 75;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export type ICalendarEvent = {
+  uid: string;
+  start: Date;
+  duration: number; // minutes
+  timeZone: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  categories?: string[];
+  lastModified?: Date;
+  rrule?: string; // Value of the RRULE property, see buildRecurrenceRule
+  exdates?: Date[]; // Original starts of skipped occurrences
+  recurrenceId?: Date; // Original start of the occurrence this event replaces
+};
+
+export type ICalendar = {
+  name: string;
+  description?: string;
+  events: ICalendarEvent[];
+  generatedAt?: Date; // Used for DTSTAMP, defaults to now
+};
+
+/**
+ * Escape a TEXT property value
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into chunks of at most 75 octets, continuation lines starting with a space.
+ * Multi-byte characters are never split.
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const character of line) {
+    const octets = encoder.encode(character).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+
+    current += character;
+    currentOctets += octets;
+  }
+
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * Format an instant as a UTC DATE-TIME (e.g. 20250309T140000Z)
+ */
+export function formatUtcDateTime(date: Date): string {
+  return `${pad(date.getUTCFullYear(), 4)}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`
+    + `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+/**
+ * Format an instant as a local DATE-TIME in the given time zone (e.g. 20250309T100000)
+ */
+export function formatLocalDateTime(date: Date, timeZone: string): string {
+  const parts = getZonedParts(date, timeZone);
+  return `${pad(parts.year, 4)}${pad(parts.month)}${pad(parts.day)}`
+    + `T${pad(parts.hour)}${pad(parts.minute)}${pad(parts.second)}`;
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+}
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `PT${hours ? `${hours}H` : ''}${rest || !hours ? `${rest}M` : ''}`;
+}
+
+// DATE-TIME property in the event time zone, or in UTC for UTC events
+function dateTimeProperty(name: string, dates: Date[], timeZone: string): string {
+  if (timeZone === DEFAULT_TIME_ZONE) {
+    return `${name}:${dates.map(formatUtcDateTime).join(',')}`;
+  }
+
+  return `${name};TZID=${timeZone}:${dates.map(date => formatLocalDateTime(date, timeZone)).join(',')}`;
+}
+
+/**
+ * Build the RRULE value of a recurring event from its pattern and config, or null if it does not recur.
+ * The rule mirrors the recurrence engine: weeks start on Sunday and `weekOfMonth` selects the
+ * nth (or last) weekday of the month.
+ */
+export function buildRecurrenceRule(event: RecurrenceSource, timeZone: string): string | null {
+  if (event.eventType !== 'recurring' || !event.recurringPattern) {
+    return null;
+  }
+
+  const start = new Date(event.eventDate);
+  const config = normalizeRecurringConfig(event.recurringConfig);
+  const rule = resolveRecurrenceRule(event.recurringPattern, config);
+  const first = getZonedParts(start, timeZone);
+  const parts = [`FREQ=${rule.pattern.toUpperCase()}`];
+
+  if (rule.frequency > 1) {
+    parts.push(`INTERVAL=${rule.frequency}`);
+  }
+
+  if (rule.pattern === 'weekly') {
+    if (rule.daysOfWeek) {
+      parts.push(`BYDAY=${rule.daysOfWeek.map(day => WEEKDAY_CODES[day]).join(',')}`);
+    }
+    parts.push('WKST=SU');
+  }
+
+  if (rule.pattern === 'monthly' || rule.pattern === 'yearly') {
+    const hasDaySelection = rule.weekOfMonth !== undefined || rule.dayOfMonth !== undefined;
+    const months = rule.monthsOfYear ?? (rule.pattern === 'yearly' && hasDaySelection ? [first.month] : undefined);
+
+    if (months) {
+      parts.push(`BYMONTH=${months.join(',')}`);
+    }
+
+    if (rule.weekOfMonth !== undefined) {
+      const weekdays = rule.daysOfWeek ?? [first.weekday];
+      parts.push(`BYDAY=${weekdays.map(day => `${rule.weekOfMonth}${WEEKDAY_CODES[day]}`).join(',')}`);
+    } else if (rule.dayOfMonth !== undefined) {
+      parts.push(`BYMONTHDAY=${rule.dayOfMonth}`);
+    } else if (months) {
+      parts.push(`BYMONTHDAY=${first.day}`);
+    }
+  }
+
+  // COUNT and UNTIL are mutually exclusive: keep whichever ends the series first
+  if (rule.endDate && rule.occurrences) {
+    const untilEnd = expandEventOccurrences(
+      { ...event, recurringConfig: { ...config, occurrences: undefined } },
+      { start, end: rule.endDate },
+      { timeZone, maxOccurrences: rule.occurrences + 1 },
+    );
+
+    if (untilEnd.length > rule.occurrences) {
+      parts.push(`COUNT=${rule.occurrences}`);
+    } else {
+      parts.push(`UNTIL=${formatUtcDateTime(rule.endDate)}`);
+    }
+  } else if (rule.endDate) {
+    parts.push(`UNTIL=${formatUtcDateTime(rule.endDate)}`);
+  } else if (rule.occurrences) {
+    parts.push(`COUNT=${rule.occurrences}`);
+  }
+
+  return parts.join(';');
+}
+
+type OffsetTransition = {
+  at: Date;
+  offsetFrom: number;
+  offsetTo: number;
+};
+
+/**
+ * Find the UTC offset changes of a time zone within a range, to the minute
+ */
+export function findOffsetTransitions(timeZone: string, from: Date, to: Date): OffsetTransition[] {
+  const transitions: OffsetTransition[] = [];
+  const day = 86_400_000;
+  let previous = from.getTime();
+  let previousOffset = getTimeZoneOffset(from, timeZone);
+
+  for (let time = previous + day; time <= to.getTime() + day; time += day) {
+    const offset = getTimeZoneOffset(new Date(time), timeZone);
+
+    if (offset !== previousOffset) {
+      // Narrow the change down between the two days
+      let low = previous;
+      let high = time;
+      while (high - low > 60_000) {
+        const middle = low + Math.floor((high - low) / 120_000) * 60_000;
+        if (getTimeZoneOffset(new Date(middle), timeZone) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+
+      transitions.push({ at: new Date(high), offsetFrom: previousOffset, offsetTo: offset });
+      previousOffset = offset;
+    }
+
+    previous = time;
+  }
+
+  return transitions;
+}
+
+/**
+ * Build the VTIMEZONE component of a time zone, listing every offset change within the range
+ */
+export function buildTimeZoneComponent(timeZone: string, from: Date, to: Date): string[] {
+  const transitions = findOffsetTransitions(timeZone, from, to);
+  const initialOffset = getTimeZoneOffset(from, timeZone);
+  const lowestOffset = Math.min(initialOffset, ...transitions.map(transition => transition.offsetTo));
+
+  // Observance in effect at the start of the range, then one per change
+  const observances = [
+    { at: from, offsetFrom: initialOffset, offsetTo: initialOffset },
+    ...transitions,
+  ];
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+
+  for (const observance of observances) {
+    const type = observance.offsetTo > lowestOffset ? 'DAYLIGHT' : 'STANDARD';
+    // Onset is expressed in the wall-clock time in effect before the change
+    const onset = new Date(observance.at.getTime() + observance.offsetFrom * 60_000);
+
+    lines.push(
+      `BEGIN:${type}`,
+      `DTSTART:${formatUtcDateTime(onset).slice(0, -1)}`,
+      `TZOFFSETFROM:${formatOffset(observance.offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(observance.offsetTo)}`,
+      `END:${type}`,
+    );
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+function buildEventComponent(event: ICalendarEvent, generatedAt: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtcDateTime(generatedAt)}`,
+  ];
+
+  if (event.recurrenceId) {
+    lines.push(dateTimeProperty('RECURRENCE-ID', [event.recurrenceId], event.timeZone));
+  }
+
+  lines.push(
+    dateTimeProperty('DTSTART', [event.start], event.timeZone),
+    `DURATION:${formatDuration(event.duration)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  );
+
+  if (event.rrule) {
+    lines.push(`RRULE:${event.rrule}`);
+  }
+  if (event.exdates?.length) {
+    lines.push(dateTimeProperty('EXDATE', event.exdates, event.timeZone));
+  }
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+  if (event.categories?.length) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+  }
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+  }
+  if (event.lastModified) {
+    lines.push(`LAST-MODIFIED:${formatUtcDateTime(event.lastModified)}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Serialize a calendar to an iCalendar document, with a VTIMEZONE for every time zone it uses
+ */
+export function serializeCalendar(calendar: ICalendar): string {
+  const generatedAt = calendar.generatedAt ?? new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICALENDAR_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  if (calendar.description) {
+    lines.push(`X-WR-CALDESC:${escapeText(calendar.description)}`);
+  }
+
+  // Cover every event from the year of the earliest start to a year after the latest
+  const startsByTimeZone = new Map<string, number[]>();
+  for (const event of calendar.events) {
+    if (event.timeZone !== DEFAULT_TIME_ZONE) {
+      const starts = startsByTimeZone.get(event.timeZone) ?? [];
+      starts.push(event.start.getTime(), event.recurrenceId?.getTime() ?? event.start.getTime());
+      startsByTimeZone.set(event.timeZone, starts);
+    }
+  }
+
+  for (const [timeZone, starts] of startsByTimeZone) {
+    const from = new Date(Date.UTC(new Date(Math.min(...starts)).getUTCFullYear(), 0, 1));
+    const to = new Date(Date.UTC(Math.max(new Date(Math.max(...starts)).getUTCFullYear(), generatedAt.getUTCFullYear()) + 1, 11, 31));
+    lines.push(...buildTimeZoneComponent(timeZone, from, to));
+  }
+
+  for (const event of calendar.events) {
+    lines.push(...buildEventComponent(event, generatedAt));
+  }
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
@@ -0,0 +1,223 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildImportPlan,
+  parseContentLine,
+  parseICalendar,
+  parseICalendarDate,
+  parseICalendarDuration,
+  parseRecurrenceRule,
+  unescapeText,
+} from './ICalendarImport';
+
+const TORONTO = 'America/Toronto';
+
+const calendar = (...events: string[][]) => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Other App//EN',
+  ...events.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+  'END:VCALENDAR',
+].join('\r\n');
+
+const planOptions = { timeZone: TORONTO, defaultTitle: 'Sunday Service', defaultDuration: 90 };
+
+describe('ICalendarImport', () => {
+  describe('content lines', () => {
+    it('parses names, parameters and values', () => {
+      expect(parseContentLine('DTSTART;TZID="America/Toronto";VALUE=DATE-TIME:20250302T100000')).toEqual({
+        name: 'DTSTART',
+        params: { TZID: 'America/Toronto', VALUE: 'DATE-TIME' },
+        value: '20250302T100000',
+      });
+      expect(parseContentLine('URL:https://example.com/a')).toMatchObject({ value: 'https://example.com/a' });
+    });
+
+    it('unescapes text values', () => {
+      expect(unescapeText('Praise\\, prayer\\; C:\\\\songs\\nCommunion')).toBe('Praise, prayer; C:\\songs\nCommunion');
+    });
+  });
+
+  describe('dates and durations', () => {
+    it('reads UTC, zoned and floating times', () => {
+      expect(parseICalendarDate('20250302T150000Z', {}, TORONTO)!.date).toEqual(new Date('2025-03-02T15:00:00Z'));
+      expect(parseICalendarDate('20250302T100000', { TZID: 'Europe/London' }, TORONTO)!.date)
+        .toEqual(new Date('2025-03-02T10:00:00Z'));
+      expect(parseICalendarDate('20250302T100000', {}, TORONTO)!.date).toEqual(new Date('2025-03-02T15:00:00Z'));
+    });
+
+    it('falls back to the church time zone for unknown TZIDs', () => {
+      expect(parseICalendarDate('20250302T100000', { TZID: 'Eastern Standard Time' }, TORONTO)!.date)
+        .toEqual(new Date('2025-03-02T15:00:00Z'));
+    });
+
+    it('reads all-day dates', () => {
+      expect(parseICalendarDate('20251225', { VALUE: 'DATE' }, TORONTO)).toEqual({
+        date: new Date('2025-12-25T05:00:00Z'),
+        allDay: true,
+        dateKey: '2025-12-25',
+      });
+      expect(parseICalendarDate('2025-12-25', {}, TORONTO)).toBeNull();
+    });
+
+    it('reads durations in minutes', () => {
+      expect(parseICalendarDuration('PT1H30M')).toBe(90);
+      expect(parseICalendarDuration('P1D')).toBe(1440);
+      expect(parseICalendarDuration('P')).toBeNull();
+    });
+  });
+
+  describe('parseICalendar', () => {
+    it('reads events with folded lines and ignores nested alarms', () => {
+      const events = parseICalendar(calendar([
+        'UID:abc@other',
+        'SUMMARY:Sunday Worship\\, Main',
+        ' Hall',
+        'DTSTART;TZID=America/Toronto:20250302T100000',
+        'DTEND;TZID=America/Toronto:20250302T113000',
+        'RRULE:FREQ=WEEKLY;BYDAY=SU',
+        'EXDATE;TZID=America/Toronto:20250309T100000,20250316T100000',
+        'BEGIN:VALARM',
+        'DESCRIPTION:Reminder',
+        'END:VALARM',
+      ]), TORONTO);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        uid: 'abc@other',
+        summary: 'Sunday Worship, MainHall',
+        start: new Date('2025-03-02T15:00:00Z'),
+        duration: 90,
+        rrule: 'FREQ=WEEKLY;BYDAY=SU',
+        cancelled: false,
+      });
+      expect(events[0]!.description).toBeUndefined();
+      expect(events[0]!.exdates).toHaveLength(2);
+    });
+
+    it('skips events without a start', () => {
+      expect(parseICalendar(calendar(['SUMMARY:No date']), TORONTO)).toEqual([]);
+    });
+  });
+
+  describe('parseRecurrenceRule', () => {
+    it('maps weekly, monthly and yearly rules', () => {
+      expect(parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,WE', TORONTO).data).toEqual({
+        recurringPattern: 'weekly',
+        recurringConfig: { frequency: 2, daysOfWeek: [0, 3] },
+      });
+      expect(parseRecurrenceRule('FREQ=MONTHLY;BYDAY=-1WE', TORONTO).data).toEqual({
+        recurringPattern: 'monthly',
+        recurringConfig: { frequency: 1, weekOfMonth: -1, daysOfWeek: [3] },
+      });
+      expect(parseRecurrenceRule('FREQ=YEARLY;BYMONTH=12;BYMONTHDAY=25;COUNT=5', TORONTO).data).toEqual({
+        recurringPattern: 'yearly',
+        recurringConfig: { frequency: 1, dayOfMonth: 25, monthsOfYear: [12], occurrences: 5 },
+      });
+    });
+
+    it('maps daily rules limited to weekdays to weekly rules', () => {
+      expect(parseRecurrenceRule('FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR', TORONTO).data).toEqual({
+        recurringPattern: 'weekly',
+        recurringConfig: { frequency: 1, daysOfWeek: [1, 2, 3, 4, 5] },
+      });
+    });
+
+    it('reads UNTIL as the end of the series', () => {
+      expect(parseRecurrenceRule('FREQ=WEEKLY;UNTIL=20250630T035959Z', TORONTO).data!.recurringConfig.endDate)
+        .toEqual(new Date('2025-06-30T03:59:59Z'));
+      expect(parseRecurrenceRule('FREQ=WEEKLY;UNTIL=20250629', TORONTO).data!.recurringConfig.endDate)
+        .toEqual(new Date('2025-06-30T03:59:59.999Z'));
+    });
+
+    it('rejects rules the recurrence engine cannot express', () => {
+      expect(parseRecurrenceRule('FREQ=HOURLY', TORONTO).error).toContain('frequency');
+      expect(parseRecurrenceRule('FREQ=MONTHLY;BYDAY=SU;BYSETPOS=2', TORONTO).error).toContain('BYSETPOS');
+      expect(parseRecurrenceRule('FREQ=MONTHLY;BYDAY=1SU,1WE', TORONTO).error).toBeUndefined();
+      expect(parseRecurrenceRule('FREQ=MONTHLY;BYDAY=1SU,3SU', TORONTO).error).toBeDefined();
+      expect(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=-1', TORONTO).error).toBeDefined();
+    });
+  });
+
+  describe('buildImportPlan', () => {
+    it('folds exceptions and overrides into their series', () => {
+      const events = parseICalendar(calendar(
+        [
+          'UID:series@other',
+          'SUMMARY:Sunday Worship',
+          'DTSTART;TZID=America/Toronto:20250302T100000',
+          'DURATION:PT1H30M',
+          'RRULE:FREQ=WEEKLY',
+          'EXDATE;TZID=America/Toronto:20250309T100000',
+        ],
+        [
+          'UID:series@other',
+          'RECURRENCE-ID;TZID=America/Toronto:20250316T100000',
+          'SUMMARY:Communion Sunday',
+          'DTSTART;TZID=America/Toronto:20250316T110000',
+          'DURATION:PT1H30M',
+        ],
+        [
+          'UID:series@other',
+          'RECURRENCE-ID;TZID=America/Toronto:20250323T100000',
+          'STATUS:CANCELLED',
+          'DTSTART;TZID=America/Toronto:20250323T100000',
+        ],
+      ), TORONTO);
+
+      const [candidate, ...rest] = buildImportPlan(events, [], planOptions);
+
+      expect(rest).toEqual([]);
+      expect(candidate).toMatchObject({
+        importId: 0,
+        status: 'new',
+        eventType: 'recurring',
+        recurringPattern: 'weekly',
+        recurringConfig: { frequency: 1 },
+        duration: 90,
+      });
+      expect(candidate!.exceptions).toEqual([
+        { occurrenceDate: '2025-03-09', exceptionType: 'skipped' },
+        {
+          occurrenceDate: '2025-03-16',
+          exceptionType: 'rescheduled',
+          eventDate: new Date('2025-03-16T15:00:00Z'),
+          title: 'Communion Sunday',
+        },
+        { occurrenceDate: '2025-03-23', exceptionType: 'skipped' },
+      ]);
+    });
+
+    it('flags duplicates of existing events and of earlier events in the file', () => {
+      const events = parseICalendar(calendar(
+        ['SUMMARY:Youth Night', 'DTSTART:20250314T230000Z'],
+        ['SUMMARY:Good Friday', 'DTSTART;TZID=America/Toronto:20250418T190000'],
+        ['SUMMARY:good  friday', 'DTSTART;TZID=America/Toronto:20250418T200000'],
+      ), TORONTO);
+
+      const plan = buildImportPlan(events, [
+        { id: 42, title: 'Youth Night', start: new Date('2025-03-14T23:30:00Z') },
+      ], planOptions);
+
+      expect(plan.map(candidate => [candidate.title, candidate.status, candidate.duplicateOfEventId])).toEqual([
+        ['Youth Night', 'duplicate', 42],
+        ['Good Friday', 'new', undefined],
+        ['good  friday', 'duplicate', undefined],
+      ]);
+    });
+
+    it('marks cancelled, overlong and unsupported events', () => {
+      const events = parseICalendar(calendar(
+        ['SUMMARY:Cancelled', 'DTSTART:20250314T230000Z', 'STATUS:CANCELLED'],
+        ['SUMMARY:Retreat', 'DTSTART;VALUE=DATE:20250601', 'DTEND;VALUE=DATE:20250604'],
+        ['SUMMARY:Prayer', 'DTSTART:20250314T230000Z', 'RRULE:FREQ=MINUTELY'],
+        ['DTSTART;VALUE=DATE:20251225'],
+      ), TORONTO);
+
+      const plan = buildImportPlan(events, [], planOptions);
+
+      expect(plan.map(candidate => candidate.status)).toEqual(['unsupported', 'unsupported', 'unsupported', 'new']);
+      expect(plan[3]).toMatchObject({ title: 'Sunday Service', duration: 1440 });
+    });
+  });
+});
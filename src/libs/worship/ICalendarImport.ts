@@ -0,0 +1,572 @@
+import type {
+  CalendarEvent,
+  EventExceptionType,
+  EventPattern,
+  RecurringConfig,
+} from '@/features/worship/types';
+import { isValidTimeZone, toLocalDateKey, zonedTimeToUtc } from '@/utils/TimeZone';
+
+import type { ValidationResult } from './EventValidation';
+import { MAX_EVENT_DURATION } from './EventValidation';
+
+/**
+ * Import of iCalendar (.ics) files exported by other calendar apps.
+ *
+ * VEVENTs are mapped onto events of a single service: recurrence rules the engine can express
+ * become `recurringPattern` + `recurringConfig`, `EXDATE`s become skipped occurrences and
+ * overriding VEVENTs (`RECURRENCE-ID`) become rescheduled or modified occurrences.
+ * Times use their `TZID` when it is an IANA time zone, otherwise the church time zone.
+ *
+ * Nothing is written here: `buildImportPlan` describes what would be created so it can be
+ * previewed, and duplicates of existing events (same local date and title) are flagged.
+ */
+
+export type ICalendarProperty = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+export type ParsedICalendarEvent = {
+  uid?: string;
+  summary?: string;
+  description?: string;
+  start: Date;
+  allDay: boolean;
+  duration?: number; // minutes, when DTEND or DURATION is present
+  rrule?: string;
+  exdates: ParsedDate[];
+  recurrenceId?: ParsedDate;
+  cancelled: boolean;
+};
+
+export type ParsedDate = {
+  date: Date;
+  allDay: boolean;
+  dateKey?: string; // YYYY-MM-DD, for DATE values
+};
+
+export type ImportedException = {
+  occurrenceDate: string;
+  exceptionType: EventExceptionType;
+  eventDate?: Date;
+  title?: string;
+  duration?: number;
+};
+
+export type ImportStatus = 'new' | 'duplicate' | 'unsupported';
+
+export type ImportCandidate = {
+  importId: number; // Position in the file, used to exclude candidates from the import
+  uid: string | null;
+  title: string;
+  description: string | null;
+  eventDate: Date;
+  duration: number;
+  eventType: 'one_time' | 'recurring';
+  recurringPattern: EventPattern | null;
+  recurringConfig: RecurringConfig | null;
+  exceptions: ImportedException[];
+  status: ImportStatus;
+  reason?: string;
+  duplicateOfEventId?: number;
+};
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const SUPPORTED_RULE_PARTS = new Set(['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'WKST']);
+
+const MAX_TITLE_LENGTH = 255;
+
+/**
+ * Split iCalendar content into unfolded content lines
+ */
+export function unfoldLines(content: string): string[] {
+  return content
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim() !== '');
+}
+
+// Split on a separator, ignoring separators inside double quotes
+function splitOutsideQuotes(value: string, separator: string, limit = Infinity): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const character of value) {
+    if (character === '"') {
+      quoted = !quoted;
+    }
+
+    if (character === separator && !quoted && parts.length < limit - 1) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += character;
+    }
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Parse a content line (NAME;PARAM=VALUE:value), or null if it is malformed
+ */
+export function parseContentLine(line: string): ICalendarProperty | null {
+  const [head, value] = splitOutsideQuotes(line, ':', 2);
+
+  if (!head || value === undefined) {
+    return null;
+  }
+
+  const [name, ...rawParams] = splitOutsideQuotes(head, ';');
+  const params: Record<string, string> = {};
+
+  for (const param of rawParams) {
+    const separator = param.indexOf('=');
+    const key = separator === -1 ? param : param.slice(0, separator);
+    const paramValue = separator === -1 ? '' : param.slice(separator + 1);
+    params[key.toUpperCase()] = paramValue.replace(/^"|"$/g, '');
+  }
+
+  return { name: name!.toUpperCase(), params, value };
+}
+
+/**
+ * Unescape a TEXT property value
+ */
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,n])/gi, (_match, character: string) =>
+    character.toLowerCase() === 'n' ? '\n' : character);
+}
+
+/**
+ * Parse a DATE or DATE-TIME value. UTC values end in Z; local values use the TZID parameter
+ * when it names a known time zone, otherwise the fallback time zone.
+ */
+export function parseICalendarDate(
+  value: string,
+  params: Record<string, string>,
+  fallbackTimeZone: string,
+): ParsedDate | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const timeZone = isValidTimeZone(params.TZID) ? params.TZID : fallbackTimeZone;
+  const local = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour ?? 0),
+    minute: Number(minute ?? 0),
+    second: Number(second ?? 0),
+  };
+
+  if (hour === undefined || params.VALUE === 'DATE') {
+    return {
+      date: zonedTimeToUtc({ ...local, hour: 0, minute: 0, second: 0 }, fallbackTimeZone),
+      allDay: true,
+      dateKey: `${year}-${month}-${day}`,
+    };
+  }
+
+  const date = utc
+    ? new Date(Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second))
+    : zonedTimeToUtc(local, timeZone);
+
+  return Number.isNaN(date.getTime()) ? null : { date, allDay: false };
+}
+
+/**
+ * Parse a DURATION value (e.g. PT1H30M, P1D) into minutes
+ */
+export function parseICalendarDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+
+  if (!match || value.trim() === 'P' || value.trim().endsWith('T')) {
+    return null;
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = Number(weeks ?? 0) * 7 * 1440
+    + Number(days ?? 0) * 1440
+    + Number(hours ?? 0) * 60
+    + Number(minutes ?? 0)
+    + Math.round(Number(seconds ?? 0) / 60);
+
+  return sign === '-' ? -total : total;
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar document. Events without a valid DTSTART are left out.
+ */
+export function parseICalendar(content: string, fallbackTimeZone: string): ParsedICalendarEvent[] {
+  const events: ParsedICalendarEvent[] = [];
+  let properties: ICalendarProperty[] | null = null;
+  // Depth of components nested in the current VEVENT (e.g. VALARM), whose properties are ignored
+  let nested = 0;
+
+  for (const line of unfoldLines(content)) {
+    const property = parseContentLine(line);
+
+    if (!property) {
+      continue;
+    }
+
+    if (property.name === 'BEGIN') {
+      if (property.value.toUpperCase() === 'VEVENT' && !properties) {
+        properties = [];
+      } else if (properties) {
+        nested++;
+      }
+      continue;
+    }
+
+    if (property.name === 'END' && properties) {
+      if (nested > 0) {
+        nested--;
+      } else if (property.value.toUpperCase() === 'VEVENT') {
+        const event = toParsedEvent(properties, fallbackTimeZone);
+        if (event) {
+          events.push(event);
+        }
+        properties = null;
+      }
+      continue;
+    }
+
+    if (properties && nested === 0) {
+      properties.push(property);
+    }
+  }
+
+  return events;
+}
+
+function toParsedEvent(properties: ICalendarProperty[], fallbackTimeZone: string): ParsedICalendarEvent | null {
+  const find = (name: string) => properties.find(property => property.name === name);
+  const parseDateProperty = (property?: ICalendarProperty) =>
+    property ? parseICalendarDate(property.value, property.params, fallbackTimeZone) : null;
+
+  const start = parseDateProperty(find('DTSTART'));
+
+  if (!start) {
+    return null;
+  }
+
+  let duration: number | undefined;
+  const end = parseDateProperty(find('DTEND'));
+  const durationProperty = find('DURATION');
+
+  if (end) {
+    duration = Math.round((end.date.getTime() - start.date.getTime()) / 60_000);
+  } else if (durationProperty) {
+    duration = parseICalendarDuration(durationProperty.value) ?? undefined;
+  }
+
+  const exdates = properties
+    .filter(property => property.name === 'EXDATE')
+    .flatMap(property => property.value.split(',').map(value =>
+      parseICalendarDate(value, property.params, fallbackTimeZone)))
+    .filter((date): date is ParsedDate => date !== null);
+
+  const summary = find('SUMMARY');
+  const description = find('DESCRIPTION');
+
+  return {
+    uid: find('UID')?.value,
+    summary: summary && unescapeText(summary.value).trim(),
+    description: description && unescapeText(description.value).trim(),
+    start: start.date,
+    allDay: start.allDay,
+    duration,
+    rrule: find('RRULE')?.value,
+    exdates,
+    recurrenceId: parseDateProperty(find('RECURRENCE-ID')) ?? undefined,
+    cancelled: find('STATUS')?.value.toUpperCase() === 'CANCELLED',
+  };
+}
+
+// Weekday of a BYDAY entry with its optional ordinal, e.g. "-1WE" or "SU"
+function parseByDay(value: string): { weekday: number; ordinal?: number } | null {
+  const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value);
+
+  if (!match) {
+    return null;
+  }
+
+  return {
+    weekday: WEEKDAY_CODES.indexOf(match[2]!),
+    ...(match[1] !== undefined && { ordinal: Number(match[1]) }),
+  };
+}
+
+/**
+ * Map an RRULE onto a recurrence pattern and config, or explain why the engine cannot express it
+ */
+export function parseRecurrenceRule(
+  rrule: string,
+  timeZone: string,
+): ValidationResult<{ recurringPattern: EventPattern; recurringConfig: RecurringConfig }> {
+  const parts = new Map(rrule.split(';').map((part) => {
+    const [key, value = ''] = part.split('=');
+    return [key!.toUpperCase(), value.toUpperCase()];
+  }));
+
+  const unsupported = [...parts.keys()].filter(key => !SUPPORTED_RULE_PARTS.has(key));
+  if (unsupported.length > 0) {
+    return { error: `Unsupported recurrence rule (${unsupported.join(', ')})` };
+  }
+
+  const frequency = parts.get('FREQ');
+  if (frequency !== 'DAILY' && frequency !== 'WEEKLY' && frequency !== 'MONTHLY' && frequency !== 'YEARLY') {
+    return { error: `Unsupported recurrence frequency (${frequency ?? 'missing'})` };
+  }
+
+  let pattern = frequency.toLowerCase() as EventPattern;
+  const config: RecurringConfig = { frequency: Number(parts.get('INTERVAL') ?? 1) };
+
+  if (!Number.isInteger(config.frequency) || config.frequency < 1) {
+    return { error: 'Invalid recurrence interval' };
+  }
+
+  const byDay = parts.get('BYDAY')?.split(',').map(parseByDay);
+  const byMonthDay = parts.get('BYMONTHDAY')?.split(',').map(Number);
+  const byMonth = parts.get('BYMONTH')?.split(',').map(Number);
+
+  if (byDay?.some(day => day === null)) {
+    return { error: 'Invalid BYDAY in recurrence rule' };
+  }
+  if (byDay && byMonthDay) {
+    return { error: 'Recurrence rules combining BYDAY and BYMONTHDAY are not supported' };
+  }
+
+  const weekdays = byDay?.map(day => day!.weekday);
+  const ordinals = new Set(byDay?.map(day => day!.ordinal));
+
+  switch (pattern) {
+    case 'daily':
+    case 'weekly': {
+      if (byMonthDay || byMonth || ordinals.size > 1 || [...ordinals][0] !== undefined) {
+        return { error: `Unsupported ${pattern} recurrence rule` };
+      }
+      // "Every weekday" is usually written as a daily rule limited to some days
+      if (pattern === 'daily' && weekdays) {
+        if (config.frequency > 1) {
+          return { error: 'Unsupported daily recurrence rule' };
+        }
+        pattern = 'weekly';
+      }
+      if (weekdays) {
+        config.daysOfWeek = [...new Set(weekdays)].sort((a, b) => a - b);
+      }
+      break;
+    }
+
+    case 'monthly':
+    case 'yearly': {
+      if (byDay) {
+        const [ordinal] = [...ordinals];
+        if (ordinals.size !== 1 || ordinal === undefined || ![-1, 1, 2, 3, 4].includes(ordinal)) {
+          return { error: 'Only the first to fourth or last weekday of a month is supported' };
+        }
+        if (pattern === 'yearly' && !byMonth) {
+          return { error: 'Yearly rules on a weekday need BYMONTH' };
+        }
+        config.weekOfMonth = ordinal;
+        config.daysOfWeek = [...new Set(weekdays)].sort((a, b) => a - b);
+      }
+      if (byMonthDay) {
+        const [day] = byMonthDay;
+        if (byMonthDay.length !== 1 || !Number.isInteger(day) || day! < 1 || day! > 31) {
+          return { error: 'Only a single day of the month is supported' };
+        }
+        config.dayOfMonth = day;
+      }
+      if (byMonth) {
+        if (byMonth.some(month => !Number.isInteger(month) || month < 1 || month > 12)) {
+          return { error: 'Invalid BYMONTH in recurrence rule' };
+        }
+        config.monthsOfYear = [...new Set(byMonth)].sort((a, b) => a - b);
+      }
+      break;
+    }
+  }
+
+  const count = parts.get('COUNT');
+  if (count !== undefined) {
+    config.occurrences = Number(count);
+    if (!Number.isInteger(config.occurrences) || config.occurrences < 1) {
+      return { error: 'Invalid COUNT in recurrence rule' };
+    }
+  }
+
+  const until = parts.get('UNTIL');
+  if (until !== undefined) {
+    const parsed = parseICalendarDate(until, {}, timeZone);
+    if (!parsed) {
+      return { error: 'Invalid UNTIL in recurrence rule' };
+    }
+    // A DATE value includes the whole day
+    config.endDate = parsed.allDay ? new Date(parsed.date.getTime() + 86_400_000 - 1) : parsed.date;
+  }
+
+  return { data: { recurringPattern: pattern, recurringConfig: config } };
+}
+
+function occurrenceDateOf(date: ParsedDate, timeZone: string): string {
+  return date.dateKey ?? toLocalDateKey(date.date, timeZone);
+}
+
+function normalizeTitle(title: string): string {
+  return title.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Describe the events an import would create, in file order.
+ * Overriding VEVENTs are folded into their series as exceptions; an event is a duplicate when
+ * an existing occurrence (or an earlier event of the file) has the same title on the same local date.
+ */
+export function buildImportPlan(
+  parsedEvents: ParsedICalendarEvent[],
+  existingEvents: Pick<CalendarEvent, 'id' | 'title' | 'start'>[],
+  options: { timeZone: string; defaultTitle: string; defaultDuration: number },
+): ImportCandidate[] {
+  const { timeZone } = options;
+  const seriesUids = new Set(parsedEvents
+    .filter(event => event.uid && event.rrule && !event.recurrenceId)
+    .map(event => event.uid));
+
+  // Existing titles per local date, to spot duplicates
+  const taken = new Map<string, number | undefined>();
+  for (const existing of existingEvents) {
+    taken.set(`${toLocalDateKey(existing.start, timeZone)}|${normalizeTitle(existing.title)}`, existing.id);
+  }
+
+  const candidates: ImportCandidate[] = [];
+
+  parsedEvents.forEach((event, importId) => {
+    // Overrides of an imported series become exceptions of that series below
+    if (event.recurrenceId && event.uid && seriesUids.has(event.uid)) {
+      return;
+    }
+
+    const title = (event.summary || options.defaultTitle).slice(0, MAX_TITLE_LENGTH);
+    const duration = event.duration ?? (event.allDay ? MAX_EVENT_DURATION : options.defaultDuration);
+    const candidate: ImportCandidate = {
+      importId,
+      uid: event.uid ?? null,
+      title,
+      description: event.description || null,
+      eventDate: event.start,
+      duration,
+      eventType: 'one_time',
+      recurringPattern: null,
+      recurringConfig: null,
+      exceptions: [],
+      status: 'new',
+    };
+    candidates.push(candidate);
+
+    if (event.cancelled) {
+      candidate.status = 'unsupported';
+      candidate.reason = 'Cancelled event';
+      return;
+    }
+
+    if (duration < 1 || duration > MAX_EVENT_DURATION) {
+      candidate.status = 'unsupported';
+      candidate.reason = `Events must last between 1 minute and ${MAX_EVENT_DURATION / 60} hours`;
+      return;
+    }
+
+    if (event.rrule && !event.recurrenceId) {
+      const rule = parseRecurrenceRule(event.rrule, timeZone);
+
+      if (rule.error !== undefined) {
+        candidate.status = 'unsupported';
+        candidate.reason = rule.error;
+        return;
+      }
+
+      candidate.eventType = 'recurring';
+      candidate.recurringPattern = rule.data.recurringPattern;
+      candidate.recurringConfig = rule.data.recurringConfig;
+      candidate.exceptions = buildExceptions(event, parsedEvents, timeZone);
+    }
+
+    const key = `${toLocalDateKey(event.start, timeZone)}|${normalizeTitle(title)}`;
+
+    if (taken.has(key)) {
+      candidate.status = 'duplicate';
+      const duplicateOf = taken.get(key);
+      candidate.reason = duplicateOf
+        ? 'An event with this title already exists on this date'
+        : 'The file contains this event twice';
+      if (duplicateOf) {
+        candidate.duplicateOfEventId = duplicateOf;
+      }
+      return;
+    }
+
+    taken.set(key, undefined);
+  });
+
+  return candidates;
+}
+
+// Skipped occurrences from EXDATE, then changes from the VEVENTs overriding occurrences of the series
+function buildExceptions(
+  series: ParsedICalendarEvent,
+  parsedEvents: ParsedICalendarEvent[],
+  timeZone: string,
+): ImportedException[] {
+  const exceptions = new Map<string, ImportedException>();
+
+  for (const exdate of series.exdates) {
+    const occurrenceDate = occurrenceDateOf(exdate, timeZone);
+    exceptions.set(occurrenceDate, { occurrenceDate, exceptionType: 'skipped' });
+  }
+
+  const overrides = parsedEvents.filter(event => event.uid === series.uid && event.recurrenceId);
+
+  for (const override of overrides) {
+    const originalStart = override.recurrenceId!.date;
+    const occurrenceDate = occurrenceDateOf(override.recurrenceId!, timeZone);
+
+    if (override.cancelled) {
+      exceptions.set(occurrenceDate, { occurrenceDate, exceptionType: 'skipped' });
+      continue;
+    }
+
+    const moved = override.start.getTime() !== originalStart.getTime();
+    const title = override.summary && override.summary !== series.summary
+      ? override.summary.slice(0, MAX_TITLE_LENGTH)
+      : undefined;
+    const duration = override.duration !== undefined && override.duration !== series.duration
+      && override.duration >= 1 && override.duration <= MAX_EVENT_DURATION
+      ? override.duration
+      : undefined;
+
+    if (!moved && !title && !duration) {
+      continue;
+    }
+
+    exceptions.set(occurrenceDate, {
+      occurrenceDate,
+      exceptionType: moved ? 'rescheduled' : 'modified',
+      ...(moved && { eventDate: override.start }),
+      ...(title && { title }),
+      ...(duration && { duration }),
+    });
+  }
+
+  return [...exceptions.values()].sort((a, b) => a.occurrenceDate.localeCompare(b.occurrenceDate));
+}
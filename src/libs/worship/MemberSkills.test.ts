@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  hasSkillNamed,
+  parseMemberSkillFilters,
+  validateMemberSkillInput,
+  validateSkillInput,
+} from './MemberSkills';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+describe('MemberSkills', () => {
+  it('validates skills of the catalog', () => {
+    expect(validateSkillInput({ name: '  Bass ', category: 'instrument' })).toEqual({ data: { name: 'Bass', category: 'instrument' } });
+    expect(validateSkillInput({ name: '', category: 'instrument' }).error).toBe('name is required');
+    expect(validateSkillInput({ name: 'Alto', category: 'choir' }).error).toBe('category must be one of: instrument, vocal, tech');
+  });
+
+  it('validates skills of members', () => {
+    expect(validateMemberSkillInput({ userId: 'user_1', skillId: '5', proficiency: 'advanced' }))
+      .toEqual({ data: { userId: 'user_1', skillId: 5, proficiency: 'advanced', churchId: null } });
+    expect(validateMemberSkillInput({ userId: 'user_1', skillId: 5, proficiency: 'beginner', churchId: 2 }).data?.churchId).toBe(2);
+    expect(validateMemberSkillInput({ userId: 'user_1', skillId: 5, proficiency: 'expert' }).error).toBeDefined();
+    expect(validateMemberSkillInput({ userId: 'user_1', skillId: 5, proficiency: 'advanced', churchId: 'north' }).error)
+      .toBe('churchId must be a church id or null');
+    expect(validateMemberSkillInput({ skillId: 5, proficiency: 'advanced' }).error).toBe('userId is required');
+  });
+
+  it('parses the filters of a member skills listing', () => {
+    expect(parseMemberSkillFilters(new URLSearchParams('skillId=5&churchId=2'))).toEqual({ data: { skillId: 5, churchId: 2 } });
+    expect(parseMemberSkillFilters(new URLSearchParams('userId=user_1'))).toEqual({ data: { userId: 'user_1' } });
+    expect(parseMemberSkillFilters(new URLSearchParams('skillId=bass')).error).toBe('skillId must be an ID');
+  });
+
+  it('finds skills with the same name whatever its case', () => {
+    const skills = [{ id: 1, name: 'Bass' }, { id: 2, name: 'Alto' }];
+
+    expect(hasSkillNamed(skills, 'bass')).toBe(true);
+    expect(hasSkillNamed(skills, 'BASS', 1)).toBe(false);
+    expect(hasSkillNamed(skills, 'Tenor')).toBe(false);
+  });
+});
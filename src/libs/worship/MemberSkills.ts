@@ -0,0 +1,273 @@
+import type { SQL } from 'drizzle-orm';
+import { and, asc, desc, eq, isNull, or } from 'drizzle-orm';
+
+import type { SkillCategory, SkillProficiency } from '@/features/worship/types';
+import { db } from '@/libs/DB';
+import {
+  churchesSchema as churchTable,
+  memberSkillsSchema as memberSkillTable,
+  skillsSchema as skillTable,
+} from '@/models/WorshipSchema';
+
+import type { ValidationResult } from './EventValidation';
+import { parsePositiveInteger } from './EventValidation';
+
+/**
+ * The skills catalog of an organization (instruments, vocal parts, tech roles) and the skills of
+ * its members: how well each member masters a skill, and the church they serve at with it (or any
+ * church). Program editors use it to find who can fill a slot, e.g. who plays bass at a campus.
+ */
+
+// Longest a skill name can be (matches the column)
+export const MAX_SKILL_NAME_LENGTH = 100;
+
+export const SKILL_CATEGORIES: SkillCategory[] = ['instrument', 'vocal', 'tech'];
+
+// From least to most proficient, the order of the enum
+export const SKILL_PROFICIENCIES: SkillProficiency[] = ['beginner', 'intermediate', 'advanced'];
+
+export type SkillRecord = typeof skillTable.$inferSelect;
+export type MemberSkillRecord = typeof memberSkillTable.$inferSelect;
+
+export type SkillInput = {
+  name: string;
+  category: SkillCategory;
+};
+
+export type MemberSkillInput = {
+  userId: string;
+  skillId: number;
+  proficiency: SkillProficiency;
+  churchId: number | null; // Null when they serve at any church
+};
+
+export type MemberSkillFilters = {
+  userId?: string;
+  skillId?: number;
+  churchId?: number; // Members serving at this church or at any church
+};
+
+/**
+ * Validate a skill of the catalog
+ */
+export function validateSkillInput(body: Record<string, unknown>): ValidationResult<SkillInput> {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+  if (!name) {
+    return { error: 'name is required' };
+  }
+
+  if (name.length > MAX_SKILL_NAME_LENGTH) {
+    return { error: `name must be at most ${MAX_SKILL_NAME_LENGTH} characters` };
+  }
+
+  if (!SKILL_CATEGORIES.includes(body.category as SkillCategory)) {
+    return { error: `category must be one of: ${SKILL_CATEGORIES.join(', ')}` };
+  }
+
+  return { data: { name, category: body.category as SkillCategory } };
+}
+
+/**
+ * Validate a skill of a member
+ */
+export function validateMemberSkillInput(body: Record<string, unknown>): ValidationResult<MemberSkillInput> {
+  if (typeof body.userId !== 'string' || !body.userId) {
+    return { error: 'userId is required' };
+  }
+
+  const skillId = parsePositiveInteger(body.skillId);
+
+  if (!skillId) {
+    return { error: 'Valid skillId is required' };
+  }
+
+  if (!SKILL_PROFICIENCIES.includes(body.proficiency as SkillProficiency)) {
+    return { error: `proficiency must be one of: ${SKILL_PROFICIENCIES.join(', ')}` };
+  }
+
+  const anyChurch = body.churchId === undefined || body.churchId === null;
+  const churchId = anyChurch ? null : parsePositiveInteger(body.churchId);
+
+  if (!anyChurch && !churchId) {
+    return { error: 'churchId must be a church id or null' };
+  }
+
+  return { data: { userId: body.userId, skillId, proficiency: body.proficiency as SkillProficiency, churchId } };
+}
+
+/**
+ * Parse the `userId`, `skillId` and `churchId` filters of a member skills listing
+ */
+export function parseMemberSkillFilters(searchParams: URLSearchParams): ValidationResult<MemberSkillFilters> {
+  const filters: MemberSkillFilters = {};
+
+  const userId = searchParams.get('userId');
+  if (userId) {
+    filters.userId = userId;
+  }
+
+  for (const key of ['skillId', 'churchId'] as const) {
+    const value = searchParams.get(key);
+    if (value) {
+      const id = parsePositiveInteger(value);
+      if (!id) {
+        return { error: `${key} must be an ID` };
+      }
+      filters[key] = id;
+    }
+  }
+
+  return { data: filters };
+}
+
+/**
+ * Whether another skill of the catalog already has the name, whatever its case
+ */
+export function hasSkillNamed(skills: Pick<SkillRecord, 'id' | 'name'>[], name: string, exceptId?: number): boolean {
+  return skills.some(skill => skill.id !== exceptId && skill.name.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * List the skills of the organization's catalog by category and name
+ */
+export async function listSkills(organizationId: string): Promise<SkillRecord[]> {
+  return db
+    .select()
+    .from(skillTable)
+    .where(eq(skillTable.organizationId, organizationId))
+    .orderBy(asc(skillTable.category), asc(skillTable.name));
+}
+
+/**
+ * Find a skill of the organization's catalog
+ */
+export async function findSkill(organizationId: string, skillId: number): Promise<SkillRecord | null> {
+  const [skill] = await db
+    .select()
+    .from(skillTable)
+    .where(and(eq(skillTable.organizationId, organizationId), eq(skillTable.id, skillId)))
+    .limit(1);
+
+  return skill ?? null;
+}
+
+/**
+ * Add a skill to the organization's catalog
+ */
+export async function createSkill(organizationId: string, input: SkillInput): Promise<SkillRecord> {
+  const [skill] = await db
+    .insert(skillTable)
+    .values({ ...input, organizationId })
+    .returning();
+
+  return skill!;
+}
+
+/**
+ * Rename or recategorize a skill of the catalog
+ */
+export async function updateSkill(skillId: number, input: SkillInput): Promise<SkillRecord> {
+  const [skill] = await db
+    .update(skillTable)
+    .set(input)
+    .where(eq(skillTable.id, skillId))
+    .returning();
+
+  return skill!;
+}
+
+/**
+ * Remove a skill from the catalog, and from every member who had it
+ */
+export async function deleteSkill(skillId: number): Promise<void> {
+  await db
+    .delete(skillTable)
+    .where(eq(skillTable.id, skillId));
+}
+
+/**
+ * Whether the church belongs to the organization and is not deleted
+ */
+export async function isChurchInOrganization(churchId: number, organizationId: string): Promise<boolean> {
+  const [church] = await db
+    .select({ id: churchTable.id })
+    .from(churchTable)
+    .where(and(
+      eq(churchTable.id, churchId),
+      eq(churchTable.organizationId, organizationId),
+      isNull(churchTable.deletedAt),
+    ))
+    .limit(1);
+
+  return Boolean(church);
+}
+
+/**
+ * List the skills of the organization's members with their skill, the most proficient first.
+ * Filtered by church, members serving at that church come before those serving at any church.
+ */
+export async function listMemberSkills(organizationId: string, filters: MemberSkillFilters = {}) {
+  const conditions: (SQL | undefined)[] = [eq(memberSkillTable.organizationId, organizationId)];
+
+  if (filters.userId) {
+    conditions.push(eq(memberSkillTable.userId, filters.userId));
+  }
+
+  if (filters.skillId) {
+    conditions.push(eq(memberSkillTable.skillId, filters.skillId));
+  }
+
+  if (filters.churchId) {
+    conditions.push(or(eq(memberSkillTable.churchId, filters.churchId), isNull(memberSkillTable.churchId)));
+  }
+
+  return db
+    .select({
+      memberSkill: memberSkillTable,
+      skill: {
+        id: skillTable.id,
+        name: skillTable.name,
+        category: skillTable.category,
+      },
+    })
+    .from(memberSkillTable)
+    .innerJoin(skillTable, eq(memberSkillTable.skillId, skillTable.id))
+    .where(and(...conditions))
+    .orderBy(
+      desc(memberSkillTable.proficiency),
+      asc(memberSkillTable.churchId),
+      asc(skillTable.name),
+      asc(memberSkillTable.id),
+    );
+}
+
+export type MemberSkillItem = Awaited<ReturnType<typeof listMemberSkills>>[number];
+
+/**
+ * Give a member a skill, or change their proficiency and church for it
+ */
+export async function saveMemberSkill(organizationId: string, input: MemberSkillInput): Promise<MemberSkillRecord> {
+  const [memberSkill] = await db
+    .insert(memberSkillTable)
+    .values({ ...input, organizationId })
+    .onConflictDoUpdate({
+      target: [memberSkillTable.organizationId, memberSkillTable.userId, memberSkillTable.skillId],
+      set: { proficiency: input.proficiency, churchId: input.churchId },
+    })
+    .returning();
+
+  return memberSkill!;
+}
+
+/**
+ * Remove a skill from a member, returning it, or null if the organization has no such member skill
+ */
+export async function deleteMemberSkill(organizationId: string, memberSkillId: number): Promise<MemberSkillRecord | null> {
+  const [memberSkill] = await db
+    .delete(memberSkillTable)
+    .where(and(eq(memberSkillTable.id, memberSkillId), eq(memberSkillTable.organizationId, organizationId)))
+    .returning();
+
+  return memberSkill ?? null;
+}
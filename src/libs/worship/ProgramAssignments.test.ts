@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { OrganizationMember } from '@/lib/worship-user-management';
+
+import {
+  getAssignedNotification,
+  getAssignmentStatus,
+  getResponseNotification,
+  isAlreadyAssigned,
+  validateAssignmentInput,
+  validateAssignmentResponse,
+} from './ProgramAssignments';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+const members = [
+  { userId: 'user_1', firstName: 'Ana', lastName: 'Diaz', emailAddress: 'ana@example.com', worshipRole: 'worship_leader' },
+  { userId: 'user_2', firstName: null, lastName: null, emailAddress: 'ben@example.com', worshipRole: 'member' },
+] as OrganizationMember[];
+
+const program = { title: 'Easter Sunday' };
+
+describe('ProgramAssignments', () => {
+  it('validates new assignments', () => {
+    expect(validateAssignmentInput({ userId: 'user_2', role: ' Sound ', notes: ' Arrive at 9 ' }))
+      .toEqual({ data: { userId: 'user_2', role: 'Sound', notes: 'Arrive at 9' } });
+    expect(validateAssignmentInput({ userId: 'user_2', role: '  ' }).error).toBe('role is required');
+    expect(validateAssignmentInput({ role: 'pianist' }).error).toBe('userId is required');
+    expect(validateAssignmentInput({ userId: 'user_2', role: 'x'.repeat(101) }).error).toBe('role must be at most 100 characters');
+  });
+
+  it('requires a reason to decline', () => {
+    expect(validateAssignmentResponse({ accept: true, reason: 'ignored' })).toEqual({ data: { accept: true, reason: null } });
+    expect(validateAssignmentResponse({ accept: false, reason: ' Away ' })).toEqual({ data: { accept: false, reason: 'Away' } });
+    expect(validateAssignmentResponse({ accept: false }).error).toBe('A reason is required to decline');
+    expect(validateAssignmentResponse({ accept: 'yes' }).error).toBe('accept must be true or false');
+  });
+
+  it('derives the status and spots duplicate roles', () => {
+    expect(getAssignmentStatus({ isConfirmed: false, declinedAt: null })).toBe('pending');
+    expect(getAssignmentStatus({ isConfirmed: true, declinedAt: null })).toBe('accepted');
+    expect(getAssignmentStatus({ isConfirmed: false, declinedAt: new Date() })).toBe('declined');
+    expect(isAlreadyAssigned([{ userId: 'user_2', role: 'Sound' }], { userId: 'user_2', role: 'sound', notes: null })).toBe(true);
+    expect(isAlreadyAssigned([{ userId: 'user_2', role: 'Sound' }], { userId: 'user_2', role: 'vocalist', notes: null })).toBe(false);
+  });
+
+  it('notifies the assignee, then the assigner of the answer', () => {
+    const input = { userId: 'user_2', role: 'sound', notes: null };
+
+    expect(getAssignedNotification(program, input, 'user_1', members)).toEqual({
+      userId: 'user_2',
+      type: 'assignment',
+      title: 'New assignment',
+      message: 'Ana Diaz assigned you as sound for Easter Sunday',
+    });
+    expect(getAssignedNotification(program, input, 'user_2', members)).toBeNull();
+
+    const assignment = { ...input, assignedBy: 'user_1' };
+
+    expect(getResponseNotification(program, assignment, { accept: false, reason: 'Away that weekend' }, members)).toEqual({
+      userId: 'user_1',
+      type: 'assignment_declined',
+      title: 'Assignment declined',
+      message: 'ben@example.com declined to serve as sound for Easter Sunday: Away that weekend',
+    });
+    expect(getResponseNotification(program, assignment, { accept: true, reason: null }, members)?.type).toBe('assignment_accepted');
+  });
+});
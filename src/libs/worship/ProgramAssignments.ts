@@ -0,0 +1,361 @@
+import { and, asc, eq, isNull, ne, sql } from 'drizzle-orm';
+
+import type { OrganizationMember } from '@/lib/worship-user-management';
+import { db } from '@/libs/DB';
+import {
+  churchesSchema as churchTable,
+  eventsSchema as eventTable,
+  ministriesSchema as ministryTable,
+  notificationsSchema as notificationTable,
+  programAssignmentsSchema as assignmentTable,
+  servicesSchema as serviceTable,
+  worshipProgramsSchema as programTable,
+} from '@/models/WorshipSchema';
+
+import type { ValidationResult } from './EventValidation';
+import type { ProgramRecord } from './ProgramQueries';
+
+/**
+ * The team of a program: members assigned a role in it (pianist, vocalist, sound...) by a
+ * program editor. An assignment is pending until the assignee accepts or declines it, giving a
+ * reason when declining; they can change their mind as long as the program is not completed.
+ *
+ * Assignees are notified of new assignments, and assigners of the responses, in the same
+ * transaction as the assignment is written.
+ */
+
+// Longest a role name can be (matches the column)
+export const MAX_ASSIGNMENT_ROLE_LENGTH = 100;
+
+// Longest a decline reason can be (in characters)
+export const MAX_DECLINE_REASON_LENGTH = 500;
+
+export type ProgramAssignmentRecord = typeof assignmentTable.$inferSelect;
+
+export type AssignmentStatus = 'pending' | 'accepted' | 'declined';
+
+export type AssignmentInput = {
+  userId: string;
+  role: string;
+  notes: string | null;
+};
+
+export type AssignmentResponse = {
+  accept: boolean;
+  reason: string | null; // Required when declining
+};
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type AssignmentNotification = {
+  userId: string;
+  type: string;
+  title: string;
+  message: string;
+};
+
+/**
+ * Whether the assignee accepted, declined or has yet to answer
+ */
+export function getAssignmentStatus(assignment: Pick<ProgramAssignmentRecord, 'isConfirmed' | 'declinedAt'>): AssignmentStatus {
+  if (assignment.isConfirmed) {
+    return 'accepted';
+  }
+
+  return assignment.declinedAt ? 'declined' : 'pending';
+}
+
+/**
+ * Validate a new assignment
+ */
+export function validateAssignmentInput(body: Record<string, unknown>): ValidationResult<AssignmentInput> {
+  if (typeof body.userId !== 'string' || !body.userId) {
+    return { error: 'userId is required' };
+  }
+
+  const role = typeof body.role === 'string' ? body.role.trim() : '';
+
+  if (!role) {
+    return { error: 'role is required' };
+  }
+
+  if (role.length > MAX_ASSIGNMENT_ROLE_LENGTH) {
+    return { error: `role must be at most ${MAX_ASSIGNMENT_ROLE_LENGTH} characters` };
+  }
+
+  if (body.notes !== undefined && body.notes !== null && typeof body.notes !== 'string') {
+    return { error: 'notes must be a string' };
+  }
+
+  return { data: { userId: body.userId, role, notes: (body.notes as string | null | undefined)?.trim() || null } };
+}
+
+/**
+ * Validate an assignee's answer: `{ accept: true }`, or `{ accept: false, reason }`
+ */
+export function validateAssignmentResponse(body: Record<string, unknown>): ValidationResult<AssignmentResponse> {
+  if (typeof body.accept !== 'boolean') {
+    return { error: 'accept must be true or false' };
+  }
+
+  if (body.accept) {
+    return { data: { accept: true, reason: null } };
+  }
+
+  const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+
+  if (!reason) {
+    return { error: 'A reason is required to decline' };
+  }
+
+  if (reason.length > MAX_DECLINE_REASON_LENGTH) {
+    return { error: `reason must be at most ${MAX_DECLINE_REASON_LENGTH} characters` };
+  }
+
+  return { data: { accept: false, reason } };
+}
+
+/**
+ * Whether the member already has the role in the program, whatever its case
+ */
+export function isAlreadyAssigned(assignments: Pick<ProgramAssignmentRecord, 'userId' | 'role'>[], input: AssignmentInput): boolean {
+  return assignments.some(assignment =>
+    assignment.userId === input.userId && assignment.role.toLowerCase() === input.role.toLowerCase());
+}
+
+function getMemberName(members: OrganizationMember[], userId: string): string {
+  const member = members.find(other => other.userId === userId);
+
+  return member ? [member.firstName, member.lastName].filter(Boolean).join(' ') || member.emailAddress : userId;
+}
+
+/**
+ * The notification of a new assignment for its assignee, unless they assigned themselves
+ */
+export function getAssignedNotification(
+  program: Pick<ProgramRecord, 'title'>,
+  input: AssignmentInput,
+  assignedBy: string,
+  members: OrganizationMember[],
+): AssignmentNotification | null {
+  if (input.userId === assignedBy) {
+    return null;
+  }
+
+  return {
+    userId: input.userId,
+    type: 'assignment',
+    title: 'New assignment',
+    message: `${getMemberName(members, assignedBy)} assigned you as ${input.role} for ${program.title}`,
+  };
+}
+
+/**
+ * The notification of an answer for the member who made the assignment, unless they answered it
+ */
+export function getResponseNotification(
+  program: Pick<ProgramRecord, 'title'>,
+  assignment: Pick<ProgramAssignmentRecord, 'userId' | 'role' | 'assignedBy'>,
+  response: AssignmentResponse,
+  members: OrganizationMember[],
+): AssignmentNotification | null {
+  if (assignment.userId === assignment.assignedBy) {
+    return null;
+  }
+
+  const assignee = getMemberName(members, assignment.userId);
+
+  return response.accept
+    ? {
+        userId: assignment.assignedBy,
+        type: 'assignment_accepted',
+        title: 'Assignment accepted',
+        message: `${assignee} accepted to serve as ${assignment.role} for ${program.title}`,
+      }
+    : {
+        userId: assignment.assignedBy,
+        type: 'assignment_declined',
+        title: 'Assignment declined',
+        message: `${assignee} declined to serve as ${assignment.role} for ${program.title}: ${response.reason}`,
+      };
+}
+
+/**
+ * List the assignments of a program, in the order they were made
+ */
+export async function listAssignmentsForProgram(programId: number): Promise<ProgramAssignmentRecord[]> {
+  return db
+    .select()
+    .from(assignmentTable)
+    .where(eq(assignmentTable.programId, programId))
+    .orderBy(asc(assignmentTable.id));
+}
+
+/**
+ * Find an assignment of a program
+ */
+export async function findProgramAssignment(programId: number, assignmentId: number): Promise<ProgramAssignmentRecord | null> {
+  const [assignment] = await db
+    .select()
+    .from(assignmentTable)
+    .where(and(eq(assignmentTable.programId, programId), eq(assignmentTable.id, assignmentId)))
+    .limit(1);
+
+  return assignment ?? null;
+}
+
+// Columns returned for every assignment of the member
+const userAssignmentColumns = {
+  assignment: assignmentTable,
+  program: {
+    id: programTable.id,
+    title: programTable.title,
+    status: programTable.status,
+    occurrenceDate: programTable.occurrenceDate,
+  },
+  event: {
+    id: eventTable.id,
+    title: eventTable.title,
+    eventDate: eventTable.eventDate,
+  },
+  church: {
+    id: churchTable.id,
+    name: churchTable.name,
+    timezone: churchTable.timezone,
+  },
+};
+
+/**
+ * List the assignments of a member in the organization's programs that are not completed yet,
+ * soonest first
+ */
+export async function listUserAssignments(userId: string, organizationId: string) {
+  return db
+    .select(userAssignmentColumns)
+    .from(assignmentTable)
+    .innerJoin(programTable, eq(assignmentTable.programId, programTable.id))
+    .innerJoin(eventTable, eq(programTable.eventId, eventTable.id))
+    .innerJoin(serviceTable, eq(eventTable.serviceId, serviceTable.id))
+    .innerJoin(ministryTable, eq(serviceTable.ministryId, ministryTable.id))
+    .innerJoin(churchTable, eq(ministryTable.churchId, churchTable.id))
+    .where(and(
+      eq(assignmentTable.userId, userId),
+      ne(programTable.status, 'completed'),
+      eq(churchTable.organizationId, organizationId),
+      isNull(churchTable.deletedAt),
+    ))
+    // Programs of an occurrence are dated by the occurrence, the others by their event
+    .orderBy(
+      sql`coalesce(${programTable.occurrenceDate}, to_char(${eventTable.eventDate}, 'YYYY-MM-DD'))`,
+      asc(assignmentTable.id),
+    );
+}
+
+export type UserAssignmentItem = Awaited<ReturnType<typeof listUserAssignments>>[number];
+
+/**
+ * Find an assignment of a member in the organization's programs
+ */
+export async function findUserAssignment(
+  assignmentId: number,
+  userId: string,
+  organizationId: string,
+): Promise<UserAssignmentItem | null> {
+  const [row] = await db
+    .select(userAssignmentColumns)
+    .from(assignmentTable)
+    .innerJoin(programTable, eq(assignmentTable.programId, programTable.id))
+    .innerJoin(eventTable, eq(programTable.eventId, eventTable.id))
+    .innerJoin(serviceTable, eq(eventTable.serviceId, serviceTable.id))
+    .innerJoin(ministryTable, eq(serviceTable.ministryId, ministryTable.id))
+    .innerJoin(churchTable, eq(ministryTable.churchId, churchTable.id))
+    .where(and(
+      eq(assignmentTable.id, assignmentId),
+      eq(assignmentTable.userId, userId),
+      eq(churchTable.organizationId, organizationId),
+      isNull(churchTable.deletedAt),
+    ))
+    .limit(1);
+
+  return row ?? null;
+}
+
+async function insertNotification(
+  tx: Transaction,
+  notification: AssignmentNotification | null,
+  organizationId: string,
+  programId: number,
+) {
+  if (notification) {
+    await tx
+      .insert(notificationTable)
+      .values({
+        ...notification,
+        organizationId,
+        relatedEntityType: 'program',
+        relatedEntityId: programId,
+        actionUrl: notification.type === 'assignment' ? '/dashboard/assignments' : '/dashboard/programs',
+      });
+  }
+}
+
+/**
+ * Assign a member a role in a program and notify them at once
+ */
+export async function addProgramAssignment(
+  program: ProgramRecord,
+  organizationId: string,
+  input: AssignmentInput,
+  assignedBy: string,
+  members: OrganizationMember[],
+): Promise<ProgramAssignmentRecord> {
+  const notification = getAssignedNotification(program, input, assignedBy, members);
+
+  return db.transaction(async (tx) => {
+    const [assignment] = await tx
+      .insert(assignmentTable)
+      .values({ ...input, programId: program.id, assignedBy })
+      .returning();
+
+    await insertNotification(tx, notification, organizationId, program.id);
+
+    return assignment!;
+  });
+}
+
+/**
+ * Remove an assignment from a program
+ */
+export async function deleteProgramAssignment(assignmentId: number): Promise<void> {
+  await db
+    .delete(assignmentTable)
+    .where(eq(assignmentTable.id, assignmentId));
+}
+
+/**
+ * Record the assignee's answer and notify the member who made the assignment at once
+ */
+export async function respondToAssignment(
+  item: UserAssignmentItem,
+  organizationId: string,
+  response: AssignmentResponse,
+  members: OrganizationMember[],
+  now = new Date(),
+): Promise<ProgramAssignmentRecord> {
+  const { assignment, program } = item;
+  const notification = getResponseNotification(program, assignment, response, members);
+
+  return db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(assignmentTable)
+      .set(response.accept
+        ? { isConfirmed: true, confirmedAt: now, declinedAt: null, declineReason: null }
+        : { isConfirmed: false, confirmedAt: null, declinedAt: now, declineReason: response.reason })
+      .where(eq(assignmentTable.id, assignment.id))
+      .returning();
+
+    await insertNotification(tx, notification, organizationId, program.id);
+
+    return updated!;
+  });
+}
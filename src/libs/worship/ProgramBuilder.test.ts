@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ProgramSection } from '@/features/worship/types';
+
+import {
+  buildProgramMetadata,
+  canAddHymnSection,
+  createSection,
+  getProgramHymns,
+  moveSection,
+  withSections,
+} from './ProgramBuilder';
+
+const sections: ProgramSection[] = [
+  { ...createSection('hymn', 0, 'opening'), hymnId: 4, estimatedDuration: 5 },
+  {
+    ...createSection('prayer', 1, 'prayer'),
+    assignments: [{ userId: 'user_1', role: 'Prayer leader' }],
+  },
+  { ...createSection('sermon', 2, 'sermon'), estimatedDuration: 35 },
+  { ...createSection('hymn', 3, 'closing'), hymnId: 9, notes: 'All stand' },
+];
+
+describe('ProgramBuilder', () => {
+  describe('createSection', () => {
+    it('starts sections with their type label and typical duration', () => {
+      expect(createSection('sermon', 2, 'new')).toEqual({
+        id: 'new',
+        type: 'sermon',
+        title: 'Sermon',
+        orderIndex: 2,
+        estimatedDuration: 30,
+      });
+    });
+  });
+
+  describe('moveSection', () => {
+    it('moves a section and renumbers the program', () => {
+      const moved = moveSection(sections, 3, 1);
+
+      expect(moved.map(section => section.id)).toEqual(['opening', 'closing', 'prayer', 'sermon']);
+      expect(moved.map(section => section.orderIndex)).toEqual([0, 1, 2, 3]);
+    });
+
+    it('ignores moves outside the program', () => {
+      expect(moveSection(sections, 0, 4)).toBe(sections);
+    });
+  });
+
+  describe('buildProgramMetadata', () => {
+    it('derives the totals from the sections', () => {
+      const now = new Date('2025-03-01T12:00:00Z');
+
+      expect(buildProgramMetadata(sections, { template: 'sunday' } as any, now)).toEqual({
+        template: 'sunday',
+        totalEstimatedDuration: 49,
+        hymnCount: 2,
+        assignmentCount: 1,
+        lastModified: now,
+      });
+    });
+
+    it('only counts hymn sections with a hymn', () => {
+      expect(buildProgramMetadata([createSection('hymn')]).hymnCount).toBe(0);
+    });
+  });
+
+  describe('withSections', () => {
+    it('keeps section order and metadata in sync', () => {
+      const programData = withSections(null, [sections[2]!, sections[0]!]);
+
+      expect(programData.sections.map(section => section.orderIndex)).toEqual([0, 1]);
+      expect(programData.metadata.totalEstimatedDuration).toBe(40);
+    });
+  });
+
+  describe('canAddHymnSection', () => {
+    it('stops at the hymn cap', () => {
+      const hymns = Array.from({ length: 25 }, (_, index) => createSection('hymn', index, `h${index}`));
+
+      expect(canAddHymnSection(hymns.slice(1))).toBe(true);
+      expect(canAddHymnSection(hymns)).toBe(false);
+    });
+  });
+
+  describe('getProgramHymns', () => {
+    it('lists hymn sections in order and keeps keys of hymns already in the program', () => {
+      expect(getProgramHymns(sections, [{ hymnId: 9, key: 'D', tempo: 'Lively' }])).toEqual([
+        { hymnId: 4, key: null, tempo: null, notes: null, estimatedDuration: 300 },
+        { hymnId: 9, key: 'D', tempo: 'Lively', notes: 'All stand', estimatedDuration: 240 },
+      ]);
+    });
+  });
+});
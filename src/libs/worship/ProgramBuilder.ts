@@ -0,0 +1,137 @@
+import type { ProgramData, ProgramSection } from '@/features/worship/types';
+
+import type { ProgramHymnInput } from './ProgramValidation';
+import { MAX_HYMN_DURATION, MAX_PROGRAM_HYMNS } from './ProgramValidation';
+
+/**
+ * Editing of `ProgramData.sections`: sections keep a dense `orderIndex` matching their
+ * position, the metadata totals are derived from the sections after every change, and the
+ * hymn sections are mirrored into the program's hymn entries when it is saved.
+ */
+
+export type SectionType = ProgramSection['type'];
+
+export const SECTION_TYPES: SectionType[] = ['hymn', 'prayer', 'announcement', 'offering', 'sermon', 'other'];
+
+export const SECTION_LABELS: Record<SectionType, string> = {
+  hymn: 'Hymn',
+  prayer: 'Prayer',
+  announcement: 'Announcement',
+  offering: 'Offering',
+  sermon: 'Sermon',
+  other: 'Other',
+};
+
+// Typical length of each kind of section (in minutes)
+export const DEFAULT_SECTION_DURATIONS: Record<SectionType, number> = {
+  hymn: 4,
+  prayer: 5,
+  announcement: 5,
+  offering: 5,
+  sermon: 30,
+  other: 5,
+};
+
+/**
+ * Create an empty section of the given type, to be placed at the end of the program
+ */
+export function createSection(type: SectionType, orderIndex = 0, id: string = crypto.randomUUID()): ProgramSection {
+  return {
+    id,
+    type,
+    title: SECTION_LABELS[type],
+    orderIndex,
+    estimatedDuration: DEFAULT_SECTION_DURATIONS[type],
+  };
+}
+
+/**
+ * Renumber sections after their position
+ */
+export function reindexSections(sections: ProgramSection[]): ProgramSection[] {
+  return sections.map((section, orderIndex) =>
+    section.orderIndex === orderIndex ? section : { ...section, orderIndex });
+}
+
+/**
+ * Move the section at `from` to position `to`, shifting the sections in between
+ */
+export function moveSection(sections: ProgramSection[], from: number, to: number): ProgramSection[] {
+  if (from === to || from < 0 || to < 0 || from >= sections.length || to >= sections.length) {
+    return sections;
+  }
+
+  const reordered = [...sections];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved!);
+
+  return reindexSections(reordered);
+}
+
+/**
+ * Whether another hymn section fits under the per-program hymn cap
+ */
+export function canAddHymnSection(sections: ProgramSection[]): boolean {
+  return sections.filter(section => section.type === 'hymn').length < MAX_PROGRAM_HYMNS;
+}
+
+/**
+ * Derive the metadata totals from the sections
+ */
+export function buildProgramMetadata(
+  sections: ProgramSection[],
+  previous?: ProgramData['metadata'],
+  now = new Date(),
+): ProgramData['metadata'] {
+  return {
+    ...previous,
+    totalEstimatedDuration: sections.reduce((total, section) => total + (section.estimatedDuration ?? 0), 0),
+    hymnCount: sections.filter(section => section.type === 'hymn' && section.hymnId !== undefined).length,
+    assignmentCount: sections.reduce((total, section) => total + (section.assignments?.length ?? 0), 0),
+    lastModified: now,
+  };
+}
+
+/**
+ * Replace the sections of a program, keeping the metadata in sync
+ */
+export function withSections(
+  programData: ProgramData | null | undefined,
+  sections: ProgramSection[],
+  now = new Date(),
+): ProgramData {
+  const ordered = reindexSections(sections);
+
+  return {
+    sections: ordered,
+    metadata: buildProgramMetadata(ordered, programData?.metadata, now),
+  };
+}
+
+/**
+ * The program's hymn entries for its hymn sections, in program order. Keys and tempos of the
+ * current entries are kept for hymns that stay in the program.
+ */
+export function getProgramHymns(
+  sections: ProgramSection[],
+  current: Pick<ProgramHymnInput, 'hymnId' | 'key' | 'tempo'>[] = [],
+): ProgramHymnInput[] {
+  const unused = [...current];
+
+  return sections
+    .filter(section => section.type === 'hymn' && section.hymnId !== undefined)
+    .map((section) => {
+      const index = unused.findIndex(entry => entry.hymnId === section.hymnId);
+      const [previous] = index >= 0 ? unused.splice(index, 1) : [];
+
+      return {
+        hymnId: section.hymnId!,
+        key: previous?.key ?? null,
+        tempo: previous?.tempo ?? null,
+        notes: section.notes ?? null,
+        estimatedDuration: section.estimatedDuration
+          ? Math.min(section.estimatedDuration * 60, MAX_HYMN_DURATION)
+          : null,
+      };
+    });
+}
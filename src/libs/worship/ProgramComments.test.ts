@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { OrganizationMember } from '@/lib/worship-user-management';
+
+import type { ProgramCommentRecord } from './ProgramComments';
+import {
+  buildCommentThreads,
+  canSeeComment,
+  checkCommentAnchor,
+  findUnmentionableUsers,
+  getCommentNotifications,
+  validateCommentInput,
+} from './ProgramComments';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+const comment = (id: number, overrides: Partial<ProgramCommentRecord> = {}): ProgramCommentRecord => ({
+  id,
+  programId: 7,
+  parentId: null,
+  sectionId: null,
+  hymnId: null,
+  body: `Comment ${id}`,
+  mentions: [],
+  visibility: 'member',
+  isResolved: false,
+  resolvedBy: null,
+  resolvedAt: null,
+  createdBy: 'user_1',
+  createdAt: new Date('2025-04-01T12:00:00.000Z'),
+  ...overrides,
+});
+
+const member = (userId: string, firstName: string, worshipRole: OrganizationMember['worshipRole']) =>
+  ({ userId, firstName, lastName: null, emailAddress: `${userId}@example.com`, worshipRole }) as OrganizationMember;
+
+const members = [
+  member('user_1', 'Ana', 'collaborator'),
+  member('user_2', 'Ben', 'pastor'),
+  member('user_3', 'Cleo', 'member'),
+];
+
+describe('ProgramComments', () => {
+  describe('validateCommentInput', () => {
+    it('accepts a thread anchored to a section', () => {
+      expect(validateCommentInput({ body: ' Shorter please ', sectionId: 'sermon', mentions: ['user_2', 'user_2'], visibility: 'collaborator' }))
+        .toEqual({
+          data: { body: 'Shorter please', parentId: null, sectionId: 'sermon', hymnId: null, mentions: ['user_2'], visibility: 'collaborator' },
+        });
+    });
+
+    it('ignores the anchor and visibility of replies', () => {
+      expect(validateCommentInput({ body: 'Agreed', parentId: 3, hymnId: 4, visibility: 'admin' }).data)
+        .toEqual({ body: 'Agreed', parentId: 3, sectionId: null, hymnId: null, mentions: [], visibility: 'member' });
+    });
+
+    it('rejects invalid comments', () => {
+      expect(validateCommentInput({ body: '  ' }).error).toBe('body is required');
+      expect(validateCommentInput({ body: 'Hi', sectionId: 'sermon', hymnId: 4 }).error)
+        .toBe('A comment is anchored to a section or to a hymn, not both');
+      expect(validateCommentInput({ body: 'Hi', visibility: 'owner' }).error).toMatch(/^visibility must be one of/);
+      expect(validateCommentInput({ body: 'Hi', mentions: 'user_2' }).error).toBe('mentions must be an array of user IDs');
+      expect(validateCommentInput({ body: 'Hi', parentId: 'x' }).error).toBe('parentId must be a comment ID');
+    });
+  });
+
+  it('checks visibility against the worship role hierarchy', () => {
+    expect(canSeeComment('pastor', 'worship_leader')).toBe(true);
+    expect(canSeeComment('collaborator', 'worship_leader')).toBe(false);
+    expect(canSeeComment('admin', 'unknown')).toBe(false);
+    expect(findUnmentionableUsers(['user_2', 'user_3', 'user_9'], members, 'collaborator')).toEqual(['user_3', 'user_9']);
+  });
+
+  it('checks that the anchor is in the program', () => {
+    const program = { programData: { sections: [{ id: 'sermon' }] } } as any;
+    const input = validateCommentInput({ body: 'Hi', sectionId: 'sermon' }).data!;
+
+    expect(checkCommentAnchor(program, [], input)).toBeNull();
+    expect(checkCommentAnchor(program, [], { ...input, sectionId: 'offering' })).toBe('Section not found in the program');
+    expect(checkCommentAnchor(program, [4], { ...input, sectionId: null, hymnId: 5 })).toBe('Hymn not found in the program');
+  });
+
+  it('groups the visible threads with their replies', () => {
+    const threads = buildCommentThreads([
+      comment(1),
+      comment(2, { visibility: 'pastor' }),
+      comment(3, { parentId: 1 }),
+      comment(4, { parentId: 2 }),
+    ], 'collaborator');
+
+    expect(threads).toHaveLength(1);
+    expect(threads[0]).toMatchObject({ id: 1, replies: [{ id: 3 }] });
+  });
+
+  it('notifies the mentioned members and the other participants of the thread', () => {
+    const input = validateCommentInput({ body: 'Can we swap the hymns?', parentId: 1, mentions: ['user_2'] }).data!;
+
+    expect(getCommentNotifications({ title: 'Easter Sunday' }, input, 'member', 'user_1', ['user_2', 'user_3', 'user_1'], members))
+      .toEqual([
+        {
+          userId: 'user_2',
+          type: 'comment_mention',
+          title: 'You were mentioned',
+          message: 'Ana mentioned you on Easter Sunday: Can we swap the hymns?',
+        },
+        {
+          userId: 'user_3',
+          type: 'comment_reply',
+          title: 'New reply',
+          message: 'Ana replied on Easter Sunday: Can we swap the hymns?',
+        },
+      ]);
+    // Participants who cannot see the thread anymore are left out
+    expect(getCommentNotifications({ title: 'Easter Sunday' }, input, 'pastor', 'user_1', ['user_3'], members))
+      .toEqual([expect.objectContaining({ userId: 'user_2' })]);
+  });
+});
@@ -0,0 +1,338 @@
+import { and, asc, eq, or } from 'drizzle-orm';
+
+import type { ProgramData } from '@/features/worship/types';
+import type { ExtendedWorshipRole } from '@/lib/worship-role-utils';
+import { WorshipRoleHierarchy } from '@/lib/worship-role-utils';
+import type { OrganizationMember } from '@/lib/worship-user-management';
+import { db } from '@/libs/DB';
+import {
+  notificationsSchema as notificationTable,
+  programCommentsSchema as commentTable,
+} from '@/models/WorshipSchema';
+
+import type { ValidationResult } from './EventValidation';
+import { parsePositiveInteger } from './EventValidation';
+import type { ProgramRecord } from './ProgramQueries';
+
+/**
+ * Threaded comments on programs. A thread is anchored to the whole program, to a section of
+ * its program data or to its entry of a hymn; hymn entries are rewritten on every save, so
+ * threads point at the hymn rather than at the entry row. Replies belong to the comment that
+ * started the thread and share its anchor, its visibility and whether it is resolved.
+ *
+ * A thread is only visible to members whose worship role reaches its visibility. Mentioned
+ * members and the people taking part in a thread are notified of new comments in the same
+ * transaction as the comment is written.
+ */
+
+// Longest a comment can be (in characters)
+export const MAX_COMMENT_LENGTH = 5000;
+
+// Most members a comment can mention
+export const MAX_COMMENT_MENTIONS = 20;
+
+// Worship roles a thread can be limited to, lowest first
+export const COMMENT_VISIBILITIES: ExtendedWorshipRole[] = ['member', 'collaborator', 'worship_leader', 'pastor', 'admin'];
+
+export type ProgramCommentRecord = typeof commentTable.$inferSelect;
+
+export type ProgramCommentThread = ProgramCommentRecord & {
+  replies: ProgramCommentRecord[]; // Oldest first
+};
+
+export type CommentInput = {
+  body: string;
+  parentId: number | null; // The comment replied to
+  sectionId: string | null;
+  hymnId: number | null;
+  mentions: string[]; // Clerk user IDs
+  visibility: ExtendedWorshipRole;
+};
+
+type CommentNotification = {
+  userId: string;
+  type: string;
+  title: string;
+  message: string;
+};
+
+// How much of a comment notifications quote
+const EXCERPT_LENGTH = 120;
+
+function isVisibility(value: unknown): value is ExtendedWorshipRole {
+  return typeof value === 'string' && COMMENT_VISIBILITIES.includes(value as ExtendedWorshipRole);
+}
+
+/**
+ * Validate a new comment. Replies take the anchor and visibility of their thread, so those
+ * fields are only read for comments starting a thread.
+ */
+export function validateCommentInput(body: Record<string, unknown>): ValidationResult<CommentInput> {
+  const text = typeof body.body === 'string' ? body.body.trim() : '';
+
+  if (!text) {
+    return { error: 'body is required' };
+  }
+
+  if (text.length > MAX_COMMENT_LENGTH) {
+    return { error: `body must be at most ${MAX_COMMENT_LENGTH} characters` };
+  }
+
+  const parentId = body.parentId === undefined || body.parentId === null ? null : parsePositiveInteger(body.parentId);
+
+  if (parentId === null && body.parentId !== undefined && body.parentId !== null) {
+    return { error: 'parentId must be a comment ID' };
+  }
+
+  const mentions = body.mentions ?? [];
+
+  if (!Array.isArray(mentions) || mentions.some(mention => typeof mention !== 'string' || !mention)) {
+    return { error: 'mentions must be an array of user IDs' };
+  }
+
+  if (mentions.length > MAX_COMMENT_MENTIONS) {
+    return { error: `A comment can mention at most ${MAX_COMMENT_MENTIONS} members` };
+  }
+
+  if (parentId !== null) {
+    return { data: { body: text, parentId, sectionId: null, hymnId: null, mentions: [...new Set(mentions as string[])], visibility: 'member' } };
+  }
+
+  if (body.sectionId !== undefined && body.sectionId !== null && (typeof body.sectionId !== 'string' || !body.sectionId)) {
+    return { error: 'sectionId must be a section ID' };
+  }
+
+  const hymnId = body.hymnId === undefined || body.hymnId === null ? null : parsePositiveInteger(body.hymnId);
+
+  if (hymnId === null && body.hymnId !== undefined && body.hymnId !== null) {
+    return { error: 'hymnId must be a hymn ID' };
+  }
+
+  if (body.sectionId && hymnId !== null) {
+    return { error: 'A comment is anchored to a section or to a hymn, not both' };
+  }
+
+  const visibility = body.visibility ?? 'member';
+
+  if (!isVisibility(visibility)) {
+    return { error: `visibility must be one of: ${COMMENT_VISIBILITIES.join(', ')}` };
+  }
+
+  return {
+    data: {
+      body: text,
+      parentId: null,
+      sectionId: (body.sectionId as string | null | undefined) ?? null,
+      hymnId,
+      mentions: [...new Set(mentions as string[])],
+      visibility,
+    },
+  };
+}
+
+/**
+ * Whether members of the role can see threads of the visibility
+ */
+export function canSeeComment(role: ExtendedWorshipRole, visibility: string): boolean {
+  return isVisibility(visibility) && WorshipRoleHierarchy[role] >= WorshipRoleHierarchy[visibility];
+}
+
+/**
+ * The anchor error of a new thread: its section must be in the program data and its hymn
+ * among the program's hymn entries
+ */
+export function checkCommentAnchor(program: Pick<ProgramRecord, 'programData'>, hymnIds: number[], input: CommentInput): string | null {
+  const sections = (program.programData as ProgramData | null)?.sections ?? [];
+
+  if (input.sectionId && !sections.some(section => section.id === input.sectionId)) {
+    return 'Section not found in the program';
+  }
+
+  if (input.hymnId !== null && !hymnIds.includes(input.hymnId)) {
+    return 'Hymn not found in the program';
+  }
+
+  return null;
+}
+
+/**
+ * The mentioned user IDs that are not members able to see a thread of the visibility
+ */
+export function findUnmentionableUsers(mentions: string[], members: OrganizationMember[], visibility: string): string[] {
+  return mentions.filter((userId) => {
+    const member = members.find(other => other.userId === userId);
+
+    return !member || !canSeeComment(member.worshipRole, visibility);
+  });
+}
+
+/**
+ * Group comments into the threads the role can see, oldest thread first
+ */
+export function buildCommentThreads(comments: ProgramCommentRecord[], role: ExtendedWorshipRole): ProgramCommentThread[] {
+  const threads = new Map<number, ProgramCommentThread>();
+
+  for (const comment of comments) {
+    if (comment.parentId === null && canSeeComment(role, comment.visibility)) {
+      threads.set(comment.id, { ...comment, replies: [] });
+    }
+  }
+
+  for (const comment of comments) {
+    if (comment.parentId !== null) {
+      threads.get(comment.parentId)?.replies.push(comment);
+    }
+  }
+
+  return [...threads.values()];
+}
+
+function getMemberName(member: OrganizationMember | undefined, userId: string): string {
+  return member ? [member.firstName, member.lastName].filter(Boolean).join(' ') || member.emailAddress : userId;
+}
+
+function excerpt(text: string): string {
+  const line = text.replace(/\s+/g, ' ');
+
+  return line.length > EXCERPT_LENGTH ? `${line.slice(0, EXCERPT_LENGTH - 1)}…` : line;
+}
+
+/**
+ * Who to tell about a new comment: the members it mentions, then, for replies, everyone who
+ * took part in the thread. Nobody is told twice, nor about their own comment, nor about a
+ * thread they cannot see.
+ */
+export function getCommentNotifications(
+  program: Pick<ProgramRecord, 'title'>,
+  input: CommentInput,
+  visibility: string,
+  createdBy: string,
+  participants: string[],
+  members: OrganizationMember[],
+): CommentNotification[] {
+  const membersById = new Map(members.map(member => [member.userId, member]));
+  const author = getMemberName(membersById.get(createdBy), createdBy);
+  const canBeTold = (userId: string) => {
+    const member = membersById.get(userId);
+
+    return userId !== createdBy && member !== undefined && canSeeComment(member.worshipRole, visibility);
+  };
+  const mentioned = input.mentions.filter(canBeTold);
+  const repliedTo = [...new Set(participants)].filter(userId => canBeTold(userId) && !mentioned.includes(userId));
+
+  return [
+    ...mentioned.map(userId => ({
+      userId,
+      type: 'comment_mention',
+      title: 'You were mentioned',
+      message: `${author} mentioned you on ${program.title}: ${excerpt(input.body)}`,
+    })),
+    ...repliedTo.map(userId => ({
+      userId,
+      type: 'comment_reply',
+      title: 'New reply',
+      message: `${author} replied on ${program.title}: ${excerpt(input.body)}`,
+    })),
+  ];
+}
+
+/**
+ * List the comments of a program, oldest first
+ */
+export async function listProgramComments(programId: number): Promise<ProgramCommentRecord[]> {
+  return db
+    .select()
+    .from(commentTable)
+    .where(eq(commentTable.programId, programId))
+    .orderBy(asc(commentTable.createdAt), asc(commentTable.id));
+}
+
+/**
+ * Find a comment of a program
+ */
+export async function findProgramComment(programId: number, commentId: number): Promise<ProgramCommentRecord | null> {
+  const [comment] = await db
+    .select()
+    .from(commentTable)
+    .where(and(eq(commentTable.programId, programId), eq(commentTable.id, commentId)))
+    .limit(1);
+
+  return comment ?? null;
+}
+
+// The authors of a thread's comments
+async function listThreadParticipants(thread: ProgramCommentRecord): Promise<string[]> {
+  const comments = await db
+    .select({ createdBy: commentTable.createdBy })
+    .from(commentTable)
+    .where(or(eq(commentTable.id, thread.id), eq(commentTable.parentId, thread.id)));
+
+  return comments.map(comment => comment.createdBy);
+}
+
+/**
+ * Add a comment to a program, starting a thread or replying to `thread`, and notify the
+ * members concerned at once
+ */
+export async function addProgramComment(
+  program: ProgramRecord,
+  organizationId: string,
+  input: CommentInput,
+  createdBy: string,
+  thread: ProgramCommentRecord | null,
+  members: OrganizationMember[],
+): Promise<ProgramCommentRecord> {
+  const visibility = thread?.visibility ?? input.visibility;
+  const participants = thread ? await listThreadParticipants(thread) : [];
+  const notifications = getCommentNotifications(program, input, visibility, createdBy, participants, members);
+
+  return db.transaction(async (tx) => {
+    const [comment] = await tx
+      .insert(commentTable)
+      .values({
+        programId: program.id,
+        parentId: thread?.id ?? null,
+        sectionId: thread ? thread.sectionId : input.sectionId,
+        hymnId: thread ? thread.hymnId : input.hymnId,
+        body: input.body,
+        mentions: input.mentions,
+        visibility,
+        createdBy,
+      })
+      .returning();
+
+    if (notifications.length > 0) {
+      await tx
+        .insert(notificationTable)
+        .values(notifications.map(notification => ({
+          ...notification,
+          organizationId,
+          relatedEntityType: 'program',
+          relatedEntityId: program.id,
+          actionUrl: '/dashboard/programs',
+        })));
+    }
+
+    return comment!;
+  });
+}
+
+/**
+ * Resolve a thread, or open it again
+ */
+export async function setCommentThreadResolved(
+  commentId: number,
+  isResolved: boolean,
+  resolvedBy: string,
+  now = new Date(),
+): Promise<ProgramCommentRecord> {
+  const [comment] = await db
+    .update(commentTable)
+    .set(isResolved
+      ? { isResolved, resolvedBy, resolvedAt: now }
+      : { isResolved, resolvedBy: null, resolvedAt: null })
+    .where(eq(commentTable.id, commentId))
+    .returning();
+
+  return comment!;
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { ProgramData } from '@/features/worship/types';
+
+import {
+  DEFAULT_RECENT_HYMN_WEEKS,
+  duplicateProgramData,
+  duplicateProgramHymns,
+  findRecentHymns,
+  getProgramDateKey,
+  validateDuplicateInput,
+} from './ProgramDuplication';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+const programData: ProgramData = {
+  sections: [
+    { id: 'a', type: 'hymn', title: 'Doxology', orderIndex: 0, hymnId: 8 },
+    {
+      id: 'b',
+      type: 'other',
+      title: 'Scripture Reading',
+      orderIndex: 1,
+      assignments: [{ userId: 'user-456', role: 'Reader' }],
+    },
+  ],
+  metadata: {
+    totalEstimatedDuration: 0,
+    hymnCount: 1,
+    assignmentCount: 1,
+    lastModified: new Date('2025-03-01T00:00:00.000Z'),
+  },
+};
+
+function hymnUse(hymnId: number, programId: number, date: string) {
+  return {
+    hymnId,
+    hymnTitle: `Hymn ${hymnId}`,
+    programId,
+    programTitle: `Program ${programId}`,
+    occurrenceDate: null,
+    eventDate: new Date(date),
+    timezone: 'America/Toronto',
+  };
+}
+
+describe('ProgramDuplication', () => {
+  describe('validateDuplicateInput', () => {
+    it('requires a target event and fills in the defaults', () => {
+      expect(validateDuplicateInput({}).error).toBe('eventId must be a positive integer');
+      expect(validateDuplicateInput({ eventId: '12' }).data).toEqual({
+        eventId: 12,
+        occurrenceDate: null,
+        title: null,
+        includeAssignments: false,
+        recentWeeks: DEFAULT_RECENT_HYMN_WEEKS,
+      });
+    });
+
+    it('rejects invalid options', () => {
+      expect(validateDuplicateInput({ eventId: 12, occurrenceDate: 'next week' }).error)
+        .toBe('occurrenceDate must be a date in YYYY-MM-DD form');
+      expect(validateDuplicateInput({ eventId: 12, title: ' ' }).error)
+        .toBe('Program title must be between 1 and 255 characters');
+      expect(validateDuplicateInput({ eventId: 12, includeAssignments: 'yes' }).error)
+        .toBe('includeAssignments must be a boolean');
+      expect(validateDuplicateInput({ eventId: 12, recentWeeks: 53 }).error)
+        .toBe('recentWeeks must be a number of weeks between 1 and 52');
+    });
+  });
+
+  describe('duplicateProgramData', () => {
+    const now = new Date('2025-03-08T12:00:00.000Z');
+
+    it('leaves the roles of the sections unfilled without assignments', () => {
+      const copy = duplicateProgramData(programData, false, now);
+
+      expect(copy?.sections[1]?.assignments).toEqual([{ userId: '', role: 'Reader' }]);
+      expect(copy?.sections[0]).toEqual(programData.sections[0]);
+      expect(copy?.metadata.lastModified).toEqual(now);
+    });
+
+    it('keeps the assignees when assignments are copied', () => {
+      expect(duplicateProgramData(programData, true, now)?.sections).toEqual(programData.sections);
+      expect(duplicateProgramData(null, true, now)).toBeNull();
+    });
+  });
+
+  it('copies the keys and tempos of the hymn entries', () => {
+    expect(duplicateProgramHymns([
+      { id: 1, hymnId: 8, title: 'Doxology', orderIndex: 0, key: 'G', tempo: 92, notes: 'Two verses', estimatedDuration: 3 },
+    ] as any)).toEqual([{ hymnId: 8, key: 'G', tempo: 92, notes: 'Two verses', estimatedDuration: 3 }]);
+  });
+
+  it('dates programs by their occurrence or their event\'s local date', () => {
+    expect(getProgramDateKey({ occurrenceDate: '2025-03-09', eventDate: new Date('2025-03-02T15:00:00.000Z') }, 'UTC'))
+      .toBe('2025-03-09');
+    expect(getProgramDateKey({ occurrenceDate: null, eventDate: new Date('2025-03-02T02:00:00.000Z') }, 'America/Toronto'))
+      .toBe('2025-03-01');
+  });
+
+  describe('findRecentHymns', () => {
+    it('flags the hymns sung within the window with their latest use', () => {
+      const uses = [
+        hymnUse(8, 1, '2025-02-09T15:00:00.000Z'),
+        hymnUse(8, 2, '2025-03-02T15:00:00.000Z'),
+        hymnUse(9, 3, '2025-02-16T15:00:00.000Z'),
+      ];
+
+      expect(findRecentHymns(uses, '2025-03-09', 4)).toEqual([
+        { hymnId: 8, title: 'Hymn 8', lastUsedOn: '2025-03-02', programId: 2, programTitle: 'Program 2' },
+        { hymnId: 9, title: 'Hymn 9', lastUsedOn: '2025-02-16', programId: 3, programTitle: 'Program 3' },
+      ]);
+    });
+
+    it('ignores uses before the window or after the program', () => {
+      const uses = [
+        hymnUse(8, 1, '2025-02-02T15:00:00.000Z'),
+        hymnUse(9, 2, '2025-03-16T15:00:00.000Z'),
+      ];
+
+      expect(findRecentHymns(uses, '2025-03-09', 4)).toEqual([]);
+      expect(findRecentHymns(uses, '2025-03-09', 5).map(hymn => hymn.hymnId)).toEqual([8]);
+    });
+  });
+});
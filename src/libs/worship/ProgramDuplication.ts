@@ -0,0 +1,160 @@
+import type { ProgramData } from '@/features/worship/types';
+import { normalizeTimeZone, toLocalDateKey } from '@/utils/TimeZone';
+
+import type { ValidationResult } from './EventValidation';
+import { isDateKey, parsePositiveInteger } from './EventValidation';
+import { withSections } from './ProgramBuilder';
+import type { HymnUse, ProgramHymnItem } from './ProgramQueries';
+import type { ProgramHymnInput } from './ProgramValidation';
+
+/**
+ * Duplicating a program onto another event: its sections and hymn entries are copied as they
+ * are, its people only on request, and the copied hymns that were sung shortly before the new
+ * date are flagged so a service does not simply repeat the previous one.
+ */
+
+// How far back copied hymns are checked for repetition by default (in weeks)
+export const DEFAULT_RECENT_HYMN_WEEKS = 4;
+
+export const MAX_RECENT_HYMN_WEEKS = 52;
+
+export type DuplicateProgramInput = {
+  eventId: number;
+  occurrenceDate: string | null;
+  title: string | null; // The source program's title when not given
+  includeAssignments: boolean;
+  recentWeeks: number;
+};
+
+export type RecentHymn = {
+  hymnId: number;
+  title: string;
+  lastUsedOn: string; // Local date (YYYY-MM-DD) of the latest program that used it
+  programId: number;
+  programTitle: string;
+};
+
+/**
+ * Validate the body of a duplicate program request
+ */
+export function validateDuplicateInput(body: Record<string, unknown>): ValidationResult<DuplicateProgramInput> {
+  const eventId = parsePositiveInteger(body.eventId);
+
+  if (!eventId) {
+    return { error: 'eventId must be a positive integer' };
+  }
+
+  if (body.occurrenceDate !== undefined && body.occurrenceDate !== null && !isDateKey(body.occurrenceDate)) {
+    return { error: 'occurrenceDate must be a date in YYYY-MM-DD form' };
+  }
+
+  let title: string | null = null;
+
+  if (body.title !== undefined && body.title !== null) {
+    title = typeof body.title === 'string' ? body.title.trim() : '';
+    if (title.length < 1 || title.length > 255) {
+      return { error: 'Program title must be between 1 and 255 characters' };
+    }
+  }
+
+  if (body.includeAssignments !== undefined && typeof body.includeAssignments !== 'boolean') {
+    return { error: 'includeAssignments must be a boolean' };
+  }
+
+  let recentWeeks = DEFAULT_RECENT_HYMN_WEEKS;
+
+  if (body.recentWeeks !== undefined) {
+    const weeks = parsePositiveInteger(body.recentWeeks);
+    if (!weeks || weeks > MAX_RECENT_HYMN_WEEKS) {
+      return { error: `recentWeeks must be a number of weeks between 1 and ${MAX_RECENT_HYMN_WEEKS}` };
+    }
+    recentWeeks = weeks;
+  }
+
+  return {
+    data: {
+      eventId,
+      occurrenceDate: (body.occurrenceDate as string | null | undefined) ?? null,
+      title,
+      includeAssignments: body.includeAssignments === true,
+      recentWeeks,
+    },
+  };
+}
+
+/**
+ * Copy the sections of a program. Without assignments the roles stay on their sections, unfilled.
+ */
+export function duplicateProgramData(
+  programData: ProgramData | null,
+  includeAssignments: boolean,
+  now = new Date(),
+): ProgramData | null {
+  if (!programData) {
+    return null;
+  }
+
+  const sections = programData.sections.map(section => includeAssignments || !section.assignments
+    ? section
+    : { ...section, assignments: section.assignments.map(({ role }) => ({ userId: '', role })) });
+
+  return withSections(programData, sections, now);
+}
+
+/**
+ * The hymn entries of the new program, keeping the keys, tempos and notes of the source
+ */
+export function duplicateProgramHymns(hymns: ProgramHymnItem[]): ProgramHymnInput[] {
+  return hymns.map(hymn => ({
+    hymnId: hymn.hymnId,
+    key: hymn.key,
+    tempo: hymn.tempo,
+    notes: hymn.notes,
+    estimatedDuration: hymn.estimatedDuration,
+  }));
+}
+
+/**
+ * The local date of a program: its occurrence for recurring events, otherwise its event's date
+ */
+export function getProgramDateKey(
+  program: { occurrenceDate: string | null; eventDate: Date },
+  timeZone: string | null | undefined,
+): string {
+  return program.occurrenceDate ?? toLocalDateKey(program.eventDate, normalizeTimeZone(timeZone));
+}
+
+function subtractDays(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+
+  return toLocalDateKey(new Date(Date.UTC(year!, month! - 1, day! - days)), 'UTC');
+}
+
+/**
+ * The hymns sung within `weeks` weeks up to the given date, each with its latest use
+ */
+export function findRecentHymns(uses: HymnUse[], dateKey: string, weeks: number): RecentHymn[] {
+  const since = subtractDays(dateKey, weeks * 7);
+  const latest = new Map<number, RecentHymn>();
+
+  for (const use of uses) {
+    const usedOn = getProgramDateKey(use, use.timezone);
+
+    if (usedOn < since || usedOn > dateKey) {
+      continue;
+    }
+
+    const current = latest.get(use.hymnId);
+    if (!current || usedOn > current.lastUsedOn) {
+      latest.set(use.hymnId, {
+        hymnId: use.hymnId,
+        title: use.hymnTitle,
+        lastUsedOn: usedOn,
+        programId: use.programId,
+        programTitle: use.programTitle,
+      });
+    }
+  }
+
+  return [...latest.values()].sort((a, b) => b.lastUsedOn.localeCompare(a.lastUsedOn) || a.hymnId - b.hymnId);
+}
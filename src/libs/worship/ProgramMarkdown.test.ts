@@ -0,0 +1,210 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { listEventExceptions } from './EventSeries';
+import type { ProgramMarkdownSource } from './ProgramMarkdown';
+import { generateProgramMarkdown, preparePublishedMarkdown, previewMarkdownRegeneration, selectLyrics } from './ProgramMarkdown';
+import type { ProgramHierarchy } from './ProgramQueries';
+import { listProgramAssignments, listProgramHymnsWithLyrics } from './ProgramQueries';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+vi.mock('@/lib/worship-user-management', () => ({
+  getOrganizationMembers: vi.fn(),
+}));
+
+vi.mock('./EventSeries', () => ({
+  listEventExceptions: vi.fn(),
+}));
+
+vi.mock('./ProgramQueries', () => ({
+  listProgramAssignments: vi.fn(),
+  listProgramHymnsWithLyrics: vi.fn(),
+}));
+
+const lyrics = {
+  en: {
+    verses: [
+      { number: 1, text: 'Christ the Lord is risen today,\nAlleluia!' },
+      { number: 2, text: 'Lives again our glorious King,\nAlleluia!' },
+    ],
+  },
+  fr: {
+    verses: [{ number: 1, text: 'Christ est ressuscité,\nAlléluia!' }],
+  },
+};
+
+const source: ProgramMarkdownSource = {
+  program: {
+    title: 'Easter Sunday',
+    description: 'Sunrise service on the lawn',
+    occurrenceDate: '2025-04-20',
+    programData: {
+      sections: [
+        {
+          id: 'sermon',
+          type: 'sermon',
+          title: 'He Is Risen',
+          orderIndex: 1,
+          estimatedDuration: 30,
+          assignments: [{ userId: 'user_2', role: 'Preacher' }],
+        },
+        { id: 'opening', type: 'hymn', title: 'Opening Hymn', orderIndex: 0, hymnId: 4, estimatedDuration: 5 },
+      ],
+      metadata: { totalEstimatedDuration: 35, hymnCount: 1, assignmentCount: 1, lastModified: new Date() },
+    },
+  },
+  event: {
+    title: 'Sunday Worship',
+    eventDate: new Date('2025-03-02T15:00:00.000Z'),
+    duration: 90,
+    eventType: 'recurring',
+    recurringPattern: 'weekly',
+    recurringConfig: { frequency: 1 },
+  },
+  service: { name: 'Sunday Service' },
+  church: { name: 'Grace Church', timezone: 'America/Toronto' },
+  hymns: [
+    {
+      hymnId: 4,
+      key: 'C',
+      tempo: null,
+      notes: null,
+      estimatedDuration: 300,
+      hymn: { title: 'Christ the Lord Is Risen Today', author: 'Charles Wesley', composer: null, lyrics },
+    },
+  ],
+  assignments: [{ userId: 'user_1', role: 'Worship leader', notes: null }],
+};
+
+const memberNames = new Map([['user_1', 'Jane Doe'], ['user_2', 'John Smith']]);
+
+describe('ProgramMarkdown', () => {
+  describe('generateProgramMarkdown', () => {
+    it('renders a run sheet in program order', () => {
+      expect(generateProgramMarkdown(source, { memberNames })).toBe([
+        '# Easter Sunday',
+        '',
+        '- **Event:** Sunday Worship',
+        '- **Date:** Sunday, April 20, 2025, 10:00 AM',
+        '- **Service:** Sunday Service, Grace Church',
+        '- **Estimated duration:** 35 min',
+        '',
+        'Sunrise service on the lawn',
+        '',
+        '## Team',
+        '',
+        '- **Worship leader:** Jane Doe',
+        '',
+        '## Order of Service',
+        '',
+        '### 1. Opening Hymn',
+        '',
+        '_Hymn · 5 min · Key: C_',
+        '',
+        '**Christ the Lord Is Risen Today** — Charles Wesley',
+        '',
+        '#### Verse 1',
+        '',
+        '> Christ the Lord is risen today,  ',
+        '> Alleluia!',
+        '',
+        '#### Verse 2',
+        '',
+        '> Lives again our glorious King,  ',
+        '> Alleluia!',
+        '',
+        '### 2. He Is Risen',
+        '',
+        '_Sermon · 30 min_',
+        '',
+        '- **Preacher:** John Smith',
+        '',
+      ].join('\n'));
+    });
+
+    it('is deterministic', () => {
+      expect(generateProgramMarkdown(source, { memberNames })).toBe(generateProgramMarkdown(source, { memberNames }));
+    });
+
+    it('lists hymn entries without a section after the sections', () => {
+      const markdown = generateProgramMarkdown({ ...source, program: { ...source.program, programData: null } });
+
+      expect(markdown).toContain('### 1. Christ the Lord Is Risen Today');
+      expect(markdown).toContain('_Hymn · 5 min · Key: C_');
+    });
+
+    it('dates the program with its occurrence as rescheduled', () => {
+      const markdown = generateProgramMarkdown({
+        ...source,
+        exception: { eventDate: new Date('2025-04-20T16:30:00.000Z'), duration: null },
+      });
+
+      expect(markdown).toContain('- **Date:** Sunday, April 20, 2025, 12:30 PM');
+    });
+  });
+
+  describe('selectLyrics', () => {
+    it('prints the requested language', () => {
+      expect(selectLyrics(lyrics, 'fr')?.language).toBe('fr');
+    });
+
+    it('falls back to English, then to the first language', () => {
+      expect(selectLyrics(lyrics, 'es')?.language).toBe('en');
+      expect(selectLyrics({ fr: lyrics.fr, de: lyrics.fr }, 'es')?.language).toBe('de');
+      expect(selectLyrics(null, 'en')).toBeNull();
+    });
+
+    it('puts the chorus after the verses', () => {
+      const selected = selectLyrics({ en: { ...lyrics.en, chorus: { text: 'Alleluia!' } } }, 'en');
+
+      expect(selected?.verses.at(-1)).toEqual({ title: 'Chorus', text: 'Alleluia!' });
+    });
+  });
+
+  describe('previewMarkdownRegeneration', () => {
+    it('reports manual edits against the last generated sheet', () => {
+      const preview = previewMarkdownRegeneration({ markdownContent: '# Easter\nEdited\n', originalMarkdown: '# Easter\n' }, '# Easter\n');
+
+      expect(preview.hasManualEdits).toBe(true);
+      expect(preview.changes).toEqual([{ type: 'removed', line: 2, text: 'Edited' }]);
+    });
+
+    it('treats a program without markdown as unedited', () => {
+      const preview = previewMarkdownRegeneration({ markdownContent: null, originalMarkdown: null }, '# Easter\n');
+
+      expect(preview.hasManualEdits).toBe(false);
+      expect(preview.changes).toEqual([{ type: 'added', line: 1, text: '# Easter' }, { type: 'added', line: 2, text: '' }]);
+    });
+  });
+
+  describe('preparePublishedMarkdown', () => {
+    const hierarchy = (markdownContent: string | null, originalMarkdown: string | null) => ({
+      ...source,
+      program: { ...source.program, id: 7, programData: null, versionNumber: 3, markdownContent, originalMarkdown },
+    }) as unknown as ProgramHierarchy;
+
+    beforeEach(() => {
+      vi.mocked(listProgramHymnsWithLyrics).mockResolvedValue([]);
+      vi.mocked(listProgramAssignments).mockResolvedValue([]);
+      vi.mocked(listEventExceptions).mockResolvedValue([]);
+    });
+
+    it('replaces unedited markdown with the run sheet as a new version', async () => {
+      expect(await preparePublishedMarkdown(hierarchy(null, null), 'org_1', 'user_1')).toEqual({
+        changes: {
+          originalMarkdown: expect.stringContaining('# Easter Sunday'),
+          markdownContent: expect.stringContaining('# Easter Sunday'),
+        },
+        version: { changeType: 'auto_generated', changeDescription: 'Generated on publish', changedBy: 'user_1' },
+      });
+    });
+
+    it('keeps hand-edited markdown', async () => {
+      expect(await preparePublishedMarkdown(hierarchy('# Easter\nEdited\n', '# Easter\n'), 'org_1', 'user_1')).toEqual({
+        changes: { originalMarkdown: expect.stringContaining('# Easter Sunday') },
+      });
+    });
+  });
+});
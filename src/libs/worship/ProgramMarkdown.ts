@@ -0,0 +1,374 @@
+import type { LyricVerse, MultiLanguageLyrics, ProgramData, ProgramSection, SectionAssignment } from '@/features/worship/types';
+import { getOrganizationMembers } from '@/lib/worship-user-management';
+import { formatInTimeZone } from '@/utils/TimeZone';
+
+import { SECTION_LABELS } from './ProgramBuilder';
+import type { ProgramHierarchy } from './ProgramQueries';
+import { listProgramAssignments, listProgramHymnsWithLyrics } from './ProgramQueries';
+import type { ProgramTimingSource } from './ProgramTiming';
+import { getProgramStart, loadProgramException } from './ProgramTiming';
+import type { ProgramVersionInput } from './ProgramVersions';
+import type { RecurrenceSource } from './RecurrenceEngine';
+import type { LineChange } from './TextDiff';
+import { diffLines } from './TextDiff';
+
+/**
+ * Markdown run sheets for programs. Generation is deterministic: the same program, hymn
+ * entries, assignments and lyrics language always render the same text, so a regenerated
+ * sheet can be compared line by line with a stored one that was edited by hand.
+ */
+
+export const DEFAULT_LYRICS_LANGUAGE = 'en';
+
+// Dates are rendered in a fixed locale so the sheet does not depend on the server settings
+const MARKDOWN_LOCALE = 'en-US';
+
+const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}(?:-[a-z0-9]{2,8})*$/i;
+
+export type MarkdownHymnEntry = {
+  hymnId: number;
+  key: string | null;
+  tempo: string | null;
+  notes: string | null;
+  estimatedDuration: number | null; // Duration in seconds
+  hymn: {
+    title: string;
+    author: string | null;
+    composer: string | null;
+    lyrics: unknown;
+  };
+};
+
+export type MarkdownAssignment = {
+  userId: string;
+  role: string;
+  notes: string | null;
+};
+
+export type ProgramMarkdownSource = {
+  program: {
+    title: string;
+    description: string | null;
+    occurrenceDate: string | null;
+    programData: unknown;
+  };
+  event: RecurrenceSource & {
+    title: string;
+    eventDate: Date;
+    duration: number | null; // Duration in minutes
+  };
+  service: {
+    name: string;
+  };
+  church: {
+    name: string;
+    timezone: string | null;
+  };
+  hymns: MarkdownHymnEntry[]; // In program order
+  assignments: MarkdownAssignment[]; // Program-wide roles
+  exception?: ProgramTimingSource['exception']; // Of the program's occurrence
+};
+
+export type ProgramMarkdownOptions = {
+  language?: string;
+  memberNames?: Map<string, string>;
+};
+
+export type MarkdownPreview = {
+  markdown: string;
+  changes: LineChange[]; // Removals refer to the current markdown, additions to the regenerated one
+  hasManualEdits: boolean;
+};
+
+export type PublishedMarkdown = {
+  changes: { originalMarkdown: string; markdownContent?: string };
+  version?: ProgramVersionInput; // When the markdown is replaced
+};
+
+// A section of the run sheet with the hymn entry it sings, if any
+export type RunSheetItem<T extends MarkdownHymnEntry = MarkdownHymnEntry> = {
+  section: Pick<ProgramSection, 'type' | 'title' | 'estimatedDuration' | 'notes' | 'customContent' | 'assignments'>
+    & Partial<Pick<ProgramSection, 'id'>>; // Entries without a section have no ID
+  hymn?: T;
+};
+
+export function isLanguageCode(value: unknown): value is string {
+  return typeof value === 'string' && LANGUAGE_CODE_PATTERN.test(value);
+}
+
+/**
+ * Pick the lyrics to print: the requested language, else the default language, else the
+ * first language in alphabetical order. Chorus and bridge follow the verses.
+ */
+export function selectLyrics(lyrics: unknown, language: string): { language: string; verses: LyricVerse[] } | null {
+  if (!lyrics || typeof lyrics !== 'object') {
+    return null;
+  }
+
+  const byLanguage = lyrics as MultiLanguageLyrics;
+  const chosen = [language, DEFAULT_LYRICS_LANGUAGE, ...Object.keys(byLanguage).sort()]
+    .find(code => byLanguage[code]?.verses?.length);
+
+  if (!chosen) {
+    return null;
+  }
+
+  const { verses, chorus, bridge } = byLanguage[chosen]!;
+
+  return {
+    language: chosen,
+    verses: [
+      ...verses,
+      ...(chorus ? [{ title: 'Chorus', ...chorus }] : []),
+      ...(bridge ? [{ title: 'Bridge', ...bridge }] : []),
+    ],
+  };
+}
+
+/**
+ * The sections of a run sheet in program order, each with the hymn entry it sings. Hymn sections
+ * take the first unused entry of their hymn; entries without a section follow at the end.
+ */
+export function buildRunSheetItems<T extends MarkdownHymnEntry>(sections: ProgramSection[], hymns: T[]): RunSheetItem<T>[] {
+  const unused = [...hymns];
+  const items: RunSheetItem<T>[] = [...sections]
+    .sort((a, b) => a.orderIndex - b.orderIndex)
+    .map((section) => {
+      const index = section.type === 'hymn' ? unused.findIndex(entry => entry.hymnId === section.hymnId) : -1;
+      const [hymn] = index >= 0 ? unused.splice(index, 1) : [];
+
+      return { section, hymn };
+    });
+
+  return [
+    ...items,
+    ...unused.map(hymn => ({
+      section: {
+        type: 'hymn' as const,
+        title: hymn.hymn.title,
+        estimatedDuration: hymn.estimatedDuration ? Math.round(hymn.estimatedDuration / 60) : undefined,
+        notes: hymn.notes ?? undefined,
+      },
+      hymn,
+    })),
+  ];
+}
+
+/**
+ * The date and start time of a program, in the church's time zone. Programs of one occurrence
+ * start when the occurrence does, rescheduled or not.
+ */
+export function formatProgramDate(source: ProgramMarkdownSource): string {
+  const { startsAt } = getProgramStart(source);
+  const date = formatInTimeZone(startsAt, source.church.timezone, {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  }, MARKDOWN_LOCALE);
+  const time = formatInTimeZone(startsAt, source.church.timezone, {
+    hour: 'numeric',
+    minute: '2-digit',
+  }, MARKDOWN_LOCALE);
+
+  return `${date}, ${time}`;
+}
+
+function renderAssignments(assignments: (SectionAssignment | MarkdownAssignment)[], memberNames: Map<string, string>): string[] {
+  return assignments.map((assignment) => {
+    const name = memberNames.get(assignment.userId) ?? (assignment.userId || 'Unassigned');
+
+    return `- **${assignment.role}:** ${name}${assignment.notes ? ` (${assignment.notes})` : ''}`;
+  });
+}
+
+function renderLyrics(hymn: MarkdownHymnEntry, language: string): string[] {
+  const lyrics = selectLyrics(hymn.hymn.lyrics, language);
+
+  if (!lyrics) {
+    return [];
+  }
+
+  const lines: string[] = [];
+
+  if (lyrics.language !== language) {
+    lines.push(`_Lyrics in ${lyrics.language}_`, '');
+  }
+
+  lyrics.verses.forEach((verse, index) => {
+    lines.push(`#### ${verse.title ?? `Verse ${verse.number ?? index + 1}`}`, '');
+    // Two trailing spaces keep the lines of a verse apart when rendered
+    lines.push(verse.text.trim().split(/\r?\n/).map(line => `> ${line.trim()}`).join('  \n'), '');
+  });
+
+  return lines;
+}
+
+function renderItem(item: RunSheetItem, position: number, language: string, memberNames: Map<string, string>): string[] {
+  const { section, hymn } = item;
+  const lines = [`### ${position}. ${section.title}`, ''];
+  const details = [
+    SECTION_LABELS[section.type],
+    section.estimatedDuration ? `${section.estimatedDuration} min` : null,
+    hymn?.key ? `Key: ${hymn.key}` : null,
+    hymn?.tempo ? `Tempo: ${hymn.tempo}` : null,
+  ].filter(Boolean);
+
+  lines.push(`_${details.join(' · ')}_`, '');
+
+  if (section.type === 'hymn') {
+    if (hymn) {
+      const credits = [hymn.hymn.author, hymn.hymn.composer && hymn.hymn.composer !== hymn.hymn.author ? `music by ${hymn.hymn.composer}` : null]
+        .filter(Boolean)
+        .join(', ');
+      lines.push(`**${hymn.hymn.title}**${credits ? ` — ${credits}` : ''}`, '');
+    } else {
+      lines.push('_No hymn chosen_', '');
+    }
+  } else if (section.customContent) {
+    lines.push(section.customContent.trim(), '');
+  }
+
+  if (section.assignments?.length) {
+    lines.push(...renderAssignments(section.assignments, memberNames), '');
+  }
+
+  if (section.notes) {
+    lines.push(`**Notes:** ${section.notes.trim()}`, '');
+  }
+
+  return hymn ? [...lines, ...renderLyrics(hymn, language)] : lines;
+}
+
+/**
+ * Render a program as a markdown run sheet
+ */
+export function generateProgramMarkdown(source: ProgramMarkdownSource, options: ProgramMarkdownOptions = {}): string {
+  const language = options.language ?? DEFAULT_LYRICS_LANGUAGE;
+  const memberNames = options.memberNames ?? new Map<string, string>();
+  const programData = source.program.programData as ProgramData | null;
+  const items = buildRunSheetItems(programData?.sections ?? [], source.hymns);
+  const totalDuration = items.reduce((total, item) => total + (item.section.estimatedDuration ?? 0), 0);
+
+  const lines = [
+    `# ${source.program.title}`,
+    '',
+    `- **Event:** ${source.event.title}`,
+    `- **Date:** ${formatProgramDate(source)}`,
+    `- **Service:** ${source.service.name}, ${source.church.name}`,
+  ];
+
+  if (totalDuration > 0) {
+    lines.push(`- **Estimated duration:** ${totalDuration} min`);
+  }
+  lines.push('');
+
+  if (source.program.description) {
+    lines.push(source.program.description.trim(), '');
+  }
+
+  if (source.assignments.length > 0) {
+    lines.push('## Team', '', ...renderAssignments(source.assignments, memberNames), '');
+  }
+
+  lines.push('## Order of Service', '');
+
+  if (items.length === 0) {
+    lines.push('_No sections planned yet._', '');
+  }
+
+  items.forEach((item, index) => {
+    lines.push(...renderItem(item, index + 1, language, memberNames));
+  });
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+/**
+ * What regenerating would change in the program's current markdown. The markdown has manual
+ * edits when it no longer matches the last generated sheet.
+ */
+export function previewMarkdownRegeneration(
+  program: { markdownContent: string | null; originalMarkdown: string | null },
+  markdown: string,
+): MarkdownPreview {
+  return {
+    markdown,
+    changes: diffLines(program.markdownContent ?? '', markdown),
+    hasManualEdits: program.markdownContent !== null && program.markdownContent !== program.originalMarkdown,
+  };
+}
+
+async function getMemberNames(organizationId: string, userIds: string[]): Promise<Map<string, string>> {
+  if (userIds.length === 0) {
+    return new Map();
+  }
+
+  const members = await getOrganizationMembers(organizationId);
+
+  return new Map(members
+    .filter(member => member.userId)
+    .map(member => [
+      member.userId,
+      [member.firstName, member.lastName].filter(Boolean).join(' ') || member.emailAddress,
+    ]));
+}
+
+/**
+ * Load everything a program's run sheet shows, with the names of the members it assigns
+ */
+export async function loadRunSheetSource(
+  hierarchy: ProgramHierarchy,
+  organizationId: string,
+): Promise<{ source: ProgramMarkdownSource & ProgramTimingSource; memberNames: Map<string, string> }> {
+  const [hymns, assignments, exception] = await Promise.all([
+    listProgramHymnsWithLyrics(hierarchy.program.id),
+    listProgramAssignments(hierarchy.program.id),
+    loadProgramException(hierarchy),
+  ]);
+  const sections = (hierarchy.program.programData as ProgramData | null)?.sections ?? [];
+  const memberNames = await getMemberNames(organizationId, [
+    ...assignments.map(assignment => assignment.userId),
+    ...sections.flatMap(section => section.assignments?.map(assignment => assignment.userId) ?? []),
+  ]);
+
+  return { source: { ...hierarchy, hymns, assignments, exception }, memberNames };
+}
+
+/**
+ * Load everything a program's run sheet shows and render it
+ */
+export async function renderProgramMarkdown(
+  hierarchy: ProgramHierarchy,
+  organizationId: string,
+  language = DEFAULT_LYRICS_LANGUAGE,
+): Promise<string> {
+  const { source, memberNames } = await loadRunSheetSource(hierarchy, organizationId);
+
+  return generateProgramMarkdown(source, { language, memberNames });
+}
+
+/**
+ * The run sheet of a program about to be published, stored as its original markdown with the
+ * status change. The markdown is replaced too unless it was edited by hand; hand edits can still
+ * be compared with the sheet through the markdown preview.
+ */
+export async function preparePublishedMarkdown(
+  hierarchy: ProgramHierarchy,
+  organizationId: string,
+  changedBy: string,
+  language = DEFAULT_LYRICS_LANGUAGE,
+): Promise<PublishedMarkdown> {
+  const { program } = hierarchy;
+  const markdown = await renderProgramMarkdown(hierarchy, organizationId, language);
+  const { hasManualEdits } = previewMarkdownRegeneration(program, markdown);
+
+  if (hasManualEdits || markdown === program.markdownContent) {
+    return { changes: { originalMarkdown: markdown } };
+  }
+
+  return {
+    changes: { originalMarkdown: markdown, markdownContent: markdown },
+    version: { changeType: 'auto_generated', changeDescription: 'Generated on publish', changedBy },
+  };
+}
@@ -0,0 +1,140 @@
+import { PDFDocument } from 'pdf-lib';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { ProgramPdfSource } from './ProgramPdf';
+import { buildRunSheetRows, generateProgramPdf } from './ProgramPdf';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+vi.mock('@/lib/worship-user-management', () => ({
+  getOrganizationMembers: vi.fn(),
+}));
+
+const lyrics = {
+  en: {
+    verses: [
+      { number: 1, text: 'Christ the Lord is risen today,\nAlleluia!' },
+      { number: 2, text: 'Lives again our glorious King,\nAlleluia!' },
+    ],
+  },
+  zh: {
+    verses: [{ number: 1, text: '基督今日已复活,\n哈利路亚!' }],
+  },
+};
+
+const source: ProgramPdfSource = {
+  program: {
+    title: 'Easter Sunday',
+    description: null,
+    occurrenceDate: '2025-04-20',
+    programData: {
+      sections: [
+        { id: 'welcome', type: 'announcement', title: 'Welcome', orderIndex: 0, estimatedDuration: 5, notes: 'Mention the egg hunt' },
+        {
+          id: 'opening',
+          type: 'hymn',
+          title: 'Opening Hymn',
+          orderIndex: 1,
+          hymnId: 4,
+          estimatedDuration: 5,
+          assignments: [{ userId: 'user_1', role: 'Piano' }],
+        },
+        { id: 'prayer', type: 'prayer', title: 'Prayer', orderIndex: 2 },
+        { id: 'sermon', type: 'sermon', title: 'He Is Risen', orderIndex: 3, estimatedDuration: 30 },
+      ],
+      metadata: { totalEstimatedDuration: 40, hymnCount: 1, assignmentCount: 1, lastModified: new Date() },
+    },
+  },
+  event: {
+    title: 'Sunday Worship',
+    eventDate: new Date('2025-03-02T15:00:00.000Z'),
+    duration: 90,
+    eventType: 'recurring',
+    recurringPattern: 'weekly',
+    recurringConfig: { frequency: 1 },
+  },
+  service: { name: 'Sunday Service', defaultDuration: 90 },
+  church: { name: 'Grace Church', timezone: 'America/Toronto' },
+  hymns: [
+    {
+      hymnId: 4,
+      key: 'D',
+      tempo: 'Moderate',
+      notes: null,
+      estimatedDuration: 300,
+      hymn: { title: 'Christ the Lord Is Risen Today', author: 'Charles Wesley', composer: null, lyrics, audioFiles: null },
+    },
+  ],
+  assignments: [{ userId: 'user_2', role: 'Worship leader', notes: null }],
+};
+
+const memberNames = new Map([['user_1', 'Jane Doe'], ['user_2', 'John Smith']]);
+
+describe('ProgramPdf', () => {
+  describe('buildRunSheetRows', () => {
+    it('times each section from the start of the occurrence', () => {
+      const rows = buildRunSheetRows(source, memberNames);
+
+      // The prayer takes the typical 5 minutes of a prayer
+      expect(rows.map(row => row.time)).toEqual(['10:00 AM', '10:05 AM', '10:10 AM', '10:15 AM']);
+      expect(rows[1]).toEqual({
+        time: '10:05 AM',
+        title: 'Opening Hymn',
+        details: 'Hymn · 5 min · Christ the Lord Is Risen Today · Key: D · Tempo: Moderate',
+        estimatedDuration: 5,
+        assignees: ['Piano: Jane Doe'],
+        notes: null,
+      });
+      expect(rows[0]?.notes).toBe('Mention the egg hunt');
+    });
+
+    it('times rescheduled occurrences from their new start', () => {
+      const rows = buildRunSheetRows({
+        ...source,
+        exception: { eventDate: new Date('2025-04-20T16:30:00.000Z'), duration: null },
+      });
+
+      expect(rows.map(row => row.time)).toEqual(['12:30 PM', '12:35 PM', '12:40 PM', '12:45 PM']);
+    });
+  });
+
+  describe('generateProgramPdf', () => {
+    it('puts the run sheet on one page, followed by the lyrics of each hymn', async () => {
+      const pdf = await PDFDocument.load(await generateProgramPdf(source, { memberNames }));
+
+      expect(pdf.getPageCount()).toBe(2);
+      expect(pdf.getTitle()).toBe('Easter Sunday');
+    });
+
+    it('prints lyrics the standard fonts cannot encode', async () => {
+      const pdf = await PDFDocument.load(await generateProgramPdf(source, { language: 'zh' }));
+
+      expect(pdf.getPageCount()).toBe(2);
+    });
+
+    it('continues long lyrics and run sheets on the next pages', async () => {
+      const verses = Array.from({ length: 12 }, (_, index) => ({
+        number: index + 1,
+        text: Array.from({ length: 8 }, () => 'Alleluia, alleluia, alleluia!').join('\n'),
+      }));
+      const sections = Array.from({ length: 80 }, (_, index) => ({
+        id: `reading-${index}`,
+        type: 'reading' as const,
+        title: `Reading ${index + 1}`,
+        orderIndex: index,
+        estimatedDuration: 2,
+        assignments: [{ userId: 'user_1', role: 'Reader' }, { userId: 'user_2', role: 'Assistant' }],
+      }));
+
+      const pdf = await PDFDocument.load(await generateProgramPdf({
+        ...source,
+        program: { ...source.program, programData: { sections } },
+        hymns: [{ ...source.hymns[0]!, hymn: { ...source.hymns[0]!.hymn, lyrics: { en: { verses } } } }],
+      }));
+
+      expect(pdf.getPageCount()).toBeGreaterThan(3);
+    });
+  });
+});
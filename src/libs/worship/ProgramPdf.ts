@@ -0,0 +1,378 @@
+import type { PDFFont, PDFPage } from 'pdf-lib';
+import { PageSizes, PDFDocument, rgb, StandardFonts } from 'pdf-lib';
+
+import type { ProgramData } from '@/features/worship/types';
+import { formatInTimeZone } from '@/utils/TimeZone';
+
+import { SECTION_LABELS } from './ProgramBuilder';
+import type { MarkdownHymnEntry, ProgramMarkdownOptions, ProgramMarkdownSource } from './ProgramMarkdown';
+import { buildRunSheetItems, DEFAULT_LYRICS_LANGUAGE, formatProgramDate, loadRunSheetSource, selectLyrics } from './ProgramMarkdown';
+import type { ProgramHierarchy } from './ProgramQueries';
+import type { ProgramTimingSource } from './ProgramTiming';
+import { calculateProgramTiming } from './ProgramTiming';
+
+/**
+ * Printable PDFs of programs, drawn with pdf-lib so they need no browser or external service:
+ * a run sheet on the first page, with the start time, section and assignees of every item,
+ * then the lyrics of each hymn on pages of their own, in the language asked for and with the
+ * key the program sings it in. The run sheet shrinks its text to stay on one page, down to a
+ * minimum size past which it continues on the next page.
+ *
+ * Text is drawn with the standard Helvetica fonts, which cover Latin scripts; characters they
+ * cannot encode are printed as '?'.
+ */
+
+// Times are rendered in a fixed locale so the sheet does not depend on the server settings
+const PDF_LOCALE = 'en-US';
+
+const [PAGE_WIDTH, PAGE_HEIGHT] = PageSizes.Letter;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const FOOTER_SIZE = 8;
+
+// Run sheet columns: start time, section, assignees
+const TIME_WIDTH = 64;
+const SECTION_WIDTH = 224;
+const COLUMN_GAP = 12;
+const ASSIGNEES_WIDTH = CONTENT_WIDTH - TIME_WIDTH - SECTION_WIDTH - 2 * COLUMN_GAP;
+
+const RUN_SHEET_SIZES = [10, 9.5, 9, 8.5, 8, 7.5, 7];
+const LYRICS_SIZE = 11;
+
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const RULE_COLOR = rgb(0.8, 0.8, 0.8);
+
+// A run sheet with what it takes to time it
+export type ProgramPdfSource = ProgramMarkdownSource & ProgramTimingSource;
+
+export type RunSheetRow = {
+  time: string; // Start time in the church's time zone
+  title: string;
+  details: string; // Section type, duration, and the hymn with its key and tempo
+  estimatedDuration: number | null; // Duration in minutes
+  assignees: string[];
+  notes: string | null;
+};
+
+type Fonts = {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+  characters: Set<number>;
+};
+
+// Where the next line goes on the current page
+type Cursor = {
+  doc: PDFDocument;
+  fonts: Fonts;
+  page: PDFPage;
+  y: number;
+};
+
+function formatStartTime(startsAt: Date, timeZone: string | null): string {
+  return formatInTimeZone(startsAt, timeZone, {
+    hour: 'numeric',
+    minute: '2-digit',
+  }, PDF_LOCALE);
+}
+
+/**
+ * The rows of a program's run sheet, with the start times of the program's timing: counting from
+ * the start of its occurrence, rescheduled or not, each item starting when the previous one ends.
+ */
+export function buildRunSheetRows(source: ProgramPdfSource, memberNames = new Map<string, string>()): RunSheetRow[] {
+  const programData = source.program.programData as ProgramData | null;
+  const timing = calculateProgramTiming(source);
+
+  return buildRunSheetItems(programData?.sections ?? [], source.hymns).map(({ section, hymn }, index) => ({
+    time: formatStartTime(timing.sections[index]!.startsAt, source.church.timezone),
+    title: section.title,
+    details: [
+      SECTION_LABELS[section.type],
+      section.estimatedDuration ? `${section.estimatedDuration} min` : null,
+      section.type === 'hymn' ? hymn?.hymn.title ?? 'No hymn chosen' : null,
+      hymn?.key ? `Key: ${hymn.key}` : null,
+      hymn?.tempo ? `Tempo: ${hymn.tempo}` : null,
+    ].filter(Boolean).join(' · '),
+    estimatedDuration: section.estimatedDuration ?? null,
+    assignees: (section.assignments ?? []).map(assignment =>
+      `${assignment.role}: ${memberNames.get(assignment.userId) ?? (assignment.userId || 'Unassigned')}`),
+    notes: section.notes?.trim() || null,
+  }));
+}
+
+// Replace what the standard fonts cannot encode, so drawing never fails on an unknown character
+function printable(text: string, fonts: Fonts): string {
+  return Array.from(text.replace(/\t/g, '    '), character =>
+    fonts.characters.has(character.codePointAt(0)!) ? character : '?').join('');
+}
+
+/**
+ * Break text into lines that fit the width, keeping its own line breaks. Words longer than a
+ * line are cut.
+ */
+function wrapText(text: string, font: PDFFont, size: number, width: number, fonts: Fonts): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of printable(text, fonts).split(/\r?\n/)) {
+    let line = '';
+
+    for (const word of paragraph.trim().split(/\s+/)) {
+      const candidate = line ? `${line} ${word}` : word;
+
+      if (font.widthOfTextAtSize(candidate, size) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) {
+        lines.push(line);
+      }
+
+      line = word;
+      while (font.widthOfTextAtSize(line, size) > width && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && font.widthOfTextAtSize(line.slice(0, cut), size) > width) {
+          cut--;
+        }
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+function lineHeight(size: number): number {
+  return size * 1.3;
+}
+
+function addPage(cursor: Cursor) {
+  cursor.page = cursor.doc.addPage(PageSizes.Letter);
+  cursor.y = PAGE_HEIGHT - MARGIN;
+}
+
+// Start a new page unless the height fits above the footer
+function ensureSpace(cursor: Cursor, height: number) {
+  if (cursor.y - height < MARGIN + lineHeight(FOOTER_SIZE)) {
+    addPage(cursor);
+  }
+}
+
+function drawLines(
+  cursor: Cursor,
+  lines: string[],
+  { x = MARGIN, size, font, color = TEXT_COLOR }: { x?: number; size: number; font: PDFFont; color?: typeof TEXT_COLOR },
+) {
+  lines.forEach((line, index) => {
+    cursor.page.drawText(line, { x, y: cursor.y - size - index * lineHeight(size), size, font, color });
+  });
+}
+
+// Draw wrapped text, continuing on a new page when it reaches the footer
+function drawParagraph(cursor: Cursor, text: string, size: number, font: PDFFont, color = TEXT_COLOR) {
+  for (const line of wrapText(text, font, size, CONTENT_WIDTH, cursor.fonts)) {
+    ensureSpace(cursor, lineHeight(size));
+    drawLines(cursor, [line], { size, font, color });
+    cursor.y -= lineHeight(size);
+  }
+}
+
+// The wrapped cells of a run sheet row and the height they take
+function layoutRow(row: RunSheetRow, size: number, fonts: Fonts) {
+  const detailSize = size - 1;
+  const title = wrapText(row.title, fonts.bold, size, SECTION_WIDTH, fonts);
+  const details = wrapText(row.details, fonts.regular, detailSize, SECTION_WIDTH, fonts);
+  const assignees = row.assignees.flatMap(assignee => wrapText(assignee, fonts.regular, size, ASSIGNEES_WIDTH, fonts));
+  const notes = row.notes ? wrapText(`Notes: ${row.notes}`, fonts.italic, detailSize, ASSIGNEES_WIDTH, fonts) : [];
+  const sectionHeight = title.length * lineHeight(size) + details.length * lineHeight(detailSize);
+  const assigneesHeight = assignees.length * lineHeight(size) + notes.length * lineHeight(detailSize);
+
+  return {
+    title,
+    details,
+    assignees,
+    notes,
+    height: Math.max(lineHeight(size), sectionHeight, assigneesHeight) + size * 0.8,
+  };
+}
+
+function drawRule(cursor: Cursor) {
+  cursor.page.drawLine({
+    start: { x: MARGIN, y: cursor.y },
+    end: { x: PAGE_WIDTH - MARGIN, y: cursor.y },
+    thickness: 0.5,
+    color: RULE_COLOR,
+  });
+}
+
+function drawRunSheet(cursor: Cursor, source: ProgramMarkdownSource, rows: RunSheetRow[], memberNames: Map<string, string>) {
+  const { fonts } = cursor;
+  const team = source.assignments.map(assignment =>
+    `${assignment.role}: ${memberNames.get(assignment.userId) ?? (assignment.userId || 'Unassigned')}`);
+  const totalDuration = rows.reduce((total, row) => total + (row.estimatedDuration ?? 0), 0);
+
+  drawParagraph(cursor, source.program.title, 18, fonts.bold);
+  cursor.y -= 4;
+  drawParagraph(cursor, `${source.event.title} · ${formatProgramDate(source)}`, 10, fonts.regular, MUTED_COLOR);
+  drawParagraph(cursor, `${source.service.name}, ${source.church.name}${totalDuration ? ` · ${totalDuration} min` : ''}`, 10, fonts.regular, MUTED_COLOR);
+  if (team.length > 0) {
+    drawParagraph(cursor, `Team: ${team.join('; ')}`, 10, fonts.regular);
+  }
+  cursor.y -= 12;
+
+  if (rows.length === 0) {
+    drawParagraph(cursor, 'No sections planned yet.', 10, fonts.italic, MUTED_COLOR);
+    return;
+  }
+
+  // The largest size at which the whole run sheet fits the rest of the page
+  const available = cursor.y - MARGIN - lineHeight(FOOTER_SIZE);
+  const size = RUN_SHEET_SIZES.find(candidate =>
+    lineHeight(candidate) + rows.reduce((total, row) => total + layoutRow(row, candidate, fonts).height, 0) <= available,
+  ) ?? RUN_SHEET_SIZES.at(-1)!;
+  const sectionX = MARGIN + TIME_WIDTH + COLUMN_GAP;
+  const assigneesX = sectionX + SECTION_WIDTH + COLUMN_GAP;
+
+  const drawHeader = () => {
+    drawLines(cursor, ['Time'], { size, font: fonts.bold, color: MUTED_COLOR });
+    drawLines(cursor, ['Section'], { x: sectionX, size, font: fonts.bold, color: MUTED_COLOR });
+    drawLines(cursor, ['Assigned'], { x: assigneesX, size, font: fonts.bold, color: MUTED_COLOR });
+    cursor.y -= lineHeight(size) + 2;
+    drawRule(cursor);
+  };
+
+  drawHeader();
+  for (const row of rows) {
+    const cells = layoutRow(row, size, fonts);
+    const page = cursor.page;
+    ensureSpace(cursor, cells.height);
+    if (cursor.page !== page) {
+      drawHeader();
+    }
+
+    const top = cursor.y - size * 0.4;
+    cursor.y = top;
+    drawLines(cursor, [row.time], { size, font: fonts.regular });
+    drawLines(cursor, cells.title, { x: sectionX, size, font: fonts.bold });
+    drawLines(cursor, cells.assignees, { x: assigneesX, size, font: fonts.regular });
+
+    cursor.y = top - cells.title.length * lineHeight(size);
+    drawLines(cursor, cells.details, { x: sectionX, size: size - 1, font: fonts.regular, color: MUTED_COLOR });
+    cursor.y = top - cells.assignees.length * lineHeight(size);
+    drawLines(cursor, cells.notes, { x: assigneesX, size: size - 1, font: fonts.italic, color: MUTED_COLOR });
+
+    cursor.y = top + size * 0.4 - cells.height;
+    drawRule(cursor);
+  }
+}
+
+function drawLyricPages(cursor: Cursor, hymn: MarkdownHymnEntry, language: string) {
+  const { fonts } = cursor;
+  const lyrics = selectLyrics(hymn.hymn.lyrics, language);
+  const credits = [
+    hymn.hymn.author,
+    hymn.hymn.composer && hymn.hymn.composer !== hymn.hymn.author ? `music by ${hymn.hymn.composer}` : null,
+  ].filter(Boolean).join(', ');
+  const details = [
+    hymn.key ? `Key: ${hymn.key}` : null,
+    hymn.tempo ? `Tempo: ${hymn.tempo}` : null,
+    lyrics && lyrics.language !== language ? `Lyrics in ${lyrics.language}` : null,
+  ].filter(Boolean).join(' · ');
+
+  addPage(cursor);
+  drawParagraph(cursor, hymn.hymn.title, 16, fonts.bold);
+  if (credits) {
+    drawParagraph(cursor, credits, 10, fonts.regular, MUTED_COLOR);
+  }
+  if (details) {
+    drawParagraph(cursor, details, 10, fonts.bold);
+  }
+  if (hymn.notes) {
+    drawParagraph(cursor, `Notes: ${hymn.notes.trim()}`, 10, fonts.italic, MUTED_COLOR);
+  }
+  cursor.y -= 12;
+
+  if (!lyrics) {
+    drawParagraph(cursor, 'No lyrics on file.', LYRICS_SIZE, fonts.italic, MUTED_COLOR);
+    return;
+  }
+
+  lyrics.verses.forEach((verse, index) => {
+    const heading = verse.title ?? `Verse ${verse.number ?? index + 1}`;
+    const lines = wrapText(verse.text.trim(), fonts.regular, LYRICS_SIZE, CONTENT_WIDTH, fonts);
+    const height = lineHeight(LYRICS_SIZE) * (lines.length + 1);
+
+    // Verses stay on one page unless they are longer than a page
+    if (height <= PAGE_HEIGHT - 3 * MARGIN) {
+      ensureSpace(cursor, height);
+    }
+    drawParagraph(cursor, heading, LYRICS_SIZE, fonts.bold, MUTED_COLOR);
+    drawParagraph(cursor, verse.text.trim(), LYRICS_SIZE, fonts.regular);
+    cursor.y -= LYRICS_SIZE;
+  });
+}
+
+function drawFooters(doc: PDFDocument, text: string, fonts: Fonts) {
+  const pages = doc.getPages();
+
+  pages.forEach((page, index) => {
+    const number = `Page ${index + 1} of ${pages.length}`;
+    page.drawText(printable(text, fonts), { x: MARGIN, y: MARGIN - FOOTER_SIZE, size: FOOTER_SIZE, font: fonts.regular, color: MUTED_COLOR });
+    page.drawText(number, {
+      x: PAGE_WIDTH - MARGIN - fonts.regular.widthOfTextAtSize(number, FOOTER_SIZE),
+      y: MARGIN - FOOTER_SIZE,
+      size: FOOTER_SIZE,
+      font: fonts.regular,
+      color: MUTED_COLOR,
+    });
+  });
+}
+
+/**
+ * Render a program as a PDF: the run sheet, then a lyric page for each hymn it sings
+ */
+export async function generateProgramPdf(source: ProgramPdfSource, options: ProgramMarkdownOptions = {}): Promise<Uint8Array> {
+  const language = options.language ?? DEFAULT_LYRICS_LANGUAGE;
+  const memberNames = options.memberNames ?? new Map<string, string>();
+  const doc = await PDFDocument.create();
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const fonts: Fonts = {
+    regular,
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+    italic: await doc.embedFont(StandardFonts.HelveticaOblique),
+    characters: new Set(regular.getCharacterSet()),
+  };
+  const cursor: Cursor = { doc, fonts, page: doc.addPage(PageSizes.Letter), y: PAGE_HEIGHT - MARGIN };
+  const programData = source.program.programData as ProgramData | null;
+
+  doc.setTitle(source.program.title);
+  doc.setSubject(`${source.event.title}, ${formatProgramDate(source)}`);
+  doc.setCreator(source.church.name);
+
+  drawRunSheet(cursor, source, buildRunSheetRows(source, memberNames), memberNames);
+  for (const { hymn } of buildRunSheetItems(programData?.sections ?? [], source.hymns)) {
+    if (hymn) {
+      drawLyricPages(cursor, hymn, language);
+    }
+  }
+  drawFooters(doc, `${source.program.title} · ${formatProgramDate(source)}`, fonts);
+
+  return doc.save();
+}
+
+/**
+ * Load everything a program's PDF shows and render it
+ */
+export async function renderProgramPdf(
+  hierarchy: ProgramHierarchy,
+  organizationId: string,
+  language = DEFAULT_LYRICS_LANGUAGE,
+): Promise<Uint8Array> {
+  const { source, memberNames } = await loadRunSheetSource(hierarchy, organizationId);
+
+  return generateProgramPdf(source, { language, memberNames });
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { getProgramDateKey } from './ProgramQueries';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+describe('ProgramQueries', () => {
+  describe('getProgramDateKey', () => {
+    it('dates programs of an occurrence by the occurrence', () => {
+      expect(getProgramDateKey({
+        occurrenceDate: '2025-04-20',
+        event: { eventDate: new Date('2025-03-02T15:00:00.000Z') },
+        church: { timezone: 'America/Toronto' },
+      })).toBe('2025-04-20');
+    });
+
+    it('dates the other programs by the day of their event in the church\'s time zone', () => {
+      // 11 PM on March 31 in Toronto is already April 1 in UTC
+      const lateEvening = { eventDate: new Date('2025-04-01T03:00:00.000Z') };
+
+      expect(getProgramDateKey({ occurrenceDate: null, event: lateEvening, church: { timezone: 'America/Toronto' } }))
+        .toBe('2025-03-31');
+      expect(getProgramDateKey({ occurrenceDate: null, event: lateEvening, church: { timezone: null } }))
+        .toBe('2025-04-01');
+    });
+  });
+});
@@ -0,0 +1,443 @@
+import type { SQL } from 'drizzle-orm';
+import { and, asc, desc, eq, getTableColumns, gte, inArray, isNotNull, isNull, lt, lte, ne, or, sql } from 'drizzle-orm';
+
+import type { ProgramFilters } from '@/features/worship/types';
+import { db } from '@/libs/DB';
+import {
+  churchesSchema as churchTable,
+  eventsSchema as eventTable,
+  hymnsSchema as hymnTable,
+  ministriesSchema as ministryTable,
+  notificationsSchema as notificationTable,
+  programAssignmentsSchema as programAssignmentTable,
+  programHymnsSchema as programHymnTable,
+  programVersionHistorySchema as versionTable,
+  servicesSchema as serviceTable,
+  worshipProgramsSchema as programTable,
+} from '@/models/WorshipSchema';
+import { normalizeTimeZone, toLocalDateKey } from '@/utils/TimeZone';
+
+import type { EventHierarchy } from './EventQueries';
+import type { ProgramHymnInput } from './ProgramValidation';
+import type { ProgramVersionInput } from './ProgramVersions';
+
+/**
+ * Organization-scoped lookups and writes for worship programs. Like events, programs are
+ * scoped through their event's service → ministry → church chain. Hymn entries are always
+ * written as a whole list, in program order, and markdown changes are recorded in the
+ * version history in the same transaction as the program write.
+ */
+
+export type ProgramRecord = typeof programTable.$inferSelect;
+export type ProgramHymnRecord = typeof programHymnTable.$inferSelect;
+export type ProgramAssignmentInput = Omit<typeof programAssignmentTable.$inferInsert, 'id' | 'programId' | 'createdAt'>;
+export type ProgramNotificationInput = Omit<typeof notificationTable.$inferInsert, 'id' | 'relatedEntityType' | 'relatedEntityId' | 'createdAt'>;
+
+export type ProgramHierarchy = {
+  program: ProgramRecord;
+} & EventHierarchy;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Farthest a time zone is ahead of and behind UTC, to narrow event dates down to local days in SQL
+const MAX_UTC_OFFSET_AHEAD_MS = 14 * 3_600_000;
+const MAX_UTC_OFFSET_BEHIND_MS = 12 * 3_600_000;
+
+// Columns returned for every program in list responses
+const programListColumns = {
+  ...getTableColumns(programTable),
+  hymnCount: sql<number>`(select count(*) from ${programHymnTable} where ${programHymnTable.programId} = ${programTable.id})`.mapWith(Number),
+  event: {
+    id: eventTable.id,
+    title: eventTable.title,
+    eventDate: eventTable.eventDate,
+    eventType: eventTable.eventType,
+  },
+  service: {
+    id: serviceTable.id,
+    name: serviceTable.name,
+  },
+  ministry: {
+    id: ministryTable.id,
+    name: ministryTable.name,
+  },
+  church: {
+    id: churchTable.id,
+    name: churchTable.name,
+    timezone: churchTable.timezone,
+  },
+};
+
+function organizationScope(organizationId: string): SQL[] {
+  return [
+    eq(churchTable.organizationId, organizationId),
+    isNull(churchTable.deletedAt),
+  ];
+}
+
+/**
+ * Find a program together with its event, service, ministry and church, if it belongs to the organization
+ */
+export async function findProgramInOrganization(
+  programId: number,
+  organizationId: string,
+): Promise<ProgramHierarchy | null> {
+  const [row] = await db
+    .select({
+      program: programTable,
+      event: eventTable,
+      service: serviceTable,
+      ministry: ministryTable,
+      church: churchTable,
+    })
+    .from(programTable)
+    .innerJoin(eventTable, eq(programTable.eventId, eventTable.id))
+    .innerJoin(serviceTable, eq(eventTable.serviceId, serviceTable.id))
+    .innerJoin(ministryTable, eq(serviceTable.ministryId, ministryTable.id))
+    .innerJoin(churchTable, eq(ministryTable.churchId, churchTable.id))
+    .where(and(
+      eq(programTable.id, programId),
+      ...organizationScope(organizationId),
+    ))
+    .limit(1);
+
+  return row ?? null;
+}
+
+function programFilterConditions(organizationId: string, filters: ProgramFilters): SQL[] {
+  const conditions = organizationScope(organizationId);
+
+  if (filters.status) {
+    conditions.push(eq(programTable.status, filters.status));
+  }
+  if (filters.eventIds?.length) {
+    conditions.push(inArray(programTable.eventId, filters.eventIds));
+  }
+  if (filters.createdBy) {
+    conditions.push(eq(programTable.createdBy, filters.createdBy));
+  }
+  if (filters.approvedBy) {
+    conditions.push(eq(programTable.approvedBy, filters.approvedBy));
+  }
+  if (filters.dateRange) {
+    // Programs of an occurrence are dated by the occurrence, the others by the day of their event
+    // in the church's time zone: this keeps the events within the range in any time zone, and
+    // the listing then those within it in their church's (see getProgramDateKey)
+    const { start, end } = filters.dateRange;
+    conditions.push(or(
+      and(
+        isNotNull(programTable.occurrenceDate),
+        gte(programTable.occurrenceDate, start),
+        lte(programTable.occurrenceDate, end),
+      ),
+      and(
+        isNull(programTable.occurrenceDate),
+        gte(eventTable.eventDate, new Date(Date.parse(start) - MAX_UTC_OFFSET_AHEAD_MS)),
+        lt(eventTable.eventDate, new Date(Date.parse(end) + 24 * 3_600_000 + MAX_UTC_OFFSET_BEHIND_MS)),
+      ),
+    )!);
+  }
+
+  return conditions;
+}
+
+/**
+ * The local date a program is for: its occurrence, or the day of its event in the church's time zone
+ */
+export function getProgramDateKey(program: {
+  occurrenceDate: string | null;
+  event: { eventDate: Date };
+  church: { timezone: string | null };
+}): string {
+  return program.occurrenceDate ?? toLocalDateKey(program.event.eventDate, normalizeTimeZone(program.church.timezone));
+}
+
+/**
+ * List programs of an organization matching the given filters, most recently updated first
+ */
+export async function listProgramsForOrganization(
+  organizationId: string,
+  filters: ProgramFilters = {},
+) {
+  const programs = await db
+    .select(programListColumns)
+    .from(programTable)
+    .innerJoin(eventTable, eq(programTable.eventId, eventTable.id))
+    .innerJoin(serviceTable, eq(eventTable.serviceId, serviceTable.id))
+    .innerJoin(ministryTable, eq(serviceTable.ministryId, ministryTable.id))
+    .innerJoin(churchTable, eq(ministryTable.churchId, churchTable.id))
+    .where(and(...programFilterConditions(organizationId, filters)))
+    .orderBy(desc(programTable.updatedAt));
+  const { dateRange } = filters;
+
+  return dateRange
+    ? programs.filter((program) => {
+        const date = getProgramDateKey(program);
+        return date >= dateRange.start && date <= dateRange.end;
+      })
+    : programs;
+}
+
+export type ProgramListItem = Awaited<ReturnType<typeof listProgramsForOrganization>>[number];
+
+/**
+ * List the hymn entries of a program in program order, with the hymn they refer to
+ */
+export async function listProgramHymns(programId: number) {
+  return db
+    .select({
+      ...getTableColumns(programHymnTable),
+      hymn: {
+        id: hymnTable.id,
+        title: hymnTable.title,
+        author: hymnTable.author,
+        composer: hymnTable.composer,
+      },
+    })
+    .from(programHymnTable)
+    .innerJoin(hymnTable, eq(programHymnTable.hymnId, hymnTable.id))
+    .where(eq(programHymnTable.programId, programId))
+    .orderBy(asc(programHymnTable.orderIndex));
+}
+
+export type ProgramHymnItem = Awaited<ReturnType<typeof listProgramHymns>>[number];
+
+/**
+ * List the hymn entries of a program in program order, with the lyrics and audio files of their hymn
+ */
+export async function listProgramHymnsWithLyrics(programId: number) {
+  return db
+    .select({
+      ...getTableColumns(programHymnTable),
+      hymn: {
+        id: hymnTable.id,
+        title: hymnTable.title,
+        author: hymnTable.author,
+        composer: hymnTable.composer,
+        lyrics: hymnTable.lyrics,
+        audioFiles: hymnTable.audioFiles,
+      },
+    })
+    .from(programHymnTable)
+    .innerJoin(hymnTable, eq(programHymnTable.hymnId, hymnTable.id))
+    .where(eq(programHymnTable.programId, programId))
+    .orderBy(asc(programHymnTable.orderIndex));
+}
+
+/**
+ * List the program-wide role assignments of a program, in the order they were made
+ */
+export async function listProgramAssignments(programId: number) {
+  return db
+    .select()
+    .from(programAssignmentTable)
+    .where(eq(programAssignmentTable.programId, programId))
+    .orderBy(asc(programAssignmentTable.id));
+}
+
+/**
+ * List where the given hymns were sung in the organization's programs, leaving out one program.
+ * Only programs of events that started by `until` can fall before that date.
+ */
+export async function listHymnUses(
+  hymnIds: number[],
+  organizationId: string,
+  options: { excludeProgramId: number; until: Date },
+) {
+  if (hymnIds.length === 0) {
+    return [];
+  }
+
+  return db
+    .select({
+      hymnId: programHymnTable.hymnId,
+      hymnTitle: hymnTable.title,
+      programId: programTable.id,
+      programTitle: programTable.title,
+      occurrenceDate: programTable.occurrenceDate,
+      eventDate: eventTable.eventDate,
+      timezone: churchTable.timezone,
+    })
+    .from(programHymnTable)
+    .innerJoin(hymnTable, eq(programHymnTable.hymnId, hymnTable.id))
+    .innerJoin(programTable, eq(programHymnTable.programId, programTable.id))
+    .innerJoin(eventTable, eq(programTable.eventId, eventTable.id))
+    .innerJoin(serviceTable, eq(eventTable.serviceId, serviceTable.id))
+    .innerJoin(ministryTable, eq(serviceTable.ministryId, ministryTable.id))
+    .innerJoin(churchTable, eq(ministryTable.churchId, churchTable.id))
+    .where(and(
+      inArray(programHymnTable.hymnId, [...new Set(hymnIds)]),
+      ne(programTable.id, options.excludeProgramId),
+      lte(eventTable.eventDate, options.until),
+      ...organizationScope(organizationId),
+    ));
+}
+
+export type HymnUse = Awaited<ReturnType<typeof listHymnUses>>[number];
+
+/**
+ * Return the hymn IDs the organization cannot use: unknown hymns, or hymns of another
+ * organization that are neither official nor public
+ */
+export async function findUnavailableHymnIds(hymnIds: number[], organizationId: string): Promise<number[]> {
+  const uniqueIds = [...new Set(hymnIds)];
+
+  if (uniqueIds.length === 0) {
+    return [];
+  }
+
+  const available = await db
+    .select({ id: hymnTable.id })
+    .from(hymnTable)
+    .where(and(
+      inArray(hymnTable.id, uniqueIds),
+      or(
+        eq(hymnTable.organizationId, organizationId),
+        eq(hymnTable.hymnType, 'official'),
+        eq(hymnTable.hymnType, 'public'),
+        eq(hymnTable.isPublic, true),
+      ),
+    ));
+  const availableIds = new Set(available.map(hymn => hymn.id));
+
+  return uniqueIds.filter(id => !availableIds.has(id));
+}
+
+async function replaceProgramHymns(tx: Transaction, programId: number, hymns: ProgramHymnInput[]): Promise<void> {
+  await tx
+    .delete(programHymnTable)
+    .where(eq(programHymnTable.programId, programId));
+
+  if (hymns.length > 0) {
+    await tx
+      .insert(programHymnTable)
+      .values(hymns.map((hymn, orderIndex) => ({ ...hymn, programId, orderIndex })));
+  }
+}
+
+/**
+ * Record the program's markdown as it stands after a write, under the program's version number
+ */
+export async function recordProgramVersion(tx: Transaction, program: ProgramRecord, version: ProgramVersionInput): Promise<void> {
+  if (program.markdownContent === null) {
+    return;
+  }
+
+  await tx
+    .insert(versionTable)
+    .values({
+      programId: program.id,
+      versionNumber: program.versionNumber,
+      markdownContent: program.markdownContent,
+      changeType: version.changeType,
+      changeDescription: version.changeDescription ?? null,
+      changedBy: version.changedBy,
+    });
+}
+
+/**
+ * Create a program with its hymn entries, its program-wide assignments and the notifications
+ * of their assignees and, when it starts with markdown, its first version
+ */
+export async function createProgram(
+  values: typeof programTable.$inferInsert,
+  hymns: ProgramHymnInput[],
+  version?: ProgramVersionInput,
+  assignments: ProgramAssignmentInput[] = [],
+  notifications: ProgramNotificationInput[] = [],
+): Promise<ProgramRecord> {
+  return db.transaction(async (tx) => {
+    const [program] = await tx
+      .insert(programTable)
+      .values(values)
+      .returning();
+
+    await replaceProgramHymns(tx, program!.id, hymns);
+
+    if (assignments.length > 0) {
+      await tx
+        .insert(programAssignmentTable)
+        .values(assignments.map(assignment => ({ ...assignment, programId: program!.id })));
+    }
+
+    if (notifications.length > 0) {
+      await tx
+        .insert(notificationTable)
+        .values(notifications.map(notification => ({
+          ...notification,
+          relatedEntityType: 'program',
+          relatedEntityId: program!.id,
+        })));
+    }
+
+    if (version) {
+      await recordProgramVersion(tx, program!, version);
+    }
+
+    return program!;
+  });
+}
+
+// Write program changes where `condition` matches; null when no program does
+async function writeProgram(
+  programId: number,
+  condition: SQL | undefined,
+  changes: Partial<typeof programTable.$inferInsert>,
+  hymns?: ProgramHymnInput[],
+  version?: ProgramVersionInput,
+): Promise<ProgramRecord | null> {
+  return db.transaction(async (tx) => {
+    const [program] = await tx
+      .update(programTable)
+      .set(changes)
+      .where(and(eq(programTable.id, programId), condition))
+      .returning();
+
+    if (!program) {
+      return null;
+    }
+
+    if (hymns) {
+      await replaceProgramHymns(tx, programId, hymns);
+    }
+
+    if (version) {
+      await recordProgramVersion(tx, program, version);
+    }
+
+    return program;
+  });
+}
+
+/**
+ * Update a program and, when given, replace its hymn entries. `version` records the updated
+ * markdown in the version history.
+ */
+export async function updateProgram(
+  programId: number,
+  changes: Partial<typeof programTable.$inferInsert>,
+  hymns?: ProgramHymnInput[],
+  version?: ProgramVersionInput,
+): Promise<ProgramRecord> {
+  return (await writeProgram(programId, undefined, changes, hymns, version))!;
+}
+
+/**
+ * Update a program that is still at `expectedVersion`, moving it to the next version. Returns
+ * null when someone else updated the program first, so stale edits never overwrite theirs.
+ */
+export async function updateProgramAtVersion(
+  programId: number,
+  expectedVersion: number,
+  changes: Partial<typeof programTable.$inferInsert>,
+  hymns?: ProgramHymnInput[],
+  version?: ProgramVersionInput,
+): Promise<ProgramRecord | null> {
+  return writeProgram(
+    programId,
+    eq(programTable.versionNumber, expectedVersion),
+    { ...changes, versionNumber: expectedVersion + 1 },
+    hymns,
+    version,
+  );
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { LiveEvent } from './ProgramRealtime';
+import {
+  getPresence,
+  getSessionMarkdown,
+  isConnected,
+  joinProgramChannel,
+  markSessionSaved,
+  publishProgramUpdate,
+  submitMarkdownOperation,
+  touchPresence,
+  updatePresence,
+} from './ProgramRealtime';
+import { createOperation } from './TextOperation';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+const markdown = '# Easter\nHymn: Doxology\n';
+const now = new Date();
+
+// Each test works on its own program, as channels outlive the test
+function join(programId: number, connectionId: string, userId = 'user-123') {
+  const events: LiveEvent[] = [];
+  const leave = joinProgramChannel(programId, connectionId, userId, markdown, event => events.push(event), now);
+
+  return { events, leave };
+}
+
+const program = (id: number, markdownContent: string) => ({ id, markdownContent, versionNumber: 4 }) as any;
+
+describe('ProgramRealtime', () => {
+  it('sends a snapshot on joining and tells the others who is here', () => {
+    const ana = join(1, 'ana', 'user-ana');
+    const ben = join(1, 'ben', 'user-ben');
+
+    expect(ben.events[0]).toEqual({
+      type: 'snapshot',
+      connectionId: 'ben',
+      revision: 0,
+      markdown,
+      presence: [
+        { connectionId: 'ana', userId: 'user-ana', sectionId: null, updatedAt: now.toISOString() },
+        { connectionId: 'ben', userId: 'user-ben', sectionId: null, updatedAt: now.toISOString() },
+      ],
+    });
+    expect(ana.events.at(-1)).toMatchObject({ type: 'presence', presence: [{ userId: 'user-ana' }, { userId: 'user-ben' }] });
+    expect(isConnected(1, 'ben', 'user-ben')).toBe(true);
+    expect(isConnected(1, 'ben', 'user-ana')).toBe(false);
+
+    ben.leave();
+
+    expect(ana.events.at(-1)).toMatchObject({ type: 'presence', presence: [{ userId: 'user-ana' }] });
+    expect(isConnected(1, 'ben', 'user-ben')).toBe(false);
+  });
+
+  it('broadcasts the section being edited and drops stale presence', () => {
+    const ana = join(2, 'ana', 'user-ana');
+
+    updatePresence(2, 'ana', 'offering', now);
+
+    expect(ana.events.at(-1)).toMatchObject({ type: 'presence', presence: [{ sectionId: 'offering' }] });
+    expect(getPresence(2, new Date(now.getTime() + 5 * 60_000))).toEqual([]);
+  });
+
+  it('keeps the presence of connections that are still open', () => {
+    join(8, 'ana', 'user-ana');
+
+    touchPresence(8, 'ana', new Date(now.getTime() + 4 * 60_000));
+
+    expect(getPresence(8, new Date(now.getTime() + 5 * 60_000))).toMatchObject([{ userId: 'user-ana', sectionId: null }]);
+  });
+
+  it('transforms concurrent markdown operations so editors converge', () => {
+    const ana = join(3, 'ana', 'user-ana');
+    join(3, 'ben', 'user-ben');
+
+    expect(submitMarkdownOperation(3, 'ana', 0, createOperation(markdown, '# Easter Sunday\nHymn: Doxology\n')))
+      .toEqual({ revision: 1 });
+    // Ben edited revision 0 too, before seeing Ana's change
+    expect(submitMarkdownOperation(3, 'ben', 0, createOperation(markdown, '# Easter\nHymn: Doxology\nSermon\n')))
+      .toEqual({ revision: 2 });
+
+    expect(getSessionMarkdown(3)).toBe('# Easter Sunday\nHymn: Doxology\nSermon\n');
+    expect(ana.events.at(-1)).toEqual({
+      type: 'markdown_operation',
+      revision: 2,
+      operation: [31, 'Sermon\n'],
+      userId: 'user-ben',
+      connectionId: 'ben',
+    });
+  });
+
+  it('rejects operations that do not fit the markdown', () => {
+    join(4, 'ana');
+
+    expect(submitMarkdownOperation(4, 'ana', 1, [markdown.length])).toMatchObject({ status: 409 });
+    expect(submitMarkdownOperation(4, 'ana', 0, [3, 'x'])).toMatchObject({ status: 400 });
+    expect(submitMarkdownOperation(4, 'eve', 0, [markdown.length])).toMatchObject({ status: 409 });
+  });
+
+  it('keeps unsaved markdown for the next editor', () => {
+    const ana = join(5, 'ana');
+    submitMarkdownOperation(5, 'ana', 0, createOperation(markdown, `${markdown}Sermon\n`));
+    ana.leave();
+
+    const ben = join(5, 'ben');
+
+    expect(ben.events[0]).toMatchObject({ type: 'snapshot', revision: 1, markdown: `${markdown}Sermon\n` });
+  });
+
+  it('merges markdown saved elsewhere into the unsaved session', () => {
+    const ana = join(6, 'ana');
+    submitMarkdownOperation(6, 'ana', 0, createOperation(markdown, `${markdown}Sermon\n`));
+
+    publishProgramUpdate(program(6, '# Easter Sunday\nHymn: Doxology\n'), 'user-456');
+
+    expect(ana.events.slice(-2)).toEqual([
+      { type: 'markdown_reset', revision: 2, markdown: '# Easter Sunday\nHymn: Doxology\nSermon\n' },
+      { type: 'program_updated', program: program(6, '# Easter Sunday\nHymn: Doxology\n'), updatedBy: 'user-456' },
+    ]);
+  });
+
+  it('keeps the session when its own markdown is saved', () => {
+    const ana = join(7, 'ana');
+    const edited = `${markdown}Sermon\n`;
+    submitMarkdownOperation(7, 'ana', 0, createOperation(markdown, edited));
+
+    markSessionSaved(7, edited);
+    publishProgramUpdate(program(7, edited), 'user-123');
+
+    expect(ana.events.at(-1)).toMatchObject({ type: 'program_updated' });
+    expect(ana.events.some(event => event.type === 'markdown_reset')).toBe(false);
+
+    // Saves that leave the markdown alone keep the session too
+    publishProgramUpdate(program(7, edited), 'user-456');
+
+    expect(ana.events.some(event => event.type === 'markdown_reset')).toBe(false);
+  });
+});
@@ -0,0 +1,271 @@
+import type { ProgramRecord } from './ProgramQueries';
+import { mergeProgramMarkdown } from './ProgramVersions';
+import type { TextOperation } from './TextOperation';
+import { applyOperation, getBaseLength, transformOperations } from './TextOperation';
+
+/**
+ * Live collaboration on programs. Editors of a program subscribe to its channel (served as
+ * server-sent events) and receive saved program changes, who is editing which section, and
+ * the operations of a shared markdown session that every editor converges on.
+ *
+ * Channels and sessions live in the memory of the server process, so collaborators of a
+ * program must reach the same long-running server. The shared markdown is only written to the
+ * program when an editor saves it; until then it survives in the session.
+ */
+
+// Operations kept per session; clients behind the oldest one must reload the markdown
+const MAX_SESSION_HISTORY = 500;
+
+// Presence not refreshed for this long is dropped, in case a connection closed without notice.
+// Open connections refresh it with every keep-alive and operation.
+export const PRESENCE_TTL_MS = 2 * 60_000;
+
+export type PresenceEntry = {
+  connectionId: string;
+  userId: string;
+  sectionId: string | null; // The section being edited, or null when just viewing
+  updatedAt: string;
+};
+
+export type LiveEvent =
+  | { type: 'snapshot'; connectionId: string; revision: number; markdown: string; presence: PresenceEntry[] }
+  | { type: 'presence'; presence: PresenceEntry[] }
+  | { type: 'markdown_operation'; revision: number; operation: TextOperation; userId: string; connectionId: string }
+  | { type: 'markdown_reset'; revision: number; markdown: string }
+  | { type: 'program_updated'; program: ProgramRecord; updatedBy: string };
+
+type Connection = {
+  userId: string;
+  send: (event: LiveEvent) => void;
+  presence: PresenceEntry;
+};
+
+type MarkdownSession = {
+  text: string;
+  revision: number;
+  history: TextOperation[]; // Operations that produced revisions revision - history.length + 1 to revision
+  saved: string; // The program's markdown the session last started from or saved
+};
+
+type ProgramChannel = {
+  connections: Map<string, Connection>;
+  session: MarkdownSession | null;
+};
+
+export type OperationResult =
+  | { revision: number }
+  | { error: string; status: 400 | 409 };
+
+const channels = new Map<number, ProgramChannel>();
+
+function getChannel(programId: number): ProgramChannel {
+  let channel = channels.get(programId);
+
+  if (!channel) {
+    channel = { connections: new Map(), session: null };
+    channels.set(programId, channel);
+  }
+
+  return channel;
+}
+
+function broadcast(channel: ProgramChannel, event: LiveEvent) {
+  for (const connection of channel.connections.values()) {
+    connection.send(event);
+  }
+}
+
+/**
+ * The presence of the program's editors, without entries that went stale
+ */
+export function getPresence(programId: number, now = new Date()): PresenceEntry[] {
+  const channel = channels.get(programId);
+
+  if (!channel) {
+    return [];
+  }
+
+  return [...channel.connections.values()]
+    .map(connection => connection.presence)
+    .filter(entry => now.getTime() - Date.parse(entry.updatedAt) < PRESENCE_TTL_MS);
+}
+
+/**
+ * Join the channel of a program. The markdown session starts from `markdown` unless editors
+ * already share one. Returns the function that leaves the channel.
+ */
+export function joinProgramChannel(
+  programId: number,
+  connectionId: string,
+  userId: string,
+  markdown: string | null,
+  send: (event: LiveEvent) => void,
+  now = new Date(),
+): () => void {
+  const channel = getChannel(programId);
+  channel.session ??= { text: markdown ?? '', revision: 0, history: [], saved: markdown ?? '' };
+  channel.connections.set(connectionId, {
+    userId,
+    send,
+    presence: { connectionId, userId, sectionId: null, updatedAt: now.toISOString() },
+  });
+
+  send({
+    type: 'snapshot',
+    connectionId,
+    revision: channel.session.revision,
+    markdown: channel.session.text,
+    presence: getPresence(programId, now),
+  });
+  broadcast(channel, { type: 'presence', presence: getPresence(programId, now) });
+
+  return () => {
+    channel.connections.delete(connectionId);
+
+    if (channel.connections.size > 0) {
+      broadcast(channel, { type: 'presence', presence: getPresence(programId) });
+    } else if (!channel.session || channel.session.text === channel.session.saved) {
+      // Keep sessions with unsaved edits for the next editor
+      channels.delete(programId);
+    }
+  };
+}
+
+/**
+ * Whether a connection of the user is open on the program's channel
+ */
+export function isConnected(programId: number, connectionId: string, userId: string): boolean {
+  return channels.get(programId)?.connections.get(connectionId)?.userId === userId;
+}
+
+/**
+ * Record which section a connection is editing and tell the other editors
+ */
+export function updatePresence(programId: number, connectionId: string, sectionId: string | null, now = new Date()) {
+  const channel = channels.get(programId);
+  const connection = channel?.connections.get(connectionId);
+
+  if (!channel || !connection) {
+    return;
+  }
+
+  connection.presence = { ...connection.presence, sectionId, updatedAt: now.toISOString() };
+  broadcast(channel, { type: 'presence', presence: getPresence(programId, now) });
+}
+
+/**
+ * Record that a connection is still open, without telling the other editors
+ */
+export function touchPresence(programId: number, connectionId: string, now = new Date()) {
+  const connection = channels.get(programId)?.connections.get(connectionId);
+
+  if (connection) {
+    connection.presence = { ...connection.presence, updatedAt: now.toISOString() };
+  }
+}
+
+/**
+ * Apply an editor's operation on the shared markdown, made at `revision`, and broadcast it
+ * transformed over the operations the editor had not seen yet
+ */
+export function submitMarkdownOperation(
+  programId: number,
+  connectionId: string,
+  revision: number,
+  operation: TextOperation,
+): OperationResult {
+  const channel = channels.get(programId);
+  const connection = channel?.connections.get(connectionId);
+  const session = channel?.session;
+
+  if (!channel || !connection || !session) {
+    return { error: 'Not connected to the program', status: 409 };
+  }
+
+  const missed = session.revision - revision;
+
+  if (revision > session.revision || missed > session.history.length) {
+    return { error: 'The markdown changed too much since that revision, reload it and try again', status: 409 };
+  }
+
+  let transformed = operation;
+  for (const concurrent of session.history.slice(session.history.length - missed)) {
+    if (getBaseLength(transformed) !== getBaseLength(concurrent)) {
+      return { error: 'The operation does not match the markdown at that revision', status: 400 };
+    }
+    [transformed] = transformOperations(transformed, concurrent);
+  }
+
+  if (getBaseLength(transformed) !== session.text.length) {
+    return { error: 'The operation does not match the markdown at that revision', status: 400 };
+  }
+
+  touchPresence(programId, connectionId);
+  session.text = applyOperation(session.text, transformed);
+  session.revision++;
+  session.history.push(transformed);
+  if (session.history.length > MAX_SESSION_HISTORY) {
+    session.history.shift();
+  }
+
+  broadcast(channel, {
+    type: 'markdown_operation',
+    revision: session.revision,
+    operation: transformed,
+    userId: connection.userId,
+    connectionId,
+  });
+
+  return { revision: session.revision };
+}
+
+/**
+ * The shared markdown of a program, when editors have a session open
+ */
+export function getSessionMarkdown(programId: number): string | null {
+  return channels.get(programId)?.session?.text ?? null;
+}
+
+/**
+ * Record that the shared markdown, as it was, has been saved as the program's markdown. Edits
+ * made while it was saving stay in the session, unsaved.
+ */
+export function markSessionSaved(programId: number, markdown: string) {
+  const session = channels.get(programId)?.session;
+
+  if (session) {
+    session.saved = markdown;
+  }
+}
+
+/**
+ * Tell the editors of a program it was saved. When its markdown was changed outside the shared
+ * session, the session restarts from that markdown merged with the session's unsaved edits.
+ */
+export function publishProgramUpdate(program: ProgramRecord, updatedBy: string) {
+  const channel = channels.get(program.id);
+
+  if (!channel) {
+    return;
+  }
+
+  const { session } = channel;
+  const markdown = program.markdownContent ?? '';
+
+  if (session && session.text === markdown) {
+    session.saved = markdown;
+  } else if (session && session.saved !== markdown) {
+    const text = session.text === session.saved
+      ? markdown
+      : mergeProgramMarkdown(session.saved, session.text, markdown).text;
+
+    channel.session = { text, revision: session.revision + 1, history: [], saved: markdown };
+    broadcast(channel, { type: 'markdown_reset', revision: channel.session.revision, markdown: text });
+  }
+
+  broadcast(channel, { type: 'program_updated', program, updatedBy });
+
+  if (channel.connections.size === 0 && channel.session?.text === channel.session?.saved) {
+    channels.delete(program.id);
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { applyTemplate, getTemplateHymnIds, MAX_TEMPLATE_SECTIONS, validateTemplateInput, validateTemplateSections } from './ProgramTemplates';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+const sections = [
+  { type: 'hymn', title: 'Doxology', hymnId: 8, estimatedDuration: 2 },
+  { type: 'prayer', title: 'Opening Prayer' },
+  { type: 'other', title: 'Scripture Reading', notes: 'Lectionary', roles: ['Reader', ' '] },
+];
+
+describe('ProgramTemplates', () => {
+  describe('validateTemplateInput', () => {
+    it('requires a name and sections on create', () => {
+      expect(validateTemplateInput({ name: 'Sunday Morning' }).error).toBe('name and sections are required');
+      expect(validateTemplateInput({ name: 'Sunday Morning' }, { partial: true }).error).toBeUndefined();
+    });
+
+    it('parses organization-wide and ministry templates', () => {
+      expect(validateTemplateInput({ name: ' Sunday Morning ', sections: [], ministryId: null }).data)
+        .toEqual({ name: 'Sunday Morning', sections: [], ministryId: null });
+      expect(validateTemplateInput({ ministryId: '3' }, { partial: true }).data).toEqual({ ministryId: 3 });
+      expect(validateTemplateInput({ ministryId: 'youth' }, { partial: true }).error)
+        .toBe('ministryId must be a positive integer');
+    });
+  });
+
+  describe('validateTemplateSections', () => {
+    it('keeps the sections in order with their defaults', () => {
+      expect(validateTemplateSections(sections).data).toEqual([
+        { type: 'hymn', title: 'Doxology', hymnId: 8, estimatedDuration: 2 },
+        { type: 'prayer', title: 'Opening Prayer' },
+        { type: 'other', title: 'Scripture Reading', notes: 'Lectionary', roles: ['Reader'] },
+      ]);
+    });
+
+    it('only fixes hymns on hymn sections', () => {
+      expect(validateTemplateSections([{ type: 'prayer', title: 'Prayer', hymnId: 8 }]).error)
+        .toBe('sections[0].hymnId must be a hymn ID on a hymn section');
+    });
+
+    it('rejects unknown section types', () => {
+      expect(validateTemplateSections([{ type: 'dance', title: 'Dance' }]).error)
+        .toBe('sections[0].type must be one of: hymn, prayer, announcement, offering, sermon, other');
+    });
+
+    it(`allows at most ${MAX_TEMPLATE_SECTIONS} sections`, () => {
+      const many = Array.from({ length: MAX_TEMPLATE_SECTIONS + 1 }, () => ({ type: 'other', title: 'Other' }));
+
+      expect(validateTemplateSections(many).error).toBe(`A template can have at most ${MAX_TEMPLATE_SECTIONS} sections`);
+    });
+
+    it('fixes no more hymns than a program can have', () => {
+      const hymns = Array.from({ length: 26 }, (_, index) => ({ type: 'hymn', title: 'Hymn', hymnId: index + 1 }));
+
+      expect(validateTemplateSections(hymns.slice(0, 25)).data).toHaveLength(25);
+      expect(validateTemplateSections(hymns).error).toBe('A template can fix at most 25 hymns');
+    });
+  });
+
+  describe('applyTemplate', () => {
+    it('copies the sections with default durations and unfilled roles', () => {
+      let id = 0;
+      const now = new Date('2025-03-01T12:00:00.000Z');
+      const programData = applyTemplate(
+        { id: 5, sections: validateTemplateSections(sections).data! },
+        now,
+        () => `section-${++id}`,
+      );
+
+      expect(programData.sections).toEqual([
+        { id: 'section-1', type: 'hymn', title: 'Doxology', hymnId: 8, orderIndex: 0, estimatedDuration: 2 },
+        { id: 'section-2', type: 'prayer', title: 'Opening Prayer', orderIndex: 1, estimatedDuration: 5 },
+        {
+          id: 'section-3',
+          type: 'other',
+          title: 'Scripture Reading',
+          notes: 'Lectionary',
+          orderIndex: 2,
+          estimatedDuration: 5,
+          assignments: [{ userId: '', role: 'Reader' }],
+        },
+      ]);
+      expect(programData.metadata).toEqual({
+        totalEstimatedDuration: 12,
+        hymnCount: 1,
+        assignmentCount: 1,
+        lastModified: now,
+        template: '5',
+      });
+    });
+  });
+
+  it('lists the fixed hymns of a template', () => {
+    expect(getTemplateHymnIds(validateTemplateSections(sections).data!)).toEqual([8]);
+  });
+});
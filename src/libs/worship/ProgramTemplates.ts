@@ -0,0 +1,275 @@
+import { and, asc, eq, isNull, or } from 'drizzle-orm';
+
+import type { ProgramData, ProgramSection, TemplateSection } from '@/features/worship/types';
+import { db } from '@/libs/DB';
+import { programTemplatesSchema as templateTable } from '@/models/WorshipSchema';
+
+import type { ValidationResult } from './EventValidation';
+import { parsePositiveInteger } from './EventValidation';
+import { createSection, SECTION_TYPES, withSections } from './ProgramBuilder';
+import { MAX_PROGRAM_HYMNS } from './ProgramValidation';
+
+/**
+ * Program templates: ordered section skeletons shared by the programs of an organization, or
+ * of one of its ministries. Creating a program from a template copies the sections, so later
+ * changes to the template never touch existing programs.
+ */
+
+// Most sections a template can hold
+export const MAX_TEMPLATE_SECTIONS = 50;
+
+// Longest a template section can be planned for (in minutes)
+const MAX_SECTION_DURATION = 240;
+
+export type ProgramTemplateRecord = typeof templateTable.$inferSelect;
+
+export type ProgramTemplateInput = {
+  ministryId?: number | null;
+  name?: string;
+  description?: string | null;
+  sections?: TemplateSection[];
+};
+
+function parseOptionalString(raw: Record<string, unknown>, key: string, field: string): ValidationResult<string | undefined> {
+  const value = raw[key];
+
+  if (value === undefined || value === null) {
+    return { data: undefined };
+  }
+
+  if (typeof value !== 'string') {
+    return { error: `${field}.${key} must be a string` };
+  }
+
+  return { data: value.trim() || undefined };
+}
+
+/**
+ * Validate the ordered sections of a template; their order in the array is the program order
+ */
+export function validateTemplateSections(value: unknown): ValidationResult<TemplateSection[]> {
+  if (!Array.isArray(value)) {
+    return { error: 'sections must be an array' };
+  }
+
+  if (value.length > MAX_TEMPLATE_SECTIONS) {
+    return { error: `A template can have at most ${MAX_TEMPLATE_SECTIONS} sections` };
+  }
+
+  const sections: TemplateSection[] = [];
+
+  for (const [index, entry] of value.entries()) {
+    const field = `sections[${index}]`;
+
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      return { error: `${field} must be an object` };
+    }
+
+    const raw = entry as Record<string, unknown>;
+
+    if (!SECTION_TYPES.includes(raw.type as TemplateSection['type'])) {
+      return { error: `${field}.type must be one of: ${SECTION_TYPES.join(', ')}` };
+    }
+
+    const title = typeof raw.title === 'string' ? raw.title.trim() : '';
+    if (title.length < 1 || title.length > 255) {
+      return { error: `${field}.title must be between 1 and 255 characters` };
+    }
+
+    const section: TemplateSection = { type: raw.type as TemplateSection['type'], title };
+
+    if (raw.estimatedDuration !== undefined && raw.estimatedDuration !== null) {
+      const duration = parsePositiveInteger(raw.estimatedDuration);
+      if (!duration || duration > MAX_SECTION_DURATION) {
+        return { error: `${field}.estimatedDuration must be a positive number of minutes (max ${MAX_SECTION_DURATION})` };
+      }
+      section.estimatedDuration = duration;
+    }
+
+    for (const key of ['notes', 'customContent'] as const) {
+      const text = parseOptionalString(raw, key, field);
+      if (text.error !== undefined) {
+        return { error: text.error };
+      }
+      if (text.data) {
+        section[key] = text.data;
+      }
+    }
+
+    if (raw.hymnId !== undefined && raw.hymnId !== null) {
+      const hymnId = parsePositiveInteger(raw.hymnId);
+      if (!hymnId || section.type !== 'hymn') {
+        return { error: `${field}.hymnId must be a hymn ID on a hymn section` };
+      }
+      section.hymnId = hymnId;
+    }
+
+    if (raw.roles !== undefined && raw.roles !== null) {
+      if (!Array.isArray(raw.roles) || raw.roles.some(role => typeof role !== 'string' || role.trim().length > 100)) {
+        return { error: `${field}.roles must be a list of role names of at most 100 characters` };
+      }
+      const roles = (raw.roles as string[]).map(role => role.trim()).filter(Boolean);
+      if (roles.length > 0) {
+        section.roles = roles;
+      }
+    }
+
+    sections.push(section);
+  }
+
+  // Programs created from the template get an entry for each fixed hymn
+  if (sections.filter(section => section.hymnId !== undefined).length > MAX_PROGRAM_HYMNS) {
+    return { error: `A template can fix at most ${MAX_PROGRAM_HYMNS} hymns` };
+  }
+
+  return { data: sections };
+}
+
+/**
+ * Validate the body of a template create (or partial update) request
+ */
+export function validateTemplateInput(
+  body: Record<string, unknown>,
+  options: { partial?: boolean } = {},
+): ValidationResult<ProgramTemplateInput> {
+  const { partial = false } = options;
+  const data: ProgramTemplateInput = {};
+
+  if (!partial && (!body.name || body.sections === undefined)) {
+    return { error: 'name and sections are required' };
+  }
+
+  if (body.name !== undefined) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (name.length < 1 || name.length > 255) {
+      return { error: 'Template name must be between 1 and 255 characters' };
+    }
+    data.name = name;
+  }
+
+  if (body.description !== undefined) {
+    if (body.description !== null && typeof body.description !== 'string') {
+      return { error: 'description must be a string' };
+    }
+    data.description = (body.description as string | null)?.trim() || null;
+  }
+
+  if (body.ministryId !== undefined) {
+    const ministryId = body.ministryId === null ? null : parsePositiveInteger(body.ministryId);
+    if (body.ministryId !== null && !ministryId) {
+      return { error: 'ministryId must be a positive integer' };
+    }
+    data.ministryId = ministryId;
+  }
+
+  if (body.sections !== undefined) {
+    const sections = validateTemplateSections(body.sections);
+    if (sections.error !== undefined) {
+      return { error: sections.error };
+    }
+    data.sections = sections.data;
+  }
+
+  return { data };
+}
+
+/**
+ * The hymns a template fixes in its sections
+ */
+export function getTemplateHymnIds(sections: TemplateSection[]): number[] {
+  return sections.flatMap(section => (section.hymnId !== undefined ? [section.hymnId] : []));
+}
+
+/**
+ * Build the program data of a new program from a template
+ */
+export function applyTemplate(
+  template: Pick<ProgramTemplateRecord, 'id' | 'sections'>,
+  now = new Date(),
+  createId: () => string = () => crypto.randomUUID(),
+): ProgramData {
+  const sections = (template.sections as TemplateSection[]).map((entry, orderIndex): ProgramSection => {
+    const { roles, ...section } = entry;
+
+    return {
+      ...createSection(entry.type, orderIndex, createId()),
+      ...section,
+      ...(roles?.length ? { assignments: roles.map(role => ({ userId: '', role })) } : {}),
+    };
+  });
+  const programData = withSections(null, sections, now);
+
+  return {
+    ...programData,
+    metadata: { ...programData.metadata, template: template.id.toString() },
+  };
+}
+
+/**
+ * List the templates of an organization, by name. With a ministry, only the templates
+ * available to it: the organization-wide ones and its own.
+ */
+export async function listProgramTemplates(
+  organizationId: string,
+  ministryId?: number,
+): Promise<ProgramTemplateRecord[]> {
+  return db
+    .select()
+    .from(templateTable)
+    .where(and(
+      eq(templateTable.organizationId, organizationId),
+      ministryId !== undefined
+        ? or(isNull(templateTable.ministryId), eq(templateTable.ministryId, ministryId))
+        : undefined,
+    ))
+    .orderBy(asc(templateTable.name));
+}
+
+/**
+ * Find a template of the organization
+ */
+export async function findProgramTemplate(
+  templateId: number,
+  organizationId: string,
+): Promise<ProgramTemplateRecord | null> {
+  const [template] = await db
+    .select()
+    .from(templateTable)
+    .where(and(
+      eq(templateTable.id, templateId),
+      eq(templateTable.organizationId, organizationId),
+    ))
+    .limit(1);
+
+  return template ?? null;
+}
+
+export async function createProgramTemplate(
+  values: typeof templateTable.$inferInsert,
+): Promise<ProgramTemplateRecord> {
+  const [template] = await db
+    .insert(templateTable)
+    .values(values)
+    .returning();
+
+  return template!;
+}
+
+export async function updateProgramTemplate(
+  templateId: number,
+  changes: Partial<typeof templateTable.$inferInsert>,
+): Promise<ProgramTemplateRecord> {
+  const [template] = await db
+    .update(templateTable)
+    .set(changes)
+    .where(eq(templateTable.id, templateId))
+    .returning();
+
+  return template!;
+}
+
+export async function deleteProgramTemplate(templateId: number): Promise<void> {
+  await db
+    .delete(templateTable)
+    .where(eq(templateTable.id, templateId));
+}
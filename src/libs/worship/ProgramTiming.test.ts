@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { ProgramTimingSource, TimingHymnEntry } from './ProgramTiming';
+import { calculateProgramTiming, getAudioDuration, getLyricsDuration, getProgramStart } from './ProgramTiming';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+const hymn = (hymnId: number, overrides: Partial<TimingHymnEntry['hymn']> = {}, estimatedDuration: number | null = null): TimingHymnEntry => ({
+  hymnId,
+  key: null,
+  tempo: null,
+  notes: null,
+  estimatedDuration,
+  hymn: { title: `Hymn ${hymnId}`, author: null, composer: null, lyrics: null, audioFiles: null, ...overrides },
+});
+
+const lyrics = {
+  en: {
+    verses: [{ text: 'Verse 1' }, { text: 'Verse 2' }, { text: 'Verse 3' }],
+    chorus: { text: 'Chorus' },
+  },
+};
+
+const source: ProgramTimingSource = {
+  program: {
+    occurrenceDate: null,
+    programData: {
+      sections: [
+        { id: 'welcome', type: 'announcement', title: 'Welcome', orderIndex: 0, estimatedDuration: 5 },
+        { id: 'opening', type: 'hymn', title: 'Opening Hymn', orderIndex: 1, hymnId: 1 },
+        { id: 'response', type: 'hymn', title: 'Response', orderIndex: 2, hymnId: 2 },
+        { id: 'prayer', type: 'prayer', title: 'Prayer', orderIndex: 3 },
+        { id: 'sermon', type: 'sermon', title: 'He Is Risen', orderIndex: 4, estimatedDuration: 40 },
+      ],
+    },
+  },
+  event: {
+    eventDate: new Date('2025-03-02T15:00:00.000Z'),
+    duration: 60,
+    eventType: 'recurring',
+    recurringPattern: 'weekly',
+    recurringConfig: { frequency: 1 },
+  },
+  service: { defaultDuration: 75 },
+  church: { timezone: 'America/Toronto' },
+  hymns: [
+    hymn(1, { audioFiles: [{ duration: 185.4 }, { duration: 242.6 }] }),
+    hymn(2, { lyrics }),
+    hymn(3, {}, 150),
+  ],
+};
+
+describe('ProgramTiming', () => {
+  it('derives hymn durations from audio files and lyrics', () => {
+    expect(getAudioDuration([{ duration: 185.4 }, { duration: 242.6 }, { size: 10 }])).toBe(243);
+    expect(getAudioDuration('nope')).toBeNull();
+    // Three verses, each followed by the chorus
+    expect(getLyricsDuration(lyrics)).toBe(270);
+    expect(getLyricsDuration({ en: { verses: [] } })).toBeNull();
+  });
+
+  it('runs the clock from the start of the event in seconds', () => {
+    const timing = calculateProgramTiming(source);
+
+    expect(timing.sections.map(section => [section.sectionId, section.startOffset, section.duration, section.durationSource]))
+      .toEqual([
+        ['welcome', 0, 300, 'section'],
+        ['opening', 300, 243, 'audio'],
+        ['response', 543, 270, 'verses'],
+        ['prayer', 813, 300, 'default'],
+        ['sermon', 1113, 2400, 'section'],
+        [null, 3513, 150, 'hymn_entry'],
+      ]);
+    expect(timing.sections[1]!.startsAt).toEqual(new Date('2025-03-02T15:05:00.000Z'));
+    expect(timing.totalDuration).toBe(3663);
+    expect(timing.endsAt).toEqual(new Date('2025-03-02T16:01:03.000Z'));
+  });
+
+  it('warns when the program runs past the event or the service', () => {
+    expect(calculateProgramTiming(source).warnings).toEqual([
+      {
+        type: 'event_overrun',
+        limit: 60,
+        overrun: 2,
+        message: 'The program runs 2 min over the event\'s 60 minutes (62 min in total)',
+      },
+    ]);
+    expect(calculateProgramTiming({ ...source, service: { defaultDuration: 45 } }).warnings.map(warning => [warning.type, warning.overrun]))
+      .toEqual([['event_overrun', 2], ['service_overrun', 17]]);
+    expect(calculateProgramTiming({ ...source, event: { ...source.event, duration: null }, service: { defaultDuration: null } }).warnings)
+      .toEqual([]);
+  });
+
+  it('starts programs of an occurrence with that occurrence', () => {
+    const program = { ...source.program, occurrenceDate: '2025-04-20' };
+
+    // 10:00 in Toronto after the change to daylight saving time
+    expect(getProgramStart({ ...source, program }))
+      .toEqual({ startsAt: new Date('2025-04-20T14:00:00.000Z'), duration: 60 });
+    expect(getProgramStart({ ...source, program, exception: { eventDate: new Date('2025-04-20T16:00:00.000Z'), duration: 120 } }))
+      .toEqual({ startsAt: new Date('2025-04-20T16:00:00.000Z'), duration: 120 });
+  });
+});
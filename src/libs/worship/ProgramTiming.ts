@@ -0,0 +1,230 @@
+import type { AudioFile, MultiLanguageLyrics, ProgramData } from '@/features/worship/types';
+
+import { listEventExceptions } from './EventSeries';
+import { DEFAULT_SECTION_DURATIONS } from './ProgramBuilder';
+import type { MarkdownHymnEntry, RunSheetItem } from './ProgramMarkdown';
+import { buildRunSheetItems, DEFAULT_LYRICS_LANGUAGE, selectLyrics } from './ProgramMarkdown';
+import type { ProgramHierarchy } from './ProgramQueries';
+import { listProgramHymnsWithLyrics } from './ProgramQueries';
+import type { RecurrenceSource } from './RecurrenceEngine';
+import { findOccurrence } from './RecurrenceEngine';
+
+/**
+ * Timing of programs. Durations are stored in different units: sections in minutes, hymn
+ * entries in seconds, and events and services in minutes. Timing works in seconds throughout
+ * and runs a clock from the start of the program's occurrence, each section starting when the
+ * previous one ends.
+ *
+ * A section lasts its own estimated duration. Hymns without one take, in order, the duration of
+ * their hymn entry, the longest audio file of the hymn, or the time it takes to sing its lyrics;
+ * anything else falls back to the typical duration of its kind of section.
+ */
+
+// Time it takes to sing one stanza of a hymn (in seconds)
+export const SECONDS_PER_STANZA = 45;
+
+export type DurationSource = 'section' | 'hymn_entry' | 'audio' | 'verses' | 'default';
+
+export type TimingHymnEntry = MarkdownHymnEntry & {
+  hymn: MarkdownHymnEntry['hymn'] & {
+    audioFiles: unknown;
+  };
+};
+
+export type ProgramTimingSource = {
+  program: {
+    occurrenceDate: string | null;
+    programData: unknown;
+  };
+  event: RecurrenceSource & {
+    eventDate: Date;
+    duration: number | null; // Duration in minutes
+  };
+  service: {
+    defaultDuration: number | null; // Duration in minutes
+  };
+  church: {
+    timezone: string | null;
+  };
+  hymns: TimingHymnEntry[]; // In program order
+  exception?: { eventDate: Date | null; duration: number | null } | null; // Of the program's occurrence
+};
+
+export type SectionTiming = {
+  sectionId: string | null; // Null for hymn entries without a section
+  title: string;
+  startsAt: Date;
+  endsAt: Date;
+  startOffset: number; // Seconds from the start of the program
+  duration: number; // Duration in seconds
+  durationSource: DurationSource;
+};
+
+export type TimingWarning = {
+  type: 'event_overrun' | 'service_overrun';
+  limit: number; // Duration in minutes
+  overrun: number; // Minutes past the limit, rounded up
+  message: string;
+};
+
+export type ProgramTiming = {
+  startsAt: Date;
+  endsAt: Date;
+  totalDuration: number; // Duration in seconds
+  sections: SectionTiming[];
+  warnings: TimingWarning[];
+};
+
+/**
+ * The length of the longest audio file of a hymn, in whole seconds
+ */
+export function getAudioDuration(audioFiles: unknown): number | null {
+  const durations = (Array.isArray(audioFiles) ? audioFiles as AudioFile[] : [])
+    .map(file => file?.duration)
+    .filter((duration): duration is number => typeof duration === 'number' && Number.isFinite(duration) && duration > 0);
+
+  return durations.length > 0 ? Math.round(Math.max(...durations)) : null;
+}
+
+/**
+ * The time it takes to sing a hymn's lyrics: every verse, the chorus after each verse and the
+ * bridge once
+ */
+export function getLyricsDuration(lyrics: unknown): number | null {
+  const selected = selectLyrics(lyrics, DEFAULT_LYRICS_LANGUAGE);
+
+  if (!selected) {
+    return null;
+  }
+
+  const { verses, chorus, bridge } = (lyrics as MultiLanguageLyrics)[selected.language]!;
+  const stanzas = verses.length * (chorus ? 2 : 1) + (bridge ? 1 : 0);
+
+  return stanzas * SECONDS_PER_STANZA;
+}
+
+/**
+ * When a program starts and the minutes its event lasts. Programs of one occurrence of a
+ * recurring event start with that occurrence, rescheduled or not.
+ */
+export function getProgramStart(
+  source: Pick<ProgramTimingSource, 'program' | 'event' | 'church' | 'exception'>,
+): { startsAt: Date; duration: number | null } {
+  const { program, event, church, exception } = source;
+  const duration = exception?.duration ?? event.duration;
+
+  if (!program.occurrenceDate) {
+    return { startsAt: event.eventDate, duration };
+  }
+
+  const startsAt = exception?.eventDate
+    ?? findOccurrence(event, program.occurrenceDate, { timeZone: church.timezone })?.start
+    ?? event.eventDate;
+
+  return { startsAt, duration };
+}
+
+function getOverrunWarning(
+  type: TimingWarning['type'],
+  subject: string,
+  limit: number | null,
+  totalDuration: number,
+): TimingWarning[] {
+  if (limit === null || totalDuration <= limit * 60) {
+    return [];
+  }
+
+  const overrun = Math.ceil((totalDuration - limit * 60) / 60);
+
+  return [{
+    type,
+    limit,
+    overrun,
+    message: `The program runs ${overrun} min over the ${subject}'s ${limit} minutes (${Math.ceil(totalDuration / 60)} min in total)`,
+  }];
+}
+
+// How long a run sheet item lasts, in seconds. Entries without a section are timed by the entry itself.
+function getItemDuration({ section, hymn }: RunSheetItem<TimingHymnEntry>): Pick<SectionTiming, 'duration' | 'durationSource'> {
+  if (section.id && section.estimatedDuration) {
+    return { duration: section.estimatedDuration * 60, durationSource: 'section' };
+  }
+  if (hymn?.estimatedDuration) {
+    return { duration: hymn.estimatedDuration, durationSource: 'hymn_entry' };
+  }
+
+  const audio = hymn ? getAudioDuration(hymn.hymn.audioFiles) : null;
+  if (audio) {
+    return { duration: audio, durationSource: 'audio' };
+  }
+
+  const lyrics = hymn ? getLyricsDuration(hymn.hymn.lyrics) : null;
+  if (lyrics) {
+    return { duration: lyrics, durationSource: 'verses' };
+  }
+
+  return { duration: DEFAULT_SECTION_DURATIONS[section.type] * 60, durationSource: 'default' };
+}
+
+/**
+ * Run the clock of a program over its sections, then its hymn entries without a section, and
+ * warn when it runs past the event's duration or the service's default duration
+ */
+export function calculateProgramTiming(source: ProgramTimingSource): ProgramTiming {
+  const programData = source.program.programData as ProgramData | null;
+  const { startsAt, duration } = getProgramStart(source);
+  let elapsed = 0;
+
+  const sections = buildRunSheetItems(programData?.sections ?? [], source.hymns).map((item): SectionTiming => {
+    const { duration: seconds, durationSource } = getItemDuration(item);
+    const startOffset = elapsed;
+    elapsed += seconds;
+
+    return {
+      sectionId: item.section.id ?? null,
+      title: item.section.title,
+      startsAt: new Date(startsAt.getTime() + startOffset * 1000),
+      endsAt: new Date(startsAt.getTime() + elapsed * 1000),
+      startOffset,
+      duration: seconds,
+      durationSource,
+    };
+  });
+
+  return {
+    startsAt,
+    endsAt: new Date(startsAt.getTime() + elapsed * 1000),
+    totalDuration: elapsed,
+    sections,
+    warnings: [
+      ...getOverrunWarning('event_overrun', 'event', duration, elapsed),
+      ...getOverrunWarning('service_overrun', 'service', source.service.defaultDuration, elapsed),
+    ],
+  };
+}
+
+/**
+ * Load the exception of a program's occurrence, if it was rescheduled or changed
+ */
+export async function loadProgramException({ program, event }: ProgramHierarchy): Promise<ProgramTimingSource['exception']> {
+  if (!program.occurrenceDate) {
+    return null;
+  }
+
+  const exceptions = await listEventExceptions(event.id);
+
+  return exceptions.find(other =>
+    other.occurrenceDate === program.occurrenceDate && other.exceptionType !== 'skipped') ?? null;
+}
+
+/**
+ * Load the hymns and occurrence exception of a program and time it
+ */
+export async function loadProgramTiming(hierarchy: ProgramHierarchy): Promise<ProgramTiming> {
+  const [hymns, exception] = await Promise.all([
+    listProgramHymnsWithLyrics(hierarchy.program.id),
+    loadProgramException(hierarchy),
+  ]);
+
+  return calculateProgramTiming({ ...hierarchy, hymns, exception });
+}
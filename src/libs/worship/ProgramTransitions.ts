@@ -0,0 +1,170 @@
+import { and, asc, desc, eq } from 'drizzle-orm';
+
+import { getOrganizationWorshipUsers } from '@/lib/worship-role-management';
+import { WorshipRolePermissions } from '@/lib/worship-role-utils';
+import { db } from '@/libs/DB';
+import {
+  notificationsSchema as notificationTable,
+  programStatusTransitionsSchema as transitionTable,
+  worshipProgramsSchema as programTable,
+} from '@/models/WorshipSchema';
+
+import type { PublishedMarkdown } from './ProgramMarkdown';
+import type { ProgramHierarchy, ProgramRecord } from './ProgramQueries';
+import { recordProgramVersion } from './ProgramQueries';
+import type { ProgramAction, TransitionInput } from './ProgramWorkflow';
+import { PROGRAM_TRANSITIONS } from './ProgramWorkflow';
+
+/**
+ * Applies workflow actions to programs. Every transition is kept as an audit trail row with
+ * who made it and why, and announced to the people it concerns in the same transaction.
+ */
+
+export type ProgramTransitionRecord = typeof transitionTable.$inferSelect;
+
+type TransitionNotification = {
+  userId: string;
+  type: string;
+  title: string;
+  message: string;
+};
+
+/**
+ * List the status transitions of a program, oldest first
+ */
+export async function listProgramTransitions(programId: number): Promise<ProgramTransitionRecord[]> {
+  return db
+    .select()
+    .from(transitionTable)
+    .where(eq(transitionTable.programId, programId))
+    .orderBy(asc(transitionTable.createdAt), asc(transitionTable.id));
+}
+
+// The user who last submitted the program for review, or its author when it never was
+async function findSubmitter(program: ProgramRecord): Promise<string> {
+  const [submission] = await db
+    .select({ performedBy: transitionTable.performedBy })
+    .from(transitionTable)
+    .where(and(eq(transitionTable.programId, program.id), eq(transitionTable.action, 'submit')))
+    .orderBy(desc(transitionTable.createdAt), desc(transitionTable.id))
+    .limit(1);
+
+  return submission?.performedBy ?? program.createdBy;
+}
+
+// Submissions go to the approvers, decisions back to the submitter; nobody is told about their own action
+async function getTransitionNotifications(
+  program: ProgramRecord,
+  organizationId: string,
+  input: TransitionInput,
+  performedBy: string,
+): Promise<TransitionNotification[]> {
+  if (input.action === 'submit') {
+    const users = await getOrganizationWorshipUsers(organizationId);
+
+    return users
+      .filter(user => user.userId !== performedBy && WorshipRolePermissions.canApproveProgram(user.worshipRole))
+      .map(user => ({
+        userId: user.userId,
+        type: 'approval_request',
+        title: 'Program submitted for review',
+        message: `${program.title} is waiting for your approval${input.comment ? `: ${input.comment}` : ''}`,
+      }));
+  }
+
+  const submitter = await findSubmitter(program);
+
+  if (submitter === performedBy) {
+    return [];
+  }
+
+  const notifications: Record<Exclude<ProgramAction, 'submit'>, Omit<TransitionNotification, 'userId'>> = {
+    approve: {
+      type: 'program_approved',
+      title: 'Program approved',
+      message: `${program.title} was approved and published${input.comment ? `: ${input.comment}` : ''}`,
+    },
+    request_changes: {
+      type: 'program_changes_requested',
+      title: 'Changes requested',
+      message: `${program.title} needs changes: ${input.comment}`,
+    },
+    complete: {
+      type: 'program_update',
+      title: 'Program completed',
+      message: `${program.title} was marked completed`,
+    },
+  };
+
+  return [{ userId: submitter, ...notifications[input.action] }];
+}
+
+/**
+ * Take a workflow action on a program: move it to the next status, record the transition and
+ * notify the people concerned, all at once. Approvals store the `published` run sheet with the
+ * status, as the program's next version. Returns null when the program left the expected
+ * status, or for approvals was updated, in the meantime.
+ */
+export async function transitionProgram(
+  hierarchy: ProgramHierarchy,
+  organizationId: string,
+  input: TransitionInput,
+  performedBy: string,
+  published?: PublishedMarkdown,
+  now = new Date(),
+): Promise<ProgramRecord | null> {
+  const rule = PROGRAM_TRANSITIONS[input.action];
+  const { versionNumber } = hierarchy.program;
+  const notifications = await getTransitionNotifications(hierarchy.program, organizationId, input, performedBy);
+
+  return db.transaction(async (tx) => {
+    const [program] = await tx
+      .update(programTable)
+      .set({
+        status: rule.to,
+        ...(input.action === 'approve' ? { approvedBy: performedBy, approvedAt: now } : {}),
+        ...(input.action === 'request_changes' ? { approvedBy: null, approvedAt: null } : {}),
+        ...(published ? { ...published.changes, versionNumber: versionNumber + 1 } : {}),
+      })
+      .where(and(
+        eq(programTable.id, hierarchy.program.id),
+        eq(programTable.status, rule.from),
+        published ? eq(programTable.versionNumber, versionNumber) : undefined,
+      ))
+      .returning();
+
+    if (!program) {
+      return null;
+    }
+
+    if (published?.version) {
+      await recordProgramVersion(tx, program, published.version);
+    }
+
+    await tx
+      .insert(transitionTable)
+      .values({
+        programId: program.id,
+        action: input.action,
+        fromStatus: rule.from,
+        toStatus: rule.to,
+        comment: input.comment,
+        performedBy,
+        createdAt: now,
+      });
+
+    if (notifications.length > 0) {
+      await tx
+        .insert(notificationTable)
+        .values(notifications.map(notification => ({
+          ...notification,
+          organizationId,
+          relatedEntityType: 'program',
+          relatedEntityId: program.id,
+          actionUrl: '/dashboard/programs',
+        })));
+    }
+
+    return program;
+  });
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  MAX_PROGRAM_HYMNS,
+  parseProgramFilters,
+  parseVersionDiffParams,
+  validateProgramHymns,
+  validateProgramInput,
+  validateProgramOccurrence,
+} from './ProgramValidation';
+
+describe('ProgramValidation', () => {
+  describe('validateProgramInput', () => {
+    it('accepts a program with ordered hymn entries', () => {
+      const result = validateProgramInput({
+        eventId: '12',
+        title: '  Easter Sunday  ',
+        hymns: [
+          { hymnId: 4, key: ' G ', tempo: 'Moderato', estimatedDuration: 240 },
+          { hymnId: 9, notes: 'Last verse a cappella' },
+        ],
+      });
+
+      expect(result.error).toBeUndefined();
+      expect(result.data).toEqual({
+        eventId: 12,
+        title: 'Easter Sunday',
+        hymns: [
+          { hymnId: 4, key: 'G', tempo: 'Moderato', notes: null, estimatedDuration: 240 },
+          { hymnId: 9, key: null, tempo: null, notes: 'Last verse a cappella', estimatedDuration: null },
+        ],
+      });
+    });
+
+    it('requires an event and a title on create', () => {
+      expect(validateProgramInput({ title: 'Easter Sunday' }).error).toBe('eventId and title are required');
+      expect(validateProgramInput({ title: 'Easter Sunday' }, { partial: true }).error).toBeUndefined();
+    });
+
+    it('does not move programs to another event', () => {
+      expect(validateProgramInput({ eventId: 3 }, { partial: true }).error)
+        .toBe('Programs cannot be moved to another event');
+    });
+
+    it('leaves status changes to the approval workflow', () => {
+      expect(validateProgramInput({ status: 'published' }, { partial: true }).error)
+        .toBe('Program status changes through the approval workflow');
+    });
+
+    it('rejects invalid status and occurrence dates', () => {
+      expect(validateProgramInput({ eventId: 3, title: 'Easter Sunday', status: 'archived' }).error)
+        .toBe('status must be one of: draft, submitted, published, completed');
+      expect(validateProgramInput({ occurrenceDate: '2025-02-30' }, { partial: true }).error)
+        .toBe('occurrenceDate must be a date in YYYY-MM-DD form');
+    });
+  });
+
+  describe('validateProgramHymns', () => {
+    it(`allows at most ${MAX_PROGRAM_HYMNS} hymns`, () => {
+      const hymns = Array.from({ length: MAX_PROGRAM_HYMNS }, (_, index) => ({ hymnId: index + 1 }));
+
+      expect(validateProgramHymns(hymns).data).toHaveLength(MAX_PROGRAM_HYMNS);
+      expect(validateProgramHymns([...hymns, { hymnId: 99 }]).error)
+        .toBe('A program can have at most 25 hymns');
+    });
+
+    it('reports the invalid entry', () => {
+      expect(validateProgramHymns([{ hymnId: 1 }, { hymnId: 0 }]).error)
+        .toBe('hymns[1].hymnId must be a positive integer');
+      expect(validateProgramHymns([{ hymnId: 1, key: 'C sharp minor' }]).error)
+        .toBe('hymns[0].key must be at most 10 characters');
+      expect(validateProgramHymns([{ hymnId: 1, estimatedDuration: -30 }]).error)
+        .toContain('hymns[0].estimatedDuration');
+    });
+  });
+
+  describe('validateProgramOccurrence', () => {
+    const weekly = {
+      eventDate: new Date('2025-03-02T15:00:00.000Z'),
+      eventType: 'recurring' as const,
+      recurringPattern: 'weekly' as const,
+      recurringConfig: { frequency: 1 },
+    };
+
+    it('accepts occurrences of recurring events', () => {
+      expect(validateProgramOccurrence(weekly, '2025-03-16', 'America/Toronto')).toBeNull();
+      expect(validateProgramOccurrence(weekly, null, 'America/Toronto')).toBeNull();
+    });
+
+    it('rejects days without an occurrence and one-time events', () => {
+      expect(validateProgramOccurrence(weekly, '2025-03-17', 'America/Toronto'))
+        .toBe('occurrenceDate is not an occurrence of the event');
+      expect(validateProgramOccurrence({ ...weekly, eventType: 'one_time' }, '2025-03-02', 'America/Toronto'))
+        .toBe('occurrenceDate is only allowed for programs of recurring events');
+    });
+  });
+
+  describe('parseProgramFilters', () => {
+    it('parses status, events and date range', () => {
+      const result = parseProgramFilters(new URLSearchParams(
+        'status=draft&eventIds=1,2&startDate=2025-03-01&endDate=2025-03-31',
+      ));
+
+      expect(result.data).toEqual({
+        status: 'draft',
+        eventIds: [1, 2],
+        dateRange: { start: '2025-03-01', end: '2025-03-31' },
+      });
+    });
+
+    it('only takes calendar dates as the date range', () => {
+      expect(parseProgramFilters(new URLSearchParams('startDate=2025-03-01T00:00:00-05:00&endDate=2025-03-31')).error)
+        .toBe('startDate and endDate must be dates (YYYY-MM-DD)');
+      expect(parseProgramFilters(new URLSearchParams('startDate=2025-03-31&endDate=2025-03-01')).error)
+        .toBe('startDate must be before endDate');
+    });
+
+    it('rejects invalid event IDs', () => {
+      expect(parseProgramFilters(new URLSearchParams('eventIds=1,abc')).error)
+        .toBe('eventIds must be a comma-separated list of IDs');
+    });
+  });
+
+  describe('parseVersionDiffParams', () => {
+    it('defaults to a line diff', () => {
+      expect(parseVersionDiffParams(new URLSearchParams('from=2&to=5')).data).toEqual({ from: 2, to: 5, mode: 'line' });
+    });
+
+    it('rejects missing versions and unknown modes', () => {
+      expect(parseVersionDiffParams(new URLSearchParams('from=2')).error).toBe('from and to must be version numbers');
+      expect(parseVersionDiffParams(new URLSearchParams('from=2&to=5&mode=char')).error).toBe('mode must be one of: line, word');
+    });
+  });
+});
@@ -0,0 +1,320 @@
+import type { ProgramData, ProgramFilters, ProgramStatus } from '@/features/worship/types';
+
+import type { ValidationResult } from './EventValidation';
+import { isDateKey, parsePositiveInteger } from './EventValidation';
+import type { RecurrenceSource } from './RecurrenceEngine';
+import { findOccurrence } from './RecurrenceEngine';
+import type { DiffMode } from './TextDiff';
+import { DIFF_MODES } from './TextDiff';
+
+export const PROGRAM_STATUSES: ProgramStatus[] = ['draft', 'submitted', 'published', 'completed'];
+
+// Most hymns a single program can hold (PRD: up to 25 hymns per program)
+export const MAX_PROGRAM_HYMNS = 25;
+
+// Longest a single hymn can be planned for (in seconds)
+export const MAX_HYMN_DURATION = 60 * 60;
+
+export type ProgramHymnInput = {
+  hymnId: number;
+  key: string | null;
+  tempo: string | null;
+  notes: string | null;
+  estimatedDuration: number | null;
+};
+
+export type ProgramInput = {
+  eventId?: number;
+  templateId?: number; // Template whose sections a new program starts from
+  occurrenceDate?: string | null;
+  title?: string;
+  description?: string | null;
+  status?: ProgramStatus;
+  programData?: ProgramData | null;
+  markdownContent?: string | null;
+  changeDescription?: string | null; // Recorded with the version a markdown edit creates
+  hymns?: ProgramHymnInput[];
+};
+
+function parseOptionalText(
+  value: unknown,
+  field: string,
+  maxLength?: number,
+): ValidationResult<string | null> {
+  if (value === undefined || value === null) {
+    return { data: null };
+  }
+
+  if (typeof value !== 'string') {
+    return { error: `${field} must be a string` };
+  }
+
+  const text = value.trim();
+
+  if (maxLength !== undefined && text.length > maxLength) {
+    return { error: `${field} must be at most ${maxLength} characters` };
+  }
+
+  return { data: text || null };
+}
+
+/**
+ * Validate the ordered hymn entries of a program; their order in the array is the program order
+ */
+export function validateProgramHymns(value: unknown): ValidationResult<ProgramHymnInput[]> {
+  if (!Array.isArray(value)) {
+    return { error: 'hymns must be an array' };
+  }
+
+  if (value.length > MAX_PROGRAM_HYMNS) {
+    return { error: `A program can have at most ${MAX_PROGRAM_HYMNS} hymns` };
+  }
+
+  const hymns: ProgramHymnInput[] = [];
+
+  for (const [index, entry] of value.entries()) {
+    const field = `hymns[${index}]`;
+
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      return { error: `${field} must be an object` };
+    }
+
+    const raw = entry as Record<string, unknown>;
+    const hymnId = parsePositiveInteger(raw.hymnId);
+
+    if (!hymnId) {
+      return { error: `${field}.hymnId must be a positive integer` };
+    }
+
+    const key = parseOptionalText(raw.key, `${field}.key`, 10);
+    const tempo = parseOptionalText(raw.tempo, `${field}.tempo`, 50);
+    const notes = parseOptionalText(raw.notes, `${field}.notes`);
+
+    for (const result of [key, tempo, notes]) {
+      if (result.error !== undefined) {
+        return { error: result.error };
+      }
+    }
+
+    let estimatedDuration: number | null = null;
+
+    if (raw.estimatedDuration !== undefined && raw.estimatedDuration !== null) {
+      estimatedDuration = parsePositiveInteger(raw.estimatedDuration);
+      if (!estimatedDuration || estimatedDuration > MAX_HYMN_DURATION) {
+        return { error: `${field}.estimatedDuration must be a positive number of seconds (max ${MAX_HYMN_DURATION})` };
+      }
+    }
+
+    hymns.push({
+      hymnId,
+      key: key.data!,
+      tempo: tempo.data!,
+      notes: notes.data!,
+      estimatedDuration,
+    });
+  }
+
+  return { data: hymns };
+}
+
+/**
+ * Validate the body of a program create (or partial update) request
+ */
+export function validateProgramInput(
+  body: Record<string, unknown>,
+  options: { partial?: boolean } = {},
+): ValidationResult<ProgramInput> {
+  const { partial = false } = options;
+  const data: ProgramInput = {};
+
+  if (!partial && (body.eventId === undefined || !body.title)) {
+    return { error: 'eventId and title are required' };
+  }
+
+  if (body.eventId !== undefined) {
+    if (partial) {
+      return { error: 'Programs cannot be moved to another event' };
+    }
+
+    const eventId = parsePositiveInteger(body.eventId);
+    if (!eventId) {
+      return { error: 'eventId must be a positive integer' };
+    }
+    data.eventId = eventId;
+  }
+
+  if (body.templateId !== undefined && body.templateId !== null) {
+    if (partial) {
+      return { error: 'Templates only apply to new programs' };
+    }
+
+    const templateId = parsePositiveInteger(body.templateId);
+    if (!templateId) {
+      return { error: 'templateId must be a positive integer' };
+    }
+    data.templateId = templateId;
+  }
+
+  if (body.occurrenceDate !== undefined && body.occurrenceDate !== null) {
+    if (!isDateKey(body.occurrenceDate)) {
+      return { error: 'occurrenceDate must be a date in YYYY-MM-DD form' };
+    }
+    data.occurrenceDate = body.occurrenceDate;
+  } else if (body.occurrenceDate === null) {
+    data.occurrenceDate = null;
+  }
+
+  if (body.title !== undefined) {
+    const title = typeof body.title === 'string' ? body.title.trim() : '';
+    if (title.length < 1 || title.length > 255) {
+      return { error: 'Program title must be between 1 and 255 characters' };
+    }
+    data.title = title;
+  }
+
+  if (body.description !== undefined) {
+    const description = parseOptionalText(body.description, 'description');
+    if (description.error !== undefined) {
+      return { error: description.error };
+    }
+    data.description = description.data;
+  }
+
+  if (body.status !== undefined) {
+    if (partial) {
+      return { error: 'Program status changes through the approval workflow' };
+    }
+
+    if (!PROGRAM_STATUSES.includes(body.status as ProgramStatus)) {
+      return { error: `status must be one of: ${PROGRAM_STATUSES.join(', ')}` };
+    }
+    data.status = body.status as ProgramStatus;
+  }
+
+  if (body.programData !== undefined) {
+    if (body.programData !== null && (typeof body.programData !== 'object' || Array.isArray(body.programData))) {
+      return { error: 'programData must be an object' };
+    }
+    data.programData = body.programData as ProgramData | null;
+  }
+
+  if (body.markdownContent !== undefined) {
+    if (body.markdownContent !== null && typeof body.markdownContent !== 'string') {
+      return { error: 'markdownContent must be a string' };
+    }
+    data.markdownContent = body.markdownContent as string | null;
+  }
+
+  if (body.changeDescription !== undefined) {
+    const changeDescription = parseOptionalText(body.changeDescription, 'changeDescription', 500);
+    if (changeDescription.error !== undefined) {
+      return { error: changeDescription.error };
+    }
+    data.changeDescription = changeDescription.data;
+  }
+
+  if (body.hymns !== undefined) {
+    const hymns = validateProgramHymns(body.hymns);
+    if (hymns.error !== undefined) {
+      return { error: hymns.error };
+    }
+    data.hymns = hymns.data;
+  }
+
+  return { data };
+}
+
+/**
+ * Check that a program's occurrence date is an occurrence of its event. Only programs of
+ * recurring events belong to an occurrence; without one they cover the whole series.
+ */
+export function validateProgramOccurrence(
+  event: RecurrenceSource,
+  occurrenceDate: string | null | undefined,
+  timeZone: string | null | undefined,
+): string | null {
+  if (!occurrenceDate) {
+    return null;
+  }
+
+  if (event.eventType !== 'recurring') {
+    return 'occurrenceDate is only allowed for programs of recurring events';
+  }
+
+  if (!findOccurrence(event, occurrenceDate, { timeZone })) {
+    return 'occurrenceDate is not an occurrence of the event';
+  }
+
+  return null;
+}
+
+/**
+ * Build ProgramFilters from the query string of a programs list request
+ */
+export function parseProgramFilters(searchParams: URLSearchParams): ValidationResult<ProgramFilters> {
+  const filters: ProgramFilters = {};
+
+  const status = searchParams.get('status');
+  if (status) {
+    if (!PROGRAM_STATUSES.includes(status as ProgramStatus)) {
+      return { error: `status must be one of: ${PROGRAM_STATUSES.join(', ')}` };
+    }
+    filters.status = status as ProgramStatus;
+  }
+
+  const eventIds = searchParams.get('eventIds');
+  if (eventIds) {
+    const ids = eventIds.split(',').map(id => parsePositiveInteger(id.trim()));
+    if (ids.includes(null)) {
+      return { error: 'eventIds must be a comma-separated list of IDs' };
+    }
+    filters.eventIds = ids as number[];
+  }
+
+  for (const key of ['createdBy', 'approvedBy'] as const) {
+    const value = searchParams.get(key);
+    if (value) {
+      filters[key] = value;
+    }
+  }
+
+  const startDate = searchParams.get('startDate');
+  const endDate = searchParams.get('endDate');
+  if (startDate || endDate) {
+    if (!startDate || !endDate) {
+      return { error: 'startDate and endDate must be provided together' };
+    }
+
+    // Programs are dated by the calendar day of their church, so the range is in days too
+    if (!isDateKey(startDate) || !isDateKey(endDate)) {
+      return { error: 'startDate and endDate must be dates (YYYY-MM-DD)' };
+    }
+    if (startDate > endDate) {
+      return { error: 'startDate must be before endDate' };
+    }
+    filters.dateRange = { start: startDate, end: endDate };
+  }
+
+  return { data: filters };
+}
+
+/**
+ * Parse the two version numbers and the diff mode of a version diff request
+ */
+export function parseVersionDiffParams(
+  searchParams: URLSearchParams,
+): ValidationResult<{ from: number; to: number; mode: DiffMode }> {
+  const from = parsePositiveInteger(searchParams.get('from'));
+  const to = parsePositiveInteger(searchParams.get('to'));
+
+  if (!from || !to) {
+    return { error: 'from and to must be version numbers' };
+  }
+
+  const mode = searchParams.get('mode') ?? 'line';
+  if (!DIFF_MODES.includes(mode as DiffMode)) {
+    return { error: `mode must be one of: ${DIFF_MODES.join(', ')}` };
+  }
+
+  return { data: { from, to, mode: mode as DiffMode } };
+}
@@ -0,0 +1,103 @@
+import { and, desc, eq, getTableColumns, lte } from 'drizzle-orm';
+
+import { db } from '@/libs/DB';
+import { programVersionHistorySchema as versionTable } from '@/models/WorshipSchema';
+
+import type { DiffMode, DiffSegment, LineChange, MergeResult } from './TextDiff';
+import { diffLines, diffWords, mergeLines } from './TextDiff';
+
+/**
+ * Markdown version history of programs. Every change of a program's markdown — a manual
+ * edit, a generated run sheet or a rollback — is kept as a row under the program's version
+ * number at the time, so history is only ever appended to.
+ */
+
+export type ProgramChangeType = 'manual_edit' | 'auto_generated' | 'rollback';
+
+export const PROGRAM_CHANGE_TYPES: ProgramChangeType[] = ['manual_edit', 'auto_generated', 'rollback'];
+
+export type ProgramVersionRecord = typeof versionTable.$inferSelect;
+
+export type ProgramVersionInput = {
+  changeType: ProgramChangeType;
+  changeDescription?: string | null;
+  changedBy: string;
+};
+
+export type ProgramVersionDiff =
+  | { mode: 'line'; changes: LineChange[] }
+  | { mode: 'word'; segments: DiffSegment[] };
+
+// Columns returned for every version in list responses; the markdown is only sent per version
+const { markdownContent: _markdownContent, ...versionListColumns } = getTableColumns(versionTable);
+
+/**
+ * List the versions of a program, newest first
+ */
+export async function listProgramVersions(programId: number) {
+  return db
+    .select(versionListColumns)
+    .from(versionTable)
+    .where(eq(versionTable.programId, programId))
+    .orderBy(desc(versionTable.versionNumber));
+}
+
+export type ProgramVersionListItem = Awaited<ReturnType<typeof listProgramVersions>>[number];
+
+/**
+ * Find a version of a program by its version number
+ */
+export async function findProgramVersion(programId: number, versionNumber: number): Promise<ProgramVersionRecord | null> {
+  const [version] = await db
+    .select()
+    .from(versionTable)
+    .where(and(
+      eq(versionTable.programId, programId),
+      eq(versionTable.versionNumber, versionNumber),
+    ))
+    .limit(1);
+
+  return version ?? null;
+}
+
+/**
+ * The markdown a program had at a version number: its latest version up to that number, as
+ * updates that leave the markdown alone record no version
+ */
+export async function findProgramVersionAt(programId: number, versionNumber: number): Promise<ProgramVersionRecord | null> {
+  const [version] = await db
+    .select()
+    .from(versionTable)
+    .where(and(
+      eq(versionTable.programId, programId),
+      lte(versionTable.versionNumber, versionNumber),
+    ))
+    .orderBy(desc(versionTable.versionNumber))
+    .limit(1);
+
+  return version ?? null;
+}
+
+/**
+ * Suggest a merge of markdown edited from an older version with the program's current markdown
+ */
+export function mergeProgramMarkdown(
+  base: string | null,
+  edited: string,
+  current: string | null,
+): MergeResult {
+  return mergeLines(base ?? '', edited, current ?? '', { ours: 'Your changes', theirs: 'Current version' });
+}
+
+/**
+ * Diff the markdown of two versions, line by line or word by word
+ */
+export function diffProgramVersions(
+  from: Pick<ProgramVersionRecord, 'markdownContent'>,
+  to: Pick<ProgramVersionRecord, 'markdownContent'>,
+  mode: DiffMode,
+): ProgramVersionDiff {
+  return mode === 'word'
+    ? { mode, segments: diffWords(from.markdownContent, to.markdownContent) }
+    : { mode, changes: diffLines(from.markdownContent, to.markdownContent) };
+}
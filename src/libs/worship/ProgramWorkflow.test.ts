@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+
+import { checkProgramEditable, checkTransition, getAvailableActions, validateTransitionInput } from './ProgramWorkflow';
+
+describe('ProgramWorkflow', () => {
+  describe('getAvailableActions', () => {
+    it('lets editors submit drafts and approvers decide on submissions', () => {
+      expect(getAvailableActions('draft', 'collaborator')).toEqual(['submit']);
+      expect(getAvailableActions('submitted', 'collaborator')).toEqual([]);
+      expect(getAvailableActions('submitted', 'worship_leader')).toEqual(['approve', 'request_changes']);
+      expect(getAvailableActions('published', 'pastor')).toEqual(['complete']);
+    });
+
+    it('gives members no actions', () => {
+      expect(getAvailableActions('draft', 'member')).toEqual([]);
+    });
+
+    it('ends at completed', () => {
+      expect(getAvailableActions('completed', 'admin')).toEqual([]);
+    });
+  });
+
+  describe('checkTransition', () => {
+    it('allows permitted actions from their status', () => {
+      expect(checkTransition('submitted', 'pastor', 'approve')).toBeNull();
+    });
+
+    it('refuses roles without the permission', () => {
+      expect(checkTransition('submitted', 'collaborator', 'approve'))
+        .toEqual({ error: 'Your role cannot approve programs', status: 403 });
+    });
+
+    it('refuses actions from another status', () => {
+      expect(checkTransition('draft', 'admin', 'request_changes'))
+        .toEqual({ error: 'Cannot request changes on a draft program', status: 409 });
+    });
+  });
+
+  describe('validateTransitionInput', () => {
+    it('accepts an action with an optional comment', () => {
+      expect(validateTransitionInput({ action: 'submit' }).data).toEqual({ action: 'submit', comment: null });
+      expect(validateTransitionInput({ action: 'approve', comment: ' Looks good ' }).data)
+        .toEqual({ action: 'approve', comment: 'Looks good' });
+    });
+
+    it('rejects unknown actions', () => {
+      expect(validateTransitionInput({ action: 'publish' }).error)
+        .toBe('action must be one of: submit, approve, request_changes, complete');
+    });
+
+    it('requires a comment to request changes', () => {
+      expect(validateTransitionInput({ action: 'request_changes' }).error)
+        .toBe('A comment is required to request changes');
+    });
+  });
+
+  describe('checkProgramEditable', () => {
+    it('only edits drafts', () => {
+      expect(checkProgramEditable('draft')).toBeNull();
+      expect(checkProgramEditable('submitted')).toBe('Cannot edit a submitted program, only drafts can be edited');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import type { ProgramStatus } from '@/features/worship/types';
+import type { ExtendedWorshipRole } from '@/lib/worship-role-utils';
+import { WorshipRolePermissions } from '@/lib/worship-role-utils';
+
+import type { ValidationResult } from './EventValidation';
+
+/**
+ * The approval workflow of programs: draft → submitted → published → completed, and a
+ * submitted program can be sent back to draft with changes requested. Every action is guarded
+ * by a role permission; ProgramTransitions applies the actions and keeps their audit trail.
+ * Only drafts can be edited, so what was reviewed is what gets published.
+ */
+
+export type ProgramAction = 'submit' | 'approve' | 'request_changes' | 'complete';
+
+type TransitionRule = {
+  from: ProgramStatus;
+  to: ProgramStatus;
+  permission: 'canEditProgram' | 'canApproveProgram';
+  requiresComment: boolean;
+};
+
+export const PROGRAM_TRANSITIONS: Record<ProgramAction, TransitionRule> = {
+  submit: { from: 'draft', to: 'submitted', permission: 'canEditProgram', requiresComment: false },
+  approve: { from: 'submitted', to: 'published', permission: 'canApproveProgram', requiresComment: false },
+  request_changes: { from: 'submitted', to: 'draft', permission: 'canApproveProgram', requiresComment: true },
+  complete: { from: 'published', to: 'completed', permission: 'canApproveProgram', requiresComment: false },
+};
+
+export const PROGRAM_ACTIONS = Object.keys(PROGRAM_TRANSITIONS) as ProgramAction[];
+
+export const PROGRAM_ACTION_LABELS: Record<ProgramAction, string> = {
+  submit: 'Submit for Review',
+  approve: 'Approve & Publish',
+  request_changes: 'Request Changes',
+  complete: 'Mark Completed',
+};
+
+const ACTION_VERBS: Record<ProgramAction, string> = {
+  submit: 'submit',
+  approve: 'approve',
+  request_changes: 'request changes on',
+  complete: 'complete',
+};
+
+// Longest comment kept with a transition
+const MAX_TRANSITION_COMMENT_LENGTH = 2000;
+
+export type TransitionInput = {
+  action: ProgramAction;
+  comment: string | null;
+};
+
+export type TransitionError = {
+  error: string;
+  status: 403 | 409;
+};
+
+/**
+ * Validate the body of a workflow action request; requesting changes needs a comment
+ */
+export function validateTransitionInput(body: Record<string, unknown>): ValidationResult<TransitionInput> {
+  if (!PROGRAM_ACTIONS.includes(body.action as ProgramAction)) {
+    return { error: `action must be one of: ${PROGRAM_ACTIONS.join(', ')}` };
+  }
+
+  const action = body.action as ProgramAction;
+
+  if (body.comment !== undefined && body.comment !== null && typeof body.comment !== 'string') {
+    return { error: 'comment must be a string' };
+  }
+
+  const comment = typeof body.comment === 'string' ? body.comment.trim() : '';
+
+  if (comment.length > MAX_TRANSITION_COMMENT_LENGTH) {
+    return { error: `comment must be at most ${MAX_TRANSITION_COMMENT_LENGTH} characters` };
+  }
+
+  if (PROGRAM_TRANSITIONS[action].requiresComment && !comment) {
+    return { error: `A comment is required to ${ACTION_VERBS[action].replace(/ on$/, '')}` };
+  }
+
+  return { data: { action, comment: comment || null } };
+}
+
+/**
+ * The actions a role can take on a program in the given status
+ */
+export function getAvailableActions(status: ProgramStatus, role: ExtendedWorshipRole): ProgramAction[] {
+  return PROGRAM_ACTIONS.filter((action) => {
+    const rule = PROGRAM_TRANSITIONS[action];
+
+    return rule.from === status && WorshipRolePermissions[rule.permission](role);
+  });
+}
+
+/**
+ * Why a role cannot take an action on a program in the given status, or null when it can
+ */
+export function checkTransition(
+  status: ProgramStatus,
+  role: ExtendedWorshipRole,
+  action: ProgramAction,
+): TransitionError | null {
+  const rule = PROGRAM_TRANSITIONS[action];
+
+  if (!WorshipRolePermissions[rule.permission](role)) {
+    return { error: `Your role cannot ${ACTION_VERBS[action]} programs`, status: 403 };
+  }
+
+  if (rule.from !== status) {
+    return { error: `Cannot ${ACTION_VERBS[action]} a ${status} program`, status: 409 };
+  }
+
+  return null;
+}
+
+/**
+ * Why a program in the given status cannot be edited, or null when it can
+ */
+export function checkProgramEditable(status: ProgramStatus): string | null {
+  return status === 'draft' ? null : `Cannot edit a ${status} program, only drafts can be edited`;
+}
@@ -0,0 +1,380 @@
+import { describe, expect, it } from 'vitest';
+
+import type { OccurrenceException, RecurrenceSource } from './RecurrenceEngine';
+import {
+  expandEventOccurrences,
+  findOccurrence,
+  getNextOccurrence,
+  normalizeRecurringConfig,
+  nthWeekdayOfMonth,
+} from './RecurrenceEngine';
+
+const window = (start: string, end: string) => ({ start: new Date(start), end: new Date(end) });
+
+const recurring = (
+  eventDate: string,
+  recurringPattern: RecurrenceSource['recurringPattern'],
+  recurringConfig: object = {},
+  duration = 90,
+): RecurrenceSource => ({
+  eventDate,
+  duration,
+  eventType: 'recurring',
+  recurringPattern,
+  recurringConfig,
+});
+
+const starts = (source: RecurrenceSource, start: string, end: string, timeZone?: string) =>
+  expandEventOccurrences(source, window(start, end), { timeZone }).map(occurrence => occurrence.start.toISOString());
+
+const dates = (source: RecurrenceSource, start: string, end: string, timeZone?: string) =>
+  expandEventOccurrences(source, window(start, end), { timeZone }).map(occurrence => occurrence.date);
+
+describe('RecurrenceEngine', () => {
+  describe('non-recurring events', () => {
+    const oneTime: RecurrenceSource = {
+      eventDate: '2025-03-02T15:00:00.000Z',
+      duration: 60,
+      eventType: 'one_time',
+    };
+
+    it('returns the single occurrence inside the window', () => {
+      const occurrences = expandEventOccurrences(oneTime, window('2025-03-01T00:00:00Z', '2025-03-31T00:00:00Z'));
+
+      expect(occurrences).toEqual([{
+        start: new Date('2025-03-02T15:00:00.000Z'),
+        end: new Date('2025-03-02T16:00:00.000Z'),
+        index: 0,
+        date: '2025-03-02',
+      }]);
+    });
+
+    it('returns nothing outside the window', () => {
+      expect(expandEventOccurrences(oneTime, window('2025-04-01T00:00:00Z', '2025-04-30T00:00:00Z'))).toEqual([]);
+    });
+
+    it('includes an event that started before the window but is still running', () => {
+      expect(expandEventOccurrences(oneTime, window('2025-03-02T15:30:00Z', '2025-03-03T00:00:00Z'))).toHaveLength(1);
+    });
+
+    it('treats series events and recurring events without a pattern as single occurrences', () => {
+      const series = { ...oneTime, eventType: 'series' as const };
+      const noPattern = { ...oneTime, eventType: 'recurring' as const, recurringPattern: null };
+
+      expect(expandEventOccurrences(series, window('2025-01-01T00:00:00Z', '2025-12-31T00:00:00Z'))).toHaveLength(1);
+      expect(expandEventOccurrences(noPattern, window('2025-01-01T00:00:00Z', '2025-12-31T00:00:00Z'))).toHaveLength(1);
+    });
+
+    it('returns nothing for an invalid date or an inverted window', () => {
+      expect(expandEventOccurrences({ ...oneTime, eventDate: 'invalid' }, window('2025-01-01T00:00:00Z', '2025-12-31T00:00:00Z'))).toEqual([]);
+      expect(expandEventOccurrences(oneTime, window('2025-12-31T00:00:00Z', '2025-01-01T00:00:00Z'))).toEqual([]);
+    });
+  });
+
+  describe('daily pattern', () => {
+    it('repeats every day', () => {
+      expect(dates(recurring('2025-01-01T10:00:00Z', 'daily'), '2025-01-01T00:00:00Z', '2025-01-05T23:59:59Z'))
+        .toEqual(['2025-01-01', '2025-01-02', '2025-01-03', '2025-01-04', '2025-01-05']);
+    });
+
+    it('repeats every N days', () => {
+      expect(dates(recurring('2025-01-01T10:00:00Z', 'daily', { frequency: 3 }), '2025-01-01T00:00:00Z', '2025-01-12T00:00:00Z'))
+        .toEqual(['2025-01-01', '2025-01-04', '2025-01-07', '2025-01-10']);
+    });
+
+    it('keeps the local time across spring-forward in Europe', () => {
+      expect(starts(recurring('2025-03-29T08:00:00Z', 'daily'), '2025-03-29T00:00:00Z', '2025-03-31T00:00:00Z', 'Europe/Paris'))
+        .toEqual(['2025-03-29T08:00:00.000Z', '2025-03-30T07:00:00.000Z']);
+    });
+
+    it('shifts an occurrence that falls in a DST gap forward by the gap', () => {
+      // 02:30 does not exist in Toronto on 2025-03-09, so that occurrence happens at 03:30 EDT
+      expect(starts(recurring('2025-03-08T07:30:00Z', 'daily'), '2025-03-08T00:00:00Z', '2025-03-10T23:00:00Z', 'America/Toronto'))
+        .toEqual(['2025-03-08T07:30:00.000Z', '2025-03-09T07:30:00.000Z', '2025-03-10T06:30:00.000Z']);
+    });
+  });
+
+  describe('weekly pattern', () => {
+    it('defaults to the weekday of the first occurrence', () => {
+      expect(dates(recurring('2025-01-05T15:00:00Z', 'weekly'), '2025-01-01T00:00:00Z', '2025-01-31T00:00:00Z'))
+        .toEqual(['2025-01-05', '2025-01-12', '2025-01-19', '2025-01-26']);
+    });
+
+    it('repeats every 2 weeks', () => {
+      expect(dates(recurring('2025-01-05T15:00:00Z', 'weekly', { frequency: 2 }), '2025-01-01T00:00:00Z', '2025-02-28T00:00:00Z'))
+        .toEqual(['2025-01-05', '2025-01-19', '2025-02-02', '2025-02-16']);
+    });
+
+    it('supports several days per week', () => {
+      expect(dates(recurring('2025-01-05T15:00:00Z', 'weekly', { daysOfWeek: [0, 3] }), '2025-01-01T00:00:00Z', '2025-01-16T00:00:00Z'))
+        .toEqual(['2025-01-05', '2025-01-08', '2025-01-12', '2025-01-15']);
+    });
+
+    it('skips configured days earlier in the first week', () => {
+      // Starts on Wednesday 2025-01-08, so Sunday 2025-01-05 is not part of the series
+      expect(dates(recurring('2025-01-08T15:00:00Z', 'weekly', { daysOfWeek: [0, 3] }), '2025-01-01T00:00:00Z', '2025-01-16T00:00:00Z'))
+        .toEqual(['2025-01-08', '2025-01-12', '2025-01-15']);
+    });
+
+    it('keeps a Sunday 10:00 service at 10:00 across both DST transitions in Montréal', () => {
+      expect(starts(recurring('2025-03-02T15:00:00Z', 'weekly'), '2025-03-01T00:00:00Z', '2025-03-17T00:00:00Z', 'America/Montreal'))
+        .toEqual(['2025-03-02T15:00:00.000Z', '2025-03-09T14:00:00.000Z', '2025-03-16T14:00:00.000Z']);
+      expect(starts(recurring('2025-10-26T14:00:00Z', 'weekly'), '2025-10-25T00:00:00Z', '2025-11-03T00:00:00Z', 'America/Montreal'))
+        .toEqual(['2025-10-26T14:00:00.000Z', '2025-11-02T15:00:00.000Z']);
+    });
+
+    it('uses the local weekday when the UTC date differs', () => {
+      // Saturday 21:00 in Toronto is Sunday 02:00 UTC
+      expect(dates(recurring('2025-01-05T02:00:00Z', 'weekly'), '2025-01-01T00:00:00Z', '2025-01-13T00:00:00Z', 'America/Toronto'))
+        .toEqual(['2025-01-04', '2025-01-11']);
+    });
+  });
+
+  describe('monthly pattern', () => {
+    it('supports "first Sunday of the month"', () => {
+      expect(dates(recurring('2025-01-05T15:00:00Z', 'monthly', { weekOfMonth: 1, daysOfWeek: [0] }), '2025-01-01T00:00:00Z', '2025-04-30T00:00:00Z'))
+        .toEqual(['2025-01-05', '2025-02-02', '2025-03-02', '2025-04-06']);
+    });
+
+    it('supports "last Wednesday of the month"', () => {
+      expect(dates(recurring('2025-01-29T23:00:00Z', 'monthly', { weekOfMonth: -1, daysOfWeek: [3] }), '2025-01-01T00:00:00Z', '2025-03-31T00:00:00Z'))
+        .toEqual(['2025-01-29', '2025-02-26', '2025-03-26']);
+    });
+
+    it('defaults the weekday of a week-of-month rule to the first occurrence', () => {
+      expect(dates(recurring('2025-01-12T15:00:00Z', 'monthly', { weekOfMonth: 2 }), '2025-01-01T00:00:00Z', '2025-03-31T00:00:00Z'))
+        .toEqual(['2025-01-12', '2025-02-09', '2025-03-09']);
+    });
+
+    it('defaults to the day of month of the first occurrence', () => {
+      expect(dates(recurring('2025-01-15T15:00:00Z', 'monthly'), '2025-01-01T00:00:00Z', '2025-03-31T00:00:00Z'))
+        .toEqual(['2025-01-15', '2025-02-15', '2025-03-15']);
+    });
+
+    it('skips months that do not have the day', () => {
+      expect(dates(recurring('2025-01-31T15:00:00Z', 'monthly'), '2025-01-01T00:00:00Z', '2025-06-01T00:00:00Z'))
+        .toEqual(['2025-01-31', '2025-03-31', '2025-05-31']);
+    });
+
+    it('repeats every N months and honors monthsOfYear', () => {
+      expect(dates(recurring('2025-01-10T15:00:00Z', 'monthly', { frequency: 2 }), '2025-01-01T00:00:00Z', '2025-07-01T00:00:00Z'))
+        .toEqual(['2025-01-10', '2025-03-10', '2025-05-10']);
+      expect(dates(recurring('2025-01-10T15:00:00Z', 'monthly', { monthsOfYear: [1, 4] }), '2025-01-01T00:00:00Z', '2026-01-31T00:00:00Z'))
+        .toEqual(['2025-01-10', '2025-04-10', '2026-01-10']);
+    });
+
+    it('terminates when the rule can never match', () => {
+      expect(dates(recurring('2025-01-10T15:00:00Z', 'monthly', { dayOfMonth: 31, monthsOfYear: [2] }), '2025-01-01T00:00:00Z', '2030-01-01T00:00:00Z'))
+        .toEqual([]);
+    });
+  });
+
+  describe('yearly pattern', () => {
+    it('repeats on the same date every year', () => {
+      expect(dates(recurring('2024-12-25T15:00:00Z', 'yearly'), '2024-01-01T00:00:00Z', '2026-12-31T00:00:00Z'))
+        .toEqual(['2024-12-25', '2025-12-25', '2026-12-25']);
+    });
+
+    it('only produces leap days in leap years', () => {
+      expect(dates(recurring('2024-02-29T15:00:00Z', 'yearly'), '2024-01-01T00:00:00Z', '2029-01-01T00:00:00Z'))
+        .toEqual(['2024-02-29', '2028-02-29']);
+    });
+
+    it('supports nth weekdays in several months', () => {
+      expect(dates(recurring('2025-03-09T15:00:00Z', 'yearly', { monthsOfYear: [3, 9], weekOfMonth: 2, daysOfWeek: [0] }), '2025-01-01T00:00:00Z', '2026-06-01T00:00:00Z'))
+        .toEqual(['2025-03-09', '2025-09-14', '2026-03-08']);
+    });
+
+    it('repeats every N years', () => {
+      expect(dates(recurring('2025-06-01T15:00:00Z', 'yearly', { frequency: 2 }), '2025-01-01T00:00:00Z', '2030-01-01T00:00:00Z'))
+        .toEqual(['2025-06-01', '2027-06-01', '2029-06-01']);
+    });
+  });
+
+  describe('custom pattern', () => {
+    it('resolves to the most specific rule in the config', () => {
+      expect(dates(recurring('2025-01-05T15:00:00Z', 'custom', { daysOfWeek: [0], frequency: 2 }), '2025-01-01T00:00:00Z', '2025-02-01T00:00:00Z'))
+        .toEqual(['2025-01-05', '2025-01-19']);
+      expect(dates(recurring('2025-01-05T15:00:00Z', 'custom', { daysOfWeek: [0], weekOfMonth: 1 }), '2025-01-01T00:00:00Z', '2025-02-28T00:00:00Z'))
+        .toEqual(['2025-01-05', '2025-02-02']);
+      expect(dates(recurring('2025-01-05T15:00:00Z', 'custom', { frequency: 10 }), '2025-01-01T00:00:00Z', '2025-01-31T00:00:00Z'))
+        .toEqual(['2025-01-05', '2025-01-15', '2025-01-25']);
+    });
+  });
+
+  describe('series limits', () => {
+    it('stops at the end date', () => {
+      expect(dates(recurring('2025-01-05T15:00:00Z', 'weekly', { endDate: '2025-01-19T15:00:00Z' }), '2025-01-01T00:00:00Z', '2025-12-31T00:00:00Z'))
+        .toEqual(['2025-01-05', '2025-01-12', '2025-01-19']);
+    });
+
+    it('counts occurrences from the start of the series, not the window', () => {
+      const occurrences = expandEventOccurrences(
+        recurring('2025-01-05T15:00:00Z', 'weekly', { occurrences: 4 }),
+        window('2025-01-15T00:00:00Z', '2025-12-31T00:00:00Z'),
+      );
+
+      expect(occurrences.map(occurrence => [occurrence.date, occurrence.index])).toEqual([
+        ['2025-01-19', 2],
+        ['2025-01-26', 3],
+      ]);
+    });
+
+    it('caps the number of expanded occurrences', () => {
+      const occurrences = expandEventOccurrences(
+        recurring('2025-01-01T10:00:00Z', 'daily'),
+        window('2025-01-01T00:00:00Z', '2030-01-01T00:00:00Z'),
+        { maxOccurrences: 10 },
+      );
+
+      expect(occurrences).toHaveLength(10);
+    });
+
+    it('computes occurrence end times from the duration', () => {
+      const [occurrence] = expandEventOccurrences(
+        recurring('2025-01-05T15:00:00Z', 'weekly', {}, 75),
+        window('2025-01-01T00:00:00Z', '2025-01-06T00:00:00Z'),
+      );
+
+      expect(occurrence?.end.toISOString()).toBe('2025-01-05T16:15:00.000Z');
+    });
+  });
+
+  describe('time zones', () => {
+    it('falls back to UTC for an unknown time zone', () => {
+      expect(starts(recurring('2025-03-02T15:00:00Z', 'weekly'), '2025-03-01T00:00:00Z', '2025-03-10T00:00:00Z', 'Mars/Olympus'))
+        .toEqual(['2025-03-02T15:00:00.000Z', '2025-03-09T15:00:00.000Z']);
+    });
+  });
+
+  describe('exceptions', () => {
+    // Sunday 10:00 service in Toronto
+    const sundayService = recurring('2025-03-02T15:00:00Z', 'weekly');
+    const expand = (start: string, end: string, exceptions: OccurrenceException[]) =>
+      expandEventOccurrences(sundayService, window(start, end), { timeZone: 'America/Toronto', exceptions });
+
+    it('leaves out skipped occurrences without shifting the series', () => {
+      const occurrences = expand('2025-04-13T00:00:00Z', '2025-04-28T00:00:00Z', [
+        { occurrenceDate: '2025-04-20', exceptionType: 'skipped' },
+      ]);
+
+      expect(occurrences.map(occurrence => [occurrence.date, occurrence.index])).toEqual([
+        ['2025-04-13', 6],
+        ['2025-04-27', 8],
+      ]);
+    });
+
+    it('moves a rescheduled occurrence and keeps its original date', () => {
+      const [occurrence] = expand('2025-04-20T00:00:00Z', '2025-04-21T00:00:00Z', [
+        { occurrenceDate: '2025-04-20', exceptionType: 'rescheduled', eventDate: '2025-04-20T15:00:00Z' },
+      ]);
+
+      expect(occurrence).toEqual({
+        start: new Date('2025-04-20T15:00:00Z'),
+        end: new Date('2025-04-20T16:30:00Z'),
+        index: 7,
+        date: '2025-04-20',
+        exceptionType: 'rescheduled',
+      });
+    });
+
+    it('applies title and duration overrides', () => {
+      const [occurrence] = expand('2025-04-20T00:00:00Z', '2025-04-21T00:00:00Z', [
+        { occurrenceDate: '2025-04-20', exceptionType: 'modified', title: 'Easter Sunday', duration: 120 },
+      ]);
+
+      expect(occurrence?.title).toBe('Easter Sunday');
+      expect(occurrence?.end.toISOString()).toBe('2025-04-20T16:00:00.000Z');
+      expect(occurrence?.exceptionType).toBe('modified');
+    });
+
+    it('finds occurrences moved into the window from later dates and keeps them in order', () => {
+      const occurrences = expand('2025-04-19T00:00:00Z', '2025-04-21T00:00:00Z', [
+        { occurrenceDate: '2025-04-27', exceptionType: 'rescheduled', eventDate: '2025-04-19T18:00:00Z' },
+      ]);
+
+      expect(occurrences.map(occurrence => [occurrence.date, occurrence.start.toISOString()])).toEqual([
+        ['2025-04-27', '2025-04-19T18:00:00.000Z'],
+        ['2025-04-20', '2025-04-20T14:00:00.000Z'],
+      ]);
+    });
+
+    it('drops occurrences rescheduled out of the window', () => {
+      expect(expand('2025-04-20T00:00:00Z', '2025-04-21T00:00:00Z', [
+        { occurrenceDate: '2025-04-20', exceptionType: 'rescheduled', eventDate: '2025-04-22T23:00:00Z' },
+      ])).toEqual([]);
+    });
+
+    it('counts skipped occurrences towards the series length', () => {
+      const occurrences = expandEventOccurrences(
+        recurring('2025-03-02T15:00:00Z', 'weekly', { occurrences: 3 }),
+        window('2025-03-01T00:00:00Z', '2025-12-31T00:00:00Z'),
+        { timeZone: 'America/Toronto', exceptions: [{ occurrenceDate: '2025-03-09', exceptionType: 'skipped' }] },
+      );
+
+      expect(occurrences.map(occurrence => occurrence.date)).toEqual(['2025-03-02', '2025-03-16']);
+    });
+  });
+
+  describe('findOccurrence', () => {
+    const sundayService = recurring('2025-03-02T15:00:00Z', 'weekly');
+
+    it('finds the occurrence on a local date', () => {
+      const occurrence = findOccurrence(sundayService, '2025-04-20', { timeZone: 'America/Toronto' });
+
+      expect(occurrence?.start.toISOString()).toBe('2025-04-20T14:00:00.000Z');
+      expect(occurrence?.index).toBe(7);
+    });
+
+    it('returns null for dates outside the series or non-recurring events', () => {
+      expect(findOccurrence(sundayService, '2025-04-21', { timeZone: 'America/Toronto' })).toBeNull();
+      expect(findOccurrence(sundayService, '2025-02-23', { timeZone: 'America/Toronto' })).toBeNull();
+      expect(findOccurrence({ ...sundayService, eventType: 'one_time' }, '2025-03-02')).toBeNull();
+    });
+  });
+
+  describe('getNextOccurrence', () => {
+    it('finds the next occurrence after a date', () => {
+      const next = getNextOccurrence(
+        recurring('2025-01-05T15:00:00Z', 'monthly', { weekOfMonth: 1, daysOfWeek: [0] }),
+        new Date('2025-02-03T00:00:00Z'),
+      );
+
+      expect(next?.date).toBe('2025-03-02');
+    });
+
+    it('returns null when the series has ended', () => {
+      expect(getNextOccurrence(
+        recurring('2025-01-05T15:00:00Z', 'weekly', { occurrences: 2 }),
+        new Date('2025-02-01T00:00:00Z'),
+      )).toBeNull();
+    });
+  });
+
+  describe('nthWeekdayOfMonth', () => {
+    it('finds nth and last weekdays', () => {
+      expect(nthWeekdayOfMonth(2026, 2, 0, 1)).toBe(1);
+      expect(nthWeekdayOfMonth(2025, 2, 3, -1)).toBe(26);
+      expect(nthWeekdayOfMonth(2025, 3, 0, 4)).toBe(23);
+    });
+  });
+
+  describe('normalizeRecurringConfig', () => {
+    it('normalizes JSON read from the database', () => {
+      expect(normalizeRecurringConfig({
+        frequency: '2',
+        daysOfWeek: [3, '0', 9],
+        weekOfMonth: 7,
+        endDate: '2025-06-01T00:00:00.000Z',
+      })).toEqual({
+        frequency: 2,
+        daysOfWeek: [0, 3],
+        endDate: new Date('2025-06-01T00:00:00.000Z'),
+      });
+    });
+
+    it('defaults to every period', () => {
+      expect(normalizeRecurringConfig(null)).toEqual({ frequency: 1 });
+    });
+  });
+});
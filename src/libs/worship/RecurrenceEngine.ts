@@ -0,0 +1,463 @@
+import type {
+  EventExceptionType,
+  EventPattern,
+  EventType,
+  RecurringConfig,
+} from '@/features/worship/types';
+import {
+  getZonedParts,
+  normalizeTimeZone,
+  toLocalDateKey,
+  zonedTimeToUtc,
+} from '@/utils/TimeZone';
+
+/**
+ * Recurrence expansion for worship events.
+ *
+ * A recurring event stores its first occurrence in `eventDate` and a rule made of
+ * `recurringPattern` + `recurringConfig`. Occurrences are generated in the church's
+ * local calendar (so a 10:00 service stays at 10:00 across DST changes) and converted
+ * back to UTC instants.
+ *
+ * Rules per pattern:
+ * - daily: every `frequency` days
+ * - weekly: every `frequency` weeks on `daysOfWeek` (defaults to the weekday of the first occurrence)
+ * - monthly: every `frequency` months, either on the `weekOfMonth` occurrence of `daysOfWeek`
+ *   (e.g. first Sunday, or -1 for the last Wednesday) or on `dayOfMonth`
+ *   (defaults to the day of the first occurrence). Months without that day are skipped.
+ * - yearly: every `frequency` years in `monthsOfYear` (defaults to the month of the first
+ *   occurrence), using the same day selection as monthly
+ * - custom: resolved to the most specific rule the config describes
+ *
+ * Only dates matching the rule are produced, and `occurrences` counts from the start of the series.
+ *
+ * Exceptions are keyed by the local date of the occurrence they replace: a skipped occurrence
+ * is left out (it still counts towards `occurrences`), while rescheduled and modified ones keep
+ * their place in the series with their own start, title or duration.
+ */
+
+export const DEFAULT_EVENT_DURATION = 90; // minutes
+
+// Safety nets against runaway rules (e.g. a daily event expanded over centuries)
+export const MAX_EXPANDED_OCCURRENCES = 1000;
+const MAX_CANDIDATE_DATES = 100_000;
+const MAX_RULE_PERIODS = 12_000;
+
+export type RecurrenceSource = {
+  eventDate: Date | string;
+  duration?: number | null;
+  eventType: EventType;
+  recurringPattern?: EventPattern | null;
+  recurringConfig?: unknown;
+};
+
+export type DateWindow = {
+  start: Date;
+  end: Date;
+};
+
+export type OccurrenceException = {
+  occurrenceDate: string; // Local date (YYYY-MM-DD) of the original occurrence
+  exceptionType: EventExceptionType;
+  eventDate?: Date | string | null;
+  title?: string | null;
+  duration?: number | null;
+};
+
+export type ExpandOptions = {
+  timeZone?: string | null;
+  maxOccurrences?: number;
+  exceptions?: OccurrenceException[];
+};
+
+export type Occurrence = {
+  start: Date;
+  end: Date;
+  index: number; // Position in the whole series, 0 for the first occurrence
+  date: string; // Local calendar date (YYYY-MM-DD) in the church time zone, kept when rescheduled
+  title?: string; // Title override for this occurrence
+  exceptionType?: Exclude<EventExceptionType, 'skipped'>;
+};
+
+type CalendarDate = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+};
+
+export type ResolvedRule = {
+  pattern: Exclude<EventPattern, 'custom'>;
+  frequency: number;
+  daysOfWeek?: number[];
+  dayOfMonth?: number;
+  weekOfMonth?: number;
+  monthsOfYear?: number[];
+  endDate?: Date;
+  occurrences?: number;
+};
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekdayOf(date: CalendarDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
+
+function addMonths(year: number, month: number, months: number): { year: number; month: number } {
+  const index = year * 12 + (month - 1) + months;
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+}
+
+function compareDates(a: CalendarDate, b: CalendarDate): number {
+  return (a.year - b.year) || (a.month - b.month) || (a.day - b.day);
+}
+
+function toDateKey(date: CalendarDate): string {
+  return `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+}
+
+/**
+ * How far before its original date an exception may have moved an occurrence, in milliseconds.
+ * The expansion keeps generating dates this long past the window so those occurrences are not missed.
+ */
+function rescheduleLookahead(exceptions: OccurrenceException[]): number {
+  let lookahead = 0;
+
+  for (const exception of exceptions) {
+    if (exception.exceptionType === 'skipped' || !exception.eventDate) {
+      continue;
+    }
+
+    // End of the original local day, with a day of slack for any time zone offset
+    const originalLatest = Date.parse(`${exception.occurrenceDate}T00:00:00Z`) + 2 * 86_400_000;
+    const shift = originalLatest - new Date(exception.eventDate).getTime();
+    if (shift > lookahead) {
+      lookahead = shift;
+    }
+  }
+
+  return lookahead;
+}
+
+/**
+ * Day of the month of the nth (1-4) or last (-1) given weekday, or null if the month has none
+ */
+export function nthWeekdayOfMonth(year: number, month: number, weekday: number, weekOfMonth: number): number | null {
+  const lastDay = daysInMonth(year, month);
+
+  if (weekOfMonth === -1) {
+    const lastWeekday = weekdayOf({ year, month, day: lastDay });
+    return lastDay - ((lastWeekday - weekday + 7) % 7);
+  }
+
+  const firstWeekday = weekdayOf({ year, month, day: 1 });
+  const day = 1 + ((weekday - firstWeekday + 7) % 7) + (weekOfMonth - 1) * 7;
+  return day <= lastDay ? day : null;
+}
+
+function toNumberList(value: unknown): number[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  const numbers = value.map(Number).filter(Number.isInteger);
+  return numbers.length > 0 ? [...new Set(numbers)].sort((a, b) => a - b) : undefined;
+}
+
+function toPositiveInteger(value: unknown): number | undefined {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : undefined;
+}
+
+/**
+ * Normalize the JSON stored in `recurringConfig` (dates arrive as strings from the database)
+ */
+export function normalizeRecurringConfig(value: unknown): RecurringConfig {
+  const raw = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  const config: RecurringConfig = { frequency: toPositiveInteger(raw.frequency) ?? 1 };
+
+  const daysOfWeek = toNumberList(raw.daysOfWeek)?.filter(day => day >= 0 && day <= 6);
+  if (daysOfWeek?.length) {
+    config.daysOfWeek = daysOfWeek;
+  }
+
+  const monthsOfYear = toNumberList(raw.monthsOfYear)?.filter(month => month >= 1 && month <= 12);
+  if (monthsOfYear?.length) {
+    config.monthsOfYear = monthsOfYear;
+  }
+
+  const dayOfMonth = toPositiveInteger(raw.dayOfMonth);
+  if (dayOfMonth && dayOfMonth <= 31) {
+    config.dayOfMonth = dayOfMonth;
+  }
+
+  const weekOfMonth = Number(raw.weekOfMonth);
+  if ([-1, 1, 2, 3, 4].includes(weekOfMonth)) {
+    config.weekOfMonth = weekOfMonth;
+  }
+
+  if (raw.endDate) {
+    const endDate = new Date(raw.endDate as string | Date);
+    if (!Number.isNaN(endDate.getTime())) {
+      config.endDate = endDate;
+    }
+  }
+
+  const occurrences = toPositiveInteger(raw.occurrences);
+  if (occurrences) {
+    config.occurrences = occurrences;
+  }
+
+  if (typeof raw.interval === 'string') {
+    config.interval = raw.interval;
+  }
+
+  return config;
+}
+
+/**
+ * Resolve a pattern and its config into a concrete rule (`custom` becomes the pattern its config describes)
+ */
+export function resolveRecurrenceRule(pattern: EventPattern, config: RecurringConfig): ResolvedRule {
+  let resolvedPattern: ResolvedRule['pattern'];
+
+  if (pattern !== 'custom') {
+    resolvedPattern = pattern;
+  } else if (config.weekOfMonth !== undefined || config.dayOfMonth !== undefined) {
+    resolvedPattern = config.monthsOfYear ? 'yearly' : 'monthly';
+  } else if (config.monthsOfYear) {
+    resolvedPattern = 'yearly';
+  } else if (config.daysOfWeek) {
+    resolvedPattern = 'weekly';
+  } else {
+    resolvedPattern = 'daily';
+  }
+
+  return {
+    pattern: resolvedPattern,
+    frequency: config.frequency,
+    daysOfWeek: config.daysOfWeek,
+    dayOfMonth: config.dayOfMonth,
+    weekOfMonth: config.weekOfMonth,
+    monthsOfYear: config.monthsOfYear,
+    endDate: config.endDate,
+    occurrences: config.occurrences,
+  };
+}
+
+/**
+ * Days of a month selected by a monthly/yearly rule, in ascending order
+ */
+function selectDaysInMonth(year: number, month: number, rule: ResolvedRule, first: CalendarDate): number[] {
+  if (rule.weekOfMonth !== undefined) {
+    const weekdays = rule.daysOfWeek ?? [weekdayOf(first)];
+    return weekdays
+      .map(weekday => nthWeekdayOfMonth(year, month, weekday, rule.weekOfMonth!))
+      .filter((day): day is number => day !== null)
+      .sort((a, b) => a - b);
+  }
+
+  const day = rule.dayOfMonth ?? first.day;
+  return day <= daysInMonth(year, month) ? [day] : [];
+}
+
+/**
+ * Generate the local calendar dates of a rule, in chronological order, starting at the first occurrence
+ */
+function* generateDates(rule: ResolvedRule, first: CalendarDate): Generator<CalendarDate> {
+  switch (rule.pattern) {
+    case 'daily': {
+      for (let step = 0; ; step += rule.frequency) {
+        yield addDays(first, step);
+      }
+    }
+
+    case 'weekly': {
+      const weekdays = rule.daysOfWeek ?? [weekdayOf(first)];
+      const weekStart = addDays(first, -weekdayOf(first));
+
+      for (let week = 0; ; week += rule.frequency) {
+        for (const weekday of weekdays) {
+          const date = addDays(weekStart, week * 7 + weekday);
+          if (compareDates(date, first) >= 0) {
+            yield date;
+          }
+        }
+      }
+    }
+
+    case 'monthly': {
+      // Bounded because a rule may select no day at all (e.g. the 31st of every February)
+      for (let period = 0; period < MAX_RULE_PERIODS; period++) {
+        const { year, month } = addMonths(first.year, first.month, period * rule.frequency);
+
+        if (rule.monthsOfYear && !rule.monthsOfYear.includes(month)) {
+          continue;
+        }
+
+        for (const day of selectDaysInMonth(year, month, rule, first)) {
+          const date = { year, month, day };
+          if (compareDates(date, first) >= 0) {
+            yield date;
+          }
+        }
+      }
+      return;
+    }
+
+    case 'yearly': {
+      const months = rule.monthsOfYear ?? [first.month];
+
+      for (let period = 0; period < MAX_RULE_PERIODS; period++) {
+        const year = first.year + period * rule.frequency;
+
+        for (const month of months) {
+          for (const day of selectDaysInMonth(year, month, rule, first)) {
+            const date = { year, month, day };
+            if (compareDates(date, first) >= 0) {
+              yield date;
+            }
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Expand an event into its concrete occurrences that overlap the given window.
+ * One-time and series events yield at most their own occurrence.
+ */
+export function expandEventOccurrences(
+  event: RecurrenceSource,
+  window: DateWindow,
+  options: ExpandOptions = {},
+): Occurrence[] {
+  const timeZone = normalizeTimeZone(options.timeZone);
+  const maxOccurrences = options.maxOccurrences ?? MAX_EXPANDED_OCCURRENCES;
+  const durationMs = (event.duration ?? DEFAULT_EVENT_DURATION) * 60_000;
+  const firstStart = new Date(event.eventDate);
+
+  if (Number.isNaN(firstStart.getTime()) || window.start > window.end) {
+    return [];
+  }
+
+  const overlapsWindow = (start: Date, length: number) =>
+    start.getTime() + length > window.start.getTime() && start <= window.end;
+
+  if (event.eventType !== 'recurring' || !event.recurringPattern) {
+    return overlapsWindow(firstStart, durationMs)
+      ? [{
+          start: firstStart,
+          end: new Date(firstStart.getTime() + durationMs),
+          index: 0,
+          date: toLocalDateKey(firstStart, timeZone),
+        }]
+      : [];
+  }
+
+  const rule = resolveRecurrenceRule(event.recurringPattern, normalizeRecurringConfig(event.recurringConfig));
+  const local = getZonedParts(firstStart, timeZone);
+  const first = { year: local.year, month: local.month, day: local.day };
+
+  const exceptions = new Map((options.exceptions ?? []).map(exception => [exception.occurrenceDate, exception]));
+  const generateUntil = window.end.getTime() + rescheduleLookahead([...exceptions.values()]);
+
+  const occurrences: Occurrence[] = [];
+  let index = 0;
+  let candidates = 0;
+
+  for (const date of generateDates(rule, first)) {
+    if (++candidates > MAX_CANDIDATE_DATES || occurrences.length >= maxOccurrences) {
+      break;
+    }
+
+    if (rule.occurrences !== undefined && index >= rule.occurrences) {
+      break;
+    }
+
+    const originalStart = zonedTimeToUtc({
+      ...date,
+      hour: local.hour,
+      minute: local.minute,
+      second: local.second,
+    }, timeZone);
+
+    if (originalStart.getTime() > generateUntil || (rule.endDate && originalStart > rule.endDate)) {
+      break;
+    }
+
+    const dateKey = toDateKey(date);
+    const exception = exceptions.get(dateKey);
+
+    if (exception?.exceptionType !== 'skipped') {
+      const start = exception?.eventDate ? new Date(exception.eventDate) : originalStart;
+      const occurrenceDurationMs = exception?.duration ? exception.duration * 60_000 : durationMs;
+
+      if (overlapsWindow(start, occurrenceDurationMs)) {
+        occurrences.push({
+          start,
+          end: new Date(start.getTime() + occurrenceDurationMs),
+          index,
+          date: dateKey,
+          ...(exception?.title && { title: exception.title }),
+          ...(exception && { exceptionType: exception.exceptionType }),
+        });
+      }
+    }
+
+    index++;
+  }
+
+  // Rescheduled occurrences may have moved past their neighbours
+  return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime() || a.index - b.index);
+}
+
+/**
+ * Find the occurrence of a recurring event that falls on the given local date (YYYY-MM-DD),
+ * ignoring exceptions, or null if the series has no occurrence that day
+ */
+export function findOccurrence(
+  event: RecurrenceSource,
+  occurrenceDate: string,
+  options: Pick<ExpandOptions, 'timeZone'> = {},
+): Occurrence | null {
+  const day = Date.parse(`${occurrenceDate}T00:00:00Z`);
+
+  if (Number.isNaN(day) || event.eventType !== 'recurring' || !event.recurringPattern) {
+    return null;
+  }
+
+  // A day either side covers every UTC offset
+  const occurrences = expandEventOccurrences(
+    event,
+    { start: new Date(day - 86_400_000), end: new Date(day + 2 * 86_400_000) },
+    { timeZone: options.timeZone },
+  );
+
+  return occurrences.find(occurrence => occurrence.date === occurrenceDate) ?? null;
+}
+
+/**
+ * Get the first occurrence of an event starting at or after the given instant
+ */
+export function getNextOccurrence(
+  event: RecurrenceSource,
+  after: Date,
+  options: ExpandOptions & { horizonDays?: number } = {},
+): Occurrence | null {
+  const horizon = new Date(after.getTime() + (options.horizonDays ?? 400) * 86_400_000);
+  const occurrences = expandEventOccurrences(event, { start: after, end: horizon }, options);
+
+  return occurrences.find(occurrence => occurrence.start >= after) ?? null;
+}
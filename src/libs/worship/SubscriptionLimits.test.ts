@@ -18,6 +18,7 @@ describe('SubscriptionLimits', () => {
     ministries: 3, // Under limit so we can add one more  
     collaborators: 2, // Under limit so we can add one more
     services: 10,
+    eventsPerWeek: 2,
   };
 
   describe('SUBSCRIPTION_LIMITS', () => {
@@ -27,6 +28,7 @@ describe('SubscriptionLimits', () => {
         ministries: 5,
         collaborators: 5,
         services: -1,
+        eventsPerWeek: 10,
       });
 
       expect(SUBSCRIPTION_LIMITS.team).toEqual({
@@ -34,6 +36,7 @@ describe('SubscriptionLimits', () => {
         ministries: 25,
         collaborators: -1,
         services: -1,
+        eventsPerWeek: 50,
       });
 
       expect(SUBSCRIPTION_LIMITS.pro).toEqual({
@@ -41,6 +44,7 @@ describe('SubscriptionLimits', () => {
         ministries: -1,
         collaborators: -1,
         services: -1,
+        eventsPerWeek: -1,
       });
     });
   });
@@ -62,6 +66,7 @@ describe('SubscriptionLimits', () => {
         ministries: 5,
         collaborators: 2,
         services: 10,
+        eventsPerWeek: 2,
       };
 
       const result = checkLimit('free', atLimitUsage, 'ministries');
@@ -79,12 +84,24 @@ describe('SubscriptionLimits', () => {
       expect(result.limit).toBe(-1);
     });
 
+    it('counts every requested item against the limit', () => {
+      const weekUsage: UsageStats = { ...mockUsage, eventsPerWeek: 8 };
+
+      expect(checkLimit('free', weekUsage, 'eventsPerWeek', 2).allowed).toBe(true);
+
+      const result = checkLimit('free', weekUsage, 'eventsPerWeek', 3);
+
+      expect(result.allowed).toBe(false);
+      expect(result.message).toBe('You\'ve reached the weekly events limit for your free plan (8/10)');
+    });
+
     it('allows creation for team tier with unlimited collaborators', () => {
       const highUsage: UsageStats = {
         churches: 1,
         ministries: 10,
         collaborators: 100,
         services: 50,
+        eventsPerWeek: 2,
       };
 
       const result = checkLimit('team', highUsage, 'collaborators');
@@ -111,6 +128,14 @@ describe('SubscriptionLimits', () => {
       expect(upgrade.feature).toBe('multiple churchs');
     });
 
+    it('suggests team tier for free tier weekly events limit', () => {
+      const upgrade = getUpgradeInfo('free', 'eventsPerWeek');
+
+      expect(upgrade.suggestedTier).toBe('team');
+      expect(upgrade.benefits).toContain('Up to 50 events per week');
+      expect(upgrade.feature).toBe('more weekly events');
+    });
+
     it('suggests pro tier for team tier limits', () => {
       const upgrade = getUpgradeInfo('team', 'churches');
       
@@ -126,6 +151,7 @@ describe('SubscriptionLimits', () => {
         ministries: 5, // At free tier limit
         collaborators: 3,
         services: 10,
+        eventsPerWeek: 2,
       };
 
       expect(wouldTierSolveLimit('team', usage, 'ministries')).toBe(true);
@@ -137,6 +163,7 @@ describe('SubscriptionLimits', () => {
         ministries: 100,
         collaborators: 1000,
         services: 500,
+        eventsPerWeek: 2,
       };
 
       expect(wouldTierSolveLimit('pro', usage, 'churches')).toBe(true);
@@ -148,6 +175,7 @@ describe('SubscriptionLimits', () => {
         ministries: 30, // Exceeds team limit of 25
         collaborators: 3,
         services: 10,
+        eventsPerWeek: 2,
       };
 
       expect(wouldTierSolveLimit('team', usage, 'ministries')).toBe(false);
@@ -178,6 +206,7 @@ describe('SubscriptionLimits', () => {
         ministries: 2,
         collaborators: 1,
         services: 10,
+        eventsPerWeek: 2,
       };
 
       expect(getUsagePercentage('free', usage, 'ministries')).toBe(40); // 2/5 = 40%
@@ -194,6 +223,7 @@ describe('SubscriptionLimits', () => {
         ministries: 10, // Over free limit of 5
         collaborators: 1,
         services: 10,
+        eventsPerWeek: 2,
       };
 
       expect(getUsagePercentage('free', overLimitUsage, 'ministries')).toBe(100);
@@ -232,6 +262,7 @@ describe('SubscriptionLimits', () => {
         ministries: 5,
         collaborators: 5,
         services: 10,
+        eventsPerWeek: 2,
       };
 
       const results = checkMultipleLimits('free', atLimitUsage, ['ministries', 'collaborators']);
@@ -248,6 +279,7 @@ describe('SubscriptionLimits', () => {
         ministries: 2,
         collaborators: 3,
         services: 5,
+        eventsPerWeek: 2,
       };
 
       expect(getRecommendedTier(lowUsage)).toBe('free');
@@ -259,6 +291,7 @@ describe('SubscriptionLimits', () => {
         ministries: 10, // Over free limit
         collaborators: 3,
         services: 15,
+        eventsPerWeek: 2,
       };
 
       expect(getRecommendedTier(mediumUsage)).toBe('team');
@@ -270,6 +303,7 @@ describe('SubscriptionLimits', () => {
         ministries: 30,
         collaborators: 100,
         services: 200,
+        eventsPerWeek: 2,
       };
 
       expect(getRecommendedTier(highUsage)).toBe('pro');
@@ -281,6 +315,7 @@ describe('SubscriptionLimits', () => {
         ministries: 3,
         collaborators: 10, // Over free limit
         services: 5,
+        eventsPerWeek: 2,
       };
 
       expect(getRecommendedTier(collaboratorHeavyUsage)).toBe('team');
@@ -5,6 +5,7 @@ export interface SubscriptionLimits {
   ministries: number;
   collaborators: number;
   services: number; // Unlimited for all tiers, but good to have for future use
+  eventsPerWeek: number; // Event occurrences in a single week
 }
 
 export interface UsageStats {
@@ -12,6 +13,7 @@ export interface UsageStats {
   ministries: number;
   collaborators: number;
   services: number;
+  eventsPerWeek: number; // Event occurrences in the current week
 }
 
 export interface LimitCheckResult {
@@ -35,28 +37,37 @@ export const SUBSCRIPTION_LIMITS: Record<SubscriptionTier, SubscriptionLimits> =
     ministries: 5,
     collaborators: 5,
     services: -1, // Unlimited
+    eventsPerWeek: 10,
   },
   team: {
     churches: 1,
     ministries: 25,
     collaborators: -1, // Unlimited
     services: -1, // Unlimited
+    eventsPerWeek: 50,
   },
   pro: {
     churches: -1, // Unlimited
     ministries: -1, // Unlimited
     collaborators: -1, // Unlimited
     services: -1, // Unlimited
+    eventsPerWeek: -1, // Unlimited
   },
 };
 
+// Resource names in limit messages, when the key does not read well
+const LIMIT_LABELS: Partial<Record<keyof UsageStats, string>> = {
+  eventsPerWeek: 'weekly events',
+};
+
 /**
- * Check if adding a new item would exceed the current tier limits
+ * Check if adding new items (one by default) would exceed the current tier limits
  */
 export function checkLimit(
   tier: SubscriptionTier,
   usage: UsageStats,
-  resource: keyof UsageStats
+  resource: keyof UsageStats,
+  requested = 1
 ): LimitCheckResult {
   const limits = SUBSCRIPTION_LIMITS[tier];
   const limit = limits[resource];
@@ -72,7 +83,7 @@ export function checkLimit(
     };
   }
 
-  const wouldExceed = (current + 1) > limit;
+  const wouldExceed = (current + requested) > limit;
   
   return {
     allowed: !wouldExceed,
@@ -80,7 +91,7 @@ export function checkLimit(
     limit,
     tier,
     message: wouldExceed 
-      ? `You've reached the ${resource} limit for your ${tier} plan (${current}/${limit})`
+      ? `You've reached the ${LIMIT_LABELS[resource] ?? resource} limit for your ${tier} plan (${current}/${limit})`
       : undefined,
   };
 }
@@ -97,6 +108,7 @@ export function getUpgradeInfo(
     ministries: 'ministry',
     collaborators: 'collaborator',
     services: 'service',
+    eventsPerWeek: 'weekly event',
   };
 
   const resourceName = resourceNames[resource];
@@ -136,6 +148,17 @@ export function getUpgradeInfo(
         ],
         feature: `more ${resourceName}s`,
       };
+    } else if (resource === 'eventsPerWeek') {
+      return {
+        suggestedTier: 'team',
+        benefits: [
+          'Up to 50 events per week',
+          'Up to 25 ministries',
+          'Unlimited collaborators',
+          'Advanced scheduling',
+        ],
+        feature: `more ${resourceName}s`,
+      };
     }
   }
 
@@ -146,6 +169,7 @@ export function getUpgradeInfo(
         'Unlimited churches',
         'Unlimited ministries', 
         'Unlimited collaborators',
+        'Unlimited events',
         'Advanced analytics',
         'Priority support',
         'Custom integrations',
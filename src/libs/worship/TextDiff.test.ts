@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+
+import { diffLines, diffWords, mergeLines } from './TextDiff';
+
+describe('TextDiff', () => {
+  describe('diffLines', () => {
+    it('lists removed and added lines', () => {
+      expect(diffLines('a\nb\nc\n', 'a\nc\nd\n')).toEqual([
+        { type: 'removed', line: 2, text: 'b' },
+        { type: 'added', line: 3, text: 'd' },
+      ]);
+    });
+
+    it('numbers lines after a common prefix', () => {
+      expect(diffLines('# Easter\nOld\n', '# Easter\nNew\n')).toEqual([
+        { type: 'removed', line: 2, text: 'Old' },
+        { type: 'added', line: 2, text: 'New' },
+      ]);
+    });
+
+    it('returns nothing for identical texts', () => {
+      expect(diffLines('# Easter\n', '# Easter\n')).toEqual([]);
+    });
+  });
+
+  describe('diffWords', () => {
+    it('groups consecutive words of the same change', () => {
+      expect(diffWords('Sing the opening hymn', 'Sing the closing hymn twice')).toEqual([
+        { type: 'equal', text: 'Sing the ' },
+        { type: 'removed', text: 'opening' },
+        { type: 'added', text: 'closing' },
+        { type: 'equal', text: ' hymn' },
+        { type: 'added', text: ' twice' },
+      ]);
+    });
+
+    it('joins back into either text', () => {
+      const before = 'Key: C\nTempo: Lively';
+      const after = 'Key: D\nTempo: Lively and joyful';
+      const segments = diffWords(before, after);
+
+      expect(segments.filter(segment => segment.type !== 'added').map(segment => segment.text).join('')).toBe(before);
+      expect(segments.filter(segment => segment.type !== 'removed').map(segment => segment.text).join('')).toBe(after);
+    });
+  });
+
+  describe('mergeLines', () => {
+    const labels = { ours: 'Mine', theirs: 'Theirs' };
+    const base = '# Easter\nCall to Worship\nHymn: Doxology\nSermon\n';
+
+    it('takes the changes of both sides in different regions', () => {
+      expect(mergeLines(
+        base,
+        '# Easter Sunday\nCall to Worship\nHymn: Doxology\nSermon\n',
+        '# Easter\nCall to Worship\nHymn: Doxology\nSermon\nBenediction\n',
+        labels,
+      )).toEqual({ text: '# Easter Sunday\nCall to Worship\nHymn: Doxology\nSermon\nBenediction\n', conflicts: 0 });
+    });
+
+    it('takes identical changes once', () => {
+      const edited = base.replace('Doxology', 'Amazing Grace');
+
+      expect(mergeLines(base, edited, edited, labels)).toEqual({ text: edited, conflicts: 0 });
+    });
+
+    it('keeps both sides of conflicting changes between markers', () => {
+      expect(mergeLines(
+        base,
+        base.replace('Doxology', 'Amazing Grace'),
+        base.replace('Doxology', 'Holy, Holy, Holy'),
+        labels,
+      )).toEqual({
+        text: [
+          '# Easter',
+          'Call to Worship',
+          '<<<<<<< Mine',
+          'Hymn: Amazing Grace',
+          '=======',
+          'Hymn: Holy, Holy, Holy',
+          '>>>>>>> Theirs',
+          'Sermon',
+          '',
+        ].join('\n'),
+        conflicts: 1,
+      });
+    });
+  });
+});
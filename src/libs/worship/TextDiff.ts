@@ -0,0 +1,211 @@
+/**
+ * Line and word diffs of program markdown, from the longest common subsequence of the two
+ * token lists. The common prefix and suffix are trimmed first, so the quadratic table only
+ * covers the edited region. Three-way line merges of concurrent edits build on the same diffs.
+ */
+
+// Largest LCS table computed; larger edited regions are shown as replaced wholesale
+const MAX_DIFF_CELLS = 4_000_000;
+
+export type DiffMode = 'line' | 'word';
+
+export const DIFF_MODES: DiffMode[] = ['line', 'word'];
+
+export type LineChange = {
+  type: 'added' | 'removed';
+  line: number; // 1-based line in the old text for removals, in the new text for additions
+  text: string;
+};
+
+export type DiffSegment = {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+};
+
+export type MergeResult = {
+  text: string; // Conflicting regions are kept from both sides between conflict markers
+  conflicts: number;
+};
+
+export type MergeLabels = {
+  ours: string;
+  theirs: string;
+};
+
+type DiffOperation = {
+  type: DiffSegment['type'];
+  index: number; // Token index in the old list for equal and removed tokens, in the new list for added ones
+  token: string;
+};
+
+function diffTokens(a: string[], b: string[]): DiffOperation[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix
+    && suffix < b.length - prefix
+    && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const operations: DiffOperation[] = a.slice(0, prefix).map((token, index) => ({ type: 'equal', index, token }));
+  const aEnd = a.length - suffix;
+  const bEnd = b.length - suffix;
+  const rows = aEnd - prefix;
+  const columns = bEnd - prefix;
+
+  if (rows * columns > MAX_DIFF_CELLS) {
+    operations.push(
+      ...a.slice(prefix, aEnd).map((token, offset) => ({ type: 'removed' as const, index: prefix + offset, token })),
+      ...b.slice(prefix, bEnd).map((token, offset) => ({ type: 'added' as const, index: prefix + offset, token })),
+    );
+  } else {
+    // lengths[i][j]: LCS length of a[prefix + i..aEnd) and b[prefix + j..bEnd)
+    const lengths = Array.from({ length: rows + 1 }, () => new Uint32Array(columns + 1));
+
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        lengths[i]![j] = a[prefix + i] === b[prefix + j]
+          ? lengths[i + 1]![j + 1]! + 1
+          : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+
+    while (i < rows || j < columns) {
+      if (i < rows && j < columns && a[prefix + i] === b[prefix + j]) {
+        operations.push({ type: 'equal', index: prefix + i, token: a[prefix + i]! });
+        i++;
+        j++;
+      } else if (j >= columns || (i < rows && lengths[i + 1]![j]! >= lengths[i]![j + 1]!)) {
+        operations.push({ type: 'removed', index: prefix + i, token: a[prefix + i]! });
+        i++;
+      } else {
+        operations.push({ type: 'added', index: prefix + j, token: b[prefix + j]! });
+        j++;
+      }
+    }
+  }
+
+  operations.push(...a.slice(aEnd).map((token, offset) => ({ type: 'equal' as const, index: aEnd + offset, token })));
+
+  return operations;
+}
+
+const splitLines = (text: string) => (text ? text.split('\n') : []);
+
+/**
+ * The lines removed from `before` and added in `after`
+ */
+export function diffLines(before: string, after: string): LineChange[] {
+  return diffTokens(splitLines(before), splitLines(after))
+    .filter(operation => operation.type !== 'equal')
+    .map(operation => ({
+      type: operation.type as LineChange['type'],
+      line: operation.index + 1,
+      text: operation.token,
+    }));
+}
+
+/**
+ * Word-level diff of two texts as consecutive segments; whitespace runs are kept as tokens so
+ * the segments join back into either text
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+  const segments: DiffSegment[] = [];
+
+  for (const operation of diffTokens(tokenize(before), tokenize(after))) {
+    const last = segments.at(-1);
+
+    if (last?.type === operation.type) {
+      last.text += operation.token;
+    } else {
+      segments.push({ type: operation.type, text: operation.token });
+    }
+  }
+
+  return segments;
+}
+
+// For each token of `a`, the index of the token of `b` it is kept as, or -1 when it is removed
+function matchTokens(a: string[], b: string[]): number[] {
+  const matches = Array.from<number>({ length: a.length }).fill(-1);
+  let j = 0;
+
+  for (const operation of diffTokens(a, b)) {
+    if (operation.type === 'equal') {
+      matches[operation.index] = j;
+    }
+    if (operation.type !== 'removed') {
+      j++;
+    }
+  }
+
+  return matches;
+}
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, index) => line === b[index]);
+
+/**
+ * Merge two texts edited from the same base, line by line. Regions changed on one side only
+ * take that side's lines; regions both sides changed differently become conflicts, with both
+ * versions between git-style markers.
+ */
+export function mergeLines(base: string, ours: string, theirs: string, labels: MergeLabels): MergeResult {
+  const baseLines = splitLines(base);
+  const ourLines = splitLines(ours);
+  const theirLines = splitLines(theirs);
+  const ourMatches = matchTokens(baseLines, ourLines);
+  const theirMatches = matchTokens(baseLines, theirLines);
+  const merged: string[] = [];
+  let conflicts = 0;
+  let i = 0;
+  let j = 0;
+  let k = 0;
+
+  while (i < baseLines.length || j < ourLines.length || k < theirLines.length) {
+    // A base line both sides kept where all three texts are
+    if (i < baseLines.length && ourMatches[i] === j && theirMatches[i] === k) {
+      merged.push(baseLines[i]!);
+      i++;
+      j++;
+      k++;
+      continue;
+    }
+
+    // The changed region runs up to the next base line both sides kept
+    let next = i;
+    while (next < baseLines.length && (ourMatches[next] === -1 || theirMatches[next] === -1)) {
+      next++;
+    }
+
+    const ourEnd = next < baseLines.length ? ourMatches[next]! : ourLines.length;
+    const theirEnd = next < baseLines.length ? theirMatches[next]! : theirLines.length;
+    const baseRegion = baseLines.slice(i, next);
+    const ourRegion = ourLines.slice(j, ourEnd);
+    const theirRegion = theirLines.slice(k, theirEnd);
+
+    if (sameLines(ourRegion, baseRegion) || sameLines(ourRegion, theirRegion)) {
+      merged.push(...theirRegion);
+    } else if (sameLines(theirRegion, baseRegion)) {
+      merged.push(...ourRegion);
+    } else {
+      conflicts++;
+      merged.push(`<<<<<<< ${labels.ours}`, ...ourRegion, '=======', ...theirRegion, `>>>>>>> ${labels.theirs}`);
+    }
+
+    i = next;
+    j = ourEnd;
+    k = theirEnd;
+  }
+
+  return { text: merged.join('\n'), conflicts };
+}
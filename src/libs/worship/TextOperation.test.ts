@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  applyOperation,
+  composeOperations,
+  createOperation,
+  isTextOperation,
+  syncAcknowledged,
+  syncLocalEdit,
+  syncRemoteEdit,
+  transformOperations,
+} from './TextOperation';
+
+const base = '# Easter\nHymn: Doxology\n';
+
+describe('TextOperation', () => {
+  it('validates operations sent by clients', () => {
+    expect(isTextOperation([9, 'Sunday ', -3, 4])).toBe(true);
+    expect(isTextOperation([0])).toBe(false);
+    expect(isTextOperation([1.5])).toBe(false);
+    expect(isTextOperation([''])).toBe(false);
+    expect(isTextOperation('insert')).toBe(false);
+  });
+
+  it('creates the operation between two texts and applies it', () => {
+    const after = '# Easter Sunday\nHymn: Doxology\n';
+    const operation = createOperation(base, after);
+
+    expect(operation).toEqual([8, ' Sunday', 16]);
+    expect(applyOperation(base, operation)).toBe(after);
+    expect(() => applyOperation('# Easter', operation)).toThrow();
+  });
+
+  it('composes consecutive operations', () => {
+    const middle = '# Easter Sunday\nHymn: Doxology\n';
+    const after = '# Easter Sunday\nHymn: Amazing Grace\n';
+    const composed = composeOperations(createOperation(base, middle), createOperation(middle, after));
+
+    expect(applyOperation(base, composed)).toBe(after);
+  });
+
+  it('transforms concurrent edits so both orders converge', () => {
+    const a = createOperation(base, '# Easter Sunday\nHymn: Doxology\n');
+    const b = createOperation(base, '# Easter\nHymn: Doxology\nSermon\n');
+    const [aPrime, bPrime] = transformOperations(a, b);
+
+    expect(applyOperation(applyOperation(base, a), bPrime)).toBe('# Easter Sunday\nHymn: Doxology\nSermon\n');
+    expect(applyOperation(applyOperation(base, b), aPrime)).toBe('# Easter Sunday\nHymn: Doxology\nSermon\n');
+  });
+
+  it('puts the first operation\'s insert first at the same position', () => {
+    const [aPrime, bPrime] = transformOperations(['A', 3], ['B', 3]);
+
+    expect(applyOperation(applyOperation('xyz', ['A', 3]), bPrime)).toBe('ABxyz');
+    expect(applyOperation(applyOperation('xyz', ['B', 3]), aPrime)).toBe('ABxyz');
+  });
+
+  it('converges overlapping deletes and edits', () => {
+    const a = createOperation(base, '# Easter\nHymn\n');
+    const b = createOperation(base, '# Easter\nHymn: Dox\n');
+    const [aPrime, bPrime] = transformOperations(a, b);
+
+    expect(applyOperation(applyOperation(base, a), bPrime)).toBe(applyOperation(applyOperation(base, b), aPrime));
+  });
+
+  describe('client sync', () => {
+    it('keeps one operation in flight and buffers later edits', () => {
+      let state = { revision: 3, sent: null, buffer: null } as Parameters<typeof syncLocalEdit>[0];
+      let text = base;
+
+      const first = createOperation(text, '# Easter Sunday\nHymn: Doxology\n');
+      text = applyOperation(text, first);
+      const sent = syncLocalEdit(state, first);
+
+      expect(sent.send).toEqual(first);
+
+      const second = createOperation(text, `${text}Sermon\n`);
+      text = applyOperation(text, second);
+      state = syncLocalEdit(sent.state, second).state;
+
+      expect(state.buffer).toEqual(second);
+
+      // Another editor's change reaches the server first
+      const remoteOperation = createOperation(base, '# Easter\nHymn: Amazing Grace\n');
+      const remote = syncRemoteEdit(state, remoteOperation);
+      text = applyOperation(text, remote.apply);
+
+      expect(text).toBe('# Easter Sunday\nHymn: Amazing Grace\nSermon\n');
+      expect(remote.state.revision).toBe(4);
+
+      const acknowledged = syncAcknowledged(remote.state);
+
+      expect(acknowledged.state).toEqual({ revision: 5, sent: remote.state.buffer, buffer: null });
+      expect(acknowledged.send).toEqual(remote.state.buffer);
+
+      // The server ends with the same text
+      const server = applyOperation(
+        applyOperation(applyOperation(base, remoteOperation), transformOperations(first, remoteOperation)[0]),
+        acknowledged.send!,
+      );
+
+      expect(server).toBe(text);
+    });
+  });
+});
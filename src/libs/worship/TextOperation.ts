@@ -0,0 +1,293 @@
+/**
+ * Operational transformation of plain text, used to let several editors change a program's
+ * markdown at once. An operation walks the whole document: a positive number keeps that many
+ * characters, a negative number deletes that many, and a string inserts itself.
+ *
+ * The server applies operations in the order they arrive, transforming each one over the
+ * operations it has not seen yet, and assigns it the next revision. Each client keeps at most
+ * one operation in flight and buffers its edits until the server acknowledges it, so every
+ * editor converges on the server's text.
+ */
+
+// Most components one operation may have
+export const MAX_OPERATION_COMPONENTS = 10_000;
+
+export type TextOperation = (number | string)[];
+
+export type MarkdownSyncState = {
+  revision: number; // Last server revision applied to the local text
+  sent: TextOperation | null; // Sent to the server, not acknowledged yet
+  buffer: TextOperation | null; // Edited locally while an operation is in flight
+};
+
+export const isRetain = (component: number | string): component is number =>
+  typeof component === 'number' && component > 0;
+
+export const isDelete = (component: number | string): component is number =>
+  typeof component === 'number' && component < 0;
+
+/**
+ * Whether a value sent by a client is a well-formed operation
+ */
+export function isTextOperation(value: unknown): value is TextOperation {
+  return Array.isArray(value)
+    && value.length <= MAX_OPERATION_COMPONENTS
+    && value.every(component => (typeof component === 'number' && Number.isInteger(component) && component !== 0)
+      || (typeof component === 'string' && component.length > 0));
+}
+
+// Appends keep operations normalized: adjacent components of a kind merged, inserts before deletes
+function retain(operation: TextOperation, count: number) {
+  if (count === 0) {
+    return;
+  }
+  const last = operation.at(-1);
+  if (last !== undefined && isRetain(last)) {
+    operation[operation.length - 1] = last + count;
+  } else {
+    operation.push(count);
+  }
+}
+
+function insert(operation: TextOperation, text: string) {
+  if (text === '') {
+    return;
+  }
+  const last = operation.at(-1);
+  const beforeLast = operation.at(-2);
+  if (typeof last === 'string') {
+    operation[operation.length - 1] = last + text;
+  } else if (last !== undefined && isDelete(last)) {
+    if (typeof beforeLast === 'string') {
+      operation[operation.length - 2] = beforeLast + text;
+    } else {
+      operation.splice(operation.length - 1, 0, text);
+    }
+  } else {
+    operation.push(text);
+  }
+}
+
+function remove(operation: TextOperation, count: number) {
+  if (count === 0) {
+    return;
+  }
+  const last = operation.at(-1);
+  if (last !== undefined && isDelete(last)) {
+    operation[operation.length - 1] = last - count;
+  } else {
+    operation.push(-count);
+  }
+}
+
+/**
+ * Length of the text an operation applies to
+ */
+export function getBaseLength(operation: TextOperation): number {
+  return operation.reduce<number>((length, component) =>
+    length + (typeof component === 'string' ? 0 : Math.abs(component)), 0);
+}
+
+/**
+ * Length of the text an operation produces
+ */
+export function getTargetLength(operation: TextOperation): number {
+  return operation.reduce<number>((length, component) =>
+    length + (typeof component === 'string' ? component.length : Math.max(component, 0)), 0);
+}
+
+/**
+ * Apply an operation to the text it was made for
+ */
+export function applyOperation(text: string, operation: TextOperation): string {
+  if (getBaseLength(operation) !== text.length) {
+    throw new Error('The operation does not match the length of the text');
+  }
+
+  const parts: string[] = [];
+  let index = 0;
+
+  for (const component of operation) {
+    if (typeof component === 'string') {
+      parts.push(component);
+    } else if (component > 0) {
+      parts.push(text.slice(index, index + component));
+      index += component;
+    } else {
+      index -= component;
+    }
+  }
+
+  return parts.join('');
+}
+
+/**
+ * The operation turning `before` into `after`, as one replaced region between their common
+ * prefix and suffix
+ */
+export function createOperation(before: string, after: string): TextOperation {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix
+    && suffix < after.length - prefix
+    && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const operation: TextOperation = [];
+  retain(operation, prefix);
+  insert(operation, after.slice(prefix, after.length - suffix));
+  remove(operation, before.length - prefix - suffix);
+  retain(operation, suffix);
+
+  return operation;
+}
+
+/**
+ * One operation with the effect of `a` followed by `b`
+ */
+export function composeOperations(a: TextOperation, b: TextOperation): TextOperation {
+  if (getTargetLength(a) !== getBaseLength(b)) {
+    throw new Error('The operations cannot be composed');
+  }
+
+  const composed: TextOperation = [];
+  const first = [...a];
+  const second = [...b];
+  let componentA = first.shift();
+  let componentB = second.shift();
+
+  while (componentA !== undefined || componentB !== undefined) {
+    if (componentA !== undefined && isDelete(componentA)) {
+      remove(composed, -componentA);
+      componentA = first.shift();
+    } else if (typeof componentB === 'string') {
+      insert(composed, componentB);
+      componentB = second.shift();
+    } else if (componentA === undefined || componentB === undefined) {
+      throw new Error('The operations cannot be composed');
+    } else if (typeof componentA === 'string') {
+      // b retains or deletes text a inserted
+      const length = Math.min(componentA.length, Math.abs(componentB));
+      if (isRetain(componentB)) {
+        insert(composed, componentA.slice(0, length));
+      }
+      componentA = componentA.length > length ? componentA.slice(length) : first.shift();
+      componentB = Math.abs(componentB) > length ? componentB - Math.sign(componentB) * length : second.shift();
+    } else {
+      // a retains text that b retains or deletes
+      const length = Math.min(componentA, Math.abs(componentB));
+      if (isRetain(componentB)) {
+        retain(composed, length);
+      } else {
+        remove(composed, length);
+      }
+      componentA = componentA > length ? componentA - length : first.shift();
+      componentB = Math.abs(componentB) > length ? componentB - Math.sign(componentB) * length : second.shift();
+    }
+  }
+
+  return composed;
+}
+
+/**
+ * Transform two concurrent operations on the same text into `[a', b']` so that `a` then `b'`
+ * and `b` then `a'` give the same text. Inserts of `a` at the same position go first.
+ */
+export function transformOperations(a: TextOperation, b: TextOperation): [TextOperation, TextOperation] {
+  if (getBaseLength(a) !== getBaseLength(b)) {
+    throw new Error('The operations do not apply to the same text');
+  }
+
+  const aPrime: TextOperation = [];
+  const bPrime: TextOperation = [];
+  const first = [...a];
+  const second = [...b];
+  let componentA = first.shift();
+  let componentB = second.shift();
+
+  while (componentA !== undefined || componentB !== undefined) {
+    if (typeof componentA === 'string') {
+      insert(aPrime, componentA);
+      retain(bPrime, componentA.length);
+      componentA = first.shift();
+    } else if (typeof componentB === 'string') {
+      retain(aPrime, componentB.length);
+      insert(bPrime, componentB);
+      componentB = second.shift();
+    } else if (componentA === undefined || componentB === undefined) {
+      throw new Error('The operations do not apply to the same text');
+    } else {
+      const length = Math.min(Math.abs(componentA), Math.abs(componentB));
+
+      if (isRetain(componentA) && isRetain(componentB)) {
+        retain(aPrime, length);
+        retain(bPrime, length);
+      } else if (isDelete(componentA) && isRetain(componentB)) {
+        remove(aPrime, length);
+      } else if (isRetain(componentA) && isDelete(componentB)) {
+        remove(bPrime, length);
+      }
+      // Text both deleted needs deleting by neither
+
+      componentA = Math.abs(componentA) > length ? componentA - Math.sign(componentA) * length : first.shift();
+      componentB = Math.abs(componentB) > length ? componentB - Math.sign(componentB) * length : second.shift();
+    }
+  }
+
+  return [aPrime, bPrime];
+}
+
+/**
+ * Record a local edit; returns the operation to send when none is in flight
+ */
+export function syncLocalEdit(
+  state: MarkdownSyncState,
+  operation: TextOperation,
+): { state: MarkdownSyncState; send: TextOperation | null } {
+  if (!state.sent) {
+    return { state: { ...state, sent: operation }, send: operation };
+  }
+
+  return {
+    state: { ...state, buffer: state.buffer ? composeOperations(state.buffer, operation) : operation },
+    send: null,
+  };
+}
+
+/**
+ * The server applied the operation in flight; returns the buffered edits to send next
+ */
+export function syncAcknowledged(state: MarkdownSyncState): { state: MarkdownSyncState; send: TextOperation | null } {
+  return {
+    state: { revision: state.revision + 1, sent: state.buffer, buffer: null },
+    send: state.buffer,
+  };
+}
+
+/**
+ * Another editor's operation from the server; returns it transformed for the local text
+ */
+export function syncRemoteEdit(
+  state: MarkdownSyncState,
+  operation: TextOperation,
+): { state: MarkdownSyncState; apply: TextOperation } {
+  let apply = operation;
+  let sent = state.sent;
+  let buffer = state.buffer;
+
+  if (sent) {
+    [sent, apply] = transformOperations(sent, apply);
+  }
+  if (buffer) {
+    [buffer, apply] = transformOperations(buffer, apply);
+  }
+
+  return { state: { revision: state.revision + 1, sent, buffer }, apply };
+}
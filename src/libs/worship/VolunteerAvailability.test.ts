@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  getAvailabilityConflicts,
+  isOnUnavailableDay,
+  validateAvailabilityInput,
+  validateBlackoutInput,
+} from './VolunteerAvailability';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+describe('VolunteerAvailability', () => {
+  it('validates availability settings', () => {
+    expect(validateAvailabilityInput({
+      unavailableDays: [{ dayOfWeek: 0, weekOfMonth: 2 }, { dayOfWeek: 0, weekOfMonth: 2 }, { dayOfWeek: 3 }],
+      maxAssignmentsPerMonth: 2,
+      notes: '  Prefer mornings ',
+    })).toEqual({
+      data: {
+        unavailableDays: [{ dayOfWeek: 0, weekOfMonth: 2 }, { dayOfWeek: 3, weekOfMonth: null }],
+        maxAssignmentsPerMonth: 2,
+        notes: 'Prefer mornings',
+      },
+    });
+    expect(validateAvailabilityInput({})).toEqual({ data: { unavailableDays: [], maxAssignmentsPerMonth: null, notes: null } });
+    expect(validateAvailabilityInput({ unavailableDays: [{ dayOfWeek: 7 }] }).error).toBeDefined();
+    expect(validateAvailabilityInput({ unavailableDays: [{ dayOfWeek: 0, weekOfMonth: 6 }] }).error).toBeDefined();
+    expect(validateAvailabilityInput({ maxAssignmentsPerMonth: 0 }).error).toBeDefined();
+  });
+
+  it('validates blackouts', () => {
+    expect(validateBlackoutInput({ startDate: '2025-04-14', endDate: '2025-04-27', reason: 'Vacation' }))
+      .toEqual({ data: { startDate: '2025-04-14', endDate: '2025-04-27', reason: 'Vacation' } });
+    expect(validateBlackoutInput({ startDate: '2025-04-27', endDate: '2025-04-14' }).error).toBe('endDate cannot be before startDate');
+    expect(validateBlackoutInput({ startDate: '2025-04-14' }).error).toBeDefined();
+  });
+
+  it('matches days by weekday and week of the month', () => {
+    // Sundays of March 2025: 2, 9, 16, 23 and 30
+    expect(isOnUnavailableDay({ dayOfWeek: 0, weekOfMonth: null }, '2025-03-16')).toBe(true);
+    expect(isOnUnavailableDay({ dayOfWeek: 0, weekOfMonth: 2 }, '2025-03-09')).toBe(true);
+    expect(isOnUnavailableDay({ dayOfWeek: 0, weekOfMonth: 2 }, '2025-03-16')).toBe(false);
+    expect(isOnUnavailableDay({ dayOfWeek: 0, weekOfMonth: 5 }, '2025-03-30')).toBe(true);
+    expect(isOnUnavailableDay({ dayOfWeek: 0, weekOfMonth: -1 }, '2025-03-30')).toBe(true);
+    expect(isOnUnavailableDay({ dayOfWeek: 0, weekOfMonth: -1 }, '2025-03-23')).toBe(false);
+    expect(isOnUnavailableDay({ dayOfWeek: 1, weekOfMonth: null }, '2025-03-16')).toBe(false);
+  });
+
+  it('lists why a member may not serve on a date', () => {
+    const availability = { unavailableDays: [{ dayOfWeek: 0, weekOfMonth: 3 }], maxAssignmentsPerMonth: 2 };
+    const blackouts = [
+      { startDate: '2025-03-10', endDate: '2025-03-16', reason: 'Vacation' },
+      { startDate: '2025-03-20', endDate: '2025-03-21', reason: null },
+    ];
+
+    expect(getAvailabilityConflicts(availability, blackouts, '2025-03-16', 2)).toEqual([
+      { type: 'blackout', message: 'Unavailable from 2025-03-10 to 2025-03-16 (Vacation)' },
+      { type: 'unavailable_day', message: 'Never available on 3rd Sundays' },
+      { type: 'frequency', message: 'Already serving 2 times in 2025-03, at most 2 a month' },
+    ]);
+    expect(getAvailabilityConflicts(availability, blackouts, '2025-03-23', 1)).toEqual([]);
+    expect(getAvailabilityConflicts(null, [], '2025-03-16', 5)).toEqual([]);
+  });
+});
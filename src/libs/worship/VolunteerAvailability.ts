@@ -0,0 +1,346 @@
+import { and, asc, eq, gte, isNull, like, lte, ne, or } from 'drizzle-orm';
+
+import { db } from '@/libs/DB';
+import {
+  availabilityBlackoutsSchema as blackoutTable,
+  churchesSchema as churchTable,
+  eventsSchema as eventTable,
+  ministriesSchema as ministryTable,
+  programAssignmentsSchema as assignmentTable,
+  servicesSchema as serviceTable,
+  volunteerAvailabilitySchema as availabilityTable,
+  worshipProgramsSchema as programTable,
+} from '@/models/WorshipSchema';
+
+import type { ValidationResult } from './EventValidation';
+import { isDateKey } from './EventValidation';
+import { getProgramDateKey } from './ProgramDuplication';
+import type { ProgramHierarchy } from './ProgramQueries';
+
+/**
+ * When members can serve, kept by each member for each organization: weekdays they never serve
+ * (every Sunday, or only 2nd Sundays), blackout date ranges such as vacations, and how many
+ * programs a month they are willing to serve in at most.
+ *
+ * Availability never forbids an assignment: assigning an unavailable member is refused with the
+ * conflicts until the person making it confirms with `ignoreAvailability`.
+ */
+
+// Most recurring unavailable days a member can keep
+export const MAX_UNAVAILABLE_DAYS = 14;
+
+// Longest a blackout can be (in days)
+export const MAX_BLACKOUT_DAYS = 366;
+
+// Longest availability notes can be (in characters)
+export const MAX_AVAILABILITY_NOTES_LENGTH = 1000;
+
+const MAX_BLACKOUT_REASON_LENGTH = 255;
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const WEEK_ORDINALS: Record<number, string> = { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', 5: '5th', [-1]: 'last' };
+
+export type AvailabilityRecord = typeof availabilityTable.$inferSelect;
+export type BlackoutRecord = typeof blackoutTable.$inferSelect;
+
+// A weekday the member never serves on: every week, or only its nth occurrence in the month (-1 for the last)
+export type UnavailableDay = {
+  dayOfWeek: number; // 0 for Sunday
+  weekOfMonth: number | null;
+};
+
+export type AvailabilityInput = {
+  unavailableDays: UnavailableDay[];
+  maxAssignmentsPerMonth: number | null;
+  notes: string | null;
+};
+
+export type BlackoutInput = {
+  startDate: string;
+  endDate: string;
+  reason: string | null;
+};
+
+export type AvailabilityConflict = {
+  type: 'blackout' | 'unavailable_day' | 'frequency';
+  message: string;
+};
+
+function isUnavailableDay(value: unknown): value is UnavailableDay {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const { dayOfWeek, weekOfMonth } = value as Record<string, unknown>;
+
+  return Number.isInteger(dayOfWeek) && (dayOfWeek as number) >= 0 && (dayOfWeek as number) <= 6
+    && (weekOfMonth === null || weekOfMonth === undefined || String(weekOfMonth) in WEEK_ORDINALS);
+}
+
+/**
+ * Validate a member's availability settings
+ */
+export function validateAvailabilityInput(body: Record<string, unknown>): ValidationResult<AvailabilityInput> {
+  const days = body.unavailableDays ?? [];
+
+  if (!Array.isArray(days) || !days.every(isUnavailableDay)) {
+    return { error: 'unavailableDays must be a list of { dayOfWeek: 0-6, weekOfMonth: 1-5, -1 or null }' };
+  }
+
+  if (days.length > MAX_UNAVAILABLE_DAYS) {
+    return { error: `At most ${MAX_UNAVAILABLE_DAYS} unavailable days can be kept` };
+  }
+
+  const max = body.maxAssignmentsPerMonth ?? null;
+
+  if (max !== null && (!Number.isInteger(max) || (max as number) < 1 || (max as number) > 31)) {
+    return { error: 'maxAssignmentsPerMonth must be a whole number from 1 to 31, or null' };
+  }
+
+  if (body.notes !== undefined && body.notes !== null && typeof body.notes !== 'string') {
+    return { error: 'notes must be a string' };
+  }
+
+  const notes = (body.notes as string | null | undefined)?.trim() || null;
+
+  if (notes && notes.length > MAX_AVAILABILITY_NOTES_LENGTH) {
+    return { error: `notes must be at most ${MAX_AVAILABILITY_NOTES_LENGTH} characters` };
+  }
+
+  const unavailableDays = days
+    .map(day => ({ dayOfWeek: day.dayOfWeek, weekOfMonth: day.weekOfMonth ?? null }))
+    .filter((day, index, all) =>
+      all.findIndex(other => other.dayOfWeek === day.dayOfWeek && other.weekOfMonth === day.weekOfMonth) === index);
+
+  return { data: { unavailableDays, maxAssignmentsPerMonth: max as number | null, notes } };
+}
+
+/**
+ * Validate a blackout date range
+ */
+export function validateBlackoutInput(body: Record<string, unknown>): ValidationResult<BlackoutInput> {
+  if (!isDateKey(body.startDate) || !isDateKey(body.endDate)) {
+    return { error: 'startDate and endDate must be dates (YYYY-MM-DD)' };
+  }
+
+  const days = (Date.parse(body.endDate) - Date.parse(body.startDate)) / 86_400_000;
+
+  if (days < 0) {
+    return { error: 'endDate cannot be before startDate' };
+  }
+
+  if (days >= MAX_BLACKOUT_DAYS) {
+    return { error: `A blackout can last at most ${MAX_BLACKOUT_DAYS} days` };
+  }
+
+  if (body.reason !== undefined && body.reason !== null && typeof body.reason !== 'string') {
+    return { error: 'reason must be a string' };
+  }
+
+  const reason = (body.reason as string | null | undefined)?.trim() || null;
+
+  if (reason && reason.length > MAX_BLACKOUT_REASON_LENGTH) {
+    return { error: `reason must be at most ${MAX_BLACKOUT_REASON_LENGTH} characters` };
+  }
+
+  return { data: { startDate: body.startDate, endDate: body.endDate, reason } };
+}
+
+/**
+ * Describe an unavailable day, e.g. "2nd Sundays"
+ */
+export function describeUnavailableDay(day: UnavailableDay): string {
+  const weekday = `${WEEKDAY_NAMES[day.dayOfWeek]}s`;
+
+  return day.weekOfMonth === null ? weekday : `${WEEK_ORDINALS[day.weekOfMonth]} ${weekday}`;
+}
+
+/**
+ * Whether a date (YYYY-MM-DD) falls on an unavailable day
+ */
+export function isOnUnavailableDay(day: UnavailableDay, dateKey: string): boolean {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+
+  if (date.getUTCDay() !== day.dayOfWeek) {
+    return false;
+  }
+  if (day.weekOfMonth === null) {
+    return true;
+  }
+  if (day.weekOfMonth === -1) {
+    return new Date(date.getTime() + 7 * 86_400_000).getUTCMonth() !== date.getUTCMonth();
+  }
+
+  return Math.ceil(date.getUTCDate() / 7) === day.weekOfMonth;
+}
+
+/**
+ * Why a member may not be able to serve on a date (YYYY-MM-DD), given how many other programs
+ * they already serve in that month
+ */
+export function getAvailabilityConflicts(
+  availability: Pick<AvailabilityRecord, 'unavailableDays' | 'maxAssignmentsPerMonth'> | null,
+  blackouts: Pick<BlackoutRecord, 'startDate' | 'endDate' | 'reason'>[],
+  dateKey: string,
+  programsThatMonth: number,
+): AvailabilityConflict[] {
+  const conflicts: AvailabilityConflict[] = blackouts
+    .filter(blackout => blackout.startDate <= dateKey && dateKey <= blackout.endDate)
+    .map(blackout => ({
+      type: 'blackout',
+      message: `Unavailable from ${blackout.startDate} to ${blackout.endDate}${blackout.reason ? ` (${blackout.reason})` : ''}`,
+    }));
+  const days = Array.isArray(availability?.unavailableDays) ? availability.unavailableDays.filter(isUnavailableDay) : [];
+  const day = days.find(other => isOnUnavailableDay({ ...other, weekOfMonth: other.weekOfMonth ?? null }, dateKey));
+
+  if (day) {
+    conflicts.push({ type: 'unavailable_day', message: `Never available on ${describeUnavailableDay({ ...day, weekOfMonth: day.weekOfMonth ?? null })}` });
+  }
+
+  const max = availability?.maxAssignmentsPerMonth;
+
+  if (max && programsThatMonth >= max) {
+    conflicts.push({
+      type: 'frequency',
+      message: `Already serving ${programsThatMonth} times in ${dateKey.slice(0, 7)}, at most ${max} a month`,
+    });
+  }
+
+  return conflicts;
+}
+
+/**
+ * Find the availability settings of a member
+ */
+export async function findAvailability(organizationId: string, userId: string): Promise<AvailabilityRecord | null> {
+  const [availability] = await db
+    .select()
+    .from(availabilityTable)
+    .where(and(eq(availabilityTable.organizationId, organizationId), eq(availabilityTable.userId, userId)))
+    .limit(1);
+
+  return availability ?? null;
+}
+
+/**
+ * Create or replace the availability settings of a member
+ */
+export async function saveAvailability(organizationId: string, userId: string, input: AvailabilityInput): Promise<AvailabilityRecord> {
+  const [availability] = await db
+    .insert(availabilityTable)
+    .values({ ...input, organizationId, userId })
+    .onConflictDoUpdate({
+      target: [availabilityTable.organizationId, availabilityTable.userId],
+      set: input,
+    })
+    .returning();
+
+  return availability!;
+}
+
+/**
+ * List the blackouts of a member ending on or after the given date, soonest first
+ */
+export async function listBlackouts(organizationId: string, userId: string, from: string): Promise<BlackoutRecord[]> {
+  return db
+    .select()
+    .from(blackoutTable)
+    .where(and(
+      eq(blackoutTable.organizationId, organizationId),
+      eq(blackoutTable.userId, userId),
+      gte(blackoutTable.endDate, from),
+    ))
+    .orderBy(asc(blackoutTable.startDate), asc(blackoutTable.id));
+}
+
+/**
+ * Add a blackout for a member
+ */
+export async function addBlackout(organizationId: string, userId: string, input: BlackoutInput): Promise<BlackoutRecord> {
+  const [blackout] = await db
+    .insert(blackoutTable)
+    .values({ ...input, organizationId, userId })
+    .returning();
+
+  return blackout!;
+}
+
+/**
+ * Delete a blackout of a member, returning it, or null if they have no such blackout
+ */
+export async function deleteBlackout(organizationId: string, userId: string, blackoutId: number): Promise<BlackoutRecord | null> {
+  const [blackout] = await db
+    .delete(blackoutTable)
+    .where(and(
+      eq(blackoutTable.id, blackoutId),
+      eq(blackoutTable.organizationId, organizationId),
+      eq(blackoutTable.userId, userId),
+    ))
+    .returning();
+
+  return blackout ?? null;
+}
+
+/**
+ * Count the programs of the organization other than the given one that a member serves in during
+ * the month (YYYY-MM), leaving out the assignments they declined
+ */
+export async function countProgramsInMonth(
+  organizationId: string,
+  userId: string,
+  month: string,
+  excludeProgramId: number,
+): Promise<number> {
+  const [year, monthIndex] = month.split('-').map(Number);
+  // A day either side of the month covers churches in every time zone
+  const start = new Date(Date.UTC(year!, monthIndex! - 1, 0));
+  const end = new Date(Date.UTC(year!, monthIndex!, 2));
+  const rows = await db
+    .select({
+      programId: programTable.id,
+      occurrenceDate: programTable.occurrenceDate,
+      eventDate: eventTable.eventDate,
+      timezone: churchTable.timezone,
+    })
+    .from(assignmentTable)
+    .innerJoin(programTable, eq(assignmentTable.programId, programTable.id))
+    .innerJoin(eventTable, eq(programTable.eventId, eventTable.id))
+    .innerJoin(serviceTable, eq(eventTable.serviceId, serviceTable.id))
+    .innerJoin(ministryTable, eq(serviceTable.ministryId, ministryTable.id))
+    .innerJoin(churchTable, eq(ministryTable.churchId, churchTable.id))
+    .where(and(
+      eq(assignmentTable.userId, userId),
+      isNull(assignmentTable.declinedAt),
+      eq(churchTable.organizationId, organizationId),
+      isNull(churchTable.deletedAt),
+      ne(programTable.id, excludeProgramId),
+      or(
+        like(programTable.occurrenceDate, `${month}-%`),
+        and(isNull(programTable.occurrenceDate), gte(eventTable.eventDate, start), lte(eventTable.eventDate, end)),
+      ),
+    ));
+
+  return new Set(rows
+    .filter(row => getProgramDateKey(row, row.timezone).startsWith(month))
+    .map(row => row.programId)).size;
+}
+
+/**
+ * Why a member may not be able to serve in a program, on the date the program takes place
+ */
+export async function checkProgramAvailability(
+  organizationId: string,
+  userId: string,
+  hierarchy: Pick<ProgramHierarchy, 'program' | 'event' | 'church'>,
+): Promise<AvailabilityConflict[]> {
+  const { program, event, church } = hierarchy;
+  const dateKey = getProgramDateKey({ occurrenceDate: program.occurrenceDate, eventDate: event.eventDate }, church.timezone);
+  const [availability, blackouts, programsThatMonth] = await Promise.all([
+    findAvailability(organizationId, userId),
+    listBlackouts(organizationId, userId, dateKey),
+    countProgramsInMonth(organizationId, userId, dateKey.slice(0, 7), program.id),
+  ]);
+
+  return getAvailabilityConflicts(availability, blackouts, dateKey, programsThatMonth);
+}
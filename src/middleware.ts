@@ -23,10 +23,21 @@ const isProtectedRoute = createRouteMatcher([
   '/:locale/api(.*)',
 ]);
 
+// Calendar feeds are fetched by calendar apps, which authenticate with the token in the URL,
+// and scheduled jobs authenticate with CRON_SECRET
+const isPublicRoute = createRouteMatcher([
+  '/api/public/calendar(.*)',
+  '/api/jobs(.*)',
+]);
+
 export default function middleware(
   request: NextRequest,
   event: NextFetchEvent,
 ) {
+  if (isPublicRoute(request)) {
+    return NextResponse.next();
+  }
+
   if (
     request.nextUrl.pathname.includes('/sign-in')
     || request.nextUrl.pathname.includes('/sign-up')
@@ -37,6 +37,7 @@ export const hymnStatusEnum = pgEnum('hymn_status', [
 
 export const programStatusEnum = pgEnum('program_status', [
   'draft',
+  'submitted',
   'published',
   'completed',
 ]);
@@ -55,6 +56,30 @@ export const eventPatternEnum = pgEnum('event_pattern', [
   'custom',
 ]);
 
+export const eventExceptionTypeEnum = pgEnum('event_exception_type', [
+  'skipped',
+  'rescheduled',
+  'modified',
+]);
+
+export const calendarFeedScopeEnum = pgEnum('calendar_feed_scope', [
+  'church',
+  'ministry',
+  'assignments',
+]);
+
+export const skillCategoryEnum = pgEnum('skill_category', [
+  'instrument',
+  'vocal',
+  'tech',
+]);
+
+export const skillProficiencyEnum = pgEnum('skill_proficiency', [
+  'beginner',
+  'intermediate',
+  'advanced',
+]);
+
 export const feedbackTypeEnum = pgEnum('feedback_type', [
   'technical_issue',
   'spiritual_impact',
@@ -198,6 +223,36 @@ export const eventsSchema = pgTable(
   },
 );
 
+// Event Exceptions table - per-occurrence changes to a recurring event
+export const eventExceptionsSchema = pgTable(
+  'event_exceptions',
+  {
+    id: serial('id').primaryKey(),
+    eventId: integer('event_id').notNull().references(() => eventsSchema.id, { onDelete: 'cascade' }),
+    occurrenceDate: varchar('occurrence_date', { length: 10 }).notNull(), // Local date (YYYY-MM-DD) of the original occurrence
+    exceptionType: eventExceptionTypeEnum('exception_type').notNull(),
+    eventDate: timestamp('event_date', { mode: 'date' }), // New start of a rescheduled occurrence
+    title: varchar('title', { length: 255 }), // Title override for this occurrence
+    duration: integer('duration'), // Duration override in minutes
+    createdBy: text('created_by').notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => {
+    return {
+      eventIdx: index('event_exceptions_event_idx').on(table.eventId),
+      eventDateIdx: index('event_exceptions_event_date_idx').on(table.eventDate),
+      uniqueEventOccurrence: uniqueIndex('unique_event_occurrence').on(
+        table.eventId,
+        table.occurrenceDate,
+      ),
+    };
+  },
+);
+
 // Hymns table - represents hymn library
 export const hymnsSchema = pgTable(
   'hymns',
@@ -254,6 +309,7 @@ export const worshipProgramsSchema = pgTable(
   {
     id: serial('id').primaryKey(),
     eventId: integer('event_id').notNull().references(() => eventsSchema.id, { onDelete: 'cascade' }),
+    occurrenceDate: varchar('occurrence_date', { length: 10 }), // Local date (YYYY-MM-DD) of the occurrence when the event is recurring
     title: varchar('title', { length: 255 }).notNull(),
     description: text('description'),
     status: programStatusEnum('status').default('draft').notNull(),
@@ -285,6 +341,7 @@ export const worshipProgramsSchema = pgTable(
       approvedAtIdx: index('programs_approved_at_idx').on(table.approvedAt),
       // Composite indexes for program management
       eventStatusIdx: index('programs_event_status_idx').on(table.eventId, table.status),
+      eventOccurrenceIdx: index('programs_event_occurrence_idx').on(table.eventId, table.occurrenceDate),
       statusApprovedIdx: index('programs_status_approved_idx').on(table.status, table.approvedBy),
     };
   },
@@ -328,6 +385,8 @@ export const programAssignmentsSchema = pgTable(
     notes: text('notes'),
     isConfirmed: boolean('is_confirmed').default(false).notNull(),
     confirmedAt: timestamp('confirmed_at', { mode: 'date' }),
+    declinedAt: timestamp('declined_at', { mode: 'date' }),
+    declineReason: text('decline_reason'), // Given by the assignee when declining
     assignedBy: text('assigned_by').notNull(),
     createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
   },
@@ -475,6 +534,79 @@ export const programVersionHistorySchema = pgTable(
   },
 );
 
+// Program Status Transitions table - audit trail of the approval workflow
+export const programStatusTransitionsSchema = pgTable(
+  'program_status_transitions',
+  {
+    id: serial('id').primaryKey(),
+    programId: integer('program_id').notNull().references(() => worshipProgramsSchema.id, { onDelete: 'cascade' }),
+    action: varchar('action', { length: 50 }).notNull(), // e.g., "submit", "approve", "request_changes"
+    fromStatus: programStatusEnum('from_status').notNull(),
+    toStatus: programStatusEnum('to_status').notNull(),
+    comment: text('comment'),
+    performedBy: text('performed_by').notNull(), // Clerk user ID, or the job trigger for automatic transitions
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => {
+    return {
+      programCreatedIdx: index('status_transitions_program_created_idx').on(table.programId, table.createdAt),
+      performedByIdx: index('status_transitions_performed_by_idx').on(table.performedBy),
+    };
+  },
+);
+
+// Program Templates table - reusable section skeletons for the programs of an organization or ministry
+export const programTemplatesSchema = pgTable(
+  'program_templates',
+  {
+    id: serial('id').primaryKey(),
+    organizationId: text('organization_id').notNull().references(() => organizationSchema.id, { onDelete: 'cascade' }),
+    ministryId: integer('ministry_id').references(() => ministriesSchema.id, { onDelete: 'cascade' }), // Null for organization-wide templates
+    name: varchar('name', { length: 255 }).notNull(),
+    description: text('description'),
+    sections: json('sections').notNull(), // Ordered template sections
+    createdBy: text('created_by').notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => {
+    return {
+      organizationIdx: index('program_templates_organization_idx').on(table.organizationId),
+      ministryIdx: index('program_templates_ministry_idx').on(table.ministryId),
+    };
+  },
+);
+
+// Program Comments table - threaded comments on a program, one of its sections or one of its hymns
+export const programCommentsSchema = pgTable(
+  'program_comments',
+  {
+    id: serial('id').primaryKey(),
+    programId: integer('program_id').notNull().references(() => worshipProgramsSchema.id, { onDelete: 'cascade' }),
+    parentId: integer('parent_id'), // Self-reference to the comment starting the thread, null for thread starts
+    sectionId: varchar('section_id', { length: 100 }), // Anchor on a section of the program data
+    hymnId: integer('hymn_id').references(() => hymnsSchema.id, { onDelete: 'cascade' }), // Anchor on the program's entry of a hymn
+    body: text('body').notNull(),
+    mentions: json('mentions').notNull(), // Clerk user IDs of the mentioned members
+    visibility: varchar('visibility', { length: 50 }).default('member').notNull(), // Lowest worship role that can see the thread
+    isResolved: boolean('is_resolved').default(false).notNull(),
+    resolvedBy: text('resolved_by'),
+    resolvedAt: timestamp('resolved_at', { mode: 'date' }),
+    createdBy: text('created_by').notNull(),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => {
+    return {
+      programCreatedIdx: index('program_comments_program_created_idx').on(table.programId, table.createdAt),
+      parentIdx: index('program_comments_parent_idx').on(table.parentId),
+      createdByIdx: index('program_comments_created_by_idx').on(table.createdBy),
+    };
+  },
+);
+
 // Subscription Usage table - track usage for billing enforcement
 export const subscriptionUsageSchema = pgTable(
   'subscription_usage',
@@ -501,6 +633,138 @@ export const subscriptionUsageSchema = pgTable(
   },
 );
 
+// Calendar Feed Tokens table - revocable per-user tokens for .ics subscription feeds
+export const calendarFeedTokensSchema = pgTable(
+  'calendar_feed_tokens',
+  {
+    id: serial('id').primaryKey(),
+    organizationId: text('organization_id').notNull().references(() => organizationSchema.id, { onDelete: 'cascade' }),
+    userId: text('user_id').notNull(), // Clerk user ID of the subscriber
+    tokenHash: varchar('token_hash', { length: 64 }).notNull(), // SHA-256 of the token, the token itself is only shown once
+    tokenPrefix: varchar('token_prefix', { length: 8 }).notNull(), // First characters of the token, to tell feeds apart
+    scope: calendarFeedScopeEnum('scope').notNull(),
+    churchId: integer('church_id').references(() => churchesSchema.id, { onDelete: 'cascade' }),
+    ministryId: integer('ministry_id').references(() => ministriesSchema.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 255 }),
+    lastAccessedAt: timestamp('last_accessed_at', { mode: 'date' }),
+    revokedAt: timestamp('revoked_at', { mode: 'date' }),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => {
+    return {
+      userOrgIdx: index('calendar_feeds_user_org_idx').on(table.userId, table.organizationId),
+      uniqueTokenHash: uniqueIndex('unique_calendar_feed_token').on(table.tokenHash),
+    };
+  },
+);
+
+// Volunteer Availability table - when a member can serve in an organization, one row per member
+export const volunteerAvailabilitySchema = pgTable(
+  'volunteer_availability',
+  {
+    id: serial('id').primaryKey(),
+    organizationId: text('organization_id').notNull().references(() => organizationSchema.id, { onDelete: 'cascade' }),
+    userId: text('user_id').notNull(), // Clerk user ID
+    unavailableDays: json('unavailable_days'), // Recurring unavailability, e.g. [{ dayOfWeek: 0, weekOfMonth: 2 }] for 2nd Sundays
+    maxAssignmentsPerMonth: integer('max_assignments_per_month'), // Null when there is no limit
+    notes: text('notes'),
+    updatedAt: timestamp('updated_at', { mode: 'date' })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => {
+    return {
+      uniqueUserOrganization: uniqueIndex('unique_volunteer_availability').on(table.organizationId, table.userId),
+    };
+  },
+);
+
+// Availability Blackouts table - date ranges a member cannot serve at all (e.g. vacations)
+export const availabilityBlackoutsSchema = pgTable(
+  'availability_blackouts',
+  {
+    id: serial('id').primaryKey(),
+    organizationId: text('organization_id').notNull().references(() => organizationSchema.id, { onDelete: 'cascade' }),
+    userId: text('user_id').notNull(), // Clerk user ID
+    startDate: varchar('start_date', { length: 10 }).notNull(), // Local date (YYYY-MM-DD), inclusive
+    endDate: varchar('end_date', { length: 10 }).notNull(), // Local date (YYYY-MM-DD), inclusive
+    reason: varchar('reason', { length: 255 }),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => {
+    return {
+      userOrgIdx: index('availability_blackouts_user_org_idx').on(table.userId, table.organizationId),
+      endDateIdx: index('availability_blackouts_end_date_idx').on(table.endDate),
+    };
+  },
+);
+
+// Skills table - the catalog of skills of an organization (instruments, vocal parts, tech roles)
+export const skillsSchema = pgTable(
+  'skills',
+  {
+    id: serial('id').primaryKey(),
+    organizationId: text('organization_id').notNull().references(() => organizationSchema.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 100 }).notNull(),
+    category: skillCategoryEnum('category').notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => {
+    return {
+      uniqueOrganizationName: uniqueIndex('unique_skill_name').on(table.organizationId, table.name),
+    };
+  },
+);
+
+// Member Skills table - the skills of a member, with how well they master each and where they serve with it
+export const memberSkillsSchema = pgTable(
+  'member_skills',
+  {
+    id: serial('id').primaryKey(),
+    organizationId: text('organization_id').notNull().references(() => organizationSchema.id, { onDelete: 'cascade' }),
+    userId: text('user_id').notNull(), // Clerk user ID
+    skillId: integer('skill_id').notNull().references(() => skillsSchema.id, { onDelete: 'cascade' }),
+    proficiency: skillProficiencyEnum('proficiency').notNull(),
+    churchId: integer('church_id').references(() => churchesSchema.id, { onDelete: 'set null' }), // Null when they serve at any church
+    updatedAt: timestamp('updated_at', { mode: 'date' })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => {
+    return {
+      uniqueUserSkill: uniqueIndex('unique_member_skill').on(table.organizationId, table.userId, table.skillId),
+      skillIdx: index('member_skills_skill_idx').on(table.skillId),
+    };
+  },
+);
+
+// Job Runs table - one row per run of a scheduled job, with what it changed
+export const jobRunsSchema = pgTable(
+  'job_runs',
+  {
+    id: serial('id').primaryKey(),
+    jobName: varchar('job_name', { length: 100 }).notNull(), // e.g., "event_lifecycle"
+    triggeredBy: text('triggered_by').notNull(), // "schedule", "manual", or the Clerk user ID
+    changes: json('changes'), // Records changed by the run
+    error: text('error'),
+    startedAt: timestamp('started_at', { mode: 'date' }).notNull(),
+    finishedAt: timestamp('finished_at', { mode: 'date' }),
+  },
+  (table) => {
+    return {
+      jobStartedIdx: index('job_runs_job_started_idx').on(table.jobName, table.startedAt),
+    };
+  },
+);
+
 // ============================================================================
 // RELATIONSHIPS DEFINITIONS
 // ============================================================================
@@ -512,6 +776,12 @@ export const organizationRelations = relations(organizationSchema, ({ many }) =>
   userWorshipRoles: many(userWorshipRolesSchema),
   notifications: many(notificationsSchema),
   subscriptionUsage: many(subscriptionUsageSchema),
+  calendarFeedTokens: many(calendarFeedTokensSchema),
+  programTemplates: many(programTemplatesSchema),
+  volunteerAvailability: many(volunteerAvailabilitySchema),
+  availabilityBlackouts: many(availabilityBlackoutsSchema),
+  skills: many(skillsSchema),
+  memberSkills: many(memberSkillsSchema),
 }));
 
 // Churches relationships
@@ -531,6 +801,7 @@ export const ministriesRelations = relations(ministriesSchema, ({ one, many }) =
     references: [churchesSchema.id],
   }),
   services: many(servicesSchema),
+  programTemplates: many(programTemplatesSchema),
 }));
 
 // Services relationships
@@ -556,10 +827,19 @@ export const eventsRelations = relations(eventsSchema, ({ one, many }) => ({
   seriesChildren: many(eventsSchema, {
     relationName: 'eventSeries',
   }),
+  exceptions: many(eventExceptionsSchema),
   worshipPrograms: many(worshipProgramsSchema),
   feedback: many(feedbackSchema),
 }));
 
+// Event Exceptions relationships
+export const eventExceptionsRelations = relations(eventExceptionsSchema, ({ one }) => ({
+  event: one(eventsSchema, {
+    fields: [eventExceptionsSchema.eventId],
+    references: [eventsSchema.id],
+  }),
+}));
+
 // Hymns relationships
 export const hymnsRelations = relations(hymnsSchema, ({ one, many }) => ({
   organization: one(organizationSchema, {
@@ -579,6 +859,8 @@ export const worshipProgramsRelations = relations(worshipProgramsSchema, ({ one,
   programAssignments: many(programAssignmentsSchema),
   feedback: many(feedbackSchema),
   versionHistory: many(programVersionHistorySchema),
+  statusTransitions: many(programStatusTransitionsSchema),
+  comments: many(programCommentsSchema),
 }));
 
 // Program Hymns relationships (junction table)
@@ -641,6 +923,26 @@ export const programVersionHistoryRelations = relations(programVersionHistorySch
   }),
 }));
 
+// Program Status Transitions relationships
+export const programStatusTransitionsRelations = relations(programStatusTransitionsSchema, ({ one }) => ({
+  program: one(worshipProgramsSchema, {
+    fields: [programStatusTransitionsSchema.programId],
+    references: [worshipProgramsSchema.id],
+  }),
+}));
+
+// Program Comments relationships
+export const programCommentsRelations = relations(programCommentsSchema, ({ one }) => ({
+  program: one(worshipProgramsSchema, {
+    fields: [programCommentsSchema.programId],
+    references: [worshipProgramsSchema.id],
+  }),
+  hymn: one(hymnsSchema, {
+    fields: [programCommentsSchema.hymnId],
+    references: [hymnsSchema.id],
+  }),
+}));
+
 // Subscription Usage relationships
 export const subscriptionUsageRelations = relations(subscriptionUsageSchema, ({ one }) => ({
   organization: one(organizationSchema, {
@@ -648,3 +950,72 @@ export const subscriptionUsageRelations = relations(subscriptionUsageSchema, ({
     references: [organizationSchema.id],
   }),
 }));
+
+// Program Templates relationships
+export const programTemplatesRelations = relations(programTemplatesSchema, ({ one }) => ({
+  organization: one(organizationSchema, {
+    fields: [programTemplatesSchema.organizationId],
+    references: [organizationSchema.id],
+  }),
+  ministry: one(ministriesSchema, {
+    fields: [programTemplatesSchema.ministryId],
+    references: [ministriesSchema.id],
+  }),
+}));
+
+// Calendar Feed Tokens relationships
+export const calendarFeedTokensRelations = relations(calendarFeedTokensSchema, ({ one }) => ({
+  organization: one(organizationSchema, {
+    fields: [calendarFeedTokensSchema.organizationId],
+    references: [organizationSchema.id],
+  }),
+  church: one(churchesSchema, {
+    fields: [calendarFeedTokensSchema.churchId],
+    references: [churchesSchema.id],
+  }),
+  ministry: one(ministriesSchema, {
+    fields: [calendarFeedTokensSchema.ministryId],
+    references: [ministriesSchema.id],
+  }),
+}));
+
+// Volunteer Availability relationships
+export const volunteerAvailabilityRelations = relations(volunteerAvailabilitySchema, ({ one }) => ({
+  organization: one(organizationSchema, {
+    fields: [volunteerAvailabilitySchema.organizationId],
+    references: [organizationSchema.id],
+  }),
+}));
+
+// Availability Blackouts relationships
+export const availabilityBlackoutsRelations = relations(availabilityBlackoutsSchema, ({ one }) => ({
+  organization: one(organizationSchema, {
+    fields: [availabilityBlackoutsSchema.organizationId],
+    references: [organizationSchema.id],
+  }),
+}));
+
+// Skills relationships
+export const skillsRelations = relations(skillsSchema, ({ one, many }) => ({
+  organization: one(organizationSchema, {
+    fields: [skillsSchema.organizationId],
+    references: [organizationSchema.id],
+  }),
+  memberSkills: many(memberSkillsSchema),
+}));
+
+// Member Skills relationships
+export const memberSkillsRelations = relations(memberSkillsSchema, ({ one }) => ({
+  organization: one(organizationSchema, {
+    fields: [memberSkillsSchema.organizationId],
+    references: [organizationSchema.id],
+  }),
+  skill: one(skillsSchema, {
+    fields: [memberSkillsSchema.skillId],
+    references: [skillsSchema.id],
+  }),
+  church: one(churchesSchema, {
+    fields: [memberSkillsSchema.churchId],
+    references: [churchesSchema.id],
+  }),
+}));
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  addZonedDays,
+  formatInTimeZone,
+  getTimeZoneOffset,
+  getZonedMonthRange,
+  getZonedParts,
+  getZonedWeekRange,
+  isValidTimeZone,
+  normalizeTimeZone,
+  parseLocalDateTime,
+  startOfZonedDay,
+  toLocalDateKey,
+  zonedTimeToUtc,
+} from './TimeZone';
+
+describe('TimeZone', () => {
+  describe('isValidTimeZone / normalizeTimeZone', () => {
+    it('recognizes IANA time zones', () => {
+      expect(isValidTimeZone('America/Toronto')).toBe(true);
+      expect(isValidTimeZone('Not/AZone')).toBe(false);
+      expect(isValidTimeZone(null)).toBe(false);
+    });
+
+    it('falls back to UTC for unknown zones', () => {
+      expect(normalizeTimeZone('Not/AZone')).toBe('UTC');
+      expect(normalizeTimeZone(undefined)).toBe('UTC');
+      expect(normalizeTimeZone('Europe/Paris')).toBe('Europe/Paris');
+    });
+  });
+
+  describe('getZonedParts', () => {
+    it('returns the wall-clock time and weekday in the zone', () => {
+      // Monday 02:00 UTC is still Sunday evening in Toronto
+      const parts = getZonedParts(new Date('2025-01-06T02:00:00Z'), 'America/Toronto');
+
+      expect(parts).toEqual({
+        year: 2025,
+        month: 1,
+        day: 5,
+        hour: 21,
+        minute: 0,
+        second: 0,
+        weekday: 0,
+      });
+    });
+  });
+
+  describe('getTimeZoneOffset', () => {
+    it('follows daylight saving time', () => {
+      expect(getTimeZoneOffset(new Date('2025-01-15T12:00:00Z'), 'America/Toronto')).toBe(-300);
+      expect(getTimeZoneOffset(new Date('2025-07-15T12:00:00Z'), 'America/Toronto')).toBe(-240);
+      expect(getTimeZoneOffset(new Date('2025-07-15T12:00:00Z'), 'Europe/Paris')).toBe(120);
+      expect(getTimeZoneOffset(new Date('2025-07-15T12:00:00Z'), 'UTC')).toBe(0);
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('converts regular wall-clock times', () => {
+      expect(zonedTimeToUtc({ year: 2025, month: 1, day: 5, hour: 10 }, 'America/Toronto').toISOString())
+        .toBe('2025-01-05T15:00:00.000Z');
+      expect(zonedTimeToUtc({ year: 2025, month: 7, day: 6, hour: 10 }, 'America/Toronto').toISOString())
+        .toBe('2025-07-06T14:00:00.000Z');
+      expect(zonedTimeToUtc({ year: 2025, month: 7, day: 6, hour: 10 }, 'Asia/Tokyo').toISOString())
+        .toBe('2025-07-06T01:00:00.000Z');
+    });
+
+    it('moves times skipped by spring-forward later', () => {
+      expect(zonedTimeToUtc({ year: 2025, month: 3, day: 9, hour: 2, minute: 30 }, 'America/Toronto').toISOString())
+        .toBe('2025-03-09T07:30:00.000Z');
+      expect(zonedTimeToUtc({ year: 2025, month: 3, day: 30, hour: 2, minute: 30 }, 'Europe/Paris').toISOString())
+        .toBe('2025-03-30T01:30:00.000Z');
+    });
+
+    it('resolves ambiguous fall-back times to the first occurrence', () => {
+      expect(zonedTimeToUtc({ year: 2025, month: 11, day: 2, hour: 1, minute: 30 }, 'America/Toronto').toISOString())
+        .toBe('2025-11-02T05:30:00.000Z');
+      expect(zonedTimeToUtc({ year: 2025, month: 10, day: 26, hour: 2, minute: 30 }, 'Europe/Paris').toISOString())
+        .toBe('2025-10-26T00:30:00.000Z');
+    });
+  });
+
+  describe('toLocalDateKey', () => {
+    it('uses the calendar date of the zone', () => {
+      expect(toLocalDateKey(new Date('2025-01-06T02:00:00Z'), 'America/Toronto')).toBe('2025-01-05');
+      expect(toLocalDateKey(new Date('2025-01-06T02:00:00Z'), 'UTC')).toBe('2025-01-06');
+    });
+  });
+
+  describe('calendar boundaries', () => {
+    it('keeps the wall-clock time across DST when adding days', () => {
+      expect(addZonedDays(new Date('2025-03-08T15:00:00Z'), 1, 'America/Toronto'))
+        .toEqual(new Date('2025-03-09T14:00:00Z'));
+    });
+
+    it('starts days at local midnight', () => {
+      expect(startOfZonedDay(new Date('2025-01-06T02:00:00Z'), 'America/Toronto'))
+        .toEqual(new Date('2025-01-05T05:00:00Z'));
+    });
+
+    it('computes weeks and months in the zone', () => {
+      // Saturday evening in Montréal is already Sunday in UTC
+      const saturday = new Date('2025-03-09T02:00:00Z');
+
+      expect(getZonedWeekRange(saturday, 'America/Toronto')).toEqual({
+        start: new Date('2025-03-02T05:00:00Z'),
+        end: new Date('2025-03-09T05:00:00Z'),
+      });
+      expect(getZonedWeekRange(saturday, 'UTC')).toEqual({
+        start: new Date('2025-03-09T00:00:00Z'),
+        end: new Date('2025-03-16T00:00:00Z'),
+      });
+      expect(getZonedWeekRange(saturday, 'America/Toronto', 1).start).toEqual(new Date('2025-03-03T05:00:00Z'));
+      expect(getZonedMonthRange(new Date('2025-04-01T02:00:00Z'), 'America/Toronto')).toEqual({
+        start: new Date('2025-03-01T05:00:00Z'),
+        end: new Date('2025-04-01T04:00:00Z'),
+      });
+    });
+  });
+
+  describe('parseLocalDateTime', () => {
+    it('reads date-times without an offset', () => {
+      expect(parseLocalDateTime('2025-03-02T10:00')).toEqual({ year: 2025, month: 3, day: 2, hour: 10, minute: 0, second: 0 });
+      expect(parseLocalDateTime('2025-03-02T10:00:30.000')).toMatchObject({ second: 30 });
+      expect(parseLocalDateTime('2025-03-02T10:00:00Z')).toBeNull();
+      expect(parseLocalDateTime('2025-03-02T10:00:00-05:00')).toBeNull();
+      expect(parseLocalDateTime('2025-03-02')).toBeNull();
+    });
+  });
+
+  describe('formatInTimeZone', () => {
+    it('shows the wall-clock time of the zone', () => {
+      const instant = new Date('2025-03-02T15:00:00Z');
+
+      expect(formatInTimeZone(instant, 'America/Toronto', undefined, 'en-US')).toBe('Sun, Mar 2, 10:00 AM EST');
+      expect(formatInTimeZone(instant, 'Europe/Paris', { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }, 'en-US'))
+        .toBe('16:00');
+      expect(formatInTimeZone(instant, 'Not/AZone', { hour: 'numeric', hourCycle: 'h23' }, 'en-US')).toBe('15');
+    });
+  });
+});
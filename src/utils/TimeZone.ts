@@ -0,0 +1,224 @@
+// Time zone helpers built on the Intl API so they work the same on the server and in the browser.
+// Dates are always stored as UTC instants; these helpers translate them to and from the wall-clock
+// time of a church (e.g. 10:00 in America/Toronto), taking daylight saving time into account.
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+export type ZonedDateTime = {
+  year: number;
+  month: number; // 1-12
+  day: number; // 1-31
+  hour: number; // 0-23
+  minute: number;
+  second: number;
+  weekday: number; // 0-6, Sunday = 0
+};
+
+export type LocalDateTime = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+
+  return formatter;
+}
+
+/**
+ * Check whether a string is an IANA time zone supported by the runtime
+ */
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) {
+    return false;
+  }
+
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Return the time zone if it is valid, otherwise fall back to UTC
+ */
+export function normalizeTimeZone(timeZone: string | null | undefined): string {
+  return isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Get the wall-clock components of an instant in the given time zone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateTime {
+  const values: Record<string, number> = {};
+
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      values[part.type] = Number(part.value);
+    }
+  }
+
+  const year = values.year!;
+  const month = values.month!;
+  const day = values.day!;
+
+  return {
+    year,
+    month,
+    day,
+    hour: values.hour!,
+    minute: values.minute!,
+    second: values.second!,
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+  };
+}
+
+/**
+ * Offset of the time zone from UTC at the given instant, in minutes (e.g. -240 for EDT)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+
+  return Math.round((asUtc - instant) / 60_000);
+}
+
+/**
+ * Convert a wall-clock time in a time zone to a UTC instant.
+ * Times skipped by a DST jump are moved forward; ambiguous times resolve to the first occurrence.
+ */
+export function zonedTimeToUtc(local: LocalDateTime, timeZone: string): Date {
+  const localAsUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour ?? 0,
+    local.minute ?? 0,
+    local.second ?? 0,
+  );
+
+  // Offsets a day either side cover any DST transition happening around this time
+  const offsetBefore = getTimeZoneOffset(new Date(localAsUtc - 86_400_000), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(localAsUtc + 86_400_000), timeZone);
+
+  const candidates = [offsetBefore, offsetAfter]
+    .map(offset => localAsUtc - offset * 60_000)
+    .filter(utc => getTimeZoneOffset(new Date(utc), timeZone) * 60_000 === localAsUtc - utc)
+    .sort((a, b) => a - b);
+
+  // No candidate means the wall-clock time falls in a DST gap: keep the pre-transition offset
+  const utc = candidates[0] ?? localAsUtc - offsetBefore * 60_000;
+
+  return new Date(utc);
+}
+
+/**
+ * Format the calendar date of an instant in a time zone as YYYY-MM-DD
+ */
+export function toLocalDateKey(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Move an instant by whole calendar days in a time zone, keeping its wall-clock time
+ * (one day after Saturday 10:00 is Sunday 10:00, even when DST starts overnight)
+ */
+export function addZonedDays(date: Date, days: number, timeZone: string): Date {
+  const parts = getZonedParts(date, timeZone);
+  return zonedTimeToUtc({ ...parts, day: parts.day + days }, timeZone);
+}
+
+/**
+ * The instant the calendar day of the given instant starts in a time zone
+ */
+export function startOfZonedDay(date: Date, timeZone: string): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc({ year, month, day }, timeZone);
+}
+
+/**
+ * The week containing an instant in a time zone, from midnight of its first day (Sunday by
+ * default) to midnight of the next week's first day
+ */
+export function getZonedWeekRange(date: Date, timeZone: string, weekStartsOn = 0): { start: Date; end: Date } {
+  const { year, month, day, weekday } = getZonedParts(date, timeZone);
+  const firstDay = day - ((weekday - weekStartsOn + 7) % 7);
+
+  return {
+    start: zonedTimeToUtc({ year, month, day: firstDay }, timeZone),
+    end: zonedTimeToUtc({ year, month, day: firstDay + 7 }, timeZone),
+  };
+}
+
+/**
+ * The calendar month containing an instant in a time zone, from midnight of its first day to
+ * midnight of the next month's first day
+ */
+export function getZonedMonthRange(date: Date, timeZone: string): { start: Date; end: Date } {
+  const { year, month } = getZonedParts(date, timeZone);
+
+  return {
+    start: zonedTimeToUtc({ year, month, day: 1 }, timeZone),
+    end: zonedTimeToUtc({ year, month: month + 1, day: 1 }, timeZone),
+  };
+}
+
+/**
+ * Parse an ISO date-time without a UTC offset (e.g. 2025-03-02T10:00) as a wall-clock time.
+ * Returns null for anything else, including date-times carrying their own offset.
+ */
+export function parseLocalDateTime(value: string): LocalDateTime | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?$/.exec(value);
+
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+
+  return { year: year!, month: month!, day: day!, hour, minute, second: second || 0 };
+}
+
+/**
+ * Format an instant as wall-clock time in a time zone. Without options it shows the short date,
+ * the time and the zone abbreviation, e.g. "Sun, Mar 2, 10:00 AM EST".
+ */
+export function formatInTimeZone(
+  date: Date | string,
+  timeZone: string | null | undefined,
+  options: Intl.DateTimeFormatOptions = {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  },
+  locale?: string,
+): string {
+  return new Date(date).toLocaleString(locale, { ...options, timeZone: normalizeTimeZone(timeZone) });
+}